@@ -1098,6 +1098,48 @@ public struct SessionsPreviewParams: Codable, Sendable {
     }
 }
 
+public struct SessionsSearchParams: Codable, Sendable {
+    public let query: String
+    public let agentid: String?
+    public let channel: String?
+    public let role: AnyCodable?
+    public let toolname: String?
+    public let startdate: String?
+    public let enddate: String?
+    public let limit: Int?
+
+    public init(
+        query: String,
+        agentid: String?,
+        channel: String?,
+        role: AnyCodable?,
+        toolname: String?,
+        startdate: String?,
+        enddate: String?,
+        limit: Int?)
+    {
+        self.query = query
+        self.agentid = agentid
+        self.channel = channel
+        self.role = role
+        self.toolname = toolname
+        self.startdate = startdate
+        self.enddate = enddate
+        self.limit = limit
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case query
+        case agentid = "agentId"
+        case channel
+        case role
+        case toolname = "toolName"
+        case startdate = "startDate"
+        case enddate = "endDate"
+        case limit
+    }
+}
+
 public struct SessionsResolveParams: Codable, Sendable {
     public let key: String?
     public let sessionid: String?
@@ -1268,6 +1310,126 @@ public struct SessionsCompactParams: Codable, Sendable {
     }
 }
 
+public struct SessionsForkParams: Codable, Sendable {
+    public let key: String
+    public let turns: Int?
+
+    public init(
+        key: String,
+        turns: Int?)
+    {
+        self.key = key
+        self.turns = turns
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case key
+        case turns
+    }
+}
+
+public struct SessionsBranchesParams: Codable, Sendable {
+    public let key: String
+
+    public init(
+        key: String)
+    {
+        self.key = key
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case key
+    }
+}
+
+public struct SessionsSwitchParams: Codable, Sendable {
+    public let key: String
+    public let sessionid: String
+
+    public init(
+        key: String,
+        sessionid: String)
+    {
+        self.key = key
+        self.sessionid = sessionid
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case key
+        case sessionid = "sessionId"
+    }
+}
+
+public struct SessionsMcpServer: Codable, Sendable {
+    public let name: String
+    public let command: String?
+    public let args: [String]?
+    public let env: [String: AnyCodable]?
+    public let cwd: String?
+    public let url: String?
+    public let headers: [String: AnyCodable]?
+
+    public init(
+        name: String,
+        command: String?,
+        args: [String]?,
+        env: [String: AnyCodable]?,
+        cwd: String?,
+        url: String?,
+        headers: [String: AnyCodable]?)
+    {
+        self.name = name
+        self.command = command
+        self.args = args
+        self.env = env
+        self.cwd = cwd
+        self.url = url
+        self.headers = headers
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case name
+        case command
+        case args
+        case env
+        case cwd
+        case url
+        case headers
+    }
+}
+
+public struct SessionsMcpAttachParams: Codable, Sendable {
+    public let key: String
+    public let servers: [SessionsMcpServer]
+
+    public init(
+        key: String,
+        servers: [SessionsMcpServer])
+    {
+        self.key = key
+        self.servers = servers
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case key
+        case servers
+    }
+}
+
+public struct SessionsMcpDetachParams: Codable, Sendable {
+    public let key: String
+
+    public init(
+        key: String)
+    {
+        self.key = key
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case key
+    }
+}
+
 public struct SessionsUsageParams: Codable, Sendable {
     public let key: String?
     public let startdate: String?
@@ -1306,6 +1468,32 @@ public struct SessionsUsageParams: Codable, Sendable {
     }
 }
 
+public struct UsageBudgetParams: Codable, Sendable {
+    public let agentid: String?
+    public let key: String?
+    public let channel: String?
+    public let accountid: String?
+
+    public init(
+        agentid: String?,
+        key: String?,
+        channel: String?,
+        accountid: String?)
+    {
+        self.agentid = agentid
+        self.key = key
+        self.channel = channel
+        self.accountid = accountid
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case agentid = "agentId"
+        case key
+        case channel
+        case accountid = "accountId"
+    }
+}
+
 public struct ConfigGetParams: Codable, Sendable {}
 
 public struct ConfigSetParams: Codable, Sendable {
@@ -2282,25 +2470,59 @@ public struct ToolCatalogGroup: Codable, Sendable {
     }
 }
 
+public struct ToolCatalogWebProvider: Codable, Sendable {
+    public let id: String
+    public let label: String
+    public let source: AnyCodable
+    public let pluginid: String?
+    public let configured: Bool
+
+    public init(
+        id: String,
+        label: String,
+        source: AnyCodable,
+        pluginid: String?,
+        configured: Bool)
+    {
+        self.id = id
+        self.label = label
+        self.source = source
+        self.pluginid = pluginid
+        self.configured = configured
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case id
+        case label
+        case source
+        case pluginid = "pluginId"
+        case configured
+    }
+}
+
 public struct ToolsCatalogResult: Codable, Sendable {
     public let agentid: String
     public let profiles: [ToolCatalogProfile]
     public let groups: [ToolCatalogGroup]
+    public let webproviders: [String: AnyCodable]?
 
     public init(
         agentid: String,
         profiles: [ToolCatalogProfile],
-        groups: [ToolCatalogGroup])
+        groups: [ToolCatalogGroup],
+        webproviders: [String: AnyCodable]?)
     {
         self.agentid = agentid
         self.profiles = profiles
         self.groups = groups
+        self.webproviders = webproviders
     }
 
     private enum CodingKeys: String, CodingKey {
         case agentid = "agentId"
         case profiles
         case groups
+        case webproviders = "webProviders"
     }
 }
 
@@ -2478,6 +2700,24 @@ public struct CronListParams: Codable, Sendable {
 
 public struct CronStatusParams: Codable, Sendable {}
 
+public struct CronGraphParams: Codable, Sendable {
+    public let id: String?
+    public let jobid: String?
+
+    public init(
+        id: String?,
+        jobid: String?)
+    {
+        self.id = id
+        self.jobid = jobid
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case id
+        case jobid = "jobId"
+    }
+}
+
 public struct CronAddParams: Codable, Sendable {
     public let name: String
     public let agentid: AnyCodable?
@@ -2824,6 +3064,7 @@ public struct ExecApprovalRequestParams: Codable, Sendable {
     public let turnsourceto: AnyCodable?
     public let turnsourceaccountid: AnyCodable?
     public let turnsourcethreadid: AnyCodable?
+    public let tool: [String: AnyCodable]?
     public let timeoutms: Int?
     public let twophase: Bool?
 
@@ -2845,6 +3086,7 @@ public struct ExecApprovalRequestParams: Codable, Sendable {
         turnsourceto: AnyCodable?,
         turnsourceaccountid: AnyCodable?,
         turnsourcethreadid: AnyCodable?,
+        tool: [String: AnyCodable]?,
         timeoutms: Int?,
         twophase: Bool?)
     {
@@ -2865,6 +3107,7 @@ public struct ExecApprovalRequestParams: Codable, Sendable {
         self.turnsourceto = turnsourceto
         self.turnsourceaccountid = turnsourceaccountid
         self.turnsourcethreadid = turnsourcethreadid
+        self.tool = tool
         self.timeoutms = timeoutms
         self.twophase = twophase
     }
@@ -2887,6 +3130,7 @@ public struct ExecApprovalRequestParams: Codable, Sendable {
         case turnsourceto = "turnSourceTo"
         case turnsourceaccountid = "turnSourceAccountId"
         case turnsourcethreadid = "turnSourceThreadId"
+        case tool
         case timeoutms = "timeoutMs"
         case twophase = "twoPhase"
     }
@@ -2958,21 +3202,25 @@ public struct DeviceTokenRotateParams: Codable, Sendable {
     public let deviceid: String
     public let role: String
     public let scopes: [String]?
+    public let restrictions: [String: AnyCodable]?
 
     public init(
         deviceid: String,
         role: String,
-        scopes: [String]?)
+        scopes: [String]?,
+        restrictions: [String: AnyCodable]?)
     {
         self.deviceid = deviceid
         self.role = role
         self.scopes = scopes
+        self.restrictions = restrictions
     }
 
     private enum CodingKeys: String, CodingKey {
         case deviceid = "deviceId"
         case role
         case scopes
+        case restrictions
     }
 }
 
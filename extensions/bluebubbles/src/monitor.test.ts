@@ -121,6 +121,8 @@ function createMockRuntime(): PluginRuntime {
       textToSpeechTelephony: vi.fn() as unknown as PluginRuntime["tts"]["textToSpeechTelephony"],
     },
     tools: {
+      createMemoryEntriesTool:
+        vi.fn() as unknown as PluginRuntime["tools"]["createMemoryEntriesTool"],
       createMemoryGetTool: vi.fn() as unknown as PluginRuntime["tools"]["createMemoryGetTool"],
       createMemorySearchTool:
         vi.fn() as unknown as PluginRuntime["tools"]["createMemorySearchTool"],
@@ -40,6 +40,8 @@ function fakeApi(overrides: Partial<OpenClawPluginApi> = {}): OpenClawPluginApi
     registerCli() {},
     registerService() {},
     registerProvider() {},
+    registerWebSearchProvider() {},
+    registerWebFetchProvider() {},
     registerHook() {},
     registerHttpRoute() {},
     registerCommand() {},
@@ -18,12 +18,16 @@ const memoryCorePlugin = {
           config: ctx.config,
           agentSessionKey: ctx.sessionKey,
         });
-        if (!memorySearchTool || !memoryGetTool) {
+        const memoryEntriesTool = api.runtime.tools.createMemoryEntriesTool({
+          config: ctx.config,
+          agentSessionKey: ctx.sessionKey,
+        });
+        if (!memorySearchTool || !memoryGetTool || !memoryEntriesTool) {
           return null;
         }
-        return [memorySearchTool, memoryGetTool];
+        return [memorySearchTool, memoryGetTool, memoryEntriesTool];
       },
-      { names: ["memory_search", "memory_get"] },
+      { names: ["memory_search", "memory_get", "memory_entries"] },
     );
 
     api.registerCli(
@@ -9,6 +9,8 @@ export type AcpSessionStore = {
   setActiveRun: (sessionId: string, runId: string, abortController: AbortController) => void;
   clearActiveRun: (sessionId: string) => void;
   cancelActiveRun: (sessionId: string) => boolean;
+  /** Notified when an idle session is reaped or evicted; returns an unsubscribe function. */
+  onSessionRemoved: (listener: (session: AcpSession) => void) => () => void;
   clearAllSessionsForTest: () => void;
 };
 
@@ -27,6 +29,7 @@ export function createInMemorySessionStore(options: AcpSessionStoreOptions = {})
   const now = options.now ?? Date.now;
   const sessions = new Map<string, AcpSession>();
   const runIdToSessionId = new Map<string, string>();
+  const removedListeners = new Set<(session: AcpSession) => void>();
 
   const touchSession = (session: AcpSession, nowMs: number) => {
     session.lastTouchedAt = nowMs;
@@ -42,6 +45,9 @@ export function createInMemorySessionStore(options: AcpSessionStoreOptions = {})
     }
     session.abortController?.abort();
     sessions.delete(sessionId);
+    for (const listener of removedListeners) {
+      listener(session);
+    }
     return true;
   };
 
@@ -167,6 +173,13 @@ export function createInMemorySessionStore(options: AcpSessionStoreOptions = {})
     return true;
   };
 
+  const onSessionRemoved: AcpSessionStore["onSessionRemoved"] = (listener) => {
+    removedListeners.add(listener);
+    return () => {
+      removedListeners.delete(listener);
+    };
+  };
+
   const clearAllSessionsForTest: AcpSessionStore["clearAllSessionsForTest"] = () => {
     for (const session of sessions.values()) {
       session.abortController?.abort();
@@ -183,6 +196,7 @@ export function createInMemorySessionStore(options: AcpSessionStoreOptions = {})
     setActiveRun,
     clearActiveRun,
     cancelActiveRun,
+    onSessionRemoved,
     clearAllSessionsForTest,
   };
 }
@@ -0,0 +1,124 @@
+import type { LoadSessionRequest, NewSessionRequest } from "@agentclientprotocol/sdk";
+import { describe, expect, it, vi } from "vitest";
+import type { GatewayClient } from "../gateway/client.js";
+import { createInMemorySessionStore } from "./session.js";
+import { AcpGatewayAgent } from "./translator.js";
+import { createAcpConnection, createAcpGateway } from "./translator.test-helpers.js";
+
+const STDIO_SERVER = {
+  name: "files",
+  command: "files-mcp",
+  args: ["--root", "."],
+  env: [{ name: "TOKEN", value: "abc" }],
+};
+
+const HTTP_SERVER = {
+  type: "http",
+  name: "docs",
+  url: "https://mcp.example.com/docs",
+  headers: [{ name: "Authorization", value: "Bearer xyz" }],
+};
+
+function createNewSessionRequest(mcpServers: unknown[]): NewSessionRequest {
+  return { cwd: "/work/repo", mcpServers, _meta: {} } as unknown as NewSessionRequest;
+}
+
+function createLoadSessionRequest(sessionId: string, mcpServers: unknown[]): LoadSessionRequest {
+  return { sessionId, cwd: "/work/repo", mcpServers, _meta: {} } as unknown as LoadSessionRequest;
+}
+
+function mcpCalls(request: ReturnType<typeof vi.fn>) {
+  return request.mock.calls.filter(([method]) => String(method).startsWith("sessions.mcp."));
+}
+
+describe("acp session MCP servers", () => {
+  it("attaches client MCP servers to the gateway session", async () => {
+    const request = vi.fn(async () => ({ ok: true }));
+    const sessionStore = createInMemorySessionStore();
+    const agent = new AcpGatewayAgent(
+      createAcpConnection(),
+      createAcpGateway(request as GatewayClient["request"]),
+      { sessionStore },
+    );
+
+    const init = await agent.initialize({} as never);
+    expect(init.agentCapabilities?.mcpCapabilities).toEqual({ http: true, sse: false });
+
+    const { sessionId } = await agent.newSession(
+      createNewSessionRequest([
+        STDIO_SERVER,
+        HTTP_SERVER,
+        { type: "sse", name: "legacy", url: "https://mcp.example.com/sse", headers: [] },
+      ]),
+    );
+
+    expect(mcpCalls(request)).toEqual([
+      [
+        "sessions.mcp.attach",
+        {
+          key: `acp:${sessionId}`,
+          servers: [
+            {
+              name: "files",
+              command: "files-mcp",
+              args: ["--root", "."],
+              env: { TOKEN: "abc" },
+              cwd: "/work/repo",
+            },
+            {
+              name: "docs",
+              url: "https://mcp.example.com/docs",
+              headers: { Authorization: "Bearer xyz" },
+            },
+          ],
+        },
+      ],
+    ]);
+
+    sessionStore.clearAllSessionsForTest();
+  });
+
+  it("skips the gateway when no servers are passed", async () => {
+    const request = vi.fn(async () => ({ ok: true }));
+    const sessionStore = createInMemorySessionStore();
+    const agent = new AcpGatewayAgent(
+      createAcpConnection(),
+      createAcpGateway(request as GatewayClient["request"]),
+      { sessionStore },
+    );
+
+    await agent.newSession(createNewSessionRequest([]));
+    expect(mcpCalls(request)).toEqual([]);
+
+    sessionStore.clearAllSessionsForTest();
+  });
+
+  it("detaches servers when the session is evicted or reloaded without them", async () => {
+    const request = vi.fn(async () => ({ ok: true }));
+    const sessionStore = createInMemorySessionStore({ maxSessions: 1 });
+    const agent = new AcpGatewayAgent(
+      createAcpConnection(),
+      createAcpGateway(request as GatewayClient["request"]),
+      { sessionStore },
+    );
+
+    await agent.loadSession(createLoadSessionRequest("first", [STDIO_SERVER]));
+    await agent.loadSession(createLoadSessionRequest("first", []));
+    expect(mcpCalls(request).map(([method]) => method)).toEqual([
+      "sessions.mcp.attach",
+      "sessions.mcp.detach",
+    ]);
+
+    request.mockClear();
+    await agent.loadSession(createLoadSessionRequest("first", [STDIO_SERVER]));
+    await agent.loadSession(createLoadSessionRequest("second", []));
+    await vi.waitFor(() => {
+      expect(mcpCalls(request)).toEqual([
+        ["sessions.mcp.attach", expect.objectContaining({ key: "first" })],
+        ["sessions.mcp.detach", { key: "first" }],
+      ]);
+    });
+
+    sessionStore.clearAllSessionsForTest();
+  });
+});
@@ -11,6 +11,7 @@ import type {
   ListSessionsResponse,
   LoadSessionRequest,
   LoadSessionResponse,
+  McpServer,
   NewSessionRequest,
   NewSessionResponse,
   PromptRequest,
@@ -21,7 +22,7 @@ import type {
 } from "@agentclientprotocol/sdk";
 import { PROTOCOL_VERSION } from "@agentclientprotocol/sdk";
 import type { GatewayClient } from "../gateway/client.js";
-import type { EventFrame } from "../gateway/protocol/index.js";
+import type { EventFrame, SessionsMcpServer } from "../gateway/protocol/index.js";
 import type { SessionsListResult } from "../gateway/session-utils.js";
 import {
   createFixedWindowRateLimiter,
@@ -54,6 +55,11 @@ type PendingPrompt = {
   toolCalls?: Set<string>;
 };
 
+type AttachedMcpServers = {
+  sessionKey: string;
+  servers: SessionsMcpServer[];
+};
+
 type AcpGatewayAgentOptions = AcpServerOptions & {
   sessionStore?: AcpSessionStore;
 };
@@ -69,6 +75,7 @@ export class AcpGatewayAgent implements Agent {
   private sessionStore: AcpSessionStore;
   private sessionCreateRateLimiter: FixedWindowRateLimiter;
   private pendingPrompts = new Map<string, PendingPrompt>();
+  private attachedMcpServers = new Map<string, AttachedMcpServers>();
 
   constructor(
     connection: AgentSideConnection,
@@ -90,6 +97,9 @@ export class AcpGatewayAgent implements Agent {
         opts.sessionCreateRateLimit?.windowMs ?? SESSION_CREATE_RATE_LIMIT_DEFAULT_WINDOW_MS,
       ),
     });
+    this.sessionStore.onSessionRemoved((session) => {
+      void this.detachMcpServers(session.sessionId);
+    });
   }
 
   start(): void {
@@ -98,6 +108,10 @@ export class AcpGatewayAgent implements Agent {
 
   handleGatewayReconnect(): void {
     this.log("gateway reconnected");
+    // The Gateway drops session MCP servers with the old connection; re-attach them.
+    for (const attached of this.attachedMcpServers.values()) {
+      void this.requestMcpAttach(attached);
+    }
   }
 
   handleGatewayDisconnect(reason: string): void {
@@ -130,7 +144,7 @@ export class AcpGatewayAgent implements Agent {
           embeddedContext: true,
         },
         mcpCapabilities: {
-          http: false,
+          http: true,
           sse: false,
         },
         sessionCapabilities: {
@@ -143,9 +157,6 @@ export class AcpGatewayAgent implements Agent {
   }
 
   async newSession(params: NewSessionRequest): Promise<NewSessionResponse> {
-    if (params.mcpServers.length > 0) {
-      this.log(`ignoring ${params.mcpServers.length} MCP servers`);
-    }
     this.enforceSessionCreateRateLimit("newSession");
 
     const sessionId = randomUUID();
@@ -169,14 +180,12 @@ export class AcpGatewayAgent implements Agent {
       cwd: params.cwd,
     });
     this.log(`newSession: ${session.sessionId} -> ${session.sessionKey}`);
+    await this.attachMcpServers(session.sessionId, session.sessionKey, params);
     await this.sendAvailableCommands(session.sessionId);
     return { sessionId: session.sessionId };
   }
 
   async loadSession(params: LoadSessionRequest): Promise<LoadSessionResponse> {
-    if (params.mcpServers.length > 0) {
-      this.log(`ignoring ${params.mcpServers.length} MCP servers`);
-    }
     if (!this.sessionStore.hasSession(params.sessionId)) {
       this.enforceSessionCreateRateLimit("loadSession");
     }
@@ -201,6 +210,7 @@ export class AcpGatewayAgent implements Agent {
       cwd: params.cwd,
     });
     this.log(`loadSession: ${session.sessionId} -> ${session.sessionKey}`);
+    await this.attachMcpServers(session.sessionId, session.sessionKey, params);
     await this.sendAvailableCommands(session.sessionId);
     return {};
   }
@@ -486,6 +496,73 @@ export class AcpGatewayAgent implements Agent {
     });
   }
 
+  /**
+   * Attaches the client's MCP servers to the Gateway session for as long as this
+   * ACP session lives. Failures are logged so the session itself still opens.
+   */
+  private async attachMcpServers(
+    sessionId: string,
+    sessionKey: string,
+    params: { cwd: string; mcpServers: McpServer[] },
+  ): Promise<void> {
+    const servers = params.mcpServers
+      .map((server) => toGatewayMcpServer(server, params.cwd))
+      .filter((server): server is SessionsMcpServer => Boolean(server));
+    const skipped = params.mcpServers.length - servers.length;
+    if (skipped > 0) {
+      this.log(`ignoring ${skipped} unsupported (SSE) MCP servers`);
+    }
+    const previous = this.attachedMcpServers.get(sessionId);
+    if (servers.length === 0) {
+      if (previous) {
+        await this.detachMcpServers(sessionId);
+      }
+      return;
+    }
+    if (previous && previous.sessionKey !== sessionKey) {
+      await this.detachMcpServers(sessionId);
+    }
+    const attached = { sessionKey, servers };
+    this.attachedMcpServers.set(sessionId, attached);
+    await this.requestMcpAttach(attached);
+  }
+
+  private async requestMcpAttach(attached: AttachedMcpServers): Promise<void> {
+    try {
+      await this.gateway.request("sessions.mcp.attach", {
+        key: attached.sessionKey,
+        servers: attached.servers,
+      });
+      this.log(`attached ${attached.servers.length} MCP servers to ${attached.sessionKey}`);
+    } catch (err) {
+      this.log(`MCP attach error: ${String(err)}`);
+    }
+  }
+
+  private async detachMcpServers(sessionId: string): Promise<void> {
+    const attached = this.attachedMcpServers.get(sessionId);
+    if (!attached) {
+      return;
+    }
+    this.attachedMcpServers.delete(sessionId);
+    // Another ACP session may share the Gateway session; keep its servers.
+    const sharedWith = [...this.attachedMcpServers.values()].find(
+      (entry) => entry.sessionKey === attached.sessionKey,
+    );
+    try {
+      if (sharedWith) {
+        await this.gateway.request("sessions.mcp.attach", {
+          key: sharedWith.sessionKey,
+          servers: sharedWith.servers,
+        });
+      } else {
+        await this.gateway.request("sessions.mcp.detach", { key: attached.sessionKey });
+      }
+    } catch (err) {
+      this.log(`MCP detach error: ${String(err)}`);
+    }
+  }
+
   private enforceSessionCreateRateLimit(method: "newSession" | "loadSession"): void {
     const budget = this.sessionCreateRateLimiter.consume();
     if (budget.allowed) {
@@ -496,3 +573,27 @@ export class AcpGatewayAgent implements Agent {
     );
   }
 }
+
+function toGatewayMcpServer(server: McpServer, cwd: string): SessionsMcpServer | null {
+  if ("type" in server) {
+    if (server.type !== "http") {
+      return null;
+    }
+    return {
+      name: server.name,
+      url: server.url,
+      ...(server.headers.length > 0
+        ? { headers: Object.fromEntries(server.headers.map((h) => [h.name, h.value])) }
+        : {}),
+    };
+  }
+  return {
+    name: server.name,
+    command: server.command,
+    args: server.args,
+    ...(server.env.length > 0
+      ? { env: Object.fromEntries(server.env.map((entry) => [entry.name, entry.value])) }
+      : {}),
+    cwd,
+  };
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { listMcpServerSnapshots } from "../mcp/manager.js";
+import {
+  buildMcpToolName,
+  listRunningMcpTools,
+  resolveMcpServersForAgent,
+  toAgentToolResult,
+} from "./mcp-tools.js";
+import {
+  expandPluginGroups,
+  stripPluginOnlyAllowlist,
+  type PluginToolGroups,
+} from "./tool-policy.js";
+
+describe("mcp tools", () => {
+  it("builds provider-safe tool names", () => {
+    expect(buildMcpToolName("github", "create_issue")).toBe("mcp__github__create_issue");
+    expect(buildMcpToolName("my.server", "do thing")).toBe("mcp__my_server__do_thing");
+    const long = buildMcpToolName("server", "x".repeat(80));
+    expect(long).toHaveLength(64);
+    expect(long).toMatch(/^mcp__server__x+_[0-9a-f]{8}$/);
+  });
+
+  it("merges agent servers over global servers and drops disabled ones", () => {
+    const cfg = {
+      tools: {
+        mcp: {
+          servers: {
+            github: { command: "gh-mcp" },
+            files: { command: "files-mcp" },
+          },
+        },
+      },
+      agents: {
+        list: [
+          {
+            id: "ops",
+            tools: {
+              mcp: {
+                servers: {
+                  github: { url: "https://mcp.example.com/github" },
+                  files: { enabled: false },
+                },
+              },
+            },
+          },
+        ],
+      },
+    } as OpenClawConfig;
+
+    expect(resolveMcpServersForAgent(cfg)).toEqual({
+      github: { command: "gh-mcp" },
+      files: { command: "files-mcp" },
+    });
+    expect(resolveMcpServersForAgent(cfg, "ops")).toEqual({
+      github: { url: "https://mcp.example.com/github" },
+    });
+  });
+
+  it("lists running server tools without starting configured servers", () => {
+    const cfg = {
+      tools: { mcp: { servers: { github: { command: "gh-mcp" } } } },
+    } as OpenClawConfig;
+
+    expect(listRunningMcpTools({ config: cfg })).toEqual([]);
+    expect(listMcpServerSnapshots()).toEqual([]);
+  });
+
+  it("maps MCP content blocks to agent tool content", () => {
+    const result = toAgentToolResult({
+      content: [
+        { type: "text", text: "hello" },
+        { type: "image", data: "aGk=", mimeType: "image/png" },
+        { type: "resource_link", uri: "file:///tmp/a.txt", name: "a.txt" },
+      ],
+    });
+    expect(result.content).toEqual([
+      { type: "text", text: "hello" },
+      { type: "image", data: "aGk=", mimeType: "image/png" },
+      { type: "text", text: "[resource file:///tmp/a.txt (a.txt)]" },
+    ]);
+    expect(toAgentToolResult({ structuredContent: { ok: true } }).content).toEqual([
+      { type: "text", text: '{\n  "ok": true\n}' },
+    ]);
+  });
+
+  it("expands group:mcp and server ids in tool policies", () => {
+    const groups: PluginToolGroups = {
+      all: ["lobster", "mcp__github__create_issue", "mcp__files__read"],
+      byPlugin: new Map([
+        ["lobster", ["lobster"]],
+        ["mcp:github", ["mcp__github__create_issue"]],
+        ["mcp:files", ["mcp__files__read"]],
+      ]),
+    };
+    expect(expandPluginGroups(["group:mcp", "read"], groups)).toEqual([
+      "mcp__github__create_issue",
+      "mcp__files__read",
+      "read",
+    ]);
+    expect(expandPluginGroups(["mcp:github"], groups)).toEqual(["mcp__github__create_issue"]);
+    expect(
+      stripPluginOnlyAllowlist({ allow: ["group:mcp"] }, groups, new Set(["read"])),
+    ).toMatchObject({ strippedAllowlist: true, unknownAllowlist: [] });
+  });
+});
@@ -0,0 +1,254 @@
+import crypto from "node:crypto";
+import type { AgentToolResult } from "@mariozechner/pi-agent-core";
+import type { OpenClawConfig } from "../config/config.js";
+import type { McpServerConfig } from "../config/types.tools.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import {
+  callMcpTool,
+  DEFAULT_MCP_STARTUP_TIMEOUT_MS,
+  ensureMcpServers,
+  listMcpServerSnapshots,
+  pruneMcpServers,
+  resolveMcpServerKey,
+  waitForMcpServers,
+  type McpServerSnapshot,
+} from "../mcp/manager.js";
+import { listSessionMcpServerKeys, resolveSessionMcpServers } from "../mcp/session-servers.js";
+import type { McpCallToolResult, McpContentBlock, McpTool } from "../mcp/types.js";
+import { resolveAgentConfig } from "./agent-scope.js";
+import { normalizeToolName } from "./tool-policy.js";
+import type { AnyAgentTool } from "./tools/common.js";
+
+const log = createSubsystemLogger("mcp");
+
+const MAX_TOOL_NAME_LENGTH = 64;
+
+type McpToolMeta = {
+  /** Policy id: `mcp:<server>` works like a plugin id in allow/deny lists. */
+  pluginId: string;
+  serverName: string;
+  mcpToolName: string;
+};
+
+const mcpToolMeta = new WeakMap<AnyAgentTool, McpToolMeta>();
+
+export function getMcpToolMeta(tool: AnyAgentTool): McpToolMeta | undefined {
+  return mcpToolMeta.get(tool);
+}
+
+export function resolveMcpPolicyId(serverName: string): string {
+  return `mcp:${serverName}`;
+}
+
+/** Global servers merged with per-agent overrides (same name wins); disabled servers dropped. */
+export function resolveMcpServersForAgent(
+  cfg: OpenClawConfig | undefined,
+  agentId?: string,
+): Record<string, McpServerConfig> {
+  const merged: Record<string, McpServerConfig> = {
+    ...cfg?.tools?.mcp?.servers,
+    ...(cfg && agentId ? resolveAgentConfig(cfg, agentId)?.tools?.mcp?.servers : undefined),
+  };
+  return Object.fromEntries(
+    Object.entries(merged).filter(([, server]) => server.enabled !== false),
+  );
+}
+
+function collectConfiguredMcpServerKeys(cfg: OpenClawConfig | undefined): Set<string> {
+  const keys = new Set<string>();
+  const agentIds = [undefined, ...(cfg?.agents?.list ?? []).map((agent) => agent.id)];
+  for (const agentId of agentIds) {
+    for (const [name, server] of Object.entries(resolveMcpServersForAgent(cfg, agentId))) {
+      keys.add(resolveMcpServerKey(name, server));
+    }
+  }
+  for (const key of listSessionMcpServerKeys()) {
+    keys.add(key);
+  }
+  return keys;
+}
+
+/**
+ * Starts the agent's configured servers plus any attached to the session (for
+ * example by an ACP client). Session servers replace same-named configured ones.
+ */
+function ensureServersForRun(params: {
+  config?: OpenClawConfig;
+  agentId?: string;
+  sessionKey?: string;
+}): McpServerSnapshot[] {
+  const sessionServers = params.sessionKey ? resolveSessionMcpServers(params.sessionKey) : {};
+  const configured = Object.fromEntries(
+    Object.entries(resolveMcpServersForAgent(params.config, params.agentId)).filter(
+      ([name]) => !(name in sessionServers),
+    ),
+  );
+  return [
+    ...ensureMcpServers(configured),
+    ...(params.sessionKey ? ensureMcpServers(sessionServers, params.sessionKey) : []),
+  ];
+}
+
+function sanitizeNamePart(value: string): string {
+  return value.replace(/[^A-Za-z0-9_-]/g, "_");
+}
+
+/** `mcp__<server>__<tool>`, kept within provider tool-name limits. */
+export function buildMcpToolName(serverName: string, toolName: string): string {
+  const name = `mcp__${sanitizeNamePart(serverName)}__${sanitizeNamePart(toolName)}`;
+  if (name.length <= MAX_TOOL_NAME_LENGTH) {
+    return name;
+  }
+  const hash = crypto.createHash("sha256").update(name).digest("hex").slice(0, 8);
+  return `${name.slice(0, MAX_TOOL_NAME_LENGTH - hash.length - 1)}_${hash}`;
+}
+
+function normalizeInputSchema(schema: McpTool["inputSchema"] | undefined) {
+  if (!schema || typeof schema !== "object" || schema.type !== "object") {
+    return { type: "object", properties: {} };
+  }
+  return schema;
+}
+
+function describeContentBlock(block: McpContentBlock): string {
+  switch (block.type) {
+    case "audio":
+      return `[audio ${block.mimeType}]`;
+    case "resource_link":
+      return `[resource ${block.uri}${block.name ? ` (${block.name})` : ""}]`;
+    case "resource":
+      return block.resource.text ?? `[resource ${block.resource.uri}]`;
+    default:
+      return `[${(block as { type?: string }).type ?? "unknown"} content]`;
+  }
+}
+
+export function toAgentToolResult(result: McpCallToolResult): AgentToolResult<unknown> {
+  const content: AgentToolResult<unknown>["content"] = [];
+  for (const block of result.content ?? []) {
+    if (block.type === "text") {
+      content.push({ type: "text", text: block.text });
+    } else if (block.type === "image") {
+      content.push({ type: "image", data: block.data, mimeType: block.mimeType });
+    } else {
+      content.push({ type: "text", text: describeContentBlock(block) });
+    }
+  }
+  if (content.length === 0 && result.structuredContent) {
+    content.push({ type: "text", text: JSON.stringify(result.structuredContent, null, 2) });
+  }
+  return { content, details: result.structuredContent ?? {} };
+}
+
+function createMcpTool(server: McpServerSnapshot, tool: McpTool): AnyAgentTool {
+  const title = tool.title ?? tool.annotations?.title;
+  const agentTool: AnyAgentTool = {
+    name: buildMcpToolName(server.name, tool.name),
+    label: title ?? tool.name,
+    description: `[MCP ${server.name}] ${tool.description ?? title ?? tool.name}`,
+    parameters: normalizeInputSchema(tool.inputSchema) as AnyAgentTool["parameters"],
+    execute: async (_toolCallId, args, signal) => {
+      const result = await callMcpTool({
+        key: server.key,
+        toolName: tool.name,
+        args: (args ?? {}) as Record<string, unknown>,
+        signal,
+      });
+      const converted = toAgentToolResult(result);
+      if (result.isError) {
+        const text = converted.content
+          .map((block) => (block.type === "text" ? block.text : ""))
+          .filter(Boolean)
+          .join("\n");
+        throw new Error(text || `MCP tool ${tool.name} failed`);
+      }
+      return converted;
+    },
+  };
+  mcpToolMeta.set(agentTool, {
+    pluginId: resolveMcpPolicyId(server.name),
+    serverName: server.name,
+    mcpToolName: tool.name,
+  });
+  return agentTool;
+}
+
+/**
+ * Wraps tools from connected MCP servers. Tool construction is synchronous, so
+ * this only sees servers that have already connected; `prepareMcpTools` gives
+ * first-time servers a bounded head start.
+ */
+export function resolveMcpTools(params: {
+  config?: OpenClawConfig;
+  agentId?: string;
+  sessionKey?: string;
+  existingToolNames?: Set<string>;
+}): AnyAgentTool[] {
+  void pruneMcpServers(collectConfiguredMcpServerKeys(params.config));
+  return wrapServerTools(ensureServersForRun(params), params.existingToolNames);
+}
+
+/**
+ * Tools of the agent's configured servers that are already running. Unlike
+ * `resolveMcpTools` this never starts or stops a server, so read-only callers
+ * (the tools catalog) can use it.
+ */
+export function listRunningMcpTools(params: {
+  config?: OpenClawConfig;
+  agentId?: string;
+  existingToolNames?: Set<string>;
+}): AnyAgentTool[] {
+  const keys = new Set(
+    Object.entries(resolveMcpServersForAgent(params.config, params.agentId)).map(([name, server]) =>
+      resolveMcpServerKey(name, server),
+    ),
+  );
+  const servers = listMcpServerSnapshots().filter((server) => keys.has(server.key));
+  return wrapServerTools(servers, params.existingToolNames);
+}
+
+function wrapServerTools(
+  servers: McpServerSnapshot[],
+  existingToolNames: Set<string> | undefined,
+): AnyAgentTool[] {
+  if (servers.length === 0) {
+    return [];
+  }
+  const existing = new Set([...(existingToolNames ?? [])].map((name) => normalizeToolName(name)));
+  const tools: AnyAgentTool[] = [];
+  for (const server of servers) {
+    if (server.status !== "ready") {
+      continue;
+    }
+    for (const tool of server.tools) {
+      const agentTool = createMcpTool(server, tool);
+      const normalized = normalizeToolName(agentTool.name);
+      if (existing.has(normalized)) {
+        log.warn(`${server.name}: tool name conflict (${agentTool.name}); skipping`);
+        continue;
+      }
+      existing.add(normalized);
+      tools.push(agentTool);
+    }
+  }
+  return tools;
+}
+
+/** Starts the run's MCP servers and waits (bounded) for first-time connections. */
+export async function prepareMcpTools(params: {
+  config?: OpenClawConfig;
+  agentId?: string;
+  sessionKey?: string;
+}): Promise<void> {
+  const snapshots = ensureServersForRun(params);
+  if (snapshots.length === 0) {
+    return;
+  }
+  const timeoutMs = Math.max(
+    ...snapshots.map((server) => server.config.startupTimeoutMs ?? DEFAULT_MCP_STARTUP_TIMEOUT_MS),
+  );
+  await waitForMcpServers(
+    snapshots.map((server) => server.key),
+    timeoutMs,
+  );
+}
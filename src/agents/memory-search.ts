@@ -71,6 +71,19 @@ export type ResolvedMemorySearchConfig = {
         halfLifeDays: number;
       };
     };
+    rerank: {
+      enabled: boolean;
+      provider: "local" | "remote";
+      model?: string;
+      topN: number;
+      timeoutMs: number;
+      modelCacheDir?: string;
+      remote?: {
+        baseUrl?: string;
+        apiKey?: string;
+        headers?: Record<string, string>;
+      };
+    };
   };
   cache: {
     enabled: boolean;
@@ -97,6 +110,8 @@ const DEFAULT_MMR_ENABLED = false;
 const DEFAULT_MMR_LAMBDA = 0.7;
 const DEFAULT_TEMPORAL_DECAY_ENABLED = false;
 const DEFAULT_TEMPORAL_DECAY_HALF_LIFE_DAYS = 30;
+const DEFAULT_RERANK_TOP_N = 20;
+const DEFAULT_RERANK_TIMEOUT_MS = 5000;
 const DEFAULT_CACHE_ENABLED = true;
 const DEFAULT_SOURCES: Array<"memory" | "sessions"> = ["memory"];
 
@@ -273,6 +288,28 @@ function mergeConfig(
         DEFAULT_TEMPORAL_DECAY_HALF_LIFE_DAYS,
     },
   };
+  const rerankDefaults = defaults?.query?.rerank;
+  const rerankOverrides = overrides?.query?.rerank;
+  const rerankRemote =
+    rerankOverrides?.remote || rerankDefaults?.remote
+      ? {
+          baseUrl: rerankOverrides?.remote?.baseUrl ?? rerankDefaults?.remote?.baseUrl,
+          apiKey: rerankOverrides?.remote?.apiKey ?? rerankDefaults?.remote?.apiKey,
+          headers: rerankOverrides?.remote?.headers ?? rerankDefaults?.remote?.headers,
+        }
+      : undefined;
+  const rerank = {
+    enabled: Boolean(rerankOverrides?.enabled ?? rerankDefaults?.enabled ?? false),
+    provider: rerankOverrides?.provider ?? rerankDefaults?.provider ?? "local",
+    model: rerankOverrides?.model ?? rerankDefaults?.model,
+    topN: clampInt(rerankOverrides?.topN ?? rerankDefaults?.topN ?? DEFAULT_RERANK_TOP_N, 1, 200),
+    timeoutMs: Math.max(
+      1,
+      rerankOverrides?.timeoutMs ?? rerankDefaults?.timeoutMs ?? DEFAULT_RERANK_TIMEOUT_MS,
+    ),
+    modelCacheDir: rerankOverrides?.modelCacheDir ?? rerankDefaults?.modelCacheDir,
+    remote: rerankRemote,
+  };
   const cache = {
     enabled: overrides?.cache?.enabled ?? defaults?.cache?.enabled ?? DEFAULT_CACHE_ENABLED,
     maxEntries: overrides?.cache?.maxEntries ?? defaults?.cache?.maxEntries,
@@ -336,6 +373,7 @@ function mergeConfig(
           halfLifeDays: temporalDecayHalfLifeDays,
         },
       },
+      rerank,
     },
     cache: {
       enabled: Boolean(cache.enabled),
@@ -24,8 +24,10 @@ const AWS_BEARER_ENV = "AWS_BEARER_TOKEN_BEDROCK";
 const AWS_ACCESS_KEY_ENV = "AWS_ACCESS_KEY_ID";
 const AWS_SECRET_KEY_ENV = "AWS_SECRET_ACCESS_KEY";
 const AWS_PROFILE_ENV = "AWS_PROFILE";
+/** Placeholder credential for `replay` providers, which never call a remote API. */
+export const REPLAY_API_KEY = "replay-local";
 
-function resolveProviderConfig(
+export function resolveProviderConfig(
   cfg: OpenClawConfig | undefined,
   provider: string,
 ): ModelProviderConfig | undefined {
@@ -207,6 +209,10 @@ export async function resolveApiKeyForProvider(params: {
     return { apiKey: customKey, source: "models.json", mode: "api-key" };
   }
 
+  if (resolveProviderConfig(cfg, provider)?.api === "replay") {
+    return { apiKey: REPLAY_API_KEY, source: "replay", mode: "api-key" };
+  }
+
   const normalized = normalizeProviderId(provider);
   if (authOverride === undefined && normalized === "amazon-bedrock") {
     return resolveAwsSdkAuthInfo();
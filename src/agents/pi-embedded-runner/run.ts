@@ -2,6 +2,11 @@ import { randomBytes } from "node:crypto";
 import fs from "node:fs/promises";
 import type { ThinkLevel } from "../../auto-reply/thinking.js";
 import { generateSecureToken } from "../../infra/secure-random.js";
+import {
+  consumeUsageBudgetNotice,
+  formatUsageBudgetBlockedMessage,
+  type UsageBudgetEvaluation,
+} from "../../infra/usage-budgets.js";
 import { getGlobalHookRunner } from "../../plugins/hook-runner-global.js";
 import type { PluginHookBeforeAgentStartResult } from "../../plugins/types.js";
 import { enqueueCommandInLane } from "../../process/command-queue.js";
@@ -48,6 +53,7 @@ import {
   pickFallbackThinkingLevel,
   type FailoverReason,
 } from "../pi-embedded-helpers.js";
+import { ensureReplayApiProvider, REPLAY_API } from "../replay-stream.js";
 import { derivePromptTokens, normalizeUsage, type UsageLike } from "../usage.js";
 import { redactRunIdentifier, resolveRunWorkspaceDir } from "../workspace-run.js";
 import { compactEmbeddedPiSessionDirect } from "./compact.js";
@@ -55,8 +61,10 @@ import { resolveGlobalLane, resolveSessionLane } from "./lanes.js";
 import { log } from "./logger.js";
 import { resolveModel } from "./model.js";
 import { runEmbeddedAttempt } from "./run/attempt.js";
+import { checkRunBudget, resolveRunBudgetTarget } from "./run/budget.js";
 import type { RunEmbeddedPiAgentParams } from "./run/params.js";
 import { buildEmbeddedRunPayloads } from "./run/payloads.js";
+import type { EmbeddedRunAttemptResult } from "./run/types.js";
 import {
   truncateOversizedToolResultsInSession,
   sessionLikelyHasOversizedToolResults,
@@ -304,6 +312,9 @@ export async function runEmbeddedPiAgent(
           model: modelId,
         });
       }
+      if (model.api === REPLAY_API) {
+        ensureReplayApiProvider();
+      }
 
       const ctxInfo = resolveContextWindowInfo({
         cfg: params.config,
@@ -516,6 +527,42 @@ export async function runEmbeddedPiAgent(
       let lastRunPromptUsage: ReturnType<typeof normalizeUsage> | undefined;
       let autoCompactionCount = 0;
       let runLoopIterations = 0;
+      let budgetNotice: string | undefined;
+      const budgetTarget = resolveRunBudgetTarget({
+        ...params,
+        agentId: workspaceResolution.agentId,
+      });
+      const buildBudgetBlockedResult = (
+        evaluation: UsageBudgetEvaluation,
+        attempt?: EmbeddedRunAttemptResult,
+      ): EmbeddedPiRunResult => {
+        const message = formatUsageBudgetBlockedMessage(evaluation);
+        log.warn(
+          `[usage-budget] blocked model call sessionKey=${params.sessionKey ?? params.sessionId} ` +
+            `agent=${workspaceResolution.agentId} exceeded=${evaluation.exceeded
+              .map((check) => `${check.scope}:${check.key}:${check.window}:${check.metric}`)
+              .join(",")}`,
+        );
+        return {
+          payloads: [{ text: message, isError: true }],
+          meta: {
+            durationMs: Date.now() - started,
+            agentMeta: {
+              sessionId: attempt?.sessionIdUsed ?? params.sessionId,
+              provider,
+              model: model.id,
+              usage: toNormalizedUsage(usageAccumulator),
+            },
+            systemPromptReport: attempt?.systemPromptReport,
+            error: { kind: "budget_exceeded", message },
+          },
+          didSendViaMessagingTool: attempt?.didSendViaMessagingTool,
+          messagingToolSentTexts: attempt?.messagingToolSentTexts,
+          messagingToolSentMediaUrls: attempt?.messagingToolSentMediaUrls,
+          messagingToolSentTargets: attempt?.messagingToolSentTargets,
+          successfulCronAdds: attempt?.successfulCronAdds,
+        };
+      };
       const maybeMarkAuthProfileFailure = async (failure: {
         profileId?: string;
         reason?: Parameters<typeof markAuthProfileFailure>[0]["reason"] | null;
@@ -565,6 +612,16 @@ export async function runEmbeddedPiAgent(
               },
             };
           }
+          const budgetEvaluation = await checkRunBudget({
+            config: params.config,
+            target: budgetTarget,
+          });
+          if (budgetEvaluation?.blocked) {
+            return buildBudgetBlockedResult(budgetEvaluation);
+          }
+          if (budgetEvaluation && runLoopIterations === 0) {
+            budgetNotice = consumeUsageBudgetNotice(budgetEvaluation);
+          }
           runLoopIterations += 1;
           attemptedThinking.add(thinkLevel);
           await fs.mkdir(resolvedWorkspace, { recursive: true });
@@ -644,6 +701,9 @@ export async function runEmbeddedPiAgent(
           const lastAssistantUsage = normalizeUsage(lastAssistant?.usage as UsageLike);
           const attemptUsage = attempt.attemptUsage ?? lastAssistantUsage;
           mergeUsageIntoAccumulator(usageAccumulator, attemptUsage);
+          if (attempt.budgetBlocked) {
+            return buildBudgetBlockedResult(attempt.budgetBlocked, attempt);
+          }
           // Keep prompt size from the latest model call so session totalTokens
           // reflects current context usage, not accumulated tool-loop usage.
           lastRunPromptUsage = lastAssistantUsage ?? attemptUsage;
@@ -1130,6 +1190,9 @@ export async function runEmbeddedPiAgent(
               agentDir: params.agentDir,
             });
           }
+          if (budgetNotice && payloads.length > 0) {
+            payloads.push({ text: budgetNotice });
+          }
           return {
             payloads: payloads.length ? payloads : undefined,
             meta: {
@@ -11,6 +11,7 @@ import { resolveHeartbeatPrompt } from "../../../auto-reply/heartbeat.js";
 import { resolveChannelCapabilities } from "../../../config/channel-capabilities.js";
 import type { OpenClawConfig } from "../../../config/config.js";
 import { getMachineDisplayName } from "../../../infra/machine-name.js";
+import type { UsageBudgetEvaluation } from "../../../infra/usage-budgets.js";
 import { MAX_IMAGE_BYTES } from "../../../media/constants.js";
 import { getGlobalHookRunner } from "../../../plugins/hook-runner-global.js";
 import type {
@@ -39,6 +40,7 @@ import { DEFAULT_CONTEXT_TOKENS } from "../../defaults.js";
 import { resolveOpenClawDocsPath } from "../../docs-path.js";
 import { isTimeoutError } from "../../failover-error.js";
 import { resolveImageSanitizationLimits } from "../../image-sanitization.js";
+import { prepareMcpTools } from "../../mcp-tools.js";
 import { resolveModelAuthMode } from "../../model-auth.js";
 import { resolveDefaultModelForAgent } from "../../model-selection.js";
 import { createOllamaStreamFn, OLLAMA_NATIVE_BASE_URL } from "../../ollama-stream.js";
@@ -107,6 +109,7 @@ import { installToolResultContextGuard } from "../tool-result-context-guard.js";
 import { splitSdkTools } from "../tool-split.js";
 import { describeUnknownError, mapThinkingLevel } from "../utils.js";
 import { flushPendingToolResultsAfterIdle } from "../wait-for-idle-before-flush.js";
+import { resolveRunBudgetTarget, wrapStreamFnWithBudgetGuard } from "./budget.js";
 import {
   selectCompactionTimeoutSnapshot,
   shouldFlagCompactionTimeout,
@@ -404,6 +407,13 @@ export async function runEmbeddedAttempt(
     });
     // Check if the model supports native image input
     const modelHasVision = params.model.input?.includes("image") ?? false;
+    if (!params.disableTools) {
+      await prepareMcpTools({
+        config: params.config,
+        agentId: sessionAgentId,
+        sessionKey: params.sessionKey,
+      });
+    }
     const toolsRaw = params.disableTools
       ? []
       : createOpenClawCodingTools({
@@ -852,6 +862,17 @@ export async function runEmbeddedAttempt(
         );
       }
 
+      let budgetBlocked: UsageBudgetEvaluation | undefined;
+      if (params.config?.budgets) {
+        activeSession.agent.streamFn = wrapStreamFnWithBudgetGuard(activeSession.agent.streamFn, {
+          config: params.config,
+          target: resolveRunBudgetTarget({ ...params, agentId: sessionAgentId }),
+          onBlocked: (evaluation) => {
+            budgetBlocked = evaluation;
+          },
+        });
+      }
+
       try {
         const prior = await sanitizeSessionHistory({
           messages: activeSession.messages,
@@ -1413,6 +1434,7 @@ export async function runEmbeddedAttempt(
         compactionCount: getCompactionCount(),
         // Client tool call detected (OpenResponses hosted tools)
         clientToolCall: clientToolCallDetected ?? undefined,
+        budgetBlocked,
       };
     } finally {
       // Always tear down the session (and release the lock) before we leave this attempt.
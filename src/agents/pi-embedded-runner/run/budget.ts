@@ -0,0 +1,85 @@
+import type { StreamFn } from "@mariozechner/pi-agent-core";
+import type { OpenClawConfig } from "../../../config/config.js";
+import {
+  evaluateUsageBudgets,
+  formatUsageBudgetBlockedMessage,
+  recordUsageBudgetSpend,
+  type UsageBudgetEvaluation,
+  type UsageBudgetTarget,
+} from "../../../infra/usage-budgets.js";
+import { log } from "../logger.js";
+
+export function resolveRunBudgetTarget(params: {
+  agentId?: string;
+  sessionKey?: string;
+  sessionId?: string;
+  sessionFile?: string;
+  messageChannel?: string;
+  messageProvider?: string;
+  agentAccountId?: string;
+}): UsageBudgetTarget {
+  return {
+    agentId: params.agentId,
+    sessionKey: params.sessionKey,
+    sessionId: params.sessionId,
+    sessionFile: params.sessionFile,
+    channel: params.messageChannel ?? params.messageProvider,
+    accountId: params.agentAccountId,
+  };
+}
+
+/** Returns undefined when no budgets are configured, so callers can skip the transcript scan. */
+export async function checkRunBudget(params: {
+  config?: OpenClawConfig;
+  target: UsageBudgetTarget;
+}): Promise<UsageBudgetEvaluation | undefined> {
+  if (!params.config?.budgets) {
+    return undefined;
+  }
+  try {
+    return await evaluateUsageBudgets({ cfg: params.config, target: params.target });
+  } catch (err) {
+    // Budget accounting must never take down a run on its own.
+    log.warn(`usage budget check failed: ${String(err)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Re-check budgets before every model request in the agent loop (tool-call
+ * continuations included). A blocked budget throws, which pi-agent-core turns
+ * into an error assistant message; `onBlocked` lets the runner report it.
+ * Each finished request's usage is added to the cached budget usage, so the
+ * next check counts it without rescanning transcripts.
+ */
+export function wrapStreamFnWithBudgetGuard(
+  baseFn: StreamFn,
+  params: {
+    config?: OpenClawConfig;
+    target: UsageBudgetTarget;
+    onBlocked: (evaluation: UsageBudgetEvaluation) => void;
+  },
+): StreamFn {
+  return async (model, context, options) => {
+    const evaluation = await checkRunBudget(params);
+    if (evaluation?.blocked) {
+      params.onBlocked(evaluation);
+      throw new Error(formatUsageBudgetBlockedMessage(evaluation));
+    }
+    const stream = await baseFn(model, context, options);
+    const config = params.config;
+    if (config?.budgets) {
+      void stream.result().then(
+        ({ usage }) =>
+          recordUsageBudgetSpend({
+            cfg: config,
+            target: params.target,
+            tokens: usage.totalTokens,
+            costUsd: usage.cost.total,
+          }),
+        () => {},
+      );
+    }
+    return stream;
+  };
+}
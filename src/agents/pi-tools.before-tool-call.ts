@@ -1,15 +1,18 @@
-import type { ToolLoopDetectionConfig } from "../config/types.tools.js";
+import type { ToolApprovalsConfig, ToolLoopDetectionConfig } from "../config/types.tools.js";
 import type { SessionState } from "../logging/diagnostic-session-state.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { getGlobalHookRunner } from "../plugins/hook-runner-global.js";
 import { isPlainObject } from "../utils.js";
+import type { ToolArgPolicy } from "./tool-arg-policy.js";
 import { normalizeToolName } from "./tool-policy.js";
-import type { AnyAgentTool } from "./tools/common.js";
+import { ToolAuthorizationError, type AnyAgentTool } from "./tools/common.js";
 
 export type HookContext = {
   agentId?: string;
   sessionKey?: string;
   loopDetection?: ToolLoopDetectionConfig;
+  approvals?: ToolApprovalsConfig;
+  argPolicy?: ToolArgPolicy;
 };
 
 type HookOutcome = { blocked: true; reason: string } | { blocked: false; params: unknown };
@@ -132,6 +135,44 @@ export async function runBeforeToolCallHook(args: {
     recordToolCall(sessionState, toolName, params, args.toolCallId, args.ctx.loopDetection);
   }
 
+  const outcome = await runPluginBeforeToolCall({ ...args, toolName, params });
+  if (outcome.blocked) {
+    return outcome;
+  }
+  // Argument rules and approval run last so they see the params the tool will actually get.
+  if (args.ctx?.argPolicy?.rules.length) {
+    const { evaluateToolArgPolicy } = await import("./tool-arg-policy.js");
+    const denial = evaluateToolArgPolicy({
+      toolName,
+      params: outcome.params,
+      policy: args.ctx.argPolicy,
+    });
+    if (denial) {
+      log.warn(denial);
+      return { blocked: true, reason: denial };
+    }
+  }
+  if (!args.ctx?.approvals?.enabled) {
+    return outcome;
+  }
+  const { requestToolCallApproval } = await import("./tool-approval-gate.js");
+  const denial = await requestToolCallApproval({
+    toolName,
+    params: outcome.params,
+    config: args.ctx.approvals,
+    agentId: args.ctx.agentId,
+    sessionKey: args.ctx.sessionKey,
+  });
+  return denial ? { blocked: true, reason: denial } : outcome;
+}
+
+async function runPluginBeforeToolCall(args: {
+  toolName: string;
+  params: unknown;
+  toolCallId?: string;
+  ctx?: HookContext;
+}): Promise<HookOutcome> {
+  const { toolName, params } = args;
   const hookRunner = getGlobalHookRunner();
   if (!hookRunner?.hasHooks("before_tool_call")) {
     return { blocked: false, params: args.params };
@@ -191,7 +232,8 @@ export function wrapToolWithBeforeToolCallHook(
         ctx,
       });
       if (outcome.blocked) {
-        throw new Error(outcome.reason);
+        // Surfaces as a 403 with the reason on the gateway HTTP/MCP tool endpoints.
+        throw new ToolAuthorizationError(outcome.reason);
       }
       if (toolCallId) {
         adjustedParamsByToolCallId.set(toolCallId, outcome.params);
@@ -1,6 +1,6 @@
 import { codingTools, createReadTool, readTool } from "@mariozechner/pi-coding-agent";
 import type { OpenClawConfig } from "../config/config.js";
-import type { ToolLoopDetectionConfig } from "../config/types.tools.js";
+import type { ToolApprovalsConfig, ToolLoopDetectionConfig } from "../config/types.tools.js";
 import { resolveMergedSafeBinProfileFixtures } from "../infra/exec-safe-bin-runtime-policy.js";
 import { logWarn } from "../logger.js";
 import { getPluginToolMeta } from "../plugins/tools.js";
@@ -16,10 +16,11 @@ import {
 } from "./bash-tools.js";
 import { listChannelAgentTools } from "./channel-tools.js";
 import { resolveImageSanitizationLimits } from "./image-sanitization.js";
+import { getMcpToolMeta } from "./mcp-tools.js";
 import type { ModelAuthMode } from "./model-auth.js";
 import { createOpenClawTools } from "./openclaw-tools.js";
 import { wrapToolWithAbortSignal } from "./pi-tools.abort.js";
-import { wrapToolWithBeforeToolCallHook } from "./pi-tools.before-tool-call.js";
+import { type HookContext, wrapToolWithBeforeToolCallHook } from "./pi-tools.before-tool-call.js";
 import {
   isToolAllowedByPolicies,
   resolveEffectiveToolPolicy,
@@ -44,6 +45,7 @@ import { cleanToolSchemaForGemini, normalizeToolParameters } from "./pi-tools.sc
 import type { AnyAgentTool } from "./pi-tools.types.js";
 import type { SandboxContext } from "./sandbox.js";
 import { getSubagentDepthFromSessionStore } from "./subagent-depth.js";
+import { resolveToolArgRules } from "./tool-arg-policy.js";
 import { createToolFsPolicy, resolveToolFsConfig } from "./tool-fs-policy.js";
 import {
   applyToolPolicyPipeline,
@@ -171,6 +173,52 @@ export function resolveToolLoopDetectionConfig(params: {
   };
 }
 
+/** Agent approval settings win field by field; agent `rules` replace the global list. */
+export function resolveToolApprovalsConfig(params: {
+  cfg?: OpenClawConfig;
+  agentId?: string;
+}): ToolApprovalsConfig | undefined {
+  const global = params.cfg?.tools?.approvals;
+  const agent =
+    params.agentId && params.cfg
+      ? resolveAgentConfig(params.cfg, params.agentId)?.tools?.approvals
+      : undefined;
+  if (!agent) {
+    return global;
+  }
+  return { ...global, ...agent };
+}
+
+/**
+ * Before-tool-call context (loop detection, argument rules, approvals) for one
+ * agent and session. Shared by agent runs and the gateway HTTP/MCP tool surfaces.
+ */
+export function resolveBeforeToolCallHookContext(params: {
+  cfg?: OpenClawConfig;
+  agentId?: string;
+  sessionKey?: string;
+  workspaceDir?: string;
+  currentChannel?: string;
+  currentTarget?: string;
+}): HookContext {
+  const { cfg, agentId } = params;
+  const argRules = resolveToolArgRules({ cfg, agentId });
+  return {
+    agentId,
+    sessionKey: params.sessionKey,
+    loopDetection: resolveToolLoopDetectionConfig({ cfg, agentId }),
+    approvals: resolveToolApprovalsConfig({ cfg, agentId }),
+    argPolicy: argRules.length
+      ? {
+          rules: argRules,
+          workspaceDir: params.workspaceDir,
+          currentChannel: params.currentChannel,
+          currentTarget: params.currentTarget,
+        }
+      : undefined,
+  };
+}
+
 export const __testing = {
   cleanToolSchemaForGemini,
   normalizeToolParams,
@@ -501,7 +549,7 @@ export function createOpenClawCodingTools(options?: {
   const toolsByAuthorization = applyOwnerOnlyToolPolicy(toolsForMessageProvider, senderIsOwner);
   const subagentFiltered = applyToolPolicyPipeline({
     tools: toolsByAuthorization,
-    toolMeta: (tool) => getPluginToolMeta(tool),
+    toolMeta: (tool) => getPluginToolMeta(tool) ?? getMcpToolMeta(tool),
     warn: logWarn,
     steps: [
       ...buildDefaultToolPolicyPipelineSteps({
@@ -526,13 +574,15 @@ export function createOpenClawCodingTools(options?: {
   const normalized = subagentFiltered.map((tool) =>
     normalizeToolParameters(tool, { modelProvider: options?.modelProvider }),
   );
-  const withHooks = normalized.map((tool) =>
-    wrapToolWithBeforeToolCallHook(tool, {
-      agentId,
-      sessionKey: options?.sessionKey,
-      loopDetection: resolveToolLoopDetectionConfig({ cfg: options?.config, agentId }),
-    }),
-  );
+  const hookContext = resolveBeforeToolCallHookContext({
+    cfg: options?.config,
+    agentId,
+    sessionKey: options?.sessionKey,
+    workspaceDir: sandboxRoot ?? workspaceRoot,
+    currentChannel: options?.messageProvider,
+    currentTarget: options?.currentChannelId ?? options?.messageTo,
+  });
+  const withHooks = normalized.map((tool) => wrapToolWithBeforeToolCallHook(tool, hookContext));
   const withAbort = options?.abortSignal
     ? withHooks.map((tool) => wrapToolWithAbortSignal(tool, options.abortSignal))
     : withHooks;
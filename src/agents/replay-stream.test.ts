@@ -0,0 +1,168 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { StreamFn } from "@mariozechner/pi-agent-core";
+import type { Api, AssistantMessage, Context, Model, ToolCall } from "@mariozechner/pi-ai";
+import { createAssistantMessageEventStream } from "@mariozechner/pi-ai";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  computeReplayKey,
+  createReplayStreamFn,
+  normalizeReplayRequest,
+  type ReplaySettings,
+} from "./replay-stream.js";
+
+const model = {
+  id: "fixture",
+  name: "Fixture",
+  api: "replay",
+  provider: "replay",
+  baseUrl: "replay://local",
+  reasoning: false,
+  input: ["text"],
+  cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+  contextWindow: 100_000,
+  maxTokens: 4096,
+} as Model<Api>;
+
+const toolCall: ToolCall = {
+  type: "toolCall",
+  id: "toolu_01",
+  name: "web_fetch",
+  arguments: { url: "https://wttr.in" },
+};
+
+const recorded: AssistantMessage = {
+  role: "assistant",
+  content: [{ type: "text", text: "Checking the weather." }, toolCall],
+  api: "anthropic-messages",
+  provider: "anthropic",
+  model: "claude-sonnet-4-5",
+  usage: {
+    input: 120,
+    output: 30,
+    cacheRead: 0,
+    cacheWrite: 0,
+    totalTokens: 150,
+    cost: { input: 0.1, output: 0.2, cacheRead: 0, cacheWrite: 0, total: 0.3 },
+  },
+  stopReason: "toolUse",
+  timestamp: 1,
+};
+
+function contextAt(timestamp: number, toolCallId = "toolu_01"): Context {
+  return {
+    systemPrompt: `Current time: ${new Date(timestamp).toISOString()}`,
+    messages: [
+      { role: "user", content: "What's the weather?", timestamp },
+      { ...recorded, content: [toolCall], timestamp },
+      {
+        role: "toolResult",
+        toolCallId,
+        toolName: "web_fetch",
+        content: [{ type: "text", text: `Sunny as of ${new Date(timestamp).toISOString()}` }],
+        isError: false,
+        timestamp,
+      },
+    ],
+    tools: [{ name: "web_fetch", description: "Fetch a URL", parameters: {} as never }],
+  };
+}
+
+function fakeRecorder() {
+  return vi.fn<StreamFn>(() => {
+    const stream = createAssistantMessageEventStream();
+    queueMicrotask(() => {
+      stream.push({ type: "done", reason: "toolUse", message: recorded });
+      stream.end();
+    });
+    return stream;
+  });
+}
+
+async function collect(streamFn: StreamFn, context: Context) {
+  const stream = await streamFn(model, context, {});
+  const types: string[] = [];
+  for await (const event of stream) {
+    types.push(event.type);
+  }
+  return { types, result: await stream.result() };
+}
+
+describe("replay stream", () => {
+  let cassetteDir: string;
+  let settings: ReplaySettings;
+
+  beforeEach(async () => {
+    cassetteDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-replay-"));
+    settings = { cassetteDir, mode: "auto", match: "strict", recordFrom: "anthropic/claude" };
+  });
+
+  afterEach(async () => {
+    await fs.rm(cassetteDir, { recursive: true, force: true });
+  });
+
+  it("records misses in auto mode and replays them with tool calls and usage", async () => {
+    const recorder = fakeRecorder();
+    const context = contextAt(Date.UTC(2026, 0, 1));
+
+    await collect(createReplayStreamFn({ settings, record: recorder }), context);
+    expect(recorder).toHaveBeenCalledTimes(1);
+    expect(await fs.readdir(cassetteDir)).toHaveLength(1);
+
+    const replayed = await collect(
+      createReplayStreamFn({ settings: { ...settings, mode: "replay" }, record: recorder }),
+      context,
+    );
+    expect(recorder).toHaveBeenCalledTimes(1);
+    expect(replayed.types).toEqual([
+      "start",
+      "text_start",
+      "text_delta",
+      "text_end",
+      "toolcall_start",
+      "toolcall_delta",
+      "toolcall_end",
+      "done",
+    ]);
+    expect(replayed.result).toMatchObject({
+      provider: "replay",
+      model: "fixture",
+      stopReason: "toolUse",
+      usage: { totalTokens: 150 },
+      content: recorded.content,
+    });
+  });
+
+  it("fails on a miss in replay mode", async () => {
+    const { result } = await collect(
+      createReplayStreamFn({ settings: { ...settings, mode: "replay" }, record: fakeRecorder() }),
+      contextAt(0),
+    );
+    expect(result.stopReason).toBe("error");
+    expect(result.errorMessage).toMatch(/^No replay cassette for request [0-9a-f]{32} in /);
+  });
+
+  it("ignores timestamps and tool call ids only in lenient mode", () => {
+    const key = (context: Context, match: ReplaySettings["match"]) =>
+      computeReplayKey(normalizeReplayRequest({ modelId: model.id, context, match }));
+    const first = contextAt(Date.UTC(2026, 0, 1));
+    const later = contextAt(Date.UTC(2026, 5, 1), "toolu_99");
+    later.messages[1] = { ...recorded, content: [{ ...toolCall, id: "toolu_99" }] };
+
+    expect(key(first, "lenient")).toBe(key(later, "lenient"));
+    expect(key(first, "strict")).not.toBe(key(later, "strict"));
+    expect(key(first, "strict")).toBe(key(contextAt(Date.UTC(2026, 0, 1)), "strict"));
+  });
+
+  it("does not write a cassette when recording fails", async () => {
+    const failing = vi.fn<StreamFn>(() => {
+      throw new Error("upstream 500");
+    });
+    const { result } = await collect(createReplayStreamFn({ settings, record: failing }), {
+      messages: [{ role: "user", content: "hi", timestamp: 0 }],
+    });
+    expect(result.errorMessage).toBe("upstream 500");
+    expect(await fs.readdir(cassetteDir)).toEqual([]);
+  });
+});
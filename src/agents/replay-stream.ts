@@ -0,0 +1,424 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { StreamFn } from "@mariozechner/pi-agent-core";
+import type {
+  Api,
+  AssistantMessage,
+  AssistantMessageEventStream,
+  Context,
+  Message,
+  Model,
+  SimpleStreamOptions,
+  StopReason,
+} from "@mariozechner/pi-ai";
+import {
+  createAssistantMessageEventStream,
+  getApiProvider,
+  registerApiProvider,
+  streamSimple,
+} from "@mariozechner/pi-ai";
+import { loadConfig } from "../config/config.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import type { ModelReplayConfig } from "../config/types.models.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { resolveUserPath } from "../utils.js";
+import { getApiKeyForModel, resolveProviderConfig } from "./model-auth.js";
+import { parseModelRef } from "./model-selection.js";
+import { createOllamaStreamFn, OLLAMA_NATIVE_BASE_URL } from "./ollama-stream.js";
+import { resolveModel } from "./pi-embedded-runner/model.js";
+
+const log = createSubsystemLogger("replay-stream");
+
+export const REPLAY_API = "replay";
+
+const CASSETTE_VERSION = 1;
+
+export type ReplaySettings = {
+  cassetteDir: string;
+  mode: NonNullable<ModelReplayConfig["mode"]>;
+  match: NonNullable<ModelReplayConfig["match"]>;
+  recordFrom?: string;
+};
+
+export type ReplayCassette = {
+  version: typeof CASSETTE_VERSION;
+  key: string;
+  match: ReplaySettings["match"];
+  recordedAt: string;
+  /** Model the response was recorded from, as provider/model. */
+  source: string;
+  /** Normalized request the key was computed from; diff it against a miss to see what changed. */
+  request: unknown;
+  response: AssistantMessage;
+};
+
+export function resolveReplaySettings(
+  cfg: OpenClawConfig | undefined,
+  provider: string,
+): ReplaySettings {
+  const replay = resolveProviderConfig(cfg, provider)?.replay;
+  const cassetteDir = replay?.cassetteDir?.trim();
+  return {
+    cassetteDir: cassetteDir
+      ? resolveUserPath(cassetteDir)
+      : path.join(resolveStateDir(), "replay", provider),
+    mode: replay?.mode ?? "replay",
+    match: replay?.match ?? "strict",
+    recordFrom: replay?.recordFrom?.trim() || undefined,
+  };
+}
+
+// ── Request keys ────────────────────────────────────────────────────────────
+
+const TIMESTAMP_RE =
+  /\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?\b/g;
+
+function normalizeLenientText(text: string): string {
+  return text.replace(TIMESTAMP_RE, "<time>").replace(/\s+/g, " ").trim();
+}
+
+function normalizeMessage(
+  message: Message,
+  match: ReplaySettings["match"],
+  toolCallIds: Map<string, string>,
+): unknown {
+  const text = (value: string) => (match === "lenient" ? normalizeLenientText(value) : value);
+  // Tool call ids are provider-generated; lenient keys refer to calls by position instead.
+  const callId = (id: string) => {
+    if (match === "strict") {
+      return id;
+    }
+    let mapped = toolCallIds.get(id);
+    if (!mapped) {
+      mapped = `call_${toolCallIds.size}`;
+      toolCallIds.set(id, mapped);
+    }
+    return mapped;
+  };
+  const content =
+    typeof message.content === "string"
+      ? [{ type: "text", text: text(message.content) }]
+      : message.content.map((block) => {
+          switch (block.type) {
+            case "text":
+              return { type: "text", text: text(block.text) };
+            case "image":
+              return { type: "image", mimeType: block.mimeType, data: hashText(block.data) };
+            case "thinking":
+              return { type: "thinking", thinking: text(block.thinking) };
+            case "toolCall":
+              return {
+                type: "toolCall",
+                id: callId(block.id),
+                name: block.name,
+                arguments: block.arguments,
+              };
+            default:
+              return block;
+          }
+        });
+  if (message.role === "toolResult") {
+    return {
+      role: message.role,
+      toolCallId: callId(message.toolCallId),
+      toolName: message.toolName,
+      isError: message.isError,
+      content,
+    };
+  }
+  // Timestamps, usage, and response metadata differ on every run and never belong in a key.
+  return { role: message.role, content };
+}
+
+function hashText(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Reduce a model request to the parts that decide the response. Strict keys
+ * cover the system prompt, full tool schemas, and exact message content;
+ * lenient keys drop the system prompt and tool descriptions, number tool
+ * calls by position, and mask timestamps and whitespace inside text.
+ */
+export function normalizeReplayRequest(params: {
+  modelId: string;
+  context: Context;
+  match: ReplaySettings["match"];
+}): unknown {
+  const toolCallIds = new Map<string, string>();
+  const messages = params.context.messages.map((message) =>
+    normalizeMessage(message, params.match, toolCallIds),
+  );
+  if (params.match === "lenient") {
+    return {
+      model: params.modelId,
+      tools: (params.context.tools ?? []).map((tool) => tool.name).toSorted(),
+      messages,
+    };
+  }
+  return {
+    model: params.modelId,
+    systemPrompt: params.context.systemPrompt ?? "",
+    tools: (params.context.tools ?? []).map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    })),
+    messages,
+  };
+}
+
+export function computeReplayKey(request: unknown): string {
+  return hashText(JSON.stringify(request)).slice(0, 32);
+}
+
+export function resolveCassettePath(cassetteDir: string, key: string): string {
+  return path.join(cassetteDir, `${key}.json`);
+}
+
+async function readCassette(filePath: string): Promise<ReplayCassette | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, "utf-8");
+  } catch {
+    return null;
+  }
+  const parsed = JSON.parse(raw) as Partial<ReplayCassette>;
+  if (parsed?.version !== CASSETTE_VERSION || !parsed.response) {
+    throw new Error(`Replay cassette ${filePath} has an unsupported format`);
+  }
+  return parsed as ReplayCassette;
+}
+
+async function writeCassette(filePath: string, cassette: ReplayCassette): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, `${JSON.stringify(cassette, null, 2)}\n`, "utf-8");
+  await fs.rename(tmp, filePath);
+}
+
+// ── Streams ─────────────────────────────────────────────────────────────────
+
+function emptyUsage(): AssistantMessage["usage"] {
+  return {
+    input: 0,
+    output: 0,
+    cacheRead: 0,
+    cacheWrite: 0,
+    totalTokens: 0,
+    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+  };
+}
+
+/**
+ * Re-emit a recorded response as a stream: one start/delta/end triple per
+ * content block, with partial snapshots, then `done`.
+ */
+function pushRecordedResponse(
+  stream: AssistantMessageEventStream,
+  model: Model<Api>,
+  recorded: AssistantMessage,
+): void {
+  const message: AssistantMessage = {
+    ...recorded,
+    api: model.api,
+    provider: model.provider,
+    model: model.id,
+    timestamp: Date.now(),
+  };
+  const partial: AssistantMessage = { ...message, content: [] };
+  const snapshot = () => ({ ...partial, content: [...partial.content] });
+  stream.push({ type: "start", partial: snapshot() });
+  message.content.forEach((block, contentIndex) => {
+    if (block.type === "text") {
+      partial.content.push({ ...block, text: "" });
+      stream.push({ type: "text_start", contentIndex, partial: snapshot() });
+      partial.content[contentIndex] = block;
+      stream.push({ type: "text_delta", contentIndex, delta: block.text, partial: snapshot() });
+      stream.push({ type: "text_end", contentIndex, content: block.text, partial: snapshot() });
+    } else if (block.type === "thinking") {
+      partial.content.push({ ...block, thinking: "" });
+      stream.push({ type: "thinking_start", contentIndex, partial: snapshot() });
+      partial.content[contentIndex] = block;
+      stream.push({
+        type: "thinking_delta",
+        contentIndex,
+        delta: block.thinking,
+        partial: snapshot(),
+      });
+      stream.push({
+        type: "thinking_end",
+        contentIndex,
+        content: block.thinking,
+        partial: snapshot(),
+      });
+    } else {
+      partial.content.push({ ...block, arguments: {} });
+      stream.push({ type: "toolcall_start", contentIndex, partial: snapshot() });
+      partial.content[contentIndex] = block;
+      stream.push({
+        type: "toolcall_delta",
+        contentIndex,
+        delta: JSON.stringify(block.arguments),
+        partial: snapshot(),
+      });
+      stream.push({ type: "toolcall_end", contentIndex, toolCall: block, partial: snapshot() });
+    }
+  });
+  const reason: Extract<StopReason, "stop" | "length" | "toolUse"> =
+    message.stopReason === "toolUse" || message.stopReason === "length"
+      ? message.stopReason
+      : "stop";
+  stream.push({ type: "done", reason, message });
+}
+
+/**
+ * Stream from cassettes keyed by request hash. Misses fail in `replay` mode;
+ * `record` always calls the recorder and overwrites, `auto` records misses.
+ */
+export function createReplayStreamFn(params: {
+  settings: ReplaySettings;
+  /** Real model stream used when recording. */
+  record?: StreamFn;
+}): StreamFn {
+  const { settings } = params;
+
+  return (model, context, options) => {
+    const stream = createAssistantMessageEventStream();
+
+    const run = async () => {
+      try {
+        const request = normalizeReplayRequest({
+          modelId: model.id,
+          context,
+          match: settings.match,
+        });
+        const key = computeReplayKey(request);
+        const filePath = resolveCassettePath(settings.cassetteDir, key);
+
+        if (settings.mode !== "record") {
+          const cassette = await readCassette(filePath);
+          if (cassette) {
+            pushRecordedResponse(stream, model, cassette.response);
+            return;
+          }
+          if (settings.mode === "replay") {
+            throw new Error(
+              `No replay cassette for request ${key} in ${settings.cassetteDir} (match: ${settings.match}). ` +
+                'Record it with mode "record" or "auto".',
+            );
+          }
+        }
+
+        if (!params.record || !settings.recordFrom) {
+          throw new Error(
+            `Replay provider ${model.provider} cannot record: set replay.recordFrom to a provider/model.`,
+          );
+        }
+        const inner = await params.record(model, context, options);
+        for await (const event of inner) {
+          // Save before forwarding `done` so the cassette exists once the caller sees the result.
+          if (event.type === "done") {
+            await writeCassette(filePath, {
+              version: CASSETTE_VERSION,
+              key,
+              match: settings.match,
+              recordedAt: new Date().toISOString(),
+              source: settings.recordFrom,
+              request,
+              response: event.message,
+            });
+            log.info(`recorded cassette ${key} from ${settings.recordFrom}`);
+          }
+          stream.push(event);
+        }
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        stream.push({
+          type: "error",
+          reason: "error",
+          error: {
+            role: "assistant" as const,
+            content: [],
+            stopReason: "error" as StopReason,
+            errorMessage,
+            api: model.api,
+            provider: model.provider,
+            model: model.id,
+            usage: emptyUsage(),
+            timestamp: Date.now(),
+          },
+        });
+      } finally {
+        stream.end();
+      }
+    };
+
+    queueMicrotask(() => void run());
+    return stream;
+  };
+}
+
+/** Stream from the real model named by `recordFrom`, with its own credentials. */
+function createRecordFromStreamFn(params: {
+  cfg: OpenClawConfig;
+  recordFrom: string;
+  agentDir?: string;
+}): StreamFn {
+  return async (_model, context, options) => {
+    const ref = parseModelRef(params.recordFrom, "");
+    if (!ref?.provider) {
+      throw new Error(`replay.recordFrom must be provider/model, got "${params.recordFrom}"`);
+    }
+    const { model, error } = resolveModel(ref.provider, ref.model, params.agentDir, params.cfg);
+    if (!model) {
+      throw new Error(error ?? `Unknown model: ${ref.provider}/${ref.model}`);
+    }
+    if (model.api === REPLAY_API) {
+      throw new Error(`replay.recordFrom cannot point at another replay model (${ref.provider})`);
+    }
+    const auth = await getApiKeyForModel({ model, cfg: params.cfg, agentDir: params.agentDir });
+    const recordOptions: SimpleStreamOptions = { ...options, apiKey: auth.apiKey };
+    if (model.api === "ollama") {
+      const baseUrl = model.baseUrl?.trim() || OLLAMA_NATIVE_BASE_URL;
+      return createOllamaStreamFn(baseUrl)(model, context, recordOptions);
+    }
+    return streamSimple(model, context, recordOptions);
+  };
+}
+
+function streamReplaySimple(
+  model: Model<Api>,
+  context: Context,
+  options?: SimpleStreamOptions,
+): AssistantMessageEventStream {
+  // The pi-ai registry is global and also serves compaction, so settings are
+  // read from the active config rather than captured per run.
+  const cfg = loadConfig();
+  const settings = resolveReplaySettings(cfg, model.provider);
+  const record = settings.recordFrom
+    ? createRecordFromStreamFn({ cfg, recordFrom: settings.recordFrom })
+    : undefined;
+  return createReplayStreamFn({ settings, record })(
+    model,
+    context,
+    options,
+  ) as AssistantMessageEventStream;
+}
+
+/**
+ * Register the `replay` API with pi-ai so `streamSimple`/`completeSimple`
+ * (agent turns and compaction alike) dispatch replay models here.
+ */
+export function ensureReplayApiProvider(): void {
+  if (getApiProvider(REPLAY_API)) {
+    return;
+  }
+  registerApiProvider({
+    api: REPLAY_API,
+    stream: streamReplaySimple,
+    streamSimple: streamReplaySimple,
+  });
+}
@@ -2,6 +2,7 @@ import fs from "node:fs";
 import JSON5 from "json5";
 import type { OpenClawConfig } from "../config/config.js";
 import { resolveStorePath } from "../config/sessions/paths.js";
+import { readSqliteSessionStore } from "../config/sessions/store-sqlite.js";
 import { getSubagentDepth, parseAgentSessionKey } from "../sessions/session-key-utils.js";
 import { resolveDefaultAgentId } from "./agent-scope.js";
 
@@ -34,7 +35,20 @@ function normalizeSessionKey(value: unknown): string | undefined {
   return trimmed || undefined;
 }
 
-function readSessionStore(storePath: string): Record<string, SessionDepthEntry> {
+function readSessionStore(
+  storePath: string,
+  cfg: OpenClawConfig,
+): Record<string, SessionDepthEntry> {
+  if (cfg.session?.storeBackend === "sqlite") {
+    try {
+      const loaded = readSqliteSessionStore(storePath);
+      if (loaded) {
+        return loaded.store;
+      }
+    } catch {
+      // fall back to the JSON store (not migrated yet, or SQLite unavailable)
+    }
+  }
   try {
     const raw = fs.readFileSync(storePath, "utf-8");
     const parsed = JSON5.parse(raw);
@@ -109,7 +123,7 @@ function resolveEntryForSessionKey(params: {
     const storePath = resolveStorePath(params.cfg.session?.store, { agentId: parsed.agentId });
     let store = params.cache.get(storePath);
     if (!store) {
-      store = readSessionStore(storePath);
+      store = readSessionStore(storePath, params.cfg);
       params.cache.set(storePath, store);
     }
     const entry = store[key] ?? findEntryBySessionId(store, params.sessionKey);
@@ -0,0 +1,153 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ToolApprovalsConfig } from "../config/types.tools.js";
+
+vi.mock("./tools/gateway.js", () => ({
+  callGatewayTool: vi.fn(),
+}));
+
+let callGatewayTool: typeof import("./tools/gateway.js").callGatewayTool;
+let gate: typeof import("./tool-approval-gate.js");
+
+const config: ToolApprovalsConfig = {
+  enabled: true,
+  rules: [
+    { tool: "message", actions: ["send"] },
+    { tool: "cron", actions: ["add"], args: { name: "deploy-*" } },
+  ],
+  timeoutMs: 5_000,
+};
+
+describe("tool approval gate", () => {
+  let stateDir: string;
+  const previousStateDir = process.env.OPENCLAW_STATE_DIR;
+
+  beforeAll(async () => {
+    ({ callGatewayTool } = await import("./tools/gateway.js"));
+    gate = await import("./tool-approval-gate.js");
+  });
+
+  beforeEach(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-tool-approvals-"));
+    process.env.OPENCLAW_STATE_DIR = stateDir;
+    vi.mocked(callGatewayTool).mockReset();
+  });
+
+  afterEach(() => {
+    if (previousStateDir === undefined) {
+      delete process.env.OPENCLAW_STATE_DIR;
+    } else {
+      process.env.OPENCLAW_STATE_DIR = previousStateDir;
+    }
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it("matches mutating calls by tool, action, and argument globs", () => {
+    expect(gate.resolveToolApprovalRule(config, "message", { action: "send", to: "x" })).toBe(
+      config.rules?.[0],
+    );
+    expect(gate.resolveToolApprovalRule(config, "message", { action: "read" })).toBeUndefined();
+    expect(
+      gate.resolveToolApprovalRule(config, "cron", { action: "add", name: "Deploy-nightly" }),
+    ).toBe(config.rules?.[1]);
+    expect(
+      gate.resolveToolApprovalRule(config, "cron", { action: "add", name: "backup" }),
+    ).toBeUndefined();
+    expect(
+      gate.resolveToolApprovalRule({ ...config, enabled: false }, "message", { action: "send" }),
+    ).toBeUndefined();
+  });
+
+  it("gates memory_entries writes but not listings", () => {
+    const memoryConfig: ToolApprovalsConfig = {
+      enabled: true,
+      rules: [{ tool: "memory_entries" }],
+    };
+    expect(
+      gate.resolveToolApprovalRule(memoryConfig, "memory_entries", { action: "upsert", text: "x" }),
+    ).toBe(memoryConfig.rules?.[0]);
+    expect(
+      gate.resolveToolApprovalRule(memoryConfig, "memory_entries", { action: "delete", id: "a" }),
+    ).toBe(memoryConfig.rules?.[0]);
+    expect(
+      gate.resolveToolApprovalRule(memoryConfig, "memory_entries", { action: "list" }),
+    ).toBeUndefined();
+  });
+
+  it("requests approval through the exec approval flow and blocks on deny or timeout", async () => {
+    vi.mocked(callGatewayTool)
+      .mockResolvedValueOnce({ decision: "deny" })
+      .mockResolvedValueOnce({ decision: null });
+    const call = {
+      toolName: "message",
+      params: { action: "send", to: "+15550001", message: "hi" },
+      config,
+      sessionKey: "agent:ops:main",
+    };
+
+    await expect(gate.requestToolCallApproval(call)).resolves.toBe(
+      "message call denied by approver.",
+    );
+    expect(callGatewayTool).toHaveBeenCalledWith(
+      "exec.approval.request",
+      { timeoutMs: 15_000 },
+      {
+        command: 'message send {"to":"+15550001","message":"hi"}',
+        tool: { name: "message", action: "send" },
+        agentId: "ops",
+        sessionKey: "agent:ops:main",
+        timeoutMs: 5_000,
+      },
+      { expectFinal: true },
+    );
+    await expect(gate.requestToolCallApproval(call)).resolves.toMatch(/not approved in time/);
+  });
+
+  it("remembers allow-always per agent and recipient", async () => {
+    vi.mocked(callGatewayTool).mockResolvedValue({ decision: "allow-always" });
+    const send = (agentId: string, to: string) =>
+      gate.requestToolCallApproval({
+        toolName: "message",
+        params: { action: "send", to, message: "hi" },
+        config,
+        agentId,
+      });
+
+    await expect(send("main", "+15550001")).resolves.toBeNull();
+    await expect(send("main", "+15550001")).resolves.toBeNull();
+    expect(callGatewayTool).toHaveBeenCalledTimes(1);
+
+    await expect(send("main", "+15550002")).resolves.toBeNull();
+    await expect(send("other", "+15550001")).resolves.toBeNull();
+    expect(callGatewayTool).toHaveBeenCalledTimes(3);
+  });
+
+  it("treats allow-always as allow-once for calls without a target", async () => {
+    vi.mocked(callGatewayTool).mockResolvedValue({ decision: "allow-always" });
+    const addJob = (name: string) =>
+      gate.requestToolCallApproval({
+        toolName: "cron",
+        params: { action: "add", name, schedule: { kind: "every", everyMs: 60_000 } },
+        config,
+        agentId: "main",
+      });
+
+    await expect(addJob("deploy-nightly")).resolves.toBeNull();
+    await expect(addJob("deploy-everything")).resolves.toBeNull();
+    expect(callGatewayTool).toHaveBeenCalledTimes(2);
+    expect(fs.existsSync(path.join(stateDir, "tool-approvals.json"))).toBe(false);
+  });
+
+  it("fails closed when the gateway is unreachable", async () => {
+    vi.mocked(callGatewayTool).mockRejectedValueOnce(new Error("gateway closed"));
+    await expect(
+      gate.requestToolCallApproval({
+        toolName: "message",
+        params: { action: "send", to: "+15550001" },
+        config,
+      }),
+    ).resolves.toMatch(/approval request failed: Error: gateway closed/);
+  });
+});
@@ -0,0 +1,166 @@
+import type { ToolApprovalRule, ToolApprovalsConfig } from "../config/types.tools.js";
+import { DEFAULT_EXEC_APPROVAL_TIMEOUT_MS } from "../infra/exec-approvals.js";
+import {
+  isToolActionAlwaysAllowed,
+  recordToolActionAlwaysAllowed,
+} from "../infra/tool-approvals.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { resolveAgentIdFromSessionKey } from "../routing/session-key.js";
+import { compileGlobPattern, compileGlobPatterns, matchesAnyGlobPattern } from "./glob-pattern.js";
+import {
+  buildToolActionFingerprint,
+  hasStableToolActionTarget,
+  isMutatingToolCall,
+  normalizeActionName,
+} from "./tool-mutation.js";
+import { normalizeToolName } from "./tool-policy.js";
+import { callGatewayTool } from "./tools/gateway.js";
+
+const log = createSubsystemLogger("agents/tool-approvals");
+
+const SUMMARY_MAX_CHARS = 600;
+/** Headroom for the gateway round trip on top of the approval timeout. */
+const REQUEST_TIMEOUT_SLACK_MS = 10_000;
+
+function normalizeArgValue(value: string) {
+  return value.trim().toLowerCase();
+}
+
+function readArgValue(params: unknown, key: string): string | undefined {
+  if (!params || typeof params !== "object") {
+    return undefined;
+  }
+  const value = (params as Record<string, unknown>)[key];
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return normalizeArgValue(String(value));
+  }
+  return undefined;
+}
+
+function ruleMatches(rule: ToolApprovalRule, toolName: string, params: unknown): boolean {
+  if (
+    !matchesAnyGlobPattern(toolName, [
+      compileGlobPattern({ raw: rule.tool, normalize: normalizeToolName }),
+    ])
+  ) {
+    return false;
+  }
+  if (rule.actions && rule.actions.length > 0) {
+    const action = normalizeActionName((params as { action?: unknown } | undefined)?.action);
+    const allowed = rule.actions.map(normalizeActionName);
+    if (!action || !allowed.includes(action)) {
+      return false;
+    }
+  }
+  for (const [key, raw] of Object.entries(rule.args ?? {})) {
+    const value = readArgValue(params, key);
+    const patterns = compileGlobPatterns({
+      raw: Array.isArray(raw) ? raw : [raw],
+      normalize: normalizeArgValue,
+    });
+    if (value === undefined || !matchesAnyGlobPattern(value, patterns)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/** First rule gating this call, or undefined when it can run without approval. */
+export function resolveToolApprovalRule(
+  config: ToolApprovalsConfig | undefined,
+  toolName: string,
+  params: unknown,
+): ToolApprovalRule | undefined {
+  if (!config?.enabled || !config.rules?.length) {
+    return undefined;
+  }
+  const normalized = normalizeToolName(toolName);
+  if (!isMutatingToolCall(normalized, params)) {
+    return undefined;
+  }
+  return config.rules.find((rule) => ruleMatches(rule, normalized, params));
+}
+
+/** One-line description shown to approvers, e.g. `message send {"to":"+1555…"}`. */
+export function formatToolApprovalSummary(toolName: string, params: unknown): string {
+  const action = normalizeActionName((params as { action?: unknown } | undefined)?.action);
+  let args = "";
+  if (params && typeof params === "object") {
+    const { action: _action, ...rest } = params as Record<string, unknown>;
+    args = Object.keys(rest).length > 0 ? JSON.stringify(rest) : "";
+  }
+  const summary = [toolName, action, args].filter(Boolean).join(" ");
+  return summary.length > SUMMARY_MAX_CHARS
+    ? `${summary.slice(0, SUMMARY_MAX_CHARS - 1)}…`
+    : summary;
+}
+
+/**
+ * Ask a human to approve a gated tool call through the exec approval flow
+ * (Control UI prompt, `/approve`, and chat forwarding). Returns a denial
+ * reason, or null when the call may run. "allow-always" is only remembered for
+ * calls that name a target; otherwise it counts as "allow-once". Fails closed
+ * when the gateway is unreachable or nobody answers in time.
+ */
+export async function requestToolCallApproval(params: {
+  toolName: string;
+  params: unknown;
+  config: ToolApprovalsConfig | undefined;
+  agentId?: string;
+  sessionKey?: string;
+}): Promise<string | null> {
+  const toolName = normalizeToolName(params.toolName);
+  const rule = resolveToolApprovalRule(params.config, toolName, params.params);
+  if (!rule) {
+    return null;
+  }
+  const agentId = params.agentId ?? resolveAgentIdFromSessionKey(params.sessionKey);
+  // Without a target (e.g. `cron add`, `exec`) the fingerprint is just tool +
+  // action, so remembering it would approve every later call of that action.
+  const fingerprint = hasStableToolActionTarget(params.params)
+    ? buildToolActionFingerprint(toolName, params.params)
+    : undefined;
+  if (fingerprint && isToolActionAlwaysAllowed({ agentId, fingerprint })) {
+    return null;
+  }
+
+  const timeoutMs = params.config?.timeoutMs ?? DEFAULT_EXEC_APPROVAL_TIMEOUT_MS;
+  const action = normalizeActionName((params.params as { action?: unknown } | undefined)?.action);
+  let decision: string | null;
+  try {
+    const result = await callGatewayTool<{ decision?: string | null }>(
+      "exec.approval.request",
+      { timeoutMs: timeoutMs + REQUEST_TIMEOUT_SLACK_MS },
+      {
+        command: formatToolApprovalSummary(toolName, params.params),
+        tool: { name: toolName, ...(action ? { action } : {}) },
+        agentId,
+        sessionKey: params.sessionKey,
+        timeoutMs,
+      },
+      { expectFinal: true },
+    );
+    decision = typeof result?.decision === "string" ? result.decision : null;
+  } catch (err) {
+    log.warn(`tool approval request failed: tool=${toolName} error=${String(err)}`);
+    return `${toolName} requires approval, but the approval request failed: ${String(err)}`;
+  }
+
+  if (decision === "allow-always") {
+    if (fingerprint) {
+      try {
+        recordToolActionAlwaysAllowed({ agentId, fingerprint });
+      } catch (err) {
+        log.warn(`failed to persist tool approval: tool=${toolName} error=${String(err)}`);
+      }
+    }
+    return null;
+  }
+  if (decision === "allow-once") {
+    return null;
+  }
+  if (decision === "deny") {
+    return `${toolName} call denied by approver.`;
+  }
+  return `${toolName} call was not approved in time (approval expired or no approver available).`;
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  evaluateToolArgPolicy,
+  resolveToolArgRules,
+  type ToolArgPolicy,
+} from "./tool-arg-policy.js";
+
+function policyFor(cfg: OpenClawConfig, extra?: Partial<ToolArgPolicy>): ToolArgPolicy {
+  return { rules: resolveToolArgRules({ cfg, agentId: "ops" }), ...extra };
+}
+
+describe("evaluateToolArgPolicy", () => {
+  it("restricts URLs to allowlisted domains and subdomains", () => {
+    const policy = policyFor({
+      tools: { argRules: [{ tools: ["web_fetch"], args: { url: { domains: ["python.org"] } } }] },
+    });
+    const check = (url: string) =>
+      evaluateToolArgPolicy({ toolName: "web_fetch", params: { url }, policy });
+
+    expect(check("https://docs.python.org/3/")).toBeNull();
+    expect(check("https://python.org.evil.com/")).toBe(
+      "web_fetch denied by tools.argRules[0]: url host python.org.evil.com is not in the allowed domains (python.org).",
+    );
+    expect(check("not a url")).toMatch(/is not a valid URL/);
+  });
+
+  it("checks path globs against resolved paths, including aliases", () => {
+    const policy = policyFor(
+      {
+        agents: {
+          list: [
+            {
+              id: "ops",
+              tools: {
+                argRules: [
+                  {
+                    tools: ["read", "write"],
+                    args: { path: { paths: ["${workspace}/notes/**"] } },
+                    message: "Keep to the notes folder.",
+                  },
+                ],
+              },
+            },
+          ],
+        },
+      },
+      { workspaceDir: "/srv/ws" },
+    );
+    const check = (toolName: string, params: Record<string, unknown>) =>
+      evaluateToolArgPolicy({ toolName, params, policy });
+
+    expect(check("read", { path: "notes/today.md" })).toBeNull();
+    expect(check("write", { file_path: "notes/../secrets.txt", content: "x" })).toBe(
+      "write denied by agents.ops.tools.argRules[0]: path /srv/ws/secrets.txt is outside the allowed paths (${workspace}/notes/**). Keep to the notes folder.",
+    );
+    expect(check("edit", { path: "/etc/passwd" })).toBeNull();
+  });
+
+  it("applies patterns, deny globs, and action filters", () => {
+    const policy = policyFor({
+      tools: {
+        argRules: [
+          { tools: ["exec"], args: { command: { pattern: "^git (status|log)\\b[^;&|]*$" } } },
+          { tools: ["cron"], actions: ["add"], args: { name: { deny: ["prod-*"] } } },
+        ],
+      },
+    });
+
+    expect(
+      evaluateToolArgPolicy({ toolName: "exec", params: { command: "git log -5" }, policy }),
+    ).toBeNull();
+    expect(
+      evaluateToolArgPolicy({ toolName: "exec", params: { command: "rm -rf /" }, policy }),
+    ).toMatch(/command "rm -rf \/" does not match the required pattern/);
+    expect(
+      evaluateToolArgPolicy({
+        toolName: "cron",
+        params: { action: "add", name: "Prod-backup" },
+        policy,
+      }),
+    ).toMatch(/name "Prod-backup" is in the denied list/);
+    expect(
+      evaluateToolArgPolicy({
+        toolName: "cron",
+        params: { action: "remove", name: "prod-backup" },
+        policy,
+      }),
+    ).toBeNull();
+  });
+
+  it("keeps message targets in the current chat", () => {
+    const cfg: OpenClawConfig = {
+      tools: {
+        argRules: [
+          {
+            tools: ["message"],
+            args: {
+              channel: { sameChat: true },
+              target: { sameChat: true },
+              targets: { sameChat: true },
+            },
+          },
+        ],
+      },
+    };
+    const policy = policyFor(cfg, { currentChannel: "slack", currentTarget: "C123" });
+    const check = (params: Record<string, unknown>) =>
+      evaluateToolArgPolicy({ toolName: "message", params, policy });
+
+    expect(check({ action: "send", message: "hi" })).toBeNull();
+    expect(check({ action: "send", channel: "slack", target: "C123" })).toBeNull();
+    expect(check({ action: "send", channel: "discord" })).toMatch(/is not the current channel/);
+    expect(check({ action: "send", targets: ["C123", "C999"] })).toMatch(
+      /targets "C999" is not the current chat/,
+    );
+    expect(
+      evaluateToolArgPolicy({
+        toolName: "message",
+        params: { action: "send", target: "C123" },
+        policy: policyFor(cfg),
+      }),
+    ).toMatch(/this run has no current chat/);
+  });
+
+  it("checks legacy target aliases against a target condition", () => {
+    const policy = policyFor(
+      { tools: { argRules: [{ tools: ["message"], args: { target: { sameChat: true } } }] } },
+      { currentChannel: "slack", currentTarget: "C123" },
+    );
+    const check = (params: Record<string, unknown>) =>
+      evaluateToolArgPolicy({ toolName: "message", params, policy });
+
+    expect(check({ action: "send", to: "C123" })).toBeNull();
+    expect(check({ action: "send", to: "C999" })).toBe(
+      'message denied by tools.argRules[0]: to "C999" is not the current chat.',
+    );
+    expect(check({ action: "send", channelId: "C999" })).toMatch(
+      /channelId "C999" is not the current chat/,
+    );
+    expect(check({ action: "send", target: "C123", to: "C999" })).toMatch(
+      /to "C999" is not the current chat/,
+    );
+    expect(check({ action: "send", targets: ["C999"] })).toMatch(
+      /targets "C999" is not the current chat/,
+    );
+  });
+});
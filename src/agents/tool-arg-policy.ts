@@ -0,0 +1,234 @@
+import path from "node:path";
+import type { OpenClawConfig } from "../config/config.js";
+import type { ToolArgCondition, ToolArgRule } from "../config/types.tools.js";
+import { expandHomePrefix } from "../infra/home-dir.js";
+import { normalizeTargetForProvider } from "../infra/outbound/target-normalization.js";
+import { compileSafeRegex } from "../security/safe-regex.js";
+import { resolveAgentConfig } from "./agent-scope.js";
+import { compileGlobPatterns, matchesAnyGlobPattern } from "./glob-pattern.js";
+import { normalizeToolParams } from "./pi-tools.read.js";
+import { normalizeActionName } from "./tool-mutation.js";
+import { normalizeToolName } from "./tool-policy.js";
+
+/**
+ * Names a call can use for its destination. The message tool still accepts the
+ * legacy `to` / `channelId` and turns them into `target`, so a condition on any
+ * of these is checked against every one of them.
+ */
+const TARGET_ARG_ALIASES = ["target", "targets", "to", "channelId"];
+
+export type LabeledToolArgRule = ToolArgRule & {
+  /** Config path of the rule, used in denial messages (e.g. `tools.argRules[0]`). */
+  label: string;
+};
+
+/** Rules plus the run context they are evaluated against. */
+export type ToolArgPolicy = {
+  rules: LabeledToolArgRule[];
+  workspaceDir?: string;
+  /** Channel the run replies on (e.g. "telegram"). */
+  currentChannel?: string;
+  /** Chat the run replies to, as the channel addresses it. */
+  currentTarget?: string;
+};
+
+/** Global rules followed by agent rules; an agent can add rules but not drop global ones. */
+export function resolveToolArgRules(params: {
+  cfg?: OpenClawConfig;
+  agentId?: string;
+}): LabeledToolArgRule[] {
+  const global = (params.cfg?.tools?.argRules ?? []).map((rule, index) => ({
+    ...rule,
+    label: `tools.argRules[${index}]`,
+  }));
+  const agent =
+    params.agentId && params.cfg
+      ? (resolveAgentConfig(params.cfg, params.agentId)?.tools?.argRules ?? []).map(
+          (rule, index) => ({
+            ...rule,
+            label: `agents.${params.agentId}.tools.argRules[${index}]`,
+          }),
+        )
+      : [];
+  return [...global, ...agent];
+}
+
+function normalizeGlobValue(value: string) {
+  return value.trim().toLowerCase();
+}
+
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function compilePathGlob(pattern: string): RegExp {
+  const source = escapeRegex(pattern)
+    .replaceAll("\\*\\*", "\u0000")
+    .replaceAll("\\*", "[^/]*")
+    .replaceAll("\u0000", ".*");
+  return new RegExp(`^${source}$`);
+}
+
+function resolvePolicyPath(raw: string, workspaceDir: string | undefined): string {
+  const expanded = expandHomePrefix(raw.trim());
+  return path.resolve(workspaceDir ?? process.cwd(), expanded);
+}
+
+function expandPathPattern(pattern: string, workspaceDir: string | undefined): string | null {
+  if (pattern.includes("${workspace}")) {
+    if (!workspaceDir) {
+      return null;
+    }
+    return resolvePolicyPath(pattern.replaceAll("${workspace}", workspaceDir), workspaceDir);
+  }
+  return resolvePolicyPath(pattern, workspaceDir);
+}
+
+function hostMatchesDomain(host: string, domain: string): boolean {
+  const normalized = domain.trim().toLowerCase().replace(/^\*\./, "").replace(/\.$/, "");
+  return Boolean(normalized) && (host === normalized || host.endsWith(`.${normalized}`));
+}
+
+function describeList(values: string[]): string {
+  return values.join(", ");
+}
+
+/** Returns why the value fails the condition, or null when it passes. */
+function checkCondition(
+  condition: ToolArgCondition,
+  argName: string,
+  value: string,
+  policy: ToolArgPolicy,
+): string | null {
+  const quoted = JSON.stringify(value);
+  if (condition.allow) {
+    const patterns = compileGlobPatterns({ raw: condition.allow, normalize: normalizeGlobValue });
+    if (!matchesAnyGlobPattern(normalizeGlobValue(value), patterns)) {
+      return `${argName} ${quoted} is not in the allowed list (${describeList(condition.allow)})`;
+    }
+  }
+  if (condition.deny) {
+    const patterns = compileGlobPatterns({ raw: condition.deny, normalize: normalizeGlobValue });
+    if (matchesAnyGlobPattern(normalizeGlobValue(value), patterns)) {
+      return `${argName} ${quoted} is in the denied list`;
+    }
+  }
+  if (condition.pattern !== undefined) {
+    const regex = compileSafeRegex(condition.pattern);
+    if (!regex) {
+      return `${argName} cannot be checked: pattern is not a valid safe regular expression`;
+    }
+    if (!regex.test(value)) {
+      return `${argName} ${quoted} does not match the required pattern ${condition.pattern}`;
+    }
+  }
+  if (condition.domains) {
+    let host: string;
+    try {
+      host = new URL(value).hostname.toLowerCase().replace(/\.$/, "");
+    } catch {
+      return `${argName} ${quoted} is not a valid URL`;
+    }
+    if (!condition.domains.some((domain) => hostMatchesDomain(host, domain))) {
+      return `${argName} host ${host} is not in the allowed domains (${describeList(condition.domains)})`;
+    }
+  }
+  if (condition.paths) {
+    const resolved = resolvePolicyPath(value, policy.workspaceDir);
+    const allowed = condition.paths.some((pattern) => {
+      const expanded = expandPathPattern(pattern, policy.workspaceDir);
+      return expanded !== null && compilePathGlob(expanded).test(resolved);
+    });
+    if (!allowed) {
+      return `${argName} ${resolved} is outside the allowed paths (${describeList(condition.paths)})`;
+    }
+  }
+  if (condition.sameChat) {
+    const channel = policy.currentChannel?.trim().toLowerCase();
+    const target = policy.currentTarget?.trim();
+    if (!channel || !target) {
+      return `${argName} is restricted to the current chat, but this run has no current chat`;
+    }
+    if (argName === "channel") {
+      if (value.trim().toLowerCase() !== channel) {
+        return `${argName} ${quoted} is not the current channel (${channel})`;
+      }
+    } else if (
+      normalizeTargetForProvider(channel, value) !== normalizeTargetForProvider(channel, target)
+    ) {
+      return `${argName} ${quoted} is not the current chat`;
+    }
+  }
+  return null;
+}
+
+function readArgValues(value: unknown): string[] | null {
+  const values = Array.isArray(value) ? value : [value];
+  const strings: string[] = [];
+  for (const entry of values) {
+    if (typeof entry === "string") {
+      strings.push(entry);
+    } else if (typeof entry === "number" || typeof entry === "boolean") {
+      strings.push(String(entry));
+    } else {
+      return null;
+    }
+  }
+  return strings;
+}
+
+function ruleApplies(rule: ToolArgRule, toolName: string, params: Record<string, unknown>) {
+  const tools = compileGlobPatterns({ raw: rule.tools, normalize: normalizeToolName });
+  if (!matchesAnyGlobPattern(toolName, tools)) {
+    return false;
+  }
+  if (!rule.actions || rule.actions.length === 0) {
+    return true;
+  }
+  const action = normalizeActionName(params.action);
+  return action !== undefined && rule.actions.map(normalizeActionName).includes(action);
+}
+
+/**
+ * Check a tool call against argument rules. Returns a denial message for the
+ * model, or null when every applicable rule passes.
+ */
+export function evaluateToolArgPolicy(params: {
+  toolName: string;
+  params: unknown;
+  policy: ToolArgPolicy | undefined;
+}): string | null {
+  const policy = params.policy;
+  if (!policy?.rules.length) {
+    return null;
+  }
+  const toolName = normalizeToolName(params.toolName);
+  const args = normalizeToolParams(params.params) ?? {};
+  for (const rule of policy.rules) {
+    if (!ruleApplies(rule, toolName, args)) {
+      continue;
+    }
+    for (const [ruleArgName, condition] of Object.entries(rule.args)) {
+      const argNames = TARGET_ARG_ALIASES.includes(ruleArgName)
+        ? TARGET_ARG_ALIASES
+        : [ruleArgName];
+      for (const argName of argNames) {
+        if (args[argName] === undefined || args[argName] === null) {
+          continue;
+        }
+        const values = readArgValues(args[argName]);
+        const failure =
+          values === null
+            ? `${argName} has a value this rule cannot check`
+            : values
+                .map((value) => checkCondition(condition, argName, value, policy))
+                .find((reason) => reason !== null);
+        if (failure) {
+          const extra = rule.message?.trim() ? ` ${rule.message.trim()}` : "";
+          return `${toolName} denied by ${rule.label}: ${failure}.${extra}`;
+        }
+      }
+    }
+  }
+  return null;
+}
@@ -113,6 +113,14 @@ const CORE_TOOL_DEFINITIONS: CoreToolDefinition[] = [
     profiles: ["coding"],
     includeInOpenClawGroup: true,
   },
+  {
+    id: "memory_entries",
+    label: "memory_entries",
+    description: "Record tagged memory entries",
+    sectionId: "memory",
+    profiles: ["coding"],
+    includeInOpenClawGroup: true,
+  },
   {
     id: "sessions_list",
     label: "sessions_list",
@@ -18,6 +18,17 @@ describe("tool mutation helpers", () => {
     ).toBe(true);
   });
 
+  it("treats memory_entries writes as mutating and listing as read-only", () => {
+    expect(isLikelyMutatingToolName("memory_entries")).toBe(true);
+    expect(isMutatingToolCall("memory_entries", { action: "list", tags: ["prefs"] })).toBe(false);
+    expect(isMutatingToolCall("memory_entries", { action: "upsert", text: "likes tea" })).toBe(
+      true,
+    );
+    expect(buildToolActionFingerprint("memory_entries", { action: "delete", id: "pref-1" })).toBe(
+      "tool=memory_entries|action=delete|id=pref-1",
+    );
+  });
+
   it("builds stable fingerprints for mutating calls and omits read-only calls", () => {
     const writeFingerprint = buildToolActionFingerprint(
       "write",
@@ -12,6 +12,7 @@ const MUTATING_TOOL_NAMES = new Set([
   "canvas",
   "nodes",
   "session_status",
+  "memory_entries",
 ]);
 
 const READ_ONLY_ACTIONS = new Set([
@@ -31,6 +32,21 @@ const READ_ONLY_ACTIONS = new Set([
   "probe",
 ]);
 
+// Arguments that name what a mutating call acts on (file, recipient, job, ...).
+const STABLE_TARGET_KEYS = [
+  "path",
+  "filePath",
+  "oldPath",
+  "newPath",
+  "to",
+  "target",
+  "messageId",
+  "sessionKey",
+  "jobId",
+  "id",
+  "model",
+];
+
 const PROCESS_MUTATING_ACTIONS = new Set(["write", "send_keys", "submit", "paste", "kill"]);
 
 const MESSAGE_MUTATING_ACTIONS = new Set([
@@ -60,7 +76,7 @@ function asRecord(value: unknown): Record<string, unknown> | undefined {
   return value && typeof value === "object" ? (value as Record<string, unknown>) : undefined;
 }
 
-function normalizeActionName(value: unknown): string | undefined {
+export function normalizeActionName(value: unknown): string | undefined {
   if (typeof value !== "string") {
     return undefined;
   }
@@ -119,7 +135,12 @@ export function isMutatingToolCall(toolName: string, args: unknown): boolean {
     case "session_status":
       return typeof record?.model === "string" && record.model.trim().length > 0;
     default: {
-      if (normalized === "cron" || normalized === "gateway" || normalized === "canvas") {
+      if (
+        normalized === "cron" ||
+        normalized === "gateway" ||
+        normalized === "canvas" ||
+        normalized === "memory_entries"
+      ) {
         return action == null || !READ_ONLY_ACTIONS.has(action);
       }
       if (normalized === "nodes") {
@@ -152,19 +173,7 @@ export function buildToolActionFingerprint(
     parts.push(`action=${action}`);
   }
   let hasStableTarget = false;
-  for (const key of [
-    "path",
-    "filePath",
-    "oldPath",
-    "newPath",
-    "to",
-    "target",
-    "messageId",
-    "sessionKey",
-    "jobId",
-    "id",
-    "model",
-  ]) {
+  for (const key of STABLE_TARGET_KEYS) {
     const value = normalizeFingerprintValue(record?.[key]);
     if (value) {
       parts.push(`${key.toLowerCase()}=${value}`);
@@ -181,6 +190,12 @@ export function buildToolActionFingerprint(
   return parts.join("|");
 }
 
+/** True when the call's arguments name a stable target that fingerprints can key on. */
+export function hasStableToolActionTarget(args: unknown): boolean {
+  const record = asRecord(args);
+  return STABLE_TARGET_KEYS.some((key) => normalizeFingerprintValue(record?.[key]) !== undefined);
+}
+
 export function buildToolMutationState(
   toolName: string,
   args: unknown,
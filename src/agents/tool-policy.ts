@@ -125,6 +125,13 @@ export function expandPluginGroups(
       }
       continue;
     }
+    if (normalized === "group:mcp") {
+      const mcpTools = [...groups.byPlugin]
+        .filter(([pluginId]) => pluginId.startsWith("mcp:"))
+        .flatMap(([, tools]) => tools);
+      expanded.push(...(mcpTools.length > 0 ? mcpTools : [normalized]));
+      continue;
+    }
     const tools = groups.byPlugin.get(normalized);
     if (tools && tools.length > 0) {
       expanded.push(...tools);
@@ -170,7 +177,10 @@ export function stripPluginOnlyAllowlist(
       continue;
     }
     const isPluginEntry =
-      entry === "group:plugins" || pluginIds.has(entry) || pluginTools.has(entry);
+      entry === "group:plugins" ||
+      entry === "group:mcp" ||
+      pluginIds.has(entry) ||
+      pluginTools.has(entry);
     const expanded = expandToolGroups([entry]);
     const isCoreEntry = expanded.some((tool) => coreTools.has(tool));
     if (isCoreEntry) {
@@ -17,7 +17,17 @@ import { resolveInternalSessionKey, resolveMainSessionAlias } from "./sessions-h
 // contain nested unions. Tool schemas need to stay provider-friendly, so we
 // accept "any object" here and validate at runtime.
 
-const CRON_ACTIONS = ["status", "list", "add", "update", "remove", "run", "runs", "wake"] as const;
+const CRON_ACTIONS = [
+  "status",
+  "list",
+  "add",
+  "update",
+  "remove",
+  "run",
+  "runs",
+  "graph",
+  "wake",
+] as const;
 
 const CRON_WAKE_MODES = ["now", "next-heartbeat"] as const;
 const CRON_RUN_MODES = ["due", "force"] as const;
@@ -210,7 +220,7 @@ export function createCronTool(opts?: CronToolOptions, deps?: CronToolDeps): Any
     label: "Cron",
     name: "cron",
     ownerOnly: true,
-    description: `Manage Gateway cron jobs (status/list/add/update/remove/run/runs) and send wake events.
+    description: `Manage Gateway cron jobs (status/list/add/update/remove/run/runs/graph) and send wake events.
 
 ACTIONS:
 - status: Check cron scheduler status
@@ -220,6 +230,7 @@ ACTIONS:
 - remove: Delete job (requires jobId)
 - run: Trigger job immediately (requires jobId)
 - runs: Get job run history (requires jobId)
+- graph: Show job dependency chains (optional jobId limits to that job's chain)
 - wake: Send wake event (requires text, optional mode)
 
 JOB SCHEMA (for add action):
@@ -239,6 +250,9 @@ SCHEDULE TYPES (schedule.kind):
   { "kind": "every", "everyMs": <interval-ms>, "anchorMs": <optional-start-ms> }
 - "cron": Cron expression
   { "kind": "cron", "expr": "<cron-expression>", "tz": "<optional-timezone>" }
+- "after": Run when upstream jobs finish (chains/DAG workflows)
+  { "kind": "after", "dependsOn": [{ "jobId": "<upstream-job-id>", "on": "success|failure|always" }] }
+  "on" defaults to "success". For agentTurn payloads the upstream run summary is appended to the message.
 
 ISO timestamps without an explicit timezone are treated as UTC.
 
@@ -469,6 +483,10 @@ Use jobId as the canonical identifier; id is accepted for compatibility. Use con
           }
           return jsonResult(await callGateway("cron.runs", gatewayOpts, { id }));
         }
+        case "graph": {
+          const id = readStringParam(params, "jobId") ?? readStringParam(params, "id");
+          return jsonResult(await callGateway("cron.graph", gatewayOpts, id ? { id } : {}));
+        }
         case "wake": {
           const text = readStringParam(params, "text", { required: true });
           const mode =
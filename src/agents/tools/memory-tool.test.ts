@@ -1,9 +1,10 @@
 import { beforeEach, describe, expect, it } from "vitest";
 import {
+  memoryToolManagerStub,
   resetMemoryToolMockState,
   setMemorySearchImpl,
 } from "../../../test/helpers/memory-tool-manager-mock.js";
-import { createMemorySearchTool } from "./memory-tool.js";
+import { createMemoryEntriesTool, createMemorySearchTool } from "./memory-tool.js";
 
 describe("memory_search unavailable payloads", () => {
   beforeEach(() => {
@@ -56,3 +57,61 @@ describe("memory_search unavailable payloads", () => {
     });
   });
 });
+
+describe("memory_entries", () => {
+  beforeEach(() => {
+    resetMemoryToolMockState();
+  });
+
+  function createEntriesTool() {
+    const tool = createMemoryEntriesTool({
+      config: { agents: { list: [{ id: "main", default: true }] } },
+      agentSessionKey: "agent:main:telegram:direct:42",
+    });
+    if (!tool) {
+      throw new Error("tool missing");
+    }
+    return tool;
+  }
+
+  it("upserts entries with the calling session key and a ttl-derived expiry", async () => {
+    const before = Date.now();
+    const result = await createEntriesTool().execute("upsert", {
+      action: "upsert",
+      id: "coffee",
+      text: "Prefers oat milk.",
+      tags: ["preferences"],
+      ttlSeconds: 60,
+    });
+
+    const entry = memoryToolManagerStub.upsert.mock.calls[0]?.[0];
+    expect(entry).toMatchObject({
+      id: "coffee",
+      text: "Prefers oat milk.",
+      tags: ["preferences"],
+      sessionKey: "agent:main:telegram:direct:42",
+    });
+    expect(entry?.expiresAt).toBeGreaterThanOrEqual(before + 60_000);
+    expect(result.details).toMatchObject({ action: "upsert", entry: { id: "coffee" } });
+  });
+
+  it("forwards list filters and delete ids to the manager", async () => {
+    const tool = createEntriesTool();
+    await tool.execute("list", { action: "list", tags: ["work"], sessionKey: "s1", limit: 5 });
+    expect(memoryToolManagerStub.list).toHaveBeenCalledWith({
+      tags: ["work"],
+      sessionKey: "s1",
+      limit: 5,
+    });
+
+    const deleted = await tool.execute("delete", { action: "delete", id: "coffee" });
+    expect(memoryToolManagerStub.delete).toHaveBeenCalledWith("coffee");
+    expect(deleted.details).toEqual({ action: "delete", id: "coffee", deleted: true });
+  });
+
+  it("rejects invalid expiry timestamps", async () => {
+    await expect(
+      createEntriesTool().execute("bad", { action: "upsert", text: "x", expiresAt: "soon" }),
+    ).rejects.toThrow("expiresAt must be an ISO-8601 timestamp");
+  });
+});
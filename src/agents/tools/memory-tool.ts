@@ -1,19 +1,46 @@
 import { Type } from "@sinclair/typebox";
+import { parseDurationMs } from "../../cli/parse-duration.js";
 import type { OpenClawConfig } from "../../config/config.js";
 import type { MemoryCitationsMode } from "../../config/types.memory.js";
 import { resolveMemoryBackendConfig } from "../../memory/backend-config.js";
 import { getMemorySearchManager } from "../../memory/index.js";
-import type { MemorySearchResult } from "../../memory/types.js";
+import type {
+  MemoryEntryUpsert,
+  MemorySearchFilter,
+  MemorySearchResult,
+  MemorySource,
+} from "../../memory/types.js";
 import { parseAgentSessionKey } from "../../routing/session-key.js";
 import { resolveSessionAgentId } from "../agent-scope.js";
 import { resolveMemorySearchConfig } from "../memory-search.js";
+import { stringEnum } from "../schema/typebox.js";
 import type { AnyAgentTool } from "./common.js";
-import { jsonResult, readNumberParam, readStringParam } from "./common.js";
+import {
+  jsonResult,
+  readNumberParam,
+  readStringArrayParam,
+  readStringParam,
+  ToolInputError,
+} from "./common.js";
+
+const MEMORY_SEARCH_SOURCES = ["memory", "sessions"] as const;
 
 const MemorySearchSchema = Type.Object({
   query: Type.String(),
   maxResults: Type.Optional(Type.Number()),
   minScore: Type.Optional(Type.Number()),
+  sources: Type.Optional(Type.Array(stringEnum(MEMORY_SEARCH_SOURCES))),
+  path: Type.Optional(
+    Type.String({ description: 'Path glob, e.g. "memory/entries/*" or "memory/2026-03-*".' }),
+  ),
+  since: Type.Optional(
+    Type.String({ description: 'ISO date/time or a lookback like "7d" / "12h".' }),
+  ),
+  until: Type.Optional(Type.String({ description: "ISO date/time (exclusive)." })),
+  tags: Type.Optional(Type.Array(Type.String())),
+  channel: Type.Optional(
+    Type.String({ description: 'Originating channel, e.g. "slack" or "#infra".' }),
+  ),
 });
 
 const MemoryGetSchema = Type.Object({
@@ -22,6 +49,19 @@ const MemoryGetSchema = Type.Object({
   lines: Type.Optional(Type.Number()),
 });
 
+const MEMORY_ENTRIES_ACTIONS = ["upsert", "delete", "list"] as const;
+
+const MemoryEntriesSchema = Type.Object({
+  action: stringEnum(MEMORY_ENTRIES_ACTIONS),
+  id: Type.Optional(Type.String()),
+  text: Type.Optional(Type.String()),
+  tags: Type.Optional(Type.Array(Type.String())),
+  expiresAt: Type.Optional(Type.String({ description: "ISO-8601 expiry timestamp." })),
+  ttlSeconds: Type.Optional(Type.Number({ description: "Expire the entry after N seconds." })),
+  sessionKey: Type.Optional(Type.String({ description: "list: only entries from this session." })),
+  limit: Type.Optional(Type.Number()),
+});
+
 function resolveMemoryToolContext(options: { config?: OpenClawConfig; agentSessionKey?: string }) {
   const cfg = options.config;
   if (!cfg) {
@@ -50,12 +90,13 @@ export function createMemorySearchTool(options: {
     label: "Memory Search",
     name: "memory_search",
     description:
-      "Mandatory recall step: semantically search MEMORY.md + memory/*.md (and optional session transcripts) before answering questions about prior work, decisions, dates, people, preferences, or todos; returns top snippets with path + lines. If response has disabled=true, memory retrieval is unavailable and should be surfaced to the user.",
+      "Mandatory recall step: semantically search MEMORY.md + memory/*.md (and optional session transcripts) before answering questions about prior work, decisions, dates, people, preferences, or todos; returns top snippets with path + lines. Optional filters (sources, path glob, since/until, tags, channel) narrow the search before ranking. If response has disabled=true, memory retrieval is unavailable and should be surfaced to the user.",
     parameters: MemorySearchSchema,
     execute: async (_toolCallId, params) => {
       const query = readStringParam(params, "query", { required: true });
       const maxResults = readNumberParam(params, "maxResults");
       const minScore = readNumberParam(params, "minScore");
+      const filter = readMemorySearchFilter(params);
       const { manager, error } = await getMemorySearchManager({
         cfg,
         agentId,
@@ -73,6 +114,7 @@ export function createMemorySearchTool(options: {
           maxResults,
           minScore,
           sessionKey: options.agentSessionKey,
+          filter,
         });
         const status = manager.status();
         const decorated = decorateCitations(rawResults, includeCitations);
@@ -98,6 +140,47 @@ export function createMemorySearchTool(options: {
   };
 }
 
+function readMemorySearchFilter(params: Record<string, unknown>): MemorySearchFilter | undefined {
+  const sources = readStringArrayParam(params, "sources");
+  const filter: MemorySearchFilter = {
+    sources: sources?.filter((source): source is MemorySource =>
+      (MEMORY_SEARCH_SOURCES as readonly string[]).includes(source),
+    ),
+    pathGlob: readStringParam(params, "path"),
+    since: readFilterTimestamp(params, "since", { allowLookback: true }),
+    until: readFilterTimestamp(params, "until", { allowLookback: false }),
+    tags: readStringArrayParam(params, "tags"),
+    channel: readStringParam(params, "channel"),
+  };
+  if (sources && filter.sources?.length === 0) {
+    throw new ToolInputError('sources must contain "memory" and/or "sessions"');
+  }
+  return Object.values(filter).some((value) => value !== undefined) ? filter : undefined;
+}
+
+function readFilterTimestamp(
+  params: Record<string, unknown>,
+  key: "since" | "until",
+  opts: { allowLookback: boolean },
+): number | undefined {
+  const raw = readStringParam(params, key);
+  if (!raw) {
+    return undefined;
+  }
+  if (opts.allowLookback && /^\d/.test(raw) && !/^\d{4}-/.test(raw)) {
+    try {
+      return Date.now() - parseDurationMs(raw, { defaultUnit: "d" });
+    } catch {
+      // Fall through to timestamp parsing.
+    }
+  }
+  const parsed = Date.parse(raw);
+  if (!Number.isFinite(parsed)) {
+    throw new ToolInputError(`${key} must be an ISO-8601 date/time`);
+  }
+  return parsed;
+}
+
 export function createMemoryGetTool(options: {
   config?: OpenClawConfig;
   agentSessionKey?: string;
@@ -139,6 +222,91 @@ export function createMemoryGetTool(options: {
   };
 }
 
+export function createMemoryEntriesTool(options: {
+  config?: OpenClawConfig;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const ctx = resolveMemoryToolContext(options);
+  if (!ctx) {
+    return null;
+  }
+  const { cfg, agentId } = ctx;
+  return {
+    label: "Memory Entries",
+    name: "memory_entries",
+    description:
+      "Record durable facts as structured memory entries (stored in memory/entries/*.md and indexed for memory_search). action=upsert saves text with optional id/tags/expiresAt/ttlSeconds (reuse an id to update); action=delete removes an entry by id; action=list returns entries filtered by tags/sessionKey. Prefer this over editing memory files by hand.",
+    parameters: MemoryEntriesSchema,
+    execute: async (_toolCallId, params) => {
+      const action = readStringParam(params, "action", { required: true });
+      const { manager, error } = await getMemorySearchManager({ cfg, agentId });
+      if (!manager?.upsert || !manager.delete || !manager.list) {
+        return jsonResult({
+          action,
+          disabled: true,
+          error: error ?? "memory writes unavailable",
+        });
+      }
+      try {
+        if (action === "upsert") {
+          const entry = await manager.upsert(
+            readMemoryEntryUpsert(params, options.agentSessionKey),
+          );
+          return jsonResult({ action, entry });
+        }
+        if (action === "delete") {
+          const id = readStringParam(params, "id", { required: true });
+          return jsonResult({ action, id, deleted: await manager.delete(id) });
+        }
+        if (action === "list") {
+          const limit = readNumberParam(params, "limit", { integer: true });
+          const entries = await manager.list({
+            tags: readStringArrayParam(params, "tags"),
+            sessionKey: readStringParam(params, "sessionKey"),
+            limit: limit ?? undefined,
+          });
+          return jsonResult({ action, entries });
+        }
+        throw new ToolInputError(`Unknown action: ${action}`);
+      } catch (err) {
+        if (err instanceof ToolInputError) {
+          throw err;
+        }
+        const message = err instanceof Error ? err.message : String(err);
+        return jsonResult({ action, error: message });
+      }
+    },
+  };
+}
+
+function readMemoryEntryUpsert(
+  params: Record<string, unknown>,
+  agentSessionKey: string | undefined,
+): MemoryEntryUpsert {
+  const text = readStringParam(params, "text", { required: true });
+  const rawExpiresAt = readStringParam(params, "expiresAt");
+  const ttlSeconds = readNumberParam(params, "ttlSeconds");
+  let expiresAt: number | undefined;
+  if (rawExpiresAt) {
+    expiresAt = Date.parse(rawExpiresAt);
+    if (!Number.isFinite(expiresAt)) {
+      throw new ToolInputError("expiresAt must be an ISO-8601 timestamp");
+    }
+  } else if (ttlSeconds !== undefined) {
+    if (ttlSeconds <= 0) {
+      throw new ToolInputError("ttlSeconds must be positive");
+    }
+    expiresAt = Date.now() + ttlSeconds * 1000;
+  }
+  return {
+    id: readStringParam(params, "id"),
+    text,
+    tags: readStringArrayParam(params, "tags"),
+    sessionKey: agentSessionKey,
+    expiresAt,
+  };
+}
+
 function resolveMemoryCitationsMode(cfg: OpenClawConfig): MemoryCitationsMode {
   const mode = cfg.memory?.citations;
   if (mode === "on" || mode === "off" || mode === "auto") {
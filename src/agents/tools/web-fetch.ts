@@ -2,6 +2,8 @@ import { Type } from "@sinclair/typebox";
 import type { OpenClawConfig } from "../../config/config.js";
 import { SsrFBlockedError } from "../../infra/net/ssrf.js";
 import { logDebug } from "../../logger.js";
+import type { WebFetchProviderPlugin } from "../../plugins/types.js";
+import { getActiveWebFetchProvider } from "../../plugins/web-providers.js";
 import { wrapExternalContent, wrapWebContent } from "../../security/external-content.js";
 import { normalizeSecretInput } from "../../utils/normalize-secret-input.js";
 import { stringEnum } from "../schema/typebox.js";
@@ -15,6 +17,7 @@ import {
   type ExtractMode,
 } from "./web-fetch-utils.js";
 import { fetchWithWebToolsNetworkGuard } from "./web-guarded-fetch.js";
+import { isBuiltinWebFetchProvider, normalizeWebProviderId } from "./web-providers.js";
 import {
   CacheEntry,
   DEFAULT_CACHE_TTL_MINUTES,
@@ -302,8 +305,8 @@ function wrapWebFetchField(value: string | undefined): string | undefined {
   return wrapExternalContent(value, { source: "web_fetch", includeWarning: false });
 }
 
-function buildFirecrawlWebFetchPayload(params: {
-  firecrawl: Awaited<ReturnType<typeof fetchFirecrawlContent>>;
+function buildFallbackWebFetchPayload(params: {
+  fallback: FallbackFetchResult;
   rawUrl: string;
   finalUrlFallback: string;
   statusFallback: number;
@@ -311,18 +314,17 @@ function buildFirecrawlWebFetchPayload(params: {
   maxChars: number;
   tookMs: number;
 }): Record<string, unknown> {
-  const wrapped = wrapWebFetchContent(params.firecrawl.text, params.maxChars);
-  const wrappedTitle = params.firecrawl.title
-    ? wrapWebFetchField(params.firecrawl.title)
-    : undefined;
+  const { content } = params.fallback;
+  const wrapped = wrapWebFetchContent(content.text, params.maxChars);
+  const wrappedTitle = content.title ? wrapWebFetchField(content.title) : undefined;
   return {
     url: params.rawUrl, // Keep raw for tool chaining
-    finalUrl: params.firecrawl.finalUrl || params.finalUrlFallback, // Keep raw
-    status: params.firecrawl.status ?? params.statusFallback,
+    finalUrl: content.finalUrl || params.finalUrlFallback, // Keep raw
+    status: content.status ?? params.statusFallback,
     contentType: "text/markdown", // Protocol metadata, don't wrap
     title: wrappedTitle,
     extractMode: params.extractMode,
-    extractor: "firecrawl",
+    extractor: params.fallback.extractor,
     externalContent: {
       untrusted: true,
       source: "web_fetch",
@@ -335,7 +337,7 @@ function buildFirecrawlWebFetchPayload(params: {
     fetchedAt: new Date().toISOString(),
     tookMs: params.tookMs,
     text: wrapped.text,
-    warning: wrapWebFetchField(params.firecrawl.warning),
+    warning: wrapWebFetchField(content.warning),
   };
 }
 
@@ -436,13 +438,24 @@ type FirecrawlRuntimeParams = {
   firecrawlTimeoutSeconds: number;
 };
 
-type WebFetchRuntimeParams = FirecrawlRuntimeParams & {
+type FallbackRuntimeParams = FirecrawlRuntimeParams & {
+  /** Plugin-registered extraction backend; replaces Firecrawl in the fallback slot. */
+  fetchProvider?: WebFetchProviderPlugin;
+  config?: OpenClawConfig;
+  timeoutSeconds: number;
+};
+
+type FallbackFetchResult = {
+  extractor: string;
+  content: Awaited<ReturnType<typeof fetchFirecrawlContent>>;
+};
+
+type WebFetchRuntimeParams = FallbackRuntimeParams & {
   url: string;
   extractMode: ExtractMode;
   maxChars: number;
   maxResponseBytes: number;
   maxRedirects: number;
-  timeoutSeconds: number;
   cacheTtlMs: number;
   userAgent: string;
   readabilityEnabled: boolean;
@@ -467,7 +480,26 @@ function toFirecrawlContentParams(
   };
 }
 
-async function maybeFetchFirecrawlWebFetchPayload(
+async function fetchFallbackContent(
+  params: FallbackRuntimeParams & { url: string; extractMode: ExtractMode },
+): Promise<FallbackFetchResult | null> {
+  if (params.fetchProvider) {
+    const content = await params.fetchProvider.fetch({
+      url: params.url,
+      extractMode: params.extractMode,
+      timeoutSeconds: params.timeoutSeconds,
+      config: params.config ?? {},
+    });
+    return { extractor: params.fetchProvider.id, content };
+  }
+  const firecrawlParams = toFirecrawlContentParams(params);
+  if (!firecrawlParams) {
+    return null;
+  }
+  return { extractor: "firecrawl", content: await fetchFirecrawlContent(firecrawlParams) };
+}
+
+async function maybeFetchFallbackWebFetchPayload(
   params: WebFetchRuntimeParams & {
     urlToFetch: string;
     finalUrlFallback: string;
@@ -476,18 +508,17 @@ async function maybeFetchFirecrawlWebFetchPayload(
     tookMs: number;
   },
 ): Promise<Record<string, unknown> | null> {
-  const firecrawlParams = toFirecrawlContentParams({
+  const fallback = await fetchFallbackContent({
     ...params,
     url: params.urlToFetch,
     extractMode: params.extractMode,
   });
-  if (!firecrawlParams) {
+  if (!fallback) {
     return null;
   }
 
-  const firecrawl = await fetchFirecrawlContent(firecrawlParams);
-  const payload = buildFirecrawlWebFetchPayload({
-    firecrawl,
+  const payload = buildFallbackWebFetchPayload({
+    fallback,
     rawUrl: params.url,
     finalUrlFallback: params.finalUrlFallback,
     statusFallback: params.statusFallback,
@@ -550,7 +581,7 @@ async function runWebFetch(params: WebFetchRuntimeParams): Promise<Record<string
     if (error instanceof SsrFBlockedError) {
       throw error;
     }
-    const payload = await maybeFetchFirecrawlWebFetchPayload({
+    const payload = await maybeFetchFallbackWebFetchPayload({
       ...params,
       urlToFetch: finalUrl,
       finalUrlFallback: finalUrl,
@@ -566,7 +597,7 @@ async function runWebFetch(params: WebFetchRuntimeParams): Promise<Record<string
 
   try {
     if (!res.ok) {
-      const payload = await maybeFetchFirecrawlWebFetchPayload({
+      const payload = await maybeFetchFallbackWebFetchPayload({
         ...params,
         urlToFetch: params.url,
         finalUrlFallback: finalUrl,
@@ -617,14 +648,14 @@ async function runWebFetch(params: WebFetchRuntimeParams): Promise<Record<string
           title = readable.title;
           extractor = "readability";
         } else {
-          const firecrawl = await tryFirecrawlFallback({ ...params, url: finalUrl });
-          if (firecrawl) {
-            text = firecrawl.text;
-            title = firecrawl.title;
-            extractor = "firecrawl";
+          const fallback = await tryFallbackExtraction({ ...params, url: finalUrl });
+          if (fallback) {
+            text = fallback.content.text;
+            title = fallback.content.title;
+            extractor = fallback.extractor;
           } else {
             throw new Error(
-              "Web fetch extraction failed: Readability and Firecrawl returned no content.",
+              `Web fetch extraction failed: Readability and ${params.fetchProvider?.label ?? "Firecrawl"} returned no content.`,
             );
           }
         }
@@ -677,21 +708,28 @@ async function runWebFetch(params: WebFetchRuntimeParams): Promise<Record<string
   }
 }
 
-async function tryFirecrawlFallback(
-  params: FirecrawlRuntimeParams & { url: string; extractMode: ExtractMode },
-): Promise<{ text: string; title?: string } | null> {
-  const firecrawlParams = toFirecrawlContentParams(params);
-  if (!firecrawlParams) {
-    return null;
-  }
+async function tryFallbackExtraction(
+  params: FallbackRuntimeParams & { url: string; extractMode: ExtractMode },
+): Promise<FallbackFetchResult | null> {
   try {
-    const firecrawl = await fetchFirecrawlContent(firecrawlParams);
-    return { text: firecrawl.text, title: firecrawl.title };
+    return await fetchFallbackContent(params);
   } catch {
     return null;
   }
 }
 
+function resolveFetchProvider(fetch?: WebFetchConfig): WebFetchProviderPlugin | undefined {
+  const id = normalizeWebProviderId(fetch && "provider" in fetch ? fetch.provider : undefined);
+  if (!id || isBuiltinWebFetchProvider(id)) {
+    return undefined;
+  }
+  const provider = getActiveWebFetchProvider(id);
+  if (!provider) {
+    logDebug(`[web-fetch] fallback provider "${id}" is not registered; using Firecrawl`);
+  }
+  return provider;
+}
+
 function resolveFirecrawlEndpoint(baseUrl: string): string {
   const trimmed = baseUrl.trim();
   if (!trimmed) {
@@ -732,6 +770,7 @@ export function createWebFetchTool(options?: {
     (fetch && "userAgent" in fetch && typeof fetch.userAgent === "string" && fetch.userAgent) ||
     DEFAULT_FETCH_USER_AGENT;
   const maxResponseBytes = resolveFetchMaxResponseBytes(fetch);
+  const fetchProvider = resolveFetchProvider(fetch);
   return {
     label: "Web Fetch",
     name: "web_fetch",
@@ -766,6 +805,8 @@ export function createWebFetchTool(options?: {
         firecrawlProxy: "auto",
         firecrawlStoreInCache: true,
         firecrawlTimeoutSeconds,
+        fetchProvider,
+        config: options?.config,
       });
       return jsonResult(result);
     },
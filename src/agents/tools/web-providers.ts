@@ -0,0 +1,39 @@
+export const BUILTIN_WEB_SEARCH_PROVIDERS = [
+  "brave",
+  "perplexity",
+  "grok",
+  "gemini",
+  "kimi",
+  "searxng",
+] as const;
+
+export type BuiltinWebSearchProviderId = (typeof BUILTIN_WEB_SEARCH_PROVIDERS)[number];
+
+export const BUILTIN_WEB_SEARCH_PROVIDER_LABELS: Record<BuiltinWebSearchProviderId, string> = {
+  brave: "Brave Search",
+  perplexity: "Perplexity Sonar",
+  grok: "xAI Grok",
+  gemini: "Gemini (Google Search grounding)",
+  kimi: "Kimi (Moonshot)",
+  searxng: "SearXNG (self-hosted)",
+};
+
+export const BUILTIN_WEB_FETCH_PROVIDERS = ["firecrawl"] as const;
+
+export type BuiltinWebFetchProviderId = (typeof BUILTIN_WEB_FETCH_PROVIDERS)[number];
+
+export const BUILTIN_WEB_FETCH_PROVIDER_LABELS: Record<BuiltinWebFetchProviderId, string> = {
+  firecrawl: "Firecrawl",
+};
+
+export function normalizeWebProviderId(value: unknown): string {
+  return typeof value === "string" ? value.trim().toLowerCase() : "";
+}
+
+export function isBuiltinWebSearchProvider(id: string): id is BuiltinWebSearchProviderId {
+  return (BUILTIN_WEB_SEARCH_PROVIDERS as readonly string[]).includes(id);
+}
+
+export function isBuiltinWebFetchProvider(id: string): id is BuiltinWebFetchProviderId {
+  return (BUILTIN_WEB_FETCH_PROVIDERS as readonly string[]).includes(id);
+}
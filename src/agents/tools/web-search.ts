@@ -2,6 +2,8 @@ import { Type } from "@sinclair/typebox";
 import { formatCliCommand } from "../../cli/command-format.js";
 import type { OpenClawConfig } from "../../config/config.js";
 import { logVerbose } from "../../globals.js";
+import type { WebSearchProviderPlugin, WebSearchProviderRequest } from "../../plugins/types.js";
+import { getActiveWebSearchProvider } from "../../plugins/web-providers.js";
 import { wrapWebContent } from "../../security/external-content.js";
 import { normalizeSecretInput } from "../../utils/normalize-secret-input.js";
 import type { AnyAgentTool } from "./common.js";
@@ -10,6 +12,11 @@ import {
   WEB_TOOLS_TRUSTED_NETWORK_SSRF_POLICY,
   withWebToolsNetworkGuard,
 } from "./web-guarded-fetch.js";
+import {
+  BUILTIN_WEB_SEARCH_PROVIDERS,
+  isBuiltinWebSearchProvider,
+  normalizeWebProviderId,
+} from "./web-providers.js";
 import {
   CacheEntry,
   DEFAULT_CACHE_TTL_MINUTES,
@@ -22,7 +29,7 @@ import {
   writeCache,
 } from "./web-shared.js";
 
-const SEARCH_PROVIDERS = ["brave", "perplexity", "grok", "gemini", "kimi"] as const;
+const SEARCH_PROVIDERS = BUILTIN_WEB_SEARCH_PROVIDERS;
 const DEFAULT_SEARCH_COUNT = 5;
 const MAX_SEARCH_COUNT = 10;
 
@@ -42,6 +49,8 @@ const KIMI_WEB_SEARCH_TOOL = {
   function: { name: "$web_search" },
 } as const;
 
+const SEARXNG_SAFE_SEARCH_LEVELS = { off: 0, moderate: 1, strict: 2 } as const;
+
 const SEARCH_CACHE = new Map<string, CacheEntry<Record<string, unknown>>>();
 const BRAVE_FRESHNESS_SHORTCUTS = new Set(["pd", "pw", "pm", "py"]);
 const BRAVE_FRESHNESS_RANGE = /^(\d{4}-\d{2}-\d{2})to(\d{4}-\d{2}-\d{2})$/;
@@ -122,6 +131,25 @@ type KimiConfig = {
   model?: string;
 };
 
+type SearxngConfig = {
+  baseUrl?: string;
+  engines?: string[];
+  categories?: string[];
+  safeSearch?: keyof typeof SEARXNG_SAFE_SEARCH_LEVELS;
+  language?: string;
+};
+
+type SearxngSearchResult = {
+  title?: string;
+  url?: string;
+  content?: string;
+  publishedDate?: string | null;
+};
+
+type SearxngSearchResponse = {
+  results?: SearxngSearchResult[];
+};
+
 type GrokSearchResponse = {
   output?: Array<{
     type?: string;
@@ -326,6 +354,14 @@ function missingSearchKeyPayload(provider: (typeof SEARCH_PROVIDERS)[number]) {
       docs: "https://docs.openclaw.ai/tools/web",
     };
   }
+  if (provider === "searxng") {
+    return {
+      error: "missing_searxng_base_url",
+      message:
+        "web_search (searxng) needs the URL of a SearXNG instance. Set SEARXNG_BASE_URL in the Gateway environment, or configure tools.web.search.searxng.baseUrl.",
+      docs: "https://docs.openclaw.ai/tools/web",
+    };
+  }
   return {
     error: "missing_brave_api_key",
     message: `web_search needs a Brave Search API key. Run \`${formatCliCommand("openclaw configure --section web")}\` to store it, or set BRAVE_API_KEY in the Gateway environment.`,
@@ -350,6 +386,9 @@ function resolveSearchProvider(search?: WebSearchConfig): (typeof SEARCH_PROVIDE
   if (raw === "kimi") {
     return "kimi";
   }
+  if (raw === "searxng") {
+    return "searxng";
+  }
   if (raw === "brave") {
     return "brave";
   }
@@ -396,6 +435,13 @@ function resolveSearchProvider(search?: WebSearchConfig): (typeof SEARCH_PROVIDE
       );
       return "grok";
     }
+    // 6. SearXNG (self-hosted, no API key)
+    if (resolveSearxngBaseUrl(resolveSearxngConfig(search))) {
+      logVerbose(
+        'web_search: no provider configured, auto-detected "searxng" from the configured instance URL',
+      );
+      return "searxng";
+    }
   }
 
   return "brave";
@@ -575,6 +621,118 @@ function resolveKimiBaseUrl(kimi?: KimiConfig): string {
   return fromConfig || DEFAULT_KIMI_BASE_URL;
 }
 
+function resolveSearxngConfig(search?: WebSearchConfig): SearxngConfig {
+  if (!search || typeof search !== "object") {
+    return {};
+  }
+  const searxng = "searxng" in search ? search.searxng : undefined;
+  if (!searxng || typeof searxng !== "object") {
+    return {};
+  }
+  return searxng as SearxngConfig;
+}
+
+function resolveSearxngBaseUrl(searxng?: SearxngConfig): string | undefined {
+  const fromConfig =
+    searxng && "baseUrl" in searxng && typeof searxng.baseUrl === "string"
+      ? searxng.baseUrl.trim()
+      : "";
+  const fromEnv = (process.env.SEARXNG_BASE_URL ?? "").trim();
+  return fromConfig || fromEnv || undefined;
+}
+
+function normalizeSearxngList(values: unknown): string[] {
+  if (!Array.isArray(values)) {
+    return [];
+  }
+  return values
+    .filter((value): value is string => typeof value === "string")
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+function resolveSearxngSearchUrl(params: {
+  baseUrl: string;
+  query: string;
+  config: SearxngConfig;
+  language?: string;
+  freshness?: string;
+}): string {
+  // Accept both the instance root and an explicit ".../search" endpoint.
+  const base = params.baseUrl.replace(/\/+$/, "");
+  const url = new URL(base.endsWith("/search") ? base : `${base}/search`);
+  url.searchParams.set("q", params.query);
+  url.searchParams.set("format", "json");
+  const engines = normalizeSearxngList(params.config.engines);
+  if (engines.length > 0) {
+    url.searchParams.set("engines", engines.join(","));
+  }
+  const categories = normalizeSearxngList(params.config.categories);
+  if (categories.length > 0) {
+    url.searchParams.set("categories", categories.join(","));
+  }
+  const safeSearch = params.config.safeSearch
+    ? SEARXNG_SAFE_SEARCH_LEVELS[params.config.safeSearch]
+    : undefined;
+  if (safeSearch !== undefined) {
+    url.searchParams.set("safesearch", String(safeSearch));
+  }
+  const language = params.language || params.config.language?.trim();
+  if (language) {
+    url.searchParams.set("language", language);
+  }
+  // SearXNG uses the same day/week/month/year buckets as Perplexity recency.
+  const timeRange = freshnessToPerplexityRecency(params.freshness);
+  if (timeRange) {
+    url.searchParams.set("time_range", timeRange);
+  }
+  return url.toString();
+}
+
+async function runSearxngSearch(params: {
+  url: string;
+  count: number;
+  timeoutSeconds: number;
+}): Promise<Array<ReturnType<typeof formatSearchResultEntry>>> {
+  return withTrustedWebSearchEndpoint(
+    {
+      url: params.url,
+      timeoutSeconds: params.timeoutSeconds,
+      init: {
+        method: "GET",
+        headers: { Accept: "application/json" },
+      },
+    },
+    async (res) => {
+      if (!res.ok) {
+        return await throwWebSearchApiError(res, "SearXNG");
+      }
+      let data: SearxngSearchResponse;
+      try {
+        data = (await res.json()) as SearxngSearchResponse;
+      } catch (err) {
+        throw new Error(
+          `SearXNG returned invalid JSON (is the "json" format enabled in search.formats?): ${String(err)}`,
+          { cause: err },
+        );
+      }
+      const results = Array.isArray(data.results) ? data.results : [];
+      // Normalize to the Brave result shape so downstream citation handling is provider-agnostic.
+      return results
+        .filter((entry) => typeof entry.url === "string" && entry.url)
+        .slice(0, params.count)
+        .map((entry) =>
+          formatSearchResultEntry({
+            title: entry.title,
+            url: entry.url,
+            description: entry.content,
+            published: entry.publishedDate,
+          }),
+        );
+    },
+  );
+}
+
 function resolveGeminiConfig(search?: WebSearchConfig): GeminiConfig {
   if (!search || typeof search !== "object") {
     return {};
@@ -854,6 +1012,27 @@ function isValidIsoDate(value: string): boolean {
   );
 }
 
+/** Formats one structured result in the Brave shape shared by all result-list providers. */
+function formatSearchResultEntry(entry: {
+  title?: string;
+  url?: string;
+  description?: string;
+  published?: string | null;
+  siteName?: string;
+}) {
+  const description = entry.description ?? "";
+  const title = entry.title ?? "";
+  const url = entry.url ?? "";
+  const rawSiteName = entry.siteName || resolveSiteName(url);
+  return {
+    title: title ? wrapWebContent(title, "web_search") : "",
+    url, // Keep raw for tool chaining
+    description: description ? wrapWebContent(description, "web_search") : "",
+    published: entry.published || undefined,
+    siteName: rawSiteName || undefined,
+  };
+}
+
 function resolveSiteName(url: string | undefined): string | undefined {
   if (!url) {
     return undefined;
@@ -1153,7 +1332,19 @@ async function runWebSearch(params: {
   geminiModel?: string;
   kimiBaseUrl?: string;
   kimiModel?: string;
+  searxngBaseUrl?: string;
+  searxngConfig?: SearxngConfig;
 }): Promise<Record<string, unknown>> {
+  const searxngUrl =
+    params.provider === "searxng"
+      ? resolveSearxngSearchUrl({
+          baseUrl: params.searxngBaseUrl ?? "",
+          query: params.query,
+          config: params.searxngConfig ?? {},
+          language: params.search_lang,
+          freshness: params.freshness,
+        })
+      : undefined;
   const cacheKey = normalizeCacheKey(
     params.provider === "brave"
       ? `${params.provider}:${params.query}:${params.count}:${params.country || "default"}:${params.search_lang || "default"}:${params.ui_lang || "default"}:${params.freshness || "default"}`
@@ -1163,7 +1354,9 @@ async function runWebSearch(params: {
           ? `${params.provider}:${params.query}:${params.kimiBaseUrl ?? DEFAULT_KIMI_BASE_URL}:${params.kimiModel ?? DEFAULT_KIMI_MODEL}`
           : params.provider === "gemini"
             ? `${params.provider}:${params.query}:${params.geminiModel ?? DEFAULT_GEMINI_MODEL}`
-            : `${params.provider}:${params.query}:${params.grokModel ?? DEFAULT_GROK_MODEL}:${String(params.grokInlineCitations ?? false)}`,
+            : params.provider === "searxng"
+              ? `${params.provider}:${searxngUrl}:${params.count}`
+              : `${params.provider}:${params.query}:${params.grokModel ?? DEFAULT_GROK_MODEL}:${String(params.grokInlineCitations ?? false)}`,
   );
   const cached = readCache(SEARCH_CACHE, cacheKey);
   if (cached) {
@@ -1281,6 +1474,30 @@ async function runWebSearch(params: {
     return payload;
   }
 
+  if (params.provider === "searxng" && searxngUrl) {
+    const mapped = await runSearxngSearch({
+      url: searxngUrl,
+      count: params.count,
+      timeoutSeconds: params.timeoutSeconds,
+    });
+
+    const payload = {
+      query: params.query,
+      provider: params.provider,
+      count: mapped.length,
+      tookMs: Date.now() - start,
+      externalContent: {
+        untrusted: true,
+        source: "web_search",
+        provider: params.provider,
+        wrapped: true,
+      },
+      results: mapped,
+    };
+    writeCache(SEARCH_CACHE, cacheKey, payload, params.cacheTtlMs);
+    return payload;
+  }
+
   if (params.provider !== "brave") {
     throw new Error("Unsupported web search provider.");
   }
@@ -1322,19 +1539,14 @@ async function runWebSearch(params: {
 
       const data = (await res.json()) as BraveSearchResponse;
       const results = Array.isArray(data.web?.results) ? (data.web?.results ?? []) : [];
-      return results.map((entry) => {
-        const description = entry.description ?? "";
-        const title = entry.title ?? "";
-        const url = entry.url ?? "";
-        const rawSiteName = resolveSiteName(url);
-        return {
-          title: title ? wrapWebContent(title, "web_search") : "",
-          url, // Keep raw for tool chaining
-          description: description ? wrapWebContent(description, "web_search") : "",
-          published: entry.age || undefined,
-          siteName: rawSiteName || undefined,
-        };
-      });
+      return results.map((entry) =>
+        formatSearchResultEntry({
+          title: entry.title,
+          url: entry.url,
+          description: entry.description,
+          published: entry.age,
+        }),
+      );
     },
   );
 
@@ -1355,6 +1567,109 @@ async function runWebSearch(params: {
   return payload;
 }
 
+async function runPluginWebSearch(params: {
+  provider: WebSearchProviderPlugin;
+  request: WebSearchProviderRequest;
+  cacheTtlMs: number;
+}): Promise<Record<string, unknown>> {
+  const { provider, request } = params;
+  const cacheKey = normalizeCacheKey(
+    `plugin:${provider.id}:${request.query}:${request.count}:${request.country || "default"}:${request.search_lang || "default"}:${request.ui_lang || "default"}:${request.freshness || "default"}`,
+  );
+  const cached = readCache(SEARCH_CACHE, cacheKey);
+  if (cached) {
+    return { ...cached.value, cached: true };
+  }
+
+  const start = Date.now();
+  const result = await provider.search(request);
+  const results = Array.isArray(result.results)
+    ? result.results
+        .filter((entry) => typeof entry?.url === "string" && entry.url)
+        .slice(0, request.count)
+        .map((entry) => formatSearchResultEntry(entry))
+    : undefined;
+  const citations = Array.isArray(result.citations)
+    ? result.citations.filter((citation) =>
+        typeof citation === "string" ? citation : typeof citation?.url === "string",
+      )
+    : undefined;
+
+  const payload = {
+    query: request.query,
+    provider: provider.id,
+    ...(result.model ? { model: result.model } : {}),
+    ...(results ? { count: results.length } : {}),
+    tookMs: Date.now() - start,
+    externalContent: {
+      untrusted: true,
+      source: "web_search",
+      provider: provider.id,
+      wrapped: true,
+    },
+    ...(typeof result.content === "string" ? { content: wrapWebContent(result.content) } : {}),
+    ...(citations ? { citations } : {}),
+    ...(results ? { results } : {}),
+  };
+  writeCache(SEARCH_CACHE, cacheKey, payload, params.cacheTtlMs);
+  return payload;
+}
+
+function createPluginWebSearchTool(params: {
+  providerId: string;
+  search?: WebSearchConfig;
+  config?: OpenClawConfig;
+}): AnyAgentTool {
+  const { providerId, search } = params;
+  const provider = getActiveWebSearchProvider(providerId);
+  return {
+    label: "Web Search",
+    name: "web_search",
+    description:
+      provider?.description?.trim() ||
+      `Search the web using ${provider?.label ?? providerId}. Returns titles, URLs, and snippets or synthesized answers with citations.`,
+    parameters: WebSearchSchema,
+    execute: async (_toolCallId, args) => {
+      if (!provider) {
+        return jsonResult({
+          error: "unknown_web_search_provider",
+          message: `web_search provider "${providerId}" is not built in and no loaded plugin registers it. Install or enable the plugin that provides it, or change tools.web.search.provider.`,
+          docs: "https://docs.openclaw.ai/tools/web",
+        });
+      }
+      const toolParams = args as Record<string, unknown>;
+      const query = readStringParam(toolParams, "query", { required: true });
+      const count =
+        readNumberParam(toolParams, "count", { integer: true }) ?? search?.maxResults ?? undefined;
+      const rawFreshness = readStringParam(toolParams, "freshness");
+      const freshness = rawFreshness ? normalizeFreshness(rawFreshness) : undefined;
+      if (rawFreshness && !freshness) {
+        return jsonResult({
+          error: "invalid_freshness",
+          message:
+            "freshness must be one of pd, pw, pm, py, or a range like YYYY-MM-DDtoYYYY-MM-DD.",
+          docs: "https://docs.openclaw.ai/tools/web",
+        });
+      }
+      const result = await runPluginWebSearch({
+        provider,
+        request: {
+          query,
+          count: resolveSearchCount(count, DEFAULT_SEARCH_COUNT),
+          country: readStringParam(toolParams, "country"),
+          search_lang: readStringParam(toolParams, "search_lang"),
+          ui_lang: readStringParam(toolParams, "ui_lang"),
+          freshness,
+          timeoutSeconds: resolveTimeoutSeconds(search?.timeoutSeconds, DEFAULT_TIMEOUT_SECONDS),
+          config: params.config ?? {},
+        },
+        cacheTtlMs: resolveCacheTtlMs(search?.cacheTtlMinutes, DEFAULT_CACHE_TTL_MINUTES),
+      });
+      return jsonResult(result);
+    },
+  };
+}
+
 export function createWebSearchTool(options?: {
   config?: OpenClawConfig;
   sandboxed?: boolean;
@@ -1364,11 +1679,21 @@ export function createWebSearchTool(options?: {
     return null;
   }
 
+  const configuredProvider = normalizeWebProviderId(search?.provider);
+  if (configuredProvider && !isBuiltinWebSearchProvider(configuredProvider)) {
+    return createPluginWebSearchTool({
+      providerId: configuredProvider,
+      search,
+      config: options?.config,
+    });
+  }
+
   const provider = resolveSearchProvider(search);
   const perplexityConfig = resolvePerplexityConfig(search);
   const grokConfig = resolveGrokConfig(search);
   const geminiConfig = resolveGeminiConfig(search);
   const kimiConfig = resolveKimiConfig(search);
+  const searxngConfig = resolveSearxngConfig(search);
 
   const description =
     provider === "perplexity"
@@ -1379,7 +1704,9 @@ export function createWebSearchTool(options?: {
           ? "Search the web using Kimi by Moonshot. Returns AI-synthesized answers with citations from native $web_search."
           : provider === "gemini"
             ? "Search the web using Gemini with Google Search grounding. Returns AI-synthesized answers with citations from Google Search."
-            : "Search the web using Brave Search API. Supports region-specific and localized search via country and language parameters. Returns titles, URLs, and snippets for fast research.";
+            : provider === "searxng"
+              ? "Search the web using a self-hosted SearXNG metasearch instance. Supports language selection via search_lang. Returns titles, URLs, and snippets for fast research."
+              : "Search the web using Brave Search API. Supports region-specific and localized search via country and language parameters. Returns titles, URLs, and snippets for fast research.";
 
   return {
     label: "Web Search",
@@ -1398,9 +1725,14 @@ export function createWebSearchTool(options?: {
               ? resolveKimiApiKey(kimiConfig)
               : provider === "gemini"
                 ? resolveGeminiApiKey(geminiConfig)
-                : resolveSearchApiKey(search);
-
-      if (!apiKey) {
+                : provider === "searxng"
+                  ? undefined
+                  : resolveSearchApiKey(search);
+      // SearXNG is keyless; the instance URL is its only required setting.
+      const searxngBaseUrl =
+        provider === "searxng" ? resolveSearxngBaseUrl(searxngConfig) : undefined;
+
+      if (provider === "searxng" ? !searxngBaseUrl : !apiKey) {
         return jsonResult(missingSearchKeyPayload(provider));
       }
       const params = args as Record<string, unknown>;
@@ -1432,10 +1764,16 @@ export function createWebSearchTool(options?: {
       const search_lang = normalizedBraveLanguageParams.search_lang;
       const ui_lang = normalizedBraveLanguageParams.ui_lang;
       const rawFreshness = readStringParam(params, "freshness");
-      if (rawFreshness && provider !== "brave" && provider !== "perplexity") {
+      if (
+        rawFreshness &&
+        provider !== "brave" &&
+        provider !== "perplexity" &&
+        provider !== "searxng"
+      ) {
         return jsonResult({
           error: "unsupported_freshness",
-          message: "freshness is only supported by the Brave and Perplexity web_search providers.",
+          message:
+            "freshness is only supported by the Brave, Perplexity, and SearXNG web_search providers.",
           docs: "https://docs.openclaw.ai/tools/web",
         });
       }
@@ -1451,7 +1789,7 @@ export function createWebSearchTool(options?: {
       const result = await runWebSearch({
         query,
         count: resolveSearchCount(count, DEFAULT_SEARCH_COUNT),
-        apiKey,
+        apiKey: apiKey ?? "",
         timeoutSeconds: resolveTimeoutSeconds(search?.timeoutSeconds, DEFAULT_TIMEOUT_SECONDS),
         cacheTtlMs: resolveCacheTtlMs(search?.cacheTtlMinutes, DEFAULT_CACHE_TTL_MINUTES),
         provider,
@@ -1470,6 +1808,8 @@ export function createWebSearchTool(options?: {
         geminiModel: resolveGeminiModel(geminiConfig),
         kimiBaseUrl: resolveKimiBaseUrl(kimiConfig),
         kimiModel: resolveKimiModel(kimiConfig),
+        searxngBaseUrl,
+        searxngConfig,
       });
       return jsonResult(result);
     },
@@ -1493,5 +1833,7 @@ export const __testing = {
   resolveKimiModel,
   resolveKimiBaseUrl,
   extractKimiCitations,
+  resolveSearxngBaseUrl,
+  resolveSearxngSearchUrl,
   resolveRedirectUrl,
 } as const;
@@ -1,5 +1,7 @@
 import { EnvHttpProxyAgent } from "undici";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { setActivePluginRegistry } from "../../plugins/runtime.js";
+import { createTestRegistry } from "../../test-utils/channel-plugins.js";
 import { withFetchPreconnect } from "../../test-utils/fetch-mock.js";
 import { createWebFetchTool, createWebSearchTool } from "./web-tools.js";
 
@@ -406,6 +408,148 @@ describe("web_search kimi provider", () => {
   });
 });
 
+describe("web_search searxng provider", () => {
+  const priorFetch = global.fetch;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    global.fetch = priorFetch;
+  });
+
+  it("returns a setup hint when no SearXNG instance is configured", async () => {
+    vi.stubEnv("SEARXNG_BASE_URL", "");
+    const tool = createWebSearchTool({
+      config: { tools: { web: { search: { provider: "searxng" } } } },
+      sandboxed: true,
+    });
+    const result = await tool?.execute?.("call-1", { query: "test" });
+    expect(result?.details).toMatchObject({ error: "missing_searxng_base_url" });
+  });
+
+  it("queries the instance with configured filters and normalizes results", async () => {
+    const mockFetch = installMockFetch({
+      results: [
+        {
+          title: "OpenClaw",
+          url: "https://openclaw.ai/docs",
+          content: "Docs",
+          engine: "duckduckgo",
+          publishedDate: "2026-01-02T00:00:00",
+        },
+        { title: "No URL", content: "dropped" },
+        { title: "Second", url: "https://example.com/a", content: "" },
+        { title: "Third", url: "https://example.com/b", content: "over count" },
+      ],
+    });
+    const tool = createWebSearchTool({
+      config: {
+        tools: {
+          web: {
+            search: {
+              provider: "searxng",
+              searxng: {
+                baseUrl: "http://10.0.0.5:8080/",
+                engines: ["duckduckgo", " wikipedia "],
+                categories: ["general"],
+                safeSearch: "strict",
+                language: "en",
+              },
+            },
+          },
+        },
+      },
+      sandboxed: true,
+    });
+    const result = await tool?.execute?.("call-1", {
+      query: "openclaw",
+      count: 2,
+      search_lang: "de-DE",
+      freshness: "pw",
+    });
+
+    const url = new URL(mockFetch.mock.calls[0]?.[0] as string);
+    expect(url.origin + url.pathname).toBe("http://10.0.0.5:8080/search");
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      q: "openclaw",
+      format: "json",
+      engines: "duckduckgo,wikipedia",
+      categories: "general",
+      safesearch: "2",
+      language: "de-DE",
+      time_range: "week",
+    });
+    const details = result?.details as {
+      provider?: string;
+      count?: number;
+      results?: Array<Record<string, unknown>>;
+    };
+    expect(details.provider).toBe("searxng");
+    expect(details.count).toBe(2);
+    expect(details.results?.[0]).toMatchObject({
+      url: "https://openclaw.ai/docs",
+      published: "2026-01-02T00:00:00",
+      siteName: "openclaw.ai",
+    });
+    expect(details.results?.[0]?.description).toContain("Docs");
+    expect(details.results?.[1]).toMatchObject({ url: "https://example.com/a", description: "" });
+  });
+});
+
+describe("web_search plugin providers", () => {
+  afterEach(() => {
+    setActivePluginRegistry(createTestRegistry([]));
+  });
+
+  it("delegates to a plugin-registered provider and wraps its output", async () => {
+    const search = vi.fn(async () => ({
+      results: [
+        { title: "Tavily", url: "https://tavily.com/", description: "Search API" },
+        { title: "No URL", url: "" },
+      ],
+    }));
+    setActivePluginRegistry({
+      ...createTestRegistry([]),
+      webSearchProviders: [
+        {
+          pluginId: "tavily-plugin",
+          source: "test",
+          provider: { id: "tavily", label: "Tavily", search },
+        },
+      ],
+    });
+    const tool = createWebSearchTool({
+      config: { tools: { web: { search: { provider: "Tavily" } } } },
+      sandboxed: true,
+    });
+    const result = await tool?.execute?.("call-1", { query: "plugin delegation", count: 3 });
+
+    expect(search).toHaveBeenCalledWith(
+      expect.objectContaining({ query: "plugin delegation", count: 3 }),
+    );
+    const details = result?.details as {
+      provider?: string;
+      count?: number;
+      results?: Array<Record<string, unknown>>;
+    };
+    expect(details.provider).toBe("tavily");
+    expect(details.count).toBe(1);
+    expect(details.results?.[0]).toMatchObject({
+      url: "https://tavily.com/",
+      siteName: "tavily.com",
+    });
+    expect(details.results?.[0]?.description).toContain("<<<EXTERNAL_UNTRUSTED_CONTENT");
+  });
+
+  it("reports providers that no loaded plugin registers", async () => {
+    const tool = createWebSearchTool({
+      config: { tools: { web: { search: { provider: "tavily" } } } },
+      sandboxed: true,
+    });
+    const result = await tool?.execute?.("call-1", { query: "test" });
+    expect(result?.details).toMatchObject({ error: "unknown_web_search_provider" });
+  });
+});
+
 describe("web_search external content wrapping", () => {
   const priorFetch = global.fetch;
 
@@ -486,6 +486,13 @@ function buildChatCommands(): ChatCommandDefinition[] {
       ],
       argsMenu: "auto",
     }),
+    defineChatCommand({
+      key: "budget",
+      nativeName: "budget",
+      description: "Show remaining spend budget.",
+      textAlias: "/budget",
+      category: "status",
+    }),
     defineChatCommand({
       key: "stop",
       nativeName: "stop",
@@ -563,6 +570,27 @@ function buildChatCommands(): ChatCommandDefinition[] {
         },
       ],
     }),
+    defineChatCommand({
+      key: "branch",
+      nativeName: "branch",
+      description: "Fork the session, optionally keeping only the first N turns.",
+      textAlias: "/branch",
+      category: "session",
+      args: [
+        {
+          name: "turns",
+          description: "User turns to keep (default: all)",
+          type: "number",
+        },
+      ],
+    }),
+    defineChatCommand({
+      key: "retry",
+      nativeName: "retry",
+      description: "Regenerate the last reply on a new branch.",
+      textAlias: "/retry",
+      category: "session",
+    }),
     defineChatCommand({
       key: "think",
       nativeName: "think",
@@ -20,6 +20,7 @@ import {
 } from "../../config/sessions.js";
 import { logVerbose } from "../../globals.js";
 import { emitAgentEvent, registerAgentRunContext } from "../../infra/agent-events.js";
+import { GatewayDrainingError } from "../../process/command-queue.js";
 import { defaultRuntime } from "../../runtime.js";
 import {
   isMarkdownCapableMessageChannel,
@@ -96,6 +97,8 @@ export async function runAgentTurnWithFallback(params: {
   activeSessionStore?: Record<string, SessionEntry>;
   storePath?: string;
   resolvedVerboseLevel: VerboseLevel;
+  /** Journal the turn for the next gateway process; returns whether it was kept. */
+  deferUntilRestart?: () => boolean;
 }): Promise<AgentRunLoopResult> {
   const TRANSIENT_HTTP_RETRY_DELAY_MS = 2_500;
   let didLogHeartbeatStrip = false;
@@ -471,6 +474,12 @@ export async function runAgentTurnWithFallback(params: {
 
       break;
     } catch (err) {
+      if (err instanceof GatewayDrainingError && params.deferUntilRestart?.()) {
+        return {
+          kind: "final",
+          payload: { text: "⏳ Gateway is restarting. I'll pick this message up once it's back." },
+        };
+      }
       const message = err instanceof Error ? err.message : String(err);
       const isContextOverflow = isLikelyContextOverflowError(message);
       const isCompactionFailure = isCompactionFailureError(message);
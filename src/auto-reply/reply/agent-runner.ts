@@ -52,7 +52,12 @@ import {
 } from "./post-compaction-audit.js";
 import { readPostCompactionContext } from "./post-compaction-context.js";
 import { resolveActiveRunQueueAction } from "./queue-policy.js";
-import { enqueueFollowupRun, type FollowupRun, type QueueSettings } from "./queue.js";
+import {
+  deferFollowupRunUntilRestart,
+  enqueueFollowupRun,
+  type FollowupRun,
+  type QueueSettings,
+} from "./queue.js";
 import { createReplyToModeFilterForChannel, resolveReplyToMode } from "./reply-threading.js";
 import { incrementRunCompactionCount, persistRunSessionUsage } from "./session-run-accounting.js";
 import { createTypingSignaler } from "./typing-mode.js";
@@ -394,6 +399,8 @@ export async function runReplyAgent(params: {
       activeSessionStore,
       storePath,
       resolvedVerboseLevel,
+      deferUntilRestart: () =>
+        !isHeartbeat && deferFollowupRunUntilRestart(queueKey, followupRun, resolvedQueue),
     });
 
     if (runOutcome.kind === "final") {
@@ -612,6 +619,18 @@ export async function runReplyAgent(params: {
         showCost,
         costConfig,
       });
+      const modelRoute =
+        activeSessionEntry?.modelRoute ??
+        (sessionKey ? activeSessionStore?.[sessionKey]?.modelRoute : undefined);
+      if (
+        formatted &&
+        responseUsageMode === "full" &&
+        modelRoute &&
+        modelRoute.provider === followupRun.run.provider &&
+        modelRoute.model === followupRun.run.model
+      ) {
+        formatted = `${formatted} · tier ${modelRoute.tier}`;
+      }
       if (formatted && responseUsageMode === "full" && sessionKey) {
         formatted = `${formatted} · session ${sessionKey}`;
       }
@@ -0,0 +1,113 @@
+import fs from "node:fs";
+import {
+  abortEmbeddedPiRun,
+  isEmbeddedPiRunActive,
+  waitForEmbeddedPiRunEnd,
+} from "../../agents/pi-embedded.js";
+import {
+  resolveSessionFilePath,
+  resolveSessionFilePathOptions,
+  type SessionEntry,
+} from "../../config/sessions.js";
+import { logVerbose } from "../../globals.js";
+import {
+  addSessionBranch,
+  forkSessionTranscript,
+  readLastSessionTurn,
+} from "../../sessions/session-branches.js";
+import { stripEnvelope, stripMessageIdHints } from "../../shared/chat-envelope.js";
+import { persistSessionEntry } from "./commands-session-store.js";
+import type { CommandHandler, HandleCommandsParams } from "./commands-types.js";
+import { stripInboundMetadata } from "./strip-inbound-meta.js";
+
+const BRANCH_USAGE = "⚙️ Usage: /branch [turns]";
+
+function matchesCommand(body: string, name: string): string | null {
+  if (body === name) {
+    return "";
+  }
+  return body.startsWith(`${name} `) ? body.slice(name.length).trim() : null;
+}
+
+async function resolveActiveTranscript(
+  params: HandleCommandsParams,
+): Promise<{ entry: SessionEntry; sessionFile: string } | { error: string }> {
+  const entry = params.sessionEntry;
+  if (!entry?.sessionId) {
+    return { error: "⚙️ Branching unavailable (missing session id)." };
+  }
+  const sessionFile = resolveSessionFilePath(
+    entry.sessionId,
+    entry,
+    resolveSessionFilePathOptions({ agentId: params.agentId, storePath: params.storePath }),
+  );
+  if (!fs.existsSync(sessionFile)) {
+    return { error: "⚙️ Nothing to branch yet: this session has no transcript." };
+  }
+  if (isEmbeddedPiRunActive(entry.sessionId)) {
+    abortEmbeddedPiRun(entry.sessionId);
+    await waitForEmbeddedPiRunEnd(entry.sessionId, 15_000);
+  }
+  return { entry, sessionFile };
+}
+
+export const handleBranchCommand: CommandHandler = async (params) => {
+  const args = matchesCommand(params.command.commandBodyNormalized, "/branch");
+  if (args === null) {
+    return null;
+  }
+  if (!params.command.isAuthorizedSender) {
+    logVerbose(
+      `Ignoring /branch from unauthorized sender: ${params.command.senderId || "<unknown>"}`,
+    );
+    return { shouldContinue: false };
+  }
+  let turns: number | undefined;
+  if (args) {
+    if (!/^\d+$/.test(args)) {
+      return { shouldContinue: false, reply: { text: BRANCH_USAGE } };
+    }
+    turns = Number.parseInt(args, 10);
+  }
+  const active = await resolveActiveTranscript(params);
+  if ("error" in active) {
+    return { shouldContinue: false, reply: { text: active.error } };
+  }
+  const forked = forkSessionTranscript({ sessionFile: active.sessionFile, turns });
+  const branch = addSessionBranch(active.entry, forked);
+  await persistSessionEntry(params);
+  const kept = forked.turns === 1 ? "1 turn" : `${forked.turns} turns`;
+  return {
+    shouldContinue: false,
+    reply: { text: `🌿 Branched session (${kept} kept). Now on branch ${branch.sessionId}.` },
+  };
+};
+
+export const handleRetryCommand: CommandHandler = async (params) => {
+  if (params.command.commandBodyNormalized !== "/retry") {
+    return null;
+  }
+  if (!params.command.isAuthorizedSender) {
+    logVerbose(
+      `Ignoring /retry from unauthorized sender: ${params.command.senderId || "<unknown>"}`,
+    );
+    return { shouldContinue: false };
+  }
+  const active = await resolveActiveTranscript(params);
+  if ("error" in active) {
+    return { shouldContinue: false, reply: { text: active.error } };
+  }
+  const last = readLastSessionTurn(active.sessionFile);
+  const prompt = last
+    ? stripMessageIdHints(stripEnvelope(stripInboundMetadata(last.turn.text))).trim()
+    : "";
+  if (!last || !prompt) {
+    return { shouldContinue: false, reply: { text: "⚙️ Nothing to retry yet." } };
+  }
+  // The sibling branch stops just before the last user message; the agent run that
+  // follows replays that message on it.
+  const forked = forkSessionTranscript({ sessionFile: active.sessionFile, turns: last.index });
+  addSessionBranch(active.entry, forked);
+  await persistSessionEntry(params);
+  return { shouldContinue: true, rewrittenBody: prompt };
+};
@@ -13,6 +13,7 @@ import {
 import { logVerbose } from "../../globals.js";
 import { scheduleGatewaySigusr1Restart, triggerOpenClawRestart } from "../../infra/restart.js";
 import { loadCostUsageSummary, loadSessionCostSummary } from "../../infra/session-cost-usage.js";
+import { evaluateUsageBudgets, formatUsageBudgetCheck } from "../../infra/usage-budgets.js";
 import { formatTokenCount, formatUsd } from "../../utils/usage-format.js";
 import { parseActivationCommand } from "../group-activation.js";
 import { parseSendPolicyCommand } from "../send-policy.js";
@@ -235,6 +236,61 @@ export const handleUsageCommand: CommandHandler = async (params, allowTextComman
   };
 };
 
+export const handleBudgetCommand: CommandHandler = async (params, allowTextCommands) => {
+  if (!allowTextCommands) {
+    return null;
+  }
+  const normalized = params.command.commandBodyNormalized;
+  if (normalized !== "/budget" && !normalized.startsWith("/budget ")) {
+    return null;
+  }
+  if (!params.command.isAuthorizedSender) {
+    logVerbose(
+      `Ignoring /budget from unauthorized sender: ${params.command.senderId || "<unknown>"}`,
+    );
+    return { shouldContinue: false };
+  }
+
+  const evaluation = await evaluateUsageBudgets({
+    cfg: params.cfg,
+    target: {
+      agentId: params.agentId,
+      sessionKey: params.sessionKey,
+      sessionEntry: params.sessionEntry,
+      sessionId: params.sessionEntry?.sessionId,
+      channel: params.command.channel,
+      accountId: params.ctx.AccountId,
+    },
+  });
+  if (!evaluation.enabled) {
+    return {
+      shouldContinue: false,
+      reply: { text: "💰 Spend budgets are disabled (`budgets.enabled: false`)." },
+    };
+  }
+  if (evaluation.checks.length === 0) {
+    return {
+      shouldContinue: false,
+      reply: { text: "💰 No spend budgets apply here. Configure `budgets` to set limits." },
+    };
+  }
+
+  const mode = evaluation.onLimit === "stop" ? "stop at cap" : "warn only";
+  const lines = evaluation.checks.map((check) => {
+    const marker = check.state === "exceeded" ? "⛔" : check.state === "warn" ? "⚠️" : "✅";
+    return `${marker} ${formatUsageBudgetCheck(check)}`;
+  });
+  return {
+    shouldContinue: false,
+    reply: {
+      text: [
+        `💰 Spend budgets (${mode} · warn at ${Math.round(evaluation.warnAt * 100)}%)`,
+        ...lines,
+      ].join("\n"),
+    },
+  };
+};
+
 export const handleSessionCommand: CommandHandler = async (params, allowTextCommands) => {
   if (!allowTextCommands) {
     return null;
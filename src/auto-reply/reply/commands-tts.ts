@@ -5,6 +5,7 @@ import {
   getTtsProvider,
   isSummarizationEnabled,
   isTtsEnabled,
+  isTtsProvider,
   isTtsProviderConfigured,
   resolveTtsApiKey,
   resolveTtsConfig,
@@ -56,7 +57,8 @@ function ttsUsage(): ReplyPayload {
       `**Providers:**\n` +
       `• edge — Free, fast (default)\n` +
       `• openai — High quality (requires API key)\n` +
-      `• elevenlabs — Premium voices (requires API key)\n\n` +
+      `• elevenlabs — Premium voices (requires API key)\n` +
+      `• local — Offline Piper/sherpa-onnx voice (requires model)\n\n` +
       `**Text Limit (default: 1500, max: 4096):**\n` +
       `When text exceeds the limit:\n` +
       `• Summary ON: AI summarizes, then generates audio\n` +
@@ -162,6 +164,7 @@ export const handleTtsCommands: CommandHandler = async (params, allowTextCommand
       const hasOpenAI = Boolean(resolveTtsApiKey(config, "openai"));
       const hasElevenLabs = Boolean(resolveTtsApiKey(config, "elevenlabs"));
       const hasEdge = isTtsProviderConfigured(config, "edge");
+      const hasLocal = isTtsProviderConfigured(config, "local");
       return {
         shouldContinue: false,
         reply: {
@@ -171,13 +174,14 @@ export const handleTtsCommands: CommandHandler = async (params, allowTextCommand
             `OpenAI key: ${hasOpenAI ? "✅" : "❌"}\n` +
             `ElevenLabs key: ${hasElevenLabs ? "✅" : "❌"}\n` +
             `Edge enabled: ${hasEdge ? "✅" : "❌"}\n` +
-            `Usage: /tts provider openai | elevenlabs | edge`,
+            `Local model: ${hasLocal ? "✅" : "❌"}\n` +
+            `Usage: /tts provider openai | elevenlabs | edge | local`,
         },
       };
     }
 
     const requested = args.trim().toLowerCase();
-    if (requested !== "openai" && requested !== "elevenlabs" && requested !== "edge") {
+    if (!isTtsProvider(requested)) {
       return { shouldContinue: false, reply: ttsUsage() };
     }
 
@@ -59,6 +59,8 @@ export type HandleCommandsParams = {
 export type CommandHandlerResult = {
   reply?: ReplyPayload;
   shouldContinue: boolean;
+  /** Replaces the inbound body for the agent run when the command continues (e.g. /retry). */
+  rewrittenBody?: string;
 };
 
 export type CommandHandler = (
@@ -15,6 +15,7 @@ import { clearPluginCommands, registerPluginCommand } from "../../plugins/comman
 import { typedCases } from "../../test-utils/typed-cases.js";
 import type { MsgContext } from "../templating.js";
 import { resetBashChatCommandForTests } from "./bash-command.js";
+import { handleBranchCommand, handleRetryCommand } from "./commands-branch.js";
 import { handleCompactCommand } from "./commands-compact.js";
 import { buildCommandsPaginationKeyboard } from "./commands-info.js";
 import { extractMessageText } from "./commands-subagents.js";
@@ -431,6 +432,78 @@ describe("/compact command", () => {
   });
 });
 
+describe("/branch and /retry commands", () => {
+  const cfg = {
+    commands: { text: true },
+    channels: { whatsapp: { allowFrom: ["*"] } },
+  } as OpenClawConfig;
+
+  async function setupSession() {
+    const dir = await fs.mkdtemp(path.join(testWorkspaceDir, "branch-"));
+    const sessionFile = path.join(dir, "sess-1.jsonl");
+    const message = (role: string, text: string, id: string, parentId: string | null) =>
+      JSON.stringify({
+        type: "message",
+        id,
+        parentId,
+        timestamp: "2026-01-01T00:00:00.000Z",
+        message: { role, content: [{ type: "text", text }] },
+      });
+    await fs.writeFile(
+      sessionFile,
+      [
+        JSON.stringify({ type: "session", version: 3, id: "sess-1", cwd: dir }),
+        message("user", "[WhatsApp +1555 2026-01-01 00:00 UTC] first", "u1", null),
+        message("assistant", "reply one", "a1", "u1"),
+        message("user", "[WhatsApp +1555 2026-01-01 00:01 UTC] second", "u2", "a1"),
+        message("assistant", "reply two", "a2", "u2"),
+      ].join("\n") + "\n",
+    );
+    const sessionEntry = { sessionId: "sess-1", sessionFile, updatedAt: Date.now() };
+    return {
+      sessionEntry,
+      sessionStore: { "agent:main:main": sessionEntry },
+      storePath: path.join(dir, "sessions.json"),
+    };
+  }
+
+  it("forks the session keeping the requested turns", async () => {
+    const session = await setupSession();
+    const result = await handleBranchCommand(
+      { ...buildParams("/branch 1", cfg), ...session },
+      true,
+    );
+
+    expect(result?.shouldContinue).toBe(false);
+    expect(result?.reply?.text).toContain("1 turn kept");
+    expect(session.sessionEntry.sessionId).not.toBe("sess-1");
+    const branched = await fs.readFile(session.sessionEntry.sessionFile, "utf-8");
+    expect(branched).toContain("reply one");
+    expect(branched).not.toContain("second");
+  });
+
+  it("rejects a non-numeric turn count", async () => {
+    const session = await setupSession();
+    const result = await handleBranchCommand(
+      { ...buildParams("/branch x", cfg), ...session },
+      true,
+    );
+
+    expect(result?.reply?.text).toContain("Usage: /branch");
+    expect(session.sessionEntry.sessionId).toBe("sess-1");
+  });
+
+  it("replays the last user message on a sibling branch for /retry", async () => {
+    const session = await setupSession();
+    const result = await handleRetryCommand({ ...buildParams("/retry", cfg), ...session }, true);
+
+    expect(result).toEqual({ shouldContinue: true, rewrittenBody: "second" });
+    const branched = await fs.readFile(session.sessionEntry.sessionFile, "utf-8");
+    expect(branched).toContain("reply one");
+    expect(branched).not.toContain("second");
+  });
+});
+
 describe("buildCommandsPaginationKeyboard", () => {
   it("adds agent id to callback data when provided", () => {
     const keyboard = buildCommandsPaginationKeyboard(2, 3, "agent-main");
@@ -0,0 +1,86 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../../config/config.js";
+import type { InboundQueueEntry } from "../../infra/inbound-queue.js";
+import { replayJournaledFollowup } from "./followup-recovery.js";
+import { resetInboundDedupe } from "./inbound-dedupe.js";
+import { clearFollowupQueue, type FollowupRun } from "./queue.js";
+
+const runner = vi.fn(async (_run: FollowupRun) => {});
+vi.mock("./followup-runner.js", () => ({ createFollowupRunner: () => runner }));
+
+const sessionKey = "agent:main:discord:channel:1";
+let root = "";
+let cfg: OpenClawConfig;
+
+function entry(messageId: string): Extract<InboundQueueEntry, { kind: "followup" }> {
+  return {
+    kind: "followup",
+    id: `entry-${messageId}`,
+    enqueuedAt: 100,
+    replayCount: 1,
+    queueKey: sessionKey,
+    settings: { mode: "followup", debounceMs: 0 },
+    followup: {
+      prompt: `message ${messageId}`,
+      messageId,
+      enqueuedAt: 100,
+      originatingChannel: "discord",
+      originatingTo: "channel:1",
+      run: {
+        agentId: "main",
+        agentDir: root,
+        sessionId: "sess",
+        sessionKey,
+        sessionFile: path.join(root, "sess.jsonl"),
+        workspaceDir: root,
+        provider: "openai",
+        model: "gpt-test",
+        timeoutMs: 1000,
+        blockReplyBreak: "text_end",
+      },
+    },
+  };
+}
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-followup-recovery-"));
+  const storePath = path.join(root, "sessions.json");
+  fs.writeFileSync(
+    storePath,
+    JSON.stringify({
+      [sessionKey]: { sessionId: "sess", updatedAt: 1, abortCutoffMessageSid: "20" },
+    }),
+  );
+  cfg = { session: { store: storePath } } as OpenClawConfig;
+  resetInboundDedupe();
+  runner.mockClear();
+});
+
+afterEach(() => {
+  clearFollowupQueue(sessionKey);
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("replayJournaledFollowup", () => {
+  it("requeues the run with the current config and drains it", async () => {
+    expect(replayJournaledFollowup(entry("21"), cfg)).toBe(true);
+
+    await vi.waitFor(() => expect(runner).toHaveBeenCalledTimes(1));
+    const replayed = runner.mock.calls[0]?.[0];
+    expect(replayed).toMatchObject({ prompt: "message 21", run: { config: cfg } });
+  });
+
+  it("skips messages behind the session abort cutoff", () => {
+    expect(replayJournaledFollowup(entry("19"), cfg)).toBe(false);
+    expect(replayJournaledFollowup(entry("20"), cfg)).toBe(false);
+  });
+
+  it("skips a message it already replayed", async () => {
+    expect(replayJournaledFollowup(entry("30"), cfg)).toBe(true);
+    expect(replayJournaledFollowup(entry("30"), cfg)).toBe(false);
+    await vi.waitFor(() => expect(runner).toHaveBeenCalledTimes(1));
+  });
+});
@@ -0,0 +1,76 @@
+import type { OpenClawConfig } from "../../config/config.js";
+import { loadSessionStore, resolveStorePath } from "../../config/sessions.js";
+import type { InboundQueueEntry } from "../../infra/inbound-queue.js";
+import { readAbortCutoffFromSessionEntry, shouldSkipMessageByAbortCutoff } from "./abort-cutoff.js";
+import { createFollowupRunner } from "./followup-runner.js";
+import { shouldSkipDuplicateInbound } from "./inbound-dedupe.js";
+import { enqueueFollowupRun, scheduleFollowupDrain, type FollowupRun } from "./queue.js";
+import { createTypingController } from "./typing.js";
+
+/**
+ * Put a journaled followup back on its queue after a restart and start
+ * draining it. Returns false (so the caller acks the entry) when the session
+ * was stopped after the message arrived or the message was already seen.
+ *
+ * Replies go straight to the originating chat; there is no channel
+ * dispatcher or typing indicator for a replayed run.
+ */
+export function replayJournaledFollowup(
+  entry: Extract<InboundQueueEntry, { kind: "followup" }>,
+  cfg: OpenClawConfig,
+): boolean {
+  const followup: FollowupRun = {
+    ...entry.followup,
+    journalId: entry.id,
+    run: { ...entry.followup.run, config: cfg },
+  };
+  const { sessionKey, agentId } = followup.run;
+  const storePath = resolveStorePath(cfg.session?.store, { agentId });
+  const sessionStore = loadSessionStore(storePath);
+  const sessionEntry = sessionKey ? sessionStore[sessionKey] : undefined;
+
+  const cutoff = readAbortCutoffFromSessionEntry(sessionEntry);
+  if (
+    cutoff &&
+    shouldSkipMessageByAbortCutoff({
+      cutoffMessageSid: cutoff.messageSid,
+      cutoffTimestamp: cutoff.timestamp,
+      messageSid: followup.messageId,
+      timestamp: followup.enqueuedAt,
+    })
+  ) {
+    return false;
+  }
+  // Seeds the dedupe cache too, so a channel redelivering the same message
+  // after the restart does not run it a second time.
+  if (
+    shouldSkipDuplicateInbound({
+      OriginatingChannel: followup.originatingChannel,
+      OriginatingTo: followup.originatingTo,
+      AccountId: followup.originatingAccountId,
+      MessageThreadId: followup.originatingThreadId,
+      MessageSid: followup.messageId,
+      SessionKey: sessionKey,
+    })
+  ) {
+    return false;
+  }
+
+  if (!enqueueFollowupRun(entry.queueKey, followup, entry.settings)) {
+    return false;
+  }
+  scheduleFollowupDrain(
+    entry.queueKey,
+    createFollowupRunner({
+      typing: createTypingController({}),
+      typingMode: "never",
+      sessionEntry,
+      sessionStore,
+      sessionKey,
+      storePath,
+      defaultModel: followup.run.model,
+      agentCfgContextTokens: cfg.agents?.defaults?.contextTokens,
+    }),
+  );
+  return true;
+}
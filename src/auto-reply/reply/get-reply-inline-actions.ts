@@ -406,6 +406,14 @@ export async function handleInlineActions(params: {
     typing.cleanup();
     return { kind: "reply", reply: commandResult.reply };
   }
+  if (commandResult.rewrittenBody) {
+    const rewrittenBody = commandResult.rewrittenBody;
+    ctx.Body = rewrittenBody;
+    ctx.BodyForAgent = rewrittenBody;
+    sessionCtx.Body = rewrittenBody;
+    sessionCtx.BodyForAgent = rewrittenBody;
+    sessionCtx.BodyStripped = rewrittenBody;
+  }
 
   return {
     kind: "continue",
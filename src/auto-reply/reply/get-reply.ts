@@ -22,6 +22,8 @@ import { resolveReplyDirectives } from "./get-reply-directives.js";
 import { handleInlineActions } from "./get-reply-inline-actions.js";
 import { runPreparedReply } from "./get-reply-run.js";
 import { finalizeInboundContext } from "./inbound-context.js";
+import { createModelTierClassifier, recordModelRoute, resolveModelRoute } from "./model-router.js";
+import { resolveContextTokens } from "./model-selection.js";
 import { applyResetModelOverride } from "./session-reset-model.js";
 import { initSessionState } from "./session.js";
 import { stageSandboxMedia } from "./stage-sandbox-media.js";
@@ -339,6 +341,47 @@ export async function getReplyFromConfig(
   await maybeEmitMissingResetHooks();
   directives = inlineActionResult.directives;
   abortedLastRun = inlineActionResult.abortedLastRun ?? abortedLastRun;
+  // /retry moves the session onto a new branch before the run starts.
+  sessionId = sessionEntry.sessionId ?? sessionId;
+
+  // Route only turns still on the configured model: explicit choices
+  // (/model, channel overrides, heartbeat.model) always win over the router.
+  const modelRouter = agentCfg?.modelRouter;
+  if (
+    modelRouter?.enabled &&
+    !hasResolvedHeartbeatModelOverride &&
+    !channelModelOverride &&
+    !directives.hasModelDirective &&
+    !sessionEntry.modelOverride?.trim() &&
+    !sessionEntry.providerOverride?.trim()
+  ) {
+    const route = await resolveModelRoute({
+      router: modelRouter,
+      input: {
+        text: directives.cleaned,
+        hasAttachments: Boolean(
+          sessionCtx.MediaPath || (sessionCtx.MediaPaths && sessionCtx.MediaPaths.length > 0),
+        ),
+        channel: command.channel,
+        thinkLevel: directives.hasThinkDirective ? directives.thinkLevel : undefined,
+      },
+      defaultProvider,
+      aliasIndex,
+      classify: createModelTierClassifier({ cfg, defaultProvider, aliasIndex, agentDir }),
+    });
+    if (route) {
+      provider = route.provider;
+      model = route.model;
+      contextTokens = resolveContextTokens({ agentCfg, model });
+      await recordModelRoute({
+        decision: route,
+        sessionEntry,
+        sessionStore,
+        sessionKey,
+        storePath,
+      });
+    }
+  }
 
   await stageSandboxMedia({
     ctx,
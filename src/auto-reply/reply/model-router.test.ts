@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from "vitest";
+import { buildModelAliasIndex } from "../../agents/model-selection.js";
+import type { OpenClawConfig } from "../../config/config.js";
+import type { AgentModelRouterConfig } from "../../config/types.agent-defaults.js";
+import {
+  hasCodeContent,
+  type ModelRouteInput,
+  type ModelTierClassifier,
+  resolveModelRoute,
+} from "./model-router.js";
+
+const cfg = {
+  agents: {
+    defaults: {
+      model: { primary: "anthropic/claude-opus-4-6" },
+      models: { "openai/gpt-4.1-mini": { alias: "mini" } },
+    },
+  },
+} as OpenClawConfig;
+const aliasIndex = buildModelAliasIndex({ cfg, defaultProvider: "anthropic" });
+
+const router: AgentModelRouterConfig = {
+  enabled: true,
+  tiers: {
+    fast: { model: "mini", description: "greetings and short questions" },
+    deep: { model: "anthropic/claude-opus-4-6" },
+    vision: { model: "google/gemini-2.5-flash" },
+  },
+  rules: [
+    { tier: "deep", thinking: ["high", "xhigh"] },
+    { tier: "deep", keywords: ["think hard"] },
+    { tier: "vision", attachments: true, channels: ["telegram"] },
+    { tier: "fast", maxChars: 40, code: false, attachments: false },
+  ],
+};
+
+function route(input: Partial<ModelRouteInput>, overrides?: Partial<AgentModelRouterConfig>) {
+  return resolveModelRoute({
+    router: { ...router, ...overrides },
+    input: { text: "", hasAttachments: false, ...input },
+    defaultProvider: "anthropic",
+    aliasIndex,
+  });
+}
+
+describe("resolveModelRoute", () => {
+  it("picks the first matching rule and resolves tier aliases", async () => {
+    await expect(route({ text: "thanks!" })).resolves.toEqual({
+      tier: "fast",
+      provider: "openai",
+      model: "gpt-4.1-mini",
+      source: "rule",
+      reason: "rules[3]: maxChars 40, no attachments, no code",
+    });
+    await expect(route({ text: "thanks!", thinkLevel: "high" })).resolves.toMatchObject({
+      tier: "deep",
+      reason: "rules[0]: /think high",
+    });
+    await expect(
+      route({ text: "Think hard about this one", channel: "slack" }),
+    ).resolves.toMatchObject({ tier: "deep", reason: 'rules[1]: keyword "think hard"' });
+    await expect(
+      route({ text: "what is this?", hasAttachments: true, channel: "telegram" }),
+    ).resolves.toMatchObject({ tier: "vision", provider: "google" });
+  });
+
+  it("keeps the selected model when nothing matches and there is no default tier", async () => {
+    await expect(route({ text: "fix `parseArgs` please" })).resolves.toBeNull();
+    await expect(route({ text: "hi" }, { enabled: false })).resolves.toBeNull();
+    await expect(route({ text: "a".repeat(200) }, { defaultTier: "deep" })).resolves.toMatchObject({
+      tier: "deep",
+      source: "default",
+      reason: "no rule matched",
+    });
+  });
+
+  it("asks the classifier only when no rule matches", async () => {
+    const classify = vi.fn<ModelTierClassifier>(async () => "fast");
+    const withClassifier = { ...router, classifier: { model: "mini" }, defaultTier: "deep" };
+    const run = (text: string) =>
+      resolveModelRoute({
+        router: withClassifier,
+        input: { text, hasAttachments: false },
+        defaultProvider: "anthropic",
+        aliasIndex,
+        classify,
+      });
+
+    await expect(run("ok")).resolves.toMatchObject({ tier: "fast", source: "rule" });
+    expect(classify).not.toHaveBeenCalled();
+
+    await expect(run("Can you summarize the tradeoffs of CRDTs?")).resolves.toMatchObject({
+      tier: "fast",
+      source: "classifier",
+      reason: "classifier mini",
+    });
+    classify.mockResolvedValueOnce(null);
+    await expect(run("Can you summarize the tradeoffs of CRDTs?")).resolves.toMatchObject({
+      tier: "deep",
+      source: "default",
+    });
+  });
+});
+
+describe("hasCodeContent", () => {
+  it("detects fenced, inline, and multi-line code", () => {
+    expect(hasCodeContent("```ts\nconst a = 1;\n```")).toBe(true);
+    expect(hasCodeContent("why does `npm ci` fail")).toBe(true);
+    expect(hasCodeContent("const a = 1;\nconsole.log(a);")).toBe(true);
+    expect(hasCodeContent("Sounds good; see you at 5.")).toBe(false);
+  });
+});
@@ -0,0 +1,259 @@
+import { completeSimple, type TextContent } from "@mariozechner/pi-ai";
+import { getApiKeyForModel } from "../../agents/model-auth.js";
+import { type ModelAliasIndex, resolveModelRefFromString } from "../../agents/model-selection.js";
+import { resolveModel } from "../../agents/pi-embedded-runner/model.js";
+import type { OpenClawConfig } from "../../config/config.js";
+import {
+  type SessionEntry,
+  type SessionModelRoute,
+  updateSessionStore,
+} from "../../config/sessions.js";
+import type {
+  AgentModelRouterConfig,
+  AgentModelRouterRule,
+} from "../../config/types.agent-defaults.js";
+import { logVerbose } from "../../globals.js";
+import type { ThinkLevel } from "./directives.js";
+
+const DEFAULT_CLASSIFIER_TIMEOUT_MS = 5000;
+
+/** What the router looks at for one turn. */
+export type ModelRouteInput = {
+  /** Message text with directives stripped. */
+  text: string;
+  hasAttachments: boolean;
+  channel?: string;
+  /** Level set by an explicit /think directive on this turn. */
+  thinkLevel?: ThinkLevel;
+};
+
+export type ModelRouteDecision = Omit<SessionModelRoute, "at">;
+
+export type ModelTierClassifier = (params: {
+  router: AgentModelRouterConfig;
+  input: ModelRouteInput;
+}) => Promise<string | null>;
+
+const CODE_LINE_RE =
+  /^\s*(?:(?:def|class|function|import|from|const|let|var|public|private|#include)\s|.*(?:[;{}]|=>)\s*$)/;
+
+/** Fenced or inline code, or at least two lines that read like code. */
+export function hasCodeContent(text: string): boolean {
+  if (text.includes("```") || text.includes("~~~") || /`[^`\n]+`/.test(text)) {
+    return true;
+  }
+  return text.split("\n").filter((line) => CODE_LINE_RE.test(line)).length >= 2;
+}
+
+/** Returns the conditions that matched, or null when any condition fails. */
+function matchRule(rule: AgentModelRouterRule, input: ModelRouteInput): string[] | null {
+  const matched: string[] = [];
+  const length = input.text.trim().length;
+  if (rule.minChars !== undefined) {
+    if (length < rule.minChars) {
+      return null;
+    }
+    matched.push(`minChars ${rule.minChars}`);
+  }
+  if (rule.maxChars !== undefined) {
+    if (length > rule.maxChars) {
+      return null;
+    }
+    matched.push(`maxChars ${rule.maxChars}`);
+  }
+  if (rule.attachments !== undefined) {
+    if (rule.attachments !== input.hasAttachments) {
+      return null;
+    }
+    matched.push(rule.attachments ? "attachments" : "no attachments");
+  }
+  if (rule.code !== undefined) {
+    if (rule.code !== hasCodeContent(input.text)) {
+      return null;
+    }
+    matched.push(rule.code ? "code" : "no code");
+  }
+  if (rule.channels && rule.channels.length > 0) {
+    const channel = input.channel?.trim().toLowerCase();
+    if (!channel || !rule.channels.some((entry) => entry.trim().toLowerCase() === channel)) {
+      return null;
+    }
+    matched.push(`channel ${channel}`);
+  }
+  if (rule.keywords && rule.keywords.length > 0) {
+    const haystack = input.text.toLowerCase();
+    const keyword = rule.keywords.find(
+      (entry) => entry.trim() && haystack.includes(entry.trim().toLowerCase()),
+    );
+    if (!keyword) {
+      return null;
+    }
+    matched.push(`keyword "${keyword.trim()}"`);
+  }
+  if (rule.thinking && rule.thinking.length > 0) {
+    if (!input.thinkLevel || !rule.thinking.includes(input.thinkLevel)) {
+      return null;
+    }
+    matched.push(`/think ${input.thinkLevel}`);
+  }
+  return matched;
+}
+
+/**
+ * Pick a tier for the turn: the first matching rule, then the classifier, then
+ * `defaultTier`. Returns null when routing is off or nothing applies, which
+ * keeps the already-selected model.
+ */
+export async function resolveModelRoute(params: {
+  router: AgentModelRouterConfig | undefined;
+  input: ModelRouteInput;
+  defaultProvider: string;
+  aliasIndex: ModelAliasIndex;
+  classify?: ModelTierClassifier;
+}): Promise<ModelRouteDecision | null> {
+  const router = params.router;
+  const tiers = router?.tiers ?? {};
+  if (!router?.enabled || Object.keys(tiers).length === 0) {
+    return null;
+  }
+
+  let pick: { tier: string; source: ModelRouteDecision["source"]; reason: string } | null = null;
+  for (const [index, rule] of (router.rules ?? []).entries()) {
+    const matched = matchRule(rule, params.input);
+    if (matched) {
+      const detail = matched.length > 0 ? matched.join(", ") : "always";
+      pick = { tier: rule.tier, source: "rule", reason: `rules[${index}]: ${detail}` };
+      break;
+    }
+  }
+  if (!pick && router.classifier && params.classify) {
+    const tier = await params.classify({ router, input: params.input });
+    if (tier) {
+      pick = { tier, source: "classifier", reason: `classifier ${router.classifier.model}` };
+    }
+  }
+  if (!pick && router.defaultTier) {
+    pick = { tier: router.defaultTier, source: "default", reason: "no rule matched" };
+  }
+  if (!pick) {
+    return null;
+  }
+
+  const tierConfig = tiers[pick.tier];
+  if (!tierConfig) {
+    logVerbose(`model-router: unknown tier "${pick.tier}"; keeping the selected model`);
+    return null;
+  }
+  const resolved = resolveModelRefFromString({
+    raw: tierConfig.model,
+    defaultProvider: params.defaultProvider,
+    aliasIndex: params.aliasIndex,
+  });
+  if (!resolved) {
+    logVerbose(`model-router: tier "${pick.tier}" has an invalid model "${tierConfig.model}"`);
+    return null;
+  }
+  return { ...pick, provider: resolved.ref.provider, model: resolved.ref.model };
+}
+
+function buildClassifierPrompt(router: AgentModelRouterConfig, text: string): string {
+  const tierLines = Object.entries(router.tiers ?? {}).map(([name, tier]) =>
+    tier.description?.trim() ? `- ${name}: ${tier.description.trim()}` : `- ${name}`,
+  );
+  return (
+    `Pick the model tier that should answer the message below. Tiers:\n${tierLines.join("\n")}\n\n` +
+    `Reply with the tier name only.\n\n<message>\n${text}\n</message>`
+  );
+}
+
+/** Ask the configured classifier model for a tier name; null on any failure. */
+export function createModelTierClassifier(params: {
+  cfg: OpenClawConfig;
+  defaultProvider: string;
+  aliasIndex: ModelAliasIndex;
+  agentDir?: string;
+}): ModelTierClassifier {
+  return async ({ router, input }) => {
+    const classifier = router.classifier;
+    if (!classifier) {
+      return null;
+    }
+    const ref = resolveModelRefFromString({
+      raw: classifier.model,
+      defaultProvider: params.defaultProvider,
+      aliasIndex: params.aliasIndex,
+    })?.ref;
+    if (!ref) {
+      logVerbose(`model-router: invalid classifier model "${classifier.model}"`);
+      return null;
+    }
+    const controller = new AbortController();
+    const timeout = setTimeout(
+      () => controller.abort(),
+      classifier.timeoutMs ?? DEFAULT_CLASSIFIER_TIMEOUT_MS,
+    );
+    try {
+      const { model, error } = resolveModel(ref.provider, ref.model, params.agentDir, params.cfg);
+      if (!model) {
+        throw new Error(error ?? `Unknown model: ${ref.provider}/${ref.model}`);
+      }
+      const auth = await getApiKeyForModel({ model, cfg: params.cfg, agentDir: params.agentDir });
+      const res = await completeSimple(
+        model,
+        {
+          messages: [
+            {
+              role: "user",
+              content: buildClassifierPrompt(router, input.text),
+              timestamp: Date.now(),
+            },
+          ],
+        },
+        { apiKey: auth.apiKey, maxTokens: 16, temperature: 0, signal: controller.signal },
+      );
+      const answer = res.content
+        .filter((block): block is TextContent => block.type === "text")
+        .map((block) => block.text)
+        .join(" ")
+        .trim()
+        .toLowerCase();
+      const tier = Object.keys(router.tiers ?? {}).find((name) =>
+        answer.split(/[^a-z0-9_-]+/).includes(name.toLowerCase()),
+      );
+      if (!tier) {
+        logVerbose(`model-router: classifier answered "${answer}", which is not a tier`);
+      }
+      return tier ?? null;
+    } catch (err) {
+      logVerbose(`model-router: classifier failed: ${String(err)}`);
+      return null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+}
+
+/** Store the decision on the session so /status and usage reports can show it. */
+export async function recordModelRoute(params: {
+  decision: ModelRouteDecision;
+  sessionEntry?: SessionEntry;
+  sessionStore?: Record<string, SessionEntry>;
+  sessionKey?: string;
+  storePath?: string;
+}): Promise<void> {
+  const { decision, sessionEntry, sessionStore, sessionKey, storePath } = params;
+  if (!sessionEntry || !sessionStore || !sessionKey) {
+    return;
+  }
+  sessionEntry.modelRoute = { ...decision, at: Date.now() };
+  sessionEntry.modelRouteCounts = {
+    ...sessionEntry.modelRouteCounts,
+    [decision.tier]: (sessionEntry.modelRouteCounts?.[decision.tier] ?? 0) + 1,
+  };
+  sessionStore[sessionKey] = sessionEntry;
+  if (storePath) {
+    await updateSessionStore(storePath, (store) => {
+      store[sessionKey] = sessionEntry;
+    });
+  }
+}
@@ -1,3 +1,4 @@
+import { GatewayDrainingError } from "../../../process/command-queue.js";
 import { defaultRuntime } from "../../../runtime.js";
 import {
   buildCollectPrompt,
@@ -10,6 +11,7 @@ import {
   waitForQueueDebounce,
 } from "../../../utils/queue-helpers.js";
 import { isRoutableChannel } from "../route-reply.js";
+import { ackFollowupRun } from "./journal.js";
 import { FOLLOWUP_QUEUES } from "./state.js";
 import type { FollowupRun } from "./types.js";
 
@@ -54,6 +56,11 @@ export function scheduleFollowupDrain(
   if (!queue) {
     return;
   }
+  const runAndAck = async (item: FollowupRun) => {
+    await runFollowup(item);
+    ackFollowupRun(item);
+  };
+  let deferredToRestart = false;
   void (async () => {
     try {
       const collectState = { forceIndividualCollect: false };
@@ -72,7 +79,7 @@ export function scheduleFollowupDrain(
             collectState,
             isCrossChannel,
             items: queue.items,
-            run: runFollowup,
+            run: runAndAck,
           });
           if (collectDrainResult === "empty") {
             break;
@@ -102,7 +109,9 @@ export function scheduleFollowupDrain(
             enqueuedAt: Date.now(),
             ...routing,
           });
-          queue.items.splice(0, items.length);
+          for (const item of queue.items.splice(0, items.length)) {
+            ackFollowupRun(item);
+          }
           if (summary) {
             clearQueueSummaryState(queue);
           }
@@ -126,6 +135,7 @@ export function scheduleFollowupDrain(
                 originatingAccountId: item.originatingAccountId,
                 originatingThreadId: item.originatingThreadId,
               });
+              ackFollowupRun(item);
             }))
           ) {
             break;
@@ -134,18 +144,27 @@ export function scheduleFollowupDrain(
           continue;
         }
 
-        if (!(await drainNextQueueItem(queue.items, runFollowup))) {
+        if (!(await drainNextQueueItem(queue.items, runAndAck))) {
           break;
         }
       }
     } catch (err) {
       queue.lastEnqueuedAt = Date.now();
-      defaultRuntime.error?.(`followup queue drain failed for ${key}: ${String(err)}`);
+      if (err instanceof GatewayDrainingError) {
+        // Journaled items are replayed by the next gateway process; retrying
+        // here would only spin until this one exits.
+        deferredToRestart = true;
+        defaultRuntime.log(
+          `followup queue for ${key}: gateway draining, leaving ${queue.items.length} item(s) for restart`,
+        );
+      } else {
+        defaultRuntime.error?.(`followup queue drain failed for ${key}: ${String(err)}`);
+      }
     } finally {
       queue.draining = false;
       if (queue.items.length === 0 && queue.droppedCount === 0) {
         FOLLOWUP_QUEUES.delete(key);
-      } else {
+      } else if (!deferredToRestart) {
         scheduleFollowupDrain(key, runFollowup);
       }
     }
@@ -1,4 +1,5 @@
 import { applyQueueDropPolicy, shouldSkipQueueItem } from "../../../utils/queue-helpers.js";
+import { ackFollowupRun, journalFollowupRun } from "./journal.js";
 import { getExistingFollowupQueue, getFollowupQueue } from "./state.js";
 import type { FollowupRun, QueueDedupeMode, QueueSettings } from "./types.js";
 
@@ -44,18 +45,36 @@ export function enqueueFollowupRun(
   queue.lastEnqueuedAt = Date.now();
   queue.lastRun = run.run;
 
+  const queued = queue.items.slice();
   const shouldEnqueue = applyQueueDropPolicy({
     queue,
     summarize: (item) => item.summaryLine?.trim() || item.prompt.trim(),
   });
+  for (const dropped of queued.filter((item) => !queue.items.includes(item))) {
+    ackFollowupRun(dropped);
+  }
   if (!shouldEnqueue) {
     return false;
   }
 
   queue.items.push(run);
+  journalFollowupRun(key, run, settings);
   return true;
 }
 
+/**
+ * Journal a run without queueing it in memory, so the next gateway process
+ * picks it up. Used when a turn is rejected because the gateway is draining
+ * for restart.
+ */
+export function deferFollowupRunUntilRestart(
+  key: string,
+  run: FollowupRun,
+  settings: QueueSettings,
+): boolean {
+  return journalFollowupRun(key, run, settings);
+}
+
 export function getFollowupQueueDepth(key: string): number {
   const queue = getExistingFollowupQueue(key);
   if (!queue) {
@@ -0,0 +1,53 @@
+import { ackInboundEntry, journalInboundEntry } from "../../../infra/inbound-queue.js";
+import { defaultRuntime } from "../../../runtime.js";
+import { isRoutableChannel } from "../route-reply.js";
+import type { FollowupRun, QueueSettings } from "./types.js";
+
+/**
+ * Write a followup to the inbound queue journal so it survives a restart.
+ * Only runs that can answer the originating chat directly are journaled: a
+ * replay has no live dispatcher to reply through. Returns whether the run is
+ * (now) backed by the journal.
+ */
+export function journalFollowupRun(
+  queueKey: string,
+  followup: FollowupRun,
+  settings: QueueSettings,
+): boolean {
+  if (followup.journalId) {
+    return true;
+  }
+  if (!isRoutableChannel(followup.originatingChannel) || !followup.originatingTo) {
+    return false;
+  }
+  const { journalId: _journalId, run, ...rest } = followup;
+  const { config: _config, skillsSnapshot: _skillsSnapshot, ...persistedRun } = run;
+  try {
+    followup.journalId = journalInboundEntry({
+      kind: "followup",
+      queueKey,
+      settings,
+      followup: { ...rest, run: persistedRun },
+    });
+    return true;
+  } catch (err) {
+    defaultRuntime.error?.(`followup queue: failed to journal run for ${queueKey}: ${String(err)}`);
+    return false;
+  }
+}
+
+/** Drop a followup from the journal once it ran or was removed from its queue. */
+export function ackFollowupRun(followup: FollowupRun): void {
+  const journalId = followup.journalId;
+  if (!journalId) {
+    return;
+  }
+  followup.journalId = undefined;
+  try {
+    ackInboundEntry(journalId);
+  } catch (err) {
+    defaultRuntime.error?.(
+      `followup queue: failed to ack journal entry ${journalId}: ${String(err)}`,
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { applyQueueRuntimeSettings } from "../../../utils/queue-helpers.js";
+import { ackFollowupRun } from "./journal.js";
 import type { FollowupRun, QueueDropPolicy, QueueMode, QueueSettings } from "./types.js";
 
 export type FollowupQueueState = {
@@ -70,6 +71,9 @@ export function clearFollowupQueue(key: string): number {
     return 0;
   }
   const cleared = queue.items.length + queue.droppedCount;
+  for (const item of queue.items) {
+    ackFollowupRun(item);
+  }
   queue.items.length = 0;
   queue.droppedCount = 0;
   queue.summaryLines = [];
@@ -24,6 +24,8 @@ export type FollowupRun = {
   messageId?: string;
   summaryLine?: string;
   enqueuedAt: number;
+  /** Inbound queue journal entry backing this run, while it waits to run. */
+  journalId?: string;
   /**
    * Originating channel for reply routing.
    * When set, replies should be routed back to this provider
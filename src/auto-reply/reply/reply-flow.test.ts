@@ -1,6 +1,8 @@
 import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
 import { expectInboundContextContract } from "../../../test/helpers/inbound-contract.js";
 import type { OpenClawConfig } from "../../config/config.js";
+import { loadPendingInboundEntries } from "../../infra/inbound-queue.js";
+import { GatewayDrainingError } from "../../process/command-queue.js";
 import { defaultRuntime } from "../../runtime.js";
 import type { MsgContext } from "../templating.js";
 import { HEARTBEAT_TOKEN, SILENT_REPLY_TOKEN } from "../tokens.js";
@@ -8,7 +10,7 @@ import { finalizeInboundContext } from "./inbound-context.js";
 import { normalizeInboundTextNewlines } from "./inbound-text.js";
 import { parseLineDirectives, hasLineDirectives } from "./line-directives.js";
 import type { FollowupRun, QueueSettings } from "./queue.js";
-import { enqueueFollowupRun, scheduleFollowupDrain } from "./queue.js";
+import { clearFollowupQueue, enqueueFollowupRun, scheduleFollowupDrain } from "./queue.js";
 import { createReplyDispatcher } from "./reply-dispatcher.js";
 import { createReplyToModeFilter, resolveReplyToMode } from "./reply-threading.js";
 
@@ -1098,6 +1100,80 @@ describe("followup queue collect routing", () => {
 
 const emptyCfg = {} as OpenClawConfig;
 
+describe("followup queue journal", () => {
+  const settings: QueueSettings = { mode: "followup", debounceMs: 0, cap: 50 };
+
+  async function journaledPrompts(key: string) {
+    return (await loadPendingInboundEntries())
+      .filter((entry) => entry.kind === "followup" && entry.queueKey === key)
+      .map((entry) => (entry.kind === "followup" ? entry.followup.prompt : ""));
+  }
+
+  it("journals routable followups until they run", async () => {
+    const key = `test-journal-run-${Date.now()}`;
+    const done = createDeferred<void>();
+    enqueueFollowupRun(
+      key,
+      createRun({ prompt: "routable", originatingChannel: "discord", originatingTo: "channel:1" }),
+      settings,
+    );
+    enqueueFollowupRun(key, createRun({ prompt: "webchat only" }), settings);
+
+    const entries = await loadPendingInboundEntries();
+    const entry = entries.find((item) => item.kind === "followup" && item.queueKey === key);
+    expect(entry).toMatchObject({ followup: { prompt: "routable", run: { model: "gpt-test" } } });
+    expect(entry && "followup" in entry && "config" in entry.followup.run).toBe(false);
+    expect(await journaledPrompts(key)).toEqual(["routable"]);
+
+    let calls = 0;
+    scheduleFollowupDrain(key, async () => {
+      calls += 1;
+      if (calls === 2) {
+        done.resolve();
+      }
+    });
+    await done.promise;
+    await vi.waitFor(async () => expect(await journaledPrompts(key)).toEqual([]));
+  });
+
+  it("drops cleared runs from the journal", async () => {
+    const key = `test-journal-clear-${Date.now()}`;
+    enqueueFollowupRun(
+      key,
+      createRun({ prompt: "stop me", originatingChannel: "discord", originatingTo: "channel:1" }),
+      settings,
+    );
+    expect(await journaledPrompts(key)).toEqual(["stop me"]);
+
+    clearFollowupQueue(key);
+
+    expect(await journaledPrompts(key)).toEqual([]);
+  });
+
+  it("leaves runs journaled when the gateway is draining", async () => {
+    const key = `test-journal-draining-${Date.now()}`;
+    const attempted = createDeferred<void>();
+    enqueueFollowupRun(
+      key,
+      createRun({ prompt: "after restart", originatingChannel: "discord", originatingTo: "c:1" }),
+      settings,
+    );
+
+    let attempts = 0;
+    scheduleFollowupDrain(key, async () => {
+      attempts += 1;
+      attempted.resolve();
+      throw new GatewayDrainingError();
+    });
+    await attempted.promise;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(attempts).toBe(1);
+    expect(await journaledPrompts(key)).toEqual(["after restart"]);
+    clearFollowupQueue(key);
+  });
+});
+
 describe("createReplyDispatcher", () => {
   it("drops empty payloads and exact silent tokens without media", async () => {
     const deliver = vi.fn().mockResolvedValue(undefined);
@@ -69,6 +69,8 @@ const createRegistry = (channels: PluginRegistry["channels"]): PluginRegistry =>
   commands: [],
   channels,
   providers: [],
+  webSearchProviders: [],
+  webFetchProviders: [],
   gatewayHandlers: {},
   httpHandlers: [],
   httpRoutes: [],
@@ -31,6 +31,7 @@ import { deliverSessionMaintenanceWarning } from "../../infra/session-maintenanc
 import { createSubsystemLogger } from "../../logging/subsystem.js";
 import { getGlobalHookRunner } from "../../plugins/hook-runner-global.js";
 import { normalizeMainKey } from "../../routing/session-key.js";
+import { listInactiveSessionBranches } from "../../sessions/session-branches.js";
 import { parseAgentSessionKey } from "../../sessions/session-key-utils.js";
 import { normalizeSessionDeliveryFields } from "../../utils/delivery-context.js";
 import {
@@ -492,13 +493,18 @@ export async function initSessionState(params: {
 
   // Archive old transcript so it doesn't accumulate on disk (#14869).
   if (previousSessionEntry?.sessionId) {
-    archiveSessionTranscripts({
-      sessionId: previousSessionEntry.sessionId,
-      storePath,
-      sessionFile: previousSessionEntry.sessionFile,
-      agentId,
-      reason: "reset",
-    });
+    for (const transcript of [
+      previousSessionEntry,
+      ...listInactiveSessionBranches(previousSessionEntry),
+    ]) {
+      archiveSessionTranscripts({
+        sessionId: transcript.sessionId,
+        storePath,
+        sessionFile: transcript.sessionFile,
+        agentId,
+        reason: "reset",
+      });
+    }
   }
 
   const sessionCtx: TemplateContext = {
@@ -120,6 +120,31 @@ describe("buildStatusMessage", () => {
     expect(normalized).toContain("channel override");
   });
 
+  it("shows the latest model router decision and per-tier turn counts", () => {
+    const text = buildStatusMessage({
+      agent: { model: "anthropic/claude-opus-4-6" },
+      sessionEntry: {
+        sessionId: "abc",
+        updatedAt: 0,
+        modelRoute: {
+          tier: "fast",
+          provider: "openai",
+          model: "gpt-4.1-mini",
+          source: "rule",
+          reason: "rules[0]: maxChars 40",
+          at: 0,
+        },
+        modelRouteCounts: { deep: 2, fast: 5 },
+      },
+      sessionKey: "agent:main:main",
+      queue: { mode: "collect", depth: 0 },
+    });
+
+    expect(normalizeTestText(text)).toContain(
+      "Route: fast → openai/gpt-4.1-mini (rules[0]: maxChars 40) · turns: fast 5, deep 2",
+    );
+  });
+
   it("shows 1M context window when anthropic context1m is enabled", () => {
     const text = buildStatusMessage({
       config: {
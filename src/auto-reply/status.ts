@@ -408,6 +408,19 @@ const formatVoiceModeLine = (
   return `🔊 Voice: ${autoMode} · provider=${provider} · limit=${maxLength} · summary=${summarize}`;
 };
 
+function formatModelRouteLine(entry?: SessionEntry): string | null {
+  const route = entry?.modelRoute;
+  // A /model override bypasses the router, so an older decision would mislead.
+  if (!route || entry.modelOverride?.trim()) {
+    return null;
+  }
+  const counts = Object.entries(entry.modelRouteCounts ?? {})
+    .toSorted((a, b) => b[1] - a[1])
+    .map(([tier, count]) => `${tier} ${count}`);
+  const countsLabel = counts.length > 0 ? ` · turns: ${counts.join(", ")}` : "";
+  return `🧭 Route: ${route.tier} → ${formatProviderModelRef(route.provider, route.model)} (${route.reason})${countsLabel}`;
+}
+
 export function buildStatusMessage(args: StatusArgs): string {
   const now = args.now ?? Date.now();
   const entry = args.sessionEntry;
@@ -653,6 +666,7 @@ export function buildStatusMessage(args: StatusArgs): string {
         showFallbackAuth ? ` · 🔑 ${activeAuthLabelValue}` : ""
       } (${fallbackState.reason ?? "selected model unavailable"})`
     : null;
+  const routeLine = formatModelRouteLine(entry);
   const commit = resolveCommitHash();
   const versionLine = `🦞 OpenClaw ${VERSION}${commit ? ` (${commit})` : ""}`;
   const usagePair = formatUsagePair(inputTokens, outputTokens);
@@ -668,6 +682,7 @@ export function buildStatusMessage(args: StatusArgs): string {
     args.timeLine,
     modelLine,
     fallbackLine,
+    routeLine,
     usageCostLine,
     cacheLine,
     `📚 ${contextLine}`,
@@ -0,0 +1,192 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { REDACTED_SENTINEL } from "../config/redact-snapshot.js";
+import { createBackup } from "./create.js";
+import { listBackups, verifyBackup } from "./read.js";
+import { restoreBackup } from "./restore.js";
+
+const migrationState = vi.hoisted(() => ({ failWith: null as Error | null }));
+
+vi.mock("../infra/state-migrations.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../infra/state-migrations.js")>();
+  return {
+    ...actual,
+    runLegacyStateMigrations: async (
+      ...args: Parameters<typeof actual.runLegacyStateMigrations>
+    ) => {
+      if (migrationState.failWith) {
+        throw migrationState.failWith;
+      }
+      return await actual.runLegacyStateMigrations(...args);
+    },
+  };
+});
+
+let tempRoot: string | null = null;
+
+async function makeStateDir() {
+  tempRoot = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-backup-"));
+  const stateDir = path.join(tempRoot, "state");
+  await fs.mkdir(path.join(stateDir, "agents", "main", "sessions"), { recursive: true });
+  await fs.mkdir(path.join(stateDir, "credentials"), { recursive: true });
+  await fs.mkdir(path.join(stateDir, "logs"), { recursive: true });
+  await fs.writeFile(
+    path.join(stateDir, "openclaw.json"),
+    JSON.stringify({ gateway: { auth: { token: "secret-token-value" } } }),
+  );
+  await fs.writeFile(
+    path.join(stateDir, "agents", "main", "sessions", "sessions.json"),
+    JSON.stringify({ "agent:main:main": { sessionId: "s1", updatedAt: 1 } }),
+  );
+  await fs.writeFile(
+    path.join(stateDir, "agents", "main", "sessions", "s1.jsonl"),
+    '{"type":"session"}\n{"type":"message"}\n{"type":"mess',
+  );
+  await fs.writeFile(path.join(stateDir, "credentials", "telegram-pairing.json"), "{}");
+  await fs.writeFile(path.join(stateDir, "logs", "gateway.log"), "noise");
+  const env = { ...process.env, OPENCLAW_STATE_DIR: stateDir } as NodeJS.ProcessEnv;
+  delete env.OPENCLAW_CONFIG_PATH;
+  return { root: tempRoot, stateDir, env };
+}
+
+afterEach(async () => {
+  migrationState.failWith = null;
+  if (tempRoot) {
+    await fs.rm(tempRoot, { recursive: true, force: true });
+    tempRoot = null;
+  }
+});
+
+describe("backup", () => {
+  it("round-trips state through create, verify and restore", async () => {
+    const { stateDir, env } = await makeStateDir();
+    const created = await createBackup({ env, now: () => new Date("2026-01-02T03:04:05Z") });
+
+    expect(path.basename(created.path)).toBe("openclaw-backup-2026-01-02T03-04-05Z.tar.gz");
+    const archived = created.manifest.files.map((file) => file.path);
+    expect(archived).toContain("state/openclaw.json");
+    expect(archived).toContain("state/credentials/telegram-pairing.json");
+    expect(archived).not.toContain("state/logs/gateway.log");
+    expect((await verifyBackup({ archivePath: created.path })).ok).toBe(true);
+    expect((await listBackups({ env })).map((entry) => entry.path)).toEqual([created.path]);
+
+    await fs.writeFile(path.join(stateDir, "openclaw.json"), "{}");
+    const restored = await restoreBackup({
+      archivePath: created.path,
+      env,
+      now: () => new Date("2026-01-03T00:00:00Z"),
+    });
+
+    expect(restored.previousStateDir).toBe(`${stateDir}.pre-restore-2026-01-03T00-00-00Z`);
+    expect(await fs.readFile(path.join(stateDir, "openclaw.json"), "utf8")).toContain(
+      "secret-token-value",
+    );
+    // The trailing partial line of an in-flight append is not captured.
+    expect(
+      await fs.readFile(path.join(stateDir, "agents", "main", "sessions", "s1.jsonl"), "utf8"),
+    ).toBe('{"type":"session"}\n{"type":"message"}\n');
+    // Local backups stay reachable from the restored state dir.
+    expect((await listBackups({ env })).length).toBe(1);
+  });
+
+  it("runs legacy state migrations after restoring an old layout", async () => {
+    const { root, stateDir, env } = await makeStateDir();
+    await fs.rm(path.join(stateDir, "agents"), { recursive: true });
+    await fs.mkdir(path.join(stateDir, "sessions"));
+    await fs.writeFile(
+      path.join(stateDir, "sessions", "sessions.json"),
+      JSON.stringify({ main: { sessionId: "legacy", updatedAt: 1 } }),
+    );
+    const created = await createBackup({ env, output: path.join(root, "out") });
+
+    const restored = await restoreBackup({ archivePath: created.path, env });
+
+    expect(restored.migrations.changes.length).toBeGreaterThan(0);
+    const migrated = await fs.readFile(
+      path.join(stateDir, "agents", "main", "sessions", "sessions.json"),
+      "utf8",
+    );
+    expect(migrated).toContain("legacy");
+  });
+
+  it("moves the previous state dir back when a restore step fails", async () => {
+    const { root, stateDir, env } = await makeStateDir();
+    const created = await createBackup({ env });
+    await fs.writeFile(path.join(stateDir, "openclaw.json"), '{"marker":"current"}');
+    migrationState.failWith = new Error("migration exploded");
+
+    await expect(
+      restoreBackup({
+        archivePath: created.path,
+        env,
+        now: () => new Date("2026-01-03T00:00:00Z"),
+      }),
+    ).rejects.toThrow("migration exploded");
+
+    expect(await fs.readFile(path.join(stateDir, "openclaw.json"), "utf8")).toContain("current");
+    expect((await listBackups({ env })).map((entry) => entry.path)).toEqual([created.path]);
+    expect(await fs.readdir(root)).toEqual(["state"]);
+  });
+
+  it("encrypts archives and rejects a wrong passphrase", async () => {
+    const { env } = await makeStateDir();
+    const created = await createBackup({ env, passphrase: "correct horse" });
+
+    expect(created.path.endsWith(".tar.gz.enc")).toBe(true);
+    expect(await fs.readFile(created.path, "latin1")).not.toContain("secret-token-value");
+    expect(
+      (await verifyBackup({ archivePath: created.path, passphrase: "correct horse" })).ok,
+    ).toBe(true);
+    await expect(verifyBackup({ archivePath: created.path, passphrase: "wrong" })).rejects.toThrow(
+      "Wrong backup passphrase.",
+    );
+    await expect(verifyBackup({ archivePath: created.path })).rejects.toThrow(
+      "a passphrase is required",
+    );
+    const [listed] = await listBackups({ env });
+    expect(listed?.encrypted).toBe(true);
+  });
+
+  it("leaves credentials out and redacts config secrets", async () => {
+    const { root, stateDir, env } = await makeStateDir();
+    const created = await createBackup({
+      env,
+      output: path.join(root, "out"),
+      redactSecrets: true,
+    });
+
+    expect(created.redactedPaths).toEqual(["credentials/telegram-pairing.json"]);
+    expect(created.manifest.files.map((file) => file.path)).not.toContain(
+      "state/credentials/telegram-pairing.json",
+    );
+
+    // Secrets are filled back in from the config being replaced...
+    await restoreBackup({ archivePath: created.path, env });
+    expect(await fs.readFile(path.join(stateDir, "openclaw.json"), "utf8")).toContain(
+      "secret-token-value",
+    );
+
+    // ...and stay redacted when there is nothing to fill them from.
+    await fs.rm(stateDir, { recursive: true });
+    const restored = await restoreBackup({ archivePath: created.path, env });
+    const config = await fs.readFile(path.join(stateDir, "openclaw.json"), "utf8");
+    expect(config).toContain(REDACTED_SENTINEL);
+    expect(config).not.toContain("secret-token-value");
+    expect(restored.warnings.some((warning) => warning.includes(REDACTED_SENTINEL))).toBe(true);
+  });
+
+  it("refuses to restore an archive that fails verification", async () => {
+    const { root, stateDir, env } = await makeStateDir();
+    const created = await createBackup({ env, output: path.join(root, "out") });
+    const bytes = await fs.readFile(created.path);
+    bytes[Math.floor(bytes.length / 2)] ^= 0xff;
+    await fs.writeFile(created.path, bytes);
+
+    await expect(restoreBackup({ archivePath: created.path, env })).rejects.toThrow();
+    expect(await fs.readFile(path.join(stateDir, "openclaw.json"), "utf8")).toContain(
+      "secret-token-value",
+    );
+  });
+});
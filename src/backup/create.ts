@@ -0,0 +1,333 @@
+import crypto from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { pipeline } from "node:stream/promises";
+import JSON5 from "json5";
+import * as tar from "tar";
+import { resolveConfigPath, resolveStateDir } from "../config/paths.js";
+import { redactConfigObject } from "../config/redact-snapshot.js";
+import { withFileLock, type FileLockOptions } from "../infra/file-lock.js";
+import { requireNodeSqlite } from "../memory/sqlite.js";
+import { VERSION } from "../version.js";
+import { createBackupEncryption } from "./crypto.js";
+import {
+  BACKUP_ARCHIVE_SUFFIX,
+  BACKUP_DIRNAME,
+  BACKUP_ENCRYPTED_SUFFIX,
+  BACKUP_EXTERNAL_CONFIG_PATH,
+  BACKUP_FORMAT,
+  BACKUP_MANIFEST_FILENAME,
+  BACKUP_MANIFEST_VERSION,
+  BACKUP_STATE_PREFIX,
+  formatBackupFileName,
+  isBackupFileName,
+  isLockedStorePath,
+  isSecretStatePath,
+  isSqlitePath,
+  isTranscriptPath,
+  shouldBackupStatePath,
+  type BackupManifest,
+  type BackupManifestFile,
+} from "./manifest.js";
+
+// Store writers hold their lock for one read-modify-write, so a short wait is enough.
+const BACKUP_LOCK_OPTIONS: FileLockOptions = {
+  retries: {
+    retries: 10,
+    factor: 2,
+    minTimeout: 100,
+    maxTimeout: 5_000,
+    randomize: true,
+  },
+  stale: 30_000,
+};
+
+export type BackupCreateOptions = {
+  env?: NodeJS.ProcessEnv;
+  /** Output directory or `.tar.gz`/`.tar.gz.enc` file path (default: `<stateDir>/backups`). */
+  output?: string;
+  /** Encrypts the archive when set. */
+  passphrase?: string;
+  /** Leaves credential stores out and replaces config secrets with the redaction sentinel. */
+  redactSecrets?: boolean;
+  now?: () => Date;
+};
+
+export type BackupCreateResult = {
+  path: string;
+  bytes: number;
+  encrypted: boolean;
+  manifest: BackupManifest;
+  /** State files skipped because of redaction. */
+  redactedPaths: string[];
+  warnings: string[];
+};
+
+function toPosix(relPath: string): string {
+  return relPath.split(path.sep).join("/");
+}
+
+function isInside(child: string, parent: string): boolean {
+  const relative = path.relative(parent, child);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+function resolveOutputPath(params: {
+  output?: string;
+  stateDir: string;
+  createdAt: Date;
+  encrypted: boolean;
+}): string {
+  const suffix = params.encrypted ? BACKUP_ENCRYPTED_SUFFIX : BACKUP_ARCHIVE_SUFFIX;
+  const output = params.output?.trim();
+  if (!output) {
+    return path.join(
+      params.stateDir,
+      BACKUP_DIRNAME,
+      formatBackupFileName(params.createdAt, params.encrypted),
+    );
+  }
+  const resolved = path.resolve(output);
+  if (resolved.endsWith(BACKUP_ARCHIVE_SUFFIX) || resolved.endsWith(BACKUP_ENCRYPTED_SUFFIX)) {
+    if (!resolved.endsWith(suffix)) {
+      throw new Error(`Output file must end with ${suffix}.`);
+    }
+    return resolved;
+  }
+  return path.join(resolved, formatBackupFileName(params.createdAt, params.encrypted));
+}
+
+async function* walkFiles(rootDir: string, relDir = ""): AsyncGenerator<string> {
+  let entries: import("node:fs").Dirent[];
+  try {
+    entries = await fs.readdir(path.join(rootDir, relDir), { withFileTypes: true });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return;
+    }
+    throw err;
+  }
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    const relPath = relDir ? `${relDir}/${entry.name}` : entry.name;
+    // Symlinks are not followed: restore refuses links, and targets may live outside the state dir.
+    if (entry.isDirectory()) {
+      if (shouldBackupStatePath(relPath)) {
+        yield* walkFiles(rootDir, relPath);
+      }
+    } else if (entry.isFile() && shouldBackupStatePath(relPath)) {
+      yield relPath;
+    }
+  }
+}
+
+async function hashFile(filePath: string): Promise<{ size: number; sha256: string }> {
+  const hash = crypto.createHash("sha256");
+  let size = 0;
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+    size += (chunk as Buffer).length;
+  }
+  return { size, sha256: hash.digest("hex") };
+}
+
+async function snapshotSqlite(source: string, dest: string): Promise<void> {
+  const { DatabaseSync } = requireNodeSqlite();
+  const db = new DatabaseSync(source, { readOnly: true });
+  try {
+    // VACUUM INTO reads one transaction, so the copy is consistent even mid-write.
+    db.exec(`VACUUM INTO '${dest.replaceAll("'", "''")}'`);
+  } finally {
+    db.close();
+  }
+}
+
+async function snapshotTranscript(source: string, dest: string): Promise<void> {
+  // Transcripts are append-only; drop a trailing partial line from an in-flight append.
+  const raw = await fs.readFile(source);
+  const end = raw.lastIndexOf(0x0a) + 1;
+  await fs.writeFile(dest, end === raw.length ? raw : raw.subarray(0, end));
+}
+
+async function snapshotRedactedConfig(source: string, dest: string): Promise<void> {
+  const parsed = JSON5.parse(await fs.readFile(source, "utf8"));
+  await fs.writeFile(dest, `${JSON.stringify(redactConfigObject(parsed), null, 2)}\n`);
+}
+
+async function snapshotFile(params: {
+  source: string;
+  dest: string;
+  relPath: string;
+  isConfig: boolean;
+  redactSecrets: boolean;
+  warnings: string[];
+}): Promise<void> {
+  const { source, dest, relPath } = params;
+  await fs.mkdir(path.dirname(dest), { recursive: true });
+  if (params.isConfig && params.redactSecrets) {
+    await snapshotRedactedConfig(source, dest);
+    return;
+  }
+  if (isSqlitePath(relPath)) {
+    try {
+      await snapshotSqlite(source, dest);
+      return;
+    } catch (err) {
+      await fs.rm(dest, { force: true });
+      params.warnings.push(`SQLite snapshot failed for ${relPath}; copied as-is (${String(err)})`);
+    }
+  }
+  if (isTranscriptPath(relPath)) {
+    await snapshotTranscript(source, dest);
+    return;
+  }
+  if (isLockedStorePath(relPath)) {
+    await withFileLock(source, BACKUP_LOCK_OPTIONS, async () => {
+      await fs.copyFile(source, dest);
+    });
+    return;
+  }
+  await fs.copyFile(source, dest);
+}
+
+async function writeArchive(params: {
+  stagingDir: string;
+  entries: string[];
+  outputPath: string;
+  passphrase?: string;
+  createdAt: string;
+}): Promise<void> {
+  const pack = tar.c({ gzip: true, cwd: params.stagingDir, portable: true }, params.entries);
+  if (!params.passphrase) {
+    await pipeline(pack, createWriteStream(params.outputPath, { mode: 0o600 }));
+    return;
+  }
+  const { headerLine, cipher } = await createBackupEncryption({
+    passphrase: params.passphrase,
+    createdAt: params.createdAt,
+    openclawVersion: VERSION,
+  });
+  await fs.writeFile(params.outputPath, headerLine, { mode: 0o600 });
+  await pipeline(pack, cipher, createWriteStream(params.outputPath, { flags: "a" }));
+  await fs.appendFile(params.outputPath, cipher.getAuthTag());
+}
+
+/**
+ * Snapshots the state dir (and an external config file) into one versioned
+ * archive. Safe while the Gateway runs: lock-guarded stores are copied under
+ * their file lock, SQLite databases via `VACUUM INTO`, transcripts up to
+ * their last complete line.
+ */
+export async function createBackup(opts: BackupCreateOptions = {}): Promise<BackupCreateResult> {
+  const env = opts.env ?? process.env;
+  const stateDir = resolveStateDir(env);
+  const configPath = resolveConfigPath(env, stateDir);
+  const createdAtDate = (opts.now ?? (() => new Date()))();
+  const createdAt = createdAtDate.toISOString();
+  const encrypted = Boolean(opts.passphrase);
+  const redactSecrets = opts.redactSecrets === true;
+  const outputPath = resolveOutputPath({
+    output: opts.output,
+    stateDir,
+    createdAt: createdAtDate,
+    encrypted,
+  });
+  const outputDir = path.dirname(outputPath);
+  await fs.mkdir(outputDir, { recursive: true, mode: 0o700 });
+
+  const stagingDir = await fs.mkdtemp(path.join(outputDir, ".openclaw-backup-"));
+  const partialPath = `${outputPath}.partial`;
+  const files: BackupManifestFile[] = [];
+  const redactedPaths: string[] = [];
+  const warnings: string[] = [];
+  try {
+    const stagingRel = toPosix(path.relative(stateDir, stagingDir));
+    for await (const relPath of walkFiles(stateDir)) {
+      // Never archive this run's staging copy or earlier backups written next to it.
+      const base = path.posix.basename(relPath);
+      if (
+        relPath.startsWith(`${stagingRel}/`) ||
+        isBackupFileName(base) ||
+        isBackupFileName(base.replace(/\.partial$/, ""))
+      ) {
+        continue;
+      }
+      if (redactSecrets && isSecretStatePath(relPath)) {
+        redactedPaths.push(relPath);
+        continue;
+      }
+      const archivePath = `${BACKUP_STATE_PREFIX}/${relPath}`;
+      const dest = path.join(stagingDir, archivePath);
+      try {
+        await snapshotFile({
+          source: path.join(stateDir, relPath),
+          dest,
+          relPath,
+          isConfig: path.join(stateDir, relPath) === configPath,
+          redactSecrets,
+          warnings,
+        });
+      } catch (err) {
+        // Files can vanish mid-walk (pruned transcripts, rotated stores).
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+          continue;
+        }
+        throw err;
+      }
+      files.push({ path: archivePath, ...(await hashFile(dest)) });
+    }
+
+    const entries = [BACKUP_MANIFEST_FILENAME];
+    if (files.length > 0) {
+      entries.push(BACKUP_STATE_PREFIX);
+    }
+    if (!isInside(configPath, stateDir)) {
+      const dest = path.join(stagingDir, BACKUP_EXTERNAL_CONFIG_PATH);
+      try {
+        await snapshotFile({
+          source: configPath,
+          dest,
+          relPath: BACKUP_EXTERNAL_CONFIG_PATH,
+          isConfig: true,
+          redactSecrets,
+          warnings,
+        });
+        files.push({ path: BACKUP_EXTERNAL_CONFIG_PATH, ...(await hashFile(dest)) });
+        entries.push(path.posix.dirname(BACKUP_EXTERNAL_CONFIG_PATH));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw err;
+        }
+      }
+    }
+
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_MANIFEST_VERSION,
+      createdAt,
+      openclawVersion: VERSION,
+      stateDir,
+      configPath,
+      redacted: redactSecrets,
+      files,
+    };
+    await fs.writeFile(
+      path.join(stagingDir, BACKUP_MANIFEST_FILENAME),
+      `${JSON.stringify(manifest, null, 2)}\n`,
+    );
+    await writeArchive({
+      stagingDir,
+      entries,
+      outputPath: partialPath,
+      passphrase: opts.passphrase,
+      createdAt,
+    });
+    await fs.rename(partialPath, outputPath);
+    const { size } = await fs.stat(outputPath);
+    return { path: outputPath, bytes: size, encrypted, manifest, redactedPaths, warnings };
+  } finally {
+    await fs.rm(partialPath, { force: true });
+    await fs.rm(stagingDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,154 @@
+import crypto from "node:crypto";
+import { createReadStream } from "node:fs";
+import fs from "node:fs/promises";
+import type { Readable, Transform } from "node:stream";
+
+/**
+ * Encrypted backups wrap the plain `.tar.gz` in a small container: one JSON
+ * header line (format, scrypt params, IV), the AES-256-GCM ciphertext, then
+ * the 16-byte auth tag. The header stays readable so `backup list` can show
+ * encrypted archives without the passphrase.
+ */
+export const BACKUP_ENCRYPTED_FORMAT = "openclaw-backup-encrypted";
+export const BACKUP_PASSPHRASE_ENV = "OPENCLAW_BACKUP_PASSPHRASE";
+
+const TAG_BYTES = 16;
+const MAX_HEADER_BYTES = 4096;
+const DEFAULT_SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const SCRYPT_MAX_MEM = 128 * 1024 * 1024;
+
+export type BackupEncryptionHeader = {
+  format: typeof BACKUP_ENCRYPTED_FORMAT;
+  version: 1;
+  cipher: "aes-256-gcm";
+  kdf: { name: "scrypt"; salt: string; N: number; r: number; p: number };
+  iv: string;
+  /** HMAC of a fixed label under the derived key, so a wrong passphrase fails up front. */
+  keyCheck: string;
+  createdAt: string;
+  openclawVersion: string;
+};
+
+const KEY_CHECK_LABEL = "openclaw-backup-key-check";
+
+function computeKeyCheck(key: Buffer): string {
+  return crypto.createHmac("sha256", key).update(KEY_CHECK_LABEL).digest("base64").slice(0, 22);
+}
+
+async function deriveKey(passphrase: string, kdf: BackupEncryptionHeader["kdf"]): Promise<Buffer> {
+  return await new Promise((resolve, reject) => {
+    crypto.scrypt(
+      passphrase,
+      Buffer.from(kdf.salt, "base64"),
+      32,
+      { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: SCRYPT_MAX_MEM },
+      (err, key) => (err ? reject(err) : resolve(key)),
+    );
+  });
+}
+
+/** Returns the header line to write first and a cipher for the archive bytes. */
+export async function createBackupEncryption(params: {
+  passphrase: string;
+  createdAt: string;
+  openclawVersion: string;
+}): Promise<{ headerLine: string; cipher: crypto.CipherGCM }> {
+  const kdf = {
+    name: "scrypt" as const,
+    salt: crypto.randomBytes(16).toString("base64"),
+    ...DEFAULT_SCRYPT_PARAMS,
+  };
+  const iv = crypto.randomBytes(12);
+  const key = await deriveKey(params.passphrase, kdf);
+  const header: BackupEncryptionHeader = {
+    format: BACKUP_ENCRYPTED_FORMAT,
+    version: 1,
+    cipher: "aes-256-gcm",
+    kdf,
+    iv: iv.toString("base64"),
+    keyCheck: computeKeyCheck(key),
+    createdAt: params.createdAt,
+    openclawVersion: params.openclawVersion,
+  };
+  const headerLine = `${JSON.stringify(header)}\n`;
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  // Bind the header so tampering with KDF params or metadata fails authentication.
+  cipher.setAAD(Buffer.from(headerLine, "utf8"));
+  return { headerLine, cipher };
+}
+
+/** Reads the container header, or null when the file is not an encrypted backup. */
+export async function readBackupEncryptionHeader(
+  filePath: string,
+): Promise<{ header: BackupEncryptionHeader; headerLine: string } | null> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(MAX_HEADER_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, MAX_HEADER_BYTES, 0);
+    const newline = buffer.subarray(0, bytesRead).indexOf(0x0a);
+    if (newline <= 0 || buffer[0] !== 0x7b) {
+      return null;
+    }
+    let parsed: Partial<BackupEncryptionHeader>;
+    try {
+      parsed = JSON.parse(buffer.subarray(0, newline).toString("utf8")) as typeof parsed;
+    } catch {
+      return null;
+    }
+    if (parsed.format !== BACKUP_ENCRYPTED_FORMAT) {
+      return null;
+    }
+    if (parsed.version !== 1 || parsed.cipher !== "aes-256-gcm" || parsed.kdf?.name !== "scrypt") {
+      throw new Error(`Unsupported encrypted backup (version ${String(parsed.version)}).`);
+    }
+    return {
+      header: parsed as BackupEncryptionHeader,
+      headerLine: buffer.subarray(0, newline + 1).toString("utf8"),
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Streams the decrypted `.tar.gz` bytes. Authentication is checked when the
+ * stream ends, so consumers must treat a stream error as "do not trust".
+ */
+export async function openDecryptedBackupStream(params: {
+  filePath: string;
+  header: BackupEncryptionHeader;
+  headerLine: string;
+  passphrase: string;
+}): Promise<Readable> {
+  const headerBytes = Buffer.byteLength(params.headerLine, "utf8");
+  const { size } = await fs.stat(params.filePath);
+  const cipherEnd = size - TAG_BYTES;
+  if (cipherEnd < headerBytes) {
+    throw new Error("Encrypted backup is truncated.");
+  }
+  const tag = Buffer.alloc(TAG_BYTES);
+  const handle = await fs.open(params.filePath, "r");
+  try {
+    await handle.read(tag, 0, TAG_BYTES, cipherEnd);
+  } finally {
+    await handle.close();
+  }
+  const key = await deriveKey(params.passphrase, params.header.kdf);
+  if (computeKeyCheck(key) !== params.header.keyCheck) {
+    throw new Error("Wrong backup passphrase.");
+  }
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    key,
+    Buffer.from(params.header.iv, "base64"),
+  );
+  decipher.setAAD(Buffer.from(params.headerLine, "utf8"));
+  decipher.setAuthTag(tag);
+  const source = createReadStream(params.filePath, {
+    start: headerBytes,
+    end: cipherEnd - 1,
+  });
+  source.on("error", (err) => decipher.destroy(err));
+  const output: Transform = source.pipe(decipher);
+  return output.on("error", () => source.destroy());
+}
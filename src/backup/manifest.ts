@@ -0,0 +1,115 @@
+import path from "node:path";
+
+export const BACKUP_FORMAT = "openclaw-backup";
+export const BACKUP_MANIFEST_VERSION = 1;
+export const BACKUP_MANIFEST_FILENAME = "manifest.json";
+/** Archive prefix for files from the state dir. */
+export const BACKUP_STATE_PREFIX = "state";
+/** Archive path for the config file when it lives outside the state dir. */
+export const BACKUP_EXTERNAL_CONFIG_PATH = "config/openclaw.json";
+export const BACKUP_FILE_PREFIX = "openclaw-backup-";
+export const BACKUP_ARCHIVE_SUFFIX = ".tar.gz";
+export const BACKUP_ENCRYPTED_SUFFIX = ".tar.gz.enc";
+/** Default output directory, relative to the state dir (never archived itself). */
+export const BACKUP_DIRNAME = "backups";
+
+export type BackupManifestFile = {
+  /** POSIX path inside the archive. */
+  path: string;
+  size: number;
+  sha256: string;
+};
+
+export type BackupManifest = {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_MANIFEST_VERSION;
+  createdAt: string;
+  openclawVersion: string;
+  /** Source paths, for display only; restore targets the current state dir. */
+  stateDir: string;
+  configPath: string;
+  /** True when credentials were left out and config secrets replaced by a sentinel. */
+  redacted: boolean;
+  files: BackupManifestFile[];
+};
+
+/** Top-level state entries that are caches, logs or transient markers. */
+const EXCLUDED_TOP_LEVEL = new Set([
+  BACKUP_DIRNAME,
+  "logs",
+  "browser",
+  "sandboxes",
+  "restart-sentinel.json",
+]);
+
+const SQLITE_SIDECAR_SUFFIXES = ["-wal", "-shm", "-journal"];
+
+/** Whether a state-dir file (POSIX path relative to the state dir) is archived at all. */
+export function shouldBackupStatePath(relPath: string): boolean {
+  const [top] = relPath.split("/");
+  if (EXCLUDED_TOP_LEVEL.has(top ?? "")) {
+    return false;
+  }
+  const base = path.posix.basename(relPath);
+  if (base.endsWith(".lock") || base.endsWith(".tmp") || base.includes(".tmp-")) {
+    return false;
+  }
+  // SQLite files are snapshotted whole (see create.ts), so WAL/SHM sidecars are redundant.
+  const sidecar = SQLITE_SIDECAR_SUFFIXES.find((suffix) => base.endsWith(suffix));
+  return !(sidecar && isSqlitePath(base.slice(0, -sidecar.length)));
+}
+
+/** Files that hold credentials; left out of redacted backups. */
+export function isSecretStatePath(relPath: string): boolean {
+  const [top] = relPath.split("/");
+  if (top === "credentials" || top === "identity" || top === "devices" || top === ".env") {
+    return true;
+  }
+  const base = path.posix.basename(relPath);
+  return base === "auth-profiles.json" || base === "auth.json";
+}
+
+/** Stores written under the cross-process `<file>.lock` protocol. */
+export function isLockedStorePath(relPath: string): boolean {
+  const base = path.posix.basename(relPath);
+  if (base === "sessions.json" || base === "auth-profiles.json") {
+    return true;
+  }
+  return relPath.startsWith("credentials/") && base.endsWith(".json");
+}
+
+export function isSqlitePath(relPath: string): boolean {
+  return relPath.endsWith(".sqlite") || relPath.endsWith(".db");
+}
+
+export function isTranscriptPath(relPath: string): boolean {
+  return relPath.endsWith(".jsonl");
+}
+
+export function formatBackupFileName(createdAt: Date, encrypted: boolean): string {
+  const stamp = createdAt
+    .toISOString()
+    .replace(/\.\d{3}Z$/, "Z")
+    .replaceAll(":", "-");
+  return `${BACKUP_FILE_PREFIX}${stamp}${encrypted ? BACKUP_ENCRYPTED_SUFFIX : BACKUP_ARCHIVE_SUFFIX}`;
+}
+
+export function isBackupFileName(name: string): boolean {
+  return (
+    name.startsWith(BACKUP_FILE_PREFIX) &&
+    (name.endsWith(BACKUP_ARCHIVE_SUFFIX) || name.endsWith(BACKUP_ENCRYPTED_SUFFIX))
+  );
+}
+
+export function isBackupManifest(value: unknown): value is BackupManifest {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const manifest = value as Partial<BackupManifest>;
+  return (
+    manifest.format === BACKUP_FORMAT &&
+    typeof manifest.version === "number" &&
+    typeof manifest.createdAt === "string" &&
+    Array.isArray(manifest.files)
+  );
+}
@@ -0,0 +1,251 @@
+import crypto from "node:crypto";
+import { createReadStream } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import * as tar from "tar";
+import { resolveStateDir } from "../config/paths.js";
+import {
+  openDecryptedBackupStream,
+  readBackupEncryptionHeader,
+  type BackupEncryptionHeader,
+} from "./crypto.js";
+import {
+  BACKUP_DIRNAME,
+  BACKUP_MANIFEST_FILENAME,
+  BACKUP_MANIFEST_VERSION,
+  isBackupFileName,
+  isBackupManifest,
+  type BackupManifest,
+} from "./manifest.js";
+
+export type OpenedBackup = {
+  encrypted: boolean;
+  header?: BackupEncryptionHeader;
+  /** Fresh stream of the plain `.tar.gz` bytes (decrypting when needed). */
+  openStream: () => Promise<Readable>;
+};
+
+export type BackupVerifyResult = {
+  ok: boolean;
+  encrypted: boolean;
+  manifest?: BackupManifest;
+  checkedFiles: number;
+  problems: string[];
+};
+
+export type BackupListEntry = {
+  path: string;
+  bytes: number;
+  encrypted: boolean;
+  createdAt?: string;
+  openclawVersion?: string;
+  fileCount?: number;
+  redacted?: boolean;
+  error?: string;
+};
+
+type TarReadEntry = Readable & { path: string; type: string };
+
+export async function openBackup(params: {
+  archivePath: string;
+  passphrase?: string;
+}): Promise<OpenedBackup> {
+  const archivePath = path.resolve(params.archivePath);
+  await fs.access(archivePath);
+  const encryption = await readBackupEncryptionHeader(archivePath);
+  if (!encryption) {
+    return {
+      encrypted: false,
+      openStream: async () => createReadStream(archivePath),
+    };
+  }
+  const passphrase = params.passphrase;
+  return {
+    encrypted: true,
+    header: encryption.header,
+    openStream: async () => {
+      if (!passphrase) {
+        throw new Error("Backup is encrypted; a passphrase is required.");
+      }
+      return await openDecryptedBackupStream({
+        filePath: archivePath,
+        header: encryption.header,
+        headerLine: encryption.headerLine,
+        passphrase,
+      });
+    },
+  };
+}
+
+function normalizeEntryPath(entryPath: string): string {
+  return entryPath.replace(/^\.\//, "").replace(/\/+$/, "");
+}
+
+function parseManifest(raw: string): BackupManifest {
+  const parsed = JSON.parse(raw) as unknown;
+  if (!isBackupManifest(parsed)) {
+    throw new Error("Archive is not an OpenClaw backup (bad manifest).");
+  }
+  if (parsed.version > BACKUP_MANIFEST_VERSION) {
+    throw new Error(
+      `Backup manifest version ${parsed.version} is newer than supported (${BACKUP_MANIFEST_VERSION}); upgrade OpenClaw first.`,
+    );
+  }
+  return parsed;
+}
+
+/** Reads only the manifest (the first archive entry) without touching the rest. */
+export async function readBackupManifest(opened: OpenedBackup): Promise<BackupManifest> {
+  const source = await opened.openStream();
+  try {
+    return await new Promise<BackupManifest>((resolve, reject) => {
+      const parser = tar.t({
+        onReadEntry(entry) {
+          const readEntry = entry as unknown as TarReadEntry;
+          if (normalizeEntryPath(readEntry.path) !== BACKUP_MANIFEST_FILENAME) {
+            readEntry.resume();
+            return;
+          }
+          const chunks: Buffer[] = [];
+          readEntry.on("data", (chunk: Buffer) => chunks.push(chunk));
+          readEntry.on("end", () => {
+            try {
+              resolve(parseManifest(Buffer.concat(chunks).toString("utf8")));
+            } catch (err) {
+              reject(err instanceof Error ? err : new Error(String(err)));
+            }
+          });
+        },
+      });
+      source.on("error", reject);
+      parser.on("error", reject);
+      parser.on("end", () => reject(new Error("Backup manifest not found.")));
+      source.pipe(parser as unknown as NodeJS.WritableStream);
+    });
+  } finally {
+    source.destroy();
+  }
+}
+
+/** Streams the whole archive, checking every file against the manifest checksums. */
+export async function verifyBackup(params: {
+  archivePath: string;
+  passphrase?: string;
+}): Promise<BackupVerifyResult> {
+  const opened = await openBackup(params);
+  const actual = new Map<string, { size: number; sha256: string }>();
+  const pending: Promise<void>[] = [];
+  let manifestRaw: string | undefined;
+  const parser = tar.t({
+    onReadEntry(entry) {
+      const readEntry = entry as unknown as TarReadEntry;
+      const entryPath = normalizeEntryPath(readEntry.path);
+      if (readEntry.type === "Directory") {
+        readEntry.resume();
+        return;
+      }
+      const hash = crypto.createHash("sha256");
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const isManifest = entryPath === BACKUP_MANIFEST_FILENAME;
+      pending.push(
+        new Promise<void>((resolve) => {
+          readEntry.on("data", (chunk: Buffer) => {
+            size += chunk.length;
+            if (isManifest) {
+              chunks.push(chunk);
+            } else {
+              hash.update(chunk);
+            }
+          });
+          readEntry.on("end", () => {
+            if (isManifest) {
+              manifestRaw = Buffer.concat(chunks).toString("utf8");
+            } else {
+              actual.set(entryPath, { size, sha256: hash.digest("hex") });
+            }
+            resolve();
+          });
+        }),
+      );
+    },
+  });
+  await pipeline(await opened.openStream(), parser as unknown as NodeJS.WritableStream);
+  await Promise.all(pending);
+
+  if (manifestRaw === undefined) {
+    return {
+      ok: false,
+      encrypted: opened.encrypted,
+      checkedFiles: 0,
+      problems: ["manifest missing"],
+    };
+  }
+  const manifest = parseManifest(manifestRaw);
+  const problems: string[] = [];
+  for (const file of manifest.files) {
+    const found = actual.get(file.path);
+    if (!found) {
+      problems.push(`missing: ${file.path}`);
+    } else if (found.size !== file.size || found.sha256 !== file.sha256) {
+      problems.push(`checksum mismatch: ${file.path}`);
+    }
+    actual.delete(file.path);
+  }
+  for (const extra of actual.keys()) {
+    problems.push(`not in manifest: ${extra}`);
+  }
+  return {
+    ok: problems.length === 0,
+    encrypted: opened.encrypted,
+    manifest,
+    checkedFiles: manifest.files.length,
+    problems,
+  };
+}
+
+export function resolveDefaultBackupDir(env: NodeJS.ProcessEnv = process.env): string {
+  return path.join(resolveStateDir(env), BACKUP_DIRNAME);
+}
+
+/** Lists backups in a directory, newest first. Encrypted ones only expose their header. */
+export async function listBackups(
+  params: { dir?: string; env?: NodeJS.ProcessEnv } = {},
+): Promise<BackupListEntry[]> {
+  const dir = path.resolve(params.dir ?? resolveDefaultBackupDir(params.env));
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw err;
+  }
+  const entries: BackupListEntry[] = [];
+  for (const name of names.filter(isBackupFileName)) {
+    const archivePath = path.join(dir, name);
+    const stat = await fs.stat(archivePath);
+    const entry: BackupListEntry = { path: archivePath, bytes: stat.size, encrypted: false };
+    try {
+      const opened = await openBackup({ archivePath });
+      entry.encrypted = opened.encrypted;
+      if (opened.header) {
+        entry.createdAt = opened.header.createdAt;
+        entry.openclawVersion = opened.header.openclawVersion;
+      } else {
+        const manifest = await readBackupManifest(opened);
+        entry.createdAt = manifest.createdAt;
+        entry.openclawVersion = manifest.openclawVersion;
+        entry.fileCount = manifest.files.length;
+        entry.redacted = manifest.redacted;
+      }
+    } catch (err) {
+      entry.error = err instanceof Error ? err.message : String(err);
+    }
+    entries.push(entry);
+  }
+  return entries.toSorted((a, b) => (b.createdAt ?? b.path).localeCompare(a.createdAt ?? a.path));
+}
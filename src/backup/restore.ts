@@ -0,0 +1,274 @@
+import { createWriteStream } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { pipeline } from "node:stream/promises";
+import JSON5 from "json5";
+import { createConfigIO } from "../config/io.js";
+import { resolveConfigPath, resolveStateDir } from "../config/paths.js";
+import { REDACTED_SENTINEL, restoreRedactedValues } from "../config/redact-snapshot.js";
+import { extractArchive, fileExists, type ArchiveExtractLimits } from "../infra/archive.js";
+import { formatErrorMessage } from "../infra/errors.js";
+import {
+  acquireGatewayLock,
+  GatewayLockError,
+  type GatewayLockHandle,
+} from "../infra/gateway-lock.js";
+import {
+  detectLegacyStateMigrations,
+  runLegacyStateMigrations,
+} from "../infra/state-migrations.js";
+import {
+  BACKUP_DIRNAME,
+  BACKUP_EXTERNAL_CONFIG_PATH,
+  BACKUP_STATE_PREFIX,
+  type BackupManifest,
+} from "./manifest.js";
+import { openBackup, verifyBackup } from "./read.js";
+
+const RESTORE_EXTRACT_TIMEOUT_MS = 30 * 60_000;
+const GATEWAY_LOCK_TIMEOUT_MS = 1_000;
+
+export type BackupRestoreOptions = {
+  archivePath: string;
+  passphrase?: string;
+  env?: NodeJS.ProcessEnv;
+  /** Restore even when a running Gateway holds the state dir. */
+  force?: boolean;
+  now?: () => Date;
+};
+
+export type BackupRestoreResult = {
+  stateDir: string;
+  configPath: string;
+  /** Where the replaced state dir was moved (kept until you delete it). */
+  previousStateDir?: string;
+  previousConfigPath?: string;
+  manifest: BackupManifest;
+  migrations: { changes: string[]; warnings: string[] };
+  warnings: string[];
+};
+
+async function readConfigObject(configPath: string): Promise<unknown> {
+  try {
+    return JSON5.parse(await fs.readFile(configPath, "utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+/** Extraction limits from the verified manifest instead of the generic archive defaults. */
+function resolveExtractLimits(manifest: BackupManifest): ArchiveExtractLimits {
+  const dirs = new Set<string>();
+  for (const file of manifest.files) {
+    for (let dir = path.posix.dirname(file.path); dir !== "."; dir = path.posix.dirname(dir)) {
+      dirs.add(dir);
+    }
+  }
+  const manifestBytes = Buffer.byteLength(JSON.stringify(manifest, null, 2)) + 1024;
+  return {
+    maxEntries: manifest.files.length + dirs.size + 1,
+    maxExtractedBytes: manifest.files.reduce((sum, file) => sum + file.size, manifestBytes),
+    maxEntryBytes: manifest.files.reduce((max, file) => Math.max(max, file.size), manifestBytes),
+  };
+}
+
+/** Fills redaction sentinels from the config being replaced, when there is one. */
+async function restoreRedactedConfig(params: {
+  configPath: string;
+  previous: unknown;
+  warnings: string[];
+}): Promise<void> {
+  const raw = await fs.readFile(params.configPath, "utf8").catch(() => null);
+  if (raw === null || !raw.includes(REDACTED_SENTINEL)) {
+    return;
+  }
+  if (params.previous) {
+    const restored = restoreRedactedValues(JSON5.parse(raw), params.previous);
+    if (restored.ok) {
+      await fs.writeFile(params.configPath, `${JSON.stringify(restored.result, null, 2)}\n`);
+    }
+  }
+  const after = await fs.readFile(params.configPath, "utf8");
+  if (after.includes(REDACTED_SENTINEL)) {
+    params.warnings.push(
+      `Config still contains ${REDACTED_SENTINEL} placeholders; re-enter those secrets (openclaw configure).`,
+    );
+  }
+}
+
+/** Puts the pre-restore state dir (and external config) back after a failed restore. */
+async function rollBackRestore(params: {
+  stateDir: string;
+  previousStateDir?: string;
+  /** Set when the previous local backups were moved into the restored state dir. */
+  previousBackups: string | null;
+  /** Set when an external config file was overwritten from the archive. */
+  configPath?: string;
+  previousConfigPath?: string;
+}): Promise<void> {
+  if (params.previousBackups) {
+    await fs.rename(path.join(params.stateDir, BACKUP_DIRNAME), params.previousBackups);
+  }
+  await fs.rm(params.stateDir, { recursive: true, force: true });
+  if (params.previousStateDir) {
+    await fs.rename(params.previousStateDir, params.stateDir);
+  }
+  if (params.configPath) {
+    if (params.previousConfigPath) {
+      await fs.rename(params.previousConfigPath, params.configPath);
+    } else {
+      await fs.rm(params.configPath, { force: true });
+    }
+  }
+}
+
+async function acquireRestoreLock(
+  env: NodeJS.ProcessEnv,
+  force: boolean,
+): Promise<GatewayLockHandle | null> {
+  try {
+    return await acquireGatewayLock({ env, timeoutMs: GATEWAY_LOCK_TIMEOUT_MS });
+  } catch (err) {
+    if (err instanceof GatewayLockError && force) {
+      return null;
+    }
+    if (err instanceof GatewayLockError) {
+      throw new Error(
+        "The Gateway is running; stop it first (openclaw gateway stop) or pass --force.",
+        { cause: err },
+      );
+    }
+    throw err;
+  }
+}
+
+/**
+ * Verifies the archive, then swaps it in for the current state dir (moved
+ * aside, not deleted) and runs legacy state migrations so older backups come
+ * back in the current layout. If any step after the swap fails, the previous
+ * state dir is moved back. Holds the Gateway lock so no Gateway starts
+ * mid-restore.
+ */
+export async function restoreBackup(opts: BackupRestoreOptions): Promise<BackupRestoreResult> {
+  const env = opts.env ?? process.env;
+  const stateDir = resolveStateDir(env);
+  const configPath = resolveConfigPath(env, stateDir);
+  const stamp = (opts.now ?? (() => new Date()))()
+    .toISOString()
+    .replace(/\.\d{3}Z$/, "Z")
+    .replaceAll(":", "-");
+  const lock = await acquireRestoreLock(env, opts.force === true);
+  try {
+    const verified = await verifyBackup({
+      archivePath: opts.archivePath,
+      passphrase: opts.passphrase,
+    });
+    if (!verified.ok || !verified.manifest) {
+      throw new Error(`Backup failed verification: ${verified.problems.slice(0, 5).join("; ")}`);
+    }
+    const manifest = verified.manifest;
+    const warnings: string[] = [];
+
+    const parentDir = path.dirname(stateDir);
+    await fs.mkdir(parentDir, { recursive: true });
+    const stagingDir = await fs.mkdtemp(path.join(parentDir, ".openclaw-restore-"));
+    try {
+      const opened = await openBackup({
+        archivePath: opts.archivePath,
+        passphrase: opts.passphrase,
+      });
+      const plainArchive = path.join(stagingDir, "backup.tar.gz");
+      await pipeline(await opened.openStream(), createWriteStream(plainArchive, { mode: 0o600 }));
+      const extractDir = path.join(stagingDir, "extract");
+      await fs.mkdir(extractDir, { mode: 0o700 });
+      await extractArchive({
+        archivePath: plainArchive,
+        destDir: extractDir,
+        kind: "tar",
+        tarGzip: true,
+        timeoutMs: RESTORE_EXTRACT_TIMEOUT_MS,
+        limits: resolveExtractLimits(manifest),
+      });
+
+      const previousConfig = manifest.redacted ? await readConfigObject(configPath) : undefined;
+      let previousStateDir: string | undefined;
+      if (await fileExists(stateDir)) {
+        previousStateDir = `${stateDir}.pre-restore-${stamp}`;
+        await fs.rename(stateDir, previousStateDir);
+      }
+      const previousBackups = previousStateDir ? path.join(previousStateDir, BACKUP_DIRNAME) : null;
+      let movedBackups = false;
+      let previousConfigPath: string | undefined;
+      let replacedConfig = false;
+      try {
+        const restoredState = path.join(extractDir, BACKUP_STATE_PREFIX);
+        if (await fileExists(restoredState)) {
+          await fs.rename(restoredState, stateDir);
+        } else {
+          await fs.mkdir(stateDir, { recursive: true, mode: 0o700 });
+        }
+        // Keep local backups reachable from the restored state dir.
+        if (previousBackups && (await fileExists(previousBackups))) {
+          await fs.rename(previousBackups, path.join(stateDir, BACKUP_DIRNAME));
+          movedBackups = true;
+        }
+
+        const externalConfig = path.join(extractDir, BACKUP_EXTERNAL_CONFIG_PATH);
+        if (await fileExists(externalConfig)) {
+          if (await fileExists(configPath)) {
+            previousConfigPath = `${configPath}.pre-restore-${stamp}`;
+            await fs.copyFile(configPath, previousConfigPath);
+          }
+          await fs.mkdir(path.dirname(configPath), { recursive: true });
+          replacedConfig = true;
+          await fs.copyFile(externalConfig, configPath);
+        } else if (!(await fileExists(configPath))) {
+          warnings.push(`No config at ${configPath} after restore; run openclaw onboard.`);
+        }
+        if (manifest.redacted) {
+          await restoreRedactedConfig({ configPath, previous: previousConfig, warnings });
+          warnings.push(
+            "Backup was redacted: re-run channel logins and auth for missing credentials.",
+          );
+        }
+
+        const snapshot = await createConfigIO({ env, configPath }).readConfigFileSnapshot();
+        if (!snapshot.valid) {
+          warnings.push("Restored config is invalid; run openclaw doctor.");
+        }
+        const detected = await detectLegacyStateMigrations({ cfg: snapshot.config, env });
+        const migrations = await runLegacyStateMigrations({ detected });
+
+        return {
+          stateDir,
+          configPath,
+          previousStateDir,
+          previousConfigPath,
+          manifest,
+          migrations,
+          warnings,
+        };
+      } catch (err) {
+        try {
+          await rollBackRestore({
+            stateDir,
+            previousStateDir,
+            previousBackups: movedBackups ? previousBackups : null,
+            configPath: replacedConfig ? configPath : undefined,
+            previousConfigPath,
+          });
+        } catch (rollbackErr) {
+          throw new Error(
+            `Restore failed (${formatErrorMessage(err)}) and could not be rolled back${previousStateDir ? `; the previous state is in ${previousStateDir}` : ""}.`,
+            { cause: rollbackErr },
+          );
+        }
+        throw err;
+      }
+    } finally {
+      await fs.rm(stagingDir, { recursive: true, force: true });
+    }
+  } finally {
+    await lock?.release();
+  }
+}
@@ -1,35 +1,11 @@
 import type { Command } from "commander";
 import { runAcpClientInteractive } from "../acp/client.js";
-import { readSecretFromFile } from "../acp/secret-file.js";
 import { serveAcpGateway } from "../acp/server.js";
 import { defaultRuntime } from "../runtime.js";
 import { formatDocsLink } from "../terminal/links.js";
 import { theme } from "../terminal/theme.js";
 import { inheritOptionFromParent } from "./command-options.js";
-
-function resolveSecretOption(params: {
-  direct?: string;
-  file?: string;
-  directFlag: string;
-  fileFlag: string;
-  label: string;
-}) {
-  const direct = params.direct?.trim();
-  const file = params.file?.trim();
-  if (direct && file) {
-    throw new Error(`Use either ${params.directFlag} or ${params.fileFlag} for ${params.label}.`);
-  }
-  if (file) {
-    return readSecretFromFile(file, params.label);
-  }
-  return direct || undefined;
-}
-
-function warnSecretCliFlag(flag: "--token" | "--password") {
-  defaultRuntime.error(
-    `Warning: ${flag} can be exposed via process listings. Prefer ${flag}-file or environment variables.`,
-  );
-}
+import { resolveGatewaySecretOptions } from "./gateway-secret-options.js";
 
 export function registerAcpCli(program: Command) {
   const acp = program.command("acp").description("Run an ACP bridge backed by the Gateway");
@@ -52,26 +28,12 @@ export function registerAcpCli(program: Command) {
     )
     .action(async (opts) => {
       try {
-        const gatewayToken = resolveSecretOption({
-          direct: opts.token as string | undefined,
-          file: opts.tokenFile as string | undefined,
-          directFlag: "--token",
-          fileFlag: "--token-file",
-          label: "Gateway token",
-        });
-        const gatewayPassword = resolveSecretOption({
-          direct: opts.password as string | undefined,
-          file: opts.passwordFile as string | undefined,
-          directFlag: "--password",
-          fileFlag: "--password-file",
-          label: "Gateway password",
+        const { token: gatewayToken, password: gatewayPassword } = resolveGatewaySecretOptions({
+          token: opts.token as string | undefined,
+          tokenFile: opts.tokenFile as string | undefined,
+          password: opts.password as string | undefined,
+          passwordFile: opts.passwordFile as string | undefined,
         });
-        if (opts.token) {
-          warnSecretCliFlag("--token");
-        }
-        if (opts.password) {
-          warnSecretCliFlag("--password");
-        }
         await serveAcpGateway({
           gatewayUrl: opts.url as string | undefined,
           gatewayToken,
@@ -0,0 +1,266 @@
+import { confirm } from "@clack/prompts";
+import type { Command } from "commander";
+import { readSecretFromFile } from "../acp/secret-file.js";
+import { createBackup } from "../backup/create.js";
+import { BACKUP_PASSPHRASE_ENV } from "../backup/crypto.js";
+import { listBackups, verifyBackup } from "../backup/read.js";
+import { restoreBackup } from "../backup/restore.js";
+import { danger } from "../globals.js";
+import { defaultRuntime } from "../runtime.js";
+import { formatDocsLink } from "../terminal/links.js";
+import { theme } from "../terminal/theme.js";
+import { shortenHomePath } from "../utils.js";
+
+type BackupPassphraseOptions = { passphraseFile?: string };
+type BackupCreateCliOptions = BackupPassphraseOptions & {
+  output?: string;
+  encrypt?: boolean;
+  redactSecrets?: boolean;
+  json?: boolean;
+};
+type BackupListCliOptions = { dir?: string; json?: boolean };
+type BackupVerifyCliOptions = BackupPassphraseOptions & { json?: boolean };
+type BackupRestoreCliOptions = BackupPassphraseOptions & {
+  force?: boolean;
+  yes?: boolean;
+  json?: boolean;
+};
+
+function resolvePassphrase(opts: BackupPassphraseOptions): string | undefined {
+  if (opts.passphraseFile?.trim()) {
+    return readSecretFromFile(opts.passphraseFile, "Backup passphrase");
+  }
+  return process.env[BACKUP_PASSPHRASE_ENV]?.trim() || undefined;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function logWarnings(warnings: string[]) {
+  for (const warning of warnings) {
+    defaultRuntime.log(theme.warn(`- warning: ${warning}`));
+  }
+}
+
+export function registerBackupCli(program: Command) {
+  const backup = program
+    .command("backup")
+    .description("Back up and restore OpenClaw state, config, and credentials")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.muted("Docs:")} ${formatDocsLink("/cli/backup", "docs.openclaw.ai/cli/backup")}\n`,
+    );
+
+  backup
+    .command("create")
+    .description("Write a backup archive (safe while the Gateway is running)")
+    .option("--output <path>", "Output directory or archive path (default: <state dir>/backups)")
+    .option(
+      "--encrypt",
+      `Encrypt the archive (passphrase from --passphrase-file or ${BACKUP_PASSPHRASE_ENV})`,
+      false,
+    )
+    .option("--passphrase-file <path>", "Read the encryption passphrase from a file")
+    .option("--redact-secrets", "Leave credentials out and redact secrets in the config", false)
+    .option("--json", "Output JSON", false)
+    .action(async (opts: BackupCreateCliOptions) => {
+      try {
+        const passphrase = resolvePassphrase(opts);
+        if (opts.encrypt && !passphrase) {
+          throw new Error(
+            `--encrypt needs a passphrase: pass --passphrase-file or set ${BACKUP_PASSPHRASE_ENV}.`,
+          );
+        }
+        const result = await createBackup({
+          output: opts.output,
+          passphrase: opts.encrypt ? passphrase : undefined,
+          redactSecrets: Boolean(opts.redactSecrets),
+        });
+        if (opts.json) {
+          defaultRuntime.log(
+            JSON.stringify(
+              {
+                path: result.path,
+                bytes: result.bytes,
+                encrypted: result.encrypted,
+                redacted: result.manifest.redacted,
+                files: result.manifest.files.length,
+                redactedPaths: result.redactedPaths,
+                warnings: result.warnings,
+              },
+              null,
+              2,
+            ),
+          );
+          return;
+        }
+        defaultRuntime.log(
+          `${theme.success("Backup written:")} ${shortenHomePath(result.path)} (${result.manifest.files.length} files, ${formatBytes(result.bytes)}${result.encrypted ? ", encrypted" : ""})`,
+        );
+        if (result.redactedPaths.length > 0) {
+          defaultRuntime.log(
+            theme.muted(`Left out ${result.redactedPaths.length} credential file(s) (redacted).`),
+          );
+        }
+        logWarnings(result.warnings);
+      } catch (err) {
+        defaultRuntime.error(danger(String(err)));
+        defaultRuntime.exit(1);
+      }
+    });
+
+  backup
+    .command("list")
+    .description("List backups in the backup directory")
+    .option("--dir <path>", "Directory to scan (default: <state dir>/backups)")
+    .option("--json", "Output JSON", false)
+    .action(async (opts: BackupListCliOptions) => {
+      try {
+        const entries = await listBackups({ dir: opts.dir });
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify({ backups: entries }, null, 2));
+          return;
+        }
+        if (entries.length === 0) {
+          defaultRuntime.log(theme.muted("No backups found."));
+          return;
+        }
+        for (const entry of entries) {
+          const details = [
+            entry.createdAt ?? "unknown date",
+            formatBytes(entry.bytes),
+            entry.openclawVersion ? `v${entry.openclawVersion}` : null,
+            entry.fileCount !== undefined ? `${entry.fileCount} files` : null,
+            entry.encrypted ? "encrypted" : null,
+            entry.redacted ? "redacted" : null,
+          ].filter(Boolean);
+          defaultRuntime.log(`${shortenHomePath(entry.path)} ${theme.muted(details.join(", "))}`);
+          if (entry.error) {
+            defaultRuntime.log(theme.warn(`  ${entry.error}`));
+          }
+        }
+      } catch (err) {
+        defaultRuntime.error(danger(String(err)));
+        defaultRuntime.exit(1);
+      }
+    });
+
+  backup
+    .command("verify")
+    .description("Check a backup archive against its manifest checksums")
+    .argument("<archive>", "Backup archive path")
+    .option("--passphrase-file <path>", "Read the decryption passphrase from a file")
+    .option("--json", "Output JSON", false)
+    .action(async (archive: string, opts: BackupVerifyCliOptions) => {
+      try {
+        const result = await verifyBackup({
+          archivePath: archive,
+          passphrase: resolvePassphrase(opts),
+        });
+        if (opts.json) {
+          defaultRuntime.log(
+            JSON.stringify(
+              {
+                ok: result.ok,
+                encrypted: result.encrypted,
+                createdAt: result.manifest?.createdAt,
+                openclawVersion: result.manifest?.openclawVersion,
+                checkedFiles: result.checkedFiles,
+                problems: result.problems,
+              },
+              null,
+              2,
+            ),
+          );
+        } else if (result.ok) {
+          defaultRuntime.log(
+            `${theme.success("Backup OK:")} ${result.checkedFiles} files verified${result.manifest ? ` (created ${result.manifest.createdAt})` : ""}.`,
+          );
+        } else {
+          defaultRuntime.log(theme.error(`Backup failed verification:`));
+          for (const problem of result.problems.slice(0, 20)) {
+            defaultRuntime.log(`- ${problem}`);
+          }
+          if (result.problems.length > 20) {
+            defaultRuntime.log(`... ${result.problems.length - 20} more problem(s).`);
+          }
+        }
+        if (!result.ok) {
+          defaultRuntime.exit(1);
+        }
+      } catch (err) {
+        defaultRuntime.error(danger(String(err)));
+        defaultRuntime.exit(1);
+      }
+    });
+
+  backup
+    .command("restore")
+    .description("Replace the current state dir with a backup, then run state migrations")
+    .argument("<archive>", "Backup archive path")
+    .option("--passphrase-file <path>", "Read the decryption passphrase from a file")
+    .option("--force", "Restore even while a Gateway holds the state dir", false)
+    .option("--yes", "Skip the confirmation prompt", false)
+    .option("--json", "Output JSON", false)
+    .action(async (archive: string, opts: BackupRestoreCliOptions) => {
+      try {
+        if (!opts.yes && !opts.json) {
+          const confirmed = await confirm({
+            message:
+              "Replace the current OpenClaw state with this backup? (The current state dir is kept alongside.)",
+            initialValue: false,
+          });
+          if (confirmed !== true) {
+            defaultRuntime.log("Restore cancelled.");
+            return;
+          }
+        }
+        const result = await restoreBackup({
+          archivePath: archive,
+          passphrase: resolvePassphrase(opts),
+          force: Boolean(opts.force),
+        });
+        if (opts.json) {
+          defaultRuntime.log(
+            JSON.stringify(
+              {
+                stateDir: result.stateDir,
+                configPath: result.configPath,
+                previousStateDir: result.previousStateDir,
+                previousConfigPath: result.previousConfigPath,
+                createdAt: result.manifest.createdAt,
+                migrations: result.migrations,
+                warnings: result.warnings,
+              },
+              null,
+              2,
+            ),
+          );
+          return;
+        }
+        defaultRuntime.log(
+          `${theme.success("Restored")} backup from ${result.manifest.createdAt} into ${shortenHomePath(result.stateDir)}.`,
+        );
+        if (result.previousStateDir) {
+          defaultRuntime.log(
+            theme.muted(`Previous state kept at ${shortenHomePath(result.previousStateDir)}.`),
+          );
+        }
+        for (const change of result.migrations.changes) {
+          defaultRuntime.log(`- migrated: ${change}`);
+        }
+        logWarnings([...result.migrations.warnings, ...result.warnings]);
+      } catch (err) {
+        defaultRuntime.error(danger(String(err)));
+        defaultRuntime.exit(1);
+      }
+    });
+}
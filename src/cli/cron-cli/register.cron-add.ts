@@ -9,6 +9,7 @@ import { parsePositiveIntOrUndefined } from "../program/helpers.js";
 import {
   getCronChannelOptions,
   parseAt,
+  parseCronDependencies,
   parseDurationMs,
   printCronList,
   warnIfCronSchedulerDisabled,
@@ -76,6 +77,10 @@ export function registerCronAddCommand(cron: Command) {
       .option("--at <when>", "Run once at time (ISO) or +duration (e.g. 20m)")
       .option("--every <duration>", "Run every duration (e.g. 10m, 1h)")
       .option("--cron <expr>", "Cron expression (5-field or 6-field with seconds)")
+      .option(
+        "--after <jobs>",
+        "Run after upstream jobs finish (jobId[:success|failure|always], comma-separated)",
+      )
       .option("--tz <iana>", "Timezone for cron expressions (IANA)", "")
       .option("--stagger <duration>", "Cron stagger window (e.g. 30s, 5m)")
       .option("--exact", "Disable cron staggering (set stagger to 0)", false)
@@ -106,9 +111,12 @@ export function registerCronAddCommand(cron: Command) {
             const at = typeof opts.at === "string" ? opts.at : "";
             const every = typeof opts.every === "string" ? opts.every : "";
             const cronExpr = typeof opts.cron === "string" ? opts.cron : "";
-            const chosen = [Boolean(at), Boolean(every), Boolean(cronExpr)].filter(Boolean).length;
+            const after = typeof opts.after === "string" ? opts.after : "";
+            const chosen = [Boolean(at), Boolean(every), Boolean(cronExpr), Boolean(after)].filter(
+              Boolean,
+            ).length;
             if (chosen !== 1) {
-              throw new Error("Choose exactly one schedule: --at, --every, or --cron");
+              throw new Error("Choose exactly one schedule: --at, --every, --cron, or --after");
             }
             if ((useExact || staggerRaw) && !cronExpr) {
               throw new Error("--stagger/--exact are only valid with --cron");
@@ -127,6 +135,13 @@ export function registerCronAddCommand(cron: Command) {
               }
               return { kind: "every" as const, everyMs };
             }
+            if (after) {
+              const dependsOn = parseCronDependencies(after);
+              if (!dependsOn) {
+                throw new Error("Invalid --after; use jobId or jobId:success|failure|always");
+              }
+              return { kind: "after" as const, dependsOn };
+            }
             const staggerMs = (() => {
               if (useExact) {
                 return 0;
@@ -1,7 +1,12 @@
 import { listChannelPlugins } from "../../channels/plugins/index.js";
 import { parseAbsoluteTimeMs } from "../../cron/parse.js";
 import { resolveCronStaggerMs } from "../../cron/stagger.js";
-import type { CronJob, CronSchedule } from "../../cron/types.js";
+import type {
+  CronDependencyCondition,
+  CronJob,
+  CronJobDependency,
+  CronSchedule,
+} from "../../cron/types.js";
 import { formatDurationHuman } from "../../infra/format-time/format-duration.ts";
 import { defaultRuntime } from "../../runtime.js";
 import { colorize, isRich, theme } from "../../terminal/theme.js";
@@ -78,6 +83,36 @@ export function parseAt(input: string): string | null {
   return null;
 }
 
+const CRON_DEPENDENCY_CONDITIONS: ReadonlySet<string> = new Set(["always", "success", "failure"]);
+
+/** Parse `jobId[:success|failure|always]` entries separated by commas. */
+export function parseCronDependencies(input: string): CronJobDependency[] | null {
+  const entries = input
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (entries.length === 0) {
+    return null;
+  }
+  const deps: CronJobDependency[] = [];
+  for (const entry of entries) {
+    const sep = entry.lastIndexOf(":");
+    const jobId = (sep === -1 ? entry : entry.slice(0, sep)).trim();
+    const on =
+      sep === -1
+        ? ""
+        : entry
+            .slice(sep + 1)
+            .trim()
+            .toLowerCase();
+    if (!jobId || (on && !CRON_DEPENDENCY_CONDITIONS.has(on))) {
+      return null;
+    }
+    deps.push(on ? { jobId, on: on as CronDependencyCondition } : { jobId });
+  }
+  return deps;
+}
+
 const CRON_ID_PAD = 36;
 const CRON_NAME_PAD = 24;
 const CRON_SCHEDULE_PAD = 32;
@@ -138,6 +173,12 @@ const formatSchedule = (schedule: CronSchedule) => {
   if (schedule.kind === "every") {
     return `every ${formatDurationHuman(schedule.everyMs)}`;
   }
+  if (schedule.kind === "after") {
+    const upstream = schedule.dependsOn.map((dep) =>
+      dep.on && dep.on !== "success" ? `${dep.jobId} (${dep.on})` : dep.jobId,
+    );
+    return `after ${upstream.join(", ")}`;
+  }
   const base = schedule.tz ? `cron ${schedule.expr} @ ${schedule.tz}` : `cron ${schedule.expr}`;
   const staggerMs = resolveCronStaggerMs(schedule);
   if (staggerMs <= 0) {
@@ -205,6 +205,43 @@ describe("devices cli tokens", () => {
         },
       },
     },
+    {
+      label: "rotates a token with agent, session and method restrictions",
+      argv: [
+        "rotate",
+        "--device",
+        "device-1",
+        "--role",
+        "operator",
+        "--agent",
+        "team-a",
+        "--session-prefix",
+        "agent:team-a:",
+        "--method",
+        "chat.*",
+        "agent",
+      ],
+      expectedCall: {
+        method: "device.token.rotate",
+        params: {
+          deviceId: "device-1",
+          role: "operator",
+          restrictions: {
+            agents: ["team-a"],
+            sessionKeyPrefix: "agent:team-a:",
+            methods: ["chat.*", "agent"],
+          },
+        },
+      },
+    },
+    {
+      label: "clears token restrictions",
+      argv: ["rotate", "--device", "device-1", "--role", "operator", "--unrestricted"],
+      expectedCall: {
+        method: "device.token.rotate",
+        params: { deviceId: "device-1", role: "operator", restrictions: {} },
+      },
+    },
     {
       label: "revokes a token for a device role",
       argv: ["revoke", "--device", "device-1", "--role", "main"],
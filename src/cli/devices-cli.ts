@@ -26,6 +26,10 @@ type DevicesRpcOpts = {
   device?: string;
   role?: string;
   scope?: string[];
+  agent?: string[];
+  sessionPrefix?: string;
+  method?: string[];
+  unrestricted?: boolean;
 };
 
 type DeviceTokenSummary = {
@@ -210,6 +214,31 @@ function resolveRequiredDeviceRole(
   return null;
 }
 
+function resolveTokenRestrictions(
+  opts: DevicesRpcOpts,
+): { agents?: string[]; sessionKeyPrefix?: string; methods?: string[] } | undefined | null {
+  const sessionKeyPrefix = opts.sessionPrefix?.trim() || undefined;
+  const restricted = Boolean(opts.agent?.length || sessionKeyPrefix || opts.method?.length);
+  if (opts.unrestricted) {
+    if (restricted) {
+      defaultRuntime.error(
+        "--unrestricted cannot be combined with --agent/--session-prefix/--method",
+      );
+      defaultRuntime.exit(1);
+      return null;
+    }
+    return {};
+  }
+  if (!restricted) {
+    return undefined;
+  }
+  return {
+    ...(opts.agent?.length ? { agents: opts.agent } : {}),
+    ...(sessionKeyPrefix ? { sessionKeyPrefix } : {}),
+    ...(opts.method?.length ? { methods: opts.method } : {}),
+  };
+}
+
 export function registerDevicesCli(program: Command) {
   const devices = program.command("devices").description("Device pairing and auth tokens");
 
@@ -418,15 +447,27 @@ export function registerDevicesCli(program: Command) {
       .requiredOption("--device <id>", "Device id")
       .requiredOption("--role <role>", "Role name")
       .option("--scope <scope...>", "Scopes to attach to the token (repeatable)")
+      .option("--agent <id...>", "Restrict the token to these agent ids (repeatable)")
+      .option("--session-prefix <prefix>", "Restrict the token to session keys with this prefix")
+      .option(
+        "--method <method...>",
+        "Restrict the token to these methods, e.g. chat.* (repeatable)",
+      )
+      .option("--unrestricted", "Clear agent/session/method restrictions from the token", false)
       .action(async (opts: DevicesRpcOpts) => {
         const required = resolveRequiredDeviceRole(opts);
         if (!required) {
           return;
         }
+        const restrictions = resolveTokenRestrictions(opts);
+        if (restrictions === null) {
+          return;
+        }
         const result = await callGatewayCli("device.token.rotate", opts, {
           deviceId: required.deviceId,
           role: required.role,
           scopes: Array.isArray(opts.scope) ? opts.scope : undefined,
+          ...(restrictions ? { restrictions } : {}),
         });
         defaultRuntime.log(JSON.stringify(result, null, 2));
       }),
@@ -0,0 +1,56 @@
+import { readSecretFromFile } from "../acp/secret-file.js";
+import { defaultRuntime } from "../runtime.js";
+
+export function resolveSecretOption(params: {
+  direct?: string;
+  file?: string;
+  directFlag: string;
+  fileFlag: string;
+  label: string;
+}) {
+  const direct = params.direct?.trim();
+  const file = params.file?.trim();
+  if (direct && file) {
+    throw new Error(`Use either ${params.directFlag} or ${params.fileFlag} for ${params.label}.`);
+  }
+  if (file) {
+    return readSecretFromFile(file, params.label);
+  }
+  return direct || undefined;
+}
+
+export function warnSecretCliFlag(flag: "--token" | "--password") {
+  defaultRuntime.error(
+    `Warning: ${flag} can be exposed via process listings. Prefer ${flag}-file or environment variables.`,
+  );
+}
+
+/** Shared `--token`/`--password` (+ `-file`) handling for Gateway client commands. */
+export function resolveGatewaySecretOptions(opts: {
+  token?: string;
+  tokenFile?: string;
+  password?: string;
+  passwordFile?: string;
+}): { token?: string; password?: string } {
+  const token = resolveSecretOption({
+    direct: opts.token,
+    file: opts.tokenFile,
+    directFlag: "--token",
+    fileFlag: "--token-file",
+    label: "Gateway token",
+  });
+  const password = resolveSecretOption({
+    direct: opts.password,
+    file: opts.passwordFile,
+    directFlag: "--password",
+    fileFlag: "--password-file",
+    label: "Gateway password",
+  });
+  if (opts.token) {
+    warnSecretCliFlag("--token");
+  }
+  if (opts.password) {
+    warnSecretCliFlag("--password");
+  }
+  return { token, password };
+}
@@ -0,0 +1,47 @@
+import type { Command } from "commander";
+import { serveMcpStdio } from "../mcp/serve.js";
+import { defaultRuntime } from "../runtime.js";
+import { formatDocsLink } from "../terminal/links.js";
+import { theme } from "../terminal/theme.js";
+import { resolveGatewaySecretOptions } from "./gateway-secret-options.js";
+
+export function registerMcpCli(program: Command) {
+  const mcp = program
+    .command("mcp")
+    .description("Model Context Protocol integration")
+    .addHelpText(
+      "after",
+      () => `\n${theme.muted("Docs:")} ${formatDocsLink("/cli/mcp", "docs.openclaw.ai/cli/mcp")}\n`,
+    );
+
+  mcp
+    .command("serve")
+    .description("Serve Gateway tools to an MCP client over stdio")
+    .option("--url <url>", "Gateway WebSocket URL (defaults to gateway.remote.url when configured)")
+    .option("--token <token>", "Gateway token (if required)")
+    .option("--token-file <path>", "Read gateway token from file")
+    .option("--password <password>", "Gateway password (if required)")
+    .option("--password-file <path>", "Read gateway password from file")
+    .option("--session <key>", "Session key whose tool policy applies (default: main session)")
+    .option("--agent <id>", "Agent id whose main session policy applies")
+    .action(async (opts) => {
+      try {
+        const { token, password } = resolveGatewaySecretOptions({
+          token: opts.token as string | undefined,
+          tokenFile: opts.tokenFile as string | undefined,
+          password: opts.password as string | undefined,
+          passwordFile: opts.passwordFile as string | undefined,
+        });
+        await serveMcpStdio({
+          gatewayUrl: opts.url as string | undefined,
+          gatewayToken: token,
+          gatewayPassword: password,
+          sessionKey: opts.session as string | undefined,
+          agentId: opts.agent as string | undefined,
+        });
+      } catch (err) {
+        defaultRuntime.error(String(err));
+        defaultRuntime.exit(1);
+      }
+    });
+}
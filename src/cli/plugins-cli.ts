@@ -313,6 +313,16 @@ export function registerPluginsCli(program: Command) {
       if (plugin.providerIds.length > 0) {
         lines.push(`${theme.muted("Providers:")} ${plugin.providerIds.join(", ")}`);
       }
+      if (plugin.webSearchProviderIds.length > 0) {
+        lines.push(
+          `${theme.muted("Web search providers:")} ${plugin.webSearchProviderIds.join(", ")}`,
+        );
+      }
+      if (plugin.webFetchProviderIds.length > 0) {
+        lines.push(
+          `${theme.muted("Web fetch providers:")} ${plugin.webFetchProviderIds.join(", ")}`,
+        );
+      }
       if (plugin.cliCommands.length > 0) {
         lines.push(`${theme.muted("CLI commands:")} ${plugin.cliCommands.join(", ")}`);
       }
@@ -29,7 +29,8 @@ const PLUGIN_REQUIRED_COMMANDS = new Set([
   "configure",
   "onboard",
 ]);
-const CONFIG_GUARD_BYPASS_COMMANDS = new Set(["doctor", "completion", "secrets"]);
+// `backup` must keep working when the config is broken, since restoring is the fix.
+const CONFIG_GUARD_BYPASS_COMMANDS = new Set(["doctor", "completion", "secrets", "backup"]);
 
 function getRootCommand(command: Command): Command {
   let current = command;
@@ -5,6 +5,7 @@ const statusCommand = vi.fn();
 const healthCommand = vi.fn();
 const sessionsCommand = vi.fn();
 const sessionsCleanupCommand = vi.fn();
+const sessionsSearchCommand = vi.fn();
 const setVerbose = vi.fn();
 
 const runtime = {
@@ -29,6 +30,10 @@ vi.mock("../../commands/sessions-cleanup.js", () => ({
   sessionsCleanupCommand,
 }));
 
+vi.mock("../../commands/sessions-search.js", () => ({
+  sessionsSearchCommand,
+}));
+
 vi.mock("../../globals.js", () => ({
   setVerbose,
 }));
@@ -56,6 +61,7 @@ describe("registerStatusHealthSessionsCommands", () => {
     healthCommand.mockResolvedValue(undefined);
     sessionsCommand.mockResolvedValue(undefined);
     sessionsCleanupCommand.mockResolvedValue(undefined);
+    sessionsSearchCommand.mockResolvedValue(undefined);
   });
 
   it("runs status command with timeout and debug-derived verbose", async () => {
@@ -202,4 +208,37 @@ describe("registerStatusHealthSessionsCommands", () => {
       runtime,
     );
   });
+
+  it("runs sessions search subcommand with filters and parent-level agent", async () => {
+    await runCli([
+      "sessions",
+      "--agent",
+      "work",
+      "search",
+      "vpn cert",
+      "--channel",
+      "telegram",
+      "--tool",
+      "exec",
+      "--from",
+      "2026-01-01",
+      "--limit",
+      "5",
+      "--json",
+    ]);
+
+    expect(sessionsSearchCommand).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query: "vpn cert",
+        agent: "work",
+        channel: "telegram",
+        tool: "exec",
+        from: "2026-01-01",
+        to: undefined,
+        limit: "5",
+        json: true,
+      }),
+      runtime,
+    );
+  });
 });
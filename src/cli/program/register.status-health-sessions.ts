@@ -1,6 +1,7 @@
 import type { Command } from "commander";
 import { healthCommand } from "../../commands/health.js";
 import { sessionsCleanupCommand } from "../../commands/sessions-cleanup.js";
+import { sessionsSearchCommand } from "../../commands/sessions-search.js";
 import { sessionsCommand } from "../../commands/sessions.js";
 import { statusCommand } from "../../commands/status.js";
 import { setVerbose } from "../../globals.js";
@@ -213,4 +214,48 @@ export function registerStatusHealthSessionsCommands(program: Command) {
         );
       });
     });
+
+  sessionsCmd
+    .command("search")
+    .description("Full-text search across session transcripts")
+    .argument("<query>", "Words to search for (all must match)")
+    .option("--agent <id>", "Only sessions of this agent")
+    .option("--channel <id>", "Only sessions on this channel (telegram, discord, ...)")
+    .option("--role <role>", "Only user, assistant or tool messages")
+    .option("--tool <name>", "Only calls/results of this tool")
+    .option("--from <date>", "First day to include (YYYY-MM-DD, UTC)")
+    .option("--to <date>", "Last day to include (YYYY-MM-DD, UTC)")
+    .option("--limit <n>", "Maximum matches (default 20, max 200)")
+    .option("--json", "Output JSON", false)
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.heading("Examples:")}\n${formatHelpExamples([
+          ['openclaw sessions search "vpn cert"', "Find conversations mentioning both words."],
+          ["openclaw sessions search deploy --tool exec", "Only exec tool calls/results."],
+          [
+            "openclaw sessions search invoice --channel telegram --from 2026-01-01",
+            "Telegram sessions since January.",
+          ],
+        ])}`,
+    )
+    .action(async (query: string, opts, command) => {
+      const parentOpts = command.parent?.opts() as { agent?: string; json?: boolean } | undefined;
+      await runCommandWithRuntime(defaultRuntime, async () => {
+        await sessionsSearchCommand(
+          {
+            query,
+            agent: (opts.agent as string | undefined) ?? parentOpts?.agent,
+            channel: opts.channel as string | undefined,
+            role: opts.role as string | undefined,
+            tool: opts.tool as string | undefined,
+            from: opts.from as string | undefined,
+            to: opts.to as string | undefined,
+            limit: opts.limit as string | undefined,
+            json: Boolean(opts.json || parentOpts?.json),
+          },
+          defaultRuntime,
+        );
+      });
+    });
 }
@@ -46,6 +46,15 @@ const entries: SubCliEntry[] = [
       mod.registerAcpCli(program);
     },
   },
+  {
+    name: "mcp",
+    description: "Model Context Protocol integration",
+    hasSubcommands: true,
+    register: async (program) => {
+      const mod = await import("../mcp-cli.js");
+      mod.registerMcpCli(program);
+    },
+  },
   {
     name: "gateway",
     description: "Run, inspect, and query the WebSocket Gateway",
@@ -269,6 +278,15 @@ const entries: SubCliEntry[] = [
       mod.registerSecretsCli(program);
     },
   },
+  {
+    name: "backup",
+    description: "Back up and restore OpenClaw state",
+    hasSubcommands: true,
+    register: async (program) => {
+      const mod = await import("../backup-cli.js");
+      mod.registerBackupCli(program);
+    },
+  },
   {
     name: "skills",
     description: "List and inspect available skills",
@@ -7,6 +7,7 @@ const runSecretsAudit = vi.fn();
 const resolveSecretsAuditExitCode = vi.fn();
 const runSecretsConfigureInteractive = vi.fn();
 const runSecretsApply = vi.fn();
+const runSecretsEncrypt = vi.fn();
 const confirm = vi.fn();
 
 const { defaultRuntime, runtimeLogs, runtimeErrors, resetRuntimeCapture } =
@@ -32,6 +33,10 @@ vi.mock("../secrets/configure.js", () => ({
   runSecretsConfigureInteractive: () => runSecretsConfigureInteractive(),
 }));
 
+vi.mock("../secrets/encrypt.js", () => ({
+  runSecretsEncrypt: (options: unknown) => runSecretsEncrypt(options),
+}));
+
 vi.mock("../secrets/apply.js", () => ({
   runSecretsApply: (options: unknown) => runSecretsApply(options),
 }));
@@ -57,6 +62,7 @@ describe("secrets CLI", () => {
     resolveSecretsAuditExitCode.mockReset();
     runSecretsConfigureInteractive.mockReset();
     runSecretsApply.mockReset();
+    runSecretsEncrypt.mockReset();
     confirm.mockReset();
   });
 
@@ -101,6 +107,25 @@ describe("secrets CLI", () => {
     expect(resolveSecretsAuditExitCode).toHaveBeenCalledWith(expect.anything(), true);
   });
 
+  it("encrypts a plaintext secrets file for an encrypted provider", async () => {
+    runSecretsEncrypt.mockResolvedValue({
+      provider: "vaultfile",
+      path: "/tmp/secrets.enc.json",
+      replaced: false,
+    });
+    await createProgram().parseAsync(
+      ["secrets", "encrypt", "--provider", "vaultfile", "--input", "/tmp/secrets.json"],
+      { from: "user" },
+    );
+    expect(runSecretsEncrypt).toHaveBeenCalledWith({
+      provider: "vaultfile",
+      input: "/tmp/secrets.json",
+      force: false,
+    });
+    expect(runtimeLogs.at(-1)).toContain("Wrote /tmp/secrets.enc.json.");
+    expect(runtimeErrors).toHaveLength(0);
+  });
+
   it("runs secrets configure then apply when confirmed", async () => {
     runSecretsConfigureInteractive.mockResolvedValue({
       plan: {
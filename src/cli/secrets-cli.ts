@@ -6,6 +6,7 @@ import { defaultRuntime } from "../runtime.js";
 import { runSecretsApply } from "../secrets/apply.js";
 import { resolveSecretsAuditExitCode, runSecretsAudit } from "../secrets/audit.js";
 import { runSecretsConfigureInteractive } from "../secrets/configure.js";
+import { runSecretsEncrypt } from "../secrets/encrypt.js";
 import { isSecretsApplyPlan, type SecretsApplyPlan } from "../secrets/plan.js";
 import { formatDocsLink } from "../terminal/links.js";
 import { theme } from "../terminal/theme.js";
@@ -24,6 +25,12 @@ type SecretsConfigureOptions = {
   skipProviderSetup?: boolean;
   json?: boolean;
 };
+type SecretsEncryptOptions = {
+  provider: string;
+  input: string;
+  force?: boolean;
+  json?: boolean;
+};
 type SecretsApplyOptions = {
   from: string;
   dryRun?: boolean;
@@ -242,4 +249,31 @@ export function registerSecretsCli(program: Command) {
         defaultRuntime.exit(1);
       }
     });
+
+  secrets
+    .command("encrypt")
+    .description("Encrypt a plaintext JSON secrets file for an encrypted provider")
+    .requiredOption("--provider <alias>", "Encrypted provider alias (secrets.providers.<alias>)")
+    .requiredOption("--input <path>", "Plaintext JSON secrets file")
+    .option("--force", "Replace an existing encrypted file", false)
+    .option("--json", "Output JSON", false)
+    .action(async (opts: SecretsEncryptOptions) => {
+      try {
+        const result = await runSecretsEncrypt({
+          provider: opts.provider,
+          input: opts.input,
+          force: Boolean(opts.force),
+        });
+        if (opts.json) {
+          defaultRuntime.log(JSON.stringify(result, null, 2));
+          return;
+        }
+        defaultRuntime.log(
+          `${result.replaced ? "Replaced" : "Wrote"} ${result.path}. Delete the plaintext input once refs resolve (openclaw secrets audit).`,
+        );
+      } catch (err) {
+        defaultRuntime.error(danger(String(err)));
+        defaultRuntime.exit(1);
+      }
+    });
 }
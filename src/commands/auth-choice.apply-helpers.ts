@@ -5,6 +5,7 @@ import { encodeJsonPointerToken } from "../secrets/json-pointer.js";
 import { PROVIDER_ENV_VARS } from "../secrets/provider-env-vars.js";
 import {
   isValidFileSecretRefId,
+  isValidJsonPointerSecretRefId,
   resolveDefaultSecretProviderAlias,
 } from "../secrets/ref-contract.js";
 import { resolveSecretRefString } from "../secrets/resolve.js";
@@ -93,7 +94,7 @@ async function resolveApiKeyRefForOnboarding(params: {
         {
           value: "provider",
           label: "Configured secret provider",
-          hint: "Use a configured file or exec secret provider",
+          hint: "Use a configured file, exec, or encrypted secret provider",
         },
       ],
     });
@@ -143,11 +144,14 @@ async function resolveApiKeyRefForOnboarding(params: {
     }
 
     const externalProviders = Object.entries(params.config.secrets?.providers ?? {}).filter(
-      ([, provider]) => provider?.source === "file" || provider?.source === "exec",
+      ([, provider]) =>
+        provider?.source === "file" ||
+        provider?.source === "exec" ||
+        provider?.source === "encrypted",
     );
     if (externalProviders.length === 0) {
       await params.prompter.note(
-        "No file/exec secret providers are configured yet. Add one under secrets.providers, or select Environment variable.",
+        "No file/exec/encrypted secret providers are configured yet. Add one under secrets.providers, or select Environment variable.",
         "No providers configured",
       );
       continue;
@@ -163,13 +167,18 @@ async function resolveApiKeyRefForOnboarding(params: {
       options: externalProviders.map(([providerName, provider]) => ({
         value: providerName,
         label: providerName,
-        hint: provider?.source === "exec" ? "Exec provider" : "File provider",
+        hint:
+          provider?.source === "exec"
+            ? "Exec provider"
+            : provider?.source === "encrypted"
+              ? "Encrypted file provider"
+              : "File provider",
       })),
     });
     const providerEntry = params.config.secrets?.providers?.[selectedProvider];
-    if (!providerEntry || (providerEntry.source !== "file" && providerEntry.source !== "exec")) {
+    if (!providerEntry || providerEntry.source === "env") {
       await params.prompter.note(
-        `Provider "${selectedProvider}" is not a file/exec provider.`,
+        `Provider "${selectedProvider}" is not a file/exec/encrypted provider.`,
         "Invalid provider",
       );
       continue;
@@ -177,17 +186,21 @@ async function resolveApiKeyRefForOnboarding(params: {
     const idPrompt =
       providerEntry.source === "file"
         ? "Secret id (JSON pointer for json mode, or 'value' for singleValue mode)"
-        : "Secret id for the exec provider";
+        : providerEntry.source === "encrypted"
+          ? "Secret id (JSON pointer)"
+          : "Secret id for the exec provider";
     const idDefault =
       providerEntry.source === "file"
         ? providerEntry.mode === "singleValue"
           ? "value"
           : defaultFilePointer
-        : `${params.provider}/apiKey`;
+        : providerEntry.source === "encrypted"
+          ? defaultFilePointer
+          : `${params.provider}/apiKey`;
     const idRaw = await params.prompter.text({
       message: idPrompt,
       initialValue: idDefault,
-      placeholder: providerEntry.source === "file" ? "/providers/openai/apiKey" : "openai/api-key",
+      placeholder: providerEntry.source === "exec" ? "openai/api-key" : "/providers/openai/apiKey",
       validate: (value) => {
         const candidate = value.trim();
         if (!candidate) {
@@ -207,6 +220,9 @@ async function resolveApiKeyRefForOnboarding(params: {
         ) {
           return 'singleValue mode expects id "value".';
         }
+        if (providerEntry.source === "encrypted" && !isValidJsonPointerSecretRefId(candidate)) {
+          return 'Use an absolute JSON pointer like "/providers/openai/apiKey".';
+        }
         return undefined;
       },
     });
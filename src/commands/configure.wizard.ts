@@ -1,10 +1,19 @@
 import fsPromises from "node:fs/promises";
 import nodePath from "node:path";
+import { resolveAgentWorkspaceDir, resolveDefaultAgentId } from "../agents/agent-scope.js";
+import {
+  BUILTIN_WEB_FETCH_PROVIDER_LABELS,
+  BUILTIN_WEB_SEARCH_PROVIDER_LABELS,
+  isBuiltinWebFetchProvider,
+  isBuiltinWebSearchProvider,
+  normalizeWebProviderId,
+} from "../agents/tools/web-providers.js";
 import { formatCliCommand } from "../cli/command-format.js";
 import type { OpenClawConfig } from "../config/config.js";
 import { readConfigFileSnapshot, resolveGatewayPort, writeConfigFile } from "../config/config.js";
 import { logConfigUpdated } from "../config/logging.js";
 import { ensureControlUiAssetsBuilt } from "../infra/control-ui-assets.js";
+import { resolvePluginWebProviders } from "../plugins/providers.js";
 import type { RuntimeEnv } from "../runtime.js";
 import { defaultRuntime } from "../runtime.js";
 import { note } from "../terminal/note.js";
@@ -135,6 +144,10 @@ async function promptWebToolsConfig(
   const existingSearch = nextConfig.tools?.web?.search;
   const existingFetch = nextConfig.tools?.web?.fetch;
   const hasSearchKey = Boolean(existingSearch?.apiKey);
+  const pluginProviders = resolvePluginWebProviders({
+    config: nextConfig,
+    workspaceDir: resolveAgentWorkspaceDir(nextConfig, resolveDefaultAgentId(nextConfig)),
+  });
 
   note(
     [
@@ -158,7 +171,60 @@ async function promptWebToolsConfig(
     enabled: enableSearch,
   };
 
-  if (enableSearch) {
+  const currentSearchProvider = normalizeWebProviderId(existingSearch?.provider);
+  let searchProvider = currentSearchProvider || "brave";
+  if (enableSearch && pluginProviders.search.length > 0) {
+    // Keep a non-Brave built-in selectable so re-running the wizard does not drop it.
+    const builtinChoice =
+      currentSearchProvider && isBuiltinWebSearchProvider(currentSearchProvider)
+        ? currentSearchProvider
+        : "brave";
+    searchProvider = guardCancel(
+      await select({
+        message: "Web search provider",
+        options: [
+          {
+            value: builtinChoice,
+            label: BUILTIN_WEB_SEARCH_PROVIDER_LABELS[builtinChoice],
+            hint: "Built-in",
+          },
+          ...pluginProviders.search.map((entry) => ({
+            value: entry.provider.id,
+            label: entry.provider.label,
+            hint: entry.provider.hint ?? `Plugin: ${entry.pluginId}`,
+          })),
+        ],
+        initialValue: pluginProviders.search.some(
+          (entry) => entry.provider.id === currentSearchProvider,
+        )
+          ? currentSearchProvider
+          : builtinChoice,
+      }),
+      runtime,
+    );
+    if (searchProvider !== "brave" || currentSearchProvider) {
+      nextSearch = { ...nextSearch, provider: searchProvider };
+    }
+  }
+
+  const searchPlugin = pluginProviders.search.find((entry) => entry.provider.id === searchProvider);
+  if (enableSearch && searchPlugin) {
+    note(
+      [
+        `${searchPlugin.provider.label} is provided by the ${searchPlugin.pluginId} plugin.`,
+        `Configure it under plugins.entries.${searchPlugin.pluginId}.config.`,
+        searchPlugin.provider.envVars?.length
+          ? `Env vars: ${searchPlugin.provider.envVars.join(", ")}`
+          : undefined,
+        searchPlugin.provider.docsPath
+          ? `Docs: https://docs.openclaw.ai${searchPlugin.provider.docsPath}`
+          : undefined,
+      ]
+        .filter(Boolean)
+        .join("\n"),
+      "Web search",
+    );
+  } else if (enableSearch) {
     const keyInput = guardCancel(
       await text({
         message: hasSearchKey
@@ -191,11 +257,40 @@ async function promptWebToolsConfig(
     runtime,
   );
 
-  const nextFetch = {
+  let nextFetch = {
     ...existingFetch,
     enabled: enableFetch,
   };
 
+  if (enableFetch && pluginProviders.fetch.length > 0) {
+    const currentFetchProvider = normalizeWebProviderId(existingFetch?.provider);
+    const fetchProvider = guardCancel(
+      await select({
+        message: "web_fetch fallback extractor",
+        options: [
+          {
+            value: "firecrawl",
+            label: BUILTIN_WEB_FETCH_PROVIDER_LABELS.firecrawl,
+            hint: "Built-in (needs FIRECRAWL_API_KEY)",
+          },
+          ...pluginProviders.fetch.map((entry) => ({
+            value: entry.provider.id,
+            label: entry.provider.label,
+            hint: entry.provider.hint ?? `Plugin: ${entry.pluginId}`,
+          })),
+        ],
+        initialValue:
+          currentFetchProvider && !isBuiltinWebFetchProvider(currentFetchProvider)
+            ? currentFetchProvider
+            : "firecrawl",
+      }),
+      runtime,
+    );
+    if (fetchProvider !== "firecrawl" || currentFetchProvider) {
+      nextFetch = { ...nextFetch, provider: fetchProvider };
+    }
+  }
+
   return {
     ...nextConfig,
     tools: {
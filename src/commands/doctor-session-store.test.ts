@@ -0,0 +1,67 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { clearSessionStoreCacheForTest } from "../config/sessions.js";
+import { closeSqliteSessionStoresForTest } from "../config/sessions/store-sqlite.js";
+
+const note = vi.hoisted(() => vi.fn());
+
+vi.mock("../terminal/note.js", () => ({
+  note,
+}));
+
+import { noteSessionStoreBackend } from "./doctor-session-store.js";
+
+describe("noteSessionStoreBackend", () => {
+  let root: string;
+  let storePath: string;
+  let cfg: OpenClawConfig;
+
+  beforeEach(async () => {
+    note.mockClear();
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-doctor-session-store-"));
+    storePath = path.join(root, "sessions.json");
+    cfg = { session: { store: storePath, storeBackend: "sqlite" } };
+    await fs.writeFile(
+      storePath,
+      JSON.stringify({ "agent:main:main": { sessionId: "s1", updatedAt: 1 } }),
+    );
+  });
+
+  afterEach(async () => {
+    clearSessionStoreCacheForTest();
+    closeSqliteSessionStoresForTest();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("reports a JSON store that is not imported into SQLite yet", async () => {
+    await noteSessionStoreBackend(cfg, { shouldRepair: false });
+
+    expect(note).toHaveBeenCalledTimes(1);
+    const [message, title] = note.mock.calls[0] as [string, string];
+    expect(title).toBe("Session store");
+    expect(message).toContain("is not imported into SQLite yet");
+    expect(message).toContain("doctor --fix");
+    await expect(fs.access(storePath)).resolves.toBeUndefined();
+  });
+
+  it("imports the JSON store in repair mode", async () => {
+    await noteSessionStoreBackend(cfg, { shouldRepair: true });
+
+    const [message] = note.mock.calls[0] as [string, string];
+    expect(message).toContain("Imported 1 session(s)");
+    await expect(fs.access(storePath)).rejects.toThrow();
+    await expect(fs.access(path.join(root, "sessions.sqlite"))).resolves.toBeUndefined();
+  });
+
+  it("stays quiet when the store matches the backend", async () => {
+    await noteSessionStoreBackend(
+      { session: { store: storePath, storeBackend: "json" } },
+      { shouldRepair: false },
+    );
+
+    expect(note).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,86 @@
+import fs from "node:fs";
+import { listAgentIds } from "../agents/agent-scope.js";
+import { formatCliCommand } from "../cli/command-format.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { migrateSessionStoreBackend, resolveStorePath } from "../config/sessions.js";
+import {
+  checkSqliteSessionStore,
+  resolveSqliteSessionStorePath,
+  sqliteSessionStoreExists,
+} from "../config/sessions/store-sqlite.js";
+import { note } from "../terminal/note.js";
+import { shortenHomePath } from "../utils.js";
+
+function resolveSessionStorePaths(cfg: OpenClawConfig): string[] {
+  const paths = listAgentIds(cfg).map((agentId) =>
+    resolveStorePath(cfg.session?.store, { agentId }),
+  );
+  return [...new Set(paths)];
+}
+
+/**
+ * Checks that each agent's session store matches `session.storeBackend`:
+ * JSON stores not yet imported into SQLite, SQLite stores left behind after
+ * switching back to JSON, and SQLite integrity. Repair migrates them.
+ */
+export async function noteSessionStoreBackend(
+  cfg: OpenClawConfig,
+  params?: { shouldRepair?: boolean },
+) {
+  const shouldRepair = params?.shouldRepair === true;
+  const backend = cfg.session?.storeBackend === "sqlite" ? "sqlite" : "json";
+  const lines: string[] = [];
+  let pending = 0;
+
+  for (const storePath of resolveSessionStorePaths(cfg)) {
+    const jsonDisplay = shortenHomePath(storePath);
+    const sqliteDisplay = shortenHomePath(resolveSqliteSessionStorePath(storePath));
+    const hasJson = fs.existsSync(storePath);
+    const hasSqlite = sqliteSessionStoreExists(storePath);
+    try {
+      if (backend === "sqlite") {
+        if (hasSqlite) {
+          const check = checkSqliteSessionStore(storePath);
+          if (check !== null && check !== "ok") {
+            lines.push(`- ${sqliteDisplay} failed its integrity check: ${check}`);
+          }
+        }
+        if (!hasJson) {
+          continue;
+        }
+        if (!shouldRepair) {
+          pending++;
+          lines.push(
+            hasSqlite
+              ? `- ${jsonDisplay} exists next to ${sqliteDisplay}; its sessions are not used until imported.`
+              : `- ${jsonDisplay} is not imported into SQLite yet (happens on the next session write).`,
+          );
+          continue;
+        }
+        const result = await migrateSessionStoreBackend({ storePath, to: "sqlite" });
+        lines.push(`- Imported ${result.migrated} session(s) from ${jsonDisplay} into SQLite.`);
+      } else if (hasSqlite) {
+        if (!shouldRepair) {
+          pending++;
+          lines.push(
+            `- ${sqliteDisplay} exists but session.storeBackend is "json"; its sessions are not used.`,
+          );
+          continue;
+        }
+        const result = await migrateSessionStoreBackend({ storePath, to: "json" });
+        lines.push(`- Exported ${result.migrated} session(s) from ${sqliteDisplay} into JSON.`);
+      }
+    } catch (err) {
+      lines.push(`- Failed to check session store ${jsonDisplay}: ${String(err)}`);
+    }
+  }
+
+  if (pending > 0) {
+    lines.push(
+      `- Run "${formatCliCommand("openclaw doctor --fix")}" to migrate the session store (the old file is kept as .bak).`,
+    );
+  }
+  if (lines.length > 0) {
+    note(lines.join("\n"), "Session store");
+  }
+}
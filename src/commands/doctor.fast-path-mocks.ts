@@ -36,6 +36,10 @@ vi.mock("./doctor-session-locks.js", () => ({
   noteSessionLockHealth: vi.fn().mockResolvedValue(undefined),
 }));
 
+vi.mock("./doctor-session-store.js", () => ({
+  noteSessionStoreBackend: vi.fn().mockResolvedValue(undefined),
+}));
+
 vi.mock("./doctor-state-integrity.js", () => ({
   noteStateIntegrity: vi.fn().mockResolvedValue(undefined),
   noteWorkspaceBackupTip: vi.fn(),
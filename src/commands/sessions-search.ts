@@ -0,0 +1,106 @@
+import { listAgentIds } from "../agents/agent-scope.js";
+import { loadConfig } from "../config/config.js";
+import { info } from "../globals.js";
+import { normalizeAgentId } from "../routing/session-key.js";
+import type { RuntimeEnv } from "../runtime.js";
+import {
+  resolveTranscriptSearchDateBounds,
+  searchSessionTranscripts,
+  type TranscriptSearchRole,
+} from "../sessions/transcript-search.js";
+import { isRich, theme } from "../terminal/theme.js";
+import { formatSessionAgeCell, formatSessionKeyCell } from "./sessions-table.js";
+
+export type SessionsSearchOptions = {
+  query: string;
+  agent?: string;
+  channel?: string;
+  role?: string;
+  tool?: string;
+  from?: string;
+  to?: string;
+  limit?: string;
+  json?: boolean;
+};
+
+const ROLES: readonly TranscriptSearchRole[] = ["user", "assistant", "tool"];
+const ROLE_PAD = 18;
+
+export async function sessionsSearchCommand(opts: SessionsSearchOptions, runtime: RuntimeEnv) {
+  const cfg = loadConfig();
+  const query = opts.query.trim();
+  if (!query) {
+    runtime.error("Search query is required.");
+    runtime.exit(1);
+    return;
+  }
+  const agentId = opts.agent?.trim() ? normalizeAgentId(opts.agent) : undefined;
+  if (agentId && !listAgentIds(cfg).includes(agentId)) {
+    runtime.error(
+      `Unknown agent id "${opts.agent}". Use "openclaw agents list" to see configured agents.`,
+    );
+    runtime.exit(1);
+    return;
+  }
+  const role = opts.role?.trim().toLowerCase();
+  if (role && !ROLES.includes(role as TranscriptSearchRole)) {
+    runtime.error(`--role must be one of: ${ROLES.join(", ")}`);
+    runtime.exit(1);
+    return;
+  }
+  let limit: number | undefined;
+  if (opts.limit !== undefined) {
+    const parsed = Number.parseInt(opts.limit, 10);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      runtime.error("--limit must be a positive integer");
+      runtime.exit(1);
+      return;
+    }
+    limit = parsed;
+  }
+  let bounds: { after?: number; before?: number };
+  try {
+    bounds = resolveTranscriptSearchDateBounds({ startDate: opts.from, endDate: opts.to });
+  } catch (err) {
+    runtime.error(String(err instanceof Error ? err.message : err));
+    runtime.exit(1);
+    return;
+  }
+
+  const tool = opts.tool?.trim() || undefined;
+  const { hits, sync } = await searchSessionTranscripts(cfg, {
+    query,
+    agentId,
+    channel: opts.channel?.trim() || undefined,
+    role: tool ? "tool" : (role as TranscriptSearchRole | undefined),
+    toolName: tool,
+    limit,
+    ...bounds,
+  });
+
+  if (opts.json) {
+    runtime.log(JSON.stringify({ query, count: hits.length, hits }, null, 2));
+    return;
+  }
+
+  runtime.log(info(`Transcripts indexed: ${sync.files} (${sync.indexed} updated)`));
+  runtime.log(info(`Matches: ${hits.length}`));
+  if (hits.length === 0) {
+    runtime.log("No matching messages.");
+    return;
+  }
+  const rich = isRich();
+  for (const hit of hits) {
+    const roleLabel = (hit.toolName ? `tool:${hit.toolName}` : hit.role).padEnd(ROLE_PAD);
+    runtime.log(
+      [
+        formatSessionKeyCell(hit.sessionKey, rich),
+        formatSessionAgeCell(hit.timestamp, rich),
+        rich ? theme.info(roleLabel) : roleLabel,
+      ]
+        .join(" ")
+        .trimEnd(),
+    );
+    runtime.log(`  ${rich ? theme.muted(hit.snippet) : hit.snippet}`);
+  }
+}
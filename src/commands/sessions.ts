@@ -1,7 +1,11 @@
 import { lookupContextTokens } from "../agents/context.js";
 import { DEFAULT_CONTEXT_TOKENS } from "../agents/defaults.js";
 import { loadConfig } from "../config/config.js";
-import { loadSessionStore, resolveFreshSessionTotalTokens } from "../config/sessions.js";
+import {
+  listSessionStoreEntries,
+  loadSessionStore,
+  resolveFreshSessionTotalTokens,
+} from "../config/sessions.js";
 import { classifySessionKey } from "../gateway/session-utils.js";
 import { info } from "../globals.js";
 import { parseAgentSessionKey } from "../routing/session-key.js";
@@ -121,7 +125,16 @@ export async function sessionsCommand(
 
   const rows = targets
     .flatMap((target) => {
-      const store = loadSessionStore(target.storePath);
+      // --active uses the updatedAt index on the SQLite backend.
+      const store =
+        activeMinutes === undefined
+          ? loadSessionStore(target.storePath)
+          : Object.fromEntries(
+              listSessionStoreEntries({
+                storePath: target.storePath,
+                updatedAfter: Date.now() - activeMinutes * 60_000,
+              }).map(({ key, entry }) => [key, entry]),
+            );
       return toSessionDisplayRows(store).map((row) => ({
         ...row,
         agentId: parseAgentSessionKey(row.key)?.agentId ?? target.agentId,
@@ -299,6 +299,20 @@ export async function statusCommand(
   const eventsValue =
     summary.queuedSystemEvents.length > 0 ? `${summary.queuedSystemEvents.length} queued` : "none";
 
+  const inboundQueueValue = (() => {
+    const inbound = summary.inboundQueue;
+    const recovery = inbound?.lastRecovery;
+    const parts = [inbound?.pending ? `${inbound.pending} pending` : null];
+    if (recovery && recovery.recovered + recovery.skipped + recovery.failed > 0) {
+      const failed = recovery.failed > 0 ? warn(` · ${recovery.failed} failed`) : "";
+      parts.push(
+        `${recovery.recovered} recovered ${formatTimeAgo(Date.now() - recovery.at)} ago${failed}`,
+      );
+    }
+    const value = parts.filter(Boolean).join(" · ");
+    return value || muted("empty");
+  })();
+
   const probesValue = health ? ok("enabled") : muted("skipped (use --deep)");
 
   const heartbeatValue = (() => {
@@ -408,6 +422,7 @@ export async function statusCommand(
     { Item: "Memory", Value: memoryValue },
     { Item: "Probes", Value: probesValue },
     { Item: "Events", Value: eventsValue },
+    { Item: "Inbound queue", Value: inboundQueueValue },
     { Item: "Heartbeat", Value: heartbeatValue },
     ...(lastHeartbeatValue ? [{ Item: "Last heartbeat", Value: lastHeartbeatValue }] : []),
     {
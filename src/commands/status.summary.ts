@@ -16,6 +16,7 @@ import {
 } from "../gateway/session-utils.js";
 import { buildChannelSummary } from "../infra/channel-summary.js";
 import { resolveHeartbeatSummaryForAgent } from "../infra/heartbeat-runner.js";
+import { readInboundQueueStatus } from "../infra/inbound-queue.js";
 import { peekSystemEvents } from "../infra/system-events.js";
 import { parseAgentSessionKey } from "../routing/session-key.js";
 import { resolveLinkChannelContext } from "./status.link-channel.js";
@@ -97,6 +98,7 @@ export async function getStatusSummary(
   });
   const mainSessionKey = resolveMainSessionKey(cfg);
   const queuedSystemEvents = peekSystemEvents(mainSessionKey);
+  const inboundQueue = await readInboundQueueStatus().catch(() => undefined);
 
   const resolved = resolveConfiguredModelRef({
     cfg,
@@ -218,6 +220,7 @@ export async function getStatusSummary(
     },
     channelSummary,
     queuedSystemEvents,
+    inboundQueue,
     sessions: {
       paths: Array.from(paths),
       count: totalSessions,
@@ -1,4 +1,5 @@
 import type { ChannelId } from "../channels/plugins/types.js";
+import type { InboundQueueStatus } from "../infra/inbound-queue.js";
 
 export type SessionStatus = {
   agentId?: string;
@@ -46,6 +47,8 @@ export type StatusSummary = {
   };
   channelSummary: string[];
   queuedSystemEvents: string[];
+  /** Journaled inbound turns waiting for replay, and what the last startup replayed. */
+  inboundQueue?: InboundQueueStatus;
   sessions: {
     paths: string[];
     count: number;
@@ -9,6 +9,7 @@ async function writePluginFixture(params: {
   id: string;
   schema: Record<string, unknown>;
   channels?: string[];
+  webSearchProviders?: string[];
 }) {
   await fs.mkdir(params.dir, { recursive: true });
   await fs.writeFile(
@@ -23,6 +24,9 @@ async function writePluginFixture(params: {
   if (params.channels) {
     manifest.channels = params.channels;
   }
+  if (params.webSearchProviders) {
+    manifest.webSearchProviders = params.webSearchProviders;
+  }
   await fs.writeFile(
     path.join(params.dir, "openclaw.plugin.json"),
     JSON.stringify(manifest, null, 2),
@@ -236,6 +240,49 @@ describe("config plugin validation", () => {
     }
   });
 
+  it("accepts web search providers declared by plugin manifests", async () => {
+    const home = await createCaseHome();
+    const pluginDir = path.join(home, "tavily-plugin");
+    await writePluginFixture({
+      dir: pluginDir,
+      id: "tavily-plugin",
+      webSearchProviders: ["tavily"],
+      schema: { type: "object" },
+    });
+
+    const res = validateInHome(home, {
+      agents: { list: [{ id: "pi" }] },
+      tools: { web: { search: { provider: "tavily" } } },
+      plugins: { enabled: false, load: { paths: [pluginDir] } },
+    });
+    expect(res.ok).toBe(true);
+  });
+
+  it("rejects unknown web search and fetch providers", async () => {
+    const home = await createCaseHome();
+    const res = validateInHome(home, {
+      agents: { list: [{ id: "pi" }] },
+      tools: { web: { search: { provider: "bing" }, fetch: { provider: "jina" } } },
+    });
+    expect(res.ok).toBe(false);
+    if (!res.ok) {
+      expect(res.issues).toEqual(
+        expect.arrayContaining([
+          {
+            path: "tools.web.search.provider",
+            message:
+              "unknown web search provider: bing (not built in or declared by an installed plugin)",
+          },
+          {
+            path: "tools.web.fetch.provider",
+            message:
+              "unknown web fetch provider: jina (not built in or declared by an installed plugin)",
+          },
+        ]),
+      );
+    }
+  });
+
   it("accepts heartbeat directPolicy enum values", async () => {
     const home = await createCaseHome();
     const res = validateInHome(home, {
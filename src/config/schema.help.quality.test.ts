@@ -25,6 +25,7 @@ const ROOT_SECTIONS = [
   "approvals",
   "session",
   "cron",
+  "budgets",
   "hooks",
   "web",
   "channels",
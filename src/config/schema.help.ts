@@ -343,6 +343,12 @@ export const FIELD_HELP: Record<string, string> = {
     "Disables Control UI device identity checks and relies on token/password only. Use only for short-lived debugging on trusted networks, then turn it off immediately.",
   "gateway.http.endpoints.chatCompletions.enabled":
     "Enable the OpenAI-compatible `POST /v1/chat/completions` endpoint (default: false).",
+  "gateway.http.endpoints.mcp.enabled":
+    "Enable the MCP endpoint (`POST /mcp`) that publishes policy-filtered gateway tools to MCP clients (default: false).",
+  "gateway.http.endpoints.metrics.enabled":
+    "Serve Prometheus metrics at `GET /metrics`, aggregated from diagnostic events; requires `diagnostics.enabled` (default: false).",
+  "gateway.http.endpoints.metrics.token":
+    "Dedicated bearer token for Prometheus scrapes so scrapers do not need the gateway token. Accepts a string or a SecretRef. Gateway auth keeps working either way.",
   "gateway.reload.mode":
     'Controls how config edits are applied: "off" ignores live edits, "restart" always restarts, "hot" applies in-process, and "hybrid" tries hot then restarts if required. Keep "hybrid" for safest routine updates.',
   "gateway.reload.debounceMs": "Debounce window (ms) before applying config changes.",
@@ -453,6 +459,39 @@ export const FIELD_HELP: Record<string, string> = {
   "tools.loopDetection.detectors.knownPollNoProgress":
     "Enable known poll tool no-progress loop detection (default: true).",
   "tools.loopDetection.detectors.pingPong": "Enable ping-pong loop detection (default: true).",
+  "tools.approvals":
+    "Human approval gates for mutating tool calls (for example message sends, cron changes, or gateway config patches). Requests use the exec approval flow: Control UI prompt, `/approve`, and `approvals.exec` forwarding.",
+  "tools.approvals.enabled": "Require approval for tool calls matching the rules (default: false).",
+  "tools.approvals.rules":
+    "Rules selecting which mutating tool calls need approval. A call needs approval when any rule matches its tool, action, and arguments.",
+  "tools.approvals.rules[].tool":
+    'Tool name or glob (for example "message", "cron", or "*_actions").',
+  "tools.approvals.rules[].actions":
+    'Only gate these actions (the tool\'s `action` argument, for example ["send"] or ["add", "update"]). Omit to gate every mutating action.',
+  "tools.approvals.rules[].args":
+    'Argument matchers keyed by top-level argument name, each a glob or list of globs (for example {"to": "+1555*"}). Every listed argument must match.',
+  "tools.approvals.timeoutMs":
+    "How long a gated call waits for a decision before it is denied (default: 120000).",
+  "tools.argRules":
+    "Argument-level conditions on tool calls, e.g. web_fetch only to listed domains or write only under workspace paths. Every rule matching a call must pass; agent rules under agents.list[].tools.argRules add to these.",
+  "tools.argRules[].tools":
+    'Tool names or globs the rule applies to (for example ["read", "write", "edit"]).',
+  "tools.argRules[].actions":
+    "Only apply the rule when the call's `action` argument is one of these (for example message send).",
+  "tools.argRules[].args":
+    "Conditions keyed by top-level argument name. Arguments the call does not pass are not checked; list aliases separately when a tool accepts more than one name.",
+  "tools.argRules[].args.*.allow":
+    "Globs the argument value must match (`*` wildcard, case-insensitive). Array values are checked element by element.",
+  "tools.argRules[].args.*.deny": "Globs the argument value must not match.",
+  "tools.argRules[].args.*.pattern":
+    "Regular expression the argument value must match. Anchor it (`^...$`) so chained commands cannot slip through.",
+  "tools.argRules[].args.*.domains":
+    'URL arguments only: the host must equal one of these domains or be a subdomain of one (for example ["docs.python.org", "github.com"]).',
+  "tools.argRules[].args.*.paths":
+    "Path arguments only: the resolved path must match one of these globs. `**` crosses directories, `*` does not; `~` and `${workspace}` expand. Matching is lexical (symlinks are not followed).",
+  "tools.argRules[].args.*.sameChat":
+    "Require the value to address the conversation the agent is replying in: the current channel for `channel`, the current chat for targets. Denied when the run has no current chat.",
+  "tools.argRules[].message": "Extra text appended to the denial message returned to the model.",
   "tools.exec.notifyOnExit":
     "When true (default), backgrounded exec sessions on exit and node exec lifecycle events enqueue a system event and request a heartbeat.",
   "tools.exec.notifyOnExitEmptySuccess":
@@ -542,6 +581,32 @@ export const FIELD_HELP: Record<string, string> = {
     "Ordered model preferences specifically for video understanding before shared media fallback applies. Prioritize models with strong multimodal video support to minimize degraded summaries.",
   "tools.media.video.scope":
     "Scope selector controlling when video understanding is attempted across incoming events. Narrow scope in noisy channels, and broaden only where video interpretation is core to workflow.",
+  "tools.media.document.enabled":
+    "Enable local text and table extraction for PDF, DOCX, and XLSX attachments (default: true). Disable to fall back to plain file blocks for text-like files only.",
+  "tools.media.document.maxBytes":
+    "Maximum document size in bytes accepted for extraction (default: 20 MB). Larger attachments are skipped and recorded in the media decision.",
+  "tools.media.document.maxChars":
+    "Maximum characters of extracted document text injected into the turn (default: 100000). Text beyond this cap is dropped with a truncation note.",
+  "tools.media.document.prompt":
+    "Instruction used when a scanned PDF page is transcribed by the vision fallback model. Keep it focused on verbatim text and tables.",
+  "tools.media.document.timeoutSeconds":
+    "Timeout in seconds for each vision fallback request on a scanned page. Local extraction is not subject to this timeout.",
+  "tools.media.document.attachments":
+    "Attachment policy for document inputs, such as processing only the first document or several per message.",
+  "tools.media.document.models":
+    "Ordered vision models used to transcribe scanned PDF pages. When unset, the image understanding auto-selection (agent image model, then provider keys) is used.",
+  "tools.media.document.scope":
+    "Scope selector controlling which sessions and channels get document extraction.",
+  "tools.media.document.maxPages":
+    "Maximum number of PDF pages extracted per document (default: 50).",
+  "tools.media.document.chunkChars":
+    "Split long extracted documents into labelled parts of about this many characters (default: 20000), breaking on paragraph boundaries.",
+  "tools.media.document.minPageTextChars":
+    "PDF pages with fewer extracted characters than this are treated as scanned images and sent to the vision fallback (default: 40).",
+  "tools.media.document.visionFallback":
+    "Transcribe scanned PDF pages with a vision model when local extraction finds no text (default: true). Disable to keep document handling fully local.",
+  "tools.media.document.visionMaxPages":
+    "Maximum scanned pages per document sent to the vision fallback model (default: 4). Use 0 to disable page rendering.",
   "skills.load.watch":
     "Enable filesystem watching for skill-definition changes so updates can be applied without full process restart. Keep enabled in development workflows and disable in immutable production images.",
   "skills.load.watchDebounceMs":
@@ -568,6 +633,27 @@ export const FIELD_HELP: Record<string, string> = {
     "Optional account selector for multi-account channel setups when approvals must route through a specific account context. Use this only when the target channel has multiple configured identities.",
   "approvals.exec.targets[].threadId":
     "Optional thread/topic target for channels that support threaded delivery of forwarded approvals. Use this to keep approval traffic contained in operational threads instead of main channels.",
+  "tools.mcp":
+    "Model Context Protocol servers whose tools are discovered and exposed to agents. MCP tools pass through the same tool policy pipeline as plugin tools (allow/deny by tool name, `mcp:<server>`, or `group:mcp`).",
+  "tools.mcp.servers":
+    "MCP servers keyed by name. Each server uses either `command` (stdio) or `url` (streamable HTTP); its tools appear as `mcp__<server>__<tool>`.",
+  "tools.mcp.servers.*.enabled":
+    "Enable this MCP server (default: true). Set false in agents.list[].tools.mcp to drop an inherited server for one agent.",
+  "tools.mcp.servers.*.command":
+    "Executable for a stdio MCP server (for example `npx`). The process is restarted with backoff if it exits.",
+  "tools.mcp.servers.*.args": "Arguments passed to the stdio MCP server command.",
+  "tools.mcp.servers.*.env":
+    "Extra environment variables for the stdio MCP server process. Values are treated as sensitive.",
+  "tools.mcp.servers.*.cwd": "Working directory for the stdio MCP server process.",
+  "tools.mcp.servers.*.url": "Streamable HTTP endpoint for a remote MCP server.",
+  "tools.mcp.servers.*.headers":
+    "Extra HTTP headers sent to a streamable HTTP MCP server, such as Authorization. Values are treated as sensitive.",
+  "tools.mcp.servers.*.requestTimeoutMs":
+    "Per-request timeout for MCP calls to this server in milliseconds (default: 60000).",
+  "tools.mcp.servers.*.startupTimeoutMs":
+    "How long an agent run waits for this server's first connection before continuing without its tools (default: 10000).",
+  "agents.list[].tools.mcp":
+    "Per-agent MCP servers merged over tools.mcp.servers by name; set `enabled: false` to drop an inherited server.",
   "tools.fs.workspaceOnly":
     "Restrict filesystem tools (read/write/edit/apply_patch) to the workspace directory (default: false).",
   "tools.sessions.visibility":
@@ -587,7 +673,7 @@ export const FIELD_HELP: Record<string, string> = {
   "tools.message.broadcast.enabled": "Enable broadcast action (default: true).",
   "tools.web.search.enabled": "Enable the web_search tool (requires a provider API key).",
   "tools.web.search.provider":
-    'Search provider ("brave", "perplexity", "grok", "gemini", or "kimi"). Auto-detected from available API keys if omitted.',
+    'Search provider ("brave", "perplexity", "grok", "gemini", "kimi", "searxng", or a plugin-registered provider id). Auto-detected from available API keys if omitted.',
   "tools.web.search.apiKey": "Brave Search API key (fallback: BRAVE_API_KEY env var).",
   "tools.web.search.maxResults": "Default number of results to return (1-10).",
   "tools.web.search.timeoutSeconds": "Timeout in seconds for web_search requests.",
@@ -602,6 +688,16 @@ export const FIELD_HELP: Record<string, string> = {
   "tools.web.search.kimi.baseUrl":
     'Kimi base URL override (default: "https://api.moonshot.ai/v1").',
   "tools.web.search.kimi.model": 'Kimi model override (default: "moonshot-v1-128k").',
+  "tools.web.search.searxng.baseUrl":
+    "Base URL of your SearXNG instance (fallback: SEARXNG_BASE_URL env var). The instance must enable the JSON output format.",
+  "tools.web.search.searxng.engines":
+    'SearXNG engines to query (e.g. ["duckduckgo", "wikipedia"]). Defaults to the instance settings.',
+  "tools.web.search.searxng.categories":
+    'SearXNG categories to query (e.g. ["general", "news"]). Defaults to the instance settings.',
+  "tools.web.search.searxng.safeSearch":
+    'SearXNG safe-search level ("off", "moderate", or "strict"). Defaults to the instance settings.',
+  "tools.web.search.searxng.language":
+    'Default SearXNG search language (e.g. "en" or "de-DE"). The search_lang tool parameter overrides it.',
   "tools.web.search.perplexity.apiKey":
     "Perplexity or OpenRouter API key (fallback: PERPLEXITY_API_KEY or OPENROUTER_API_KEY env var).",
   "tools.web.search.perplexity.baseUrl":
@@ -618,6 +714,8 @@ export const FIELD_HELP: Record<string, string> = {
   "tools.web.fetch.userAgent": "Override User-Agent header for web_fetch requests.",
   "tools.web.fetch.readability":
     "Use Readability to extract main content from HTML (fallbacks to basic HTML cleanup).",
+  "tools.web.fetch.provider":
+    'Fallback extraction provider for web_fetch ("firecrawl" or a plugin-registered provider id). Used when the direct fetch fails or Readability finds no content (default: "firecrawl").',
   "tools.web.fetch.firecrawl.enabled": "Enable Firecrawl fallback for web_fetch (if configured).",
   "tools.web.fetch.firecrawl.apiKey": "Firecrawl API key (fallback: FIRECRAWL_API_KEY env var).",
   "tools.web.fetch.firecrawl.baseUrl":
@@ -647,6 +745,16 @@ export const FIELD_HELP: Record<string, string> = {
     "When true, credentials are sent via the HTTP Authorization header even if alternate auth is possible. Use this only when your provider or proxy explicitly requires Authorization forwarding.",
   "models.providers.*.models":
     "Declared model list for a provider including identifiers, metadata, and optional compatibility/cost hints. Keep IDs exact to provider catalog values so selection and fallback resolve correctly.",
+  "models.providers.*.replay":
+    'Cassette settings for providers whose api is "replay". Replay models serve recorded responses keyed by request hash so agent runs can be regression-tested offline.',
+  "models.providers.*.replay.cassetteDir":
+    "Directory holding cassette JSON files, one per recorded request (default: ~/.openclaw/replay/<provider>). Commit it next to the tests that depend on it.",
+  "models.providers.*.replay.mode":
+    'Cassette mode: "replay" serves recorded responses and fails on misses, "record" always calls recordFrom and overwrites, and "auto" records only misses.',
+  "models.providers.*.replay.match":
+    'Request matching: "strict" keys the exact system prompt, tool schemas, and messages, while "lenient" ignores the system prompt, tool descriptions, tool call IDs, timestamps, and whitespace.',
+  "models.providers.*.replay.recordFrom":
+    'Real model used when recording, as "provider/model"; its normal credentials apply. Required for "record" and "auto" modes.',
   "models.bedrockDiscovery":
     "Automatic AWS Bedrock model discovery settings used to synthesize provider model entries from account visibility. Keep discovery scoped and refresh intervals conservative to reduce API churn.",
   "models.bedrockDiscovery.enabled":
@@ -767,6 +875,24 @@ export const FIELD_HELP: Record<string, string> = {
     "Applies recency decay so newer memory can outrank older memory when scores are close. Enable when timeliness matters; keep off for timeless reference knowledge.",
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.halfLifeDays":
     "Controls how fast older memory loses rank when temporal decay is enabled (half-life in days, default: 30). Lower values prioritize recent context more aggressively.",
+  "agents.defaults.memorySearch.query.rerank.enabled":
+    "Runs a cross-encoder reranker over the top memory candidates before final scores are returned (default: false). Enable for long memory corpora where hybrid ranking surfaces loosely related snippets.",
+  "agents.defaults.memorySearch.query.rerank.provider":
+    'Selects the reranker backend: "local" runs a small GGUF cross-encoder on CPU via node-llama-cpp, while "remote" calls an OpenAI-compatible `/rerank` endpoint.',
+  "agents.defaults.memorySearch.query.rerank.model":
+    "Reranker model: a remote model id, or a GGUF path / hf: URI for the local provider. Leave unset to use the default bge-reranker GGUF locally.",
+  "agents.defaults.memorySearch.query.rerank.topN":
+    "Number of top candidates passed to the reranker (default: 20). Larger values improve recall at the cost of latency; candidates beyond this keep their original order.",
+  "agents.defaults.memorySearch.query.rerank.timeoutMs":
+    "Time budget for the rerank call in milliseconds (default: 5000). On timeout or error, search falls back to the hybrid ordering.",
+  "agents.defaults.memorySearch.query.rerank.modelCacheDir":
+    "Optional cache directory for downloaded local reranker models. Use this to keep GGUF files on a specific volume.",
+  "agents.defaults.memorySearch.query.rerank.remote.baseUrl":
+    "Base URL for the remote rerank API; requests go to `<baseUrl>/rerank` with Cohere/Jina-style `{ model, query, documents }` payloads.",
+  "agents.defaults.memorySearch.query.rerank.remote.apiKey":
+    "Bearer token for the remote rerank API. Store it via secrets or environment substitution rather than plaintext config.",
+  "agents.defaults.memorySearch.query.rerank.remote.headers":
+    "Extra HTTP headers sent with remote rerank requests. Use for gateway routing or tenant headers required by your rerank host.",
   "agents.defaults.memorySearch.cache.enabled":
     "Caches computed chunk embeddings in SQLite so reindexing and incremental updates run faster (default: true). Keep this enabled unless investigating cache correctness or minimizing disk usage.",
   memory: "Memory backend configuration (global).",
@@ -905,6 +1031,39 @@ export const FIELD_HELP: Record<string, string> = {
   "agents.defaults.imageModel.primary":
     "Optional image model (provider/model) used when the primary model lacks image input.",
   "agents.defaults.imageModel.fallbacks": "Ordered fallback image models (provider/model).",
+  "agents.defaults.modelRouter":
+    "Per-turn model routing: picks a tier (and its model) for each turn from rules or a classifier, so short or simple turns avoid the expensive primary. Skipped while a session /model override, channel model override, or heartbeat model applies.",
+  "agents.defaults.modelRouter.enabled": "Enable per-turn model routing (default: false).",
+  "agents.defaults.modelRouter.tiers":
+    "Named tiers keyed by tier name, each pointing at a model (provider/model or alias) with an optional description used by the classifier.",
+  "agents.defaults.modelRouter.tiers.*.model": "Model for this tier (provider/model or alias).",
+  "agents.defaults.modelRouter.tiers.*.description":
+    "What this tier is for, shown to the classifier model (for example: greetings, thanks, and short factual questions).",
+  "agents.defaults.modelRouter.rules":
+    "Ordered routing rules; the first rule whose conditions all hold picks its tier. Conditions cover message length, attachments, code, channel, keywords, and explicit /think levels.",
+  "agents.defaults.modelRouter.rules[].tier": "Tier selected when this rule matches.",
+  "agents.defaults.modelRouter.rules[].minChars":
+    "Minimum message length in characters, measured after directives are stripped.",
+  "agents.defaults.modelRouter.rules[].maxChars":
+    "Maximum message length in characters, measured after directives are stripped.",
+  "agents.defaults.modelRouter.rules[].attachments":
+    "Require (true) or exclude (false) turns that carry attachments.",
+  "agents.defaults.modelRouter.rules[].code":
+    "Require (true) or exclude (false) turns containing code (fenced or inline code, or code-like lines).",
+  "agents.defaults.modelRouter.rules[].channels":
+    'Only match turns arriving on these channels (for example "telegram" or "slack").',
+  "agents.defaults.modelRouter.rules[].keywords":
+    'Match when the message contains any of these phrases, case-insensitive (for example "think hard").',
+  "agents.defaults.modelRouter.rules[].thinking":
+    'Match when an explicit /think directive on the turn sets one of these levels (for example ["high", "xhigh"]).',
+  "agents.defaults.modelRouter.defaultTier":
+    "Tier used when no rule matches and the classifier gives no answer. Leave unset to keep the primary model.",
+  "agents.defaults.modelRouter.classifier":
+    "Optional cheap model asked to pick a tier when no rule matches, using the tier descriptions.",
+  "agents.defaults.modelRouter.classifier.model":
+    "Classifier model (provider/model or alias). Keep it small; it runs before every unmatched turn.",
+  "agents.defaults.modelRouter.classifier.timeoutMs":
+    "Classifier time budget in milliseconds before falling back to the default tier (default: 5000).",
   "agents.defaults.imageMaxDimensionPx":
     "Max image side length in pixels when sanitizing transcript/tool-result image payloads (default: 1200).",
   "agents.defaults.cliBackends": "Optional CLI backends for text-only fallback (claude-cli, etc.).",
@@ -999,6 +1158,8 @@ export const FIELD_HELP: Record<string, string> = {
     "Provides channel-specific reset overrides keyed by provider/channel id for fine-grained behavior control. Use this only when one channel needs exceptional reset behavior beyond type-level policies.",
   "session.store":
     "Sets the session storage file path used to persist session records across restarts. Use an explicit path only when you need custom disk layout, backup routing, or mounted-volume storage.",
+  "session.storeBackend":
+    'Selects how session records are stored: "json" (default) rewrites one sessions.json per agent, while "sqlite" keeps an indexed sessions.sqlite with per-row transactional updates. Switch to "sqlite" once you have thousands of group or thread sessions; existing JSON stores are imported on the next write.',
   "session.typingIntervalSeconds":
     "Controls interval for repeated typing indicators while replies are being prepared in typing-capable channels. Increase to reduce chatty updates or decrease for more active typing feedback.",
   "session.typingMode":
@@ -1074,6 +1235,20 @@ export const FIELD_HELP: Record<string, string> = {
     "Maximum bytes per cron run-log file before pruning rewrites to the last keepLines entries (for example `2mb`, default `2000000`).",
   "cron.runLog.keepLines":
     "How many trailing run-log lines to retain when a file exceeds maxBytes (default `2000`). Increase for longer forensic history or lower for smaller disks.",
+  budgets:
+    "Spend budgets that cap estimated USD cost and token usage per agent, session key, and channel account. Budgets are checked before each embedded model call using local transcript usage, so they bound runaway loops without relying on provider-side quotas.",
+  "budgets.enabled":
+    "Enables budget enforcement when limits are configured (default: on). Set false to keep limits in config for reporting via `/budget` and `usage.budget` while temporarily disabling warnings and hard stops.",
+  "budgets.warnAt":
+    "Fraction of a limit (0-1) at which a one-time warning notice is appended to replies for the current day or month (default `0.8`). Lower it to get earlier notice before a hard stop.",
+  "budgets.onLimit":
+    'Behavior once any limit is reached: `"stop"` blocks further model calls until the window resets, while `"warn"` keeps running and only notifies. Use `"warn"` while calibrating limits, then switch to `"stop"`.',
+  "budgets.agents":
+    'Per-agent limits keyed by agent id, for example `{ "main": { "dailyUsd": 5 } }`. Use `"*"` to apply the same limits to every agent that has no explicit entry.',
+  "budgets.sessions":
+    'Per-session limits keyed by session key, for example `{ "agent:main:main": { "dailyTokens": 500000 } }`. Use `"*"` as a default cap for every session, which is the simplest guard against a single runaway subagent.',
+  "budgets.channels":
+    'Per-channel limits keyed by channel id or `<channel>:<accountId>`, for example `{ "telegram": { "monthlyUsd": 20 }, "discord:work": { "dailyUsd": 2 } }`. Usage is summed across sessions last routed through that channel account.',
   hooks:
     "Inbound webhook automation surface for mapping external events into wake or agent actions in OpenClaw. Keep this locked down with explicit token/session/agent controls before exposing it beyond trusted networks.",
   "hooks.enabled":
@@ -1140,6 +1315,22 @@ export const FIELD_HELP: Record<string, string> = {
     "Relative transform module path loaded from hooks.transformsDir to rewrite incoming payloads before delivery. Keep modules local, reviewed, and free of path traversal patterns.",
   "hooks.mappings[].transform.export":
     "Named export to invoke from the transform module; defaults to module default export when omitted. Set this when one file hosts multiple transform handlers.",
+  "hooks.mappings[].verify":
+    "Signature verification for this mapping so providers such as GitHub, Stripe, or Slack can call the hook directly without the shared token. Requires match.path; requests to that path must carry a valid signature and the hooks token is not accepted there.",
+  "hooks.mappings[].verify.scheme":
+    'Signature format: "hmac-sha256" (generic, configure header/prefix yourself), "github" (X-Hub-Signature-256), "stripe" (Stripe-Signature), or "slack" (X-Slack-Signature with request timestamp). Presets set header, prefix, and timestamp handling.',
+  "hooks.mappings[].verify.secret":
+    "Signing secret shared with the webhook provider, as plaintext or a SecretRef resolved by the secrets runtime. Prefer a SecretRef so the secret stays out of the config file.",
+  "hooks.mappings[].verify.header":
+    'Request header carrying the signature (generic default: "x-signature-256"). Override only when a provider uses a non-standard header for its preset.',
+  "hooks.mappings[].verify.prefix":
+    'Prefix stripped from the signature header before comparing digests, for example "sha256=". Leave unset when the header carries the bare digest.',
+  "hooks.mappings[].verify.encoding":
+    'Digest encoding used in the signature header: "hex" (default) or "base64".',
+  "hooks.mappings[].verify.timestampHeader":
+    "Header carrying the signing time (unix seconds or milliseconds). When set on the generic scheme, the signed payload is `<timestamp>.<body>` and stale requests are rejected.",
+  "hooks.mappings[].verify.toleranceSeconds":
+    "Maximum allowed age of the signing timestamp in seconds for replay protection (default: 300). Applies to Stripe, Slack, and generic schemes with a timestamp header.",
   "hooks.gmail":
     "Gmail push integration settings used for Pub/Sub notifications and optional local callback serving. Keep this scoped to dedicated Gmail automation accounts where possible.",
   "hooks.gmail.account":
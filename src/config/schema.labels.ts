@@ -142,6 +142,19 @@ export const FIELD_LABELS: Record<string, string> = {
   "tools.media.video.attachments": "Video Understanding Attachment Policy",
   "tools.media.video.models": "Video Understanding Models",
   "tools.media.video.scope": "Video Understanding Scope",
+  "tools.media.document.enabled": "Enable Document Extraction",
+  "tools.media.document.maxBytes": "Document Extraction Max Bytes",
+  "tools.media.document.maxChars": "Document Extraction Max Chars",
+  "tools.media.document.prompt": "Document Vision Fallback Prompt",
+  "tools.media.document.timeoutSeconds": "Document Vision Fallback Timeout (sec)",
+  "tools.media.document.attachments": "Document Extraction Attachment Policy",
+  "tools.media.document.models": "Document Vision Fallback Models",
+  "tools.media.document.scope": "Document Extraction Scope",
+  "tools.media.document.maxPages": "Document Extraction Max PDF Pages",
+  "tools.media.document.chunkChars": "Document Extraction Chunk Size (chars)",
+  "tools.media.document.minPageTextChars": "Document Scanned Page Threshold (chars)",
+  "tools.media.document.visionFallback": "Document Vision Fallback",
+  "tools.media.document.visionMaxPages": "Document Vision Fallback Max Pages",
   "tools.links.enabled": "Enable Link Understanding",
   "tools.links.maxLinks": "Link Understanding Max Links",
   "tools.links.timeoutSeconds": "Link Understanding Timeout (sec)",
@@ -164,7 +177,37 @@ export const FIELD_LABELS: Record<string, string> = {
   "tools.loopDetection.detectors.genericRepeat": "Tool-loop Generic Repeat Detection",
   "tools.loopDetection.detectors.knownPollNoProgress": "Tool-loop Poll No-Progress Detection",
   "tools.loopDetection.detectors.pingPong": "Tool-loop Ping-Pong Detection",
+  "tools.approvals": "Tool Approvals",
+  "tools.approvals.enabled": "Tool Approvals Enabled",
+  "tools.approvals.rules": "Tool Approval Rules",
+  "tools.approvals.rules[].tool": "Tool Approval Rule Tool",
+  "tools.approvals.rules[].actions": "Tool Approval Rule Actions",
+  "tools.approvals.rules[].args": "Tool Approval Rule Args",
+  "tools.approvals.timeoutMs": "Tool Approval Timeout (ms)",
+  "tools.argRules": "Tool Argument Rules",
+  "tools.argRules[].tools": "Tool Argument Rule Tools",
+  "tools.argRules[].actions": "Tool Argument Rule Actions",
+  "tools.argRules[].args": "Tool Argument Rule Conditions",
+  "tools.argRules[].args.*.allow": "Tool Argument Allow Globs",
+  "tools.argRules[].args.*.deny": "Tool Argument Deny Globs",
+  "tools.argRules[].args.*.pattern": "Tool Argument Pattern",
+  "tools.argRules[].args.*.domains": "Tool Argument Allowed Domains",
+  "tools.argRules[].args.*.paths": "Tool Argument Allowed Paths",
+  "tools.argRules[].args.*.sameChat": "Tool Argument Same Chat Only",
+  "tools.argRules[].message": "Tool Argument Rule Message",
   "tools.fs.workspaceOnly": "Workspace-only FS tools",
+  "tools.mcp": "MCP Servers",
+  "tools.mcp.servers": "MCP Server Definitions",
+  "tools.mcp.servers.*.enabled": "MCP Server Enabled",
+  "tools.mcp.servers.*.command": "MCP Server Command",
+  "tools.mcp.servers.*.args": "MCP Server Args",
+  "tools.mcp.servers.*.env": "MCP Server Env",
+  "tools.mcp.servers.*.cwd": "MCP Server Working Directory",
+  "tools.mcp.servers.*.url": "MCP Server URL",
+  "tools.mcp.servers.*.headers": "MCP Server Headers",
+  "tools.mcp.servers.*.requestTimeoutMs": "MCP Request Timeout (ms)",
+  "tools.mcp.servers.*.startupTimeoutMs": "MCP Startup Timeout (ms)",
+  "agents.list[].tools.mcp": "Agent MCP Servers",
   "tools.sessions.visibility": "Session Tools Visibility",
   "tools.exec.notifyOnExit": "Exec Notify On Exit",
   "tools.exec.notifyOnExitEmptySuccess": "Exec Notify On Empty Success",
@@ -221,6 +264,11 @@ export const FIELD_LABELS: Record<string, string> = {
   "tools.web.search.kimi.apiKey": "Kimi Search API Key",
   "tools.web.search.kimi.baseUrl": "Kimi Search Base URL",
   "tools.web.search.kimi.model": "Kimi Search Model",
+  "tools.web.search.searxng.baseUrl": "SearXNG Base URL",
+  "tools.web.search.searxng.engines": "SearXNG Engines",
+  "tools.web.search.searxng.categories": "SearXNG Categories",
+  "tools.web.search.searxng.safeSearch": "SearXNG Safe Search",
+  "tools.web.search.searxng.language": "SearXNG Language",
   "tools.web.fetch.enabled": "Enable Web Fetch Tool",
   "tools.web.fetch.maxChars": "Web Fetch Max Chars",
   "tools.web.fetch.maxCharsCap": "Web Fetch Hard Max Chars",
@@ -229,6 +277,7 @@ export const FIELD_LABELS: Record<string, string> = {
   "tools.web.fetch.maxRedirects": "Web Fetch Max Redirects",
   "tools.web.fetch.userAgent": "Web Fetch User-Agent",
   "tools.web.fetch.readability": "Web Fetch Readability Extraction",
+  "tools.web.fetch.provider": "Web Fetch Fallback Provider",
   "tools.web.fetch.firecrawl.enabled": "Enable Firecrawl Fallback",
   "tools.web.fetch.firecrawl.apiKey": "Firecrawl API Key",
   "tools.web.fetch.firecrawl.baseUrl": "Firecrawl Base URL",
@@ -243,6 +292,9 @@ export const FIELD_LABELS: Record<string, string> = {
   "gateway.controlUi.allowInsecureAuth": "Insecure Control UI Auth Toggle",
   "gateway.controlUi.dangerouslyDisableDeviceAuth": "Dangerously Disable Control UI Device Auth",
   "gateway.http.endpoints.chatCompletions.enabled": "OpenAI Chat Completions Endpoint",
+  "gateway.http.endpoints.mcp.enabled": "MCP Endpoint",
+  "gateway.http.endpoints.metrics.enabled": "Prometheus Metrics Endpoint",
+  "gateway.http.endpoints.metrics.token": "Prometheus Scrape Token",
   "gateway.reload.mode": "Config Reload Mode",
   "gateway.reload.debounceMs": "Config Reload Debounce (ms)",
   "gateway.nodes.browser.mode": "Gateway Node Browser Mode",
@@ -323,6 +375,15 @@ export const FIELD_LABELS: Record<string, string> = {
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.enabled": "Memory Search Temporal Decay",
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.halfLifeDays":
     "Memory Search Temporal Decay Half-life (Days)",
+  "agents.defaults.memorySearch.query.rerank.enabled": "Memory Search Rerank",
+  "agents.defaults.memorySearch.query.rerank.provider": "Memory Search Rerank Provider",
+  "agents.defaults.memorySearch.query.rerank.model": "Memory Search Rerank Model",
+  "agents.defaults.memorySearch.query.rerank.topN": "Memory Search Rerank Top N",
+  "agents.defaults.memorySearch.query.rerank.timeoutMs": "Memory Search Rerank Timeout (ms)",
+  "agents.defaults.memorySearch.query.rerank.modelCacheDir": "Memory Search Rerank Model Cache Dir",
+  "agents.defaults.memorySearch.query.rerank.remote.baseUrl": "Memory Search Rerank Base URL",
+  "agents.defaults.memorySearch.query.rerank.remote.apiKey": "Memory Search Rerank API Key",
+  "agents.defaults.memorySearch.query.rerank.remote.headers": "Memory Search Rerank Headers",
   "agents.defaults.memorySearch.cache.enabled": "Memory Search Embedding Cache",
   "agents.defaults.memorySearch.cache.maxEntries": "Memory Search Embedding Cache Max Entries",
   memory: "Memory",
@@ -381,6 +442,11 @@ export const FIELD_LABELS: Record<string, string> = {
   "models.providers.*.headers": "Model Provider Headers",
   "models.providers.*.authHeader": "Model Provider Authorization Header",
   "models.providers.*.models": "Model Provider Model List",
+  "models.providers.*.replay": "Model Provider Replay",
+  "models.providers.*.replay.cassetteDir": "Replay Cassette Directory",
+  "models.providers.*.replay.mode": "Replay Mode",
+  "models.providers.*.replay.match": "Replay Request Matching",
+  "models.providers.*.replay.recordFrom": "Replay Record From Model",
   "models.bedrockDiscovery": "Bedrock Model Discovery",
   "models.bedrockDiscovery.enabled": "Bedrock Discovery Enabled",
   "models.bedrockDiscovery.region": "Bedrock Discovery Region",
@@ -395,6 +461,24 @@ export const FIELD_LABELS: Record<string, string> = {
   "agents.defaults.models": "Models",
   "agents.defaults.model.primary": "Primary Model",
   "agents.defaults.model.fallbacks": "Model Fallbacks",
+  "agents.defaults.modelRouter": "Model Router",
+  "agents.defaults.modelRouter.enabled": "Model Router Enabled",
+  "agents.defaults.modelRouter.tiers": "Model Router Tiers",
+  "agents.defaults.modelRouter.tiers.*.model": "Model Router Tier Model",
+  "agents.defaults.modelRouter.tiers.*.description": "Model Router Tier Description",
+  "agents.defaults.modelRouter.rules": "Model Router Rules",
+  "agents.defaults.modelRouter.rules[].tier": "Model Router Rule Tier",
+  "agents.defaults.modelRouter.rules[].minChars": "Model Router Rule Min Chars",
+  "agents.defaults.modelRouter.rules[].maxChars": "Model Router Rule Max Chars",
+  "agents.defaults.modelRouter.rules[].attachments": "Model Router Rule Attachments",
+  "agents.defaults.modelRouter.rules[].code": "Model Router Rule Code",
+  "agents.defaults.modelRouter.rules[].channels": "Model Router Rule Channels",
+  "agents.defaults.modelRouter.rules[].keywords": "Model Router Rule Keywords",
+  "agents.defaults.modelRouter.rules[].thinking": "Model Router Rule Think Levels",
+  "agents.defaults.modelRouter.defaultTier": "Model Router Default Tier",
+  "agents.defaults.modelRouter.classifier": "Model Router Classifier",
+  "agents.defaults.modelRouter.classifier.model": "Model Router Classifier Model",
+  "agents.defaults.modelRouter.classifier.timeoutMs": "Model Router Classifier Timeout (ms)",
   "agents.defaults.imageModel.primary": "Image Model",
   "agents.defaults.imageModel.fallbacks": "Image Model Fallbacks",
   "agents.defaults.imageMaxDimensionPx": "Image Max Dimension (px)",
@@ -471,6 +555,7 @@ export const FIELD_LABELS: Record<string, string> = {
   "session.resetByType.thread": "Session Reset (Thread)",
   "session.resetByChannel": "Session Reset by Channel",
   "session.store": "Session Store Path",
+  "session.storeBackend": "Session Store Backend",
   "session.typingIntervalSeconds": "Session Typing Interval (seconds)",
   "session.typingMode": "Session Typing Mode",
   "session.parentForkMaxTokens": "Session Parent Fork Max Tokens",
@@ -509,6 +594,13 @@ export const FIELD_LABELS: Record<string, string> = {
   "cron.runLog": "Cron Run Log Pruning",
   "cron.runLog.maxBytes": "Cron Run Log Max Bytes",
   "cron.runLog.keepLines": "Cron Run Log Keep Lines",
+  budgets: "Budgets",
+  "budgets.enabled": "Budgets Enabled",
+  "budgets.warnAt": "Budget Warning Threshold",
+  "budgets.onLimit": "Budget Limit Action",
+  "budgets.agents": "Agent Budgets",
+  "budgets.sessions": "Session Budgets",
+  "budgets.channels": "Channel Budgets",
   hooks: "Hooks",
   "hooks.enabled": "Hooks Enabled",
   "hooks.path": "Hooks Endpoint Path",
@@ -542,6 +634,14 @@ export const FIELD_LABELS: Record<string, string> = {
   "hooks.mappings[].transform": "Hook Mapping Transform",
   "hooks.mappings[].transform.module": "Hook Transform Module",
   "hooks.mappings[].transform.export": "Hook Transform Export",
+  "hooks.mappings[].verify": "Hook Mapping Signature Verification",
+  "hooks.mappings[].verify.scheme": "Hook Signature Scheme",
+  "hooks.mappings[].verify.secret": "Hook Signing Secret",
+  "hooks.mappings[].verify.header": "Hook Signature Header",
+  "hooks.mappings[].verify.prefix": "Hook Signature Prefix",
+  "hooks.mappings[].verify.encoding": "Hook Signature Encoding",
+  "hooks.mappings[].verify.timestampHeader": "Hook Signature Timestamp Header",
+  "hooks.mappings[].verify.toleranceSeconds": "Hook Signature Tolerance (sec)",
   "hooks.gmail": "Gmail Hook",
   "hooks.gmail.account": "Gmail Hook Account",
   "hooks.gmail.label": "Gmail Hook Label",
@@ -64,6 +64,7 @@ const PREFIX_RULES: Array<{ prefix: string; tags: ConfigTag[] }> = [
   { prefix: "diagnostics.", tags: ["observability"] },
   { prefix: "logging.", tags: ["observability"] },
   { prefix: "cron.", tags: ["automation"] },
+  { prefix: "budgets.", tags: ["models"] },
   { prefix: "talk.", tags: ["media"] },
   { prefix: "audio.", tags: ["media"] },
 ];
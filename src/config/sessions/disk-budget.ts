@@ -117,12 +117,23 @@ function resolveReferencedSessionTranscriptPaths(params: {
 }): Set<string> {
   const referenced = new Set<string>();
   for (const entry of Object.values(params.store)) {
-    const resolved = resolveSessionTranscriptPathForEntry({
-      sessionsDir: params.sessionsDir,
+    // Inactive branches are still reachable through sessions.switch.
+    const transcripts = [
       entry,
-    });
-    if (resolved) {
-      referenced.add(canonicalizePathForComparison(resolved));
+      ...(entry.branches ?? []).map((branch) => ({
+        ...entry,
+        sessionId: branch.sessionId,
+        sessionFile: branch.sessionFile,
+      })),
+    ];
+    for (const transcript of transcripts) {
+      const resolved = resolveSessionTranscriptPathForEntry({
+        sessionsDir: params.sessionsDir,
+        entry: transcript,
+      });
+      if (resolved) {
+        referenced.add(canonicalizePathForComparison(resolved));
+      }
     }
   }
   return referenced;
@@ -0,0 +1,339 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { DatabaseSync } from "node:sqlite";
+import { requireNodeSqlite } from "../../memory/sqlite.js";
+import { parseAgentSessionKey } from "../../sessions/session-key-utils.js";
+import type { SessionEntry } from "./types.js";
+
+// ============================================================================
+// SQLite session store backend (`session.storeBackend: "sqlite"`)
+// ============================================================================
+//
+// One row per session key, with the entry kept as JSON plus indexed columns
+// for key, agent, channel and updatedAt lookups. Writes are diffed against
+// the table and applied in one transaction, so a patch never rewrites
+// unrelated sessions. Cross-process ordering still comes from the
+// `sessions.json.lock` file lock in store.ts.
+
+const SCHEMA_VERSION = 1;
+const BUSY_TIMEOUT_MS = 5_000;
+
+const DATABASES = new Map<string, DatabaseSync>();
+
+export type SqliteSessionRow = { key: string; entry: SessionEntry };
+
+export type SqliteSessionQuery = {
+  agentId?: string;
+  channel?: string;
+  /** Only entries with `updatedAt` at or after this epoch-ms timestamp. */
+  updatedAfter?: number;
+  limit?: number;
+};
+
+/** `sessions.json` -> `sessions.sqlite`, next to the JSON store it replaces. */
+export function resolveSqliteSessionStorePath(storePath: string): string {
+  const ext = path.extname(storePath);
+  return ext === ".json" ? `${storePath.slice(0, -ext.length)}.sqlite` : `${storePath}.sqlite`;
+}
+
+export function sqliteSessionStoreExists(storePath: string): boolean {
+  return fs.existsSync(resolveSqliteSessionStorePath(storePath));
+}
+
+function ensureSchema(db: DatabaseSync): void {
+  db.exec(`PRAGMA journal_mode = WAL`);
+  db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS meta (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS sessions (
+      key TEXT PRIMARY KEY,
+      key_lower TEXT NOT NULL,
+      session_id TEXT,
+      agent_id TEXT,
+      channel TEXT,
+      updated_at INTEGER,
+      entry TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_sessions_key_lower ON sessions(key_lower);
+    CREATE INDEX IF NOT EXISTS idx_sessions_agent ON sessions(agent_id, updated_at);
+    CREATE INDEX IF NOT EXISTS idx_sessions_channel ON sessions(channel, updated_at);
+    CREATE INDEX IF NOT EXISTS idx_sessions_updated_at ON sessions(updated_at);
+    CREATE INDEX IF NOT EXISTS idx_sessions_session_id ON sessions(session_id);
+  `);
+  const row = db.prepare(`SELECT value FROM meta WHERE key = 'schema_version'`).get() as
+    | { value: string }
+    | undefined;
+  const version = row ? Number(row.value) : 0;
+  if (version > SCHEMA_VERSION) {
+    throw new Error(
+      `Session store schema version ${version} is newer than supported (${SCHEMA_VERSION}); upgrade OpenClaw.`,
+    );
+  }
+  if (version < SCHEMA_VERSION) {
+    db.prepare(`INSERT OR REPLACE INTO meta (key, value) VALUES ('schema_version', ?)`).run(
+      String(SCHEMA_VERSION),
+    );
+  }
+}
+
+function openSessionDb(storePath: string, opts: { create: boolean }): DatabaseSync | null {
+  const dbPath = resolveSqliteSessionStorePath(storePath);
+  const cached = DATABASES.get(dbPath);
+  if (cached) {
+    // The file can be moved away under us (restore, manual cleanup); reopen in that case.
+    if (fs.existsSync(dbPath)) {
+      return cached;
+    }
+    cached.close();
+    DATABASES.delete(dbPath);
+  }
+  if (!opts.create && !fs.existsSync(dbPath)) {
+    return null;
+  }
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const { DatabaseSync } = requireNodeSqlite();
+  const db = new DatabaseSync(dbPath);
+  try {
+    ensureSchema(db);
+  } catch (err) {
+    db.close();
+    throw err;
+  }
+  try {
+    fs.chmodSync(dbPath, 0o600);
+  } catch {
+    // Best-effort; matches the JSON store's permissions where supported.
+  }
+  DATABASES.set(dbPath, db);
+  return db;
+}
+
+function withTransaction<T>(db: DatabaseSync, fn: () => T): T {
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    const result = fn();
+    db.prepare(
+      `INSERT INTO meta (key, value) VALUES ('revision', '1')
+       ON CONFLICT(key) DO UPDATE SET value = CAST(CAST(value AS INTEGER) + 1 AS TEXT)`,
+    ).run();
+    db.exec("COMMIT");
+    return result;
+  } catch (err) {
+    db.exec("ROLLBACK");
+    throw err;
+  }
+}
+
+function resolveEntryChannel(entry: SessionEntry): string | null {
+  return entry.channel ?? entry.lastChannel ?? entry.deliveryContext?.channel ?? null;
+}
+
+function parseEntry(raw: string): SessionEntry | undefined {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === "object" ? (parsed as SessionEntry) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function toRows(rows: unknown[]): SqliteSessionRow[] {
+  const result: SqliteSessionRow[] = [];
+  for (const row of rows as Array<{ key: string; entry: string }>) {
+    const entry = parseEntry(row.entry);
+    if (entry) {
+      result.push({ key: row.key, entry });
+    }
+  }
+  return result;
+}
+
+/** Monotonic write counter; changes whenever any process commits to the store. */
+export function readSqliteSessionStoreRevision(storePath: string): number | undefined {
+  const db = openSessionDb(storePath, { create: false });
+  if (!db) {
+    return undefined;
+  }
+  const row = db.prepare(`SELECT value FROM meta WHERE key = 'revision'`).get() as
+    | { value: string }
+    | undefined;
+  return row ? Number(row.value) : 0;
+}
+
+/** Loads the whole store, or null when the database does not exist yet. */
+export function readSqliteSessionStore(
+  storePath: string,
+): { store: Record<string, SessionEntry>; revision: number } | null {
+  const db = openSessionDb(storePath, { create: false });
+  if (!db) {
+    return null;
+  }
+  // Read rows and revision in one snapshot so the cache never pairs old rows with a new revision.
+  db.exec("BEGIN");
+  try {
+    const rows = toRows(db.prepare(`SELECT key, entry FROM sessions`).all());
+    const revisionRow = db.prepare(`SELECT value FROM meta WHERE key = 'revision'`).get() as
+      | { value: string }
+      | undefined;
+    const store: Record<string, SessionEntry> = {};
+    for (const row of rows) {
+      store[row.key] = row.entry;
+    }
+    return { store, revision: revisionRow ? Number(revisionRow.value) : 0 };
+  } finally {
+    db.exec("COMMIT");
+  }
+}
+
+/** Rows whose key matches case-insensitively (canonical key plus legacy mixed-case variants). */
+export function findSqliteSessionEntries(
+  storePath: string,
+  sessionKey: string,
+): SqliteSessionRow[] | null {
+  const db = openSessionDb(storePath, { create: false });
+  if (!db) {
+    return null;
+  }
+  return toRows(
+    db
+      .prepare(`SELECT key, entry FROM sessions WHERE key_lower = ?`)
+      .all(sessionKey.trim().toLowerCase()),
+  );
+}
+
+export function querySqliteSessionEntries(
+  storePath: string,
+  query: SqliteSessionQuery,
+): SqliteSessionRow[] | null {
+  const db = openSessionDb(storePath, { create: false });
+  if (!db) {
+    return null;
+  }
+  const clauses: string[] = [];
+  const params: Array<string | number> = [];
+  if (query.agentId) {
+    clauses.push("agent_id = ?");
+    params.push(query.agentId.trim().toLowerCase());
+  }
+  if (query.channel) {
+    clauses.push("channel = ?");
+    params.push(query.channel.trim().toLowerCase());
+  }
+  if (query.updatedAfter !== undefined) {
+    clauses.push("updated_at >= ?");
+    params.push(query.updatedAfter);
+  }
+  const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+  const limit =
+    query.limit !== undefined && query.limit > 0 ? `LIMIT ${Math.floor(query.limit)}` : "";
+  return toRows(
+    db
+      .prepare(
+        `SELECT key, entry FROM sessions ${where} ORDER BY updated_at IS NULL, updated_at DESC ${limit}`,
+      )
+      .all(...params),
+  );
+}
+
+function upsertRow(db: DatabaseSync, key: string, entry: SessionEntry, json: string): void {
+  db.prepare(
+    `INSERT INTO sessions (key, key_lower, session_id, agent_id, channel, updated_at, entry)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(key) DO UPDATE SET
+       key_lower = excluded.key_lower,
+       session_id = excluded.session_id,
+       agent_id = excluded.agent_id,
+       channel = excluded.channel,
+       updated_at = excluded.updated_at,
+       entry = excluded.entry`,
+  ).run(
+    key,
+    key.toLowerCase(),
+    entry.sessionId ?? null,
+    parseAgentSessionKey(key)?.agentId ?? null,
+    resolveEntryChannel(entry)?.toLowerCase() ?? null,
+    typeof entry.updatedAt === "number" ? entry.updatedAt : null,
+    json,
+  );
+}
+
+/**
+ * Makes the table match `store`: changed rows are upserted, missing rows
+ * deleted, unchanged rows left alone. Creates the database when needed.
+ */
+export function writeSqliteSessionStore(
+  storePath: string,
+  store: Record<string, SessionEntry>,
+): { upserted: number; deleted: number } {
+  const db = openSessionDb(storePath, { create: true })!;
+  return withTransaction(db, () => {
+    const existing = new Map<string, string>();
+    for (const row of db.prepare(`SELECT key, entry FROM sessions`).all() as Array<{
+      key: string;
+      entry: string;
+    }>) {
+      existing.set(row.key, row.entry);
+    }
+    let upserted = 0;
+    for (const [key, entry] of Object.entries(store)) {
+      if (!entry) {
+        continue;
+      }
+      const json = JSON.stringify(entry);
+      if (existing.get(key) !== json) {
+        upsertRow(db, key, entry, json);
+        upserted++;
+      }
+      existing.delete(key);
+    }
+    const remove = db.prepare(`DELETE FROM sessions WHERE key = ?`);
+    for (const key of existing.keys()) {
+      remove.run(key);
+    }
+    return { upserted, deleted: existing.size };
+  });
+}
+
+/** Applies a row-level patch in one transaction without touching other sessions. */
+export function patchSqliteSessionStore(
+  storePath: string,
+  patch: { upsert?: Record<string, SessionEntry>; remove?: string[] },
+): void {
+  const db = openSessionDb(storePath, { create: true })!;
+  withTransaction(db, () => {
+    for (const [key, entry] of Object.entries(patch.upsert ?? {})) {
+      upsertRow(db, key, entry, JSON.stringify(entry));
+    }
+    const remove = db.prepare(`DELETE FROM sessions WHERE key = ?`);
+    for (const key of patch.remove ?? []) {
+      remove.run(key);
+    }
+  });
+}
+
+/** `PRAGMA quick_check` result; `ok` when the database is healthy. */
+export function checkSqliteSessionStore(storePath: string): string | null {
+  const db = openSessionDb(storePath, { create: false });
+  if (!db) {
+    return null;
+  }
+  const row = db.prepare(`PRAGMA quick_check`).get() as { quick_check?: unknown } | undefined;
+  return typeof row?.quick_check === "string" ? row.quick_check : "unknown";
+}
+
+/** Closes the cached connection (before moving or deleting the database file). */
+export function closeSqliteSessionStore(storePath: string): void {
+  const dbPath = resolveSqliteSessionStorePath(storePath);
+  DATABASES.get(dbPath)?.close();
+  DATABASES.delete(dbPath);
+}
+
+export function closeSqliteSessionStoresForTest(): void {
+  for (const db of DATABASES.values()) {
+    db.close();
+  }
+  DATABASES.clear();
+}
@@ -0,0 +1,176 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  closeSqliteSessionStoresForTest,
+  readSqliteSessionStoreRevision,
+  resolveSqliteSessionStorePath,
+} from "./store-sqlite.js";
+import {
+  clearSessionStoreCacheForTest,
+  listSessionStoreEntries,
+  loadSessionStore,
+  migrateSessionStoreBackend,
+  readSessionStoreEntry,
+  saveSessionStore,
+  updateSessionStore,
+  updateSessionStoreEntry,
+} from "./store.js";
+import type { SessionEntry } from "./types.js";
+
+vi.mock("../config.js", () => ({
+  loadConfig: vi.fn().mockReturnValue({ session: { storeBackend: "sqlite" } }),
+}));
+const { loadConfig } = await import("../config.js");
+const mockLoadConfig = vi.mocked(loadConfig) as ReturnType<typeof vi.fn>;
+
+let root = "";
+let storePath = "";
+
+function entry(sessionId: string, updatedAt: number, extra?: Partial<SessionEntry>): SessionEntry {
+  return { sessionId, updatedAt, ...extra };
+}
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-sessions-sqlite-"));
+  storePath = path.join(root, "sessions.json");
+  mockLoadConfig.mockReturnValue({ session: { storeBackend: "sqlite" } });
+  clearSessionStoreCacheForTest();
+});
+
+afterEach(async () => {
+  clearSessionStoreCacheForTest();
+  closeSqliteSessionStoresForTest();
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("sqlite session store", () => {
+  it("imports the JSON store on the first write and retires the JSON file", async () => {
+    await fs.writeFile(
+      storePath,
+      JSON.stringify({ "agent:main:main": entry("s1", 1), "agent:main:other": entry("s2", 2) }),
+    );
+
+    // Until the first write, reads fall back to sessions.json.
+    expect(Object.keys(loadSessionStore(storePath))).toHaveLength(2);
+
+    await updateSessionStore(
+      storePath,
+      (store) => {
+        store["agent:main:new"] = entry("s3", 3);
+      },
+      { skipMaintenance: true },
+    );
+
+    await expect(fs.access(storePath)).rejects.toThrow();
+    const files = await fs.readdir(root);
+    expect(files.some((name) => name.startsWith("sessions.json.bak."))).toBe(true);
+    expect(files).toContain("sessions.sqlite");
+    expect(Object.keys(loadSessionStore(storePath, { skipCache: true })).toSorted()).toEqual([
+      "agent:main:main",
+      "agent:main:new",
+      "agent:main:other",
+    ]);
+  });
+
+  it("only rewrites rows that changed", async () => {
+    await saveSessionStore(
+      storePath,
+      { "agent:main:a": entry("a", 1), "agent:main:b": entry("b", 2) },
+      { skipMaintenance: true },
+    );
+    const before = readSqliteSessionStoreRevision(storePath);
+
+    await updateSessionStoreEntry({
+      storePath,
+      sessionKey: "agent:main:a",
+      update: async () => ({ label: "renamed", updatedAt: 5 }),
+    });
+
+    expect(readSqliteSessionStoreRevision(storePath)).toBe((before ?? 0) + 1);
+    expect(readSessionStoreEntry({ storePath, sessionKey: "AGENT:MAIN:A" })?.label).toBe("renamed");
+    expect(readSessionStoreEntry({ storePath, sessionKey: "agent:main:b" })?.updatedAt).toBe(2);
+  });
+
+  it("folds legacy mixed-case keys into the canonical key on row-level patches", async () => {
+    await saveSessionStore(
+      storePath,
+      { "agent:main:Telegram:Group:1": entry("g", 1) },
+      { skipMaintenance: true },
+    );
+
+    await updateSessionStoreEntry({
+      storePath,
+      sessionKey: "agent:main:telegram:group:1",
+      update: async () => ({ updatedAt: 2 }),
+    });
+
+    expect(Object.keys(loadSessionStore(storePath))).toEqual(["agent:main:telegram:group:1"]);
+  });
+
+  it("filters by agent, channel and updatedAt through the indexes", async () => {
+    await saveSessionStore(
+      storePath,
+      {
+        "agent:main:telegram:group:1": entry("t1", 100, { channel: "telegram" }),
+        "agent:main:discord:channel:2": entry("d1", 300, { channel: "discord" }),
+        "agent:ops:telegram:group:3": entry("t2", 200, { channel: "telegram" }),
+      },
+      { skipMaintenance: true },
+    );
+
+    expect(
+      listSessionStoreEntries({ storePath, channel: "telegram" }).map((row) => row.key),
+    ).toEqual(["agent:ops:telegram:group:3", "agent:main:telegram:group:1"]);
+    expect(listSessionStoreEntries({ storePath, agentId: "main", updatedAfter: 200 })).toEqual([
+      { key: "agent:main:discord:channel:2", entry: expect.objectContaining({ sessionId: "d1" }) },
+    ]);
+    expect(listSessionStoreEntries({ storePath, limit: 1 }).map((row) => row.key)).toEqual([
+      "agent:main:discord:channel:2",
+    ]);
+  });
+
+  it("sees writes from other connections despite the cache", async () => {
+    await saveSessionStore(storePath, { "agent:main:a": entry("a", 1) }, { skipMaintenance: true });
+    expect(loadSessionStore(storePath)["agent:main:a"]?.sessionId).toBe("a");
+
+    // Simulate another process: a separate connection writing the same database.
+    const { DatabaseSync } = await import("node:sqlite");
+    const other = new DatabaseSync(resolveSqliteSessionStorePath(storePath));
+    other
+      .prepare(`UPDATE sessions SET entry = ? WHERE key = ?`)
+      .run(JSON.stringify(entry("changed", 2)), "agent:main:a");
+    other.exec(
+      `UPDATE meta SET value = CAST(CAST(value AS INTEGER) + 1 AS TEXT) WHERE key = 'revision'`,
+    );
+    other.close();
+
+    expect(loadSessionStore(storePath)["agent:main:a"]?.sessionId).toBe("changed");
+  });
+
+  it("exports back to JSON, newest entries winning", async () => {
+    await saveSessionStore(
+      storePath,
+      { "agent:main:a": entry("sqlite-a", 5), "agent:main:b": entry("sqlite-b", 1) },
+      { skipMaintenance: true },
+    );
+    await fs.writeFile(
+      storePath,
+      JSON.stringify({ "agent:main:b": entry("json-b", 9), "agent:main:c": entry("json-c", 1) }),
+    );
+
+    mockLoadConfig.mockReturnValue({ session: { storeBackend: "json" } });
+    const result = await migrateSessionStoreBackend({ storePath, to: "json" });
+
+    expect(result.migrated).toBe(1);
+    const exported = JSON.parse(await fs.readFile(storePath, "utf8")) as Record<
+      string,
+      SessionEntry
+    >;
+    expect(exported["agent:main:a"]?.sessionId).toBe("sqlite-a");
+    expect(exported["agent:main:b"]?.sessionId).toBe("json-b");
+    expect(exported["agent:main:c"]?.sessionId).toBe("json-c");
+    await expect(fs.access(resolveSqliteSessionStorePath(storePath))).rejects.toThrow();
+  });
+});
@@ -10,6 +10,7 @@ import {
   cleanupArchivedSessionTranscripts,
 } from "../../gateway/session-utils.fs.js";
 import { createSubsystemLogger } from "../../logging/subsystem.js";
+import { parseAgentSessionKey } from "../../sessions/session-key-utils.js";
 import {
   deliveryContextFromSession,
   mergeDeliveryContext,
@@ -19,9 +20,26 @@ import {
 } from "../../utils/delivery-context.js";
 import { getFileMtimeMs, isCacheEnabled, resolveCacheTtlMs } from "../cache-utils.js";
 import { loadConfig } from "../config.js";
-import type { SessionMaintenanceConfig, SessionMaintenanceMode } from "../types.base.js";
+import type {
+  SessionMaintenanceConfig,
+  SessionMaintenanceMode,
+  SessionStoreBackend,
+} from "../types.base.js";
+import { formatSessionArchiveTimestamp } from "./artifacts.js";
 import { enforceSessionDiskBudget, type SessionDiskBudgetSweepResult } from "./disk-budget.js";
 import { deriveSessionMetaPatch } from "./metadata.js";
+import {
+  closeSqliteSessionStore,
+  findSqliteSessionEntries,
+  patchSqliteSessionStore,
+  querySqliteSessionEntries,
+  readSqliteSessionStore,
+  readSqliteSessionStoreRevision,
+  resolveSqliteSessionStorePath,
+  sqliteSessionStoreExists,
+  writeSqliteSessionStore,
+  type SqliteSessionQuery,
+} from "./store-sqlite.js";
 import {
   mergeSessionEntry,
   normalizeSessionRuntimeModelFields,
@@ -38,7 +56,10 @@ type SessionStoreCacheEntry = {
   store: Record<string, SessionEntry>;
   loadedAt: number;
   storePath: string;
+  backend: SessionStoreBackend;
   mtimeMs?: number;
+  /** SQLite write counter at load time (exact change detection, unlike mtime). */
+  revision?: number;
 };
 
 const SESSION_STORE_CACHE = new Map<string, SessionStoreCacheEntry>();
@@ -69,6 +90,16 @@ function invalidateSessionStoreCache(storePath: string): void {
   SESSION_STORE_CACHE.delete(storePath);
 }
 
+/** `session.storeBackend` from openclaw.json; JSON when unset or config is unavailable. */
+export function resolveSessionStoreBackend(): SessionStoreBackend {
+  try {
+    return loadConfig().session?.storeBackend === "sqlite" ? "sqlite" : "json";
+  } catch {
+    // Config may not be available (e.g. in tests). Use the default.
+    return "json";
+  }
+}
+
 function normalizeSessionEntryDelivery(entry: SessionEntry): SessionEntry {
   const normalized = normalizeSessionDeliveryFields({
     channel: entry.channel,
@@ -195,24 +226,36 @@ type LoadSessionStoreOptions = {
   skipCache?: boolean;
 };
 
-export function loadSessionStore(
-  storePath: string,
-  opts: LoadSessionStoreOptions = {},
-): Record<string, SessionEntry> {
-  // Check cache first if enabled
-  if (!opts.skipCache && isSessionStoreCacheEnabled()) {
-    const cached = SESSION_STORE_CACHE.get(storePath);
-    if (cached && isSessionStoreCacheValid(cached)) {
-      const currentMtimeMs = getFileMtimeMs(storePath);
-      if (currentMtimeMs === cached.mtimeMs) {
-        // Return a deep copy to prevent external mutations affecting cache
-        return structuredClone(cached.store);
-      }
-      invalidateSessionStoreCache(storePath);
+function migrateLegacySessionFields(store: Record<string, SessionEntry>): void {
+  for (const entry of Object.values(store)) {
+    if (!entry || typeof entry !== "object") {
+      continue;
+    }
+    const rec = entry as unknown as Record<string, unknown>;
+    // Best-effort migration: message provider → channel naming.
+    if (typeof rec.channel !== "string" && typeof rec.provider === "string") {
+      rec.channel = rec.provider;
+      delete rec.provider;
+    }
+    if (typeof rec.lastChannel !== "string" && typeof rec.lastProvider === "string") {
+      rec.lastChannel = rec.lastProvider;
+      delete rec.lastProvider;
+    }
+
+    // Best-effort migration: legacy `room` field → `groupChannel` (keep value, prune old key).
+    if (typeof rec.groupChannel !== "string" && typeof rec.room === "string") {
+      rec.groupChannel = rec.room;
+      delete rec.room;
+    } else if ("room" in rec) {
+      delete rec.room;
     }
   }
+}
 
-  // Cache miss or disabled - load from disk.
+function readJsonSessionStoreFile(storePath: string): {
+  store: Record<string, SessionEntry>;
+  mtimeMs?: number;
+} {
   // Retry up to 3 times when the file is empty or unparseable.  On Windows the
   // temp-file + rename write is not fully atomic: a concurrent reader can briefly
   // observe a 0-byte file (between truncate and write) or a stale/locked state.
@@ -245,37 +288,78 @@ export function loadSessionStore(
       // Final attempt failed; proceed with an empty store.
     }
   }
+  migrateLegacySessionFields(store);
+  return { store, mtimeMs };
+}
 
-  // Best-effort migration: message provider → channel naming.
-  for (const entry of Object.values(store)) {
-    if (!entry || typeof entry !== "object") {
-      continue;
-    }
-    const rec = entry as unknown as Record<string, unknown>;
-    if (typeof rec.channel !== "string" && typeof rec.provider === "string") {
-      rec.channel = rec.provider;
-      delete rec.provider;
+/**
+ * Loads from `sessions.sqlite`, or returns null when it does not exist yet
+ * (the JSON store is then read, and imported on the next locked write).
+ * The write counter is exact, so a matching cache entry is reused even for
+ * `skipCache` reads inside the store lock.
+ */
+function loadSqliteSessionStore(storePath: string): Record<string, SessionEntry> | null {
+  const cacheEnabled = isSessionStoreCacheEnabled();
+  if (cacheEnabled) {
+    const cached = SESSION_STORE_CACHE.get(storePath);
+    if (cached?.backend === "sqlite") {
+      if (readSqliteSessionStoreRevision(storePath) === cached.revision) {
+        return structuredClone(cached.store);
+      }
+      invalidateSessionStoreCache(storePath);
     }
-    if (typeof rec.lastChannel !== "string" && typeof rec.lastProvider === "string") {
-      rec.lastChannel = rec.lastProvider;
-      delete rec.lastProvider;
+  }
+  const loaded = readSqliteSessionStore(storePath);
+  if (!loaded) {
+    return null;
+  }
+  migrateLegacySessionFields(loaded.store);
+  if (cacheEnabled) {
+    SESSION_STORE_CACHE.set(storePath, {
+      store: structuredClone(loaded.store),
+      loadedAt: Date.now(),
+      storePath,
+      backend: "sqlite",
+      revision: loaded.revision,
+    });
+  }
+  return loaded.store;
+}
+
+export function loadSessionStore(
+  storePath: string,
+  opts: LoadSessionStoreOptions = {},
+): Record<string, SessionEntry> {
+  if (resolveSessionStoreBackend() === "sqlite") {
+    const store = loadSqliteSessionStore(storePath);
+    if (store) {
+      return store;
     }
+  }
 
-    // Best-effort migration: legacy `room` field → `groupChannel` (keep value, prune old key).
-    if (typeof rec.groupChannel !== "string" && typeof rec.room === "string") {
-      rec.groupChannel = rec.room;
-      delete rec.room;
-    } else if ("room" in rec) {
-      delete rec.room;
+  // Check cache first if enabled
+  if (!opts.skipCache && isSessionStoreCacheEnabled()) {
+    const cached = SESSION_STORE_CACHE.get(storePath);
+    if (cached?.backend === "json" && isSessionStoreCacheValid(cached)) {
+      const currentMtimeMs = getFileMtimeMs(storePath);
+      if (currentMtimeMs === cached.mtimeMs) {
+        // Return a deep copy to prevent external mutations affecting cache
+        return structuredClone(cached.store);
+      }
+      invalidateSessionStoreCache(storePath);
     }
   }
 
+  // Cache miss or disabled - load from disk.
+  const { store, mtimeMs } = readJsonSessionStoreFile(storePath);
+
   // Cache the result if caching is enabled
   if (!opts.skipCache && isSessionStoreCacheEnabled()) {
     SESSION_STORE_CACHE.set(storePath, {
       store: structuredClone(store), // Store a copy to prevent external mutations
       loadedAt: Date.now(),
       storePath,
+      backend: "json",
       mtimeMs,
     });
   }
@@ -283,14 +367,84 @@ export function loadSessionStore(
   return structuredClone(store);
 }
 
+/**
+ * Entries matching `sessionKey` case-insensitively, as a partial store. Uses
+ * the key index on SQLite; loads the whole store on JSON.
+ */
+function loadSessionStoreCandidates(
+  storePath: string,
+  sessionKey: string,
+): Record<string, SessionEntry> {
+  if (resolveSessionStoreBackend() === "sqlite") {
+    const rows = findSqliteSessionEntries(storePath, sessionKey);
+    if (rows) {
+      const store = Object.fromEntries(rows.map((row) => [row.key, row.entry]));
+      migrateLegacySessionFields(store);
+      return store;
+    }
+  }
+  return loadSessionStore(storePath);
+}
+
+/** Reads one session entry (canonical key first, then legacy mixed-case keys). */
+export function readSessionStoreEntry(params: {
+  storePath: string;
+  sessionKey: string;
+}): SessionEntry | undefined {
+  const store = loadSessionStoreCandidates(params.storePath, params.sessionKey);
+  return resolveStoreSessionEntry({ store, sessionKey: params.sessionKey }).existing;
+}
+
+export type SessionStoreQuery = SqliteSessionQuery;
+
+/**
+ * Entries filtered by agent, channel and `updatedAt`, newest first. Served by
+ * indexes on the SQLite backend; filtered in memory on JSON.
+ */
+export function listSessionStoreEntries(
+  params: { storePath: string } & SessionStoreQuery,
+): Array<{ key: string; entry: SessionEntry }> {
+  const { storePath, ...query } = params;
+  if (resolveSessionStoreBackend() === "sqlite") {
+    const rows = querySqliteSessionEntries(storePath, query);
+    if (rows) {
+      return rows;
+    }
+  }
+  const agentId = query.agentId?.trim().toLowerCase();
+  const channel = query.channel?.trim().toLowerCase();
+  const rows = Object.entries(loadSessionStore(storePath))
+    .filter(([key, entry]) => {
+      if (!entry) {
+        return false;
+      }
+      if (agentId && parseAgentSessionKey(key)?.agentId !== agentId) {
+        return false;
+      }
+      const entryChannel =
+        entry.channel ?? entry.lastChannel ?? entry.deliveryContext?.channel ?? undefined;
+      if (channel && entryChannel?.toLowerCase() !== channel) {
+        return false;
+      }
+      if (
+        query.updatedAfter !== undefined &&
+        (entry.updatedAt == null || entry.updatedAt < query.updatedAfter)
+      ) {
+        return false;
+      }
+      return true;
+    })
+    .map(([key, entry]) => ({ key, entry }))
+    .toSorted((a, b) => getEntryUpdatedAt(b.entry) - getEntryUpdatedAt(a.entry));
+  return query.limit !== undefined && query.limit > 0 ? rows.slice(0, query.limit) : rows;
+}
+
 export function readSessionUpdatedAt(params: {
   storePath: string;
   sessionKey: string;
 }): number | undefined {
   try {
-    const store = loadSessionStore(params.storePath);
-    const resolved = resolveStoreSessionEntry({ store, sessionKey: params.sessionKey });
-    return resolved.existing?.updatedAt;
+    return readSessionStoreEntry(params)?.updatedAt;
   } catch {
     return undefined;
   }
@@ -646,6 +800,7 @@ async function saveSessionStoreUnlocked(
 ): Promise<void> {
   // Invalidate cache on write to ensure consistency
   invalidateSessionStoreCache(storePath);
+  const backend = resolveSessionStoreBackend();
 
   normalizeSessionStore(store);
 
@@ -746,8 +901,10 @@ async function saveSessionStoreUnlocked(
         }
       }
 
-      // Rotate the on-disk file if it exceeds the size threshold.
-      await rotateSessionFile(storePath, maintenance.rotateBytes);
+      // Rotate the on-disk file if it exceeds the size threshold (SQLite only writes changed rows).
+      if (backend === "json") {
+        await rotateSessionFile(storePath, maintenance.rotateBytes);
+      }
 
       const diskBudget = await enforceSessionDiskBudget({
         store,
@@ -768,6 +925,40 @@ async function saveSessionStoreUnlocked(
     }
   }
 
+  if (backend === "sqlite") {
+    const importing = !sqliteSessionStoreExists(storePath);
+    writeSqliteSessionStore(storePath, store);
+    if (importing) {
+      // First SQLite write: `store` was read from sessions.json, so retire the JSON file.
+      await retireSessionStoreFile(storePath);
+    }
+    return;
+  }
+
+  await writeJsonSessionStoreFile(storePath, store);
+}
+
+/** Moves a store file aside as a `.bak.<timestamp>` session artifact. */
+async function retireSessionStoreFile(filePath: string): Promise<string | null> {
+  const backupPath = `${filePath}.bak.${formatSessionArchiveTimestamp()}`;
+  try {
+    await fs.promises.rename(filePath, backupPath);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw err;
+  }
+  log.info("retired session store file after backend migration", {
+    backupPath: path.basename(backupPath),
+  });
+  return backupPath;
+}
+
+async function writeJsonSessionStoreFile(
+  storePath: string,
+  store: Record<string, SessionEntry>,
+): Promise<void> {
   await fs.promises.mkdir(path.dirname(storePath), { recursive: true });
   const json = JSON.stringify(store, null, 2);
 
@@ -1008,6 +1199,9 @@ export async function updateSessionStoreEntry(params: {
 }): Promise<SessionEntry | null> {
   const { storePath, sessionKey, update } = params;
   return await withSessionStoreLock(storePath, async () => {
+    if (resolveSessionStoreBackend() === "sqlite" && sqliteSessionStoreExists(storePath)) {
+      return await updateSqliteSessionStoreEntryUnlocked({ storePath, sessionKey, update });
+    }
     const store = loadSessionStore(storePath, { skipCache: true });
     const resolved = resolveStoreSessionEntry({ store, sessionKey });
     const existing = resolved.existing;
@@ -1030,6 +1224,87 @@ export async function updateSessionStoreEntry(params: {
   });
 }
 
+/**
+ * Row-level variant of `updateSessionStoreEntry`: reads only the matching
+ * rows and commits the patch in one transaction. Store-wide maintenance runs
+ * on whole-store writes instead.
+ */
+async function updateSqliteSessionStoreEntryUnlocked(params: {
+  storePath: string;
+  sessionKey: string;
+  update: (entry: SessionEntry) => Promise<Partial<SessionEntry> | null>;
+}): Promise<SessionEntry | null> {
+  const { storePath, sessionKey } = params;
+  const candidates = loadSessionStoreCandidates(storePath, sessionKey);
+  const resolved = resolveStoreSessionEntry({ store: candidates, sessionKey });
+  const existing = resolved.existing;
+  if (!existing) {
+    return null;
+  }
+  const patch = await params.update(existing);
+  if (!patch) {
+    return existing;
+  }
+  const next = mergeSessionEntry(existing, patch);
+  invalidateSessionStoreCache(storePath);
+  patchSqliteSessionStore(storePath, {
+    upsert: {
+      [resolved.normalizedKey]: normalizeSessionEntryDelivery(
+        normalizeSessionRuntimeModelFields(next),
+      ),
+    },
+    remove: resolved.legacyKeys,
+  });
+  return next;
+}
+
+/**
+ * Moves a store between backends (doctor / explicit migration). Entries
+ * present in both are merged, newest `updatedAt` wins; the source file is
+ * kept as a `.bak.<timestamp>` artifact.
+ */
+export async function migrateSessionStoreBackend(params: {
+  storePath: string;
+  to: SessionStoreBackend;
+}): Promise<{ migrated: number; retiredPath: string | null }> {
+  const { storePath, to } = params;
+  return await withSessionStoreLock(storePath, async () => {
+    invalidateSessionStoreCache(storePath);
+    const jsonStore = fs.existsSync(storePath) ? readJsonSessionStoreFile(storePath).store : null;
+    const sqliteStore = readSqliteSessionStore(storePath)?.store ?? null;
+    const source = to === "sqlite" ? jsonStore : sqliteStore;
+    if (!source) {
+      return { migrated: 0, retiredPath: null };
+    }
+    const target = (to === "sqlite" ? sqliteStore : jsonStore) ?? {};
+    let migrated = 0;
+    for (const [key, entry] of Object.entries(source)) {
+      const current = target[key];
+      if (entry && (!current || getEntryUpdatedAt(entry) > getEntryUpdatedAt(current))) {
+        target[key] = entry;
+        migrated++;
+      }
+    }
+    normalizeSessionStore(target);
+    if (to === "sqlite") {
+      writeSqliteSessionStore(storePath, target);
+      return { migrated, retiredPath: await retireSessionStoreFile(storePath) };
+    }
+    await writeJsonSessionStoreFile(storePath, target);
+    const sqlitePath = resolveSqliteSessionStorePath(storePath);
+    // Closing the last connection checkpoints the WAL back into the main file.
+    closeSqliteSessionStore(storePath);
+    const retiredPath = await retireSessionStoreFile(sqlitePath);
+    // Another process may still hold the database open; keep its WAL with the retired copy.
+    for (const sidecar of ["-wal", "-shm"]) {
+      if (retiredPath && fs.existsSync(`${sqlitePath}${sidecar}`)) {
+        await fs.promises.rename(`${sqlitePath}${sidecar}`, `${retiredPath}${sidecar}`);
+      }
+    }
+    return { migrated, retiredPath };
+  });
+}
+
 export async function recordSessionMetaFromInbound(params: {
   storePath: string;
   sessionKey: string;
@@ -65,6 +65,30 @@ export type AcpSessionRuntimeOptions = {
   backendExtras?: Record<string, string>;
 };
 
+export type SessionBranch = {
+  sessionId: string;
+  sessionFile?: string;
+  /** Epoch ms when the branch was created. */
+  createdAt: number;
+  /** Transcript this branch was forked from. */
+  parentSessionId?: string;
+  /** User turns carried over from the parent transcript. */
+  turns?: number;
+};
+
+/** Per-turn model router decision (`agents.defaults.modelRouter`). */
+export type SessionModelRoute = {
+  tier: string;
+  provider: string;
+  model: string;
+  /** What picked the tier: a rule, the classifier, or the default tier. */
+  source: "rule" | "classifier" | "default";
+  /** Human-readable reason (e.g. "rule 0: maxChars 40"). */
+  reason: string;
+  /** Epoch ms of the routed turn. */
+  at: number;
+};
+
 export type SessionEntry = {
   /**
    * Last delivered heartbeat payload (used to suppress duplicate heartbeat notifications).
@@ -80,6 +104,11 @@ export type SessionEntry = {
   spawnedBy?: string;
   /** True after a thread/topic session has been forked from its parent transcript once. */
   forkedFromParent?: boolean;
+  /**
+   * Transcripts created by /branch, /retry or sessions.fork for this key, including the
+   * active one (matched by sessionId). Inactive branches stay on disk until reset/delete.
+   */
+  branches?: SessionBranch[];
   /** Subagent spawn depth (0 = main, 1 = sub-agent, 2 = sub-sub-agent). */
   spawnDepth?: number;
   systemSent?: boolean;
@@ -105,6 +134,10 @@ export type SessionEntry = {
   responseUsage?: "on" | "off" | "tokens" | "full";
   providerOverride?: string;
   modelOverride?: string;
+  /** Latest model router decision for this session. */
+  modelRoute?: SessionModelRoute;
+  /** Routed turns per tier since the session started. */
+  modelRouteCounts?: Record<string, number>;
   authProfileOverride?: string;
   authProfileOverrideSource?: "auto" | "user";
   authProfileOverrideCompactionCount?: number;
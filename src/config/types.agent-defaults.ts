@@ -117,6 +117,42 @@ export type CliBackendConfig = {
   };
 };
 
+export type AgentModelRouterRule = {
+  /** Tier picked when the rule matches. */
+  tier: string;
+  /** Minimum message length in characters (directives stripped). */
+  minChars?: number;
+  /** Maximum message length in characters (directives stripped). */
+  maxChars?: number;
+  /** Require (true) or exclude (false) turns with attachments. */
+  attachments?: boolean;
+  /** Require (true) or exclude (false) turns containing code. */
+  code?: boolean;
+  /** Only match turns from these channels (e.g. "telegram", "slack"). */
+  channels?: string[];
+  /** Match when the message contains any of these phrases (case-insensitive). */
+  keywords?: string[];
+  /** Match when an explicit /think directive sets one of these levels. */
+  thinking?: Array<"off" | "minimal" | "low" | "medium" | "high" | "xhigh">;
+};
+
+export type AgentModelRouterConfig = {
+  /** Enable per-turn routing (default: false). */
+  enabled?: boolean;
+  /** Named tiers, each pointing at a model (provider/model or alias). */
+  tiers?: Record<string, { model: string; description?: string }>;
+  /** Ordered rules; the first match picks the tier. */
+  rules?: AgentModelRouterRule[];
+  /** Tier used when nothing matches (default: the primary model). */
+  defaultTier?: string;
+  /** Cheap model asked to pick a tier when no rule matches. */
+  classifier?: {
+    model: string;
+    /** Give up and use the default tier after this long (default: 5000). */
+    timeoutMs?: number;
+  };
+};
+
 export type AgentDefaultsConfig = {
   /** Primary model and fallbacks (provider/model). Accepts string or {primary,fallbacks}. */
   model?: AgentModelConfig;
@@ -124,6 +160,8 @@ export type AgentDefaultsConfig = {
   imageModel?: AgentModelConfig;
   /** Model catalog with optional aliases (full provider/model keys). */
   models?: Record<string, AgentModelEntryConfig>;
+  /** Per-turn model routing across tiers; skipped while a session model override is set. */
+  modelRouter?: AgentModelRouterConfig;
   /** Agent working directory (preferred). Used as the default cwd for agent runs. */
   workspace?: string;
   /** Optional repository root for system prompt runtime line (overrides auto-detect). */
@@ -115,6 +115,11 @@ export type SessionConfig = {
   /** Channel-specific reset overrides (e.g. { discord: { mode: "idle", idleMinutes: 10080 } }). */
   resetByChannel?: Record<string, SessionResetConfig>;
   store?: string;
+  /**
+   * Session store backend. "json" (default) keeps one `sessions.json` per agent;
+   * "sqlite" keeps an indexed `sessions.sqlite` next to it for large deployments.
+   */
+  storeBackend?: SessionStoreBackend;
   typingIntervalSeconds?: number;
   typingMode?: TypingMode;
   /**
@@ -135,6 +140,8 @@ export type SessionConfig = {
   maintenance?: SessionMaintenanceConfig;
 };
 
+export type SessionStoreBackend = "json" | "sqlite";
+
 export type SessionMaintenanceMode = "enforce" | "warn";
 
 export type SessionMaintenanceConfig = {
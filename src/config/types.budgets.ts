@@ -0,0 +1,30 @@
+export type BudgetLimitAction = "stop" | "warn";
+
+export type BudgetLimits = {
+  /** Max estimated USD spend per local calendar day. */
+  dailyUsd?: number;
+  /** Max estimated USD spend per local calendar month. */
+  monthlyUsd?: number;
+  /** Max total tokens (input + output + cache) per local calendar day. */
+  dailyTokens?: number;
+  /** Max total tokens (input + output + cache) per local calendar month. */
+  monthlyTokens?: number;
+};
+
+export type BudgetsConfig = {
+  /** Enable budget enforcement for embedded agent runs. Default: true when any limit is set. */
+  enabled?: boolean;
+  /** Fraction of a limit (0-1) at which a warning notice is emitted. Default: 0.8. */
+  warnAt?: number;
+  /** What happens once a limit is reached (stop=block model calls, warn=notify only). Default: stop. */
+  onLimit?: BudgetLimitAction;
+  /** Per-agent limits keyed by agent id ("*" applies to every agent). */
+  agents?: Record<string, BudgetLimits>;
+  /** Per-session limits keyed by session key ("*" applies to every session). */
+  sessions?: Record<string, BudgetLimits>;
+  /**
+   * Per-channel limits keyed by channel id or `<channel>:<accountId>`
+   * (e.g. "telegram", "discord:work"; "*" applies to every channel account).
+   */
+  channels?: Record<string, BudgetLimits>;
+};
@@ -1,3 +1,5 @@
+import type { SecretInput } from "./types.secrets.js";
+
 export type GatewayBindMode = "auto" | "lan" | "loopback" | "custom" | "tailnet";
 
 export type GatewayTlsConfig = {
@@ -274,9 +276,30 @@ export type GatewayHttpResponsesImagesConfig = {
   timeoutMs?: number;
 };
 
+export type GatewayHttpMcpConfig = {
+  /**
+   * If false, the Gateway will not serve the MCP endpoint (`POST /mcp`).
+   * Default: false when absent.
+   */
+  enabled?: boolean;
+};
+
+export type GatewayHttpMetricsConfig = {
+  /**
+   * If true, the Gateway serves Prometheus metrics at `GET /metrics`.
+   * Metrics are aggregated from diagnostic events (`diagnostics.enabled`).
+   * Default: false when absent.
+   */
+  enabled?: boolean;
+  /** Bearer token accepted for scrapes in addition to gateway auth (string or SecretRef). */
+  token?: SecretInput;
+};
+
 export type GatewayHttpEndpointsConfig = {
   chatCompletions?: GatewayHttpChatCompletionsConfig;
   responses?: GatewayHttpResponsesConfig;
+  mcp?: GatewayHttpMcpConfig;
+  metrics?: GatewayHttpMetricsConfig;
 };
 
 export type GatewayHttpSecurityHeadersConfig = {
@@ -8,6 +8,29 @@ export type HookMappingTransform = {
   export?: string;
 };
 
+export type HookSignatureScheme = "hmac-sha256" | "github" | "stripe" | "slack";
+
+/**
+ * Request signature check for a mapping. When set, requests to the mapping path
+ * must carry a valid signature instead of the hooks token.
+ */
+export type HookMappingVerifyConfig = {
+  /** Signature format (default: "hmac-sha256"). Presets fill in the fields below. */
+  scheme?: HookSignatureScheme;
+  /** Shared signing secret (plaintext or SecretRef). */
+  secret: SecretInput;
+  /** Header carrying the signature (hmac-sha256 default: "x-signature-256"). */
+  header?: string;
+  /** Prefix stripped from the header value before comparing (for example "sha256="). */
+  prefix?: string;
+  /** Digest encoding in the header (default: "hex"). */
+  encoding?: "hex" | "base64";
+  /** Header carrying the signing timestamp; signs `<timestamp>.<body>` when set. */
+  timestampHeader?: string;
+  /** Max age of the signing timestamp in seconds (default: 300). */
+  toleranceSeconds?: number;
+};
+
 export type HookMappingConfig = {
   id?: string;
   match?: HookMappingMatch;
@@ -39,6 +62,8 @@ export type HookMappingConfig = {
   thinking?: string;
   timeoutSeconds?: number;
   transform?: HookMappingTransform;
+  /** Verify provider signatures instead of the shared hooks token. Requires `match.path`. */
+  verify?: HookMappingVerifyConfig;
 };
 
 export type HooksGmailTailscaleMode = "off" | "serve" | "funnel";
@@ -140,3 +165,4 @@ export type HooksConfig = {
   internal?: InternalHooksConfig;
 };
 import type { InstallRecordBase } from "./types.installs.js";
+import type { SecretInput } from "./types.secrets.js";
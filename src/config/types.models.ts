@@ -9,6 +9,7 @@ export const MODEL_APIS = [
   "github-copilot",
   "bedrock-converse-stream",
   "ollama",
+  "replay",
 ] as const;
 
 export type ModelApi = (typeof MODEL_APIS)[number];
@@ -47,6 +48,17 @@ export type ModelDefinitionConfig = {
   compat?: ModelCompatConfig;
 };
 
+export type ModelReplayConfig = {
+  /** Directory holding cassette files (default: ~/.openclaw/replay/<provider>). */
+  cassetteDir?: string;
+  /** "replay" serves cassettes only, "record" always calls recordFrom, "auto" records misses (default: replay). */
+  mode?: "replay" | "record" | "auto";
+  /** How requests are keyed: "strict" hashes the exact request, "lenient" ignores volatile parts (default: strict). */
+  match?: "strict" | "lenient";
+  /** Real model to record from, as provider/model. */
+  recordFrom?: string;
+};
+
 export type ModelProviderConfig = {
   baseUrl: string;
   apiKey?: SecretInput;
@@ -55,6 +67,8 @@ export type ModelProviderConfig = {
   headers?: Record<string, string>;
   authHeader?: boolean;
   models: ModelDefinitionConfig[];
+  /** Cassette settings for providers using the "replay" API. */
+  replay?: ModelReplayConfig;
 };
 
 export type BedrockDiscoveryConfig = {
@@ -1,4 +1,4 @@
-export type SecretRefSource = "env" | "file" | "exec";
+export type SecretRefSource = "env" | "file" | "exec" | "encrypted";
 
 /**
  * Stable identifier for a secret in a configured source.
@@ -6,6 +6,7 @@ export type SecretRefSource = "env" | "file" | "exec";
  * - env source: provider "default", id "OPENAI_API_KEY"
  * - file source: provider "mounted-json", id "/providers/openai/apiKey"
  * - exec source: provider "vault", id "openai/api-key"
+ * - encrypted source: provider "vaultfile", id "/providers/openai/apiKey"
  */
 export type SecretRef = {
   source: SecretRefSource;
@@ -21,6 +22,10 @@ function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
+function isSecretRefSource(value: unknown): value is SecretRefSource {
+  return value === "env" || value === "file" || value === "exec" || value === "encrypted";
+}
+
 export function isSecretRef(value: unknown): value is SecretRef {
   if (!isRecord(value)) {
     return false;
@@ -29,7 +34,7 @@ export function isSecretRef(value: unknown): value is SecretRef {
     return false;
   }
   return (
-    (value.source === "env" || value.source === "file" || value.source === "exec") &&
+    isSecretRefSource(value.source) &&
     typeof value.provider === "string" &&
     value.provider.trim().length > 0 &&
     typeof value.id === "string" &&
@@ -44,7 +49,7 @@ function isLegacySecretRefWithoutProvider(
     return false;
   }
   return (
-    (value.source === "env" || value.source === "file" || value.source === "exec") &&
+    isSecretRefSource(value.source) &&
     typeof value.id === "string" &&
     value.id.trim().length > 0 &&
     value.provider === undefined
@@ -75,6 +80,7 @@ export function coerceSecretRef(
     env?: string;
     file?: string;
     exec?: string;
+    encrypted?: string;
   },
 ): SecretRef | null {
   if (isSecretRef(value)) {
@@ -86,7 +92,9 @@ export function coerceSecretRef(
         ? (defaults?.env ?? DEFAULT_SECRET_PROVIDER_ALIAS)
         : value.source === "file"
           ? (defaults?.file ?? DEFAULT_SECRET_PROVIDER_ALIAS)
-          : (defaults?.exec ?? DEFAULT_SECRET_PROVIDER_ALIAS);
+          : value.source === "exec"
+            ? (defaults?.exec ?? DEFAULT_SECRET_PROVIDER_ALIAS)
+            : (defaults?.encrypted ?? DEFAULT_SECRET_PROVIDER_ALIAS);
     return {
       source: value.source,
       provider,
@@ -131,10 +139,23 @@ export type ExecSecretProviderConfig = {
   allowSymlinkCommand?: boolean;
 };
 
+export type EncryptedSecretProviderConfig = {
+  source: "encrypted";
+  /** Encrypted JSON document written by `openclaw secrets encrypt`. */
+  path: string;
+  /** Env var holding the unlock passphrase (default: OPENCLAW_SECRETS_PASSPHRASE). */
+  passphraseEnv?: string;
+  /** Key file whose contents unlock the document; takes precedence over passphraseEnv. */
+  keyFile?: string;
+  timeoutMs?: number;
+  maxBytes?: number;
+};
+
 export type SecretProviderConfig =
   | EnvSecretProviderConfig
   | FileSecretProviderConfig
-  | ExecSecretProviderConfig;
+  | ExecSecretProviderConfig
+  | EncryptedSecretProviderConfig;
 
 export type SecretsConfig = {
   providers?: Record<string, SecretProviderConfig>;
@@ -142,6 +163,7 @@ export type SecretsConfig = {
     env?: string;
     file?: string;
     exec?: string;
+    encrypted?: string;
   };
   resolution?: {
     maxProviderConcurrency?: number;
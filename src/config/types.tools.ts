@@ -18,7 +18,7 @@ export type MediaUnderstandingScopeConfig = {
   rules?: MediaUnderstandingScopeRule[];
 };
 
-export type MediaUnderstandingCapability = "image" | "audio" | "video";
+export type MediaUnderstandingCapability = "image" | "audio" | "video" | "document";
 
 export type MediaUnderstandingAttachmentsConfig = {
   /** Select the first matching attachment or process multiple. */
@@ -94,6 +94,19 @@ export type MediaUnderstandingConfig = MediaProviderRequestConfig & {
   models?: MediaUnderstandingModelConfig[];
 };
 
+export type MediaDocumentUnderstandingConfig = MediaUnderstandingConfig & {
+  /** Max PDF pages to extract (default: 50). */
+  maxPages?: number;
+  /** Split extracted text into parts of this many characters (default: 20000). */
+  chunkChars?: number;
+  /** PDF pages with less extracted text than this are treated as scanned (default: 40). */
+  minPageTextChars?: number;
+  /** Transcribe scanned PDF pages with a vision model (default: true). */
+  visionFallback?: boolean;
+  /** Max scanned pages sent to the vision model per document (default: 4). */
+  visionMaxPages?: number;
+};
+
 export type LinkModelConfig = {
   /** Use a CLI command for link processing. */
   type?: "cli";
@@ -119,13 +132,15 @@ export type LinkToolsConfig = {
 };
 
 export type MediaToolsConfig = {
-  /** Shared model list applied across image/audio/video. */
+  /** Shared model list applied across image/audio/video/document. */
   models?: MediaUnderstandingModelConfig[];
   /** Max concurrent media understanding runs. */
   concurrency?: number;
   image?: MediaUnderstandingConfig;
   audio?: MediaUnderstandingConfig;
   video?: MediaUnderstandingConfig;
+  /** PDF/DOCX/XLSX text extraction with vision fallback for scanned pages. */
+  document?: MediaDocumentUnderstandingConfig;
 };
 
 export type ToolProfileId = "minimal" | "coding" | "messaging" | "full";
@@ -154,6 +169,50 @@ export type ToolLoopDetectionConfig = {
   detectors?: ToolLoopDetectionDetectorConfig;
 };
 
+export type ToolArgCondition = {
+  /** Value must match one of these globs (`*` wildcard, case-insensitive). */
+  allow?: string[];
+  /** Value must not match any of these globs. */
+  deny?: string[];
+  /** Value must match this regular expression (anchor it with `^...$`). */
+  pattern?: string;
+  /** URL value: host must be one of these domains or a subdomain of one. */
+  domains?: string[];
+  /** Path value: resolved path must match one of these globs (`**` crosses directories; `~` and `${workspace}` expand). */
+  paths?: string[];
+  /** Value must address the conversation the agent is replying in (message `channel`/`target`). */
+  sameChat?: boolean;
+};
+
+export type ToolArgRule = {
+  /** Tool names or globs the rule applies to. */
+  tools: string[];
+  /** Only apply when the call's `action` argument is one of these. */
+  actions?: string[];
+  /** Conditions keyed by top-level argument name; absent arguments are not checked. */
+  args: Record<string, ToolArgCondition>;
+  /** Extra text appended to the denial returned to the model. */
+  message?: string;
+};
+
+export type ToolApprovalRule = {
+  /** Tool name or glob (e.g. "message", "cron", "*_actions"). */
+  tool: string;
+  /** Only gate these actions (the tool's `action` argument); omit to gate every mutating action. */
+  actions?: string[];
+  /** Argument matchers keyed by top-level argument name; every listed argument must match a glob. */
+  args?: Record<string, string | string[]>;
+};
+
+export type ToolApprovalsConfig = {
+  /** Require human approval for tool calls matching `rules` (default: false). */
+  enabled?: boolean;
+  /** Mutating tool calls (as classified by the runtime) that need approval. */
+  rules?: ToolApprovalRule[];
+  /** How long to wait for a decision before denying the call (ms, default: 120000). */
+  timeoutMs?: number;
+};
+
 export type SessionsToolsVisibility = "self" | "tree" | "agent" | "all";
 
 export type ToolPolicyConfig = {
@@ -271,6 +330,32 @@ export type FsToolsConfig = {
   workspaceOnly?: boolean;
 };
 
+export type McpServerConfig = {
+  /** Enable this server (default: true). Set false to drop an inherited server for one agent. */
+  enabled?: boolean;
+  /** stdio transport: executable to spawn (e.g. "npx"). */
+  command?: string;
+  /** stdio transport: command arguments. */
+  args?: string[];
+  /** stdio transport: extra environment variables for the server process. */
+  env?: Record<string, string>;
+  /** stdio transport: working directory. */
+  cwd?: string;
+  /** Streamable HTTP transport endpoint. */
+  url?: string;
+  /** Streamable HTTP transport: extra request headers (e.g. Authorization). */
+  headers?: Record<string, string>;
+  /** Per-request timeout (ms, default: 60000). */
+  requestTimeoutMs?: number;
+  /** How long an agent run waits for the first connection (ms, default: 10000). */
+  startupTimeoutMs?: number;
+};
+
+export type McpToolsConfig = {
+  /** MCP servers keyed by name; tools surface as `mcp__<name>__<tool>`. */
+  servers?: Record<string, McpServerConfig>;
+};
+
 export type AgentToolsConfig = {
   /** Base tool profile applied before allow/deny lists. */
   profile?: ToolProfileId;
@@ -293,6 +378,12 @@ export type AgentToolsConfig = {
   fs?: FsToolsConfig;
   /** Runtime loop detection for repetitive/ stuck tool-call patterns. */
   loopDetection?: ToolLoopDetectionConfig;
+  /** Human approval gates for mutating tool calls. */
+  approvals?: ToolApprovalsConfig;
+  /** Argument-level conditions on tool calls; every matching rule must pass. */
+  argRules?: ToolArgRule[];
+  /** Per-agent MCP servers (merged over tools.mcp.servers by name). */
+  mcp?: McpToolsConfig;
   sandbox?: {
     tools?: {
       allow?: string[];
@@ -407,6 +498,27 @@ export type MemorySearchConfig = {
         halfLifeDays?: number;
       };
     };
+    /** Optional cross-encoder rerank stage over the top candidates. */
+    rerank?: {
+      /** Enable reranking (default: false). */
+      enabled?: boolean;
+      /** Reranker backend: local GGUF model via node-llama-cpp, or an OpenAI-compatible /rerank endpoint. */
+      provider?: "local" | "remote";
+      /** Remote model id, or GGUF path / hf: URI for the local provider. */
+      model?: string;
+      /** Number of top candidates to rerank (default: 20). */
+      topN?: number;
+      /** Abort reranking after this many ms and keep the original order (default: 5000). */
+      timeoutMs?: number;
+      /** Optional cache directory for local reranker models. */
+      modelCacheDir?: string;
+      remote?: {
+        /** Base URL of the rerank API (POST <baseUrl>/rerank). */
+        baseUrl?: string;
+        apiKey?: string;
+        headers?: Record<string, string>;
+      };
+    };
   };
   /** Index cache behavior. */
   cache?: {
@@ -430,8 +542,11 @@ export type ToolsConfig = {
     search?: {
       /** Enable web search tool (default: true when API key is present). */
       enabled?: boolean;
-      /** Search provider ("brave", "perplexity", "grok", "gemini", or "kimi"). */
-      provider?: "brave" | "perplexity" | "grok" | "gemini" | "kimi";
+      /**
+       * Search provider ("brave", "perplexity", "grok", "gemini", "kimi", "searxng", or a
+       * plugin-registered provider id).
+       */
+      provider?: "brave" | "perplexity" | "grok" | "gemini" | "kimi" | "searxng" | (string & {});
       /** Brave Search API key (optional; defaults to BRAVE_API_KEY env var). */
       apiKey?: string;
       /** Default search results count (1-10). */
@@ -474,6 +589,19 @@ export type ToolsConfig = {
         /** Model to use (defaults to "moonshot-v1-128k"). */
         model?: string;
       };
+      /** SearXNG-specific configuration (used when provider="searxng"). */
+      searxng?: {
+        /** Base URL of the SearXNG instance (defaults to SEARXNG_BASE_URL env var). */
+        baseUrl?: string;
+        /** Engines to query (e.g. ["duckduckgo", "wikipedia"]; defaults to the instance settings). */
+        engines?: string[];
+        /** Categories to query (e.g. ["general", "news"]; defaults to the instance settings). */
+        categories?: string[];
+        /** Safe-search level ("off", "moderate", or "strict"; defaults to the instance settings). */
+        safeSearch?: "off" | "moderate" | "strict";
+        /** Default search language (e.g. "en" or "de-DE"; search_lang overrides per call). */
+        language?: string;
+      };
     };
     fetch?: {
       /** Enable web fetch tool (default: true). */
@@ -492,6 +620,8 @@ export type ToolsConfig = {
       userAgent?: string;
       /** Use Readability to extract main content (default: true). */
       readability?: boolean;
+      /** Fallback extraction provider ("firecrawl" or a plugin-registered provider id; default: "firecrawl"). */
+      provider?: "firecrawl" | (string & {});
       firecrawl?: {
         /** Enable Firecrawl fallback (default: true when apiKey is set). */
         enabled?: boolean;
@@ -571,6 +701,12 @@ export type ToolsConfig = {
   fs?: FsToolsConfig;
   /** Runtime loop detection for repetitive/ stuck tool-call patterns. */
   loopDetection?: ToolLoopDetectionConfig;
+  /** Human approval gates for mutating tool calls. */
+  approvals?: ToolApprovalsConfig;
+  /** Argument-level conditions on tool calls; every matching rule must pass. */
+  argRules?: ToolArgRule[];
+  /** Model Context Protocol servers whose tools are exposed to agents. */
+  mcp?: McpToolsConfig;
   /** Sub-agent tool policy defaults (deny wins). */
   subagents?: {
     /** Default model selection for spawned sub-agents (string or {primary,fallbacks}). */
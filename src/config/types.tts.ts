@@ -1,4 +1,4 @@
-export type TtsProvider = "elevenlabs" | "openai" | "edge";
+export type TtsProvider = "elevenlabs" | "openai" | "edge" | "local";
 
 export type TtsMode = "final" | "all";
 
@@ -73,6 +73,31 @@ export type TtsConfig = {
     proxy?: string;
     timeoutMs?: number;
   };
+  /** Offline CPU TTS via a local engine CLI (Piper or sherpa-onnx). */
+  local?: {
+    /** Engine CLI flavor (default: piper). */
+    engine?: "piper" | "sherpa-onnx";
+    /** Engine executable (default: `piper` or `sherpa-onnx-offline-tts`). */
+    command?: string;
+    /** Voice model path (.onnx). Required to enable the local provider. */
+    modelPath?: string;
+    /** Piper voice config (.onnx.json; defaults to `<modelPath>.json`). */
+    configPath?: string;
+    /** sherpa-onnx tokens.txt path. */
+    tokensPath?: string;
+    /** sherpa-onnx espeak-ng data directory. */
+    dataDir?: string;
+    /** Speaker id for multi-speaker models. */
+    speaker?: number;
+    /** Speaking rate (length scale; >1 is slower). */
+    lengthScale?: number;
+    /** Max chars per synthesis chunk for long replies (default: 400). */
+    chunkChars?: number;
+    /** ffmpeg executable used for Opus/MP3 encoding (default: `ffmpeg`). */
+    ffmpegPath?: string;
+    /** Per-chunk synthesis timeout (ms). */
+    timeoutMs?: number;
+  };
   /** Optional path for local TTS user preferences JSON. */
   prefsPath?: string;
   /** Hard cap for text sent to TTS (chars). */
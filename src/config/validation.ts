@@ -1,5 +1,10 @@
 import path from "node:path";
 import { resolveAgentWorkspaceDir, resolveDefaultAgentId } from "../agents/agent-scope.js";
+import {
+  BUILTIN_WEB_FETCH_PROVIDERS,
+  BUILTIN_WEB_SEARCH_PROVIDERS,
+  normalizeWebProviderId,
+} from "../agents/tools/web-providers.js";
 import { CHANNEL_IDS, normalizeChatChannelId } from "../channels/registry.js";
 import {
   normalizePluginsConfig,
@@ -259,6 +264,44 @@ function validateConfigObjectWithPluginsBase(
     }
   }
 
+  const validateWebProvider = (params: {
+    value: unknown;
+    path: string;
+    builtins: readonly string[];
+    manifestKey: "webSearchProviders" | "webFetchProviders";
+    label: string;
+  }) => {
+    const id = normalizeWebProviderId(params.value);
+    if (!id || params.builtins.includes(id)) {
+      return;
+    }
+    const { registry } = ensureRegistry();
+    const known = registry.plugins.some((record) =>
+      (record[params.manifestKey] ?? []).some((entry) => normalizeWebProviderId(entry) === id),
+    );
+    if (!known) {
+      issues.push({
+        path: params.path,
+        message: `unknown ${params.label} provider: ${id} (not built in or declared by an installed plugin)`,
+      });
+    }
+  };
+
+  validateWebProvider({
+    value: config.tools?.web?.search?.provider,
+    path: "tools.web.search.provider",
+    builtins: BUILTIN_WEB_SEARCH_PROVIDERS,
+    manifestKey: "webSearchProviders",
+    label: "web search",
+  });
+  validateWebProvider({
+    value: config.tools?.web?.fetch?.provider,
+    path: "tools.web.fetch.provider",
+    builtins: BUILTIN_WEB_FETCH_PROVIDERS,
+    manifestKey: "webFetchProviders",
+    label: "web fetch",
+  });
+
   const heartbeatChannelIds = new Set<string>();
   for (const channelId of CHANNEL_IDS) {
     heartbeatChannelIds.add(channelId.toLowerCase());
@@ -31,6 +31,77 @@ export const AgentDefaultsSchema = z
           .strict(),
       )
       .optional(),
+    modelRouter: z
+      .object({
+        enabled: z.boolean().optional(),
+        tiers: z
+          .record(
+            z.string(),
+            z
+              .object({
+                model: z.string().min(1),
+                description: z.string().optional(),
+              })
+              .strict(),
+          )
+          .optional(),
+        rules: z
+          .array(
+            z
+              .object({
+                tier: z.string().min(1),
+                minChars: z.number().int().nonnegative().optional(),
+                maxChars: z.number().int().nonnegative().optional(),
+                attachments: z.boolean().optional(),
+                code: z.boolean().optional(),
+                channels: z.array(z.string()).optional(),
+                keywords: z.array(z.string()).optional(),
+                thinking: z
+                  .array(
+                    z.union([
+                      z.literal("off"),
+                      z.literal("minimal"),
+                      z.literal("low"),
+                      z.literal("medium"),
+                      z.literal("high"),
+                      z.literal("xhigh"),
+                    ]),
+                  )
+                  .optional(),
+              })
+              .strict(),
+          )
+          .optional(),
+        defaultTier: z.string().optional(),
+        classifier: z
+          .object({
+            model: z.string().min(1),
+            timeoutMs: z.number().int().positive().optional(),
+          })
+          .strict()
+          .optional(),
+      })
+      .strict()
+      .superRefine((router, ctx) => {
+        const tiers = new Set(Object.keys(router.tiers ?? {}));
+        router.rules?.forEach((rule, index) => {
+          if (!tiers.has(rule.tier)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: ["rules", index, "tier"],
+              message: `Unknown tier "${rule.tier}" (define it under modelRouter.tiers)`,
+            });
+          }
+        });
+        if (router.defaultTier !== undefined && !tiers.has(router.defaultTier)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["defaultTier"],
+            message: `Unknown tier "${router.defaultTier}" (define it under modelRouter.tiers)`,
+          });
+        }
+      })
+      .optional(),
     workspace: z.string().optional(),
     repoRoot: z.string().optional(),
     skipBootstrap: z.boolean().optional(),
@@ -264,6 +264,9 @@ export const ToolsWebSearchSchema = z
         z.literal("grok"),
         z.literal("gemini"),
         z.literal("kimi"),
+        z.literal("searxng"),
+        // Plugin-registered providers; ids are checked against plugin manifests in validation.
+        z.string(),
       ])
       .optional(),
     apiKey: z.string().optional().register(sensitive),
@@ -301,6 +304,18 @@ export const ToolsWebSearchSchema = z
       })
       .strict()
       .optional(),
+    searxng: z
+      .object({
+        baseUrl: z.string().optional(),
+        engines: z.array(z.string()).optional(),
+        categories: z.array(z.string()).optional(),
+        safeSearch: z
+          .union([z.literal("off"), z.literal("moderate"), z.literal("strict")])
+          .optional(),
+        language: z.string().optional(),
+      })
+      .strict()
+      .optional(),
   })
   .strict()
   .optional();
@@ -314,6 +329,7 @@ export const ToolsWebFetchSchema = z
     cacheTtlMinutes: z.number().nonnegative().optional(),
     maxRedirects: z.number().int().nonnegative().optional(),
     userAgent: z.string().optional(),
+    provider: z.string().optional(),
   })
   .strict()
   .optional();
@@ -421,6 +437,45 @@ const ToolFsSchema = z
   .strict()
   .optional();
 
+const McpServerSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    command: z.string().optional(),
+    args: z.array(z.string()).optional(),
+    env: z.record(z.string(), z.string().register(sensitive)).optional(),
+    cwd: z.string().optional(),
+    url: z.string().url().optional(),
+    headers: z.record(z.string(), z.string().register(sensitive)).optional(),
+    requestTimeoutMs: z.number().int().positive().optional(),
+    startupTimeoutMs: z.number().int().nonnegative().optional(),
+  })
+  .strict()
+  .superRefine((value, ctx) => {
+    if (value.enabled === false) {
+      return;
+    }
+    if (Boolean(value.command) === Boolean(value.url)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "MCP server needs exactly one of command (stdio) or url (streamable HTTP).",
+      });
+    }
+  });
+
+const ToolMcpSchema = z
+  .object({
+    servers: z
+      .record(
+        z
+          .string()
+          .regex(/^[A-Za-z0-9_-]+$/, "MCP server names may only use letters, digits, _ and -"),
+        McpServerSchema,
+      )
+      .optional(),
+  })
+  .strict()
+  .optional();
+
 const ToolLoopDetectionDetectorSchema = z
   .object({
     genericRepeat: z.boolean().optional(),
@@ -467,6 +522,50 @@ const ToolLoopDetectionSchema = z
   })
   .optional();
 
+const ToolArgRulesSchema = z
+  .array(
+    z
+      .object({
+        tools: z.array(z.string().min(1)).min(1),
+        actions: z.array(z.string()).optional(),
+        args: z.record(
+          z.string(),
+          z
+            .object({
+              allow: z.array(z.string()).optional(),
+              deny: z.array(z.string()).optional(),
+              pattern: z.string().optional(),
+              domains: z.array(z.string()).optional(),
+              paths: z.array(z.string()).optional(),
+              sameChat: z.boolean().optional(),
+            })
+            .strict(),
+        ),
+        message: z.string().optional(),
+      })
+      .strict(),
+  )
+  .optional();
+
+const ToolApprovalsSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    rules: z
+      .array(
+        z
+          .object({
+            tool: z.string().min(1),
+            actions: z.array(z.string()).optional(),
+            args: z.record(z.string(), z.union([z.string(), z.array(z.string())])).optional(),
+          })
+          .strict(),
+      )
+      .optional(),
+    timeoutMs: z.number().int().positive().optional(),
+  })
+  .strict()
+  .optional();
+
 export const AgentSandboxSchema = z
   .object({
     mode: z.union([z.literal("off"), z.literal("non-main"), z.literal("all")]).optional(),
@@ -518,6 +617,9 @@ export const AgentToolsSchema = z
     exec: AgentToolExecSchema,
     fs: ToolFsSchema,
     loopDetection: ToolLoopDetectionSchema,
+    approvals: ToolApprovalsSchema,
+    argRules: ToolArgRulesSchema,
+    mcp: ToolMcpSchema,
     sandbox: z
       .object({
         tools: ToolPolicySchema,
@@ -656,6 +758,25 @@ export const MemorySearchSchema = z
           })
           .strict()
           .optional(),
+        rerank: z
+          .object({
+            enabled: z.boolean().optional(),
+            provider: z.union([z.literal("local"), z.literal("remote")]).optional(),
+            model: z.string().optional(),
+            topN: z.number().int().positive().optional(),
+            timeoutMs: z.number().int().positive().optional(),
+            modelCacheDir: z.string().optional(),
+            remote: z
+              .object({
+                baseUrl: z.string().optional(),
+                apiKey: z.string().optional().register(sensitive),
+                headers: z.record(z.string(), z.string()).optional(),
+              })
+              .strict()
+              .optional(),
+          })
+          .strict()
+          .optional(),
       })
       .strict()
       .optional(),
@@ -720,6 +841,9 @@ export const ToolsSchema = z
       .strict()
       .optional(),
     loopDetection: ToolLoopDetectionSchema,
+    approvals: ToolApprovalsSchema,
+    argRules: ToolArgRulesSchema,
+    mcp: ToolMcpSchema,
     message: z
       .object({
         allowCrossContextSend: z.boolean().optional(),
@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+const BudgetLimitsSchema = z
+  .object({
+    dailyUsd: z.number().nonnegative().optional(),
+    monthlyUsd: z.number().nonnegative().optional(),
+    dailyTokens: z.number().int().nonnegative().optional(),
+    monthlyTokens: z.number().int().nonnegative().optional(),
+  })
+  .strict();
+
+export const BudgetsSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    warnAt: z.number().gt(0).max(1).optional(),
+    onLimit: z.union([z.literal("stop"), z.literal("warn")]).optional(),
+    agents: z.record(z.string(), BudgetLimitsSchema).optional(),
+    sessions: z.record(z.string(), BudgetLimitsSchema).optional(),
+    channels: z.record(z.string(), BudgetLimitsSchema).optional(),
+  })
+  .strict()
+  .optional();
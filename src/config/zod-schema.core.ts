@@ -1,7 +1,7 @@
 import path from "node:path";
 import { z } from "zod";
 import { isSafeExecutableValue } from "../infra/exec-safety.js";
-import { isValidFileSecretRefId } from "../secrets/ref-contract.js";
+import { isValidFileSecretRefId, isValidJsonPointerSecretRefId } from "../secrets/ref-contract.js";
 import { MODEL_APIS } from "./types.models.js";
 import { createAllowDenyChannelRulesSchema } from "./zod-schema.allowdeny.js";
 import { sensitive } from "./zod-schema.sensitive.js";
@@ -74,10 +74,29 @@ const ExecSecretRefSchema = z
   })
   .strict();
 
+const EncryptedSecretRefSchema = z
+  .object({
+    source: z.literal("encrypted"),
+    provider: z
+      .string()
+      .regex(
+        SECRET_PROVIDER_ALIAS_PATTERN,
+        'Secret reference provider must match /^[a-z][a-z0-9_-]{0,63}$/ (example: "default").',
+      ),
+    id: z
+      .string()
+      .refine(
+        isValidJsonPointerSecretRefId,
+        'Encrypted secret reference id must be an absolute JSON pointer (example: "/providers/openai/apiKey").',
+      ),
+  })
+  .strict();
+
 export const SecretRefSchema = z.discriminatedUnion("source", [
   EnvSecretRefSchema,
   FileSecretRefSchema,
   ExecSecretRefSchema,
+  EncryptedSecretRefSchema,
 ]);
 
 export const SecretInputSchema = z.union([z.string(), SecretRefSchema]);
@@ -141,10 +160,27 @@ const SecretsExecProviderSchema = z
   })
   .strict();
 
+const SecretsEncryptedProviderSchema = z
+  .object({
+    source: z.literal("encrypted"),
+    path: z.string().min(1),
+    passphraseEnv: z.string().regex(ENV_SECRET_REF_ID_PATTERN).optional(),
+    keyFile: z.string().min(1).optional(),
+    timeoutMs: z.number().int().positive().max(120000).optional(),
+    maxBytes: z
+      .number()
+      .int()
+      .positive()
+      .max(20 * 1024 * 1024)
+      .optional(),
+  })
+  .strict();
+
 export const SecretProviderSchema = z.discriminatedUnion("source", [
   SecretsEnvProviderSchema,
   SecretsFileProviderSchema,
   SecretsExecProviderSchema,
+  SecretsEncryptedProviderSchema,
 ]);
 
 export const SecretsConfigSchema = z
@@ -160,6 +196,7 @@ export const SecretsConfigSchema = z
         env: z.string().regex(SECRET_PROVIDER_ALIAS_PATTERN).optional(),
         file: z.string().regex(SECRET_PROVIDER_ALIAS_PATTERN).optional(),
         exec: z.string().regex(SECRET_PROVIDER_ALIAS_PATTERN).optional(),
+        encrypted: z.string().regex(SECRET_PROVIDER_ALIAS_PATTERN).optional(),
       })
       .strict()
       .optional(),
@@ -235,6 +272,15 @@ export const ModelProviderSchema = z
     headers: z.record(z.string(), z.string()).optional(),
     authHeader: z.boolean().optional(),
     models: z.array(ModelDefinitionSchema),
+    replay: z
+      .object({
+        cassetteDir: z.string().optional(),
+        mode: z.union([z.literal("replay"), z.literal("record"), z.literal("auto")]).optional(),
+        match: z.union([z.literal("strict"), z.literal("lenient")]).optional(),
+        recordFrom: z.string().optional(),
+      })
+      .strict()
+      .optional(),
   })
   .strict();
 
@@ -352,7 +398,7 @@ export const MarkdownConfigSchema = z
   .strict()
   .optional();
 
-export const TtsProviderSchema = z.enum(["elevenlabs", "openai", "edge"]);
+export const TtsProviderSchema = z.enum(["elevenlabs", "openai", "edge", "local"]);
 export const TtsModeSchema = z.enum(["final", "all"]);
 export const TtsAutoSchema = z.enum(["off", "always", "inbound", "tagged"]);
 export const TtsConfigSchema = z
@@ -420,6 +466,22 @@ export const TtsConfigSchema = z
       })
       .strict()
       .optional(),
+    local: z
+      .object({
+        engine: z.enum(["piper", "sherpa-onnx"]).optional(),
+        command: z.string().optional(),
+        modelPath: z.string().optional(),
+        configPath: z.string().optional(),
+        tokensPath: z.string().optional(),
+        dataDir: z.string().optional(),
+        speaker: z.number().int().min(0).optional(),
+        lengthScale: z.number().positive().optional(),
+        chunkChars: z.number().int().min(50).max(4096).optional(),
+        ffmpegPath: z.string().optional(),
+        timeoutMs: z.number().int().min(1000).max(600000).optional(),
+      })
+      .strict()
+      .optional(),
     prefsPath: z.string().optional(),
     maxTextLength: z.number().int().min(1).optional(),
     timeoutMs: z.number().int().min(1000).max(120000).optional(),
@@ -615,7 +677,9 @@ export const ExecutableTokenSchema = z
 export const MediaUnderstandingScopeSchema = createAllowDenyChannelRulesSchema();
 
 export const MediaUnderstandingCapabilitiesSchema = z
-  .array(z.union([z.literal("image"), z.literal("audio"), z.literal("video")]))
+  .array(
+    z.union([z.literal("image"), z.literal("audio"), z.literal("video"), z.literal("document")]),
+  )
   .optional();
 
 export const MediaUnderstandingAttachmentsSchema = z
@@ -683,6 +747,24 @@ export const ToolsMediaUnderstandingSchema = z
   .strict()
   .optional();
 
+export const ToolsMediaDocumentSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    scope: MediaUnderstandingScopeSchema,
+    maxBytes: z.number().int().positive().optional(),
+    maxChars: z.number().int().positive().optional(),
+    ...MediaUnderstandingRuntimeFields,
+    attachments: MediaUnderstandingAttachmentsSchema,
+    models: z.array(MediaUnderstandingModelSchema).optional(),
+    maxPages: z.number().int().positive().optional(),
+    chunkChars: z.number().int().positive().optional(),
+    minPageTextChars: z.number().int().nonnegative().optional(),
+    visionFallback: z.boolean().optional(),
+    visionMaxPages: z.number().int().nonnegative().optional(),
+  })
+  .strict()
+  .optional();
+
 export const ToolsMediaSchema = z
   .object({
     models: z.array(MediaUnderstandingModelSchema).optional(),
@@ -690,6 +772,7 @@ export const ToolsMediaSchema = z
     image: ToolsMediaUnderstandingSchema.optional(),
     audio: ToolsMediaUnderstandingSchema.optional(),
     video: ToolsMediaUnderstandingSchema.optional(),
+    document: ToolsMediaDocumentSchema,
   })
   .strict()
   .optional();
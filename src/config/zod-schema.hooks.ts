@@ -1,5 +1,6 @@
 import path from "node:path";
 import { z } from "zod";
+import { SecretInputSchema } from "./zod-schema.core.js";
 import { InstallRecordShape } from "./zod-schema.installs.js";
 import { sensitive } from "./zod-schema.sensitive.js";
 
@@ -73,6 +74,25 @@ export const HookMappingSchema = z
       })
       .strict()
       .optional(),
+    verify: z
+      .object({
+        scheme: z
+          .union([
+            z.literal("hmac-sha256"),
+            z.literal("github"),
+            z.literal("stripe"),
+            z.literal("slack"),
+          ])
+          .optional(),
+        secret: SecretInputSchema.register(sensitive),
+        header: z.string().optional(),
+        prefix: z.string().optional(),
+        encoding: z.union([z.literal("hex"), z.literal("base64")]).optional(),
+        timestampHeader: z.string().optional(),
+        toleranceSeconds: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
   })
   .strict()
   .optional();
@@ -4,6 +4,7 @@ import { parseDurationMs } from "../cli/parse-duration.js";
 import { ToolsSchema } from "./zod-schema.agent-runtime.js";
 import { AgentsSchema, AudioSchema, BindingsSchema, BroadcastSchema } from "./zod-schema.agents.js";
 import { ApprovalsSchema } from "./zod-schema.approvals.js";
+import { BudgetsSchema } from "./zod-schema.budgets.js";
 import {
   HexColorSchema,
   ModelsConfigSchema,
@@ -411,6 +412,7 @@ export const OpenClawSchema = z
         }
       })
       .optional(),
+    budgets: BudgetsSchema,
     hooks: z
       .object({
         enabled: z.boolean().optional(),
@@ -659,6 +661,19 @@ export const OpenClawSchema = z
                   })
                   .strict()
                   .optional(),
+                mcp: z
+                  .object({
+                    enabled: z.boolean().optional(),
+                  })
+                  .strict()
+                  .optional(),
+                metrics: z
+                  .object({
+                    enabled: z.boolean().optional(),
+                    token: SecretInputSchema.optional().register(sensitive),
+                  })
+                  .strict()
+                  .optional(),
               })
               .strict()
               .optional(),
@@ -21,10 +21,34 @@ const DEFAULT_OPTIONS: NormalizeOptions = {
   applyDefaults: false,
 };
 
+function coerceDependencies(raw: unknown[]) {
+  const seen = new Set<string>();
+  const deps: UnknownRecord[] = [];
+  for (const entry of raw) {
+    const record = typeof entry === "string" ? { jobId: entry } : isRecord(entry) ? entry : null;
+    const jobIdRaw = record?.jobId ?? record?.id;
+    const jobId = typeof jobIdRaw === "string" ? jobIdRaw.trim() : "";
+    if (!record || !jobId || seen.has(jobId)) {
+      continue;
+    }
+    seen.add(jobId);
+    const on = typeof record.on === "string" ? record.on.trim().toLowerCase() : "";
+    if (on === "always" || on === "success" || on === "failure") {
+      deps.push({ jobId, on });
+    } else {
+      deps.push({ jobId });
+    }
+  }
+  return deps;
+}
+
 function coerceSchedule(schedule: UnknownRecord) {
   const next: UnknownRecord = { ...schedule };
   const rawKind = typeof schedule.kind === "string" ? schedule.kind.trim().toLowerCase() : "";
-  const kind = rawKind === "at" || rawKind === "every" || rawKind === "cron" ? rawKind : undefined;
+  const kind =
+    rawKind === "at" || rawKind === "every" || rawKind === "cron" || rawKind === "after"
+      ? rawKind
+      : undefined;
   const atMsRaw = schedule.atMs;
   const atRaw = schedule.at;
   const atString = typeof atRaw === "string" ? atRaw.trim() : "";
@@ -50,9 +74,15 @@ function coerceSchedule(schedule: UnknownRecord) {
       next.kind = "every";
     } else if (typeof schedule.expr === "string") {
       next.kind = "cron";
+    } else if (Array.isArray(schedule.dependsOn)) {
+      next.kind = "after";
     }
   }
 
+  if (Array.isArray(schedule.dependsOn)) {
+    next.dependsOn = coerceDependencies(schedule.dependsOn);
+  }
+
   if (atString) {
     next.at = parsedAtMs !== null ? new Date(parsedAtMs).toISOString() : atString;
   } else if (parsedAtMs !== null) {
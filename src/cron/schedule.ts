@@ -30,6 +30,11 @@ export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): numbe
     return atMs > nowMs ? atMs : undefined;
   }
 
+  if (schedule.kind === "after") {
+    // Dependent jobs never fire on their own; upstream outcomes queue them.
+    return undefined;
+  }
+
   if (schedule.kind === "every") {
     const everyMs = Math.max(1, Math.floor(schedule.everyMs));
     const anchor = Math.max(0, Math.floor(schedule.anchorMs ?? nowMs));
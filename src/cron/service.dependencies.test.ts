@@ -0,0 +1,216 @@
+import { describe, expect, it, vi } from "vitest";
+import { CronService } from "./service.js";
+import { createFinishedBarrier, setupCronServiceSuite } from "./service.test-harness.js";
+import type { CronJobCreate } from "./types.js";
+
+const { logger, makeStorePath } = setupCronServiceSuite({ prefix: "openclaw-cron-deps-" });
+
+function isolatedJob(name: string, schedule: CronJobCreate["schedule"]): CronJobCreate {
+  return {
+    name,
+    enabled: true,
+    schedule,
+    sessionTarget: "isolated",
+    wakeMode: "next-heartbeat",
+    payload: { kind: "agentTurn", message: `${name} message` },
+    delivery: { mode: "none" },
+  };
+}
+
+async function createService(
+  runIsolatedAgentJob: ConstructorParameters<typeof CronService>[0]["runIsolatedAgentJob"],
+) {
+  const store = await makeStorePath();
+  const finished = createFinishedBarrier();
+  const cron = new CronService({
+    storePath: store.storePath,
+    cronEnabled: true,
+    log: logger,
+    enqueueSystemEvent: vi.fn(),
+    requestHeartbeatNow: vi.fn(),
+    runIsolatedAgentJob,
+    onEvent: finished.onEvent,
+  });
+  await cron.start();
+  return { cron, finished };
+}
+
+describe("CronService dependent jobs", () => {
+  it("runs a dependent job after its upstream succeeds with the upstream summary", async () => {
+    const runIsolatedAgentJob = vi.fn(
+      async ({ job }: { job: { name: string }; message: string }) => ({
+        status: "ok" as const,
+        summary: `${job.name} summary`,
+      }),
+    );
+    const { cron, finished } = await createService(runIsolatedAgentJob);
+
+    const fetch = await cron.add(isolatedJob("fetch", { kind: "every", everyMs: 3_600_000 }));
+    const digest = await cron.add(
+      isolatedJob("digest", { kind: "after", dependsOn: [{ jobId: fetch.id }] }),
+    );
+    expect(digest.state.nextRunAtMs).toBeUndefined();
+
+    const digestDone = finished.waitForOk(digest.id);
+    await cron.run(fetch.id, "force");
+    await vi.runOnlyPendingTimersAsync();
+    await digestDone;
+
+    expect(runIsolatedAgentJob).toHaveBeenCalledTimes(2);
+    const message = runIsolatedAgentJob.mock.calls[1]?.[0]?.message;
+    expect(message).toContain("digest message");
+    expect(message).toContain(`Upstream cron job "fetch" (${fetch.id}) finished with status: ok.`);
+    expect(message).toContain("fetch summary");
+
+    const jobs = await cron.list({ includeDisabled: true });
+    const updated = jobs.find((job) => job.id === digest.id);
+    expect(updated?.state.lastStatus).toBe("ok");
+    expect(updated?.state.pendingTriggers).toBeUndefined();
+    expect(updated?.state.nextRunAtMs).toBeUndefined();
+
+    cron.stop();
+  });
+
+  it("only queues failure handlers when the upstream run errors", async () => {
+    const runIsolatedAgentJob = vi.fn(async ({ job }: { job: { name: string }; message: string }) =>
+      job.name === "fetch"
+        ? { status: "error" as const, error: "upstream boom" }
+        : { status: "ok" as const },
+    );
+    const { cron, finished } = await createService(runIsolatedAgentJob);
+
+    const fetch = await cron.add(isolatedJob("fetch", { kind: "every", everyMs: 3_600_000 }));
+    const onSuccess = await cron.add(
+      isolatedJob("summarize", { kind: "after", dependsOn: [{ jobId: fetch.id }] }),
+    );
+    const onFailure = await cron.add(
+      isolatedJob("alert", { kind: "after", dependsOn: [{ jobId: fetch.id, on: "failure" }] }),
+    );
+
+    const alertDone = finished.waitForOk(onFailure.id);
+    await cron.run(fetch.id, "force");
+    await vi.runOnlyPendingTimersAsync();
+    await alertDone;
+
+    const names = runIsolatedAgentJob.mock.calls.map((call) => call[0]?.job.name);
+    expect(names).toEqual(["fetch", "alert"]);
+    expect(runIsolatedAgentJob.mock.calls[1]?.[0]?.message).toContain(
+      "Upstream error: upstream boom",
+    );
+
+    const jobs = await cron.list({ includeDisabled: true });
+    expect(jobs.find((job) => job.id === onSuccess.id)?.state.lastStatus).toBeUndefined();
+
+    cron.stop();
+  });
+
+  it("runs a dependent job once per upstream outcome when several finish first", async () => {
+    const runIsolatedAgentJob = vi.fn(
+      async ({ job }: { job: { name: string }; message: string }) => ({
+        status: "ok" as const,
+        summary: `${job.name} summary`,
+      }),
+    );
+    const { cron } = await createService(runIsolatedAgentJob);
+
+    const news = await cron.add(isolatedJob("news", { kind: "every", everyMs: 3_600_000 }));
+    const weather = await cron.add(isolatedJob("weather", { kind: "every", everyMs: 3_600_000 }));
+    const digest = await cron.add(
+      isolatedJob("digest", {
+        kind: "after",
+        dependsOn: [{ jobId: news.id }, { jobId: weather.id }],
+      }),
+    );
+
+    await cron.run(news.id, "force");
+    await cron.run(weather.id, "force");
+    let queued = (await cron.list({ includeDisabled: true })).find((job) => job.id === digest.id);
+    expect(queued?.state.pendingTriggers?.map((trigger) => trigger.jobId)).toEqual([
+      news.id,
+      weather.id,
+    ]);
+
+    const digestMessages = () =>
+      runIsolatedAgentJob.mock.calls
+        .filter((call) => call[0]?.job.name === "digest")
+        .map((call) => call[0]?.message);
+    for (let tick = 0; tick < 5 && digestMessages().length < 2; tick += 1) {
+      await vi.runOnlyPendingTimersAsync();
+      await cron.list({ includeDisabled: true });
+    }
+
+    expect(digestMessages()).toHaveLength(2);
+    expect(digestMessages()[0]).toContain("news summary");
+    expect(digestMessages()[1]).toContain("weather summary");
+    queued = (await cron.list({ includeDisabled: true })).find((job) => job.id === digest.id);
+    expect(queued?.state.pendingTriggers).toBeUndefined();
+
+    cron.stop();
+  });
+
+  it("refuses to remove a job that others depend on", async () => {
+    const { cron } = await createService(vi.fn(async () => ({ status: "ok" as const })));
+
+    const fetch = await cron.add(isolatedJob("fetch", { kind: "every", everyMs: 60_000 }));
+    const digest = await cron.add(
+      isolatedJob("digest", { kind: "after", dependsOn: [{ jobId: fetch.id }] }),
+    );
+
+    await expect(cron.remove(fetch.id)).rejects.toThrow(
+      `cron job ${fetch.id} is still a dependency of: ${digest.id}`,
+    );
+    await expect(cron.remove(digest.id)).resolves.toEqual({ ok: true, removed: true });
+    await expect(cron.remove(fetch.id)).resolves.toEqual({ ok: true, removed: true });
+
+    cron.stop();
+  });
+
+  it("rejects unknown upstream jobs and dependency cycles", async () => {
+    const { cron } = await createService(vi.fn(async () => ({ status: "ok" as const })));
+
+    await expect(
+      cron.add(isolatedJob("orphan", { kind: "after", dependsOn: [{ jobId: "missing" }] })),
+    ).rejects.toThrow("unknown upstream cron job id: missing");
+
+    const first = await cron.add(isolatedJob("first", { kind: "every", everyMs: 60_000 }));
+    const second = await cron.add(
+      isolatedJob("second", { kind: "after", dependsOn: [{ jobId: first.id }] }),
+    );
+    await expect(
+      cron.update(first.id, { schedule: { kind: "after", dependsOn: [{ jobId: second.id }] } }),
+    ).rejects.toThrow("cron dependency cycle detected");
+    const jobs = await cron.list({ includeDisabled: true });
+    expect(jobs.find((job) => job.id === first.id)?.schedule).toMatchObject({
+      kind: "every",
+      everyMs: 60_000,
+    });
+
+    cron.stop();
+  });
+
+  it("reports dependency chains through graph()", async () => {
+    const { cron } = await createService(vi.fn(async () => ({ status: "ok" as const })));
+
+    const fetch = await cron.add(isolatedJob("fetch", { kind: "every", everyMs: 60_000 }));
+    const summarize = await cron.add(
+      isolatedJob("summarize", { kind: "after", dependsOn: [{ jobId: fetch.id }] }),
+    );
+    const post = await cron.add(
+      isolatedJob("post", {
+        kind: "after",
+        dependsOn: [{ jobId: summarize.id, on: "always" }],
+      }),
+    );
+    await cron.add(isolatedJob("unrelated", { kind: "every", everyMs: 60_000 }));
+
+    const graph = await cron.graph({ id: post.id });
+    expect(graph.nodes.map((node) => node.name)).toEqual(["fetch", "post", "summarize"]);
+    expect(graph.edges).toEqual([
+      { from: fetch.id, to: summarize.id, on: "success" },
+      { from: summarize.id, to: post.id, on: "always" },
+    ]);
+    expect(graph.missing).toEqual([]);
+
+    cron.stop();
+  });
+});
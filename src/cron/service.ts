@@ -30,6 +30,10 @@ export class CronService {
     return await ops.listPage(this.state, opts);
   }
 
+  async graph(opts?: { id?: string }) {
+    return await ops.graph(this.state, opts);
+  }
+
   async add(input: CronJobCreate) {
     return await ops.add(this.state, input);
   }
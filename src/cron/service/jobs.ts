@@ -9,11 +9,14 @@ import {
 import type {
   CronDelivery,
   CronDeliveryPatch,
+  CronDependencyCondition,
   CronJob,
   CronJobCreate,
   CronJobPatch,
+  CronJobTrigger,
   CronPayload,
   CronPayloadPatch,
+  CronRunStatus,
 } from "../types.js";
 import { normalizeHttpWebhookUrl } from "../webhook-url.js";
 import {
@@ -131,10 +134,122 @@ export function findJobOrThrow(state: CronServiceState, id: string) {
   return job;
 }
 
+export function assertValidJobDependencies(state: CronServiceState, job: CronJob) {
+  if (job.schedule.kind !== "after") {
+    return;
+  }
+  const dependsOn = job.schedule.dependsOn;
+  if (!Array.isArray(dependsOn) || dependsOn.length === 0) {
+    throw new Error('cron "after" schedules require at least one dependsOn entry');
+  }
+  const jobsById = new Map((state.store?.jobs ?? []).map((entry) => [entry.id, entry]));
+  jobsById.set(job.id, job);
+  for (const dep of dependsOn) {
+    if (dep.jobId === job.id) {
+      throw new Error(`cron job cannot depend on itself: ${job.id}`);
+    }
+    if (!jobsById.has(dep.jobId)) {
+      throw new Error(`unknown upstream cron job id: ${dep.jobId}`);
+    }
+  }
+  // Walk upstream edges; reaching this job again means the patch would close a cycle.
+  const seen = new Set<string>();
+  const pending = dependsOn.map((dep) => dep.jobId);
+  while (pending.length > 0) {
+    const id = pending.pop();
+    if (id === undefined || seen.has(id)) {
+      continue;
+    }
+    if (id === job.id) {
+      throw new Error(`cron dependency cycle detected for job ${job.id}`);
+    }
+    seen.add(id);
+    const upstream = jobsById.get(id);
+    if (upstream?.schedule.kind === "after") {
+      pending.push(...upstream.schedule.dependsOn.map((dep) => dep.jobId));
+    }
+  }
+}
+
+function dependencyConditionMatches(
+  condition: CronDependencyCondition | undefined,
+  status: CronRunStatus,
+) {
+  const on = condition ?? "success";
+  if (on === "always") {
+    return true;
+  }
+  return on === "success" ? status === "ok" : status === "error";
+}
+
+/**
+ * Queue a run of every enabled "after" job that depends on `upstream` with a
+ * condition matching the finished run. Triggers queue up behind ones that are
+ * still pending, so each matching outcome gets its own run. Returns the ids of
+ * the jobs that became due.
+ */
+export function queueDependentJobs(
+  state: CronServiceState,
+  upstream: Pick<CronJob, "id" | "name">,
+  outcome: { status: CronRunStatus; summary?: string; error?: string; endedAt: number },
+): string[] {
+  const queued: string[] = [];
+  for (const job of state.store?.jobs ?? []) {
+    if (!job.enabled || job.id === upstream.id || job.schedule.kind !== "after") {
+      continue;
+    }
+    const dep = job.schedule.dependsOn.find((entry) => entry.jobId === upstream.id);
+    if (!dep || !dependencyConditionMatches(dep.on, outcome.status)) {
+      continue;
+    }
+    const triggers = job.state.pendingTriggers ?? [];
+    triggers.push({
+      jobId: upstream.id,
+      jobName: upstream.name,
+      status: outcome.status,
+      summary: outcome.summary,
+      error: outcome.error,
+      triggeredAtMs: outcome.endedAt,
+    });
+    job.state.pendingTriggers = triggers;
+    job.state.nextRunAtMs = triggers[0]?.triggeredAtMs;
+    queued.push(job.id);
+  }
+  if (queued.length > 0) {
+    state.deps.log.info(
+      { jobId: upstream.id, status: outcome.status, dependents: queued },
+      "cron: queued dependent jobs",
+    );
+  }
+  return queued;
+}
+
+/** Append the upstream outcome that triggered a dependent run to its agent message. */
+export function appendTriggerContext(message: string, trigger?: CronJobTrigger): string {
+  if (!trigger) {
+    return message;
+  }
+  const label = trigger.jobName ? `"${trigger.jobName}" (${trigger.jobId})` : trigger.jobId;
+  const lines = [`Upstream cron job ${label} finished with status: ${trigger.status}.`];
+  const summary = trigger.summary?.trim();
+  if (summary) {
+    lines.push("", "Upstream output:", summary);
+  }
+  const error = trigger.error?.trim();
+  if (error) {
+    lines.push("", `Upstream error: ${error}`);
+  }
+  return `${message}\n\n${lines.join("\n")}`;
+}
+
 export function computeJobNextRunAtMs(job: CronJob, nowMs: number): number | undefined {
   if (!job.enabled) {
     return undefined;
   }
+  if (job.schedule.kind === "after") {
+    // Dependent jobs are only due while an upstream trigger is waiting.
+    return job.state.pendingTriggers?.[0]?.triggeredAtMs;
+  }
   if (job.schedule.kind === "every") {
     const everyMs = Math.max(1, Math.floor(job.schedule.everyMs));
     const lastRunAtMs = job.state.lastRunAtMs;
@@ -394,6 +509,7 @@ export function createJob(state: CronServiceState, input: CronJobCreate): CronJo
   };
   assertSupportedJobSpec(job);
   assertDeliverySupport(job);
+  assertValidJobDependencies(state, job);
   job.state.nextRunAtMs = computeJobNextRunAtMs(job, now);
   return job;
 }
@@ -428,6 +544,9 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
     } else {
       job.schedule = patch.schedule;
     }
+    if (job.schedule.kind !== "after") {
+      job.state.pendingTriggers = undefined;
+    }
   }
   if (patch.sessionTarget) {
     job.sessionTarget = patch.sessionTarget;
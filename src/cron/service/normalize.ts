@@ -76,6 +76,9 @@ export function inferLegacyName(job: {
   if (kind === "at") {
     return "One-shot";
   }
+  if (kind === "after") {
+    return "Dependent job";
+  }
   return "Cron job";
 }
 
@@ -1,6 +1,7 @@
 import type { CronJob, CronJobCreate, CronJobPatch } from "../types.js";
 import {
   applyJobPatch,
+  assertValidJobDependencies,
   computeJobNextRunAtMs,
   createJob,
   findJobOrThrow,
@@ -10,7 +11,7 @@ import {
   recomputeNextRunsForMaintenance,
 } from "./jobs.js";
 import { locked } from "./locked.js";
-import type { CronServiceState } from "./state.js";
+import type { CronGraphEdge, CronGraphResult, CronServiceState } from "./state.js";
 import { ensureLoaded, persist, warnIfDisabled } from "./store.js";
 import {
   applyJobResult,
@@ -19,6 +20,7 @@ import {
   executeJobCoreWithTimeout,
   runMissedJobs,
   stopTimer,
+  triggerDependentJobs,
   wake,
 } from "./timer.js";
 
@@ -226,6 +228,72 @@ export async function listPage(state: CronServiceState, opts?: CronListPageOptio
   });
 }
 
+/**
+ * Dependency graph of "after" jobs. With `id`, only the chain containing that
+ * job (its upstream ancestors and downstream dependents) is returned.
+ */
+export async function graph(state: CronServiceState, opts?: { id?: string }) {
+  return await locked(state, async () => {
+    await ensureLoadedForRead(state);
+    const jobs = state.store?.jobs ?? [];
+    const jobsById = new Map(jobs.map((job) => [job.id, job]));
+    const edges: CronGraphEdge[] = [];
+    for (const job of jobs) {
+      if (job.schedule.kind !== "after") {
+        continue;
+      }
+      for (const dep of job.schedule.dependsOn) {
+        edges.push({ from: dep.jobId, to: job.id, on: dep.on ?? "success" });
+      }
+    }
+
+    let included: Set<string>;
+    if (opts?.id) {
+      findJobOrThrow(state, opts.id);
+      included = new Set([opts.id]);
+      const walk = (direction: "up" | "down") => {
+        const pending = [opts.id as string];
+        while (pending.length > 0) {
+          const current = pending.pop();
+          for (const edge of edges) {
+            const [from, to] = direction === "up" ? [edge.to, edge.from] : [edge.from, edge.to];
+            if (from === current && !included.has(to)) {
+              included.add(to);
+              pending.push(to);
+            }
+          }
+        }
+      };
+      walk("up");
+      walk("down");
+    } else {
+      included = new Set(edges.flatMap((edge) => [edge.from, edge.to]));
+    }
+
+    const nodes = [...included].flatMap((id) => {
+      const job = jobsById.get(id);
+      if (!job) {
+        return [];
+      }
+      return [
+        {
+          id: job.id,
+          name: job.name,
+          enabled: job.enabled,
+          scheduleKind: job.schedule.kind,
+          lastRunStatus: job.state.lastRunStatus,
+          nextRunAtMs: job.state.nextRunAtMs,
+        },
+      ];
+    });
+    return {
+      nodes: nodes.toSorted((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id)),
+      edges: edges.filter((edge) => included.has(edge.from) && included.has(edge.to)),
+      missing: [...included].filter((id) => !jobsById.has(id)).toSorted(),
+    } satisfies CronGraphResult;
+  });
+}
+
 export async function add(state: CronServiceState, input: CronJobCreate) {
   return await locked(state, async () => {
     warnIfDisabled(state, "add");
@@ -266,6 +334,12 @@ export async function update(state: CronServiceState, id: string, patch: CronJob
     await ensureLoaded(state, { skipRecompute: true });
     const job = findJobOrThrow(state, id);
     const now = state.deps.nowMs();
+    if (patch.schedule) {
+      // Validate on a copy so a rejected patch leaves the in-memory job untouched.
+      const candidate = structuredClone(job);
+      applyJobPatch(candidate, patch);
+      assertValidJobDependencies(state, candidate);
+    }
     applyJobPatch(job, patch);
     if (job.schedule.kind === "every") {
       const anchor = job.schedule.anchorMs;
@@ -322,6 +396,14 @@ export async function remove(state: CronServiceState, id: string) {
     if (!state.store) {
       return { ok: false, removed: false } as const;
     }
+    const dependents = state.store.jobs.filter(
+      (j) => j.schedule.kind === "after" && j.schedule.dependsOn.some((dep) => dep.jobId === id),
+    );
+    if (dependents.length > 0) {
+      throw new Error(
+        `cron job ${id} is still a dependency of: ${dependents.map((j) => j.id).join(", ")}`,
+      );
+    }
     state.store.jobs = state.store.jobs.filter((j) => j.id !== id);
     const removed = (state.store.jobs.length ?? 0) !== before;
     await persist(state);
@@ -442,6 +524,7 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
       snapshot: postRunSnapshot,
       removed: postRunRemoved,
     });
+    triggerDependentJobs(state, executionJob, { ...coreResult, endedAt });
     recomputeNextRunsForMaintenance(state);
     await persist(state);
     armTimer(state);
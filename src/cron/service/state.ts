@@ -2,6 +2,7 @@ import type { CronConfig } from "../../config/types.cron.js";
 import type { HeartbeatRunResult } from "../../infra/heartbeat-wake.js";
 import type {
   CronDeliveryStatus,
+  CronDependencyCondition,
   CronJob,
   CronJobCreate,
   CronJobPatch,
@@ -135,6 +136,30 @@ export type CronRunResult =
   | { ok: true; ran: false; reason: "already-running" }
   | { ok: false };
 
+export type CronGraphNode = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  scheduleKind: CronJob["schedule"]["kind"];
+  lastRunStatus?: CronRunStatus;
+  nextRunAtMs?: number;
+};
+
+export type CronGraphEdge = {
+  /** Upstream job id. */
+  from: string;
+  /** Dependent job id. */
+  to: string;
+  on: CronDependencyCondition;
+};
+
+export type CronGraphResult = {
+  nodes: CronGraphNode[];
+  edges: CronGraphEdge[];
+  /** Upstream ids referenced by dependents that no longer exist. */
+  missing: string[];
+};
+
 export type CronRemoveResult = { ok: true; removed: boolean } | { ok: false; removed: false };
 
 export type CronAddResult = CronJob;
@@ -10,8 +10,10 @@ import type {
   CronRunTelemetry,
 } from "../types.js";
 import {
+  appendTriggerContext,
   computeJobNextRunAtMs,
   nextWakeAtMs,
+  queueDependentJobs,
   recomputeNextRunsForMaintenance,
   resolveJobPayloadTextForMain,
 } from "./jobs.js";
@@ -154,7 +156,17 @@ export function applyJobResult(
     job.schedule.kind === "at" && job.deleteAfterRun === true && result.status === "ok";
 
   if (!shouldDelete) {
-    if (job.schedule.kind === "at") {
+    if (job.schedule.kind === "after") {
+      // Consume the trigger that started this run; later ones (including those
+      // that landed while the run was in flight) each fire the job again.
+      const [consumed, ...rest] = job.state.pendingTriggers ?? [];
+      if (consumed && consumed.triggeredAtMs <= result.startedAt) {
+        job.state.pendingTriggers = rest.length > 0 ? rest : undefined;
+      }
+      job.state.nextRunAtMs = job.enabled
+        ? job.state.pendingTriggers?.[0]?.triggeredAtMs
+        : undefined;
+    } else if (job.schedule.kind === "at") {
       // One-shot jobs are always disabled after ANY terminal status
       // (ok, error, or skipped). This prevents tight-loop rescheduling
       // when computeJobNextRunAtMs returns the past atMs value (#11452).
@@ -229,6 +241,7 @@ function applyOutcomeToStoredJob(state: CronServiceState, result: TimedCronRunOu
   });
 
   emitJobFinished(state, job, result, result.startedAt);
+  triggerDependentJobs(state, job, result);
 
   if (shouldDelete) {
     store.jobs = jobs.filter((entry) => entry.id !== job.id);
@@ -709,7 +722,7 @@ export async function executeJobCore(
 
   const res = await state.deps.runIsolatedAgentJob({
     job,
-    message: job.payload.message,
+    message: appendTriggerContext(job.payload.message, job.state.pendingTriggers?.[0]),
     abortSignal,
   });
 
@@ -803,6 +816,7 @@ export async function executeJob(
   });
 
   emitJobFinished(state, job, coreResult, startedAt);
+  triggerDependentJobs(state, job, { ...coreResult, endedAt });
 
   if (shouldDelete && state.store) {
     state.store.jobs = state.store.jobs.filter((j) => j.id !== job.id);
@@ -810,6 +824,17 @@ export async function executeJob(
   }
 }
 
+/** Queue "after" jobs that depend on a finished run and announce their new due time. */
+export function triggerDependentJobs(
+  state: CronServiceState,
+  upstream: Pick<CronJob, "id" | "name">,
+  outcome: { status: CronRunStatus; summary?: string; error?: string; endedAt: number },
+) {
+  for (const jobId of queueDependentJobs(state, upstream, outcome)) {
+    emit(state, { jobId, action: "updated", nextRunAtMs: outcome.endedAt });
+  }
+}
+
 function emitJobFinished(
   state: CronServiceState,
   job: CronJob,
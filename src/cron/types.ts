@@ -1,5 +1,14 @@
 import type { ChannelId } from "../channels/plugins/types.js";
 
+/** Which upstream outcomes trigger a dependent job. */
+export type CronDependencyCondition = "always" | "success" | "failure";
+
+export type CronJobDependency = {
+  jobId: string;
+  /** Defaults to "success" (run only after the upstream job finished ok). */
+  on?: CronDependencyCondition;
+};
+
 export type CronSchedule =
   | { kind: "at"; at: string }
   | { kind: "every"; everyMs: number; anchorMs?: number }
@@ -9,6 +18,11 @@ export type CronSchedule =
       tz?: string;
       /** Optional deterministic stagger window in milliseconds (0 keeps exact schedule). */
       staggerMs?: number;
+    }
+  | {
+      /** Runs only when a matching upstream job outcome lands. */
+      kind: "after";
+      dependsOn: CronJobDependency[];
     };
 
 export type CronSessionTarget = "main" | "isolated";
@@ -86,6 +100,16 @@ export type CronPayloadPatch =
       bestEffortDeliver?: boolean;
     };
 
+/** Upstream outcome that queued a dependent ("after") job run. */
+export type CronJobTrigger = {
+  jobId: string;
+  jobName?: string;
+  status: CronRunStatus;
+  summary?: string;
+  error?: string;
+  triggeredAtMs: number;
+};
+
 export type CronJobState = {
   nextRunAtMs?: number;
   runningAtMs?: number;
@@ -106,6 +130,8 @@ export type CronJobState = {
   lastDeliveryError?: string;
   /** Whether the last run's output was delivered to the target channel. */
   lastDelivered?: boolean;
+  /** Upstream outcomes waiting to be consumed, oldest first, one run each ("after" jobs). */
+  pendingTriggers?: CronJobTrigger[];
 };
 
 export type CronJob = {
@@ -209,6 +209,36 @@ describe("gateway broadcaster", () => {
     expect(approvalsSocket.send).toHaveBeenCalledTimes(1);
     expect(pairingSocket.send).toHaveBeenCalledTimes(1);
   });
+
+  it("filters session events for restricted tokens, including nested approval keys", () => {
+    const socket: TestSocket = {
+      bufferedAmount: 0,
+      send: vi.fn(),
+      close: vi.fn(),
+    };
+    const clients = new Set<GatewayWsClient>([
+      {
+        socket: socket as unknown as GatewayWsClient["socket"],
+        connect: {
+          role: "operator",
+          scopes: ["operator.approvals"],
+        } as GatewayWsClient["connect"],
+        connId: "c-restricted",
+        tokenRestrictions: { agents: ["ops"] },
+      },
+    ]);
+    const { broadcast } = createGatewayBroadcaster({ clients });
+
+    broadcast("exec.approval.requested", { id: "1", request: { sessionKey: "agent:main:main" } });
+    broadcast("exec.approval.requested", { id: "2", request: { command: "ls" } });
+    broadcast("chat", { sessionKey: "agent:main:main", state: "final" });
+    expect(socket.send).not.toHaveBeenCalled();
+
+    broadcast("exec.approval.requested", { id: "3", request: { sessionKey: "agent:ops:main" } });
+    broadcast("chat", { sessionKey: "agent:ops:main", state: "final" });
+    broadcast("tick", { ts: 1 });
+    expect(socket.send).toHaveBeenCalledTimes(3);
+  });
 });
 
 describe("chat run registry", () => {
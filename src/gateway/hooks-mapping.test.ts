@@ -2,7 +2,11 @@ import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
 import { describe, expect, it } from "vitest";
-import { applyHookMappings, resolveHookMappings } from "./hooks-mapping.js";
+import {
+  applyHookMappings,
+  resolveHookMappings,
+  resolveSignedHookMappings,
+} from "./hooks-mapping.js";
 
 const baseUrl = new URL("http://127.0.0.1:18789/hooks/gmail");
 
@@ -406,6 +410,23 @@ describe("hooks mapping", () => {
     }
   });
 
+  it("selects signed mappings by path and requires match.path for verify", () => {
+    const mappings = resolveHookMappings({
+      mappings: [
+        { id: "github", match: { path: "/github/" }, verify: { scheme: "github", secret: "s" } },
+        { id: "github-token", match: { path: "github" } },
+        { id: "other", match: { path: "other" } },
+      ],
+    });
+    expect(resolveSignedHookMappings(mappings, "github").map((mapping) => mapping.id)).toEqual([
+      "github",
+    ]);
+    expect(resolveSignedHookMappings(mappings, "other")).toEqual([]);
+    expect(() =>
+      resolveHookMappings({ mappings: [{ verify: { scheme: "github", secret: "s" } }] }),
+    ).toThrow("hooks.mappings[0].verify requires match.path");
+  });
+
   it("caches transform functions by module path and export name", async () => {
     const configDir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-hooks-export-"));
     const transformsRoot = path.join(configDir, "hooks", "transforms");
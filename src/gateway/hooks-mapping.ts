@@ -2,6 +2,7 @@ import fs from "node:fs";
 import path from "node:path";
 import { CONFIG_PATH, type HookMappingConfig, type HooksConfig } from "../config/config.js";
 import { importFileModule, resolveFunctionModuleExport } from "../hooks/module-loader.js";
+import { type HookSignatureVerifier, resolveHookSignatureVerifier } from "./hooks-signature.js";
 import type { HookMessageChannel } from "./hooks.js";
 
 export type HookMappingResolved = {
@@ -23,6 +24,7 @@ export type HookMappingResolved = {
   thinking?: string;
   timeoutSeconds?: number;
   transform?: HookMappingTransformResolved;
+  verify?: HookSignatureVerifier;
 };
 
 export type HookMappingTransformResolved = {
@@ -182,6 +184,15 @@ export async function applyHookMappings(
   return null;
 }
 
+/** Mappings on `path` that authenticate requests by signature instead of the hooks token. */
+export function resolveSignedHookMappings(
+  mappings: HookMappingResolved[],
+  path: string,
+): HookMappingResolved[] {
+  const normalized = normalizeMatchPath(path);
+  return mappings.filter((mapping) => mapping.verify && mapping.matchPath === normalized);
+}
+
 function normalizeHookMapping(
   mapping: HookMappingConfig,
   index: number,
@@ -198,6 +209,12 @@ function normalizeHookMapping(
         exportName: mapping.transform.export?.trim() || undefined,
       }
     : undefined;
+  if (mapping.verify && !matchPath) {
+    throw new Error(`hooks.mappings[${index}].verify requires match.path`);
+  }
+  const verify = mapping.verify
+    ? resolveHookSignatureVerifier(mapping.verify, `hooks.mappings[${index}].verify`)
+    : undefined;
 
   return {
     id,
@@ -218,6 +235,7 @@ function normalizeHookMapping(
     thinking: mapping.thinking,
     timeoutSeconds: mapping.timeoutSeconds,
     transform,
+    verify,
   };
 }
 
@@ -0,0 +1,97 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { resolveHookSignatureVerifier, verifyHookSignature } from "./hooks-signature.js";
+
+const secret = "whsec_test";
+const body = Buffer.from(JSON.stringify({ action: "opened", title: "Café ☕" }));
+const now = Date.UTC(2026, 0, 1);
+const nowSeconds = String(Math.floor(now / 1000));
+
+const hmac = (payload: string | Buffer, encoding: "hex" | "base64" = "hex") =>
+  createHmac("sha256", secret).update(payload).digest(encoding);
+
+function verify(
+  config: Parameters<typeof resolveHookSignatureVerifier>[0],
+  headers: Record<string, string>,
+  rawBody = body,
+) {
+  return verifyHookSignature({
+    verifier: resolveHookSignatureVerifier(config, "hooks.mappings[0].verify"),
+    headers,
+    rawBody,
+    nowMs: now,
+  });
+}
+
+describe("verifyHookSignature", () => {
+  it("verifies GitHub signatures over the raw body", () => {
+    const signature = `sha256=${hmac(body)}`;
+    expect(verify({ scheme: "github", secret }, { "x-hub-signature-256": signature })).toEqual({
+      ok: true,
+    });
+    expect(
+      verify({ scheme: "github", secret }, { "x-hub-signature-256": signature }, Buffer.from("{}")),
+    ).toEqual({ ok: false, reason: "signature mismatch" });
+    expect(verify({ scheme: "github", secret }, { "x-hub-signature-256": hmac(body) })).toEqual({
+      ok: false,
+      reason: 'x-hub-signature-256 does not start with "sha256="',
+    });
+  });
+
+  it("verifies Stripe signatures and rejects stale timestamps", () => {
+    const signed = hmac(`${nowSeconds}.${body.toString()}`);
+    const header = `t=${nowSeconds},v1=${"0".repeat(64)},v1=${signed}`;
+    expect(verify({ scheme: "stripe", secret }, { "stripe-signature": header })).toEqual({
+      ok: true,
+    });
+
+    const stale = String(Math.floor(now / 1000) - 301);
+    const staleHeader = `t=${stale},v1=${hmac(`${stale}.${body.toString()}`)}`;
+    expect(verify({ scheme: "stripe", secret }, { "stripe-signature": staleHeader })).toEqual({
+      ok: false,
+      reason: "signature timestamp outside tolerance",
+    });
+    expect(
+      verify(
+        { scheme: "stripe", secret, toleranceSeconds: 600 },
+        { "stripe-signature": staleHeader },
+      ),
+    ).toEqual({ ok: true });
+  });
+
+  it("verifies Slack signatures with the request timestamp header", () => {
+    const headers = {
+      "x-slack-request-timestamp": nowSeconds,
+      "x-slack-signature": `v0=${hmac(`v0:${nowSeconds}:${body.toString()}`)}`,
+    };
+    expect(verify({ scheme: "slack", secret }, headers)).toEqual({ ok: true });
+    expect(
+      verify({ scheme: "slack", secret }, { "x-slack-signature": headers["x-slack-signature"] }),
+    ).toEqual({ ok: false, reason: "missing x-slack-request-timestamp header" });
+  });
+
+  it("supports custom headers, prefixes, encodings, and timestamps", () => {
+    expect(
+      verify(
+        { secret, header: "Linear-Signature", encoding: "base64" },
+        { "linear-signature": hmac(body, "base64") },
+      ),
+    ).toEqual({ ok: true });
+    expect(
+      verify(
+        { secret, header: "X-Signature", prefix: "hmac ", timestampHeader: "X-Timestamp" },
+        { "x-signature": `hmac ${hmac(`${now}.${body.toString()}`)}`, "x-timestamp": String(now) },
+      ),
+    ).toEqual({ ok: true });
+    expect(verify({ secret }, {})).toEqual({ ok: false, reason: "missing x-signature-256 header" });
+  });
+
+  it("requires a resolved secret", () => {
+    expect(() =>
+      resolveHookSignatureVerifier(
+        { scheme: "github", secret: { source: "env", provider: "default", id: "GH_SECRET" } },
+        "hooks.mappings[0].verify",
+      ),
+    ).toThrow("hooks.mappings[0].verify.secret is an unresolved SecretRef");
+  });
+});
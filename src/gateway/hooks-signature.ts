@@ -0,0 +1,154 @@
+import { createHmac } from "node:crypto";
+import type { HookMappingVerifyConfig, HookSignatureScheme } from "../config/types.hooks.js";
+import { safeEqualSecret } from "../security/secret-equal.js";
+
+const DEFAULT_SIGNATURE_HEADER = "x-signature-256";
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export type HookSignatureVerifier = {
+  scheme: HookSignatureScheme;
+  secret: string;
+  /** Lower-cased header names, matching `normalizeHookHeaders`. */
+  header: string;
+  prefix: string;
+  encoding: "hex" | "base64";
+  timestampHeader?: string;
+  toleranceSeconds: number;
+};
+
+export type HookSignatureResult = { ok: true } | { ok: false; reason: string };
+
+type SchemePreset = Pick<HookSignatureVerifier, "header" | "prefix"> & {
+  timestampHeader?: string;
+};
+
+const schemePresets: Record<HookSignatureScheme, SchemePreset> = {
+  "hmac-sha256": { header: DEFAULT_SIGNATURE_HEADER, prefix: "" },
+  github: { header: "x-hub-signature-256", prefix: "sha256=" },
+  // Stripe packs the timestamp and signatures into one header: `t=<ts>,v1=<sig>[,v1=<sig>]`.
+  stripe: { header: "stripe-signature", prefix: "" },
+  slack: {
+    header: "x-slack-signature",
+    prefix: "v0=",
+    timestampHeader: "x-slack-request-timestamp",
+  },
+};
+
+/**
+ * Resolve a mapping's `verify` block. The secret must already be a string: the
+ * gateway secrets runtime replaces SecretRefs before hooks config is resolved.
+ */
+export function resolveHookSignatureVerifier(
+  verify: HookMappingVerifyConfig,
+  label: string,
+): HookSignatureVerifier {
+  const secret = typeof verify.secret === "string" ? verify.secret.trim() : "";
+  if (!secret) {
+    throw new Error(
+      typeof verify.secret === "string"
+        ? `${label}.secret is required`
+        : `${label}.secret is an unresolved SecretRef; check the gateway secrets configuration`,
+    );
+  }
+  const scheme = verify.scheme ?? "hmac-sha256";
+  const preset = schemePresets[scheme];
+  const timestampHeader = verify.timestampHeader?.trim() || preset.timestampHeader;
+  return {
+    scheme,
+    secret,
+    header: (verify.header?.trim() || preset.header).toLowerCase(),
+    prefix: verify.prefix ?? preset.prefix,
+    encoding: verify.encoding ?? "hex",
+    timestampHeader: timestampHeader?.toLowerCase(),
+    toleranceSeconds: verify.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS,
+  };
+}
+
+function parseStripeHeader(value: string): { timestamp?: string; signatures: string[] } {
+  let timestamp: string | undefined;
+  const signatures: string[] = [];
+  for (const part of value.split(",")) {
+    const eq = part.indexOf("=");
+    if (eq <= 0) {
+      continue;
+    }
+    const key = part.slice(0, eq).trim();
+    const entry = part.slice(eq + 1).trim();
+    if (key === "t") {
+      timestamp = entry;
+    } else if (key === "v1" && entry) {
+      signatures.push(entry);
+    }
+  }
+  return { timestamp, signatures };
+}
+
+/** Unix seconds or milliseconds; null when the value is not an integer. */
+function parseTimestampMs(raw: string): number | null {
+  if (!/^\d+$/.test(raw)) {
+    return null;
+  }
+  const value = Number(raw);
+  return value > 1e12 ? value : value * 1000;
+}
+
+function signedPayloadPrefix(scheme: HookSignatureScheme, timestamp: string | undefined): string {
+  if (timestamp === undefined) {
+    return "";
+  }
+  return scheme === "slack" ? `v0:${timestamp}:` : `${timestamp}.`;
+}
+
+/** Check the request signature over the exact body bytes. */
+export function verifyHookSignature(params: {
+  verifier: HookSignatureVerifier;
+  headers: Record<string, string>;
+  rawBody: Buffer;
+  nowMs?: number;
+}): HookSignatureResult {
+  const { verifier, headers } = params;
+  const headerValue = headers[verifier.header]?.trim();
+  if (!headerValue) {
+    return { ok: false, reason: `missing ${verifier.header} header` };
+  }
+
+  let timestamp: string | undefined;
+  let signatures: string[];
+  if (verifier.scheme === "stripe") {
+    ({ timestamp, signatures } = parseStripeHeader(headerValue));
+    if (timestamp === undefined || signatures.length === 0) {
+      return { ok: false, reason: `malformed ${verifier.header} header` };
+    }
+  } else {
+    if (verifier.prefix && !headerValue.startsWith(verifier.prefix)) {
+      return { ok: false, reason: `${verifier.header} does not start with "${verifier.prefix}"` };
+    }
+    signatures = [headerValue.slice(verifier.prefix.length).trim()];
+    if (verifier.timestampHeader) {
+      timestamp = headers[verifier.timestampHeader]?.trim();
+      if (!timestamp) {
+        return { ok: false, reason: `missing ${verifier.timestampHeader} header` };
+      }
+    }
+  }
+
+  if (timestamp !== undefined) {
+    const timestampMs = parseTimestampMs(timestamp);
+    if (timestampMs === null) {
+      return { ok: false, reason: "invalid signature timestamp" };
+    }
+    const ageMs = Math.abs((params.nowMs ?? Date.now()) - timestampMs);
+    if (ageMs > verifier.toleranceSeconds * 1000) {
+      return { ok: false, reason: "signature timestamp outside tolerance" };
+    }
+  }
+
+  const expected = createHmac("sha256", verifier.secret)
+    .update(signedPayloadPrefix(verifier.scheme, timestamp))
+    .update(params.rawBody)
+    .digest(verifier.encoding);
+  const matches = signatures.some((signature) =>
+    safeEqualSecret(verifier.encoding === "hex" ? signature.toLowerCase() : signature, expected),
+  );
+  return matches ? { ok: true } : { ok: false, reason: "signature mismatch" };
+}
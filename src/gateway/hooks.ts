@@ -4,7 +4,13 @@ import { listAgentIds, resolveDefaultAgentId } from "../agents/agent-scope.js";
 import { listChannelPlugins } from "../channels/plugins/index.js";
 import type { ChannelId } from "../channels/plugins/types.js";
 import type { OpenClawConfig } from "../config/config.js";
-import { readJsonBodyWithLimit, requestBodyErrorToText } from "../infra/http-body.js";
+import {
+  isRequestBodyLimitError,
+  readJsonBodyWithLimit,
+  readRequestBodyWithLimit,
+  requestBodyErrorToText,
+  type RequestBodyLimitErrorCode,
+} from "../infra/http-body.js";
 import { normalizeAgentId, parseAgentSessionKey } from "../routing/session-key.js";
 import { normalizeMessageChannel } from "../utils/message-channel.js";
 import { type HookMappingResolved, resolveHookMappings } from "./hooks-mapping.js";
@@ -182,16 +188,47 @@ export async function readJsonBody(
   if (result.ok) {
     return result;
   }
-  if (result.code === "PAYLOAD_TOO_LARGE") {
-    return { ok: false, error: "payload too large" };
+  if (result.code === "INVALID_JSON") {
+    return { ok: false, error: result.error };
   }
-  if (result.code === "REQUEST_BODY_TIMEOUT") {
-    return { ok: false, error: "request body timeout" };
+  return { ok: false, error: hookBodyLimitErrorText(result.code) };
+}
+
+function hookBodyLimitErrorText(code: RequestBodyLimitErrorCode): string {
+  if (code === "PAYLOAD_TOO_LARGE") {
+    return "payload too large";
+  }
+  if (code === "REQUEST_BODY_TIMEOUT") {
+    return "request body timeout";
+  }
+  return requestBodyErrorToText(code);
+}
+
+/** Like `readJsonBody`, but also keeps the exact body bytes for signature checks. */
+export async function readSignedHookBody(
+  req: IncomingMessage,
+  maxBytes: number,
+): Promise<{ ok: true; value: unknown; rawBody: Buffer } | { ok: false; error: string }> {
+  let rawBody: Buffer;
+  try {
+    // latin1 maps bytes 1:1, so the round-trip through a string keeps them intact.
+    const raw = await readRequestBodyWithLimit(req, { maxBytes, encoding: "latin1" });
+    rawBody = Buffer.from(raw, "latin1");
+  } catch (err) {
+    if (isRequestBodyLimitError(err)) {
+      return { ok: false, error: hookBodyLimitErrorText(err.code) };
+    }
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+  const text = rawBody.toString("utf-8").trim();
+  if (!text) {
+    return { ok: true, value: {}, rawBody };
   }
-  if (result.code === "CONNECTION_CLOSED") {
-    return { ok: false, error: requestBodyErrorToText("CONNECTION_CLOSED") };
+  try {
+    return { ok: true, value: JSON.parse(text) as unknown, rawBody };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
   }
-  return { ok: false, error: result.error };
 }
 
 export function normalizeHookHeaders(req: IncomingMessage) {
@@ -8,15 +8,21 @@ vi.mock("./auth.js", () => ({
 }));
 
 vi.mock("./http-common.js", () => ({
+  sendForbidden: vi.fn(),
   sendGatewayAuthFailure: vi.fn(),
 }));
 
+vi.mock("../infra/device-pairing.js", () => ({
+  verifyOperatorBearerDeviceToken: vi.fn(async () => ({ ok: false })),
+}));
+
 vi.mock("./http-utils.js", () => ({
   getBearerToken: vi.fn(),
 }));
 
 const { authorizeHttpGatewayConnect } = await import("./auth.js");
-const { sendGatewayAuthFailure } = await import("./http-common.js");
+const { sendForbidden, sendGatewayAuthFailure } = await import("./http-common.js");
+const { verifyOperatorBearerDeviceToken } = await import("../infra/device-pairing.js");
 const { getBearerToken } = await import("./http-utils.js");
 
 describe("authorizeGatewayBearerRequestOrReply", () => {
@@ -31,6 +37,7 @@ describe("authorizeGatewayBearerRequestOrReply", () => {
     req: {} as IncomingMessage,
     res: {} as ServerResponse,
     auth: bearerAuth,
+    method: "agent",
   });
 
   beforeEach(() => {
@@ -46,7 +53,7 @@ describe("authorizeGatewayBearerRequestOrReply", () => {
 
     const ok = await authorizeGatewayBearerRequestOrReply(makeAuthorizeParams());
 
-    expect(ok).toBe(false);
+    expect(ok).toBeNull();
     expect(vi.mocked(authorizeHttpGatewayConnect)).toHaveBeenCalledWith(
       expect.objectContaining({
         connectAuth: null,
@@ -55,13 +62,13 @@ describe("authorizeGatewayBearerRequestOrReply", () => {
     expect(vi.mocked(sendGatewayAuthFailure)).toHaveBeenCalledTimes(1);
   });
 
-  it("forwards bearer token and returns true on successful auth", async () => {
+  it("forwards bearer token and returns shared auth on success", async () => {
     vi.mocked(getBearerToken).mockReturnValue("abc");
     vi.mocked(authorizeHttpGatewayConnect).mockResolvedValue({ ok: true, method: "token" });
 
     const ok = await authorizeGatewayBearerRequestOrReply(makeAuthorizeParams());
 
-    expect(ok).toBe(true);
+    expect(ok).toEqual({});
     expect(vi.mocked(authorizeHttpGatewayConnect)).toHaveBeenCalledWith(
       expect.objectContaining({
         connectAuth: { token: "abc", password: "abc" },
@@ -69,4 +76,37 @@ describe("authorizeGatewayBearerRequestOrReply", () => {
     );
     expect(vi.mocked(sendGatewayAuthFailure)).not.toHaveBeenCalled();
   });
+
+  it("accepts operator device tokens and carries their restrictions", async () => {
+    vi.mocked(getBearerToken).mockReturnValue("device-token");
+    vi.mocked(verifyOperatorBearerDeviceToken).mockResolvedValueOnce({
+      ok: true,
+      deviceId: "device-1",
+      scopes: ["operator.write"],
+      restrictions: { agents: ["team-a"], methods: ["agent"] },
+    });
+
+    const auth = await authorizeGatewayBearerRequestOrReply(makeAuthorizeParams());
+
+    expect(auth).toEqual({ tokenRestrictions: { agents: ["team-a"], methods: ["agent"] } });
+    expect(vi.mocked(authorizeHttpGatewayConnect)).not.toHaveBeenCalled();
+  });
+
+  it("rejects device tokens whose restrictions exclude the endpoint method", async () => {
+    vi.mocked(getBearerToken).mockReturnValue("device-token");
+    vi.mocked(verifyOperatorBearerDeviceToken).mockResolvedValueOnce({
+      ok: true,
+      deviceId: "device-1",
+      scopes: ["operator.write"],
+      restrictions: { methods: ["chat.*"] },
+    });
+
+    const auth = await authorizeGatewayBearerRequestOrReply(makeAuthorizeParams());
+
+    expect(auth).toBeNull();
+    expect(vi.mocked(sendForbidden)).toHaveBeenCalledWith(
+      expect.anything(),
+      "token not allowed to call agent",
+    );
+  });
 });
@@ -1,18 +1,57 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
+import { loadConfig } from "../config/config.js";
+import {
+  type DeviceTokenRestrictions,
+  verifyOperatorBearerDeviceToken,
+} from "../infra/device-pairing.js";
 import type { AuthRateLimiter } from "./auth-rate-limit.js";
 import { authorizeHttpGatewayConnect, type ResolvedGatewayAuth } from "./auth.js";
-import { sendGatewayAuthFailure } from "./http-common.js";
+import { sendForbidden, sendGatewayAuthFailure } from "./http-common.js";
 import { getBearerToken } from "./http-utils.js";
+import { ADMIN_SCOPE, WRITE_SCOPE } from "./method-scopes.js";
+import {
+  authorizeTokenRestrictions,
+  isMethodAllowedByTokenRestrictions,
+  resolveTokenRestrictionTargets,
+} from "./token-restrictions.js";
 
+export type GatewayBearerAuth = {
+  /** Set when the request authenticated with a restricted operator device token. */
+  tokenRestrictions?: DeviceTokenRestrictions;
+};
+
+/**
+ * Authorize an HTTP request by shared gateway secret or operator device token.
+ * Device tokens need `operator.write` (these endpoints run agents and tools) and
+ * must allow `method` when they carry restrictions. Replies and returns null on
+ * failure.
+ */
 export async function authorizeGatewayBearerRequestOrReply(params: {
   req: IncomingMessage;
   res: ServerResponse;
   auth: ResolvedGatewayAuth;
+  /** Gateway method the endpoint stands for, checked against restricted tokens. */
+  method: string;
   trustedProxies?: string[];
   allowRealIpFallback?: boolean;
   rateLimiter?: AuthRateLimiter;
-}): Promise<boolean> {
+}): Promise<GatewayBearerAuth | null> {
   const token = getBearerToken(params.req);
+  // Device tokens are checked first so that using one never counts as a failed
+  // shared-secret attempt; misses fall through to the rate-limited shared check.
+  const device = token ? await verifyOperatorBearerDeviceToken({ token }) : null;
+  if (device?.ok) {
+    if (!device.scopes.includes(ADMIN_SCOPE) && !device.scopes.includes(WRITE_SCOPE)) {
+      sendForbidden(params.res, `missing scope: ${WRITE_SCOPE}`);
+      return null;
+    }
+    const restrictions = device.restrictions;
+    if (restrictions && !isMethodAllowedByTokenRestrictions(restrictions, params.method)) {
+      sendForbidden(params.res, `token not allowed to call ${params.method}`);
+      return null;
+    }
+    return { tokenRestrictions: restrictions };
+  }
   const authResult = await authorizeHttpGatewayConnect({
     auth: params.auth,
     connectAuth: token ? { token, password: token } : null,
@@ -23,6 +62,36 @@ export async function authorizeGatewayBearerRequestOrReply(params: {
   });
   if (!authResult.ok) {
     sendGatewayAuthFailure(params.res, authResult);
+    return null;
+  }
+  return {};
+}
+
+/**
+ * Check the agent and session an HTTP request resolved to against the token it
+ * authenticated with. Replies 403 and returns false when the token may not
+ * touch them.
+ */
+export function authorizeGatewayBearerTargetOrReply(params: {
+  res: ServerResponse;
+  auth: GatewayBearerAuth;
+  method: string;
+  agentId?: string;
+  sessionKey?: string;
+}): boolean {
+  if (!params.auth.tokenRestrictions) {
+    return true;
+  }
+  const denied = authorizeTokenRestrictions({
+    restrictions: params.auth.tokenRestrictions,
+    method: params.method,
+    targets: resolveTokenRestrictionTargets(loadConfig(), {
+      agentId: params.agentId,
+      sessionKey: params.sessionKey,
+    }),
+  });
+  if (denied) {
+    sendForbidden(params.res, denied);
     return false;
   }
   return true;
@@ -28,7 +28,12 @@ describe("handleGatewayPostJsonEndpoint", () => {
         headers: { host: "localhost" },
       } as unknown as IncomingMessage,
       {} as unknown as ServerResponse,
-      { pathname: "/v1/ok", auth: {} as unknown as ResolvedGatewayAuth, maxBodyBytes: 1 },
+      {
+        pathname: "/v1/ok",
+        auth: {} as unknown as ResolvedGatewayAuth,
+        method: "agent",
+        maxBodyBytes: 1,
+      },
     );
     expect(result).toBe(false);
   });
@@ -43,14 +48,19 @@ describe("handleGatewayPostJsonEndpoint", () => {
         headers: { host: "localhost" },
       } as unknown as IncomingMessage,
       {} as unknown as ServerResponse,
-      { pathname: "/v1/ok", auth: {} as unknown as ResolvedGatewayAuth, maxBodyBytes: 1 },
+      {
+        pathname: "/v1/ok",
+        auth: {} as unknown as ResolvedGatewayAuth,
+        method: "agent",
+        maxBodyBytes: 1,
+      },
     );
     expect(result).toBeUndefined();
     expect(mockedSendMethodNotAllowed).toHaveBeenCalledTimes(1);
   });
 
   it("returns undefined when auth fails", async () => {
-    vi.mocked(authorizeGatewayBearerRequestOrReply).mockResolvedValue(false);
+    vi.mocked(authorizeGatewayBearerRequestOrReply).mockResolvedValue(null);
     const result = await handleGatewayPostJsonEndpoint(
       {
         url: "/v1/ok",
@@ -58,13 +68,18 @@ describe("handleGatewayPostJsonEndpoint", () => {
         headers: { host: "localhost" },
       } as unknown as IncomingMessage,
       {} as unknown as ServerResponse,
-      { pathname: "/v1/ok", auth: {} as unknown as ResolvedGatewayAuth, maxBodyBytes: 1 },
+      {
+        pathname: "/v1/ok",
+        auth: {} as unknown as ResolvedGatewayAuth,
+        method: "agent",
+        maxBodyBytes: 1,
+      },
     );
     expect(result).toBeUndefined();
   });
 
   it("returns body when auth succeeds and JSON parsing succeeds", async () => {
-    vi.mocked(authorizeGatewayBearerRequestOrReply).mockResolvedValue(true);
+    vi.mocked(authorizeGatewayBearerRequestOrReply).mockResolvedValue({});
     vi.mocked(readJsonBodyOrError).mockResolvedValue({ hello: "world" });
     const result = await handleGatewayPostJsonEndpoint(
       {
@@ -73,7 +88,12 @@ describe("handleGatewayPostJsonEndpoint", () => {
         headers: { host: "localhost" },
       } as unknown as IncomingMessage,
       {} as unknown as ServerResponse,
-      { pathname: "/v1/ok", auth: {} as unknown as ResolvedGatewayAuth, maxBodyBytes: 123 },
+      {
+        pathname: "/v1/ok",
+        auth: {} as unknown as ResolvedGatewayAuth,
+        method: "agent",
+        maxBodyBytes: 123,
+      },
     );
     expect(result).toEqual({ body: { hello: "world" } });
   });
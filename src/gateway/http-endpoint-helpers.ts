@@ -1,7 +1,10 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
 import type { AuthRateLimiter } from "./auth-rate-limit.js";
 import type { ResolvedGatewayAuth } from "./auth.js";
-import { authorizeGatewayBearerRequestOrReply } from "./http-auth-helpers.js";
+import {
+  authorizeGatewayBearerRequestOrReply,
+  type GatewayBearerAuth,
+} from "./http-auth-helpers.js";
 import { readJsonBodyOrError, sendMethodNotAllowed } from "./http-common.js";
 
 export async function handleGatewayPostJsonEndpoint(
@@ -10,12 +13,13 @@ export async function handleGatewayPostJsonEndpoint(
   opts: {
     pathname: string;
     auth: ResolvedGatewayAuth;
+    method: string;
     maxBodyBytes: number;
     trustedProxies?: string[];
     allowRealIpFallback?: boolean;
     rateLimiter?: AuthRateLimiter;
   },
-): Promise<false | { body: unknown } | undefined> {
+): Promise<false | ({ body: unknown } & GatewayBearerAuth) | undefined> {
   const url = new URL(req.url ?? "/", `http://${req.headers.host || "localhost"}`);
   if (url.pathname !== opts.pathname) {
     return false;
@@ -30,6 +34,7 @@ export async function handleGatewayPostJsonEndpoint(
     req,
     res,
     auth: opts.auth,
+    method: opts.method,
     trustedProxies: opts.trustedProxies,
     allowRealIpFallback: opts.allowRealIpFallback,
     rateLimiter: opts.rateLimiter,
@@ -43,5 +48,5 @@ export async function handleGatewayPostJsonEndpoint(
     return undefined;
   }
 
-  return { body };
+  return { body, ...authorized };
 }
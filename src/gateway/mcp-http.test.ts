@@ -0,0 +1,258 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { McpClient } from "../mcp/client.js";
+import { createHttpTransport } from "../mcp/transport.js";
+
+const TEST_GATEWAY_TOKEN = "test-gateway-token-1234567890";
+const CHAT_ONLY_DEVICE_TOKEN = "chat-only-device-token";
+const OPS_DEVICE_TOKEN = "ops-device-token";
+
+let cfg: Record<string, unknown> = {};
+let lastSessionKey: string | undefined;
+
+vi.mock("../config/config.js", () => ({
+  loadConfig: () => cfg,
+}));
+
+vi.mock("../config/sessions.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../config/sessions.js")>()),
+  resolveMainSessionKey: () => "agent:main:main",
+  resolveAgentMainSessionKey: (params: { agentId: string }) => `agent:${params.agentId}:main`,
+}));
+
+vi.mock("./auth.js", () => ({
+  authorizeHttpGatewayConnect: async (params: { connectAuth: { token?: string } | null }) =>
+    params.connectAuth?.token === TEST_GATEWAY_TOKEN
+      ? { ok: true }
+      : { ok: false, reason: "token_mismatch" },
+}));
+
+vi.mock("../infra/device-pairing.js", () => ({
+  verifyOperatorBearerDeviceToken: async (params: { token: string }) => {
+    if (params.token === CHAT_ONLY_DEVICE_TOKEN) {
+      return {
+        ok: true,
+        deviceId: "dev-chat",
+        scopes: ["operator.write"],
+        restrictions: { methods: ["chat.*"] },
+      };
+    }
+    if (params.token === OPS_DEVICE_TOKEN) {
+      return {
+        ok: true,
+        deviceId: "dev-ops",
+        scopes: ["operator.write"],
+        restrictions: { agents: ["ops"] },
+      };
+    }
+    return { ok: false };
+  },
+}));
+
+vi.mock("../logger.js", () => ({
+  logWarn: () => {},
+}));
+
+vi.mock("../plugins/tools.js", () => ({
+  getPluginToolMeta: () => undefined,
+}));
+
+vi.mock("../agents/openclaw-tools.js", () => {
+  const toolInputError = (message: string) => {
+    const err = new Error(message);
+    err.name = "ToolInputError";
+    return err;
+  };
+  const tools = [
+    {
+      name: "session_status",
+      label: "Session Status",
+      description: "Show session status",
+      parameters: { type: "object", properties: { verbose: { type: "boolean" } } },
+      execute: async (_id: string, args: { verbose?: boolean }) => ({
+        content: [{ type: "text", text: args.verbose ? "status: ok (verbose)" : "status: ok" }],
+        details: {},
+      }),
+    },
+    {
+      name: "image",
+      description: "Return an image",
+      parameters: { type: "object", properties: { mode: { type: "string" } } },
+      execute: async (_id: string, args: { mode?: string }) => {
+        if (args.mode === "input") {
+          throw toolInputError("mode invalid");
+        }
+        if (args.mode === "crash") {
+          throw new Error("secret internals");
+        }
+        return {
+          content: [{ type: "image", data: "aGk=", mimeType: "image/png" }],
+          details: {},
+        };
+      },
+    },
+    {
+      name: "sessions_spawn",
+      description: "Denied over HTTP by default",
+      parameters: { type: "object", properties: {} },
+      execute: async () => ({ content: [], details: {} }),
+    },
+  ];
+  return {
+    createOpenClawTools: (ctx: { agentSessionKey?: string }) => {
+      lastSessionKey = ctx.agentSessionKey;
+      return tools;
+    },
+  };
+});
+
+const { handleMcpHttpRequest } = await import("./mcp-http.js");
+
+let port = 0;
+let server: ReturnType<typeof createServer> | undefined;
+const clients: McpClient[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    void handleMcpHttpRequest(req, res, {
+      auth: { mode: "token", token: TEST_GATEWAY_TOKEN, allowTailscale: false },
+    }).then((handled) => {
+      if (!handled) {
+        res.statusCode = 404;
+        res.end("not found");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => {
+    server?.listen(0, "127.0.0.1", () => {
+      port = (server?.address() as AddressInfo | null)?.port ?? 0;
+      resolve();
+    });
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server?.close(() => resolve()));
+});
+
+beforeEach(() => {
+  cfg = {};
+  lastSessionKey = undefined;
+});
+
+afterEach(async () => {
+  await Promise.all(clients.splice(0).map((client) => client.close()));
+});
+
+function createClient(headers: Record<string, string> = {}) {
+  const client = new McpClient({
+    requestTimeoutMs: 5_000,
+    createTransport: (handlers) =>
+      createHttpTransport(
+        {
+          url: `http://127.0.0.1:${port}/mcp`,
+          headers: { authorization: `Bearer ${TEST_GATEWAY_TOKEN}`, ...headers },
+        },
+        handlers,
+      ),
+  });
+  clients.push(client);
+  return client;
+}
+
+describe("gateway MCP endpoint", () => {
+  it("publishes policy-filtered tools and calls them", async () => {
+    const client = createClient();
+    const info = await client.connect();
+    expect(info.serverInfo.name).toBe("openclaw");
+    expect(info.capabilities).toEqual({ tools: { listChanged: false } });
+
+    const tools = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(["session_status", "image"]);
+    expect(tools[0]).toMatchObject({
+      title: "Session Status",
+      inputSchema: { type: "object", properties: { verbose: { type: "boolean" } } },
+    });
+
+    await expect(client.callTool("session_status", { verbose: true })).resolves.toEqual({
+      content: [{ type: "text", text: "status: ok (verbose)" }],
+    });
+    await expect(client.callTool("image", {})).resolves.toEqual({
+      content: [{ type: "image", data: "aGk=", mimeType: "image/png" }],
+    });
+    expect(lastSessionKey).toBe("agent:main:main");
+  });
+
+  it("reports tool failures as error results without leaking internals", async () => {
+    const client = createClient();
+    await client.connect();
+
+    await expect(client.callTool("image", { mode: "input" })).resolves.toEqual({
+      isError: true,
+      content: [{ type: "text", text: "mode invalid" }],
+    });
+    await expect(client.callTool("image", { mode: "crash" })).resolves.toEqual({
+      isError: true,
+      content: [{ type: "text", text: "tool execution failed" }],
+    });
+    await expect(client.callTool("sessions_spawn", {})).rejects.toThrow(/Tool not available/);
+    await expect(client.request("resources/list")).rejects.toThrow(/Method not found/);
+  });
+
+  it("enforces tools.argRules before calling the tool", async () => {
+    cfg = { tools: { argRules: [{ tools: ["image"], args: { mode: { deny: ["crash"] } } }] } };
+    const client = createClient();
+    await client.connect();
+
+    const denied = await client.callTool("image", { mode: "crash" });
+    expect(denied.isError).toBe(true);
+    expect(denied.content).toEqual([
+      { type: "text", text: expect.stringContaining("tools.argRules[0]") },
+    ]);
+  });
+
+  it("honors gateway tool deny config and session headers", async () => {
+    cfg = { gateway: { tools: { deny: ["image"] } } };
+    const client = createClient({ "x-openclaw-agent-id": "ops" });
+    await client.connect();
+
+    const tools = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(["session_status"]);
+    expect(lastSessionKey).toBe("agent:ops:main");
+  });
+
+  it("requires gateway auth", async () => {
+    const res = await fetch(`http://127.0.0.1:${port}/mcp`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }),
+    });
+    expect(res.status).toBe(401);
+
+    const get = await fetch(`http://127.0.0.1:${port}/mcp`, {
+      headers: { authorization: `Bearer ${TEST_GATEWAY_TOKEN}` },
+    });
+    expect(get.status).toBe(405);
+  });
+
+  it("applies device token restrictions", async () => {
+    const rpc = (token: string, headers: Record<string, string> = {}) =>
+      fetch(`http://127.0.0.1:${port}/mcp`, {
+        method: "POST",
+        headers: {
+          authorization: `Bearer ${token}`,
+          "content-type": "application/json",
+          ...headers,
+        },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }),
+      });
+
+    const chatOnly = await rpc(CHAT_ONLY_DEVICE_TOKEN);
+    expect(chatOnly.status).toBe(403);
+    expect(await chatOnly.text()).toContain("tools.invoke");
+
+    expect((await rpc(OPS_DEVICE_TOKEN)).status).toBe(403);
+    expect((await rpc(OPS_DEVICE_TOKEN, { "x-openclaw-agent-id": "ops" })).status).toBe(200);
+  });
+});
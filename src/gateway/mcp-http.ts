@@ -0,0 +1,263 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AgentToolResult } from "@mariozechner/pi-agent-core";
+import type { AnyAgentTool } from "../agents/tools/common.js";
+import { loadConfig } from "../config/config.js";
+import { resolveAgentMainSessionKey, resolveMainSessionKey } from "../config/sessions.js";
+import { logWarn } from "../logger.js";
+import {
+  isJsonRpcRequest,
+  JSON_RPC_ERROR_CODES,
+  MCP_PROTOCOL_VERSION,
+  MCP_SUPPORTED_PROTOCOL_VERSIONS,
+  type JsonRpcMessage,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+  type McpCallToolResult,
+  type McpContentBlock,
+  type McpTool,
+} from "../mcp/types.js";
+import { VERSION } from "../version.js";
+import type { AuthRateLimiter } from "./auth-rate-limit.js";
+import type { ResolvedGatewayAuth } from "./auth.js";
+import {
+  authorizeGatewayBearerRequestOrReply,
+  authorizeGatewayBearerTargetOrReply,
+} from "./http-auth-helpers.js";
+import { readJsonBodyOrError, sendJson, sendMethodNotAllowed } from "./http-common.js";
+import { getHeader, resolveAgentIdFromHeader } from "./http-utils.js";
+import {
+  resolveGatewayHttpToolHints,
+  resolveGatewayHttpTools,
+  resolveToolInputErrorStatus,
+} from "./tools-invoke-http.js";
+
+const DEFAULT_BODY_BYTES = 2 * 1024 * 1024;
+export const MCP_HTTP_PATH = "/mcp";
+
+class McpMethodError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "McpMethodError";
+  }
+}
+
+function resolveSessionKeyFromHeaders(
+  req: IncomingMessage,
+  cfg: ReturnType<typeof loadConfig>,
+): string {
+  const explicit = getHeader(req, "x-openclaw-session-key")?.trim();
+  if (explicit && explicit !== "main") {
+    return explicit;
+  }
+  const agentId = resolveAgentIdFromHeader(req);
+  if (agentId) {
+    return resolveAgentMainSessionKey({ cfg, agentId });
+  }
+  return resolveMainSessionKey(cfg);
+}
+
+function toMcpTool(tool: AnyAgentTool): McpTool {
+  const label = typeof tool.label === "string" ? tool.label.trim() : "";
+  return {
+    name: tool.name,
+    ...(label && label !== tool.name ? { title: label } : {}),
+    description: typeof tool.description === "string" ? tool.description : "",
+    inputSchema: (tool.parameters as Record<string, unknown> | undefined) ?? {
+      type: "object",
+      properties: {},
+    },
+  };
+}
+
+function toMcpContent(result: AgentToolResult<unknown> | undefined): McpContentBlock[] {
+  const content: McpContentBlock[] = [];
+  for (const block of result?.content ?? []) {
+    if (block.type === "text") {
+      content.push({ type: "text", text: block.text });
+    } else if (block.type === "image") {
+      content.push({ type: "image", data: block.data, mimeType: block.mimeType });
+    }
+  }
+  return content;
+}
+
+async function callTool(params: {
+  tool: AnyAgentTool;
+  args: Record<string, unknown>;
+  signal: AbortSignal;
+}): Promise<McpCallToolResult> {
+  try {
+    const result = (await params.tool.execute(`mcp-${Date.now()}`, params.args, params.signal)) as
+      | AgentToolResult<unknown>
+      | undefined;
+    return { content: toMcpContent(result) };
+  } catch (err) {
+    // Tool failures are results, not protocol errors, so the calling model can react.
+    if (resolveToolInputErrorStatus(err) !== null) {
+      const message = err instanceof Error ? err.message : String(err);
+      return { isError: true, content: [{ type: "text", text: message || "invalid arguments" }] };
+    }
+    logWarn(`mcp: tool ${params.tool.name} failed: ${String(err)}`);
+    return { isError: true, content: [{ type: "text", text: "tool execution failed" }] };
+  }
+}
+
+async function dispatch(params: {
+  message: JsonRpcRequest;
+  resolveTools: () => AnyAgentTool[];
+  signal: AbortSignal;
+}): Promise<unknown> {
+  const { message } = params;
+  switch (message.method) {
+    case "initialize": {
+      const requested = message.params?.protocolVersion;
+      const protocolVersion = (MCP_SUPPORTED_PROTOCOL_VERSIONS as readonly unknown[]).includes(
+        requested,
+      )
+        ? (requested as string)
+        : MCP_PROTOCOL_VERSION;
+      return {
+        protocolVersion,
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: { name: "openclaw", title: "OpenClaw Gateway", version: VERSION },
+      };
+    }
+    case "ping":
+      return {};
+    case "tools/list":
+      return { tools: params.resolveTools().map(toMcpTool) };
+    case "tools/call": {
+      const name = typeof message.params?.name === "string" ? message.params.name : "";
+      const rawArgs = message.params?.arguments;
+      const args =
+        rawArgs && typeof rawArgs === "object" && !Array.isArray(rawArgs)
+          ? (rawArgs as Record<string, unknown>)
+          : {};
+      const tool = params.resolveTools().find((entry) => entry.name === name);
+      if (!tool) {
+        throw new McpMethodError(
+          JSON_RPC_ERROR_CODES.invalidParams,
+          `Tool not available: ${name || "(missing name)"}`,
+        );
+      }
+      return await callTool({ tool, args, signal: params.signal });
+    }
+    default:
+      throw new McpMethodError(
+        JSON_RPC_ERROR_CODES.methodNotFound,
+        `Method not found: ${message.method}`,
+      );
+  }
+}
+
+/**
+ * Streamable HTTP MCP endpoint. Stateless: each POST carries one JSON-RPC
+ * message and gets a JSON reply, so no session id or SSE stream is needed.
+ * Tools resolve exactly like `POST /tools/invoke` (same auth, token
+ * restrictions, policy, gateway deny list, argument rules and approvals) for
+ * the session named by the request headers.
+ */
+export async function handleMcpHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  opts: {
+    auth: ResolvedGatewayAuth;
+    maxBodyBytes?: number;
+    trustedProxies?: string[];
+    allowRealIpFallback?: boolean;
+    rateLimiter?: AuthRateLimiter;
+  },
+): Promise<boolean> {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+  if (url.pathname !== MCP_HTTP_PATH) {
+    return false;
+  }
+
+  // No server-initiated stream and no sessions to terminate.
+  if (req.method !== "POST") {
+    sendMethodNotAllowed(res, "POST");
+    return true;
+  }
+
+  const cfg = loadConfig();
+  // MCP is another front end for tools.invoke: same auth, token restrictions and scopes.
+  const bearerAuth = await authorizeGatewayBearerRequestOrReply({
+    req,
+    res,
+    auth: opts.auth,
+    method: "tools.invoke",
+    trustedProxies: opts.trustedProxies ?? cfg.gateway?.trustedProxies,
+    allowRealIpFallback: opts.allowRealIpFallback ?? cfg.gateway?.allowRealIpFallback,
+    rateLimiter: opts.rateLimiter,
+  });
+  if (!bearerAuth) {
+    return true;
+  }
+
+  const bodyUnknown = await readJsonBodyOrError(req, res, opts.maxBodyBytes ?? DEFAULT_BODY_BYTES);
+  if (bodyUnknown === undefined) {
+    return true;
+  }
+  const message = bodyUnknown as JsonRpcMessage;
+  if (
+    !message ||
+    typeof message !== "object" ||
+    Array.isArray(message) ||
+    !("jsonrpc" in message)
+  ) {
+    sendJson(res, 400, {
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: JSON_RPC_ERROR_CODES.invalidRequest, message: "Invalid JSON-RPC message" },
+    } satisfies JsonRpcResponse);
+    return true;
+  }
+  if (!isJsonRpcRequest(message)) {
+    // Notifications and responses need no reply.
+    res.statusCode = 202;
+    res.end();
+    return true;
+  }
+
+  const sessionKey = resolveSessionKeyFromHeaders(req, cfg);
+  if (
+    !authorizeGatewayBearerTargetOrReply({
+      res,
+      auth: bearerAuth,
+      method: "tools.invoke",
+      sessionKey,
+    })
+  ) {
+    return true;
+  }
+  const hints = resolveGatewayHttpToolHints(req);
+  const abort = new AbortController();
+  res.once("close", () => abort.abort());
+
+  let response: JsonRpcResponse;
+  try {
+    const result = await dispatch({
+      message,
+      resolveTools: () => resolveGatewayHttpTools({ cfg, sessionKey, ...hints }),
+      signal: abort.signal,
+    });
+    response = { jsonrpc: "2.0", id: message.id, result };
+  } catch (err) {
+    response = {
+      jsonrpc: "2.0",
+      id: message.id,
+      error:
+        err instanceof McpMethodError
+          ? { code: err.code, message: err.message }
+          : { code: JSON_RPC_ERROR_CODES.internalError, message: "internal error" },
+    };
+    if (!(err instanceof McpMethodError)) {
+      logWarn(`mcp: ${message.method} failed: ${String(err)}`);
+    }
+  }
+  sendJson(res, 200, response);
+  return true;
+}
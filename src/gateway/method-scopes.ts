@@ -54,6 +54,7 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "status",
     "usage.status",
     "usage.cost",
+    "usage.budget",
     "tts.status",
     "tts.providers",
     "models.list",
@@ -64,12 +65,15 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "voicewake.get",
     "sessions.list",
     "sessions.preview",
+    "sessions.search",
+    "sessions.branches",
     "sessions.resolve",
     "sessions.usage",
     "sessions.usage.timeseries",
     "sessions.usage.logs",
     "cron.list",
     "cron.status",
+    "cron.graph",
     "cron.runs",
     "system-presence",
     "last-heartbeat",
@@ -114,7 +118,11 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "sessions.patch",
     "sessions.reset",
     "sessions.delete",
+    "sessions.mcp.attach",
+    "sessions.mcp.detach",
     "sessions.compact",
+    "sessions.fork",
+    "sessions.switch",
     "connect",
     "chat.inject",
     "web.login.start",
@@ -0,0 +1,76 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { emitDiagnosticEvent } from "../infra/diagnostic-events.js";
+import { startDiagnosticMetrics } from "../infra/diagnostic-metrics.js";
+import type { ResolvedGatewayAuth } from "./auth.js";
+import { handleMetricsHttpRequest } from "./metrics-http.js";
+
+const TEST_GATEWAY_TOKEN = "test-gateway-token-1234567890";
+const SCRAPE_TOKEN = "scrape-token-1234567890";
+
+vi.mock("./auth.js", () => ({
+  authorizeHttpGatewayConnect: async (params: { connectAuth: { token?: string } | null }) =>
+    params.connectAuth?.token === TEST_GATEWAY_TOKEN
+      ? { ok: true }
+      : { ok: false, reason: "token_mismatch" },
+}));
+
+let baseUrl = "";
+let stopMetrics: () => void = () => {};
+const server = createServer((req, res) => {
+  void handleMetricsHttpRequest(req, res, {
+    auth: { mode: "token", token: TEST_GATEWAY_TOKEN } as ResolvedGatewayAuth,
+    scrapeToken: SCRAPE_TOKEN,
+  }).then((handled) => {
+    if (!handled) {
+      res.statusCode = 404;
+      res.end();
+    }
+  });
+});
+
+beforeAll(async () => {
+  stopMetrics = startDiagnosticMetrics();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  stopMetrics();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+function scrape(token?: string, init?: RequestInit) {
+  return fetch(`${baseUrl}/metrics`, {
+    ...init,
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  });
+}
+
+describe("GET /metrics", () => {
+  it("serves Prometheus text to the scrape token and gateway token", async () => {
+    emitDiagnosticEvent({
+      type: "message.queued",
+      sessionKey: "agent:main:main",
+      channel: "slack",
+      source: "dispatch",
+    });
+
+    for (const token of [SCRAPE_TOKEN, TEST_GATEWAY_TOKEN]) {
+      const res = await scrape(token);
+      expect(res.status).toBe(200);
+      expect(res.headers.get("content-type")).toContain("text/plain; version=0.0.4");
+      expect(await res.text()).toContain(
+        'openclaw_messages_queued_total{channel="slack",agent="main",source="dispatch"} 1',
+      );
+    }
+  });
+
+  it("rejects missing or wrong tokens and non-GET methods", async () => {
+    expect((await scrape()).status).toBe(401);
+    expect((await scrape("nope")).status).toBe(401);
+    expect((await scrape(SCRAPE_TOKEN, { method: "POST" })).status).toBe(405);
+    expect((await fetch(`${baseUrl}/other`)).status).toBe(404);
+  });
+});
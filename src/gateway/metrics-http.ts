@@ -0,0 +1,62 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { SecretInput } from "../config/types.secrets.js";
+import { renderDiagnosticMetrics } from "../infra/diagnostic-metrics.js";
+import { safeEqualSecret } from "../security/secret-equal.js";
+import type { AuthRateLimiter } from "./auth-rate-limit.js";
+import { authorizeHttpGatewayConnect, type ResolvedGatewayAuth } from "./auth.js";
+import { sendGatewayAuthFailure, sendMethodNotAllowed } from "./http-common.js";
+import { getBearerToken } from "./http-utils.js";
+
+export const METRICS_HTTP_PATH = "/metrics";
+
+const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * Serve `GET /metrics` in Prometheus text format. Scrapers authenticate with
+ * the dedicated scrape token when one is configured, or with gateway auth. A
+ * scrape token SecretRef the secrets runtime did not resolve is ignored.
+ */
+export async function handleMetricsHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  opts: {
+    auth: ResolvedGatewayAuth;
+    scrapeToken?: SecretInput;
+    trustedProxies?: string[];
+    allowRealIpFallback?: boolean;
+    rateLimiter?: AuthRateLimiter;
+  },
+): Promise<boolean> {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+  if (url.pathname !== METRICS_HTTP_PATH) {
+    return false;
+  }
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    sendMethodNotAllowed(res, "GET, HEAD");
+    return true;
+  }
+
+  const token = getBearerToken(req);
+  const scrapeToken = typeof opts.scrapeToken === "string" ? opts.scrapeToken.trim() : undefined;
+  if (!token || !scrapeToken || !safeEqualSecret(token, scrapeToken)) {
+    const authResult = await authorizeHttpGatewayConnect({
+      auth: opts.auth,
+      connectAuth: token ? { token, password: token } : null,
+      req,
+      trustedProxies: opts.trustedProxies,
+      allowRealIpFallback: opts.allowRealIpFallback,
+      rateLimiter: opts.rateLimiter,
+    });
+    if (!authResult.ok) {
+      sendGatewayAuthFailure(res, authResult);
+      return true;
+    }
+  }
+
+  const body = renderDiagnosticMetrics();
+  res.statusCode = 200;
+  res.setHeader("Content-Type", PROMETHEUS_CONTENT_TYPE);
+  res.setHeader("Cache-Control", "no-store");
+  res.end(req.method === "HEAD" ? undefined : body);
+  return true;
+}
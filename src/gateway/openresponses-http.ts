@@ -32,6 +32,7 @@ import { defaultRuntime } from "../runtime.js";
 import { resolveAssistantStreamDeltaText } from "./agent-event-assistant-text.js";
 import type { AuthRateLimiter } from "./auth-rate-limit.js";
 import type { ResolvedGatewayAuth } from "./auth.js";
+import { authorizeGatewayBearerTargetOrReply } from "./http-auth-helpers.js";
 import { sendJson, setSseHeaders, writeDone } from "./http-common.js";
 import { handleGatewayPostJsonEndpoint } from "./http-endpoint-helpers.js";
 import { resolveAgentIdForRequest, resolveSessionKey } from "./http-utils.js";
@@ -275,6 +276,7 @@ export async function handleOpenResponsesHttpRequest(
   const handled = await handleGatewayPostJsonEndpoint(req, res, {
     pathname: "/v1/responses",
     auth: opts.auth,
+    method: "agent",
     trustedProxies: opts.trustedProxies,
     allowRealIpFallback: opts.allowRealIpFallback,
     rateLimiter: opts.rateLimiter,
@@ -302,6 +304,19 @@ export async function handleOpenResponsesHttpRequest(
   const stream = Boolean(payload.stream);
   const model = payload.model;
   const user = payload.user;
+  const agentId = resolveAgentIdForRequest({ req, model });
+  const sessionKey = resolveOpenResponsesSessionKey({ req, agentId, user });
+  if (
+    !authorizeGatewayBearerTargetOrReply({
+      res,
+      auth: handled,
+      method: "agent",
+      agentId,
+      sessionKey,
+    })
+  ) {
+    return true;
+  }
 
   // Extract images + files from input (Phase 2)
   let images: ImageContent[] = [];
@@ -412,9 +427,6 @@ export async function handleOpenResponsesHttpRequest(
     });
     return true;
   }
-  const agentId = resolveAgentIdForRequest({ req, model });
-  const sessionKey = resolveOpenResponsesSessionKey({ req, agentId, user });
-
   // Build prompt from input
   const prompt = buildAgentPrompt(payload.input);
 
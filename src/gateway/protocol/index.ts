@@ -76,6 +76,8 @@ import {
   ConnectParamsSchema,
   type CronAddParams,
   CronAddParamsSchema,
+  type CronGraphParams,
+  CronGraphParamsSchema,
   type CronJob,
   CronJobSchema,
   type CronListParams,
@@ -170,14 +172,28 @@ import {
   SendParamsSchema,
   type SessionsCompactParams,
   SessionsCompactParamsSchema,
+  type SessionsForkParams,
+  SessionsForkParamsSchema,
+  type SessionsBranchesParams,
+  SessionsBranchesParamsSchema,
+  type SessionsSwitchParams,
+  SessionsSwitchParamsSchema,
   type SessionsDeleteParams,
   SessionsDeleteParamsSchema,
   type SessionsListParams,
   SessionsListParamsSchema,
+  type SessionsMcpAttachParams,
+  SessionsMcpAttachParamsSchema,
+  type SessionsMcpDetachParams,
+  SessionsMcpDetachParamsSchema,
+  type SessionsMcpServer,
+  SessionsMcpServerSchema,
   type SessionsPatchParams,
   SessionsPatchParamsSchema,
   type SessionsPreviewParams,
   SessionsPreviewParamsSchema,
+  type SessionsSearchParams,
+  SessionsSearchParamsSchema,
   type SessionsResetParams,
   SessionsResetParamsSchema,
   type SessionsResolveParams,
@@ -208,6 +224,8 @@ import {
   TickEventSchema,
   type UpdateRunParams,
   UpdateRunParamsSchema,
+  type UsageBudgetParams,
+  UsageBudgetParamsSchema,
   type WakeParams,
   WakeParamsSchema,
   type WebLoginStartParams,
@@ -288,6 +306,9 @@ export const validateSessionsListParams = ajv.compile<SessionsListParams>(Sessio
 export const validateSessionsPreviewParams = ajv.compile<SessionsPreviewParams>(
   SessionsPreviewParamsSchema,
 );
+export const validateSessionsSearchParams = ajv.compile<SessionsSearchParams>(
+  SessionsSearchParamsSchema,
+);
 export const validateSessionsResolveParams = ajv.compile<SessionsResolveParams>(
   SessionsResolveParamsSchema,
 );
@@ -301,8 +322,22 @@ export const validateSessionsDeleteParams = ajv.compile<SessionsDeleteParams>(
 export const validateSessionsCompactParams = ajv.compile<SessionsCompactParams>(
   SessionsCompactParamsSchema,
 );
+export const validateSessionsForkParams = ajv.compile<SessionsForkParams>(SessionsForkParamsSchema);
+export const validateSessionsBranchesParams = ajv.compile<SessionsBranchesParams>(
+  SessionsBranchesParamsSchema,
+);
+export const validateSessionsSwitchParams = ajv.compile<SessionsSwitchParams>(
+  SessionsSwitchParamsSchema,
+);
+export const validateSessionsMcpAttachParams = ajv.compile<SessionsMcpAttachParams>(
+  SessionsMcpAttachParamsSchema,
+);
+export const validateSessionsMcpDetachParams = ajv.compile<SessionsMcpDetachParams>(
+  SessionsMcpDetachParamsSchema,
+);
 export const validateSessionsUsageParams =
   ajv.compile<SessionsUsageParams>(SessionsUsageParamsSchema);
+export const validateUsageBudgetParams = ajv.compile<UsageBudgetParams>(UsageBudgetParamsSchema);
 export const validateConfigGetParams = ajv.compile<ConfigGetParams>(ConfigGetParamsSchema);
 export const validateConfigSetParams = ajv.compile<ConfigSetParams>(ConfigSetParamsSchema);
 export const validateConfigApplyParams = ajv.compile<ConfigApplyParams>(ConfigApplyParamsSchema);
@@ -329,6 +364,7 @@ export const validateSkillsInstallParams =
 export const validateSkillsUpdateParams = ajv.compile<SkillsUpdateParams>(SkillsUpdateParamsSchema);
 export const validateCronListParams = ajv.compile<CronListParams>(CronListParamsSchema);
 export const validateCronStatusParams = ajv.compile<CronStatusParams>(CronStatusParamsSchema);
+export const validateCronGraphParams = ajv.compile<CronGraphParams>(CronGraphParamsSchema);
 export const validateCronAddParams = ajv.compile<CronAddParams>(CronAddParamsSchema);
 export const validateCronUpdateParams = ajv.compile<CronUpdateParams>(CronUpdateParamsSchema);
 export const validateCronRemoveParams = ajv.compile<CronRemoveParams>(CronRemoveParamsSchema);
@@ -447,11 +483,19 @@ export {
   NodeInvokeParamsSchema,
   SessionsListParamsSchema,
   SessionsPreviewParamsSchema,
+  SessionsSearchParamsSchema,
   SessionsPatchParamsSchema,
   SessionsResetParamsSchema,
   SessionsDeleteParamsSchema,
   SessionsCompactParamsSchema,
+  SessionsForkParamsSchema,
+  SessionsBranchesParamsSchema,
+  SessionsSwitchParamsSchema,
+  SessionsMcpServerSchema,
+  SessionsMcpAttachParamsSchema,
+  SessionsMcpDetachParamsSchema,
   SessionsUsageParamsSchema,
+  UsageBudgetParamsSchema,
   ConfigGetParamsSchema,
   ConfigSetParamsSchema,
   ConfigApplyParamsSchema,
@@ -497,6 +541,7 @@ export {
   CronJobSchema,
   CronListParamsSchema,
   CronStatusParamsSchema,
+  CronGraphParamsSchema,
   CronAddParamsSchema,
   CronUpdateParamsSchema,
   CronRemoveParamsSchema,
@@ -594,16 +639,25 @@ export type {
   NodeEventParams,
   SessionsListParams,
   SessionsPreviewParams,
+  SessionsSearchParams,
   SessionsResolveParams,
   SessionsPatchParams,
   SessionsPatchResult,
   SessionsResetParams,
   SessionsDeleteParams,
   SessionsCompactParams,
+  SessionsForkParams,
+  SessionsBranchesParams,
+  SessionsSwitchParams,
+  SessionsMcpServer,
+  SessionsMcpAttachParams,
+  SessionsMcpDetachParams,
   SessionsUsageParams,
+  UsageBudgetParams,
   CronJob,
   CronListParams,
   CronStatusParams,
+  CronGraphParams,
   CronAddParams,
   CronUpdateParams,
   CronRemoveParams,
@@ -234,7 +234,7 @@ export const ToolCatalogEntrySchema = Type.Object(
     id: NonEmptyString,
     label: NonEmptyString,
     description: Type.String(),
-    source: Type.Union([Type.Literal("core"), Type.Literal("plugin")]),
+    source: Type.Union([Type.Literal("core"), Type.Literal("plugin"), Type.Literal("mcp")]),
     pluginId: Type.Optional(NonEmptyString),
     optional: Type.Optional(Type.Boolean()),
     defaultProfiles: Type.Array(
@@ -253,18 +253,38 @@ export const ToolCatalogGroupSchema = Type.Object(
   {
     id: NonEmptyString,
     label: NonEmptyString,
-    source: Type.Union([Type.Literal("core"), Type.Literal("plugin")]),
+    source: Type.Union([Type.Literal("core"), Type.Literal("plugin"), Type.Literal("mcp")]),
     pluginId: Type.Optional(NonEmptyString),
     tools: Type.Array(ToolCatalogEntrySchema),
   },
   { additionalProperties: false },
 );
 
+export const ToolCatalogWebProviderSchema = Type.Object(
+  {
+    id: NonEmptyString,
+    label: NonEmptyString,
+    source: Type.Union([Type.Literal("core"), Type.Literal("plugin")]),
+    pluginId: Type.Optional(NonEmptyString),
+    configured: Type.Boolean(),
+  },
+  { additionalProperties: false },
+);
+
 export const ToolsCatalogResultSchema = Type.Object(
   {
     agentId: NonEmptyString,
     profiles: Type.Array(ToolCatalogProfileSchema),
     groups: Type.Array(ToolCatalogGroupSchema),
+    webProviders: Type.Optional(
+      Type.Object(
+        {
+          search: Type.Array(ToolCatalogWebProviderSchema),
+          fetch: Type.Array(ToolCatalogWebProviderSchema),
+        },
+        { additionalProperties: false },
+      ),
+    ),
   },
   { additionalProperties: false },
 );
@@ -26,6 +26,18 @@ const CronRunStatusSchema = Type.Union([
   Type.Literal("error"),
   Type.Literal("skipped"),
 ]);
+const CronDependencyConditionSchema = Type.Union([
+  Type.Literal("always"),
+  Type.Literal("success"),
+  Type.Literal("failure"),
+]);
+const CronJobDependencySchema = Type.Object(
+  {
+    jobId: NonEmptyString,
+    on: Type.Optional(CronDependencyConditionSchema),
+  },
+  { additionalProperties: false },
+);
 const CronSortDirSchema = Type.Union([Type.Literal("asc"), Type.Literal("desc")]);
 const CronJobsEnabledFilterSchema = Type.Union([
   Type.Literal("all"),
@@ -112,6 +124,13 @@ export const CronScheduleSchema = Type.Union([
     },
     { additionalProperties: false },
   ),
+  Type.Object(
+    {
+      kind: Type.Literal("after"),
+      dependsOn: Type.Array(CronJobDependencySchema, { minItems: 1 }),
+    },
+    { additionalProperties: false },
+  ),
 ]);
 
 export const CronPayloadSchema = Type.Union([
@@ -199,6 +218,21 @@ export const CronJobStateSchema = Type.Object(
     lastDelivered: Type.Optional(Type.Boolean()),
     lastDeliveryStatus: Type.Optional(CronDeliveryStatusSchema),
     lastDeliveryError: Type.Optional(Type.String()),
+    pendingTriggers: Type.Optional(
+      Type.Array(
+        Type.Object(
+          {
+            jobId: NonEmptyString,
+            jobName: Type.Optional(Type.String()),
+            status: CronRunStatusSchema,
+            summary: Type.Optional(Type.String()),
+            error: Type.Optional(Type.String()),
+            triggeredAtMs: Type.Integer({ minimum: 0 }),
+          },
+          { additionalProperties: false },
+        ),
+      ),
+    ),
   },
   { additionalProperties: false },
 );
@@ -239,6 +273,14 @@ export const CronListParamsSchema = Type.Object(
 
 export const CronStatusParamsSchema = Type.Object({}, { additionalProperties: false });
 
+export const CronGraphParamsSchema = Type.Object(
+  {
+    id: Type.Optional(NonEmptyString),
+    jobId: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
 export const CronAddParamsSchema = Type.Object(
   {
     name: NonEmptyString,
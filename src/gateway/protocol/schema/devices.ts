@@ -18,11 +18,25 @@ export const DevicePairRemoveParamsSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const DeviceTokenRestrictionsSchema = Type.Object(
+  {
+    /** Agent ids the token may act on. */
+    agents: Type.Optional(Type.Array(NonEmptyString)),
+    /** Session keys the token may act on must start with this prefix. */
+    sessionKeyPrefix: Type.Optional(NonEmptyString),
+    /** Methods the token may call: exact names or `prefix.*`. */
+    methods: Type.Optional(Type.Array(NonEmptyString)),
+  },
+  { additionalProperties: false },
+);
+
 export const DeviceTokenRotateParamsSchema = Type.Object(
   {
     deviceId: NonEmptyString,
     role: NonEmptyString,
     scopes: Type.Optional(Type.Array(NonEmptyString)),
+    /** Replaces the token's restrictions; `{}` clears them, omitted keeps them. */
+    restrictions: Type.Optional(DeviceTokenRestrictionsSchema),
   },
   { additionalProperties: false },
 );
@@ -116,6 +116,15 @@ export const ExecApprovalRequestParamsSchema = Type.Object(
     turnSourceTo: Type.Optional(Type.Union([Type.String(), Type.Null()])),
     turnSourceAccountId: Type.Optional(Type.Union([Type.String(), Type.Null()])),
     turnSourceThreadId: Type.Optional(Type.Union([Type.String(), Type.Number(), Type.Null()])),
+    tool: Type.Optional(
+      Type.Object(
+        {
+          name: NonEmptyString,
+          action: Type.Optional(NonEmptyString),
+        },
+        { additionalProperties: false },
+      ),
+    ),
     timeoutMs: Type.Optional(Type.Integer({ minimum: 1 })),
     twoPhase: Type.Optional(Type.Boolean()),
   },
@@ -36,6 +36,7 @@ import {
   SkillsUpdateParamsSchema,
   ToolCatalogEntrySchema,
   ToolCatalogGroupSchema,
+  ToolCatalogWebProviderSchema,
   ToolCatalogProfileSchema,
   ToolsCatalogParamsSchema,
   ToolsCatalogResultSchema,
@@ -61,6 +62,7 @@ import {
 } from "./config.js";
 import {
   CronAddParamsSchema,
+  CronGraphParamsSchema,
   CronJobSchema,
   CronListParamsSchema,
   CronRemoveParamsSchema,
@@ -126,13 +128,21 @@ import {
 import { PushTestParamsSchema, PushTestResultSchema } from "./push.js";
 import {
   SessionsCompactParamsSchema,
+  SessionsForkParamsSchema,
+  SessionsBranchesParamsSchema,
+  SessionsSwitchParamsSchema,
   SessionsDeleteParamsSchema,
   SessionsListParamsSchema,
+  SessionsMcpAttachParamsSchema,
+  SessionsMcpDetachParamsSchema,
+  SessionsMcpServerSchema,
   SessionsPatchParamsSchema,
   SessionsPreviewParamsSchema,
+  SessionsSearchParamsSchema,
   SessionsResetParamsSchema,
   SessionsResolveParamsSchema,
   SessionsUsageParamsSchema,
+  UsageBudgetParamsSchema,
 } from "./sessions.js";
 import { PresenceEntrySchema, SnapshotSchema, StateVersionSchema } from "./snapshot.js";
 import {
@@ -181,12 +191,20 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   PushTestResult: PushTestResultSchema,
   SessionsListParams: SessionsListParamsSchema,
   SessionsPreviewParams: SessionsPreviewParamsSchema,
+  SessionsSearchParams: SessionsSearchParamsSchema,
   SessionsResolveParams: SessionsResolveParamsSchema,
   SessionsPatchParams: SessionsPatchParamsSchema,
   SessionsResetParams: SessionsResetParamsSchema,
   SessionsDeleteParams: SessionsDeleteParamsSchema,
   SessionsCompactParams: SessionsCompactParamsSchema,
+  SessionsForkParams: SessionsForkParamsSchema,
+  SessionsBranchesParams: SessionsBranchesParamsSchema,
+  SessionsSwitchParams: SessionsSwitchParamsSchema,
+  SessionsMcpServer: SessionsMcpServerSchema,
+  SessionsMcpAttachParams: SessionsMcpAttachParamsSchema,
+  SessionsMcpDetachParams: SessionsMcpDetachParamsSchema,
   SessionsUsageParams: SessionsUsageParamsSchema,
+  UsageBudgetParams: UsageBudgetParamsSchema,
   ConfigGetParams: ConfigGetParamsSchema,
   ConfigSetParams: ConfigSetParamsSchema,
   ConfigApplyParams: ConfigApplyParamsSchema,
@@ -233,6 +251,7 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   ToolCatalogProfile: ToolCatalogProfileSchema,
   ToolCatalogEntry: ToolCatalogEntrySchema,
   ToolCatalogGroup: ToolCatalogGroupSchema,
+  ToolCatalogWebProvider: ToolCatalogWebProviderSchema,
   ToolsCatalogResult: ToolsCatalogResultSchema,
   SkillsBinsParams: SkillsBinsParamsSchema,
   SkillsBinsResult: SkillsBinsResultSchema,
@@ -241,6 +260,7 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   CronJob: CronJobSchema,
   CronListParams: CronListParamsSchema,
   CronStatusParams: CronStatusParamsSchema,
+  CronGraphParams: CronGraphParamsSchema,
   CronAddParams: CronAddParamsSchema,
   CronUpdateParams: CronUpdateParamsSchema,
   CronRemoveParams: CronRemoveParamsSchema,
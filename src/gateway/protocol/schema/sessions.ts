@@ -34,6 +34,26 @@ export const SessionsPreviewParamsSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const SessionsSearchParamsSchema = Type.Object(
+  {
+    query: NonEmptyString,
+    agentId: Type.Optional(NonEmptyString),
+    channel: Type.Optional(NonEmptyString),
+    role: Type.Optional(
+      Type.Union([Type.Literal("user"), Type.Literal("assistant"), Type.Literal("tool")]),
+    ),
+    /** Only tool calls/results for this tool (implies role `tool`). */
+    toolName: Type.Optional(NonEmptyString),
+    /** First day to include (YYYY-MM-DD, UTC). */
+    startDate: Type.Optional(Type.String({ pattern: "^\\d{4}-\\d{2}-\\d{2}$" })),
+    /** Last day to include (YYYY-MM-DD, UTC). */
+    endDate: Type.Optional(Type.String({ pattern: "^\\d{4}-\\d{2}-\\d{2}$" })),
+    /** Maximum hits to return (default 20, max 200). */
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 200 })),
+  },
+  { additionalProperties: false },
+);
+
 export const SessionsResolveParamsSchema = Type.Object(
   {
     key: Type.Optional(NonEmptyString),
@@ -100,6 +120,36 @@ export const SessionsDeleteParamsSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const SessionsMcpServerSchema = Type.Object(
+  {
+    name: NonEmptyString,
+    /** stdio server: command to spawn. */
+    command: Type.Optional(NonEmptyString),
+    args: Type.Optional(Type.Array(Type.String())),
+    env: Type.Optional(Type.Record(Type.String(), Type.String())),
+    cwd: Type.Optional(Type.String()),
+    /** Streamable HTTP server endpoint. */
+    url: Type.Optional(NonEmptyString),
+    headers: Type.Optional(Type.Record(Type.String(), Type.String())),
+  },
+  { additionalProperties: false },
+);
+
+export const SessionsMcpAttachParamsSchema = Type.Object(
+  {
+    key: NonEmptyString,
+    servers: Type.Array(SessionsMcpServerSchema),
+  },
+  { additionalProperties: false },
+);
+
+export const SessionsMcpDetachParamsSchema = Type.Object(
+  {
+    key: NonEmptyString,
+  },
+  { additionalProperties: false },
+);
+
 export const SessionsCompactParamsSchema = Type.Object(
   {
     key: NonEmptyString,
@@ -108,6 +158,30 @@ export const SessionsCompactParamsSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const SessionsForkParamsSchema = Type.Object(
+  {
+    key: NonEmptyString,
+    /** User turns to keep from the active transcript; omitted keeps all of them. */
+    turns: Type.Optional(Type.Integer({ minimum: 0 })),
+  },
+  { additionalProperties: false },
+);
+
+export const SessionsBranchesParamsSchema = Type.Object(
+  {
+    key: NonEmptyString,
+  },
+  { additionalProperties: false },
+);
+
+export const SessionsSwitchParamsSchema = Type.Object(
+  {
+    key: NonEmptyString,
+    sessionId: NonEmptyString,
+  },
+  { additionalProperties: false },
+);
+
 export const SessionsUsageParamsSchema = Type.Object(
   {
     /** Specific session key to analyze; if omitted returns all sessions. */
@@ -129,3 +203,17 @@ export const SessionsUsageParamsSchema = Type.Object(
   },
   { additionalProperties: false },
 );
+
+export const UsageBudgetParamsSchema = Type.Object(
+  {
+    /** Agent id to evaluate; defaults to the agent owning `key` or the default agent. */
+    agentId: Type.Optional(NonEmptyString),
+    /** Session key to evaluate session and channel budgets for. */
+    key: Type.Optional(NonEmptyString),
+    /** Channel id for channel budgets (defaults to the session's last channel). */
+    channel: Type.Optional(NonEmptyString),
+    /** Channel account id (defaults to the session's last account). */
+    accountId: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
@@ -34,6 +34,7 @@ import type {
   SkillsUpdateParamsSchema,
   ToolCatalogEntrySchema,
   ToolCatalogGroupSchema,
+  ToolCatalogWebProviderSchema,
   ToolCatalogProfileSchema,
   ToolsCatalogParamsSchema,
   ToolsCatalogResultSchema,
@@ -59,6 +60,7 @@ import type {
 } from "./config.js";
 import type {
   CronAddParamsSchema,
+  CronGraphParamsSchema,
   CronJobSchema,
   CronListParamsSchema,
   CronRemoveParamsSchema,
@@ -119,13 +121,21 @@ import type {
 import type { PushTestParamsSchema, PushTestResultSchema } from "./push.js";
 import type {
   SessionsCompactParamsSchema,
+  SessionsForkParamsSchema,
+  SessionsBranchesParamsSchema,
+  SessionsSwitchParamsSchema,
   SessionsDeleteParamsSchema,
   SessionsListParamsSchema,
+  SessionsMcpAttachParamsSchema,
+  SessionsMcpDetachParamsSchema,
+  SessionsMcpServerSchema,
   SessionsPatchParamsSchema,
   SessionsPreviewParamsSchema,
+  SessionsSearchParamsSchema,
   SessionsResetParamsSchema,
   SessionsResolveParamsSchema,
   SessionsUsageParamsSchema,
+  UsageBudgetParamsSchema,
 } from "./sessions.js";
 import type { PresenceEntrySchema, SnapshotSchema, StateVersionSchema } from "./snapshot.js";
 import type {
@@ -170,12 +180,20 @@ export type PushTestParams = Static<typeof PushTestParamsSchema>;
 export type PushTestResult = Static<typeof PushTestResultSchema>;
 export type SessionsListParams = Static<typeof SessionsListParamsSchema>;
 export type SessionsPreviewParams = Static<typeof SessionsPreviewParamsSchema>;
+export type SessionsSearchParams = Static<typeof SessionsSearchParamsSchema>;
 export type SessionsResolveParams = Static<typeof SessionsResolveParamsSchema>;
 export type SessionsPatchParams = Static<typeof SessionsPatchParamsSchema>;
 export type SessionsResetParams = Static<typeof SessionsResetParamsSchema>;
 export type SessionsDeleteParams = Static<typeof SessionsDeleteParamsSchema>;
 export type SessionsCompactParams = Static<typeof SessionsCompactParamsSchema>;
+export type SessionsForkParams = Static<typeof SessionsForkParamsSchema>;
+export type SessionsBranchesParams = Static<typeof SessionsBranchesParamsSchema>;
+export type SessionsSwitchParams = Static<typeof SessionsSwitchParamsSchema>;
+export type SessionsMcpServer = Static<typeof SessionsMcpServerSchema>;
+export type SessionsMcpAttachParams = Static<typeof SessionsMcpAttachParamsSchema>;
+export type SessionsMcpDetachParams = Static<typeof SessionsMcpDetachParamsSchema>;
 export type SessionsUsageParams = Static<typeof SessionsUsageParamsSchema>;
+export type UsageBudgetParams = Static<typeof UsageBudgetParamsSchema>;
 export type ConfigGetParams = Static<typeof ConfigGetParamsSchema>;
 export type ConfigSetParams = Static<typeof ConfigSetParamsSchema>;
 export type ConfigApplyParams = Static<typeof ConfigApplyParamsSchema>;
@@ -222,6 +240,7 @@ export type ToolsCatalogParams = Static<typeof ToolsCatalogParamsSchema>;
 export type ToolCatalogProfile = Static<typeof ToolCatalogProfileSchema>;
 export type ToolCatalogEntry = Static<typeof ToolCatalogEntrySchema>;
 export type ToolCatalogGroup = Static<typeof ToolCatalogGroupSchema>;
+export type ToolCatalogWebProvider = Static<typeof ToolCatalogWebProviderSchema>;
 export type ToolsCatalogResult = Static<typeof ToolsCatalogResultSchema>;
 export type SkillsBinsParams = Static<typeof SkillsBinsParamsSchema>;
 export type SkillsBinsResult = Static<typeof SkillsBinsResultSchema>;
@@ -230,6 +249,7 @@ export type SkillsUpdateParams = Static<typeof SkillsUpdateParamsSchema>;
 export type CronJob = Static<typeof CronJobSchema>;
 export type CronListParams = Static<typeof CronListParamsSchema>;
 export type CronStatusParams = Static<typeof CronStatusParamsSchema>;
+export type CronGraphParams = Static<typeof CronGraphParamsSchema>;
 export type CronAddParams = Static<typeof CronAddParamsSchema>;
 export type CronUpdateParams = Static<typeof CronUpdateParamsSchema>;
 export type CronRemoveParams = Static<typeof CronRemoveParamsSchema>;
@@ -1,5 +1,6 @@
 import { MAX_BUFFERED_BYTES } from "./server-constants.js";
 import type { GatewayWsClient } from "./server/ws-types.js";
+import { isSessionKeyVisibleToTokenRestrictions } from "./token-restrictions.js";
 import { logWs, shouldLogWs, summarizeAgentEventForWsLog } from "./ws-log.js";
 
 const ADMIN_SCOPE = "operator.admin";
@@ -54,6 +55,44 @@ function hasEventScope(client: GatewayWsClient, event: string): boolean {
   return required.some((scope) => scopes.includes(scope));
 }
 
+// Events that always belong to a session; restricted tokens must not see them
+// when the payload does not say which one.
+const SESSION_SCOPED_EVENTS = new Set([
+  "agent",
+  "chat",
+  "exec.approval.requested",
+  "exec.approval.resolved",
+]);
+
+// Session events carry `sessionKey` at the top level; approval events nest it
+// under the originating `request`.
+function resolveEventSessionKey(payload: unknown): string | undefined {
+  if (!payload || typeof payload !== "object") {
+    return undefined;
+  }
+  const { sessionKey, request } = payload as { sessionKey?: unknown; request?: unknown };
+  if (typeof sessionKey === "string") {
+    return sessionKey;
+  }
+  const nested =
+    request && typeof request === "object"
+      ? (request as { sessionKey?: unknown }).sessionKey
+      : undefined;
+  return typeof nested === "string" ? nested : undefined;
+}
+
+// Restricted device tokens only see session-bound events for sessions they may access.
+function hasEventSessionAccess(client: GatewayWsClient, event: string, payload: unknown): boolean {
+  if (!client.tokenRestrictions) {
+    return true;
+  }
+  const sessionKey = resolveEventSessionKey(payload);
+  if (sessionKey === undefined) {
+    return !SESSION_SCOPED_EVENTS.has(event);
+  }
+  return isSessionKeyVisibleToTokenRestrictions(client.tokenRestrictions, sessionKey);
+}
+
 export function createGatewayBroadcaster(params: { clients: Set<GatewayWsClient> }) {
   let seq = 0;
 
@@ -94,7 +133,7 @@ export function createGatewayBroadcaster(params: { clients: Set<GatewayWsClient>
       if (targetConnIds && !targetConnIds.has(c.connId)) {
         continue;
       }
-      if (!hasEventScope(c, event)) {
+      if (!hasEventScope(c, event) || !hasEventSessionAccess(c, event, payload)) {
         continue;
       }
       const slow = c.socket.bufferedAmount > MAX_BUFFERED_BYTES;
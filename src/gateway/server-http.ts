@@ -37,7 +37,12 @@ import {
   handleControlUiHttpRequest,
   type ControlUiRootState,
 } from "./control-ui.js";
-import { applyHookMappings } from "./hooks-mapping.js";
+import {
+  applyHookMappings,
+  type HookMappingResolved,
+  resolveSignedHookMappings,
+} from "./hooks-mapping.js";
+import { verifyHookSignature } from "./hooks-signature.js";
 import {
   extractHookToken,
   getHookAgentPolicyError,
@@ -49,6 +54,7 @@ import {
   normalizeHookHeaders,
   normalizeWakePayload,
   readJsonBody,
+  readSignedHookBody,
   normalizeHookDispatchSessionKey,
   resolveHookSessionKey,
   resolveHookTargetAgentId,
@@ -57,6 +63,8 @@ import {
 } from "./hooks.js";
 import { sendGatewayAuthFailure, setDefaultSecurityHeaders } from "./http-common.js";
 import { getBearerToken } from "./http-utils.js";
+import { handleMcpHttpRequest } from "./mcp-http.js";
+import { handleMetricsHttpRequest } from "./metrics-http.js";
 import { handleOpenAiHttpRequest } from "./openai-http.js";
 import { handleOpenResponsesHttpRequest } from "./openresponses-http.js";
 import { GATEWAY_CLIENT_MODES, normalizeGatewayClientMode } from "./protocol/client-info.js";
@@ -274,9 +282,8 @@ export function createHooksRequestHandler(
       return true;
     }
 
-    const token = extractHookToken(req);
     const clientKey = resolveHookClientKey(req);
-    if (!safeEqualSecret(token, hooksConfig.token)) {
+    const rejectHookAuth = () => {
       const throttle = hookAuthLimiter.check(clientKey, AUTH_RATE_LIMIT_SCOPE_HOOK_AUTH);
       if (!throttle.allowed) {
         const retryAfter = throttle.retryAfterMs > 0 ? Math.ceil(throttle.retryAfterMs / 1000) : 1;
@@ -292,8 +299,19 @@ export function createHooksRequestHandler(
       res.setHeader("Content-Type", "text/plain; charset=utf-8");
       res.end("Unauthorized");
       return true;
+    };
+
+    const subPath = url.pathname.slice(basePath.length).replace(/^\/+/, "");
+    // Paths owned by mappings with `verify` authenticate by signature (checked once the
+    // body is read); every other path keeps the shared token.
+    const signedMappings = resolveSignedHookMappings(hooksConfig.mappings, subPath);
+    if (signedMappings.length === 0) {
+      const token = extractHookToken(req);
+      if (!safeEqualSecret(token, hooksConfig.token)) {
+        return rejectHookAuth();
+      }
+      hookAuthLimiter.reset(clientKey, AUTH_RATE_LIMIT_SCOPE_HOOK_AUTH);
     }
-    hookAuthLimiter.reset(clientKey, AUTH_RATE_LIMIT_SCOPE_HOOK_AUTH);
 
     if (req.method !== "POST") {
       res.statusCode = 405;
@@ -303,7 +321,6 @@ export function createHooksRequestHandler(
       return true;
     }
 
-    const subPath = url.pathname.slice(basePath.length).replace(/^\/+/, "");
     if (!subPath) {
       res.statusCode = 404;
       res.setHeader("Content-Type", "text/plain; charset=utf-8");
@@ -311,7 +328,9 @@ export function createHooksRequestHandler(
       return true;
     }
 
-    const body = await readJsonBody(req, hooksConfig.maxBodyBytes);
+    const signedBody =
+      signedMappings.length > 0 ? await readSignedHookBody(req, hooksConfig.maxBodyBytes) : null;
+    const body = signedBody ?? (await readJsonBody(req, hooksConfig.maxBodyBytes));
     if (!body.ok) {
       const status =
         body.error === "payload too large"
@@ -326,7 +345,41 @@ export function createHooksRequestHandler(
     const payload = typeof body.value === "object" && body.value !== null ? body.value : {};
     const headers = normalizeHookHeaders(req);
 
-    if (subPath === "wake") {
+    let verifiedMappings: HookMappingResolved[] | undefined;
+    if (signedBody?.ok) {
+      const rejections: string[] = [];
+      verifiedMappings = signedMappings.filter((mapping) => {
+        if (!mapping.verify) {
+          return false;
+        }
+        const result = verifyHookSignature({
+          verifier: mapping.verify,
+          headers,
+          rawBody: signedBody.rawBody,
+        });
+        if (!result.ok) {
+          rejections.push(`${mapping.id}: ${result.reason}`);
+        }
+        return result.ok;
+      });
+      if (verifiedMappings.length === 0) {
+        logHooks.warn(`hook signature rejected for /${subPath} (${rejections.join("; ")})`);
+        return rejectHookAuth();
+      }
+      hookAuthLimiter.reset(clientKey, AUTH_RATE_LIMIT_SCOPE_HOOK_AUTH);
+      // Slack confirms an Events API URL by expecting its challenge echoed back.
+      const slackChallenge = (payload as Record<string, unknown>).challenge;
+      if (
+        verifiedMappings.some((mapping) => mapping.verify?.scheme === "slack") &&
+        (payload as Record<string, unknown>).type === "url_verification" &&
+        typeof slackChallenge === "string"
+      ) {
+        sendJson(res, 200, { challenge: slackChallenge });
+        return true;
+      }
+    }
+
+    if (!verifiedMappings && subPath === "wake") {
       const normalized = normalizeWakePayload(payload as Record<string, unknown>);
       if (!normalized.ok) {
         sendJson(res, 400, { ok: false, error: normalized.error });
@@ -337,7 +390,7 @@ export function createHooksRequestHandler(
       return true;
     }
 
-    if (subPath === "agent") {
+    if (!verifiedMappings && subPath === "agent") {
       const normalized = normalizeAgentPayload(payload as Record<string, unknown>);
       if (!normalized.ok) {
         sendJson(res, 400, { ok: false, error: normalized.error });
@@ -369,9 +422,10 @@ export function createHooksRequestHandler(
       return true;
     }
 
-    if (hooksConfig.mappings.length > 0) {
+    const mappings = verifiedMappings ?? hooksConfig.mappings;
+    if (mappings.length > 0) {
       try {
-        const mapped = await applyHookMappings(hooksConfig.mappings, {
+        const mapped = await applyHookMappings(mappings, {
           payload: payload as Record<string, unknown>,
           headers,
           url,
@@ -456,6 +510,8 @@ export function createGatewayHttpServer(opts: {
   controlUiRoot?: ControlUiRootState;
   openAiChatCompletionsEnabled: boolean;
   openResponsesEnabled: boolean;
+  mcpEnabled?: boolean;
+  metricsEnabled?: boolean;
   openResponsesConfig?: import("../config/types.gateway.js").GatewayHttpResponsesConfig;
   strictTransportSecurityHeader?: string;
   handleHooksRequest: HooksRequestHandler;
@@ -473,6 +529,8 @@ export function createGatewayHttpServer(opts: {
     controlUiRoot,
     openAiChatCompletionsEnabled,
     openResponsesEnabled,
+    mcpEnabled,
+    metricsEnabled,
     openResponsesConfig,
     strictTransportSecurityHeader,
     handleHooksRequest,
@@ -572,6 +630,31 @@ export function createGatewayHttpServer(opts: {
           return;
         }
       }
+      if (mcpEnabled) {
+        if (
+          await handleMcpHttpRequest(req, res, {
+            auth: resolvedAuth,
+            trustedProxies,
+            allowRealIpFallback,
+            rateLimiter,
+          })
+        ) {
+          return;
+        }
+      }
+      if (metricsEnabled) {
+        if (
+          await handleMetricsHttpRequest(req, res, {
+            auth: resolvedAuth,
+            scrapeToken: configSnapshot.gateway?.http?.endpoints?.metrics?.token,
+            trustedProxies,
+            allowRealIpFallback,
+            rateLimiter,
+          })
+        ) {
+          return;
+        }
+      }
       if (canvasHost) {
         if (isCanvasPath(requestPath)) {
           const ok = await authorizeCanvasRequest({
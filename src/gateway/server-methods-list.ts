@@ -10,6 +10,7 @@ const BASE_METHODS = [
   "status",
   "usage.status",
   "usage.cost",
+  "usage.budget",
   "tts.status",
   "tts.providers",
   "tts.enable",
@@ -53,10 +54,16 @@ const BASE_METHODS = [
   "secrets.reload",
   "sessions.list",
   "sessions.preview",
+  "sessions.search",
   "sessions.patch",
   "sessions.reset",
   "sessions.delete",
+  "sessions.mcp.attach",
+  "sessions.mcp.detach",
   "sessions.compact",
+  "sessions.fork",
+  "sessions.branches",
+  "sessions.switch",
   "last-heartbeat",
   "set-heartbeats",
   "wake",
@@ -80,6 +87,7 @@ const BASE_METHODS = [
   "node.canvas.capability.refresh",
   "cron.list",
   "cron.status",
+  "cron.graph",
   "cron.add",
   "cron.update",
   "cron.remove",
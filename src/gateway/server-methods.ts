@@ -1,3 +1,4 @@
+import { loadConfig } from "../config/config.js";
 import { formatControlPlaneActor, resolveControlPlaneActor } from "./control-plane-audit.js";
 import { consumeControlPlaneWriteBudget } from "./control-plane-rate-limit.js";
 import { ADMIN_SCOPE, authorizeOperatorScopesForMethod } from "./method-scopes.js";
@@ -32,15 +33,33 @@ import { usageHandlers } from "./server-methods/usage.js";
 import { voicewakeHandlers } from "./server-methods/voicewake.js";
 import { webHandlers } from "./server-methods/web.js";
 import { wizardHandlers } from "./server-methods/wizard.js";
+import {
+  authorizeTokenRestrictions,
+  resolveTokenRestrictionTargets,
+} from "./token-restrictions.js";
 
 const CONTROL_PLANE_WRITE_METHODS = new Set(["config.apply", "config.patch", "update.run"]);
-function authorizeGatewayMethod(method: string, client: GatewayRequestOptions["client"]) {
+function authorizeGatewayMethod(
+  method: string,
+  params: unknown,
+  client: GatewayRequestOptions["client"],
+) {
   if (!client?.connect) {
     return null;
   }
   if (method === "health") {
     return null;
   }
+  if (client.tokenRestrictions) {
+    const denied = authorizeTokenRestrictions({
+      restrictions: client.tokenRestrictions,
+      method,
+      targets: resolveTokenRestrictionTargets(loadConfig(), params),
+    });
+    if (denied) {
+      return errorShape(ErrorCodes.INVALID_REQUEST, denied);
+    }
+  }
   const roleRaw = client.connect.role ?? "operator";
   const role = parseGatewayRole(roleRaw);
   if (!role) {
@@ -98,7 +117,7 @@ export async function handleGatewayRequest(
   opts: GatewayRequestOptions & { extraHandlers?: GatewayRequestHandlers },
 ): Promise<void> {
   const { req, respond, client, isWebchatConnect, context } = opts;
-  const authError = authorizeGatewayMethod(req.method, client);
+  const authError = authorizeGatewayMethod(req.method, req.params, client);
   if (authError) {
     respond(false, undefined, authError);
     return;
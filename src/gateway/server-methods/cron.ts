@@ -6,11 +6,13 @@ import {
 } from "../../cron/run-log.js";
 import type { CronJobCreate, CronJobPatch } from "../../cron/types.js";
 import { validateScheduleTimestamp } from "../../cron/validate-timestamp.js";
+import { ackInboundEntry, journalInboundEntry } from "../../infra/inbound-queue.js";
 import {
   ErrorCodes,
   errorShape,
   formatValidationErrors,
   validateCronAddParams,
+  validateCronGraphParams,
   validateCronListParams,
   validateCronRemoveParams,
   validateCronRunParams,
@@ -88,6 +90,22 @@ export const cronHandlers: GatewayRequestHandlers = {
     const status = await context.cron.status();
     respond(true, status, undefined);
   },
+  "cron.graph": async ({ params, respond, context }) => {
+    if (!validateCronGraphParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid cron.graph params: ${formatValidationErrors(validateCronGraphParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const p = params as { id?: string; jobId?: string };
+    const graph = await context.cron.graph({ id: p.id ?? p.jobId });
+    respond(true, graph, undefined);
+  },
   "cron.add": async ({ params, respond, context }) => {
     const normalized = normalizeCronJobCreate(params) ?? params;
     if (!validateCronAddParams(normalized)) {
@@ -207,8 +225,18 @@ export const cronHandlers: GatewayRequestHandlers = {
       );
       return;
     }
-    const result = await context.cron.run(jobId, p.mode ?? "force");
-    respond(true, result, undefined);
+    const mode = p.mode ?? "force";
+    // Forced runs are journaled so a restart mid-run replays them; due runs
+    // are picked up again by the scheduler's missed-run catch-up.
+    const journalId = mode === "force" ? journalInboundEntry({ kind: "cron", jobId }) : undefined;
+    try {
+      const result = await context.cron.run(jobId, mode);
+      respond(true, result, undefined);
+    } finally {
+      if (journalId) {
+        ackInboundEntry(journalId);
+      }
+    }
   },
   "cron.runs": async ({ params, respond, context }) => {
     if (!validateCronRunsParams(params)) {
@@ -3,6 +3,7 @@ import {
   listDevicePairing,
   removePairedDevice,
   type DeviceAuthToken,
+  type DeviceTokenRestrictions,
   rejectDevicePairing,
   revokeDeviceToken,
   rotateDeviceToken,
@@ -160,12 +161,13 @@ export const deviceHandlers: GatewayRequestHandlers = {
       );
       return;
     }
-    const { deviceId, role, scopes } = params as {
+    const { deviceId, role, scopes, restrictions } = params as {
       deviceId: string;
       role: string;
       scopes?: string[];
+      restrictions?: DeviceTokenRestrictions;
     };
-    const entry = await rotateDeviceToken({ deviceId, role, scopes });
+    const entry = await rotateDeviceToken({ deviceId, role, scopes, restrictions });
     if (!entry) {
       respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "unknown deviceId/role"));
       return;
@@ -180,6 +182,7 @@ export const deviceHandlers: GatewayRequestHandlers = {
         role: entry.role,
         token: entry.token,
         scopes: entry.scopes,
+        restrictions: entry.restrictions,
         rotatedAtMs: entry.rotatedAtMs ?? entry.createdAtMs,
       },
       undefined,
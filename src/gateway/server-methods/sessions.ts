@@ -11,28 +11,48 @@ import {
   loadSessionStore,
   snapshotSessionOrigin,
   resolveMainSessionKey,
+  type SessionBranch,
   type SessionEntry,
   updateSessionStore,
 } from "../../config/sessions.js";
+import type { McpServerConfig } from "../../config/types.tools.js";
 import { unbindThreadBindingsBySessionKey } from "../../discord/monitor/thread-bindings.js";
 import { logVerbose } from "../../globals.js";
 import { createInternalHookEvent, triggerInternalHook } from "../../hooks/internal-hooks.js";
+import { attachSessionMcpServers, detachSessionMcpServers } from "../../mcp/session-servers.js";
 import { getGlobalHookRunner } from "../../plugins/hook-runner-global.js";
 import {
   isSubagentSessionKey,
   normalizeAgentId,
   parseAgentSessionKey,
 } from "../../routing/session-key.js";
+import {
+  addSessionBranch,
+  forkSessionTranscript,
+  listInactiveSessionBranches,
+  listSessionBranches,
+  switchSessionBranch,
+} from "../../sessions/session-branches.js";
+import {
+  resolveTranscriptSearchDateBounds,
+  searchSessionTranscripts,
+} from "../../sessions/transcript-search.js";
 import {
   ErrorCodes,
   errorShape,
+  validateSessionsBranchesParams,
   validateSessionsCompactParams,
   validateSessionsDeleteParams,
+  validateSessionsForkParams,
   validateSessionsListParams,
+  validateSessionsMcpAttachParams,
+  validateSessionsMcpDetachParams,
   validateSessionsPatchParams,
   validateSessionsPreviewParams,
   validateSessionsResetParams,
   validateSessionsResolveParams,
+  validateSessionsSearchParams,
+  validateSessionsSwitchParams,
 } from "../protocol/index.js";
 import {
   archiveFileOnDisk,
@@ -45,12 +65,16 @@ import {
   resolveGatewaySessionStoreTarget,
   resolveSessionModelRef,
   resolveSessionTranscriptCandidates,
+  type SessionsBranchesResult,
+  type SessionsBranchResult,
   type SessionsPatchResult,
   type SessionsPreviewEntry,
   type SessionsPreviewResult,
+  type SessionsSearchResult,
 } from "../session-utils.js";
 import { applySessionsPatchToStore } from "../sessions-patch.js";
 import { resolveSessionKeyFromResolveParams } from "../sessions-resolve.js";
+import { isSessionKeyVisibleToTokenRestrictions } from "../token-restrictions.js";
 import type { GatewayClient, GatewayRequestHandlers, RespondFn } from "./types.js";
 import { assertValidParams } from "./validation.js";
 
@@ -126,19 +150,39 @@ function archiveSessionTranscriptsForSession(params: {
   sessionId: string | undefined;
   storePath: string;
   sessionFile?: string;
+  branches?: SessionBranch[];
   agentId?: string;
   reason: "reset" | "deleted";
 }): string[] {
   if (!params.sessionId) {
     return [];
   }
-  return archiveSessionTranscripts({
-    sessionId: params.sessionId,
-    storePath: params.storePath,
-    sessionFile: params.sessionFile,
-    agentId: params.agentId,
-    reason: params.reason,
-  });
+  const transcripts = [
+    { sessionId: params.sessionId, sessionFile: params.sessionFile },
+    ...(params.branches ?? []),
+  ];
+  return transcripts.flatMap((transcript) =>
+    archiveSessionTranscripts({
+      sessionId: transcript.sessionId,
+      storePath: params.storePath,
+      sessionFile: transcript.sessionFile,
+      agentId: params.agentId,
+      reason: params.reason,
+    }),
+  );
+}
+
+async function abortSessionRunForBranching(key: string, sessionId: string) {
+  clearSessionQueues([key, sessionId]);
+  abortEmbeddedPiRun(sessionId);
+  const ended = await waitForEmbeddedPiRunEnd(sessionId, 15_000);
+  if (ended) {
+    return undefined;
+  }
+  return errorShape(
+    ErrorCodes.UNAVAILABLE,
+    `Session ${key} is still active; try again in a moment.`,
+  );
 }
 
 async function emitSessionUnboundLifecycleEvent(params: {
@@ -281,17 +325,25 @@ async function closeAcpRuntimeForSession(params: {
 }
 
 export const sessionsHandlers: GatewayRequestHandlers = {
-  "sessions.list": ({ params, respond }) => {
+  "sessions.list": ({ params, respond, client }) => {
     if (!assertValidParams(params, validateSessionsListParams, "sessions.list", respond)) {
       return;
     }
     const p = params;
     const cfg = loadConfig();
     const { storePath, store } = loadCombinedSessionStoreForGateway(cfg);
+    // Restricted tokens may list without naming an agent; only show what they may access.
+    const restrictions = client?.tokenRestrictions;
     const result = listSessionsFromStore({
       cfg,
       storePath,
-      store,
+      store: restrictions
+        ? Object.fromEntries(
+            Object.entries(store).filter(([key]) =>
+              isSessionKeyVisibleToTokenRestrictions(restrictions, key),
+            ),
+          )
+        : store,
       opts: p,
     });
     respond(true, result, undefined);
@@ -358,6 +410,42 @@ export const sessionsHandlers: GatewayRequestHandlers = {
 
     respond(true, { ts: Date.now(), previews } satisfies SessionsPreviewResult, undefined);
   },
+  "sessions.search": async ({ params, respond, client }) => {
+    if (!assertValidParams(params, validateSessionsSearchParams, "sessions.search", respond)) {
+      return;
+    }
+    const p = params;
+    let bounds: { after?: number; before?: number };
+    try {
+      bounds = resolveTranscriptSearchDateBounds({ startDate: p.startDate, endDate: p.endDate });
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, String(err)));
+      return;
+    }
+    // Restricted tokens may search without naming an agent; scope the search to
+    // the agents and sessions they may access.
+    const restrictions = client?.tokenRestrictions;
+    try {
+      const { hits } = await searchSessionTranscripts(loadConfig(), {
+        query: p.query,
+        agentId: p.agentId,
+        agentIds: restrictions?.agents,
+        sessionKeyPrefix: restrictions?.sessionKeyPrefix,
+        channel: p.channel,
+        role: p.toolName ? "tool" : p.role,
+        toolName: p.toolName,
+        limit: p.limit,
+        ...bounds,
+      });
+      respond(
+        true,
+        { ts: Date.now(), query: p.query, count: hits.length, hits } satisfies SessionsSearchResult,
+        undefined,
+      );
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.UNAVAILABLE, String(err)));
+    }
+  },
   "sessions.resolve": async ({ params, respond }) => {
     if (!assertValidParams(params, validateSessionsResolveParams, "sessions.resolve", respond)) {
       return;
@@ -459,11 +547,13 @@ export const sessionsHandlers: GatewayRequestHandlers = {
     }
     let oldSessionId: string | undefined;
     let oldSessionFile: string | undefined;
+    let oldBranches: SessionBranch[] = [];
     const next = await updateSessionStore(storePath, (store) => {
       const { primaryKey } = migrateAndPruneSessionStoreKey({ cfg, key, store });
       const entry = store[primaryKey];
       oldSessionId = entry?.sessionId;
       oldSessionFile = entry?.sessionFile;
+      oldBranches = entry ? listInactiveSessionBranches(entry) : [];
       const now = Date.now();
       const nextEntry: SessionEntry = {
         sessionId: randomUUID(),
@@ -497,6 +587,7 @@ export const sessionsHandlers: GatewayRequestHandlers = {
       sessionId: oldSessionId,
       storePath,
       sessionFile: oldSessionFile,
+      branches: oldBranches,
       agentId: target.agentId,
       reason: "reset",
     });
@@ -566,10 +657,12 @@ export const sessionsHandlers: GatewayRequestHandlers = {
             sessionId,
             storePath,
             sessionFile: entry?.sessionFile,
+            branches: entry ? listInactiveSessionBranches(entry) : [],
             agentId: target.agentId,
             reason: "deleted",
           })
         : [];
+    detachSessionMcpServers(target.canonicalKey ?? key);
     if (deleted) {
       const emitLifecycleHooks = p.emitLifecycleHooks !== false;
       await emitSessionUnboundLifecycleEvent({
@@ -581,6 +674,61 @@ export const sessionsHandlers: GatewayRequestHandlers = {
 
     respond(true, { ok: true, key: target.canonicalKey, deleted, archived }, undefined);
   },
+  "sessions.mcp.attach": ({ params, respond, client }) => {
+    if (
+      !assertValidParams(params, validateSessionsMcpAttachParams, "sessions.mcp.attach", respond)
+    ) {
+      return;
+    }
+    const p = params;
+    const key = requireSessionKey(p.key, respond);
+    if (!key) {
+      return;
+    }
+    const servers: Record<string, McpServerConfig> = {};
+    for (const server of p.servers) {
+      if (servers[server.name]) {
+        respond(
+          false,
+          undefined,
+          errorShape(ErrorCodes.INVALID_REQUEST, `duplicate MCP server name: ${server.name}`),
+        );
+        return;
+      }
+      if (Boolean(server.command) === Boolean(server.url)) {
+        respond(
+          false,
+          undefined,
+          errorShape(
+            ErrorCodes.INVALID_REQUEST,
+            `MCP server ${server.name} needs exactly one of command or url`,
+          ),
+        );
+        return;
+      }
+      const { name, ...config } = server;
+      servers[name] = config;
+    }
+    const { target } = resolveGatewaySessionTargetFromKey(key);
+    const sessionKey = target.canonicalKey ?? key;
+    attachSessionMcpServers({ sessionKey, servers, ownerId: client?.connId });
+    respond(true, { ok: true, key: sessionKey, servers: Object.keys(servers) }, undefined);
+  },
+  "sessions.mcp.detach": ({ params, respond }) => {
+    if (
+      !assertValidParams(params, validateSessionsMcpDetachParams, "sessions.mcp.detach", respond)
+    ) {
+      return;
+    }
+    const key = requireSessionKey(params.key, respond);
+    if (!key) {
+      return;
+    }
+    const { target } = resolveGatewaySessionTargetFromKey(key);
+    const sessionKey = target.canonicalKey ?? key;
+    const detached = detachSessionMcpServers(sessionKey);
+    respond(true, { ok: true, key: sessionKey, detached }, undefined);
+  },
   "sessions.compact": async ({ params, respond }) => {
     if (!assertValidParams(params, validateSessionsCompactParams, "sessions.compact", respond)) {
       return;
@@ -683,4 +831,130 @@ export const sessionsHandlers: GatewayRequestHandlers = {
       undefined,
     );
   },
+  "sessions.fork": async ({ params, respond }) => {
+    if (!assertValidParams(params, validateSessionsForkParams, "sessions.fork", respond)) {
+      return;
+    }
+    const p = params;
+    const key = requireSessionKey(p.key, respond);
+    if (!key) {
+      return;
+    }
+
+    const { cfg, target, storePath } = resolveGatewaySessionTargetFromKey(key);
+    const { entry } = loadSessionEntry(key);
+    const sessionId = entry?.sessionId;
+    if (!sessionId) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "session not found"));
+      return;
+    }
+    const filePath = resolveSessionTranscriptCandidates(
+      sessionId,
+      storePath,
+      entry.sessionFile,
+      target.agentId,
+    ).find((candidate) => fs.existsSync(candidate));
+    if (!filePath) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "session has no transcript"),
+      );
+      return;
+    }
+    const abortError = await abortSessionRunForBranching(target.canonicalKey, sessionId);
+    if (abortError) {
+      respond(false, undefined, abortError);
+      return;
+    }
+
+    let forked: ReturnType<typeof forkSessionTranscript>;
+    try {
+      forked = forkSessionTranscript({ sessionFile: filePath, turns: p.turns });
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.UNAVAILABLE, String(err)));
+      return;
+    }
+    const result = await updateSessionStore(storePath, (store) => {
+      const { primaryKey } = migrateAndPruneSessionStoreKey({ cfg, key, store });
+      const current = store[primaryKey];
+      if (current?.sessionId !== sessionId) {
+        return null;
+      }
+      const branch = addSessionBranch(current, forked);
+      return { entry: current, branch };
+    });
+    if (!result) {
+      fs.rmSync(forked.sessionFile, { force: true });
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.UNAVAILABLE, `Session ${key} changed while forking; try again.`),
+      );
+      return;
+    }
+    const payload: SessionsBranchResult = { ok: true, key: target.canonicalKey, ...result };
+    respond(true, payload, undefined);
+  },
+  "sessions.branches": ({ params, respond }) => {
+    if (!assertValidParams(params, validateSessionsBranchesParams, "sessions.branches", respond)) {
+      return;
+    }
+    const key = requireSessionKey(params.key, respond);
+    if (!key) {
+      return;
+    }
+    const { entry, canonicalKey } = loadSessionEntry(key);
+    if (!entry?.sessionId) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "session not found"));
+      return;
+    }
+    const result: SessionsBranchesResult = {
+      ts: Date.now(),
+      key: canonicalKey,
+      activeSessionId: entry.sessionId,
+      branches: listSessionBranches(entry),
+    };
+    respond(true, result, undefined);
+  },
+  "sessions.switch": async ({ params, respond }) => {
+    if (!assertValidParams(params, validateSessionsSwitchParams, "sessions.switch", respond)) {
+      return;
+    }
+    const p = params;
+    const key = requireSessionKey(p.key, respond);
+    if (!key) {
+      return;
+    }
+
+    const { cfg, target, storePath } = resolveGatewaySessionTargetFromKey(key);
+    const { entry } = loadSessionEntry(key);
+    if (!entry?.sessionId) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "session not found"));
+      return;
+    }
+    if (entry.sessionId !== p.sessionId) {
+      const abortError = await abortSessionRunForBranching(target.canonicalKey, entry.sessionId);
+      if (abortError) {
+        respond(false, undefined, abortError);
+        return;
+      }
+    }
+    const result = await updateSessionStore(storePath, (store) => {
+      const { primaryKey } = migrateAndPruneSessionStoreKey({ cfg, key, store });
+      const current = store[primaryKey];
+      const branch = current ? switchSessionBranch(current, p.sessionId) : null;
+      return current && branch ? { entry: current, branch } : null;
+    });
+    if (!result) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, `unknown branch: ${p.sessionId}`),
+      );
+      return;
+    }
+    const payload: SessionsBranchResult = { ok: true, key: target.canonicalKey, ...result };
+    respond(true, payload, undefined);
+  },
 };
@@ -23,6 +23,27 @@ vi.mock("../../plugins/tools.js", () => ({
   getPluginToolMeta: vi.fn((tool: { name: string }) => pluginToolMetaState.get(tool.name)),
 }));
 
+vi.mock("../../agents/mcp-tools.js", () => {
+  const meta = { pluginId: "mcp:github", serverName: "github", mcpToolName: "create_issue" };
+  return {
+    listRunningMcpTools: vi.fn(() => [
+      {
+        name: "mcp__github__create_issue",
+        label: "Create issue",
+        description: "[MCP github] Create an issue",
+      },
+    ]),
+    getMcpToolMeta: vi.fn(() => meta),
+  };
+});
+
+vi.mock("../../plugins/providers.js", () => ({
+  resolvePluginWebProviders: vi.fn(() => ({
+    search: [{ pluginId: "tavily", provider: { id: "tavily", label: "Tavily" } }],
+    fetch: [],
+  })),
+}));
+
 type RespondCall = [boolean, unknown?, { code: number; message: string }?];
 
 function createInvokeParams(params: Record<string, unknown>) {
@@ -117,4 +138,50 @@ describe("tools.catalog handler", () => {
       optional: true,
     });
   });
+
+  it("lists MCP server groups even when plugins are excluded", async () => {
+    const { respond, invoke } = createInvokeParams({ includePlugins: false });
+    await invoke();
+    const call = respond.mock.calls[0] as RespondCall | undefined;
+    const payload = call?.[1] as
+      | {
+          groups: Array<{
+            id: string;
+            label: string;
+            source: string;
+            tools: Array<{ id: string; source: string; pluginId?: string }>;
+          }>;
+        }
+      | undefined;
+    const mcpGroup = payload?.groups.find((group) => group.source === "mcp");
+    expect(mcpGroup).toMatchObject({ id: "mcp:github", label: "MCP: github" });
+    expect(mcpGroup?.tools).toEqual([
+      expect.objectContaining({
+        id: "mcp__github__create_issue",
+        source: "mcp",
+        pluginId: "mcp:github",
+      }),
+    ]);
+  });
+
+  it("lists built-in and plugin web providers", async () => {
+    const { respond, invoke } = createInvokeParams({});
+    await invoke();
+    const call = respond.mock.calls[0] as RespondCall | undefined;
+    const payload = call?.[1] as
+      | {
+          webProviders?: {
+            search: Array<{ id: string; source: string; pluginId?: string }>;
+            fetch: Array<{ id: string; source: string }>;
+          };
+        }
+      | undefined;
+    expect(payload?.webProviders?.search).toContainEqual(
+      expect.objectContaining({ id: "brave", source: "core" }),
+    );
+    expect(payload?.webProviders?.search).toContainEqual(
+      expect.objectContaining({ id: "tavily", source: "plugin", pluginId: "tavily" }),
+    );
+    expect(payload?.webProviders?.fetch.map((entry) => entry.id)).toEqual(["firecrawl"]);
+  });
 });
@@ -4,12 +4,21 @@ import {
   resolveAgentWorkspaceDir,
   resolveDefaultAgentId,
 } from "../../agents/agent-scope.js";
+import { getMcpToolMeta, listRunningMcpTools } from "../../agents/mcp-tools.js";
 import {
   listCoreToolSections,
   PROFILE_OPTIONS,
   resolveCoreToolProfiles,
 } from "../../agents/tool-catalog.js";
+import {
+  BUILTIN_WEB_FETCH_PROVIDER_LABELS,
+  BUILTIN_WEB_FETCH_PROVIDERS,
+  BUILTIN_WEB_SEARCH_PROVIDER_LABELS,
+  BUILTIN_WEB_SEARCH_PROVIDERS,
+  normalizeWebProviderId,
+} from "../../agents/tools/web-providers.js";
 import { loadConfig } from "../../config/config.js";
+import { resolvePluginWebProviders } from "../../plugins/providers.js";
 import { getPluginToolMeta, resolvePluginTools } from "../../plugins/tools.js";
 import {
   ErrorCodes,
@@ -23,7 +32,7 @@ type ToolCatalogEntry = {
   id: string;
   label: string;
   description: string;
-  source: "core" | "plugin";
+  source: "core" | "plugin" | "mcp";
   pluginId?: string;
   optional?: boolean;
   defaultProfiles: Array<"minimal" | "coding" | "messaging" | "full">;
@@ -32,11 +41,65 @@ type ToolCatalogEntry = {
 type ToolCatalogGroup = {
   id: string;
   label: string;
-  source: "core" | "plugin";
+  source: "core" | "plugin" | "mcp";
   pluginId?: string;
   tools: ToolCatalogEntry[];
 };
 
+type ToolCatalogWebProvider = {
+  id: string;
+  label: string;
+  source: "core" | "plugin";
+  pluginId?: string;
+  configured: boolean;
+};
+
+function buildWebProviders(params: {
+  cfg: ReturnType<typeof loadConfig>;
+  agentId: string;
+  includePlugins: boolean;
+}): { search: ToolCatalogWebProvider[]; fetch: ToolCatalogWebProvider[] } {
+  const searchId = normalizeWebProviderId(params.cfg.tools?.web?.search?.provider);
+  const fetchId = normalizeWebProviderId(params.cfg.tools?.web?.fetch?.provider);
+  const search: ToolCatalogWebProvider[] = BUILTIN_WEB_SEARCH_PROVIDERS.map((id) => ({
+    id,
+    label: BUILTIN_WEB_SEARCH_PROVIDER_LABELS[id],
+    source: "core",
+    configured: id === searchId,
+  }));
+  const fetch: ToolCatalogWebProvider[] = BUILTIN_WEB_FETCH_PROVIDERS.map((id) => ({
+    id,
+    label: BUILTIN_WEB_FETCH_PROVIDER_LABELS[id],
+    source: "core",
+    configured: id === fetchId,
+  }));
+  if (params.includePlugins) {
+    const plugins = resolvePluginWebProviders({
+      config: params.cfg,
+      workspaceDir: resolveAgentWorkspaceDir(params.cfg, params.agentId),
+    });
+    for (const entry of plugins.search) {
+      search.push({
+        id: entry.provider.id,
+        label: entry.provider.label?.trim() || entry.provider.id,
+        source: "plugin",
+        pluginId: entry.pluginId,
+        configured: entry.provider.id === searchId,
+      });
+    }
+    for (const entry of plugins.fetch) {
+      fetch.push({
+        id: entry.provider.id,
+        label: entry.provider.label?.trim() || entry.provider.id,
+        source: "plugin",
+        pluginId: entry.pluginId,
+        configured: entry.provider.id === fetchId,
+      });
+    }
+  }
+  return { search, fetch };
+}
+
 function resolveAgentIdOrRespondError(rawAgentId: unknown, respond: RespondFn) {
   const cfg = loadConfig();
   const knownAgents = listAgentIds(cfg);
@@ -122,6 +185,49 @@ function buildPluginGroups(params: {
     .toSorted((a, b) => a.label.localeCompare(b.label));
 }
 
+function buildMcpGroups(params: {
+  cfg: ReturnType<typeof loadConfig>;
+  agentId: string;
+  existingToolNames: Set<string>;
+}): ToolCatalogGroup[] {
+  const groups = new Map<string, ToolCatalogGroup>();
+  const mcpTools = listRunningMcpTools({
+    config: params.cfg,
+    agentId: params.agentId,
+    existingToolNames: params.existingToolNames,
+  });
+  for (const tool of mcpTools) {
+    const meta = getMcpToolMeta(tool);
+    if (!meta) {
+      continue;
+    }
+    const existing =
+      groups.get(meta.pluginId) ??
+      ({
+        id: meta.pluginId,
+        label: `MCP: ${meta.serverName}`,
+        source: "mcp",
+        pluginId: meta.pluginId,
+        tools: [],
+      } as ToolCatalogGroup);
+    existing.tools.push({
+      id: tool.name,
+      label: tool.label,
+      description: tool.description,
+      source: "mcp",
+      pluginId: meta.pluginId,
+      defaultProfiles: [],
+    });
+    groups.set(meta.pluginId, existing);
+  }
+  return [...groups.values()]
+    .map((group) => ({
+      ...group,
+      tools: group.tools.toSorted((a, b) => a.id.localeCompare(b.id)),
+    }))
+    .toSorted((a, b) => a.label.localeCompare(b.label));
+}
+
 export const toolsCatalogHandlers: GatewayRequestHandlers = {
   "tools.catalog": ({ params, respond }) => {
     if (!validateToolsCatalogParams(params)) {
@@ -153,12 +259,24 @@ export const toolsCatalogHandlers: GatewayRequestHandlers = {
         }),
       );
     }
+    groups.push(
+      ...buildMcpGroups({
+        cfg: resolved.cfg,
+        agentId: resolved.agentId,
+        existingToolNames: new Set(groups.flatMap((group) => group.tools.map((tool) => tool.id))),
+      }),
+    );
     respond(
       true,
       {
         agentId: resolved.agentId,
         profiles: PROFILE_OPTIONS.map((profile) => ({ id: profile.id, label: profile.label })),
         groups,
+        webProviders: buildWebProviders({
+          cfg: resolved.cfg,
+          agentId: resolved.agentId,
+          includePlugins,
+        }),
       },
       undefined,
     );
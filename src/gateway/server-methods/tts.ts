@@ -4,6 +4,7 @@ import {
   OPENAI_TTS_VOICES,
   getTtsProvider,
   isTtsEnabled,
+  isTtsProvider,
   isTtsProviderConfigured,
   resolveTtsAutoMode,
   resolveTtsApiKey,
@@ -39,6 +40,7 @@ export const ttsHandlers: GatewayRequestHandlers = {
         hasOpenAIKey: Boolean(resolveTtsApiKey(config, "openai")),
         hasElevenLabsKey: Boolean(resolveTtsApiKey(config, "elevenlabs")),
         edgeEnabled: isTtsProviderConfigured(config, "edge"),
+        localConfigured: isTtsProviderConfigured(config, "local"),
       });
     } catch (err) {
       respond(false, undefined, errorShape(ErrorCodes.UNAVAILABLE, formatForLog(err)));
@@ -100,13 +102,13 @@ export const ttsHandlers: GatewayRequestHandlers = {
   },
   "tts.setProvider": async ({ params, respond }) => {
     const provider = typeof params.provider === "string" ? params.provider.trim() : "";
-    if (provider !== "openai" && provider !== "elevenlabs" && provider !== "edge") {
+    if (!isTtsProvider(provider)) {
       respond(
         false,
         undefined,
         errorShape(
           ErrorCodes.INVALID_REQUEST,
-          "Invalid provider. Use openai, elevenlabs, or edge.",
+          "Invalid provider. Use openai, elevenlabs, edge, or local.",
         ),
       );
       return;
@@ -147,6 +149,12 @@ export const ttsHandlers: GatewayRequestHandlers = {
             configured: isTtsProviderConfigured(config, "edge"),
             models: [],
           },
+          {
+            id: "local",
+            name: "Local (offline)",
+            configured: isTtsProviderConfigured(config, "local"),
+            models: config.local.modelPath ? [config.local.modelPath] : [],
+          },
         ],
         active: getTtsProvider(config, prefsPath),
       });
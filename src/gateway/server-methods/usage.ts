@@ -1,10 +1,15 @@
 import fs from "node:fs";
+import { resolveDefaultAgentId } from "../../agents/agent-scope.js";
 import { loadConfig } from "../../config/config.js";
 import {
   resolveSessionFilePath,
   resolveSessionFilePathOptions,
 } from "../../config/sessions/paths.js";
-import type { SessionEntry, SessionSystemPromptReport } from "../../config/sessions/types.js";
+import type {
+  SessionEntry,
+  SessionModelRoute,
+  SessionSystemPromptReport,
+} from "../../config/sessions/types.js";
 import { loadProviderUsageSummary } from "../../infra/provider-usage.js";
 import type {
   CostUsageSummary,
@@ -23,6 +28,7 @@ import {
   discoverAllSessions,
   type DiscoveredSession,
 } from "../../infra/session-cost-usage.js";
+import { evaluateUsageBudgets, type UsageBudgetTarget } from "../../infra/usage-budgets.js";
 import { parseAgentSessionKey } from "../../routing/session-key.js";
 import { buildUsageAggregateTail } from "../../shared/usage-aggregates.js";
 import {
@@ -30,6 +36,7 @@ import {
   errorShape,
   formatValidationErrors,
   validateSessionsUsageParams,
+  validateUsageBudgetParams,
 } from "../protocol/index.js";
 import {
   listAgentsForGateway,
@@ -362,6 +369,10 @@ export type SessionUsageEntry = {
   providerOverride?: string;
   modelProvider?: string;
   model?: string;
+  /** Latest per-turn model router decision, when routing is enabled. */
+  modelRoute?: SessionModelRoute;
+  /** Routed turns per tier over the session's lifetime. */
+  modelRouteCounts?: Record<string, number>;
   usage: SessionCostSummary | null;
   contextWeight?: SessionSystemPromptReport | null;
 };
@@ -373,6 +384,8 @@ export type SessionsUsageAggregates = {
   byProvider: SessionModelUsage[];
   byAgent: Array<{ agentId: string; totals: CostUsageSummary["totals"] }>;
   byChannel: Array<{ channel: string; totals: CostUsageSummary["totals"] }>;
+  /** Routed turns per model router tier across the listed sessions. */
+  byRouteTier?: Array<{ tier: string; count: number }>;
   latency?: SessionLatencyStats;
   dailyLatency?: SessionDailyLatency[];
   modelDaily?: SessionDailyModelUsage[];
@@ -412,6 +425,48 @@ export const usageHandlers: GatewayRequestHandlers = {
     const summary = await loadCostUsageSummaryCached({ startMs, endMs, config });
     respond(true, summary, undefined);
   },
+  "usage.budget": async ({ respond, params }) => {
+    if (!validateUsageBudgetParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid usage.budget params: ${formatValidationErrors(validateUsageBudgetParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const key = params.key?.trim();
+    const loaded = key ? loadSessionEntry(key) : undefined;
+    const config = loaded?.cfg ?? loadConfig();
+    const entry = loaded?.entry;
+    const agentId =
+      params.agentId ??
+      (key ? parseAgentSessionKey(key)?.agentId : undefined) ??
+      resolveDefaultAgentId(config);
+    const target: UsageBudgetTarget = {
+      agentId,
+      sessionKey: loaded?.canonicalKey,
+      sessionEntry: entry,
+      sessionId: entry?.sessionId,
+      channel: params.channel ?? entry?.lastChannel ?? entry?.channel,
+      accountId: params.accountId ?? entry?.lastAccountId,
+    };
+    const evaluation = await evaluateUsageBudgets({ cfg: config, target });
+    respond(
+      true,
+      {
+        updatedAt: Date.now(),
+        agentId: target.agentId,
+        key: target.sessionKey,
+        channel: target.channel,
+        accountId: target.accountId,
+        ...evaluation,
+      },
+      undefined,
+    );
+  },
   "sessions.usage": async ({ respond, params }) => {
     if (!validateSessionsUsageParams(params)) {
       respond(
@@ -575,6 +630,7 @@ export const usageHandlers: GatewayRequestHandlers = {
     const byProviderMap = new Map<string, SessionModelUsage>();
     const byAgentMap = new Map<string, CostUsageSummary["totals"]>();
     const byChannelMap = new Map<string, CostUsageSummary["totals"]>();
+    const byRouteTierMap = new Map<string, number>();
     const dailyAggregateMap = new Map<
       string,
       {
@@ -800,6 +856,10 @@ export const usageHandlers: GatewayRequestHandlers = {
         }
       }
 
+      for (const [tier, count] of Object.entries(merged.storeEntry?.modelRouteCounts ?? {})) {
+        byRouteTierMap.set(tier, (byRouteTierMap.get(tier) ?? 0) + count);
+      }
+
       sessions.push({
         key: merged.key,
         label: merged.label,
@@ -813,6 +873,8 @@ export const usageHandlers: GatewayRequestHandlers = {
         providerOverride: merged.storeEntry?.providerOverride,
         modelProvider: merged.storeEntry?.modelProvider,
         model: merged.storeEntry?.model,
+        modelRoute: merged.storeEntry?.modelRoute,
+        modelRouteCounts: merged.storeEntry?.modelRouteCounts,
         usage,
         contextWeight: includeContextWeight
           ? (merged.storeEntry?.systemPromptReport ?? null)
@@ -860,6 +922,13 @@ export const usageHandlers: GatewayRequestHandlers = {
       byAgent: Array.from(byAgentMap.entries())
         .map(([id, totals]) => ({ agentId: id, totals }))
         .toSorted((a, b) => b.totals.totalCost - a.totals.totalCost),
+      ...(byRouteTierMap.size > 0
+        ? {
+            byRouteTier: Array.from(byRouteTierMap.entries())
+              .map(([tier, count]) => ({ tier, count }))
+              .toSorted((a, b) => b.count - a.count),
+          }
+        : {}),
       ...tail,
     };
 
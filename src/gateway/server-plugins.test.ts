@@ -17,6 +17,8 @@ const createRegistry = (diagnostics: PluginDiagnostic[]): PluginRegistry => ({
   channels: [],
   commands: [],
   providers: [],
+  webSearchProviders: [],
+  webFetchProviders: [],
   gatewayHandlers: {},
   httpHandlers: [],
   httpRoutes: [],
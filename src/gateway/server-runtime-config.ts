@@ -24,6 +24,8 @@ export type GatewayRuntimeConfig = {
   controlUiEnabled: boolean;
   openAiChatCompletionsEnabled: boolean;
   openResponsesEnabled: boolean;
+  mcpEnabled: boolean;
+  metricsEnabled: boolean;
   openResponsesConfig?: import("../config/types.gateway.js").GatewayHttpResponsesConfig;
   strictTransportSecurityHeader?: string;
   controlUiBasePath: string;
@@ -44,6 +46,8 @@ export async function resolveGatewayRuntimeConfig(params: {
   controlUiEnabled?: boolean;
   openAiChatCompletionsEnabled?: boolean;
   openResponsesEnabled?: boolean;
+  mcpEnabled?: boolean;
+  metricsEnabled?: boolean;
   auth?: GatewayAuthConfig;
   tailscale?: GatewayTailscaleConfig;
 }): Promise<GatewayRuntimeConfig> {
@@ -79,6 +83,10 @@ export async function resolveGatewayRuntimeConfig(params: {
     false;
   const openResponsesConfig = params.cfg.gateway?.http?.endpoints?.responses;
   const openResponsesEnabled = params.openResponsesEnabled ?? openResponsesConfig?.enabled ?? false;
+  const mcpEnabled =
+    params.mcpEnabled ?? params.cfg.gateway?.http?.endpoints?.mcp?.enabled ?? false;
+  const metricsEnabled =
+    params.metricsEnabled ?? params.cfg.gateway?.http?.endpoints?.metrics?.enabled ?? false;
   const strictTransportSecurityConfig =
     params.cfg.gateway?.http?.securityHeaders?.strictTransportSecurity;
   const strictTransportSecurityHeader =
@@ -169,6 +177,8 @@ export async function resolveGatewayRuntimeConfig(params: {
     controlUiEnabled,
     openAiChatCompletionsEnabled,
     openResponsesEnabled,
+    mcpEnabled,
+    metricsEnabled,
     openResponsesConfig: openResponsesConfig
       ? { ...openResponsesConfig, enabled: openResponsesEnabled }
       : undefined,
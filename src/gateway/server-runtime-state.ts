@@ -40,6 +40,8 @@ export async function createGatewayRuntimeState(params: {
   controlUiRoot?: ControlUiRootState;
   openAiChatCompletionsEnabled: boolean;
   openResponsesEnabled: boolean;
+  mcpEnabled: boolean;
+  metricsEnabled: boolean;
   openResponsesConfig?: import("../config/types.gateway.js").GatewayHttpResponsesConfig;
   strictTransportSecurityHeader?: string;
   resolvedAuth: ResolvedGatewayAuth;
@@ -134,6 +136,8 @@ export async function createGatewayRuntimeState(params: {
       controlUiRoot: params.controlUiRoot,
       openAiChatCompletionsEnabled: params.openAiChatCompletionsEnabled,
       openResponsesEnabled: params.openResponsesEnabled,
+      mcpEnabled: params.mcpEnabled,
+      metricsEnabled: params.metricsEnabled,
       openResponsesConfig: params.openResponsesConfig,
       strictTransportSecurityHeader: params.strictTransportSecurityHeader,
       handleHooksRequest,
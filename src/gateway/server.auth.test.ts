@@ -21,6 +21,7 @@ import {
   testTailscaleWhois,
   testState,
   withGatewayServer,
+  writeSessionStore,
 } from "./test-helpers.js";
 
 installGatewayTestHooks({ scope: "suite" });
@@ -1791,5 +1792,79 @@ describe("gateway server auth/connect", () => {
     }
   });
 
+  test("enforces restricted device token limits per request", async () => {
+    const { rotateDeviceToken } = await import("../infra/device-pairing.js");
+    const { server, ws, port, prevToken } = await startServerWithClient("secret");
+    const { identity, deviceIdentityPath } = await ensurePairedDeviceTokenForCurrentIdentity(ws);
+    const rotated = await rotateDeviceToken({
+      deviceId: identity.deviceId,
+      role: "operator",
+      restrictions: { agents: ["main"], methods: ["status", "sessions.*"] },
+    });
+    ws.close();
+
+    const ws2 = await openWs(port);
+    try {
+      const res = await connectReq(ws2, { token: rotated?.token, deviceIdentityPath });
+      expect(res.ok).toBe(true);
+      expect((await rpcReq(ws2, "status")).ok).toBe(true);
+      const config = await rpcReq(ws2, "config.get");
+      expect(config.ok).toBe(false);
+      expect(config.error?.message).toBe("token not allowed to call config.get");
+      const otherAgent = await rpcReq(ws2, "sessions.reset", { key: "agent:ops:main" });
+      expect(otherAgent.ok).toBe(false);
+      expect(otherAgent.error?.message).toBe("token not allowed to access agent ops");
+      const list = await rpcReq(ws2, "sessions.list", {});
+      expect(list.ok).toBe(true);
+    } finally {
+      ws2.close();
+      await server.close();
+      restoreGatewayToken(prevToken);
+    }
+  });
+
+  test("checks default targets and scopes session listings for restricted device tokens", async () => {
+    const { rotateDeviceToken } = await import("../infra/device-pairing.js");
+    const { randomUUID } = await import("node:crypto");
+    const { server, ws, port, prevToken } = await startServerWithClient("secret");
+    const { identity, deviceIdentityPath } = await ensurePairedDeviceTokenForCurrentIdentity(ws);
+    const rotated = await rotateDeviceToken({
+      deviceId: identity.deviceId,
+      role: "operator",
+      restrictions: { agents: ["ops"], methods: ["agent", "sessions.list"] },
+    });
+    ws.close();
+
+    const prevStorePath = testState.sessionStorePath;
+    testState.sessionStorePath = path.join(
+      os.tmpdir(),
+      `openclaw-restricted-sessions-${randomUUID()}`,
+      "sessions.json",
+    );
+    await writeSessionStore({
+      entries: {
+        "agent:main:main": { sessionId: "sess-main", updatedAt: Date.now() },
+        "agent:ops:main": { sessionId: "sess-ops", updatedAt: Date.now() },
+      },
+    });
+    const ws2 = await openWs(port);
+    try {
+      const res = await connectReq(ws2, { token: rotated?.token, deviceIdentityPath });
+      expect(res.ok).toBe(true);
+      // No session named: the default agent's main session is what gets checked.
+      const agent = await rpcReq(ws2, "agent", { message: "hi", idempotencyKey: "restricted-1" });
+      expect(agent.ok).toBe(false);
+      expect(agent.error?.message).toBe("token not allowed to access agent main");
+      const list = await rpcReq<{ sessions: Array<{ key: string }> }>(ws2, "sessions.list", {});
+      expect(list.ok).toBe(true);
+      expect(list.payload?.sessions.map((session) => session.key)).toEqual(["agent:ops:main"]);
+    } finally {
+      testState.sessionStorePath = prevStorePath;
+      ws2.close();
+      await server.close();
+      restoreGatewayToken(prevToken);
+    }
+  });
+
   // Remaining tests require isolated gateway state.
 });
@@ -1,9 +1,13 @@
+import { createHmac } from "node:crypto";
 import { describe, expect, test } from "vitest";
 import { resolveMainSessionKeyFromConfig } from "../config/sessions.js";
 import { drainSystemEvents, peekSystemEvents } from "../infra/system-events.js";
 import {
+  connectOk,
   cronIsolatedRun,
   installGatewayTestHooks,
+  rpcReq,
+  startServerWithClient,
   testState,
   withGatewayServer,
   waitForSystemEvent,
@@ -453,6 +457,134 @@ describe("gateway server hooks", () => {
     });
   });
 
+  test("authenticates signed mappings by signature instead of the token", async () => {
+    testState.hooksConfig = {
+      enabled: true,
+      token: "hook-secret",
+      mappings: [
+        {
+          id: "github",
+          match: { path: "github" },
+          action: "agent",
+          messageTemplate: "PR {{payload.action}}: {{payload.title}}",
+          verify: { scheme: "github", secret: "gh-webhook-secret" },
+        },
+        {
+          id: "slack",
+          match: { path: "slack" },
+          action: "wake",
+          textTemplate: "Slack: {{payload.event.text}}",
+          verify: { scheme: "slack", secret: "slack-signing-secret" },
+        },
+      ],
+    };
+    await withGatewayServer(async ({ port }) => {
+      const body = JSON.stringify({ action: "opened", title: "Fix flaky test" });
+      const signature = `sha256=${createHmac("sha256", "gh-webhook-secret").update(body).digest("hex")}`;
+      const postGithub = (headers: Record<string, string>) =>
+        fetch(`http://127.0.0.1:${port}/hooks/github`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...headers },
+          body,
+        });
+
+      expect((await postGithub({ Authorization: "Bearer hook-secret" })).status).toBe(401);
+      expect((await postGithub({ "X-Hub-Signature-256": "sha256=deadbeef" })).status).toBe(401);
+
+      cronIsolatedRun.mockClear();
+      cronIsolatedRun.mockResolvedValueOnce({ status: "ok", summary: "done" });
+      const signed = await postGithub({ "X-Hub-Signature-256": signature });
+      expect(signed.status).toBe(202);
+      await waitForSystemEvent();
+      const call = (cronIsolatedRun.mock.calls[0] as unknown[] | undefined)?.[0] as {
+        job?: { payload?: { message?: string } };
+      };
+      expect(call?.job?.payload?.message).toContain("PR opened: Fix flaky test");
+      drainSystemEvents(resolveMainKey());
+
+      const challengeBody = JSON.stringify({ type: "url_verification", challenge: "abc123" });
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const challenge = await fetch(`http://127.0.0.1:${port}/hooks/slack`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Slack-Request-Timestamp": timestamp,
+          "X-Slack-Signature": `v0=${createHmac("sha256", "slack-signing-secret")
+            .update(`v0:${timestamp}:${challengeBody}`)
+            .digest("hex")}`,
+        },
+        body: challengeBody,
+      });
+      expect(challenge.status).toBe(200);
+      expect(await challenge.json()).toEqual({ challenge: "abc123" });
+
+      const tokenWake = await fetch(`http://127.0.0.1:${port}/hooks/wake`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: "Bearer hook-secret" },
+        body: JSON.stringify({ text: "still token" }),
+      });
+      expect(tokenWake.status).toBe(200);
+      await waitForSystemEvent();
+      drainSystemEvents(resolveMainKey());
+    });
+  });
+
+  test("verifies signed mappings with the rotated secret after secrets.reload", async () => {
+    const previousSecret = process.env.GITHUB_WEBHOOK_SECRET;
+    process.env.GITHUB_WEBHOOK_SECRET = "gh-secret-old";
+    testState.hooksConfig = {
+      enabled: true,
+      token: "hook-secret",
+      mappings: [
+        {
+          id: "github",
+          match: { path: "github" },
+          action: "wake",
+          textTemplate: "PR {{payload.action}}",
+          verify: {
+            scheme: "github",
+            secret: { source: "env", provider: "default", id: "GITHUB_WEBHOOK_SECRET" },
+          },
+        },
+      ],
+    };
+    const { server, ws, port } = await startServerWithClient();
+    try {
+      await connectOk(ws);
+      const body = JSON.stringify({ action: "opened" });
+      const postSignedWith = (secret: string) =>
+        fetch(`http://127.0.0.1:${port}/hooks/github`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "X-Hub-Signature-256": `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`,
+          },
+          body,
+        });
+
+      expect((await postSignedWith("gh-secret-old")).status).toBe(200);
+      await waitForSystemEvent();
+      drainSystemEvents(resolveMainKey());
+
+      process.env.GITHUB_WEBHOOK_SECRET = "gh-secret-new";
+      const reload = await rpcReq(ws, "secrets.reload", {});
+      expect(reload.ok).toBe(true);
+
+      expect((await postSignedWith("gh-secret-old")).status).toBe(401);
+      expect((await postSignedWith("gh-secret-new")).status).toBe(200);
+      await waitForSystemEvent();
+      drainSystemEvents(resolveMainKey());
+    } finally {
+      ws.close();
+      await server.close();
+      if (previousSecret === undefined) {
+        delete process.env.GITHUB_WEBHOOK_SECRET;
+      } else {
+        process.env.GITHUB_WEBHOOK_SECRET = previousSecret;
+      }
+    }
+  });
+
   test("throttles repeated hook auth failures and resets after success", async () => {
     testState.hooksConfig = { enabled: true, token: "hook-secret" };
     await withGatewayServer(async ({ port }) => {
@@ -27,6 +27,7 @@ import {
   resolveControlUiRootSync,
 } from "../infra/control-ui-assets.js";
 import { isDiagnosticsEnabled } from "../infra/diagnostic-events.js";
+import { startDiagnosticMetrics } from "../infra/diagnostic-metrics.js";
 import { logAcceptedEnvOption } from "../infra/env.js";
 import { createExecApprovalForwarder } from "../infra/exec-approval-forwarder.js";
 import { onHeartbeatEvent } from "../infra/heartbeat-events.js";
@@ -64,6 +65,7 @@ import {
   type GatewayUpdateAvailableEventPayload,
 } from "./events.js";
 import { ExecApprovalManager } from "./exec-approval-manager.js";
+import { resolveHooksConfig } from "./hooks.js";
 import { NodeRegistry } from "./node-registry.js";
 import type { startBrowserControlServerIfEnabled } from "./server-browser.js";
 import { createChannelManager } from "./server-channels.js";
@@ -169,6 +171,16 @@ export type GatewayServerOptions = {
    * Default: config `gateway.http.endpoints.responses.enabled` (or false when absent).
    */
   openResponsesEnabled?: boolean;
+  /**
+   * If false, do not serve the MCP endpoint (`POST /mcp`).
+   * Default: config `gateway.http.endpoints.mcp.enabled` (or false when absent).
+   */
+  mcpEnabled?: boolean;
+  /**
+   * If true, serve Prometheus metrics at `GET /metrics`.
+   * Default: config `gateway.http.endpoints.metrics.enabled` (or false when absent).
+   */
+  metricsEnabled?: boolean;
   /**
    * Override gateway auth configuration (merges with config).
    */
@@ -408,6 +420,8 @@ export async function startGatewayServer(
     controlUiEnabled: opts.controlUiEnabled,
     openAiChatCompletionsEnabled: opts.openAiChatCompletionsEnabled,
     openResponsesEnabled: opts.openResponsesEnabled,
+    mcpEnabled: opts.mcpEnabled,
+    metricsEnabled: opts.metricsEnabled,
     auth: opts.auth,
     tailscale: opts.tailscale,
   });
@@ -416,6 +430,8 @@ export async function startGatewayServer(
     controlUiEnabled,
     openAiChatCompletionsEnabled,
     openResponsesEnabled,
+    mcpEnabled,
+    metricsEnabled,
     openResponsesConfig,
     strictTransportSecurityHeader,
     controlUiBasePath,
@@ -426,6 +442,12 @@ export async function startGatewayServer(
   } = runtimeConfig;
   let hooksConfig = runtimeConfig.hooksConfig;
   const canvasHostEnabled = runtimeConfig.canvasHostEnabled;
+  const stopDiagnosticMetrics = metricsEnabled ? startDiagnosticMetrics() : null;
+  if (metricsEnabled && !diagnosticsEnabled) {
+    log.warn(
+      "gateway: /metrics is enabled but diagnostics.enabled is off; only process metrics will be reported",
+    );
+  }
 
   // Create auth rate limiters used by connect/auth flows.
   const rateLimitConfig = cfgAtStart.gateway?.auth?.rateLimit;
@@ -500,6 +522,8 @@ export async function startGatewayServer(
     controlUiRoot: controlUiRootState,
     openAiChatCompletionsEnabled,
     openResponsesEnabled,
+    mcpEnabled,
+    metricsEnabled,
     openResponsesConfig,
     strictTransportSecurityHeader,
     resolvedAuth,
@@ -654,9 +678,9 @@ export async function startGatewayServer(
         checkIntervalMs: (healthCheckMinutes ?? 5) * 60_000,
       });
 
-  if (!minimalTestGateway) {
-    void cron.start().catch((err) => logCron.error(`failed to start: ${String(err)}`));
-  }
+  const cronStarted = minimalTestGateway
+    ? Promise.resolve()
+    : cron.start().catch((err) => logCron.error(`failed to start: ${String(err)}`));
 
   // Recover pending outbound deliveries from previous crash/restart.
   if (!minimalTestGateway) {
@@ -670,6 +694,21 @@ export async function startGatewayServer(
         cfg: cfgAtStart,
       });
     })().catch((err) => log.error(`Delivery recovery failed: ${String(err)}`));
+
+    // Replay inbound turns (queued followups, forced cron runs) that the
+    // previous process accepted but never finished.
+    void (async () => {
+      const { recoverInboundQueue } = await import("../infra/inbound-queue.js");
+      const { replayJournaledFollowup } = await import("../auto-reply/reply/followup-recovery.js");
+      await recoverInboundQueue({
+        log: log.child("inbound-recovery"),
+        replayFollowup: (entry) => replayJournaledFollowup(entry, cfgAtStart),
+        runCronJob: async (jobId) => {
+          await cronStarted;
+          return await cron.run(jobId, "force");
+        },
+      });
+    })().catch((err) => log.error(`Inbound recovery failed: ${String(err)}`));
   }
 
   const execApprovalManager = new ExecApprovalManager();
@@ -687,6 +726,12 @@ export async function startGatewayServer(
         reason: "reload",
         activate: true,
       });
+      // Hook mappings hold resolved verify secrets; rebuild them so rotated values apply.
+      try {
+        hooksConfig = resolveHooksConfig(prepared.config);
+      } catch (err) {
+        logHooks.warn(`hooks config reload failed: ${String(err)}`);
+      }
       return { warningCount: prepared.warnings.length };
     },
   });
@@ -920,6 +965,7 @@ export async function startGatewayServer(
       if (diagnosticsEnabled) {
         stopDiagnosticHeartbeat();
       }
+      stopDiagnosticMetrics?.();
       if (skillsRefreshTimer) {
         clearTimeout(skillsRefreshTimer);
         skillsRefreshTimer = null;
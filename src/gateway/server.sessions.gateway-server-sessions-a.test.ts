@@ -267,6 +267,9 @@ describe("gateway server sessions", () => {
         "sessions.reset",
         "sessions.delete",
         "sessions.compact",
+        "sessions.fork",
+        "sessions.branches",
+        "sessions.switch",
       ]),
     );
 
@@ -533,6 +536,112 @@ describe("gateway server sessions", () => {
     ws.close();
   });
 
+  test("sessions.search finds transcript messages by keyword", async () => {
+    const { dir } = await createSessionStoreDir();
+    const sessionId = "sess-search";
+    const lines = [
+      JSON.stringify({ type: "session", version: 3, id: sessionId }),
+      JSON.stringify({
+        type: "message",
+        timestamp: "2026-01-02T10:00:00.000Z",
+        message: { role: "user", content: [{ type: "text", text: "Renew the VPN cert please" }] },
+      }),
+    ];
+    await fs.writeFile(path.join(dir, `${sessionId}.jsonl`), `${lines.join("\n")}\n`, "utf-8");
+    await writeSessionStore({
+      entries: {
+        main: { sessionId, updatedAt: Date.now(), lastChannel: "telegram" },
+      },
+    });
+
+    const { ws } = await openClient();
+    const found = await rpcReq<{
+      count: number;
+      hits: Array<{ sessionKey: string; role: string; channel?: string; snippet: string }>;
+    }>(ws, "sessions.search", { query: "vpn cert" });
+    expect(found.ok).toBe(true);
+    expect(found.payload?.hits).toEqual([
+      expect.objectContaining({
+        sessionKey: "agent:main:main",
+        role: "user",
+        channel: "telegram",
+        snippet: expect.stringContaining("VPN cert"),
+      }),
+    ]);
+
+    const filtered = await rpcReq<{ count: number }>(ws, "sessions.search", {
+      query: "vpn cert",
+      startDate: "2026-02-01",
+    });
+    expect(filtered.payload?.count).toBe(0);
+
+    const invalid = await rpcReq(ws, "sessions.search", { query: "vpn", startDate: "2026-13-45" });
+    expect(invalid.ok).toBe(false);
+
+    ws.close();
+  });
+
+  test("sessions.fork branches a transcript and sessions.switch moves between branches", async () => {
+    const { dir } = await createSessionStoreDir();
+    const sessionId = "sess-branch";
+    const turn = (role: "user" | "assistant", text: string, id: string, parentId: string | null) =>
+      JSON.stringify({
+        type: "message",
+        id,
+        parentId,
+        timestamp: "2026-01-02T10:00:00.000Z",
+        message: { role, content: [{ type: "text", text }] },
+      });
+    const lines = [
+      JSON.stringify({ type: "session", version: 3, id: sessionId, cwd: dir }),
+      turn("user", "first question", "u1", null),
+      turn("assistant", "first answer", "a1", "u1"),
+      turn("user", "second question", "u2", "a1"),
+      turn("assistant", "second answer", "a2", "u2"),
+    ];
+    await fs.writeFile(path.join(dir, `${sessionId}.jsonl`), `${lines.join("\n")}\n`, "utf-8");
+    await writeSessionStore({
+      entries: { main: { sessionId, updatedAt: Date.now() } },
+    });
+
+    const { ws } = await openClient();
+    const forked = await rpcReq<{
+      entry: { sessionId: string; sessionFile?: string };
+      branch: { sessionId: string; parentSessionId?: string; turns?: number };
+    }>(ws, "sessions.fork", { key: "main", turns: 1 });
+    expect(forked.ok).toBe(true);
+    expect(forked.payload?.branch).toMatchObject({ parentSessionId: sessionId, turns: 1 });
+    expect(forked.payload?.entry.sessionId).toBe(forked.payload?.branch.sessionId);
+    const branchFile = forked.payload?.entry.sessionFile ?? "";
+    const branchText = await fs.readFile(branchFile, "utf-8");
+    expect(branchText).toContain("first answer");
+    expect(branchText).not.toContain("second question");
+
+    const branches = await rpcReq<{
+      activeSessionId: string;
+      branches: Array<{ sessionId: string }>;
+    }>(ws, "sessions.branches", { key: "main" });
+    expect(branches.payload?.branches.map((b) => b.sessionId)).toEqual([
+      sessionId,
+      forked.payload?.branch.sessionId,
+    ]);
+
+    const switched = await rpcReq<{ entry: { sessionId: string } }>(ws, "sessions.switch", {
+      key: "main",
+      sessionId,
+    });
+    expect(switched.payload?.entry.sessionId).toBe(sessionId);
+    const unknown = await rpcReq(ws, "sessions.switch", { key: "main", sessionId: "nope" });
+    expect(unknown.ok).toBe(false);
+
+    const reset = await rpcReq(ws, "sessions.reset", { key: "main" });
+    expect(reset.ok).toBe(true);
+    const files = await fs.readdir(dir);
+    expect(files.some((f) => f.startsWith(`${path.basename(branchFile)}.reset.`))).toBe(true);
+
+    ws.close();
+  });
+
   test("sessions.preview resolves legacy mixed-case main alias with custom mainKey", async () => {
     const { dir, storePath } = await createSessionStoreDir();
     testState.agentsConfig = { list: [{ id: "ops", default: true }] };
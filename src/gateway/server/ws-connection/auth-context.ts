@@ -1,4 +1,5 @@
 import type { IncomingMessage } from "node:http";
+import type { DeviceTokenRestrictions } from "../../../infra/device-pairing.js";
 import {
   AUTH_RATE_LIMIT_SCOPE_DEVICE_TOKEN,
   AUTH_RATE_LIMIT_SCOPE_SHARED_SECRET,
@@ -30,12 +31,14 @@ export type ConnectAuthState = {
   deviceTokenCandidateSource?: DeviceTokenCandidateSource;
 };
 
-type VerifyDeviceTokenResult = { ok: boolean };
+type VerifyDeviceTokenResult = { ok: boolean; restrictions?: DeviceTokenRestrictions };
 
 export type ConnectAuthDecision = {
   authResult: GatewayAuthResult;
   authOk: boolean;
   authMethod: GatewayAuthResult["method"];
+  /** Set when the connection authenticated with a restricted device token. */
+  deviceTokenRestrictions?: DeviceTokenRestrictions;
 };
 
 function trimToUndefined(value: string | undefined): string | undefined {
@@ -171,6 +174,7 @@ export async function resolveConnectAuthDecision(params: {
   let authResult = params.state.authResult;
   let authOk = params.state.authOk;
   let authMethod = params.state.authMethod;
+  let deviceTokenRestrictions: DeviceTokenRestrictions | undefined;
 
   const deviceTokenCandidate = params.state.deviceTokenCandidate;
   if (!params.hasDeviceIdentity || !params.deviceId || authOk || !deviceTokenCandidate) {
@@ -201,6 +205,7 @@ export async function resolveConnectAuthDecision(params: {
     if (tokenCheck.ok) {
       authOk = true;
       authMethod = "device-token";
+      deviceTokenRestrictions = tokenCheck.restrictions;
       params.rateLimiter?.reset(params.clientIp, AUTH_RATE_LIMIT_SCOPE_DEVICE_TOKEN);
     } else {
       authResult = {
@@ -214,5 +219,5 @@ export async function resolveConnectAuthDecision(params: {
     }
   }
 
-  return { authResult, authOk, authMethod };
+  return { authResult, authOk, authMethod, deviceTokenRestrictions };
 }
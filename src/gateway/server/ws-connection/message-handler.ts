@@ -9,6 +9,7 @@ import {
 } from "../../../infra/device-identity.js";
 import {
   approveDevicePairing,
+  type DeviceTokenRestrictions,
   ensureDeviceToken,
   getPairedDevice,
   requestDevicePairing,
@@ -682,24 +683,26 @@ export function attachGatewayWsMessageHandler(params: {
           }
         }
 
-        ({ authResult, authOk, authMethod } = await resolveConnectAuthDecision({
-          state: {
-            authResult,
-            authOk,
-            authMethod,
-            sharedAuthOk,
-            sharedAuthProvided: hasSharedAuth,
-            deviceTokenCandidate,
-            deviceTokenCandidateSource,
-          },
-          hasDeviceIdentity: Boolean(device),
-          deviceId: device?.id,
-          role,
-          scopes,
-          rateLimiter: authRateLimiter,
-          clientIp: browserRateLimitClientIp,
-          verifyDeviceToken,
-        }));
+        let deviceTokenRestrictions: DeviceTokenRestrictions | undefined;
+        ({ authResult, authOk, authMethod, deviceTokenRestrictions } =
+          await resolveConnectAuthDecision({
+            state: {
+              authResult,
+              authOk,
+              authMethod,
+              sharedAuthOk,
+              sharedAuthProvided: hasSharedAuth,
+              deviceTokenCandidate,
+              deviceTokenCandidateSource,
+            },
+            hasDeviceIdentity: Boolean(device),
+            deviceId: device?.id,
+            role,
+            scopes,
+            rateLimiter: authRateLimiter,
+            clientIp: browserRateLimitClientIp,
+            verifyDeviceToken,
+          }));
         if (!authOk) {
           rejectUnauthorized(authResult);
           return;
@@ -1019,6 +1022,7 @@ export function attachGatewayWsMessageHandler(params: {
           canvasHostUrl,
           canvasCapability,
           canvasCapabilityExpiresAtMs,
+          tokenRestrictions: deviceTokenRestrictions,
         };
         setClient(nextClient);
         setHandshakeState("connected");
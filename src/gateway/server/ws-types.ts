@@ -1,4 +1,5 @@
 import type { WebSocket } from "ws";
+import type { DeviceTokenRestrictions } from "../../infra/device-pairing.js";
 import type { ConnectParams } from "../protocol/index.js";
 
 export type GatewayWsClient = {
@@ -10,4 +11,5 @@ export type GatewayWsClient = {
   canvasHostUrl?: string;
   canvasCapability?: string;
   canvasCapabilityExpiresAtMs?: number;
+  tokenRestrictions?: DeviceTokenRestrictions;
 };
@@ -61,10 +61,13 @@ export type {
   GatewayAgentRow,
   GatewaySessionRow,
   GatewaySessionsDefaults,
+  SessionsBranchesResult,
+  SessionsBranchResult,
   SessionsListResult,
   SessionsPatchResult,
   SessionsPreviewEntry,
   SessionsPreviewResult,
+  SessionsSearchResult,
 } from "./session-utils.types.js";
 
 const DERIVED_TITLE_MAX_LEN = 60;
@@ -832,6 +835,7 @@ export function listSessionsFromStore(params: {
         origin,
         updatedAt,
         sessionId: entry?.sessionId,
+        branches: entry?.branches,
         systemSent: entry?.systemSent,
         abortedLastRun: entry?.abortedLastRun,
         thinkingLevel: entry?.thinkingLevel,
@@ -1,5 +1,6 @@
 import type { ChatType } from "../channels/chat-type.js";
-import type { SessionEntry } from "../config/sessions.js";
+import type { SessionBranch, SessionEntry } from "../config/sessions.js";
+import type { TranscriptSearchHit } from "../sessions/transcript-search.js";
 import type { DeliveryContext } from "../utils/delivery-context.js";
 
 export type GatewaySessionsDefaults = {
@@ -23,6 +24,7 @@ export type GatewaySessionRow = {
   origin?: SessionEntry["origin"];
   updatedAt: number | null;
   sessionId?: string;
+  branches?: SessionBranch[];
   systemSent?: boolean;
   abortedLastRun?: boolean;
   thinkingLevel?: string;
@@ -72,6 +74,27 @@ export type SessionsPreviewResult = {
   previews: SessionsPreviewEntry[];
 };
 
+export type SessionsSearchResult = {
+  ts: number;
+  query: string;
+  count: number;
+  hits: TranscriptSearchHit[];
+};
+
+export type SessionsBranchesResult = {
+  ts: number;
+  key: string;
+  activeSessionId: string;
+  branches: SessionBranch[];
+};
+
+export type SessionsBranchResult = {
+  ok: true;
+  key: string;
+  entry: SessionEntry;
+  branch: SessionBranch;
+};
+
 export type SessionsListResult = {
   ts: number;
   path: string;
@@ -145,6 +145,8 @@ const createStubPluginRegistry = (): PluginRegistry => ({
     },
   ],
   providers: [],
+  webSearchProviders: [],
+  webFetchProviders: [],
   gatewayHandlers: {},
   httpHandlers: [],
   httpRoutes: [],
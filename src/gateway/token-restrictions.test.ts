@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  authorizeTokenRestrictions,
+  isSessionKeyVisibleToTokenRestrictions,
+  resolveTokenRestrictionTargets,
+} from "./token-restrictions.js";
+
+const cfg = {
+  agents: { list: [{ id: "main", default: true }, { id: "team-a" }, { id: "team-b" }] },
+} as OpenClawConfig;
+
+function check(
+  restrictions: Parameters<typeof authorizeTokenRestrictions>[0]["restrictions"],
+  method: string,
+  params: unknown,
+) {
+  return authorizeTokenRestrictions({
+    restrictions,
+    method,
+    targets: resolveTokenRestrictionTargets(cfg, params),
+  });
+}
+
+describe("token restrictions", () => {
+  it("resolves agents from session keys and agent ids", () => {
+    expect(
+      resolveTokenRestrictionTargets(cfg, {
+        sessionKey: "agent:team-a:main",
+        keys: ["main"],
+        agentId: "Team-B",
+      }),
+    ).toEqual({
+      agentIds: ["team-a", "main", "team-b"],
+      sessionKeys: ["agent:team-a:main", "agent:main:main"],
+      fallback: { agentId: "team-b", sessionKey: "agent:team-b:main" },
+    });
+    expect(resolveTokenRestrictionTargets(cfg, {}).fallback).toEqual({
+      agentId: "main",
+      sessionKey: "agent:main:main",
+    });
+  });
+
+  it("matches method allowlists by exact name or prefix", () => {
+    const restrictions = { methods: ["chat.*", "agent"] };
+    expect(check(restrictions, "chat.send", {})).toBeNull();
+    expect(check(restrictions, "agent", {})).toBeNull();
+    expect(check(restrictions, "agents.list", {})).toBe("token not allowed to call agents.list");
+  });
+
+  it("limits agents and requires a target", () => {
+    const restrictions = { agents: ["team-a"] };
+    expect(check(restrictions, "chat.send", { sessionKey: "agent:team-a:main" })).toBeNull();
+    expect(check(restrictions, "chat.send", { sessionKey: "main" })).toBe(
+      "token not allowed to access agent main",
+    );
+    expect(check(restrictions, "sessions.reset", {})).toMatch(/must name one/);
+  });
+
+  it("checks the default target of exactly listed methods", () => {
+    const restrictions = { agents: ["team-a"], methods: ["agent", "status"] };
+    expect(check(restrictions, "agent", { message: "hi" })).toBe(
+      "token not allowed to access agent main",
+    );
+    expect(check(restrictions, "status", {})).toBe("token not allowed to access agent main");
+    expect(check(restrictions, "agent", { agentId: "team-a", message: "hi" })).toBeNull();
+    expect(
+      check({ sessionKeyPrefix: "agent:team-a:support:", methods: ["agent"] }, "agent", {
+        agentId: "team-a",
+      }),
+    ).toBe("token not allowed to access session agent:team-a:main");
+  });
+
+  it("leaves session listings to their handlers", () => {
+    const restrictions = { agents: ["team-a"], methods: ["sessions.*"] };
+    expect(check(restrictions, "sessions.list", {})).toBeNull();
+    expect(check(restrictions, "sessions.search", { query: "vpn" })).toBeNull();
+    expect(check(restrictions, "sessions.search", { query: "vpn", agentId: "team-b" })).toBe(
+      "token not allowed to access agent team-b",
+    );
+  });
+
+  it("limits session keys by prefix", () => {
+    const restrictions = { sessionKeyPrefix: "agent:team-a:support:" };
+    expect(
+      check(restrictions, "sessions.reset", { key: "agent:team-a:support:ticket-1" }),
+    ).toBeNull();
+    expect(check(restrictions, "sessions.reset", { key: "agent:team-a:main" })).toBe(
+      "token not allowed to access session agent:team-a:main",
+    );
+    expect(check(restrictions, "sessions.preview", { agentId: "team-a" })).toMatch(/must name one/);
+  });
+
+  it("never allows credential management", () => {
+    expect(check({ methods: ["device.*"] }, "device.token.rotate", {})).toBe(
+      "token not allowed to call device.token.rotate",
+    );
+  });
+
+  it("filters session-bound events", () => {
+    const restrictions = { agents: ["team-a"] };
+    expect(isSessionKeyVisibleToTokenRestrictions(restrictions, "agent:team-a:main")).toBe(true);
+    expect(isSessionKeyVisibleToTokenRestrictions(restrictions, "agent:team-b:main")).toBe(false);
+    expect(isSessionKeyVisibleToTokenRestrictions(restrictions, "global")).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+import { resolveDefaultAgentId } from "../agents/agent-scope.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveAgentMainSessionKey, resolveMainSessionKey } from "../config/sessions.js";
+import type { DeviceTokenRestrictions } from "../infra/device-pairing.js";
+import { normalizeAgentId, parseAgentSessionKey } from "../routing/session-key.js";
+import { resolveSessionStoreKey } from "./session-utils.js";
+
+// A restricted token must not be able to mint or approve credentials that are
+// not restricted, whatever its method allowlist says.
+const CREDENTIAL_METHOD_PREFIXES = ["device.pair.", "device.token.", "node.pair."];
+
+// Methods that span sessions instead of acting on one. Their handlers limit
+// results to what a restricted token may see, so they need no target.
+const SESSION_LISTING_METHODS = new Set(["sessions.list", "sessions.search"]);
+
+export type TokenRestrictionTargets = {
+  agentIds: string[];
+  sessionKeys: string[];
+  /** Agent and session the call acts on when it names no session. */
+  fallback: { agentId: string; sessionKey: string };
+};
+
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+export function isMethodAllowedByTokenRestrictions(
+  restrictions: DeviceTokenRestrictions,
+  method: string,
+): boolean {
+  if (!restrictions.methods) {
+    return true;
+  }
+  return restrictions.methods.some((pattern) =>
+    pattern.endsWith(".*") ? method.startsWith(pattern.slice(0, -1)) : pattern === method,
+  );
+}
+
+/**
+ * Agents and sessions a gateway request names in its params. Session keys are
+ * canonicalized the same way the sessions store does, so `main` and bare keys
+ * resolve to the agent they would actually hit. The fallback is the main
+ * session of the named agent, or of the default agent when none is named.
+ */
+export function resolveTokenRestrictionTargets(
+  cfg: OpenClawConfig,
+  params: unknown,
+): TokenRestrictionTargets {
+  const record =
+    params && typeof params === "object" && !Array.isArray(params)
+      ? (params as Record<string, unknown>)
+      : {};
+  const rawKeys = [readString(record.sessionKey), readString(record.key)];
+  if (Array.isArray(record.keys)) {
+    rawKeys.push(...record.keys.map(readString));
+  }
+  const sessionKeys = rawKeys
+    .filter((key): key is string => Boolean(key))
+    .map((sessionKey) => resolveSessionStoreKey({ cfg, sessionKey }));
+  const agentIds = sessionKeys.map(
+    (key) => parseAgentSessionKey(key)?.agentId ?? resolveDefaultAgentId(cfg),
+  );
+  const agentId = readString(record.agentId);
+  if (agentId) {
+    agentIds.push(agentId);
+  }
+  const fallbackSessionKey = agentId
+    ? resolveAgentMainSessionKey({ cfg, agentId: normalizeAgentId(agentId) })
+    : resolveMainSessionKey(cfg);
+  return {
+    agentIds: [...new Set(agentIds.map(normalizeAgentId))],
+    sessionKeys,
+    fallback: {
+      agentId: normalizeAgentId(
+        parseAgentSessionKey(fallbackSessionKey)?.agentId ?? resolveDefaultAgentId(cfg),
+      ),
+      sessionKey: fallbackSessionKey,
+    },
+  };
+}
+
+/**
+ * Check a call against a restricted token. Returns a denial message, or null
+ * when the call is allowed.
+ *
+ * While agent or session-key restrictions are set, calls must name what they
+ * touch. Methods listed by exact name may omit the session (or both); the
+ * agent and main session they fall back to are checked instead. Session
+ * listing methods need no target because their handlers filter the results.
+ */
+export function authorizeTokenRestrictions(params: {
+  restrictions: DeviceTokenRestrictions | undefined;
+  method: string;
+  targets: TokenRestrictionTargets;
+}): string | null {
+  const { restrictions, method, targets } = params;
+  if (!restrictions) {
+    return null;
+  }
+  if (
+    CREDENTIAL_METHOD_PREFIXES.some((prefix) => method.startsWith(prefix)) ||
+    !isMethodAllowedByTokenRestrictions(restrictions, method)
+  ) {
+    return `token not allowed to call ${method}`;
+  }
+  const { agents, sessionKeyPrefix } = restrictions;
+  if (!agents && !sessionKeyPrefix) {
+    return null;
+  }
+  const listing = SESSION_LISTING_METHODS.has(method);
+  const listedExactly = restrictions.methods?.includes(method) ?? false;
+  let { agentIds, sessionKeys } = targets;
+  if (sessionKeys.length === 0 && listedExactly && !listing) {
+    sessionKeys = [targets.fallback.sessionKey];
+    if (agentIds.length === 0) {
+      agentIds = [targets.fallback.agentId];
+    }
+  }
+  if (agentIds.length === 0 && sessionKeys.length === 0) {
+    return listing
+      ? null
+      : `token restricted to specific agents or sessions; ${method} must name one`;
+  }
+  const deniedAgent = agents && agentIds.find((agentId) => !agents.includes(agentId));
+  if (deniedAgent) {
+    return `token not allowed to access agent ${deniedAgent}`;
+  }
+  if (sessionKeyPrefix) {
+    if (sessionKeys.length === 0 && !listing) {
+      return `token restricted to sessions under ${sessionKeyPrefix}; ${method} must name one`;
+    }
+    const deniedKey = sessionKeys.find((key) => !key.startsWith(sessionKeyPrefix));
+    if (deniedKey) {
+      return `token not allowed to access session ${deniedKey}`;
+    }
+  }
+  return null;
+}
+
+/** Whether a restricted client may receive events about an (already canonical) session key. */
+export function isSessionKeyVisibleToTokenRestrictions(
+  restrictions: DeviceTokenRestrictions,
+  sessionKey: string,
+): boolean {
+  const key = sessionKey.trim().toLowerCase();
+  if (restrictions.sessionKeyPrefix && !key.startsWith(restrictions.sessionKeyPrefix)) {
+    return false;
+  }
+  if (restrictions.agents) {
+    const agentId = parseAgentSessionKey(key)?.agentId;
+    return Boolean(agentId) && restrictions.agents.includes(normalizeAgentId(agentId));
+  }
+  return true;
+}
@@ -546,4 +546,34 @@ describe("POST /tools/invoke", () => {
     expect(crashBody.error?.type).toBe("tool_error");
     expect(crashBody.error?.message).toBe("tool execution failed");
   });
+
+  it("enforces tools.argRules before executing the tool", async () => {
+    cfg = {
+      ...cfg,
+      tools: {
+        argRules: [{ tools: ["tools_invoke_test"], args: { mode: { allow: ["safe-*"] } } }],
+      },
+      agents: {
+        list: [{ id: "main", default: true, tools: { allow: ["tools_invoke_test"] } }],
+      },
+    };
+
+    // "crash" would throw inside the tool (500); the rule must stop it first.
+    const denied = await invokeToolAuthed({
+      tool: "tools_invoke_test",
+      args: { mode: "crash" },
+      sessionKey: "main",
+    });
+    expect(denied.status).toBe(403);
+    const deniedBody = await denied.json();
+    expect(deniedBody.ok).toBe(false);
+    expect(deniedBody.error?.message).toContain("tools.argRules[0]");
+
+    const allowed = await invokeToolAuthed({
+      tool: "tools_invoke_test",
+      args: { mode: "safe-run" },
+      sessionKey: "main",
+    });
+    expect(allowed.status).toBe(200);
+  });
 });
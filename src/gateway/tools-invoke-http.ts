@@ -1,5 +1,9 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
+import { resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import { getMcpToolMeta } from "../agents/mcp-tools.js";
 import { createOpenClawTools } from "../agents/openclaw-tools.js";
+import { wrapToolWithBeforeToolCallHook } from "../agents/pi-tools.before-tool-call.js";
+import { resolveBeforeToolCallHookContext } from "../agents/pi-tools.js";
 import {
   resolveEffectiveToolPolicy,
   resolveGroupToolPolicy,
@@ -14,7 +18,7 @@ import {
   mergeAlsoAllowPolicy,
   resolveToolProfilePolicy,
 } from "../agents/tool-policy.js";
-import { ToolInputError } from "../agents/tools/common.js";
+import { ToolInputError, type AnyAgentTool } from "../agents/tools/common.js";
 import { loadConfig } from "../config/config.js";
 import { resolveMainSessionKey } from "../config/sessions.js";
 import { logWarn } from "../logger.js";
@@ -24,18 +28,21 @@ import { isSubagentSessionKey } from "../routing/session-key.js";
 import { DEFAULT_GATEWAY_HTTP_TOOL_DENY } from "../security/dangerous-tools.js";
 import { normalizeMessageChannel } from "../utils/message-channel.js";
 import type { AuthRateLimiter } from "./auth-rate-limit.js";
-import { authorizeHttpGatewayConnect, type ResolvedGatewayAuth } from "./auth.js";
+import type { ResolvedGatewayAuth } from "./auth.js";
+import {
+  authorizeGatewayBearerRequestOrReply,
+  authorizeGatewayBearerTargetOrReply,
+} from "./http-auth-helpers.js";
 import {
   readJsonBodyOrError,
-  sendGatewayAuthFailure,
   sendInvalidRequest,
   sendJson,
   sendMethodNotAllowed,
 } from "./http-common.js";
-import { getBearerToken, getHeader } from "./http-utils.js";
+import { getHeader } from "./http-utils.js";
 
 const DEFAULT_BODY_BYTES = 2 * 1024 * 1024;
-const MEMORY_TOOL_NAMES = new Set(["memory_search", "memory_get"]);
+const MEMORY_TOOL_NAMES = new Set(["memory_search", "memory_get", "memory_entries"]);
 
 type ToolsInvokeBody = {
   tool?: unknown;
@@ -112,7 +119,7 @@ function getErrorMessage(err: unknown): string {
   return String(err);
 }
 
-function resolveToolInputErrorStatus(err: unknown): number | null {
+export function resolveToolInputErrorStatus(err: unknown): number | null {
   if (err instanceof ToolInputError) {
     const status = (err as { status?: unknown }).status;
     return typeof status === "number" ? status : 400;
@@ -131,91 +138,32 @@ function resolveToolInputErrorStatus(err: unknown): number | null {
   return name === "ToolAuthorizationError" ? 403 : 400;
 }
 
-export async function handleToolsInvokeHttpRequest(
-  req: IncomingMessage,
-  res: ServerResponse,
-  opts: {
-    auth: ResolvedGatewayAuth;
-    maxBodyBytes?: number;
-    trustedProxies?: string[];
-    allowRealIpFallback?: boolean;
-    rateLimiter?: AuthRateLimiter;
-  },
-): Promise<boolean> {
-  const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
-  if (url.pathname !== "/tools/invoke") {
-    return false;
-  }
-
-  if (req.method !== "POST") {
-    sendMethodNotAllowed(res, "POST");
-    return true;
-  }
-
-  const cfg = loadConfig();
-  const token = getBearerToken(req);
-  const authResult = await authorizeHttpGatewayConnect({
-    auth: opts.auth,
-    connectAuth: token ? { token, password: token } : null,
-    req,
-    trustedProxies: opts.trustedProxies ?? cfg.gateway?.trustedProxies,
-    allowRealIpFallback: opts.allowRealIpFallback ?? cfg.gateway?.allowRealIpFallback,
-    rateLimiter: opts.rateLimiter,
-  });
-  if (!authResult.ok) {
-    sendGatewayAuthFailure(res, authResult);
-    return true;
-  }
-
-  const bodyUnknown = await readJsonBodyOrError(req, res, opts.maxBodyBytes ?? DEFAULT_BODY_BYTES);
-  if (bodyUnknown === undefined) {
-    return true;
-  }
-  const body = (bodyUnknown ?? {}) as ToolsInvokeBody;
-
-  const toolName = typeof body.tool === "string" ? body.tool.trim() : "";
-  if (!toolName) {
-    sendInvalidRequest(res, "tools.invoke requires body.tool");
-    return true;
-  }
-
-  if (process.env.VITEST && MEMORY_TOOL_NAMES.has(toolName)) {
-    const reasons = resolveMemoryToolDisableReasons(cfg);
-    if (reasons.length > 0) {
-      const suffix = reasons.length > 0 ? ` (${reasons.join(", ")})` : "";
-      sendJson(res, 400, {
-        ok: false,
-        error: {
-          type: "invalid_request",
-          message:
-            `memory tools are disabled in tests${suffix}. ` +
-            'Enable by setting plugins.slots.memory="memory-core" (and ensure plugins.enabled is not false).',
-        },
-      });
-      return true;
-    }
-  }
-
-  const action = typeof body.action === "string" ? body.action.trim() : undefined;
-
-  const argsRaw = body.args;
-  const args =
-    argsRaw && typeof argsRaw === "object" && !Array.isArray(argsRaw)
-      ? (argsRaw as Record<string, unknown>)
-      : {};
-
-  const rawSessionKey = resolveSessionKeyFromBody(body);
-  const sessionKey =
-    !rawSessionKey || rawSessionKey === "main" ? resolveMainSessionKey(cfg) : rawSessionKey;
-
-  // Resolve message channel/account hints (optional headers) for policy inheritance.
+/** Optional request headers that scope channel/group policy inheritance. */
+export function resolveGatewayHttpToolHints(req: IncomingMessage) {
   const messageChannel = normalizeMessageChannel(
     getHeader(req, "x-openclaw-message-channel") ?? "",
   );
-  const accountId = getHeader(req, "x-openclaw-account-id")?.trim() || undefined;
-  const agentTo = getHeader(req, "x-openclaw-message-to")?.trim() || undefined;
-  const agentThreadId = getHeader(req, "x-openclaw-thread-id")?.trim() || undefined;
+  return {
+    messageChannel: messageChannel ?? undefined,
+    accountId: getHeader(req, "x-openclaw-account-id")?.trim() || undefined,
+    agentTo: getHeader(req, "x-openclaw-message-to")?.trim() || undefined,
+    agentThreadId: getHeader(req, "x-openclaw-thread-id")?.trim() || undefined,
+  };
+}
 
+/**
+ * Tools an HTTP caller may invoke for a session: core + plugin + MCP tools,
+ * filtered through the agent policy pipeline and the gateway HTTP deny list.
+ */
+export function resolveGatewayHttpTools(params: {
+  cfg: ReturnType<typeof loadConfig>;
+  sessionKey: string;
+  messageChannel?: string;
+  accountId?: string;
+  agentTo?: string;
+  agentThreadId?: string;
+}): AnyAgentTool[] {
+  const { cfg, sessionKey, messageChannel, accountId, agentTo, agentThreadId } = params;
   const {
     agentId,
     globalPolicy,
@@ -238,7 +186,7 @@ export async function handleToolsInvokeHttpRequest(
   const groupPolicy = resolveGroupToolPolicy({
     config: cfg,
     sessionKey,
-    messageProvider: messageChannel ?? undefined,
+    messageProvider: messageChannel,
     accountId: accountId ?? null,
   });
   const subagentPolicy = isSubagentSessionKey(sessionKey)
@@ -248,7 +196,7 @@ export async function handleToolsInvokeHttpRequest(
   // Build tool list (core + plugin tools).
   const allTools = createOpenClawTools({
     agentSessionKey: sessionKey,
-    agentChannel: messageChannel ?? undefined,
+    agentChannel: messageChannel,
     agentAccountId: accountId,
     agentTo,
     agentThreadId,
@@ -266,10 +214,8 @@ export async function handleToolsInvokeHttpRequest(
   });
 
   const subagentFiltered = applyToolPolicyPipeline({
-    // oxlint-disable-next-line typescript/no-explicit-any
-    tools: allTools as any,
-    // oxlint-disable-next-line typescript/no-explicit-any
-    toolMeta: (tool) => getPluginToolMeta(tool as any),
+    tools: allTools,
+    toolMeta: (tool) => getPluginToolMeta(tool) ?? getMcpToolMeta(tool),
     warn: logWarn,
     steps: [
       ...buildDefaultToolPolicyPipelineSteps({
@@ -297,7 +243,110 @@ export async function handleToolsInvokeHttpRequest(
     Array.isArray(gatewayToolsCfg?.deny) ? gatewayToolsCfg.deny : [],
   );
   const gatewayDenySet = new Set(gatewayDenyNames);
-  const gatewayFiltered = subagentFiltered.filter((t) => !gatewayDenySet.has(t.name));
+  // Same before-tool-call gate as agent runs: argument rules, approvals, loop detection.
+  const hookContext = resolveBeforeToolCallHookContext({
+    cfg,
+    agentId,
+    sessionKey,
+    workspaceDir: agentId ? resolveAgentWorkspaceDir(cfg, agentId) : undefined,
+    currentChannel: messageChannel,
+    currentTarget: agentTo,
+  });
+  return subagentFiltered
+    .filter((t) => !gatewayDenySet.has(t.name))
+    .map((tool) => wrapToolWithBeforeToolCallHook(tool, hookContext));
+}
+
+export async function handleToolsInvokeHttpRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  opts: {
+    auth: ResolvedGatewayAuth;
+    maxBodyBytes?: number;
+    trustedProxies?: string[];
+    allowRealIpFallback?: boolean;
+    rateLimiter?: AuthRateLimiter;
+  },
+): Promise<boolean> {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+  if (url.pathname !== "/tools/invoke") {
+    return false;
+  }
+
+  if (req.method !== "POST") {
+    sendMethodNotAllowed(res, "POST");
+    return true;
+  }
+
+  const cfg = loadConfig();
+  const bearerAuth = await authorizeGatewayBearerRequestOrReply({
+    req,
+    res,
+    auth: opts.auth,
+    method: "tools.invoke",
+    trustedProxies: opts.trustedProxies ?? cfg.gateway?.trustedProxies,
+    allowRealIpFallback: opts.allowRealIpFallback ?? cfg.gateway?.allowRealIpFallback,
+    rateLimiter: opts.rateLimiter,
+  });
+  if (!bearerAuth) {
+    return true;
+  }
+
+  const bodyUnknown = await readJsonBodyOrError(req, res, opts.maxBodyBytes ?? DEFAULT_BODY_BYTES);
+  if (bodyUnknown === undefined) {
+    return true;
+  }
+  const body = (bodyUnknown ?? {}) as ToolsInvokeBody;
+
+  const toolName = typeof body.tool === "string" ? body.tool.trim() : "";
+  if (!toolName) {
+    sendInvalidRequest(res, "tools.invoke requires body.tool");
+    return true;
+  }
+
+  if (process.env.VITEST && MEMORY_TOOL_NAMES.has(toolName)) {
+    const reasons = resolveMemoryToolDisableReasons(cfg);
+    if (reasons.length > 0) {
+      const suffix = reasons.length > 0 ? ` (${reasons.join(", ")})` : "";
+      sendJson(res, 400, {
+        ok: false,
+        error: {
+          type: "invalid_request",
+          message:
+            `memory tools are disabled in tests${suffix}. ` +
+            'Enable by setting plugins.slots.memory="memory-core" (and ensure plugins.enabled is not false).',
+        },
+      });
+      return true;
+    }
+  }
+
+  const action = typeof body.action === "string" ? body.action.trim() : undefined;
+
+  const argsRaw = body.args;
+  const args =
+    argsRaw && typeof argsRaw === "object" && !Array.isArray(argsRaw)
+      ? (argsRaw as Record<string, unknown>)
+      : {};
+
+  const rawSessionKey = resolveSessionKeyFromBody(body);
+  const sessionKey =
+    !rawSessionKey || rawSessionKey === "main" ? resolveMainSessionKey(cfg) : rawSessionKey;
+  if (
+    !authorizeGatewayBearerTargetOrReply({
+      res,
+      auth: bearerAuth,
+      method: "tools.invoke",
+      sessionKey,
+    })
+  ) {
+    return true;
+  }
+  const gatewayFiltered = resolveGatewayHttpTools({
+    cfg,
+    sessionKey,
+    ...resolveGatewayHttpToolHints(req),
+  });
 
   const tool = gatewayFiltered.find((t) => t.name === toolName);
   if (!tool) {
@@ -310,13 +359,11 @@ export async function handleToolsInvokeHttpRequest(
 
   try {
     const toolArgs = mergeActionIntoArgsIfSupported({
-      // oxlint-disable-next-line typescript/no-explicit-any
-      toolSchema: (tool as any).parameters,
+      toolSchema: tool.parameters,
       action,
       args,
     });
-    // oxlint-disable-next-line typescript/no-explicit-any
-    const result = await (tool as any).execute?.(`http-${Date.now()}`, toolArgs);
+    const result = await tool.execute(`http-${Date.now()}`, toolArgs);
     sendJson(res, 200, { ok: true, result });
   } catch (err) {
     const inputStatus = resolveToolInputErrorStatus(err);
@@ -1,15 +1,17 @@
 import { mkdtemp } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
-import { describe, expect, test } from "vitest";
+import { afterEach, describe, expect, test, vi } from "vitest";
 import {
   approveDevicePairing,
   clearDevicePairing,
   getPairedDevice,
   removePairedDevice,
   requestDevicePairing,
+  revokeDeviceToken,
   rotateDeviceToken,
   verifyDeviceToken,
+  verifyOperatorBearerDeviceToken,
 } from "./device-pairing.js";
 
 async function setupPairedOperatorDevice(baseDir: string, scopes: string[]) {
@@ -51,6 +53,10 @@ function requireToken(token: string | undefined): string {
   return token;
 }
 
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
 describe("device pairing tokens", () => {
   test("reuses existing pending requests for the same device", async () => {
     const baseDir = await mkdtemp(join(tmpdir(), "openclaw-device-pairing-"));
@@ -250,4 +256,80 @@ describe("device pairing tokens", () => {
     await expect(getPairedDevice("device-1", baseDir)).resolves.toBeNull();
     await expect(clearDevicePairing("device-1", baseDir)).resolves.toBe(false);
   });
+
+  test("keeps token restrictions across rotations until cleared", async () => {
+    const { baseDir } = await setupOperatorToken(["operator.write"]);
+
+    const restricted = await rotateDeviceToken({
+      deviceId: "device-1",
+      role: "operator",
+      restrictions: {
+        agents: [" Team-A ", "team-a"],
+        sessionKeyPrefix: "Agent:Team-A:",
+        methods: [],
+      },
+      baseDir,
+    });
+    expect(restricted?.restrictions).toEqual({
+      agents: ["team-a"],
+      sessionKeyPrefix: "agent:team-a:",
+      methods: [],
+    });
+    await expect(
+      verifyOperatorToken({
+        baseDir,
+        token: requireToken(restricted?.token),
+        scopes: ["operator.write"],
+      }),
+    ).resolves.toEqual({ ok: true, restrictions: restricted?.restrictions });
+
+    const rotated = await rotateDeviceToken({ deviceId: "device-1", role: "operator", baseDir });
+    expect(rotated?.restrictions).toEqual(restricted?.restrictions);
+
+    const cleared = await rotateDeviceToken({
+      deviceId: "device-1",
+      role: "operator",
+      restrictions: {},
+      baseDir,
+    });
+    expect(cleared?.restrictions).toBeUndefined();
+  });
+
+  test("resolves operator device tokens presented as bearer tokens", async () => {
+    const { baseDir, token } = await setupOperatorToken(["operator.write"]);
+
+    await expect(verifyOperatorBearerDeviceToken({ token, baseDir })).resolves.toEqual({
+      ok: true,
+      deviceId: "device-1",
+      scopes: ["operator.write"],
+    });
+    await expect(verifyOperatorBearerDeviceToken({ token: "nope", baseDir })).resolves.toEqual({
+      ok: false,
+    });
+
+    await revokeDeviceToken({ deviceId: "device-1", role: "operator", baseDir });
+    await expect(verifyOperatorBearerDeviceToken({ token, baseDir })).resolves.toEqual({
+      ok: false,
+    });
+  });
+
+  test("throttles last-used writes for bearer device tokens", async () => {
+    const { baseDir, token } = await setupOperatorToken(["operator.write"]);
+    const lastUsed = async () =>
+      (await getPairedDevice("device-1", baseDir))?.tokens?.operator?.lastUsedAtMs;
+    const start = Date.now() + 120_000;
+    const now = vi.spyOn(Date, "now");
+
+    now.mockReturnValue(start);
+    await verifyOperatorBearerDeviceToken({ token, baseDir });
+    expect(await lastUsed()).toBe(start);
+
+    now.mockReturnValue(start + 30_000);
+    await verifyOperatorBearerDeviceToken({ token, baseDir });
+    expect(await lastUsed()).toBe(start);
+
+    now.mockReturnValue(start + 60_000);
+    await verifyOperatorBearerDeviceToken({ token, baseDir });
+    expect(await lastUsed()).toBe(start + 60_000);
+  });
 });
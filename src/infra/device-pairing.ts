@@ -1,4 +1,5 @@
 import { randomUUID } from "node:crypto";
+import { normalizeAgentId } from "../routing/session-key.js";
 import { normalizeDeviceAuthScopes } from "../shared/device-auth.js";
 import { roleScopesAllow } from "../shared/operator-scope-compat.js";
 import {
@@ -29,10 +30,24 @@ export type DevicePairingPendingRequest = {
   ts: number;
 };
 
+/**
+ * Narrows what a device token may touch beyond its operator scopes. Every
+ * field is optional; a missing field does not restrict that dimension.
+ */
+export type DeviceTokenRestrictions = {
+  /** Agent ids the token may act on. */
+  agents?: string[];
+  /** Canonical session keys the token may act on must start with this prefix. */
+  sessionKeyPrefix?: string;
+  /** Gateway methods the token may call (exact names or `prefix.*`). */
+  methods?: string[];
+};
+
 export type DeviceAuthToken = {
   token: string;
   role: string;
   scopes: string[];
+  restrictions?: DeviceTokenRestrictions;
   createdAtMs: number;
   rotatedAtMs?: number;
   revokedAtMs?: number;
@@ -42,6 +57,7 @@ export type DeviceAuthToken = {
 export type DeviceAuthTokenSummary = {
   role: string;
   scopes: string[];
+  restrictions?: DeviceTokenRestrictions;
   createdAtMs: number;
   rotatedAtMs?: number;
   revokedAtMs?: number;
@@ -77,6 +93,9 @@ type DevicePairingStateFile = {
 };
 
 const PENDING_TTL_MS = 5 * 60 * 1000;
+// Bearer tokens authenticate every HTTP request; only refresh `lastUsedAtMs`
+// this often so busy clients do not rewrite the pairing file per request.
+const BEARER_LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
 
 const withLock = createAsyncLock();
 
@@ -219,6 +238,37 @@ function scopesAllowWithImplications(requested: string[], allowed: string[]): bo
   return scopesAllow(expandScopeImplications(requested), expandScopeImplications(allowed));
 }
 
+function normalizeStringList(values: string[] | undefined, normalize: (value: string) => string) {
+  if (!Array.isArray(values)) {
+    return undefined;
+  }
+  const out = new Set<string>();
+  for (const value of values) {
+    const trimmed = typeof value === "string" ? value.trim() : "";
+    if (trimmed) {
+      out.add(normalize(trimmed));
+    }
+  }
+  return [...out].toSorted();
+}
+
+function normalizeDeviceTokenRestrictions(
+  restrictions: DeviceTokenRestrictions | undefined,
+): DeviceTokenRestrictions | undefined {
+  if (!restrictions) {
+    return undefined;
+  }
+  const agents = normalizeStringList(restrictions.agents, normalizeAgentId);
+  const methods = normalizeStringList(restrictions.methods, (value) => value);
+  const sessionKeyPrefix = restrictions.sessionKeyPrefix?.trim().toLowerCase();
+  const next: DeviceTokenRestrictions = {
+    ...(agents ? { agents } : {}),
+    ...(sessionKeyPrefix ? { sessionKeyPrefix } : {}),
+    ...(methods ? { methods } : {}),
+  };
+  return Object.keys(next).length > 0 ? next : undefined;
+}
+
 function newToken() {
   return generatePairingToken();
 }
@@ -237,6 +287,7 @@ function cloneDeviceTokens(device: PairedDevice): Record<string, DeviceAuthToken
 function buildDeviceAuthToken(params: {
   role: string;
   scopes: string[];
+  restrictions?: DeviceTokenRestrictions;
   existing?: DeviceAuthToken;
   now: number;
   rotatedAtMs?: number;
@@ -245,6 +296,7 @@ function buildDeviceAuthToken(params: {
     token: newToken(),
     role: params.role,
     scopes: params.scopes,
+    ...(params.restrictions ? { restrictions: params.restrictions } : {}),
     createdAtMs: params.existing?.createdAtMs ?? params.now,
     rotatedAtMs: params.rotatedAtMs,
     revokedAtMs: undefined,
@@ -458,6 +510,7 @@ export function summarizeDeviceTokens(
     .map((token) => ({
       role: token.role,
       scopes: token.scopes,
+      restrictions: token.restrictions,
       createdAtMs: token.createdAtMs,
       rotatedAtMs: token.rotatedAtMs,
       revokedAtMs: token.revokedAtMs,
@@ -473,7 +526,7 @@ export async function verifyDeviceToken(params: {
   role: string;
   scopes: string[];
   baseDir?: string;
-}): Promise<{ ok: boolean; reason?: string }> {
+}): Promise<{ ok: boolean; reason?: string; restrictions?: DeviceTokenRestrictions }> {
   return await withLock(async () => {
     const state = await loadState(params.baseDir);
     const device = getPairedDeviceFromState(state, params.deviceId);
@@ -503,7 +556,46 @@ export async function verifyDeviceToken(params: {
     device.tokens[role] = entry;
     state.pairedByDeviceId[device.deviceId] = device;
     await persistState(state, params.baseDir);
-    return { ok: true };
+    return { ok: true, restrictions: entry.restrictions };
+  });
+}
+
+/**
+ * Resolve a bare operator device token (as sent in an HTTP `Authorization`
+ * header) to its device. Every paired device is checked so timing does not
+ * reveal which one matched.
+ */
+export async function verifyOperatorBearerDeviceToken(params: {
+  token: string;
+  baseDir?: string;
+}): Promise<
+  | { ok: true; deviceId: string; scopes: string[]; restrictions?: DeviceTokenRestrictions }
+  | { ok: false }
+> {
+  return await withLock(async () => {
+    const state = await loadState(params.baseDir);
+    let match: { device: PairedDevice; entry: DeviceAuthToken } | null = null;
+    for (const device of Object.values(state.pairedByDeviceId)) {
+      const entry = device.tokens?.operator;
+      if (entry && verifyPairingToken(params.token, entry.token) && !entry.revokedAtMs) {
+        match ??= { device, entry };
+      }
+    }
+    if (!match) {
+      return { ok: false };
+    }
+    const { device, entry } = match;
+    const now = Date.now();
+    if (!entry.lastUsedAtMs || now - entry.lastUsedAtMs >= BEARER_LAST_USED_WRITE_INTERVAL_MS) {
+      entry.lastUsedAtMs = now;
+      await persistState(state, params.baseDir);
+    }
+    return {
+      ok: true,
+      deviceId: device.deviceId,
+      scopes: entry.scopes,
+      restrictions: entry.restrictions,
+    };
   });
 }
 
@@ -534,6 +626,8 @@ export async function ensureDeviceToken(params: {
     const next = buildDeviceAuthToken({
       role,
       scopes: requestedScopes,
+      // Re-issuing after a revoke or scope change must not widen a restricted token.
+      restrictions: existing?.restrictions,
       existing,
       now,
       rotatedAtMs: existing ? now : undefined,
@@ -569,10 +663,15 @@ function resolveDeviceTokenUpdateContext(params: {
   return { device, role, tokens, existing };
 }
 
+/**
+ * Issue a fresh token for a device role. Omitting `restrictions` keeps the
+ * previous token's restrictions; an empty object clears them.
+ */
 export async function rotateDeviceToken(params: {
   deviceId: string;
   role: string;
   scopes?: string[];
+  restrictions?: DeviceTokenRestrictions;
   baseDir?: string;
 }): Promise<DeviceAuthToken | null> {
   return await withLock(async () => {
@@ -599,6 +698,9 @@ export async function rotateDeviceToken(params: {
     const next = buildDeviceAuthToken({
       role,
       scopes: requestedScopes,
+      restrictions: params.restrictions
+        ? normalizeDeviceTokenRestrictions(params.restrictions)
+        : existing?.restrictions,
       existing,
       now,
       rotatedAtMs: now,
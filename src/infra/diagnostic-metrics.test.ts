@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { emitDiagnosticEvent, resetDiagnosticEventsForTest } from "./diagnostic-events.js";
+import {
+  renderDiagnosticMetrics,
+  resetDiagnosticMetricsForTest,
+  startDiagnosticMetrics,
+} from "./diagnostic-metrics.js";
+
+afterEach(() => {
+  resetDiagnosticMetricsForTest();
+  resetDiagnosticEventsForTest();
+});
+
+describe("diagnostic metrics", () => {
+  it("aggregates model usage with channel, agent and model labels", () => {
+    startDiagnosticMetrics();
+    for (let i = 0; i < 2; i += 1) {
+      emitDiagnosticEvent({
+        type: "model.usage",
+        sessionKey: "agent:ops:telegram:direct:1",
+        channel: "telegram",
+        provider: "openai",
+        model: "gpt-5",
+        usage: { input: 100, output: 20 },
+        costUsd: 0.25,
+        durationMs: 1500,
+      });
+    }
+
+    const text = renderDiagnosticMetrics();
+    const labels = 'channel="telegram",agent="ops",provider="openai",model="gpt-5"';
+    expect(text).toContain("# TYPE openclaw_tokens_total counter");
+    expect(text).toContain(`openclaw_tokens_total{${labels},token="input"} 200`);
+    expect(text).toContain(`openclaw_tokens_total{${labels},token="output"} 40`);
+    expect(text).not.toContain('token="cache_read"');
+    expect(text).toContain(`openclaw_cost_usd_total{${labels}} 0.5`);
+    expect(text).toContain(`openclaw_run_duration_seconds_bucket{${labels},le="1"} 0`);
+    expect(text).toContain(`openclaw_run_duration_seconds_bucket{${labels},le="2.5"} 2`);
+    expect(text).toContain(`openclaw_run_duration_seconds_bucket{${labels},le="+Inf"} 2`);
+    expect(text).toContain(`openclaw_run_duration_seconds_sum{${labels}} 3`);
+    expect(text).toContain(`openclaw_run_duration_seconds_count{${labels}} 2`);
+  });
+
+  it("tracks queues, stuck sessions and tool loops", () => {
+    startDiagnosticMetrics();
+    emitDiagnosticEvent({ type: "queue.lane.enqueue", lane: "main", queueSize: 3 });
+    emitDiagnosticEvent({ type: "queue.lane.dequeue", lane: "main", queueSize: 2, waitMs: 40 });
+    emitDiagnosticEvent({
+      type: "session.stuck",
+      sessionKey: "agent:main:main",
+      state: "processing",
+      ageMs: 200_000,
+    });
+    emitDiagnosticEvent({
+      type: "tool.loop",
+      sessionKey: "agent:main:main",
+      toolName: "exec",
+      level: "critical",
+      action: "block",
+      detector: "generic_repeat",
+      count: 30,
+      message: "loop",
+    });
+
+    const text = renderDiagnosticMetrics();
+    expect(text).toContain('openclaw_queue_lane_size{lane="main"} 2');
+    expect(text).toContain('openclaw_queue_wait_seconds_count{lane="main"} 1');
+    expect(text).toContain('openclaw_sessions_stuck_total{agent="main",state="processing"} 1');
+    expect(text).toContain(
+      'openclaw_tool_loops_total{agent="main",tool="exec",level="critical",action="block",detector="generic_repeat"} 1',
+    );
+  });
+
+  it("escapes label values and stops collecting once every subscriber stops", () => {
+    const stopA = startDiagnosticMetrics();
+    const stopB = startDiagnosticMetrics();
+    emitDiagnosticEvent({ type: "webhook.error", channel: 'we"ird\nchannel', error: "boom" });
+    stopA();
+    emitDiagnosticEvent({ type: "webhook.error", channel: "slack", error: "boom" });
+    stopB();
+    emitDiagnosticEvent({ type: "webhook.error", channel: "discord", error: "boom" });
+
+    const text = renderDiagnosticMetrics();
+    expect(text).toContain('openclaw_webhook_errors_total{channel="we\\"ird\\nchannel"');
+    expect(text).toContain('openclaw_webhook_errors_total{channel="slack",webhook="unknown"} 1');
+    expect(text).not.toContain('channel="discord"');
+    expect(text).toContain("process_resident_memory_bytes ");
+  });
+});
@@ -0,0 +1,324 @@
+import { resolveAgentIdFromSessionKey } from "../routing/session-key.js";
+import { type DiagnosticEventPayload, onDiagnosticEvent } from "./diagnostic-events.js";
+
+type Labels = Record<string, string>;
+
+type ScalarFamily = {
+  type: "counter" | "gauge";
+  help: string;
+  series: Map<string, { labels: Labels; value: number }>;
+};
+
+type HistogramFamily = {
+  type: "histogram";
+  help: string;
+  buckets: readonly number[];
+  series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>;
+};
+
+type MetricFamily = ScalarFamily | HistogramFamily;
+
+const DURATION_BUCKETS_SECONDS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300] as const;
+
+const families = new Map<string, MetricFamily>();
+let unsubscribe: (() => void) | null = null;
+let subscribers = 0;
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).toSorted(([a], [b]) => a.localeCompare(b)));
+}
+
+function scalarFamily(name: string, type: ScalarFamily["type"], help: string): ScalarFamily {
+  const existing = families.get(name);
+  if (existing?.type === type) {
+    return existing;
+  }
+  const created: ScalarFamily = { type, help, series: new Map() };
+  families.set(name, created);
+  return created;
+}
+
+function histogramFamily(name: string, help: string): HistogramFamily {
+  const existing = families.get(name);
+  if (existing?.type === "histogram") {
+    return existing;
+  }
+  const created: HistogramFamily = {
+    type: "histogram",
+    help,
+    buckets: DURATION_BUCKETS_SECONDS,
+    series: new Map(),
+  };
+  families.set(name, created);
+  return created;
+}
+
+function inc(name: string, help: string, labels: Labels, value = 1) {
+  if (!Number.isFinite(value) || value <= 0) {
+    return;
+  }
+  const metric = scalarFamily(name, "counter", help);
+  const key = seriesKey(labels);
+  const entry = metric.series.get(key) ?? { labels, value: 0 };
+  entry.value += value;
+  metric.series.set(key, entry);
+}
+
+function set(name: string, help: string, labels: Labels, value: number) {
+  if (!Number.isFinite(value)) {
+    return;
+  }
+  scalarFamily(name, "gauge", help).series.set(seriesKey(labels), { labels, value });
+}
+
+function observe(name: string, help: string, labels: Labels, value: number) {
+  if (!Number.isFinite(value) || value < 0) {
+    return;
+  }
+  const metric = histogramFamily(name, help);
+  const key = seriesKey(labels);
+  const entry = metric.series.get(key) ?? {
+    labels,
+    counts: metric.buckets.map(() => 0),
+    sum: 0,
+    count: 0,
+  };
+  metric.buckets.forEach((bound, index) => {
+    if (value <= bound) {
+      entry.counts[index] += 1;
+    }
+  });
+  entry.sum += value;
+  entry.count += 1;
+  metric.series.set(key, entry);
+}
+
+function agentLabel(sessionKey: string | undefined): string {
+  return sessionKey ? resolveAgentIdFromSessionKey(sessionKey) : "unknown";
+}
+
+function recordDiagnosticEvent(evt: DiagnosticEventPayload) {
+  switch (evt.type) {
+    case "model.usage": {
+      const labels = {
+        channel: evt.channel ?? "unknown",
+        agent: agentLabel(evt.sessionKey),
+        provider: evt.provider ?? "unknown",
+        model: evt.model ?? "unknown",
+      };
+      const help = "Model tokens used, by token kind.";
+      inc("openclaw_tokens_total", help, { ...labels, token: "input" }, evt.usage.input ?? 0);
+      inc("openclaw_tokens_total", help, { ...labels, token: "output" }, evt.usage.output ?? 0);
+      inc(
+        "openclaw_tokens_total",
+        help,
+        { ...labels, token: "cache_read" },
+        evt.usage.cacheRead ?? 0,
+      );
+      inc(
+        "openclaw_tokens_total",
+        help,
+        { ...labels, token: "cache_write" },
+        evt.usage.cacheWrite ?? 0,
+      );
+      inc("openclaw_model_calls_total", "Model runs that reported usage.", labels);
+      inc("openclaw_cost_usd_total", "Estimated model cost in USD.", labels, evt.costUsd ?? 0);
+      if (typeof evt.durationMs === "number") {
+        observe(
+          "openclaw_run_duration_seconds",
+          "Agent run duration.",
+          labels,
+          evt.durationMs / 1000,
+        );
+      }
+      return;
+    }
+    case "webhook.received":
+      inc("openclaw_webhook_received_total", "Channel webhooks received.", {
+        channel: evt.channel,
+        webhook: evt.updateType ?? "unknown",
+      });
+      return;
+    case "webhook.processed":
+      if (typeof evt.durationMs === "number") {
+        observe(
+          "openclaw_webhook_duration_seconds",
+          "Channel webhook processing time.",
+          { channel: evt.channel, webhook: evt.updateType ?? "unknown" },
+          evt.durationMs / 1000,
+        );
+      }
+      return;
+    case "webhook.error":
+      inc("openclaw_webhook_errors_total", "Channel webhooks that failed.", {
+        channel: evt.channel,
+        webhook: evt.updateType ?? "unknown",
+      });
+      return;
+    case "message.queued":
+      inc("openclaw_messages_queued_total", "Inbound messages queued for an agent.", {
+        channel: evt.channel ?? "unknown",
+        agent: agentLabel(evt.sessionKey),
+        source: evt.source,
+      });
+      return;
+    case "message.processed": {
+      const labels = {
+        channel: evt.channel,
+        agent: agentLabel(evt.sessionKey),
+        outcome: evt.outcome,
+      };
+      inc("openclaw_messages_processed_total", "Inbound messages processed.", labels);
+      if (typeof evt.durationMs === "number") {
+        observe(
+          "openclaw_message_duration_seconds",
+          "Inbound message processing time.",
+          labels,
+          evt.durationMs / 1000,
+        );
+      }
+      return;
+    }
+    case "queue.lane.enqueue":
+      inc("openclaw_queue_lane_enqueued_total", "Tasks enqueued per command lane.", {
+        lane: evt.lane,
+      });
+      set(
+        "openclaw_queue_lane_size",
+        "Current command lane queue size.",
+        { lane: evt.lane },
+        evt.queueSize,
+      );
+      return;
+    case "queue.lane.dequeue":
+      inc("openclaw_queue_lane_dequeued_total", "Tasks dequeued per command lane.", {
+        lane: evt.lane,
+      });
+      set(
+        "openclaw_queue_lane_size",
+        "Current command lane queue size.",
+        { lane: evt.lane },
+        evt.queueSize,
+      );
+      observe(
+        "openclaw_queue_wait_seconds",
+        "Time tasks waited in a command lane.",
+        { lane: evt.lane },
+        evt.waitMs / 1000,
+      );
+      return;
+    case "session.state":
+      inc("openclaw_session_state_transitions_total", "Session state transitions.", {
+        agent: agentLabel(evt.sessionKey),
+        state: evt.state,
+      });
+      return;
+    case "session.stuck":
+      inc("openclaw_sessions_stuck_total", "Sessions reported stuck.", {
+        agent: agentLabel(evt.sessionKey),
+        state: evt.state,
+      });
+      return;
+    case "run.attempt":
+      inc("openclaw_run_attempts_total", "Agent run attempts (retries count again).", {
+        agent: agentLabel(evt.sessionKey),
+      });
+      return;
+    case "tool.loop":
+      inc("openclaw_tool_loops_total", "Tool loop detections.", {
+        agent: agentLabel(evt.sessionKey),
+        tool: evt.toolName,
+        level: evt.level,
+        action: evt.action,
+        detector: evt.detector,
+      });
+      return;
+    case "diagnostic.heartbeat": {
+      const help = "Sessions by processing state at the last diagnostic heartbeat.";
+      set("openclaw_sessions", help, { state: "active" }, evt.active);
+      set("openclaw_sessions", help, { state: "waiting" }, evt.waiting);
+      set("openclaw_sessions", help, { state: "queued" }, evt.queued);
+      return;
+    }
+  }
+}
+
+/**
+ * Aggregate diagnostic events into Prometheus metrics until the returned
+ * function is called. Nested starts share one subscription.
+ */
+export function startDiagnosticMetrics(): () => void {
+  subscribers += 1;
+  unsubscribe ??= onDiagnosticEvent(recordDiagnosticEvent);
+  let stopped = false;
+  return () => {
+    if (stopped) {
+      return;
+    }
+    stopped = true;
+    subscribers -= 1;
+    if (subscribers === 0) {
+      unsubscribe?.();
+      unsubscribe = null;
+    }
+  };
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels, extra?: Labels): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(12)));
+}
+
+/** Render everything collected so far in the Prometheus text exposition format. */
+export function renderDiagnosticMetrics(): string {
+  const lines: string[] = [];
+  const memory = process.memoryUsage();
+  lines.push(
+    "# HELP process_resident_memory_bytes Resident memory size in bytes.",
+    "# TYPE process_resident_memory_bytes gauge",
+    `process_resident_memory_bytes ${memory.rss}`,
+    "# HELP process_start_time_seconds Start time of the process since unix epoch in seconds.",
+    "# TYPE process_start_time_seconds gauge",
+    `process_start_time_seconds ${Math.floor(Date.now() / 1000 - process.uptime())}`,
+  );
+  for (const [name, metric] of [...families].toSorted(([a], [b]) => a.localeCompare(b))) {
+    lines.push(`# HELP ${name} ${metric.help}`, `# TYPE ${name} ${metric.type}`);
+    if (metric.type !== "histogram") {
+      for (const entry of metric.series.values()) {
+        lines.push(`${name}${formatLabels(entry.labels)} ${formatValue(entry.value)}`);
+      }
+      continue;
+    }
+    for (const entry of metric.series.values()) {
+      metric.buckets.forEach((bound, index) => {
+        lines.push(
+          `${name}_bucket${formatLabels(entry.labels, { le: String(bound) })} ${entry.counts[index]}`,
+        );
+      });
+      lines.push(
+        `${name}_bucket${formatLabels(entry.labels, { le: "+Inf" })} ${entry.count}`,
+        `${name}_sum${formatLabels(entry.labels)} ${formatValue(entry.sum)}`,
+        `${name}_count${formatLabels(entry.labels)} ${entry.count}`,
+      );
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+export function resetDiagnosticMetricsForTest(): void {
+  families.clear();
+  unsubscribe?.();
+  unsubscribe = null;
+  subscribers = 0;
+}
@@ -158,6 +158,27 @@ describe("exec approval forwarder", () => {
     expect(getFirstDeliveryText(deliver)).toContain("Command:\n```\necho `uname`\necho done\n```");
   });
 
+  it("labels tool approvals with the tool and call summary", async () => {
+    vi.useFakeTimers();
+    const { deliver, forwarder } = createForwarder({ cfg: TARGETS_CFG });
+
+    await expect(
+      forwarder.handleRequested({
+        ...baseRequest,
+        request: {
+          ...baseRequest.request,
+          command: 'message send {"to":"+15550001"}',
+          tool: { name: "message", action: "send" },
+        },
+      }),
+    ).resolves.toBe(true);
+
+    const text = getFirstDeliveryText(deliver);
+    expect(text).toContain("🔒 Tool approval required");
+    expect(text).toContain("Tool: message (send)");
+    expect(text).toContain('Call: `message send {"to":"+15550001"}`');
+  });
+
   it("returns false when forwarding is disabled", async () => {
     const { deliver, forwarder } = createForwarder({
       cfg: {} as OpenClawConfig,
@@ -160,13 +160,25 @@ function formatApprovalCommand(command: string): { inline: boolean; text: string
   return { inline: false, text: `${fence}\n${command}\n${fence}` };
 }
 
+function approvalKindLabel(request?: ExecApprovalRequest["request"]): string {
+  return request?.tool ? "Tool approval" : "Exec approval";
+}
+
 function buildRequestMessage(request: ExecApprovalRequest, nowMs: number) {
-  const lines: string[] = ["🔒 Exec approval required", `ID: ${request.id}`];
+  const tool = request.request.tool;
+  const lines: string[] = [
+    `🔒 ${approvalKindLabel(request.request)} required`,
+    `ID: ${request.id}`,
+  ];
+  if (tool) {
+    lines.push(`Tool: ${tool.action ? `${tool.name} (${tool.action})` : tool.name}`);
+  }
+  const label = tool ? "Call" : "Command";
   const command = formatApprovalCommand(request.request.command);
   if (command.inline) {
-    lines.push(`Command: ${command.text}`);
+    lines.push(`${label}: ${command.text}`);
   } else {
-    lines.push("Command:");
+    lines.push(`${label}:`);
     lines.push(command.text);
   }
   if (request.request.cwd) {
@@ -207,13 +219,13 @@ function decisionLabel(decision: ExecApprovalDecision): string {
 }
 
 function buildResolvedMessage(resolved: ExecApprovalResolved) {
-  const base = `✅ Exec approval ${decisionLabel(resolved.decision)}.`;
+  const base = `✅ ${approvalKindLabel(resolved.request)} ${decisionLabel(resolved.decision)}.`;
   const by = resolved.resolvedBy ? ` Resolved by ${resolved.resolvedBy}.` : "";
   return `${base}${by} ID: ${resolved.id}`;
 }
 
 function buildExpiredMessage(request: ExecApprovalRequest) {
-  return `⏱️ Exec approval expired. ID: ${request.id}`;
+  return `⏱️ ${approvalKindLabel(request.request)} expired. ID: ${request.id}`;
 }
 
 function normalizeTurnSourceChannel(value?: string | null): DeliverableMessageChannel | undefined {
@@ -48,6 +48,13 @@ export type ExecApprovalRequestPayload = {
   turnSourceTo?: string | null;
   turnSourceAccountId?: string | null;
   turnSourceThreadId?: string | number | null;
+  // Set when the approval gates a non-exec tool call; `command` then holds a call summary.
+  tool?: ExecApprovalToolRef | null;
+};
+
+export type ExecApprovalToolRef = {
+  name: string;
+  action?: string;
 };
 
 export type ExecApprovalRequest = {
@@ -0,0 +1,128 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  ackInboundEntry,
+  journalInboundEntry,
+  loadPendingInboundEntries,
+  readInboundQueueStatus,
+  recoverInboundQueue,
+} from "./inbound-queue.js";
+
+let stateDir = "";
+const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+function followupPayload(prompt: string) {
+  return {
+    kind: "followup" as const,
+    queueKey: "agent:main:discord:channel:1",
+    settings: { mode: "followup" as const },
+    followup: {
+      prompt,
+      enqueuedAt: 1,
+      originatingChannel: "discord" as const,
+      originatingTo: "channel:1",
+      run: {
+        agentId: "main",
+        agentDir: "/tmp",
+        sessionId: "sess",
+        sessionFile: "/tmp/sess.jsonl",
+        workspaceDir: "/tmp",
+        provider: "openai",
+        model: "gpt-test",
+        timeoutMs: 1000,
+        blockReplyBreak: "text_end" as const,
+      },
+    },
+  };
+}
+
+function rewriteEntry(id: string, patch: Record<string, unknown>) {
+  const file = path.join(stateDir, "inbound-queue", `${id}.json`);
+  const entry = JSON.parse(fs.readFileSync(file, "utf-8"));
+  fs.writeFileSync(file, JSON.stringify({ ...entry, ...patch }));
+}
+
+beforeEach(() => {
+  stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-inbound-queue-"));
+  vi.clearAllMocks();
+});
+
+afterEach(() => {
+  fs.rmSync(stateDir, { recursive: true, force: true });
+});
+
+describe("inbound queue journal", () => {
+  it("journals, lists oldest first and acks entries", async () => {
+    const first = journalInboundEntry(followupPayload("one"), stateDir);
+    const second = journalInboundEntry({ kind: "cron", jobId: "job-1" }, stateDir);
+    rewriteEntry(first, { enqueuedAt: Date.now() + 10 });
+
+    expect((await loadPendingInboundEntries(stateDir)).map((entry) => entry.id)).toEqual([
+      second,
+      first,
+    ]);
+
+    ackInboundEntry(second, stateDir);
+    ackInboundEntry(second, stateDir);
+    expect((await loadPendingInboundEntries(stateDir)).map((entry) => entry.id)).toEqual([first]);
+  });
+
+  it("replays followups and cron runs and records the summary for status", async () => {
+    const kept = journalInboundEntry(followupPayload("keep"), stateDir);
+    journalInboundEntry(followupPayload("stopped"), stateDir);
+    const cronEntry = journalInboundEntry({ kind: "cron", jobId: "job-1" }, stateDir);
+    let finishCron!: () => void;
+    const runCronJob = vi.fn(() => new Promise<void>((resolve) => (finishCron = resolve)));
+
+    const summary = await recoverInboundQueue({
+      log,
+      stateDir,
+      replayFollowup: (entry) => entry.followup.prompt === "keep",
+      runCronJob,
+    });
+
+    expect(summary).toEqual({ recovered: 2, skipped: 1, failed: 0 });
+    expect(runCronJob).toHaveBeenCalledWith("job-1");
+    const pending = await loadPendingInboundEntries(stateDir);
+    // Replayed entries stay journaled until their run completes.
+    const byId = (a: [string, number], b: [string, number]) => a[0].localeCompare(b[0]);
+    const expected: Array<[string, number]> = [
+      [kept, 1],
+      [cronEntry, 1],
+    ];
+    expect(
+      pending.map((entry): [string, number] => [entry.id, entry.replayCount]).toSorted(byId),
+    ).toEqual(expected.toSorted(byId));
+    finishCron();
+    await vi.waitFor(async () =>
+      expect((await loadPendingInboundEntries(stateDir)).map((entry) => entry.id)).toEqual([kept]),
+    );
+
+    const status = await readInboundQueueStatus(stateDir);
+    expect(status).toMatchObject({ pending: 1, lastRecovery: { recovered: 2, skipped: 1 } });
+  });
+
+  it("gives up on entries that keep failing and skips stale ones", async () => {
+    const looping = journalInboundEntry(followupPayload("crashes"), stateDir);
+    const stale = journalInboundEntry(followupPayload("old"), stateDir);
+    rewriteEntry(looping, { replayCount: 3 });
+    rewriteEntry(stale, { enqueuedAt: Date.now() - 2 * 24 * 60 * 60_000 });
+    const replayFollowup = vi.fn(() => true);
+
+    const summary = await recoverInboundQueue({
+      log,
+      stateDir,
+      replayFollowup,
+      runCronJob: vi.fn(),
+    });
+
+    expect(summary).toEqual({ recovered: 0, skipped: 1, failed: 1 });
+    expect(replayFollowup).not.toHaveBeenCalled();
+    expect(await loadPendingInboundEntries(stateDir)).toEqual([]);
+    expect(fs.existsSync(path.join(stateDir, "inbound-queue", "failed", `${looping}.json`))).toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,241 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { FollowupRun, QueueSettings } from "../auto-reply/reply/queue.js";
+import { resolveStateDir } from "../config/paths.js";
+import { generateSecureUuid } from "./secure-random.js";
+
+const QUEUE_DIRNAME = "inbound-queue";
+const FAILED_DIRNAME = "failed";
+const LAST_RECOVERY_FILENAME = "last-recovery.json";
+
+/** Entries replayed this many times without completing are moved to failed/. */
+const MAX_REPLAYS = 3;
+/** Entries older than this are not replayed; the conversation has moved on. */
+const MAX_REPLAY_AGE_MS = 24 * 60 * 60_000;
+
+/**
+ * Followup run as written to disk. The config and skills snapshot are dropped
+ * (they can hold secrets and are large); replay fills them in from the config
+ * the gateway starts with.
+ */
+export type JournaledFollowupRun = Omit<FollowupRun, "journalId" | "run"> & {
+  run: Omit<FollowupRun["run"], "config" | "skillsSnapshot">;
+};
+
+type InboundQueuePayload =
+  | {
+      kind: "followup";
+      /** Followup queue key the run was waiting in. */
+      queueKey: string;
+      settings: QueueSettings;
+      followup: JournaledFollowupRun;
+    }
+  | {
+      kind: "cron";
+      jobId: string;
+    };
+
+export type InboundQueueEntry = InboundQueuePayload & {
+  id: string;
+  enqueuedAt: number;
+  replayCount: number;
+};
+
+export type InboundRecoverySummary = {
+  recovered: number;
+  /** Dropped on replay: expired, behind an abort cutoff, or already seen. */
+  skipped: number;
+  failed: number;
+};
+
+export type InboundQueueStatus = {
+  pending: number;
+  lastRecovery?: InboundRecoverySummary & { at: number };
+};
+
+function resolveQueueDir(stateDir?: string): string {
+  return path.join(stateDir ?? resolveStateDir(), QUEUE_DIRNAME);
+}
+
+function resolveEntryPath(id: string, stateDir?: string): string {
+  return path.join(resolveQueueDir(stateDir), `${id}.json`);
+}
+
+function isMissingFileError(err: unknown): boolean {
+  return Boolean(err && typeof err === "object" && "code" in err && err.code === "ENOENT");
+}
+
+function writeJsonAtomic(filePath: string, value: unknown) {
+  const tmp = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(value, null, 2), { encoding: "utf-8", mode: 0o600 });
+  fs.renameSync(tmp, filePath);
+}
+
+/**
+ * Persist an inbound turn before it waits in memory. Synchronous so callers
+ * on the enqueue path know the entry is on disk before they return.
+ */
+export function journalInboundEntry(payload: InboundQueuePayload, stateDir?: string): string {
+  const queueDir = resolveQueueDir(stateDir);
+  fs.mkdirSync(queueDir, { recursive: true, mode: 0o700 });
+  const entry: InboundQueueEntry = {
+    ...payload,
+    id: generateSecureUuid(),
+    enqueuedAt: Date.now(),
+    replayCount: 0,
+  };
+  writeJsonAtomic(resolveEntryPath(entry.id, stateDir), entry);
+  return entry.id;
+}
+
+/** Remove an entry once its turn has run (or was dropped on purpose). */
+export function ackInboundEntry(id: string, stateDir?: string): void {
+  try {
+    fs.unlinkSync(resolveEntryPath(id, stateDir));
+  } catch (err) {
+    if (!isMissingFileError(err)) {
+      throw err;
+    }
+  }
+}
+
+function moveToFailed(id: string, stateDir?: string) {
+  const failedDir = path.join(resolveQueueDir(stateDir), FAILED_DIRNAME);
+  fs.mkdirSync(failedDir, { recursive: true, mode: 0o700 });
+  fs.renameSync(resolveEntryPath(id, stateDir), path.join(failedDir, `${id}.json`));
+}
+
+/** Pending entries, oldest first. Malformed files are skipped. */
+export async function loadPendingInboundEntries(stateDir?: string): Promise<InboundQueueEntry[]> {
+  const queueDir = resolveQueueDir(stateDir);
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(queueDir);
+  } catch (err) {
+    if (isMissingFileError(err)) {
+      return [];
+    }
+    throw err;
+  }
+  const entries: InboundQueueEntry[] = [];
+  for (const file of files) {
+    if (!file.endsWith(".json") || file === LAST_RECOVERY_FILENAME) {
+      continue;
+    }
+    try {
+      const raw = await fs.promises.readFile(path.join(queueDir, file), "utf-8");
+      const parsed = JSON.parse(raw) as InboundQueueEntry;
+      if (typeof parsed?.id === "string" && typeof parsed.enqueuedAt === "number") {
+        entries.push(parsed);
+      }
+    } catch {
+      // Skip malformed or inaccessible entries.
+    }
+  }
+  return entries.toSorted((a, b) => a.enqueuedAt - b.enqueuedAt);
+}
+
+export async function readInboundQueueStatus(stateDir?: string): Promise<InboundQueueStatus> {
+  const pending = (await loadPendingInboundEntries(stateDir)).length;
+  try {
+    const raw = await fs.promises.readFile(
+      path.join(resolveQueueDir(stateDir), LAST_RECOVERY_FILENAME),
+      "utf-8",
+    );
+    return { pending, lastRecovery: JSON.parse(raw) as InboundQueueStatus["lastRecovery"] };
+  } catch {
+    return { pending };
+  }
+}
+
+export interface InboundRecoveryLogger {
+  info(msg: string): void;
+  warn(msg: string): void;
+  error(msg: string): void;
+}
+
+/**
+ * On gateway startup, replay inbound turns a previous process accepted but
+ * never finished. Followups are handed back to their queue and cron runs are
+ * restarted; both are acked by their owner once they complete, so a crash
+ * during replay replays again (up to MAX_REPLAYS).
+ */
+export async function recoverInboundQueue(opts: {
+  log: InboundRecoveryLogger;
+  /** Re-enqueue a followup. Returns false when it should be dropped instead. */
+  replayFollowup: (entry: Extract<InboundQueueEntry, { kind: "followup" }>) => boolean;
+  /** Run a cron job now; resolves once the run has finished. */
+  runCronJob: (jobId: string) => Promise<unknown>;
+  stateDir?: string;
+  now?: number;
+}): Promise<InboundRecoverySummary> {
+  const pending = await loadPendingInboundEntries(opts.stateDir);
+  const summary: InboundRecoverySummary = { recovered: 0, skipped: 0, failed: 0 };
+  if (pending.length === 0) {
+    return summary;
+  }
+  opts.log.info(`Found ${pending.length} pending inbound entries — replaying`);
+  const now = opts.now ?? Date.now();
+
+  for (const entry of pending) {
+    try {
+      if (entry.replayCount >= MAX_REPLAYS) {
+        opts.log.warn(
+          `Inbound entry ${entry.id} did not complete after ${entry.replayCount} replays — moving to failed/`,
+        );
+        moveToFailed(entry.id, opts.stateDir);
+        summary.failed += 1;
+        continue;
+      }
+      if (now - entry.enqueuedAt > MAX_REPLAY_AGE_MS) {
+        ackInboundEntry(entry.id, opts.stateDir);
+        summary.skipped += 1;
+        continue;
+      }
+      writeJsonAtomic(resolveEntryPath(entry.id, opts.stateDir), {
+        ...entry,
+        replayCount: entry.replayCount + 1,
+      });
+
+      if (entry.kind === "cron") {
+        const { id, jobId } = entry;
+        void (async () => {
+          try {
+            await opts.runCronJob(jobId);
+          } catch (err) {
+            opts.log.warn(`Replayed cron run ${jobId} failed: ${String(err)}`);
+          }
+          try {
+            ackInboundEntry(id, opts.stateDir);
+          } catch (err) {
+            opts.log.error(`Failed to ack inbound entry ${id}: ${String(err)}`);
+          }
+        })();
+        summary.recovered += 1;
+        continue;
+      }
+      if (opts.replayFollowup(entry)) {
+        summary.recovered += 1;
+      } else {
+        ackInboundEntry(entry.id, opts.stateDir);
+        summary.skipped += 1;
+      }
+    } catch (err) {
+      opts.log.error(`Failed to replay inbound entry ${entry.id}: ${String(err)}`);
+      summary.failed += 1;
+    }
+  }
+
+  try {
+    writeJsonAtomic(path.join(resolveQueueDir(opts.stateDir), LAST_RECOVERY_FILENAME), {
+      ...summary,
+      at: now,
+    });
+  } catch {
+    // Status reporting only.
+  }
+  opts.log.info(
+    `Inbound recovery complete: ${summary.recovered} replayed, ${summary.skipped} skipped, ${summary.failed} failed`,
+  );
+  return summary;
+}
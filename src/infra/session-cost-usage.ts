@@ -163,7 +163,7 @@ const parseTranscriptEntry = (entry: Record<string, unknown>): ParsedTranscriptE
   };
 };
 
-const formatDayKey = (date: Date): string =>
+export const formatDayKey = (date: Date): string =>
   date.toLocaleDateString("en-CA", { timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone });
 
 const computeLatencyStats = (values: number[]): SessionLatencyStats | undefined => {
@@ -293,6 +293,8 @@ export async function loadCostUsageSummary(params?: {
   days?: number; // Deprecated, for backwards compatibility
   config?: OpenClawConfig;
   agentId?: string;
+  /** Restrict the scan to these transcript files instead of the agent sessions dir. */
+  sessionFiles?: string[];
 }): Promise<CostUsageSummary> {
   const now = new Date();
   let sinceTime: number;
@@ -314,23 +316,24 @@ export async function loadCostUsageSummary(params?: {
   const totals = emptyTotals();
 
   const sessionsDir = resolveSessionTranscriptsDirForAgent(params?.agentId);
-  const entries = await fs.promises.readdir(sessionsDir, { withFileTypes: true }).catch(() => []);
+  const candidates = params?.sessionFiles
+    ? params.sessionFiles
+    : (await fs.promises.readdir(sessionsDir, { withFileTypes: true }).catch(() => []))
+        .filter((entry) => entry.isFile() && entry.name.endsWith(".jsonl"))
+        .map((entry) => path.join(sessionsDir, entry.name));
   const files = (
     await Promise.all(
-      entries
-        .filter((entry) => entry.isFile() && entry.name.endsWith(".jsonl"))
-        .map(async (entry) => {
-          const filePath = path.join(sessionsDir, entry.name);
-          const stats = await fs.promises.stat(filePath).catch(() => null);
-          if (!stats) {
-            return null;
-          }
-          // Include file if it was modified after our start time
-          if (stats.mtimeMs < sinceTime) {
-            return null;
-          }
-          return filePath;
-        }),
+      candidates.map(async (filePath) => {
+        const stats = await fs.promises.stat(filePath).catch(() => null);
+        if (!stats) {
+          return null;
+        }
+        // Include file if it was modified after our start time
+        if (stats.mtimeMs < sinceTime) {
+          return null;
+        }
+        return filePath;
+      }),
     )
   ).filter((filePath): filePath is string => Boolean(filePath));
 
@@ -10,8 +10,9 @@ import {
   resolveStateDir,
 } from "../config/paths.js";
 import type { SessionEntry } from "../config/sessions.js";
-import { saveSessionStore } from "../config/sessions.js";
+import { resolveSessionStoreBackend, saveSessionStore } from "../config/sessions.js";
 import { canonicalizeMainSessionAlias } from "../config/sessions/main-session.js";
+import { readSqliteSessionStore } from "../config/sessions/store-sqlite.js";
 import type { SessionScope } from "../config/sessions/types.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import {
@@ -692,9 +693,17 @@ async function migrateLegacySessions(
   const legacyParsed = fileExists(detected.sessions.legacyStorePath)
     ? readSessionStoreJson5(detected.sessions.legacyStorePath)
     : { store: {}, ok: true };
-  const targetParsed = fileExists(detected.sessions.targetStorePath)
-    ? readSessionStoreJson5(detected.sessions.targetStorePath)
-    : { store: {}, ok: true };
+  // With the SQLite backend the target lives in sessions.sqlite; merging into an
+  // empty JSON view would drop every session already there.
+  const targetSqlite =
+    resolveSessionStoreBackend() === "sqlite"
+      ? readSqliteSessionStore(detected.sessions.targetStorePath)
+      : null;
+  const targetParsed = targetSqlite
+    ? { store: targetSqlite.store as Record<string, SessionEntryLike>, ok: true }
+    : fileExists(detected.sessions.targetStorePath)
+      ? readSessionStoreJson5(detected.sessions.targetStorePath)
+      : { store: {}, ok: true };
   const legacyStore = legacyParsed.store;
   const targetStore = targetParsed.store;
 
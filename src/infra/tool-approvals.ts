@@ -0,0 +1,64 @@
+import fs from "node:fs";
+import path from "node:path";
+import { resolveStateDir } from "../config/paths.js";
+import { normalizeAgentId } from "../routing/session-key.js";
+
+const FILENAME = "tool-approvals.json";
+
+export type ToolApprovalsAllowEntry = {
+  /** Action fingerprint from `buildToolActionFingerprint` (tool, action, and stable targets). */
+  fingerprint: string;
+  approvedAt: number;
+};
+
+export type ToolApprovalsFile = {
+  version: 1;
+  agents: Record<string, { allow: ToolApprovalsAllowEntry[] }>;
+};
+
+export function resolveToolApprovalsPath(stateDir?: string): string {
+  return path.join(stateDir ?? resolveStateDir(), FILENAME);
+}
+
+export function loadToolApprovals(stateDir?: string): ToolApprovalsFile {
+  try {
+    const parsed = JSON.parse(
+      fs.readFileSync(resolveToolApprovalsPath(stateDir), "utf-8"),
+    ) as Partial<ToolApprovalsFile>;
+    if (parsed?.version === 1 && parsed.agents && typeof parsed.agents === "object") {
+      return { version: 1, agents: parsed.agents };
+    }
+  } catch {
+    // Missing or unreadable file: nothing approved yet.
+  }
+  return { version: 1, agents: {} };
+}
+
+/** Whether an "allow always" decision covers this action for the agent. */
+export function isToolActionAlwaysAllowed(params: {
+  agentId: string;
+  fingerprint: string;
+  stateDir?: string;
+}): boolean {
+  const entries = loadToolApprovals(params.stateDir).agents[normalizeAgentId(params.agentId)];
+  return entries?.allow.some((entry) => entry.fingerprint === params.fingerprint) ?? false;
+}
+
+export function recordToolActionAlwaysAllowed(params: {
+  agentId: string;
+  fingerprint: string;
+  stateDir?: string;
+}): void {
+  const file = loadToolApprovals(params.stateDir);
+  const agentId = normalizeAgentId(params.agentId);
+  const agent = (file.agents[agentId] ??= { allow: [] });
+  if (agent.allow.some((entry) => entry.fingerprint === params.fingerprint)) {
+    return;
+  }
+  agent.allow.push({ fingerprint: params.fingerprint, approvedAt: Date.now() });
+  const filePath = resolveToolApprovalsPath(params.stateDir);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, `${JSON.stringify(file, null, 2)}\n`, { mode: 0o600 });
+  fs.renameSync(tmp, filePath);
+}
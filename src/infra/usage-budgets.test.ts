@@ -0,0 +1,205 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { withEnvAsync } from "../test-utils/env.js";
+import {
+  consumeUsageBudgetNotice,
+  evaluateUsageBudgets,
+  getUsageBudgetStateSizeForTest,
+  recordUsageBudgetSpend,
+  resetUsageBudgetStateForTest,
+} from "./usage-budgets.js";
+
+function assistantUsageLine(params: { cost: number; tokens: number }): string {
+  return JSON.stringify({
+    type: "message",
+    timestamp: new Date().toISOString(),
+    message: {
+      role: "assistant",
+      provider: "openai",
+      model: "gpt-5.2",
+      usage: {
+        input: params.tokens,
+        output: 0,
+        totalTokens: params.tokens,
+        cost: { total: params.cost },
+      },
+    },
+  });
+}
+
+async function createStateDir(): Promise<{ root: string; sessionsDir: string }> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-budgets-"));
+  const sessionsDir = path.join(root, "agents", "main", "sessions");
+  await fs.mkdir(sessionsDir, { recursive: true });
+  return { root, sessionsDir };
+}
+
+async function writeTranscript(sessionsDir: string, sessionId: string, lines: string[]) {
+  const sessionFile = path.join(sessionsDir, `${sessionId}.jsonl`);
+  await fs.writeFile(sessionFile, `${lines.join("\n")}\n`, "utf-8");
+  return sessionFile;
+}
+
+describe("usage budgets", () => {
+  afterEach(() => {
+    resetUsageBudgetStateForTest();
+  });
+
+  it("blocks an agent once its daily USD cap is reached", async () => {
+    const { root, sessionsDir } = await createStateDir();
+    await writeTranscript(sessionsDir, "sess-a", [assistantUsageLine({ cost: 0.7, tokens: 100 })]);
+    await writeTranscript(sessionsDir, "sess-b", [assistantUsageLine({ cost: 0.4, tokens: 50 })]);
+
+    const cfg = {
+      budgets: { agents: { "*": { dailyUsd: 1, monthlyTokens: 1_000 } } },
+    } as OpenClawConfig;
+    const evaluation = await withEnvAsync({ OPENCLAW_STATE_DIR: root }, () =>
+      evaluateUsageBudgets({ cfg, target: { agentId: "main" } }),
+    );
+
+    expect(evaluation.blocked).toBe(true);
+    expect(evaluation.exceeded).toEqual([
+      expect.objectContaining({ scope: "agent", key: "main", window: "daily", metric: "usd" }),
+    ]);
+    expect(evaluation.exceeded[0]?.used).toBeCloseTo(1.1, 5);
+    expect(evaluation.checks).toContainEqual(
+      expect.objectContaining({ window: "monthly", metric: "tokens", used: 150, state: "ok" }),
+    );
+  });
+
+  it("only notifies in warn mode and announces each threshold once", async () => {
+    const { root, sessionsDir } = await createStateDir();
+    const sessionFile = await writeTranscript(sessionsDir, "sess-a", [
+      assistantUsageLine({ cost: 0.85, tokens: 100 }),
+    ]);
+    await writeTranscript(sessionsDir, "sess-b", [assistantUsageLine({ cost: 5, tokens: 100 })]);
+
+    const cfg = {
+      budgets: { onLimit: "warn", sessions: { "agent:main:main": { dailyUsd: 1 } } },
+    } as OpenClawConfig;
+    const evaluation = await withEnvAsync({ OPENCLAW_STATE_DIR: root }, () =>
+      evaluateUsageBudgets({
+        cfg,
+        target: { agentId: "main", sessionKey: "agent:main:main", sessionFile },
+      }),
+    );
+
+    expect(evaluation.blocked).toBe(false);
+    expect(evaluation.warnings).toEqual([
+      expect.objectContaining({ scope: "session", key: "agent:main:main", state: "warn" }),
+    ]);
+    expect(consumeUsageBudgetNotice(evaluation)).toContain("session agent:main:main daily");
+    expect(consumeUsageBudgetNotice(evaluation)).toBeUndefined();
+
+    // Once the window has ended its notice is forgotten.
+    const resetsAtMs = evaluation.warnings[0]?.resetsAtMs ?? 0;
+    expect(consumeUsageBudgetNotice(evaluation, resetsAtMs)).toContain("agent:main:main daily");
+  });
+
+  it("adds recorded spend to cached usage without rescanning transcripts", async () => {
+    const { root, sessionsDir } = await createStateDir();
+    const sessionFile = await writeTranscript(sessionsDir, "sess-a", [
+      assistantUsageLine({ cost: 0.5, tokens: 100 }),
+    ]);
+    const cfg = {
+      budgets: { sessions: { "agent:main:main": { dailyUsd: 1 } } },
+    } as OpenClawConfig;
+    const target = { agentId: "main", sessionKey: "agent:main:main", sessionFile };
+
+    await withEnvAsync({ OPENCLAW_STATE_DIR: root }, async () => {
+      expect((await evaluateUsageBudgets({ cfg, target })).blocked).toBe(false);
+      // Written to disk but not rescanned while the cache is fresh.
+      await fs.appendFile(sessionFile, `${assistantUsageLine({ cost: 5, tokens: 100 })}\n`);
+
+      recordUsageBudgetSpend({ cfg, target, tokens: 100, costUsd: 0.6 });
+      const evaluation = await evaluateUsageBudgets({ cfg, target });
+      expect(evaluation.blocked).toBe(true);
+      expect(evaluation.exceeded[0]?.used).toBeCloseTo(1.1);
+    });
+  });
+
+  it("drops cached usage and notices once their budget window has ended", async () => {
+    const { root, sessionsDir } = await createStateDir();
+    await writeTranscript(sessionsDir, "sess-a", [assistantUsageLine({ cost: 0.9, tokens: 100 })]);
+    const cfg = {
+      budgets: { onLimit: "warn", agents: { "*": { monthlyUsd: 1 } } },
+    } as OpenClawConfig;
+
+    await withEnvAsync({ OPENCLAW_STATE_DIR: root }, async () => {
+      const evaluation = await evaluateUsageBudgets({ cfg, target: { agentId: "main" } });
+      expect(consumeUsageBudgetNotice(evaluation)).toContain("agent main monthly");
+      expect(getUsageBudgetStateSizeForTest()).toEqual({ usage: 1, notices: 1 });
+
+      const monthEndMs = evaluation.checks[0]?.resetsAtMs ?? 0;
+      await evaluateUsageBudgets({
+        cfg: { budgets: { agents: { other: { monthlyUsd: 1 } } } } as OpenClawConfig,
+        target: { agentId: "main" },
+        nowMs: monthEndMs,
+      });
+      expect(getUsageBudgetStateSizeForTest()).toEqual({ usage: 0, notices: 0 });
+    });
+  });
+
+  it("skips usage loading when budgets are disabled", async () => {
+    const { root, sessionsDir } = await createStateDir();
+    await writeTranscript(sessionsDir, "sess-a", [assistantUsageLine({ cost: 5, tokens: 100 })]);
+    const cfg = {
+      budgets: { enabled: false, agents: { "*": { dailyUsd: 1 } } },
+    } as OpenClawConfig;
+    const evaluation = await withEnvAsync({ OPENCLAW_STATE_DIR: root }, () =>
+      evaluateUsageBudgets({ cfg, target: { agentId: "main" } }),
+    );
+
+    expect(evaluation).toMatchObject({ enabled: false, checks: [], blocked: false });
+  });
+
+  it("sums channel budgets across sessions routed through that account", async () => {
+    const { root, sessionsDir } = await createStateDir();
+    await writeTranscript(sessionsDir, "tg-1", [assistantUsageLine({ cost: 1, tokens: 10 })]);
+    await writeTranscript(sessionsDir, "tg-2", [assistantUsageLine({ cost: 2, tokens: 10 })]);
+    await writeTranscript(sessionsDir, "dc-1", [assistantUsageLine({ cost: 4, tokens: 10 })]);
+    await fs.writeFile(
+      path.join(sessionsDir, "sessions.json"),
+      JSON.stringify({
+        "agent:main:telegram:direct:1": {
+          sessionId: "tg-1",
+          updatedAt: Date.now(),
+          lastChannel: "telegram",
+        },
+        "agent:main:telegram:direct:2": {
+          sessionId: "tg-2",
+          updatedAt: Date.now(),
+          lastChannel: "telegram",
+          lastAccountId: "default",
+        },
+        "agent:main:discord:direct:3": {
+          sessionId: "dc-1",
+          updatedAt: Date.now(),
+          lastChannel: "discord",
+        },
+      }),
+      "utf-8",
+    );
+
+    const cfg = {
+      budgets: { channels: { "telegram:default": { monthlyUsd: 10 } } },
+    } as OpenClawConfig;
+    const evaluation = await withEnvAsync({ OPENCLAW_STATE_DIR: root }, () =>
+      evaluateUsageBudgets({ cfg, target: { agentId: "main", channel: "telegram" } }),
+    );
+
+    expect(evaluation.checks).toEqual([
+      expect.objectContaining({
+        scope: "channel",
+        key: "telegram:default",
+        window: "monthly",
+        used: 3,
+        remaining: 7,
+        state: "ok",
+      }),
+    ]);
+  });
+});
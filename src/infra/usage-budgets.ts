@@ -0,0 +1,502 @@
+import { listAgentIds } from "../agents/agent-scope.js";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  resolveSessionFilePath,
+  resolveSessionFilePathOptions,
+  resolveStorePath,
+} from "../config/sessions/paths.js";
+import { loadSessionStore } from "../config/sessions/store.js";
+import type { SessionEntry } from "../config/sessions/types.js";
+import type { BudgetLimitAction, BudgetLimits } from "../config/types.budgets.js";
+import { DEFAULT_ACCOUNT_ID, normalizeAccountId } from "../routing/account-id.js";
+import { normalizeAgentId } from "../routing/session-key.js";
+import { formatTokenCount, formatUsd } from "../utils/usage-format.js";
+import { formatDayKey, loadCostUsageSummary } from "./session-cost-usage.js";
+import type { CostUsageSummary } from "./session-cost-usage.js";
+
+const DEFAULT_WARN_AT = 0.8;
+const BUDGET_USAGE_CACHE_TTL_MS = 30_000;
+const WILDCARD_KEY = "*";
+
+export type UsageBudgetScope = "agent" | "session" | "channel";
+export type UsageBudgetWindow = "daily" | "monthly";
+export type UsageBudgetMetric = "usd" | "tokens";
+export type UsageBudgetState = "ok" | "warn" | "exceeded";
+
+export type UsageBudgetCheck = {
+  scope: UsageBudgetScope;
+  /** Agent id, session key, or `<channel>[:<accountId>]` the limit applies to. */
+  key: string;
+  window: UsageBudgetWindow;
+  metric: UsageBudgetMetric;
+  limit: number;
+  used: number;
+  remaining: number;
+  state: UsageBudgetState;
+  resetsAtMs: number;
+};
+
+export type UsageBudgetTarget = {
+  agentId?: string;
+  sessionKey?: string;
+  sessionId?: string;
+  sessionEntry?: SessionEntry;
+  sessionFile?: string;
+  channel?: string;
+  accountId?: string;
+};
+
+export type UsageBudgetEvaluation = {
+  enabled: boolean;
+  onLimit: BudgetLimitAction;
+  warnAt: number;
+  checks: UsageBudgetCheck[];
+  /** Limits at or past the warn threshold that have not reached the cap. */
+  warnings: UsageBudgetCheck[];
+  exceeded: UsageBudgetCheck[];
+  /** True when a cap is reached and `budgets.onLimit` is "stop". */
+  blocked: boolean;
+};
+
+type BudgetPeriod = {
+  dayKey: string;
+  monthStartMs: number;
+  dayEndMs: number;
+  monthEndMs: number;
+};
+
+type ScopedLimits = {
+  scope: UsageBudgetScope;
+  key: string;
+  limits: BudgetLimits;
+  resolveFiles: () => string[] | undefined;
+};
+
+type UsageCacheEntry = {
+  summary: CostUsageSummary;
+  updatedAt: number;
+  /** End of the month the summary covers; the entry is dropped after it. */
+  periodEndMs: number;
+};
+
+const usageCache = new Map<string, UsageCacheEntry>();
+// Notice key -> end of the budget window it was announced for.
+const announcedWarnings = new Map<string, number>();
+
+function hasAnyLimit(limits: BudgetLimits | undefined): limits is BudgetLimits {
+  if (!limits) {
+    return false;
+  }
+  return (
+    limits.dailyUsd !== undefined ||
+    limits.monthlyUsd !== undefined ||
+    limits.dailyTokens !== undefined ||
+    limits.monthlyTokens !== undefined
+  );
+}
+
+/** Drop cached usage and announced notices whose budget window has ended. */
+function pruneExpiredBudgetState(nowMs: number): void {
+  for (const [cacheKey, entry] of usageCache) {
+    if (entry.periodEndMs <= nowMs) {
+      usageCache.delete(cacheKey);
+    }
+  }
+  for (const [noticeKey, resetsAtMs] of announcedWarnings) {
+    if (resetsAtMs <= nowMs) {
+      announcedWarnings.delete(noticeKey);
+    }
+  }
+}
+
+function resolveBudgetPeriod(nowMs: number): BudgetPeriod {
+  const now = new Date(nowMs);
+  const year = now.getFullYear();
+  const month = now.getMonth();
+  return {
+    dayKey: formatDayKey(now),
+    monthStartMs: new Date(year, month, 1).getTime(),
+    dayEndMs: new Date(year, month, now.getDate() + 1).getTime(),
+    monthEndMs: new Date(year, month + 1, 1).getTime(),
+  };
+}
+
+function normalizeChannelId(value: string | undefined): string | undefined {
+  const trimmed = value?.trim().toLowerCase();
+  return trimmed ? trimmed : undefined;
+}
+
+function resolveEntryChannel(entry: SessionEntry): string | undefined {
+  return normalizeChannelId(
+    entry.lastChannel ?? entry.deliveryContext?.channel ?? entry.origin?.provider ?? entry.channel,
+  );
+}
+
+function resolveEntryAccountId(entry: SessionEntry): string {
+  return normalizeAccountId(
+    entry.lastAccountId ?? entry.deliveryContext?.accountId ?? entry.origin?.accountId,
+  );
+}
+
+function resolveSessionFileForTarget(
+  cfg: OpenClawConfig,
+  target: UsageBudgetTarget,
+  agentId: string,
+): string | undefined {
+  if (target.sessionFile?.trim()) {
+    return target.sessionFile.trim();
+  }
+  const sessionId = target.sessionEntry?.sessionId ?? target.sessionId;
+  if (!sessionId) {
+    return undefined;
+  }
+  try {
+    const storePath = resolveStorePath(cfg.session?.store, { agentId });
+    return resolveSessionFilePath(
+      sessionId,
+      target.sessionEntry,
+      resolveSessionFilePathOptions({ storePath, agentId }),
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+function listChannelSessionFiles(
+  cfg: OpenClawConfig,
+  channel: string,
+  accountId: string | undefined,
+): string[] {
+  const files: string[] = [];
+  for (const agentId of listAgentIds(cfg)) {
+    const storePath = resolveStorePath(cfg.session?.store, { agentId });
+    const store = loadSessionStore(storePath);
+    const pathOpts = resolveSessionFilePathOptions({ storePath, agentId });
+    for (const entry of Object.values(store)) {
+      if (!entry?.sessionId || resolveEntryChannel(entry) !== channel) {
+        continue;
+      }
+      if (accountId !== undefined && resolveEntryAccountId(entry) !== accountId) {
+        continue;
+      }
+      try {
+        files.push(resolveSessionFilePath(entry.sessionId, entry, pathOpts));
+      } catch {
+        // Skip entries whose transcript path can no longer be resolved.
+      }
+    }
+  }
+  return files;
+}
+
+function resolveScopedLimits(cfg: OpenClawConfig, target: UsageBudgetTarget): ScopedLimits[] {
+  const budgets = cfg.budgets;
+  if (!budgets) {
+    return [];
+  }
+  const scoped: ScopedLimits[] = [];
+  const agentId = normalizeAgentId(target.agentId);
+
+  const agentLimits = budgets.agents?.[agentId] ?? budgets.agents?.[WILDCARD_KEY];
+  if (hasAnyLimit(agentLimits)) {
+    // Undefined files = scan every transcript in the agent sessions dir.
+    scoped.push({
+      scope: "agent",
+      key: agentId,
+      limits: agentLimits,
+      resolveFiles: () => undefined,
+    });
+  }
+
+  const sessionKey = target.sessionKey?.trim();
+  if (sessionKey) {
+    const sessionLimits = budgets.sessions?.[sessionKey] ?? budgets.sessions?.[WILDCARD_KEY];
+    if (hasAnyLimit(sessionLimits)) {
+      scoped.push({
+        scope: "session",
+        key: sessionKey,
+        limits: sessionLimits,
+        resolveFiles: () => {
+          const sessionFile = resolveSessionFileForTarget(cfg, target, agentId);
+          return sessionFile ? [sessionFile] : [];
+        },
+      });
+    }
+  }
+
+  const channel = normalizeChannelId(target.channel);
+  if (channel) {
+    const accountId = normalizeAccountId(target.accountId ?? DEFAULT_ACCOUNT_ID);
+    const accountKey = `${channel}:${accountId}`;
+    const channels = budgets.channels;
+    // `<channel>:<account>` and "*" limits are per account; a bare channel key
+    // sums every account on that channel.
+    const match = channels?.[accountKey]
+      ? { key: accountKey, limits: channels[accountKey], accountId }
+      : channels?.[channel]
+        ? { key: channel, limits: channels[channel], accountId: undefined }
+        : channels?.[WILDCARD_KEY]
+          ? { key: accountKey, limits: channels[WILDCARD_KEY], accountId }
+          : undefined;
+    if (match && hasAnyLimit(match.limits)) {
+      scoped.push({
+        scope: "channel",
+        key: match.key,
+        limits: match.limits,
+        resolveFiles: () => listChannelSessionFiles(cfg, channel, match.accountId),
+      });
+    }
+  }
+
+  return scoped;
+}
+
+function resolveUsageCachePrefix(scoped: ScopedLimits): string {
+  return `${scoped.scope}:${scoped.key}:`;
+}
+
+async function loadScopedUsage(params: {
+  cfg: OpenClawConfig;
+  scoped: ScopedLimits;
+  agentId: string;
+  period: BudgetPeriod;
+  nowMs: number;
+}): Promise<CostUsageSummary> {
+  const { scoped, period, nowMs } = params;
+  const cacheKey = `${resolveUsageCachePrefix(scoped)}${period.monthStartMs}`;
+  const cached = usageCache.get(cacheKey);
+  if (cached && nowMs - cached.updatedAt < BUDGET_USAGE_CACHE_TTL_MS) {
+    return cached.summary;
+  }
+  const summary = await loadCostUsageSummary({
+    startMs: period.monthStartMs,
+    endMs: nowMs,
+    config: params.cfg,
+    agentId: params.agentId,
+    sessionFiles: scoped.resolveFiles(),
+  });
+  usageCache.set(cacheKey, { summary, updatedAt: nowMs, periodEndMs: period.monthEndMs });
+  return summary;
+}
+
+function buildCheck(params: {
+  scoped: ScopedLimits;
+  window: UsageBudgetWindow;
+  metric: UsageBudgetMetric;
+  limit: number | undefined;
+  used: number;
+  warnAt: number;
+  resetsAtMs: number;
+}): UsageBudgetCheck | null {
+  const { limit, used } = params;
+  if (limit === undefined || !Number.isFinite(limit)) {
+    return null;
+  }
+  const state: UsageBudgetState =
+    used >= limit ? "exceeded" : used >= limit * params.warnAt ? "warn" : "ok";
+  return {
+    scope: params.scoped.scope,
+    key: params.scoped.key,
+    window: params.window,
+    metric: params.metric,
+    limit,
+    used,
+    remaining: Math.max(0, limit - used),
+    state,
+    resetsAtMs: params.resetsAtMs,
+  };
+}
+
+export function resolveUsageBudgetsEnabled(cfg: OpenClawConfig): boolean {
+  return cfg.budgets?.enabled !== false;
+}
+
+/**
+ * Add a finished model request's spend to the cached usage of every budget that
+ * applies to a run target, so the next check sees it without rescanning
+ * transcripts. Budgets with nothing cached pick it up from disk on their next
+ * scan; cached totals are still rebuilt from disk once the cache expires.
+ */
+export function recordUsageBudgetSpend(params: {
+  cfg: OpenClawConfig;
+  target: UsageBudgetTarget;
+  tokens: number;
+  costUsd: number;
+  nowMs?: number;
+}): void {
+  const period = resolveBudgetPeriod(params.nowMs ?? Date.now());
+  for (const scoped of resolveScopedLimits(params.cfg, params.target)) {
+    const cached = usageCache.get(`${resolveUsageCachePrefix(scoped)}${period.monthStartMs}`);
+    if (!cached) {
+      continue;
+    }
+    const { summary } = cached;
+    let today = summary.daily.find((entry) => entry.date === period.dayKey);
+    if (!today) {
+      today = {
+        date: period.dayKey,
+        input: 0,
+        output: 0,
+        cacheRead: 0,
+        cacheWrite: 0,
+        totalTokens: 0,
+        totalCost: 0,
+        inputCost: 0,
+        outputCost: 0,
+        cacheReadCost: 0,
+        cacheWriteCost: 0,
+        missingCostEntries: 0,
+      };
+      summary.daily.push(today);
+    }
+    for (const totals of [summary.totals, today]) {
+      totals.totalTokens += params.tokens;
+      totals.totalCost += params.costUsd;
+    }
+  }
+}
+
+/**
+ * Evaluate every configured budget that applies to a run target. Usage is read
+ * from local session transcripts and cached briefly, so this is cheap enough
+ * to call before each model request. Disabled budgets skip the transcript scan
+ * and report no checks.
+ */
+export async function evaluateUsageBudgets(params: {
+  cfg: OpenClawConfig;
+  target: UsageBudgetTarget;
+  nowMs?: number;
+}): Promise<UsageBudgetEvaluation> {
+  const { cfg, target } = params;
+  const nowMs = params.nowMs ?? Date.now();
+  const enabled = resolveUsageBudgetsEnabled(cfg);
+  const onLimit = cfg.budgets?.onLimit ?? "stop";
+  const warnAt = cfg.budgets?.warnAt ?? DEFAULT_WARN_AT;
+  if (!enabled) {
+    return { enabled, onLimit, warnAt, checks: [], warnings: [], exceeded: [], blocked: false };
+  }
+  pruneExpiredBudgetState(nowMs);
+  const agentId = normalizeAgentId(target.agentId);
+  const period = resolveBudgetPeriod(nowMs);
+
+  const checks: UsageBudgetCheck[] = [];
+  for (const scoped of resolveScopedLimits(cfg, target)) {
+    const summary = await loadScopedUsage({ cfg, scoped, agentId, period, nowMs });
+    const today = summary.daily.find((entry) => entry.date === period.dayKey);
+    const candidates = [
+      buildCheck({
+        scoped,
+        window: "daily",
+        metric: "usd",
+        limit: scoped.limits.dailyUsd,
+        used: today?.totalCost ?? 0,
+        warnAt,
+        resetsAtMs: period.dayEndMs,
+      }),
+      buildCheck({
+        scoped,
+        window: "daily",
+        metric: "tokens",
+        limit: scoped.limits.dailyTokens,
+        used: today?.totalTokens ?? 0,
+        warnAt,
+        resetsAtMs: period.dayEndMs,
+      }),
+      buildCheck({
+        scoped,
+        window: "monthly",
+        metric: "usd",
+        limit: scoped.limits.monthlyUsd,
+        used: summary.totals.totalCost,
+        warnAt,
+        resetsAtMs: period.monthEndMs,
+      }),
+      buildCheck({
+        scoped,
+        window: "monthly",
+        metric: "tokens",
+        limit: scoped.limits.monthlyTokens,
+        used: summary.totals.totalTokens,
+        warnAt,
+        resetsAtMs: period.monthEndMs,
+      }),
+    ];
+    for (const check of candidates) {
+      if (check) {
+        checks.push(check);
+      }
+    }
+  }
+
+  const exceeded = checks.filter((check) => check.state === "exceeded");
+  return {
+    enabled,
+    onLimit,
+    warnAt,
+    checks,
+    warnings: checks.filter((check) => check.state === "warn"),
+    exceeded,
+    blocked: onLimit === "stop" && exceeded.length > 0,
+  };
+}
+
+function formatBudgetAmount(metric: UsageBudgetMetric, value: number): string {
+  return metric === "usd" ? (formatUsd(value) ?? "$0.00") : `${formatTokenCount(value)} tokens`;
+}
+
+export function formatUsageBudgetCheck(check: UsageBudgetCheck): string {
+  const label = `${check.scope} ${check.key} ${check.window}`;
+  return `${label}: ${formatBudgetAmount(check.metric, check.used)} of ${formatBudgetAmount(check.metric, check.limit)} used (${formatBudgetAmount(check.metric, check.remaining)} left)`;
+}
+
+export function formatUsageBudgetBlockedMessage(evaluation: UsageBudgetEvaluation): string {
+  const lines = evaluation.exceeded.map((check) => `- ${formatUsageBudgetCheck(check)}`);
+  return [
+    "⛔ Spend budget reached; model calls are paused until the budget window resets.",
+    ...lines,
+    "Use /budget to inspect remaining allowance.",
+  ].join("\n");
+}
+
+/**
+ * Returns a warning notice for limits that crossed the warn threshold (or the
+ * cap in warn-only mode), once per scope and budget window.
+ */
+export function consumeUsageBudgetNotice(
+  evaluation: UsageBudgetEvaluation,
+  nowMs: number = Date.now(),
+): string | undefined {
+  if (!evaluation.enabled) {
+    return undefined;
+  }
+  const candidates =
+    evaluation.onLimit === "warn"
+      ? [...evaluation.exceeded, ...evaluation.warnings]
+      : evaluation.warnings;
+  pruneExpiredBudgetState(nowMs);
+  const fresh = candidates.filter((check) => {
+    // `resetsAtMs` marks the end of the check's window, so it identifies the window.
+    const noticeKey = `${check.scope}:${check.key}:${check.window}:${check.metric}:${check.state}:${check.resetsAtMs}`;
+    if (announcedWarnings.has(noticeKey)) {
+      return false;
+    }
+    announcedWarnings.set(noticeKey, check.resetsAtMs);
+    return true;
+  });
+  if (fresh.length === 0) {
+    return undefined;
+  }
+  return [
+    "⚠️ Spend budget notice:",
+    ...fresh.map((check) => `- ${formatUsageBudgetCheck(check)}`),
+  ].join("\n");
+}
+
+export function getUsageBudgetStateSizeForTest(): { usage: number; notices: number } {
+  return { usage: usageCache.size, notices: announcedWarnings.size };
+}
+
+export function resetUsageBudgetStateForTest(): void {
+  usageCache.clear();
+  announcedWarnings.clear();
+}
@@ -0,0 +1,167 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { McpClient, McpRequestError } from "./client.js";
+import {
+  callMcpTool,
+  ensureMcpServers,
+  getMcpServerSnapshot,
+  stopMcpServers,
+  waitForMcpServers,
+} from "./manager.js";
+import { buildStdioServerEnv, createStdioTransport } from "./transport.js";
+
+// Minimal stdio MCP server: two pages of tools, an echo tool and a tool that errors.
+const FAKE_SERVER = `
+const readline = require("node:readline");
+const send = (msg) => process.stdout.write(JSON.stringify({ jsonrpc: "2.0", ...msg }) + "\\n");
+console.error("fake server starting");
+process.stdout.write("not json\\n");
+readline.createInterface({ input: process.stdin }).on("line", (line) => {
+  const msg = JSON.parse(line);
+  if (msg.id === undefined) return;
+  switch (msg.method) {
+    case "initialize":
+      return send({ id: msg.id, result: {
+        protocolVersion: process.env.FAKE_PROTOCOL || msg.params.protocolVersion,
+        capabilities: { tools: {} },
+        serverInfo: { name: "fake", version: "1.0.0" },
+      } });
+    case "tools/list":
+      return msg.params && msg.params.cursor
+        ? send({ id: msg.id, result: { tools: [{ name: "fail", inputSchema: { type: "object" } }] } })
+        : send({ id: msg.id, result: {
+            tools: [{ name: "echo", description: "Echo text", inputSchema: { type: "object", properties: { text: { type: "string" } } } }],
+            nextCursor: "page2",
+          } });
+    case "tools/call":
+      if (msg.params.name === "echo") {
+        return send({ id: msg.id, result: { content: [{ type: "text", text: msg.params.arguments.text }] } });
+      }
+      if (msg.params.name === "exit") process.exit(3);
+      return send({ id: msg.id, result: { isError: true, content: [{ type: "text", text: "boom" }] } });
+    default:
+      return send({ id: msg.id, error: { code: -32601, message: "unknown method" } });
+  }
+});
+`;
+
+describe("mcp client", () => {
+  const tempDirs: string[] = [];
+  const clients: McpClient[] = [];
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()));
+    await stopMcpServers();
+    for (const dir of tempDirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  function writeFakeServer(): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-mcp-"));
+    tempDirs.push(dir);
+    const script = path.join(dir, "server.cjs");
+    fs.writeFileSync(script, FAKE_SERVER);
+    return script;
+  }
+
+  function createClient(env?: Record<string, string>) {
+    const stderr: string[] = [];
+    const script = writeFakeServer();
+    const client = new McpClient({
+      requestTimeoutMs: 5_000,
+      createTransport: (handlers) =>
+        createStdioTransport({ command: process.execPath, args: [script], env }, handlers),
+      onStderr: (line) => stderr.push(line),
+    });
+    clients.push(client);
+    return { client, stderr };
+  }
+
+  it("initializes, pages through tools and calls them", async () => {
+    const { client, stderr } = createClient();
+
+    const info = await client.connect();
+    expect(info.serverInfo.name).toBe("fake");
+
+    const tools = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(["echo", "fail"]);
+
+    await expect(client.callTool("echo", { text: "hi" })).resolves.toEqual({
+      content: [{ type: "text", text: "hi" }],
+    });
+    await expect(client.request("resources/list")).rejects.toBeInstanceOf(McpRequestError);
+    expect(stderr).toContain("not json");
+  });
+
+  it("only passes a minimal environment plus the configured env to stdio servers", () => {
+    const env = buildStdioServerEnv(
+      { GITHUB_TOKEN: "ghp_test", LANG: "de_DE.UTF-8" },
+      {
+        PATH: "/usr/bin",
+        HOME: "/home/me",
+        LANG: "en_US.UTF-8",
+        LC_ALL: "en_US.UTF-8",
+        OPENAI_API_KEY: "sk-test",
+        OPENCLAW_SECRETS_PASSPHRASE: "hunter2",
+        OPENCLAW_BACKUP_PASSPHRASE: "hunter3",
+      },
+    );
+
+    expect(env).toEqual({
+      PATH: "/usr/bin",
+      HOME: "/home/me",
+      LANG: "de_DE.UTF-8",
+      LC_ALL: "en_US.UTF-8",
+      GITHUB_TOKEN: "ghp_test",
+    });
+  });
+
+  it("rejects servers that negotiate an unknown protocol version", async () => {
+    const { client } = createClient({ FAKE_PROTOCOL: "1999-01-01" });
+
+    await expect(client.connect()).rejects.toThrow(/unsupported MCP protocol version/);
+  });
+
+  it("cancels requests on abort", async () => {
+    const { client } = createClient();
+    await client.connect();
+    const controller = new AbortController();
+    controller.abort(new Error("stop"));
+
+    await expect(client.callTool("echo", { text: "hi" }, controller.signal)).rejects.toThrow(
+      "stop",
+    );
+  });
+
+  it("manager connects servers and reconnects after the process exits", async () => {
+    const script = writeFakeServer();
+    const [server] = ensureMcpServers({
+      fake: { command: process.execPath, args: [script] },
+    });
+    await waitForMcpServers([server.key], 5_000);
+
+    expect(getMcpServerSnapshot(server.key)).toMatchObject({ status: "ready" });
+    expect(getMcpServerSnapshot(server.key)?.tools.map((tool) => tool.name)).toEqual([
+      "echo",
+      "fail",
+    ]);
+    await expect(
+      callMcpTool({ key: server.key, toolName: "echo", args: { text: "ok" } }),
+    ).resolves.toMatchObject({ content: [{ type: "text", text: "ok" }] });
+
+    await expect(callMcpTool({ key: server.key, toolName: "exit", args: {} })).rejects.toThrow(
+      /exited/,
+    );
+    expect(getMcpServerSnapshot(server.key)).toMatchObject({ status: "backoff" });
+    await expect(
+      callMcpTool({ key: server.key, toolName: "echo", args: { text: "ok" } }),
+    ).rejects.toThrow(/unavailable/);
+
+    await expect
+      .poll(() => getMcpServerSnapshot(server.key)?.status, { timeout: 5_000 })
+      .toBe("ready");
+  });
+});
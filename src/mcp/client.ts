@@ -0,0 +1,226 @@
+import { VERSION } from "../version.js";
+import type { McpTransport, McpTransportHandlers } from "./transport.js";
+import {
+  isJsonRpcRequest,
+  isJsonRpcResponse,
+  JSON_RPC_ERROR_CODES,
+  MCP_PROTOCOL_VERSION,
+  MCP_SUPPORTED_PROTOCOL_VERSIONS,
+  type JsonRpcError,
+  type JsonRpcMessage,
+  type JsonRpcNotification,
+  type McpCallToolResult,
+  type McpInitializeResult,
+  type McpTool,
+} from "./types.js";
+
+const MAX_TOOL_LIST_PAGES = 50;
+
+export class McpRequestError extends Error {
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor(method: string, error: JsonRpcError) {
+    super(`${method} failed: ${error.message} (${error.code})`);
+    this.name = "McpRequestError";
+    this.code = error.code;
+    this.data = error.data;
+  }
+}
+
+type PendingRequest = {
+  method: string;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+  cleanup?: () => void;
+};
+
+export type McpClientOptions = {
+  createTransport: (handlers: McpTransportHandlers) => McpTransport;
+  requestTimeoutMs: number;
+  onNotification?: (notification: JsonRpcNotification) => void;
+  onClose?: (error?: Error) => void;
+  onStderr?: (line: string) => void;
+};
+
+/**
+ * Minimal MCP client: JSON-RPC request/response bookkeeping plus the
+ * initialize handshake and the tools/* methods agents need.
+ */
+export class McpClient {
+  private readonly transport: McpTransport;
+  private readonly pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+  private closed = false;
+  serverInfo?: McpInitializeResult;
+
+  constructor(private readonly options: McpClientOptions) {
+    this.transport = options.createTransport({
+      onMessage: (message) => this.handleMessage(message),
+      onClose: (error) => this.handleClose(error),
+      onStderr: options.onStderr,
+    });
+  }
+
+  async connect(): Promise<McpInitializeResult> {
+    await this.transport.start();
+    const result = (await this.request("initialize", {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: "openclaw", version: VERSION },
+    })) as McpInitializeResult;
+    if (!(MCP_SUPPORTED_PROTOCOL_VERSIONS as readonly string[]).includes(result?.protocolVersion)) {
+      throw new Error(`unsupported MCP protocol version: ${String(result?.protocolVersion)}`);
+    }
+    this.transport.setProtocolVersion?.(result.protocolVersion);
+    await this.notify("notifications/initialized");
+    this.serverInfo = result;
+    return result;
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_TOOL_LIST_PAGES; page += 1) {
+      const result = (await this.request("tools/list", cursor ? { cursor } : undefined)) as {
+        tools?: McpTool[];
+        nextCursor?: string;
+      };
+      tools.push(...(result?.tools ?? []).filter((tool) => typeof tool?.name === "string"));
+      cursor = result?.nextCursor || undefined;
+      if (!cursor) {
+        break;
+      }
+    }
+    return tools;
+  }
+
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<McpCallToolResult> {
+    return (await this.request(
+      "tools/call",
+      { name, arguments: args },
+      signal,
+    )) as McpCallToolResult;
+  }
+
+  async request(
+    method: string,
+    params?: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<unknown> {
+    if (this.closed) {
+      throw new Error("MCP client is closed");
+    }
+    if (signal?.aborted) {
+      throw signal.reason instanceof Error ? signal.reason : new Error("aborted");
+    }
+    const id = this.nextId++;
+    const response = new Promise<unknown>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.settle(id)?.reject(
+          new Error(`${method} timed out after ${this.options.requestTimeoutMs}ms`),
+        );
+        void this.notify("notifications/cancelled", { requestId: id, reason: "timeout" });
+      }, this.options.requestTimeoutMs);
+      const entry: PendingRequest = { method, resolve, reject, timer };
+      if (signal) {
+        const onAbort = () => {
+          this.settle(id)?.reject(
+            signal.reason instanceof Error ? signal.reason : new Error("aborted"),
+          );
+          void this.notify("notifications/cancelled", { requestId: id, reason: "aborted" });
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+        entry.cleanup = () => signal.removeEventListener("abort", onAbort);
+      }
+      this.pending.set(id, entry);
+    });
+    try {
+      await this.transport.send({ jsonrpc: "2.0", id, method, ...(params ? { params } : {}) });
+    } catch (err) {
+      this.settle(id)?.reject(err instanceof Error ? err : new Error(String(err)));
+    }
+    return await response;
+  }
+
+  async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    await this.transport
+      .send({ jsonrpc: "2.0", method, ...(params ? { params } : {}) })
+      .catch(() => {});
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.rejectAll(new Error("MCP client closed"));
+    await this.transport.close();
+  }
+
+  private settle(id: number): PendingRequest | undefined {
+    const entry = this.pending.get(id);
+    if (!entry) {
+      return undefined;
+    }
+    this.pending.delete(id);
+    clearTimeout(entry.timer);
+    entry.cleanup?.();
+    return entry;
+  }
+
+  private rejectAll(error: Error) {
+    for (const id of this.pending.keys()) {
+      this.settle(id)?.reject(error);
+    }
+  }
+
+  private handleMessage(message: JsonRpcMessage) {
+    if (isJsonRpcResponse(message)) {
+      const entry = typeof message.id === "number" ? this.settle(message.id) : undefined;
+      if (!entry) {
+        return;
+      }
+      if (message.error) {
+        entry.reject(new McpRequestError(entry.method, message.error));
+      } else {
+        entry.resolve(message.result);
+      }
+      return;
+    }
+    if (isJsonRpcRequest(message)) {
+      // We advertise no client capabilities; answer pings and refuse the rest.
+      const reply =
+        message.method === "ping"
+          ? { jsonrpc: "2.0" as const, id: message.id, result: {} }
+          : {
+              jsonrpc: "2.0" as const,
+              id: message.id,
+              error: {
+                code: JSON_RPC_ERROR_CODES.methodNotFound,
+                message: `Method not supported: ${message.method}`,
+              },
+            };
+      void this.transport.send(reply).catch(() => {});
+      return;
+    }
+    this.options.onNotification?.(message);
+  }
+
+  private handleClose(error?: Error) {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.rejectAll(error ?? new Error("MCP transport closed"));
+    this.options.onClose?.(error);
+  }
+}
@@ -0,0 +1,265 @@
+import type { McpServerConfig } from "../config/types.tools.js";
+import { computeBackoff, type BackoffPolicy } from "../infra/backoff.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { McpClient } from "./client.js";
+import { createHttpTransport, createStdioTransport } from "./transport.js";
+import type { McpCallToolResult, McpTool } from "./types.js";
+
+const log = createSubsystemLogger("mcp");
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 60_000;
+export const DEFAULT_MCP_STARTUP_TIMEOUT_MS = 10_000;
+
+const RESTART_BACKOFF: BackoffPolicy = {
+  initialMs: 1_000,
+  maxMs: 60_000,
+  factor: 2,
+  jitter: 0.2,
+};
+
+export type McpServerStatus = "connecting" | "ready" | "backoff" | "stopped";
+
+type McpServerState = {
+  key: string;
+  name: string;
+  config: McpServerConfig;
+  status: McpServerStatus;
+  client?: McpClient;
+  tools: McpTool[];
+  attempt: number;
+  lastError?: string;
+  retryTimer?: NodeJS.Timeout;
+  /** Settles when the in-flight connection attempt finishes (either way). */
+  connecting?: Promise<void>;
+};
+
+export type McpServerSnapshot = {
+  key: string;
+  name: string;
+  status: McpServerStatus;
+  tools: McpTool[];
+  lastError?: string;
+  config: McpServerConfig;
+};
+
+const servers = new Map<string, McpServerState>();
+
+/**
+ * Servers are keyed by name plus config so an edited definition gets a fresh
+ * connection. A scope (e.g. a session key) gives the same definition its own
+ * process instead of sharing the global one.
+ */
+export function resolveMcpServerKey(name: string, config: McpServerConfig, scope?: string): string {
+  const base = `${name}\u0000${JSON.stringify(config)}`;
+  return scope ? `${scope}\u0000${base}` : base;
+}
+
+function snapshot(state: McpServerState): McpServerSnapshot {
+  return {
+    key: state.key,
+    name: state.name,
+    status: state.status,
+    tools: state.tools,
+    lastError: state.lastError,
+    config: state.config,
+  };
+}
+
+function createClient(state: McpServerState): McpClient {
+  const { config, name } = state;
+  const client: McpClient = new McpClient({
+    requestTimeoutMs: config.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+    createTransport: (handlers) =>
+      config.url
+        ? createHttpTransport({ url: config.url, headers: config.headers }, handlers)
+        : createStdioTransport(
+            {
+              command: config.command ?? "",
+              args: config.args,
+              env: config.env,
+              cwd: config.cwd,
+            },
+            handlers,
+          ),
+    onStderr: (line) => log.debug(`${name}: ${line}`),
+    onNotification: (notification) => {
+      if (notification.method === "notifications/tools/list_changed" && state.client === client) {
+        void refreshTools(state, client);
+      }
+    },
+    onClose: (error) => {
+      if (state.client !== client || state.status === "stopped") {
+        return;
+      }
+      state.client = undefined;
+      scheduleRestart(state, error?.message ?? "connection closed");
+    },
+  });
+  return client;
+}
+
+async function refreshTools(state: McpServerState, client: McpClient): Promise<void> {
+  try {
+    const tools = await client.listTools();
+    if (state.client === client) {
+      state.tools = tools;
+      log.debug(`${state.name}: tools refreshed (${tools.length})`);
+    }
+  } catch (err) {
+    log.warn(`${state.name}: tools/list failed: ${String(err)}`);
+  }
+}
+
+function scheduleRestart(state: McpServerState, reason: string) {
+  if (state.status === "stopped") {
+    return;
+  }
+  state.attempt += 1;
+  state.status = "backoff";
+  state.lastError = reason;
+  const delayMs = computeBackoff(RESTART_BACKOFF, state.attempt);
+  log.warn(`${state.name}: ${reason}; reconnecting in ${delayMs}ms`);
+  clearTimeout(state.retryTimer);
+  state.retryTimer = setTimeout(() => {
+    state.retryTimer = undefined;
+    connect(state);
+  }, delayMs);
+  state.retryTimer.unref?.();
+}
+
+function connect(state: McpServerState) {
+  if (state.status === "stopped" || state.connecting) {
+    return;
+  }
+  state.status = "connecting";
+  const client = createClient(state);
+  state.client = client;
+  state.connecting = (async () => {
+    try {
+      const info = await client.connect();
+      const tools = await client.listTools();
+      if (state.client !== client) {
+        return;
+      }
+      state.tools = tools;
+      state.status = "ready";
+      state.attempt = 0;
+      state.lastError = undefined;
+      log.info(
+        `${state.name}: connected to ${info.serverInfo?.name ?? "server"} (${tools.length} tools)`,
+      );
+    } catch (err) {
+      await client.close().catch(() => {});
+      if (state.client === client) {
+        state.client = undefined;
+        scheduleRestart(state, err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      state.connecting = undefined;
+    }
+  })();
+}
+
+async function stopState(state: McpServerState): Promise<void> {
+  state.status = "stopped";
+  clearTimeout(state.retryTimer);
+  const client = state.client;
+  state.client = undefined;
+  state.tools = [];
+  await client?.close().catch(() => {});
+}
+
+/** Starts any configured servers that are not running yet; never blocks on connection. */
+export function ensureMcpServers(
+  configs: Record<string, McpServerConfig>,
+  scope?: string,
+): McpServerSnapshot[] {
+  const result: McpServerSnapshot[] = [];
+  for (const [name, config] of Object.entries(configs)) {
+    const key = resolveMcpServerKey(name, config, scope);
+    let state = servers.get(key);
+    if (!state) {
+      state = { key, name, config, status: "connecting", tools: [], attempt: 0 };
+      servers.set(key, state);
+      connect(state);
+    }
+    result.push(snapshot(state));
+  }
+  return result;
+}
+
+/**
+ * Waits (bounded) for servers still on their first connection attempt so the
+ * first agent run after startup sees their tools. Servers in backoff are not
+ * awaited; their tools appear on a later run once they reconnect.
+ */
+export async function waitForMcpServers(keys: string[], timeoutMs: number): Promise<void> {
+  const pending = keys
+    .map((key) => servers.get(key))
+    .filter((state): state is McpServerState => state?.status === "connecting" && !state.attempt)
+    .map((state) => state.connecting)
+    .filter((promise): promise is Promise<void> => Boolean(promise));
+  if (pending.length === 0 || timeoutMs <= 0) {
+    return;
+  }
+  let timer: NodeJS.Timeout | undefined;
+  await Promise.race([
+    Promise.allSettled(pending),
+    new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, timeoutMs);
+    }),
+  ]);
+  clearTimeout(timer);
+}
+
+export function getMcpServerSnapshot(key: string): McpServerSnapshot | undefined {
+  const state = servers.get(key);
+  return state ? snapshot(state) : undefined;
+}
+
+export function listMcpServerSnapshots(): McpServerSnapshot[] {
+  return [...servers.values()].map(snapshot);
+}
+
+export async function callMcpTool(params: {
+  key: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  signal?: AbortSignal;
+}): Promise<McpCallToolResult> {
+  const state = servers.get(params.key);
+  if (!state?.client || state.status !== "ready") {
+    const name = state?.name ?? "unknown";
+    throw new Error(
+      `MCP server "${name}" is unavailable${state?.lastError ? ` (${state.lastError})` : ""}`,
+    );
+  }
+  return await state.client.callTool(params.toolName, params.args, params.signal);
+}
+
+/** Stops servers whose key is no longer configured (config edits or removals). */
+export async function pruneMcpServers(activeKeys: Set<string>): Promise<void> {
+  const stale = [...servers.values()].filter((state) => !activeKeys.has(state.key));
+  for (const state of stale) {
+    servers.delete(state.key);
+  }
+  await Promise.all(stale.map((state) => stopState(state)));
+}
+
+export async function stopMcpServerKeys(keys: Iterable<string>): Promise<void> {
+  const stopping: McpServerState[] = [];
+  for (const key of keys) {
+    const state = servers.get(key);
+    if (state) {
+      servers.delete(key);
+      stopping.push(state);
+    }
+  }
+  await Promise.all(stopping.map((state) => stopState(state)));
+}
+
+export async function stopMcpServers(): Promise<void> {
+  const all = [...servers.values()];
+  servers.clear();
+  await Promise.all(all.map((state) => stopState(state)));
+}
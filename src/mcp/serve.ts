@@ -0,0 +1,119 @@
+import readline from "node:readline";
+import { loadConfig } from "../config/config.js";
+import { buildGatewayConnectionDetails } from "../gateway/call.js";
+import { resolveGatewayCredentialsFromConfig } from "../gateway/credentials.js";
+import { createHttpTransport } from "./transport.js";
+import {
+  isJsonRpcRequest,
+  JSON_RPC_ERROR_CODES,
+  type JsonRpcMessage,
+  type JsonRpcResponse,
+} from "./types.js";
+
+export type McpServeOptions = {
+  gatewayUrl?: string;
+  gatewayToken?: string;
+  gatewayPassword?: string;
+  sessionKey?: string;
+  agentId?: string;
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+  log?: (line: string) => void;
+};
+
+/** The Gateway serves MCP on its HTTP listener, so reuse the WebSocket host/port. */
+export function resolveGatewayMcpUrl(gatewayUrl: string): string {
+  const url = new URL(gatewayUrl);
+  url.protocol =
+    url.protocol === "wss:" ? "https:" : url.protocol === "ws:" ? "http:" : url.protocol;
+  url.pathname = "/mcp";
+  url.search = "";
+  url.hash = "";
+  return url.toString();
+}
+
+function describeSendError(err: unknown): string {
+  const message = err instanceof Error ? err.message : String(err);
+  if (/^HTTP 40[45]\b/.test(message)) {
+    return `${message} (is gateway.http.endpoints.mcp.enabled set?)`;
+  }
+  return message;
+}
+
+/**
+ * stdio MCP server for clients that only spawn commands: relays each
+ * JSON-RPC line to the Gateway's `/mcp` endpoint and prints the replies, so
+ * auth, tool policy and approvals stay on the Gateway.
+ */
+export async function serveMcpStdio(opts: McpServeOptions = {}): Promise<void> {
+  const cfg = loadConfig();
+  const connection = buildGatewayConnectionDetails({ config: cfg, url: opts.gatewayUrl });
+  const creds = resolveGatewayCredentialsFromConfig({
+    cfg,
+    env: process.env,
+    explicitAuth: { token: opts.gatewayToken, password: opts.gatewayPassword },
+  });
+  const secret = creds.token ?? creds.password;
+  const input = opts.input ?? process.stdin;
+  const output = opts.output ?? process.stdout;
+  const log = opts.log ?? ((line: string) => process.stderr.write(`${line}\n`));
+
+  const write = (message: JsonRpcMessage) => {
+    output.write(`${JSON.stringify(message)}\n`);
+  };
+  const writeError = (id: JsonRpcResponse["id"], code: number, message: string) => {
+    write({ jsonrpc: "2.0", id, error: { code, message } });
+  };
+
+  const mcpUrl = resolveGatewayMcpUrl(connection.url);
+  const transport = createHttpTransport(
+    {
+      url: mcpUrl,
+      headers: {
+        ...(secret ? { Authorization: `Bearer ${secret}` } : {}),
+        ...(opts.sessionKey ? { "x-openclaw-session-key": opts.sessionKey } : {}),
+        ...(opts.agentId ? { "x-openclaw-agent-id": opts.agentId } : {}),
+      },
+    },
+    {
+      onMessage: write,
+      onClose: (error) => {
+        if (error) {
+          log(`mcp: gateway connection closed: ${error.message}`);
+        }
+      },
+    },
+  );
+  await transport.start();
+  log(`mcp: relaying stdio to ${mcpUrl}`);
+
+  const inflight = new Set<Promise<void>>();
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  for await (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      continue;
+    }
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(trimmed) as JsonRpcMessage;
+    } catch {
+      writeError(null, JSON_RPC_ERROR_CODES.parseError, "Parse error");
+      continue;
+    }
+    const pending = transport.send(message).catch((err: unknown) => {
+      const detail = describeSendError(err);
+      if (isJsonRpcRequest(message)) {
+        writeError(message.id, JSON_RPC_ERROR_CODES.internalError, `Gateway error: ${detail}`);
+      } else {
+        log(
+          `mcp: failed to forward ${"method" in message ? message.method : "response"}: ${detail}`,
+        );
+      }
+    });
+    inflight.add(pending);
+    void pending.finally(() => inflight.delete(pending));
+  }
+  await Promise.allSettled(inflight);
+  await transport.close();
+}
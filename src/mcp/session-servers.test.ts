@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { resolveMcpServerKey } from "./manager.js";
+import {
+  attachSessionMcpServers,
+  clearSessionMcpServersForTest,
+  detachMcpServersForOwner,
+  detachSessionMcpServers,
+  listSessionMcpServerKeys,
+  resolveSessionMcpServers,
+} from "./session-servers.js";
+
+afterEach(() => {
+  clearSessionMcpServersForTest();
+});
+
+describe("session MCP servers", () => {
+  it("scopes attached servers to their session", () => {
+    const files = { command: "files-mcp" };
+    attachSessionMcpServers({ sessionKey: "agent:main:acp:a", servers: { files }, ownerId: "c1" });
+
+    expect(resolveSessionMcpServers("agent:main:acp:a")).toEqual({ files });
+    expect(resolveSessionMcpServers("agent:main:acp:b")).toEqual({});
+    expect(resolveSessionMcpServers(undefined)).toEqual({});
+    expect(listSessionMcpServerKeys()).toEqual([
+      resolveMcpServerKey("files", files, "agent:main:acp:a"),
+    ]);
+    expect(resolveMcpServerKey("files", files, "agent:main:acp:a")).not.toBe(
+      resolveMcpServerKey("files", files),
+    );
+  });
+
+  it("replaces, detaches and drops servers with their owning connection", () => {
+    attachSessionMcpServers({
+      sessionKey: "s1",
+      servers: { files: { command: "files-mcp" } },
+      ownerId: "c1",
+    });
+    attachSessionMcpServers({
+      sessionKey: "s1",
+      servers: { docs: { url: "https://mcp.example.com" } },
+      ownerId: "c1",
+    });
+    attachSessionMcpServers({
+      sessionKey: "s2",
+      servers: { files: { command: "files-mcp" } },
+      ownerId: "c2",
+    });
+    expect(Object.keys(resolveSessionMcpServers("s1"))).toEqual(["docs"]);
+
+    expect(detachMcpServersForOwner("c1")).toEqual(["s1"]);
+    expect(resolveSessionMcpServers("s1")).toEqual({});
+    expect(detachSessionMcpServers("s2")).toBe(true);
+    expect(detachSessionMcpServers("s2")).toBe(false);
+    expect(listSessionMcpServerKeys()).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import type { McpServerConfig } from "../config/types.tools.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { resolveMcpServerKey, stopMcpServerKeys } from "./manager.js";
+
+const log = createSubsystemLogger("mcp");
+
+type SessionMcpAttachment = {
+  /** Gateway connection that attached the servers; they go away when it disconnects. */
+  ownerId?: string;
+  servers: Record<string, McpServerConfig>;
+};
+
+const attachments = new Map<string, SessionMcpAttachment>();
+
+function collectKeys(sessionKey: string, attachment: SessionMcpAttachment | undefined): string[] {
+  return Object.entries(attachment?.servers ?? {}).map(([name, config]) =>
+    resolveMcpServerKey(name, config, sessionKey),
+  );
+}
+
+/**
+ * Attaches MCP servers to one session (replacing any earlier set). They run
+ * scoped to that session, so other sessions never see their tools.
+ */
+export function attachSessionMcpServers(params: {
+  sessionKey: string;
+  servers: Record<string, McpServerConfig>;
+  ownerId?: string;
+}): void {
+  const previousKeys = collectKeys(params.sessionKey, attachments.get(params.sessionKey));
+  const next: SessionMcpAttachment = { ownerId: params.ownerId, servers: params.servers };
+  if (Object.keys(params.servers).length === 0) {
+    attachments.delete(params.sessionKey);
+  } else {
+    attachments.set(params.sessionKey, next);
+  }
+  const nextKeys = new Set(collectKeys(params.sessionKey, next));
+  void stopMcpServerKeys(previousKeys.filter((key) => !nextKeys.has(key)));
+  log.debug(`${params.sessionKey}: ${nextKeys.size} session MCP server(s) attached`);
+}
+
+export function detachSessionMcpServers(sessionKey: string): boolean {
+  const attachment = attachments.get(sessionKey);
+  if (!attachment) {
+    return false;
+  }
+  attachments.delete(sessionKey);
+  void stopMcpServerKeys(collectKeys(sessionKey, attachment));
+  return true;
+}
+
+/** Detaches everything a gateway connection attached; returns the affected session keys. */
+export function detachMcpServersForOwner(ownerId: string): string[] {
+  const sessionKeys = [...attachments.entries()]
+    .filter(([, attachment]) => attachment.ownerId === ownerId)
+    .map(([sessionKey]) => sessionKey);
+  for (const sessionKey of sessionKeys) {
+    detachSessionMcpServers(sessionKey);
+  }
+  return sessionKeys;
+}
+
+export function resolveSessionMcpServers(
+  sessionKey: string | undefined,
+): Record<string, McpServerConfig> {
+  return (sessionKey ? attachments.get(sessionKey)?.servers : undefined) ?? {};
+}
+
+/** Manager keys of every attached session server, so config pruning leaves them running. */
+export function listSessionMcpServerKeys(): string[] {
+  return [...attachments.entries()].flatMap(([sessionKey, attachment]) =>
+    collectKeys(sessionKey, attachment),
+  );
+}
+
+export function clearSessionMcpServersForTest(): void {
+  attachments.clear();
+}
@@ -0,0 +1,340 @@
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import { resolveCommand } from "../process/exec.js";
+import { MCP_PROTOCOL_VERSION, type JsonRpcMessage } from "./types.js";
+
+const STDERR_TAIL_LINES = 20;
+const STDIO_CLOSE_GRACE_MS = 2_000;
+// Only what a server needs to find binaries, a home and temp dir, and a locale.
+// Everything else (provider API keys, secret passphrases) stays in the gateway.
+const STDIO_INHERITED_ENV_KEYS = new Set([
+  "PATH",
+  "HOME",
+  "USER",
+  "LOGNAME",
+  "SHELL",
+  "TMPDIR",
+  "TEMP",
+  "TMP",
+  "LANG",
+  "LANGUAGE",
+  "TZ",
+  // Windows needs these to resolve and start executables.
+  "PATHEXT",
+  "SYSTEMROOT",
+  "COMSPEC",
+  "USERPROFILE",
+  "APPDATA",
+  "LOCALAPPDATA",
+]);
+
+export type McpTransport = {
+  start: () => Promise<void>;
+  send: (message: JsonRpcMessage) => Promise<void>;
+  close: () => Promise<void>;
+  /** Called by the client once initialize negotiates a protocol revision. */
+  setProtocolVersion?: (version: string) => void;
+};
+
+export type McpTransportHandlers = {
+  onMessage: (message: JsonRpcMessage) => void;
+  onClose: (error?: Error) => void;
+  onStderr?: (line: string) => void;
+};
+
+function parseMessages(raw: string): JsonRpcMessage[] {
+  const parsed = JSON.parse(raw) as unknown;
+  const list = Array.isArray(parsed) ? parsed : [parsed];
+  return list.filter(
+    (entry): entry is JsonRpcMessage =>
+      Boolean(entry) &&
+      typeof entry === "object" &&
+      (entry as { jsonrpc?: unknown }).jsonrpc === "2.0",
+  );
+}
+
+/**
+ * Environment for a spawned stdio server: a minimal allowlist from the gateway
+ * environment plus the server's configured `env`.
+ */
+export function buildStdioServerEnv(
+  env: Record<string, string> | undefined,
+  baseEnv: NodeJS.ProcessEnv = process.env,
+): Record<string, string> {
+  const inherited: Record<string, string> = {};
+  for (const [key, value] of Object.entries(baseEnv)) {
+    const upper = key.toUpperCase();
+    if (value !== undefined && (STDIO_INHERITED_ENV_KEYS.has(upper) || upper.startsWith("LC_"))) {
+      inherited[key] = value;
+    }
+  }
+  return { ...inherited, ...env };
+}
+
+/**
+ * stdio transport: newline-delimited JSON-RPC over the child's stdin/stdout.
+ * stderr is kept (tail only) so startup failures surface a useful reason.
+ */
+export function createStdioTransport(
+  params: {
+    command: string;
+    args?: string[];
+    env?: Record<string, string>;
+    cwd?: string;
+  },
+  handlers: McpTransportHandlers,
+): McpTransport {
+  let child: ChildProcessWithoutNullStreams | undefined;
+  let closed = false;
+  const stderrTail: string[] = [];
+
+  const emitClose = (error?: Error) => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    handlers.onClose(error);
+  };
+
+  return {
+    start: async () => {
+      child = spawn(resolveCommand(params.command), params.args ?? [], {
+        cwd: params.cwd,
+        env: buildStdioServerEnv(params.env),
+        stdio: ["pipe", "pipe", "pipe"],
+        windowsHide: true,
+      });
+      const proc = child;
+      let stdoutBuffer = "";
+      proc.stdout.setEncoding("utf8");
+      proc.stdout.on("data", (chunk: string) => {
+        stdoutBuffer += chunk;
+        let newline = stdoutBuffer.indexOf("\n");
+        while (newline !== -1) {
+          const line = stdoutBuffer.slice(0, newline).trim();
+          stdoutBuffer = stdoutBuffer.slice(newline + 1);
+          newline = stdoutBuffer.indexOf("\n");
+          if (!line) {
+            continue;
+          }
+          let messages: JsonRpcMessage[];
+          try {
+            messages = parseMessages(line);
+          } catch {
+            // Servers sometimes log to stdout; treat unparsable lines like stderr.
+            handlers.onStderr?.(line);
+            continue;
+          }
+          for (const message of messages) {
+            handlers.onMessage(message);
+          }
+        }
+      });
+      proc.stderr.setEncoding("utf8");
+      proc.stderr.on("data", (chunk: string) => {
+        for (const line of chunk.split("\n")) {
+          const trimmed = line.trim();
+          if (!trimmed) {
+            continue;
+          }
+          stderrTail.push(trimmed);
+          if (stderrTail.length > STDERR_TAIL_LINES) {
+            stderrTail.shift();
+          }
+          handlers.onStderr?.(trimmed);
+        }
+      });
+      // Write errors (EPIPE) are reported through the exit handler.
+      proc.stdin.on("error", () => {});
+      proc.on("close", (code, signal) => {
+        const detail = stderrTail.at(-1);
+        emitClose(
+          new Error(`process exited (${signal ?? `code ${code}`})${detail ? `: ${detail}` : ""}`),
+        );
+      });
+      await new Promise<void>((resolve, reject) => {
+        proc.once("spawn", () => resolve());
+        proc.once("error", (err) => {
+          emitClose(err);
+          reject(err);
+        });
+      });
+    },
+    send: async (message) => {
+      if (!child || closed) {
+        throw new Error("transport is closed");
+      }
+      const proc = child;
+      await new Promise<void>((resolve, reject) => {
+        proc.stdin.write(`${JSON.stringify(message)}\n`, (err) => (err ? reject(err) : resolve()));
+      });
+    },
+    close: async () => {
+      const proc = child;
+      if (!proc || closed) {
+        closed = true;
+        return;
+      }
+      closed = true;
+      proc.stdin.end();
+      const exited = new Promise<void>((resolve) => proc.once("close", () => resolve()));
+      const timer = setTimeout(() => proc.kill("SIGTERM"), STDIO_CLOSE_GRACE_MS);
+      const killTimer = setTimeout(() => proc.kill("SIGKILL"), STDIO_CLOSE_GRACE_MS * 2);
+      await exited;
+      clearTimeout(timer);
+      clearTimeout(killTimer);
+    },
+  };
+}
+
+async function readSseMessages(
+  body: ReadableStream<Uint8Array>,
+  onMessage: (message: JsonRpcMessage) => void,
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let data: string[] = [];
+  const flush = () => {
+    if (data.length === 0) {
+      return;
+    }
+    const raw = data.join("\n");
+    data = [];
+    try {
+      for (const message of parseMessages(raw)) {
+        onMessage(message);
+      }
+    } catch {
+      // Ignore malformed events; the pending request will time out.
+    }
+  };
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    let newline = buffer.indexOf("\n");
+    while (newline !== -1) {
+      let line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf("\n");
+      if (line.endsWith("\r")) {
+        line = line.slice(0, -1);
+      }
+      if (line === "") {
+        flush();
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice(5).replace(/^ /, ""));
+      }
+    }
+  }
+  flush();
+}
+
+/**
+ * Streamable HTTP transport: every message is a POST; replies come back as a
+ * JSON body or an SSE stream. The session id from initialize is echoed on
+ * later requests, and a 404 for a known session means the server dropped it.
+ */
+export function createHttpTransport(
+  params: {
+    url: string;
+    headers?: Record<string, string>;
+  },
+  handlers: McpTransportHandlers,
+): McpTransport {
+  let sessionId: string | undefined;
+  let protocolVersion: string | undefined;
+  let closed = false;
+  const inflight = new Set<AbortController>();
+
+  const emitClose = (error?: Error) => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    for (const controller of inflight) {
+      controller.abort();
+    }
+    handlers.onClose(error);
+  };
+
+  const buildHeaders = (): Record<string, string> => ({
+    ...params.headers,
+    "Content-Type": "application/json",
+    Accept: "application/json, text/event-stream",
+    ...(sessionId ? { "Mcp-Session-Id": sessionId } : {}),
+    ...(protocolVersion ? { "MCP-Protocol-Version": protocolVersion } : {}),
+  });
+
+  return {
+    start: async () => {},
+    setProtocolVersion: (version) => {
+      protocolVersion = version || MCP_PROTOCOL_VERSION;
+    },
+    send: async (message) => {
+      if (closed) {
+        throw new Error("transport is closed");
+      }
+      const controller = new AbortController();
+      inflight.add(controller);
+      let streaming = false;
+      try {
+        const res = await fetch(params.url, {
+          method: "POST",
+          headers: buildHeaders(),
+          body: JSON.stringify(message),
+          signal: controller.signal,
+        });
+        const nextSession = res.headers.get("mcp-session-id");
+        if (nextSession) {
+          sessionId = nextSession;
+        }
+        if (res.status === 404 && sessionId) {
+          emitClose(new Error("session expired"));
+          throw new Error("MCP session expired");
+        }
+        if (!res.ok) {
+          const detail = (await res.text().catch(() => "")).trim().slice(0, 200);
+          throw new Error(`HTTP ${res.status}${detail ? `: ${detail}` : ""}`);
+        }
+        if (res.status === 202 || !res.body) {
+          return;
+        }
+        const contentType = res.headers.get("content-type") ?? "";
+        if (contentType.includes("text/event-stream")) {
+          streaming = true;
+          void readSseMessages(res.body, handlers.onMessage)
+            .catch(() => {})
+            .finally(() => inflight.delete(controller));
+          return;
+        }
+        const text = await res.text();
+        if (text.trim()) {
+          for (const entry of parseMessages(text)) {
+            handlers.onMessage(entry);
+          }
+        }
+      } finally {
+        if (!streaming) {
+          inflight.delete(controller);
+        }
+      }
+    },
+    close: async () => {
+      if (closed) {
+        return;
+      }
+      const activeSession = sessionId;
+      emitClose();
+      if (activeSession) {
+        await fetch(params.url, {
+          method: "DELETE",
+          headers: { ...params.headers, "Mcp-Session-Id": activeSession },
+          signal: AbortSignal.timeout(STDIO_CLOSE_GRACE_MS),
+        }).catch(() => {});
+      }
+    },
+  };
+}
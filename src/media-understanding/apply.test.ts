@@ -1,5 +1,6 @@
 import fs from "node:fs/promises";
 import path from "node:path";
+import JSZip from "jszip";
 import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
 import { resolveApiKeyForProvider } from "../agents/model-auth.js";
 import type { MsgContext } from "../auto-reply/templating.js";
@@ -960,6 +961,40 @@ describe("applyMediaUnderstanding", () => {
     expectFileNotApplied({ ctx, result, body: "<media:file>" });
   });
 
+  it("extracts DOCX attachments locally and records the document decision", async () => {
+    const zip = new JSZip();
+    zip.file(
+      "word/document.xml",
+      "<w:document><w:body><w:p><w:r><w:t>Termination requires 30 days notice.</w:t></w:r></w:p></w:body></w:document>",
+    );
+    const filePath = await createTempMediaFile({
+      fileName: "contract.docx",
+      content: await zip.generateAsync({ type: "nodebuffer" }),
+    });
+
+    const { ctx, result } = await applyWithDisabledMedia({
+      body: "<media:document>",
+      mediaPath: filePath,
+    });
+
+    expect(result.appliedDocument).toBe(true);
+    expect(result.appliedFile).toBe(true);
+    expect(ctx.Body).toContain(
+      '<file name="contract.docx" mime="application/vnd.openxmlformats-officedocument.wordprocessingml.document">\nTermination requires 30 days notice.\n</file>',
+    );
+    expect((ctx.Body?.match(/<file /g) ?? []).length).toBe(1);
+    expect(ctx.MediaUnderstandingDecisions?.find((d) => d.capability === "document")).toEqual({
+      capability: "document",
+      outcome: "success",
+      attachments: [
+        expect.objectContaining({
+          attachmentIndex: 0,
+          chosen: expect.objectContaining({ type: "local", provider: "local", model: "docx" }),
+        }),
+      ],
+    });
+  });
+
   it("keeps vendor +json attachments eligible for text extraction", async () => {
     const filePath = await createTempMediaFile({
       fileName: "payload.bin",
@@ -10,6 +10,7 @@ import {
 } from "../media/input-files.js";
 import { resolveAttachmentKind } from "./attachments.js";
 import { runWithConcurrency } from "./concurrency.js";
+import { DOCUMENT_FORMAT_MIME, resolveDocumentFormat } from "./document.js";
 import {
   extractMediaUserText,
   formatAudioTranscripts,
@@ -37,10 +38,11 @@ export type ApplyMediaUnderstandingResult = {
   appliedImage: boolean;
   appliedAudio: boolean;
   appliedVideo: boolean;
+  appliedDocument: boolean;
   appliedFile: boolean;
 };
 
-const CAPABILITY_ORDER: MediaUnderstandingCapability[] = ["image", "audio", "video"];
+const CAPABILITY_ORDER: MediaUnderstandingCapability[] = ["image", "audio", "video", "document"];
 const EXTRA_TEXT_MIMES = [
   "application/xml",
   "text/xml",
@@ -107,6 +109,32 @@ function resolveFileLimits(cfg: OpenClawConfig) {
   };
 }
 
+function formatFileBlock(params: { fileName: string; mime: string; text: string }): string {
+  const safeName = params.fileName.replace(/[\r\n\t]+/g, " ").trim();
+  // Escape XML special characters in attributes to prevent injection
+  return `<file name="${xmlEscapeAttr(safeName)}" mime="${xmlEscapeAttr(params.mime)}">\n${escapeFileBlockContent(params.text)}\n</file>`;
+}
+
+/** Extracted documents reuse the `<file>` block format so agents see one shape for file content. */
+function formatDocumentBlocks(
+  outputs: MediaUnderstandingOutput[],
+  attachments: ReturnType<typeof normalizeMediaAttachments>,
+): string[] {
+  return outputs.map((output) => {
+    const attachment = attachments.find((entry) => entry.index === output.attachmentIndex);
+    const source = attachment?.path ?? attachment?.url;
+    const fileName =
+      (source ? path.basename(source.split(/[?#]/)[0] ?? source) : "") ||
+      `file-${output.attachmentIndex + 1}`;
+    const format = resolveDocumentFormat({ mime: attachment?.mime, fileName });
+    return formatFileBlock({
+      fileName,
+      mime: format ? DOCUMENT_FORMAT_MIME[format] : "application/octet-stream",
+      text: output.text,
+    });
+  });
+}
+
 function appendFileBlocks(body: string | undefined, blocks: string[]): string {
   if (!blocks || blocks.length === 0) {
     return body ?? "";
@@ -451,12 +479,12 @@ async function extractFileBlocks(params: {
         blockText = "[No extractable text]";
       }
     }
-    const safeName = (bufferResult.fileName ?? `file-${attachment.index + 1}`)
-      .replace(/[\r\n\t]+/g, " ")
-      .trim();
-    // Escape XML special characters in attributes to prevent injection
     blocks.push(
-      `<file name="${xmlEscapeAttr(safeName)}" mime="${xmlEscapeAttr(mimeType)}">\n${escapeFileBlockContent(blockText)}\n</file>`,
+      formatFileBlock({
+        fileName: bufferResult.fileName ?? `file-${attachment.index + 1}`,
+        mime: mimeType,
+        text: blockText,
+      }),
     );
   }
   return blocks;
@@ -515,8 +543,10 @@ export async function applyMediaUnderstanding(params: {
       ctx.MediaUnderstandingDecisions = [...(ctx.MediaUnderstandingDecisions ?? []), ...decisions];
     }
 
-    if (outputs.length > 0) {
-      ctx.Body = formatMediaUnderstandingBody({ body: ctx.Body, outputs });
+    const documentOutputs = outputs.filter((output) => output.kind === "document.extraction");
+    const describedOutputs = outputs.filter((output) => output.kind !== "document.extraction");
+    if (describedOutputs.length > 0) {
+      ctx.Body = formatMediaUnderstandingBody({ body: ctx.Body, outputs: describedOutputs });
       const audioOutputs = outputs.filter((output) => output.kind === "audio.transcription");
       if (audioOutputs.length > 0) {
         const transcript = formatAudioTranscripts(audioOutputs);
@@ -532,19 +562,28 @@ export async function applyMediaUnderstanding(params: {
         ctx.CommandBody = originalUserText;
         ctx.RawBody = originalUserText;
       }
+    }
+    if (outputs.length > 0) {
       ctx.MediaUnderstanding = [...(ctx.MediaUnderstanding ?? []), ...outputs];
     }
-    const audioAttachmentIndexes = new Set(
+    const handledAttachmentIndexes = new Set(
       outputs
-        .filter((output) => output.kind === "audio.transcription")
+        .filter(
+          (output) =>
+            output.kind === "audio.transcription" || output.kind === "document.extraction",
+        )
         .map((output) => output.attachmentIndex),
     );
-    const fileBlocks = await extractFileBlocks({
-      attachments,
-      cache,
-      limits: resolveFileLimits(cfg),
-      skipAttachmentIndexes: audioAttachmentIndexes.size > 0 ? audioAttachmentIndexes : undefined,
-    });
+    const fileBlocks = [
+      ...formatDocumentBlocks(documentOutputs, attachments),
+      ...(await extractFileBlocks({
+        attachments,
+        cache,
+        limits: resolveFileLimits(cfg),
+        skipAttachmentIndexes:
+          handledAttachmentIndexes.size > 0 ? handledAttachmentIndexes : undefined,
+      })),
+    ];
     if (fileBlocks.length > 0) {
       ctx.Body = appendFileBlocks(ctx.Body, fileBlocks);
     }
@@ -561,6 +600,7 @@ export async function applyMediaUnderstanding(params: {
       appliedImage: outputs.some((output) => output.kind === "image.description"),
       appliedAudio: outputs.some((output) => output.kind === "audio.transcription"),
       appliedVideo: outputs.some((output) => output.kind === "video.description"),
+      appliedDocument: documentOutputs.length > 0,
       appliedFile: fileBlocks.length > 0,
     };
   } finally {
@@ -14,6 +14,7 @@ import {
 import { getDefaultMediaLocalRoots } from "../media/local-roots.js";
 import { detectMime, getFileExtension, isAudioFileName, kindFromMime } from "../media/mime.js";
 import { buildRandomTempFilePath } from "../plugin-sdk/temp-path.js";
+import { resolveDocumentFormat } from "./document.js";
 import { MediaUnderstandingSkipError } from "./errors.js";
 import { fetchWithTimeout } from "./providers/shared.js";
 import type { MediaAttachment, MediaUnderstandingCapability } from "./types.js";
@@ -155,6 +156,15 @@ export function isImageAttachment(attachment: MediaAttachment): boolean {
   return resolveAttachmentKind(attachment) === "image";
 }
 
+export function isDocumentAttachment(attachment: MediaAttachment): boolean {
+  return Boolean(
+    resolveDocumentFormat({
+      mime: attachment.mime,
+      fileName: attachment.path ?? attachment.url,
+    }),
+  );
+}
+
 function resolveRequestUrl(input: RequestInfo | URL): string {
   if (typeof input === "string") {
     return input;
@@ -205,6 +215,9 @@ export function selectAttachments(params: {
     if (capability === "audio") {
       return isAudioAttachment(item);
     }
+    if (capability === "document") {
+      return isDocumentAttachment(item);
+    }
     return isVideoAttachment(item);
   });
   if (matches.length === 0) {
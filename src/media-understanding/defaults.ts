@@ -10,21 +10,26 @@ export const DEFAULT_MAX_CHARS_BY_CAPABILITY: Record<
   image: DEFAULT_MAX_CHARS,
   audio: undefined,
   video: DEFAULT_MAX_CHARS,
+  document: undefined,
 };
 export const DEFAULT_MAX_BYTES: Record<MediaUnderstandingCapability, number> = {
   image: 10 * MB,
   audio: 20 * MB,
   video: 50 * MB,
+  document: 20 * MB,
 };
 export const DEFAULT_TIMEOUT_SECONDS: Record<MediaUnderstandingCapability, number> = {
   image: 60,
   audio: 60,
   video: 120,
+  document: 60,
 };
 export const DEFAULT_PROMPT: Record<MediaUnderstandingCapability, string> = {
   image: "Describe the image.",
   audio: "Transcribe the audio.",
   video: "Describe the video.",
+  document:
+    "Transcribe all text on this scanned document page verbatim. Render tables as Markdown tables.",
 };
 export const DEFAULT_VIDEO_MAX_BASE64_BYTES = 70 * MB;
 export const DEFAULT_AUDIO_MODELS: Record<string, string> = {
@@ -56,5 +61,10 @@ export const DEFAULT_IMAGE_MODELS: Record<string, string> = {
   minimax: "MiniMax-VL-01",
   zai: "glm-4.6v",
 };
+export const DEFAULT_DOCUMENT_MAX_CHARS = 100_000;
+export const DEFAULT_DOCUMENT_MAX_PAGES = 50;
+export const DEFAULT_DOCUMENT_CHUNK_CHARS = 20_000;
+export const DEFAULT_DOCUMENT_MIN_PAGE_TEXT_CHARS = 40;
+export const DEFAULT_DOCUMENT_VISION_MAX_PAGES = 4;
 export const CLI_OUTPUT_MAX_BUFFER = 5 * MB;
 export const DEFAULT_MEDIA_CONCURRENCY = 2;
@@ -0,0 +1,107 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import {
+  chunkDocumentText,
+  extractDocument,
+  formatDocumentText,
+  resolveDocumentFormat,
+} from "./document.js";
+
+const LIMITS = { maxPages: 10, minPageTextChars: 40, renderPages: 0 };
+
+async function buildZip(files: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.file(name, content);
+  }
+  return await zip.generateAsync({ type: "nodebuffer" });
+}
+
+describe("document extraction", () => {
+  it("detects formats from MIME type or file extension", () => {
+    expect(resolveDocumentFormat({ mime: "application/pdf" })).toBe("pdf");
+    expect(resolveDocumentFormat({ fileName: "/tmp/Contract.DOCX" })).toBe("docx");
+    expect(
+      resolveDocumentFormat({
+        mime: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet; charset=binary",
+      }),
+    ).toBe("xlsx");
+    expect(resolveDocumentFormat({ mime: "text/plain", fileName: "notes.txt" })).toBeUndefined();
+  });
+
+  it("extracts DOCX headings, paragraphs and tables in order", async () => {
+    const buffer = await buildZip({
+      "word/document.xml": [
+        '<w:document xmlns:w="x"><w:body>',
+        '<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Terms</w:t></w:r></w:p>',
+        '<w:p><w:r><w:t xml:space="preserve">Fees &amp; </w:t></w:r><w:r><w:t>payment</w:t></w:r></w:p>',
+        "<w:tbl><w:tblPr/>",
+        "<w:tr><w:tc><w:p><w:r><w:t>Item</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Cost</w:t></w:r></w:p></w:tc></w:tr>",
+        "<w:tr><w:tc><w:p><w:r><w:t>Setup</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>10|20</w:t></w:r></w:p></w:tc></w:tr>",
+        "</w:tbl>",
+        "</w:body></w:document>",
+      ].join(""),
+    });
+
+    const document = await extractDocument({ buffer, format: "docx", limits: LIMITS });
+
+    expect(document.sections[0]?.text).toBe(
+      ["# Terms", "Fees & payment", "| Item | Cost |\n| --- | --- |\n| Setup | 10\\|20 |"].join(
+        "\n\n",
+      ),
+    );
+  });
+
+  it("extracts XLSX sheets with shared strings, inline strings and sparse cells", async () => {
+    const buffer = await buildZip({
+      "xl/workbook.xml":
+        '<workbook><sheets><sheet name="Q1 &amp; Q2" sheetId="1" r:id="rId1"/><sheet name="Empty" sheetId="2" r:id="rId2"/></sheets></workbook>',
+      "xl/_rels/workbook.xml.rels":
+        '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/></Relationships>',
+      "xl/sharedStrings.xml":
+        "<sst><si><t>Region</t></si><si><r><t>Rev</t></r><r><t>enue</t></r></si></sst>",
+      "xl/worksheets/sheet1.xml": [
+        "<worksheet><sheetData>",
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>',
+        '<row r="2"/>',
+        '<row r="3"><c r="A3" t="inlineStr"><is><t>EU</t></is></c><c r="C3"><v>42</v></c></row>',
+        "</sheetData></worksheet>",
+      ].join(""),
+      "xl/worksheets/sheet2.xml": "<worksheet><sheetData/></worksheet>",
+    });
+
+    const document = await extractDocument({ buffer, format: "xlsx", limits: LIMITS });
+
+    expect(document.sections).toEqual([
+      {
+        label: "Sheet: Q1 & Q2",
+        text: "| Region | Revenue |  |\n| --- | --- | --- |\n| EU |  | 42 |",
+      },
+    ]);
+  });
+
+  it("chunks large documents on paragraph boundaries and notes truncation", () => {
+    const paragraphs = Array.from({ length: 6 }, (_, index) => `${index}`.repeat(40));
+    expect(chunkDocumentText(paragraphs.join("\n\n"), 90)).toEqual([
+      `${paragraphs[0]}\n\n${paragraphs[1]}`,
+      `${paragraphs[2]}\n\n${paragraphs[3]}`,
+      `${paragraphs[4]}\n\n${paragraphs[5]}`,
+    ]);
+
+    const text = formatDocumentText({
+      document: {
+        format: "pdf",
+        extractor: "pdfjs",
+        sections: [{ text: paragraphs.join("\n\n") }],
+        notes: ["Only the first 1 of 3 pages were extracted."],
+      },
+      maxChars: 180,
+      chunkChars: 90,
+    });
+    expect(text).toContain("[Part 1/3]");
+    expect(text).toContain("[Part 2/3]");
+    expect(text).not.toContain("[Part 3/3]");
+    expect(text).toContain("[Only the first 1 of 3 pages were extracted.]");
+    expect(text).toContain("[Showing 2 of 3 parts;");
+  });
+});
@@ -0,0 +1,470 @@
+import JSZip from "jszip";
+import { logVerbose, shouldLogVerbose } from "../globals.js";
+import {
+  DEFAULT_INPUT_PDF_MAX_PIXELS,
+  loadCanvasModule,
+  loadPdfJsModule,
+  normalizeMimeType,
+} from "../media/input-files.js";
+import { getFileExtension } from "../media/mime.js";
+
+export type DocumentFormat = "pdf" | "docx" | "xlsx";
+
+export const DOCUMENT_FORMAT_MIME: Record<DocumentFormat, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+const DOCUMENT_FORMAT_BY_EXT: Record<string, DocumentFormat> = {
+  ".pdf": "pdf",
+  ".docx": "docx",
+  ".xlsx": "xlsx",
+};
+
+// Office parts are XML inside a zip; cap each decompressed part so a crafted
+// archive cannot balloon memory.
+const MAX_ZIP_PART_BYTES = 32 * 1024 * 1024;
+const XLSX_MAX_ROWS_PER_SHEET = 2_000;
+const XLSX_MAX_COLUMNS = 100;
+
+export type DocumentSection = {
+  /** Heading shown above the section (page or sheet label). */
+  label?: string;
+  text: string;
+  /** PDF page number when the section is a page. */
+  page?: number;
+  /** Set for PDF pages with too little text to be anything but a scan. */
+  scanned?: boolean;
+  /** Rendered PNG of a scanned page for the vision fallback. */
+  image?: Buffer;
+};
+
+export type ExtractedDocument = {
+  format: DocumentFormat;
+  /** Local extractor id recorded in media decisions. */
+  extractor: string;
+  sections: DocumentSection[];
+  /** Notes about limits applied during extraction (skipped pages, rows). */
+  notes: string[];
+};
+
+export type DocumentExtractLimits = {
+  maxPages: number;
+  minPageTextChars: number;
+  /** Max scanned PDF pages rendered to images (0 disables rendering). */
+  renderPages: number;
+};
+
+export function resolveDocumentFormat(params: {
+  mime?: string;
+  fileName?: string;
+}): DocumentFormat | undefined {
+  const mime = normalizeMimeType(params.mime);
+  if (mime) {
+    for (const [format, formatMime] of Object.entries(DOCUMENT_FORMAT_MIME)) {
+      if (mime === formatMime) {
+        return format as DocumentFormat;
+      }
+    }
+  }
+  const ext = getFileExtension(params.fileName);
+  return ext ? DOCUMENT_FORMAT_BY_EXT[ext] : undefined;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith("#x")) {
+      return String.fromCodePoint(Number.parseInt(lower.slice(2), 16));
+    }
+    if (lower.startsWith("#")) {
+      return String.fromCodePoint(Number.parseInt(lower.slice(1), 10));
+    }
+    const named: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+    return named[lower] ?? match;
+  });
+}
+
+function readXmlAttr(tag: string, name: string): string | undefined {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = tag.match(new RegExp(`\\s${escaped}="([^"]*)"`));
+  return match ? decodeXmlEntities(match[1] ?? "") : undefined;
+}
+
+async function readZipText(zip: JSZip, name: string): Promise<string | undefined> {
+  const file = zip.file(name);
+  if (!file) {
+    return undefined;
+  }
+  const stream = file.nodeStream("nodebuffer");
+  return await new Promise<string>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let total = 0;
+    stream.on("data", (chunk: Buffer | string) => {
+      const buf = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+      total += buf.length;
+      if (total > MAX_ZIP_PART_BYTES) {
+        stream.removeAllListeners("data");
+        stream.pause();
+        reject(new Error(`document part ${name} exceeds ${MAX_ZIP_PART_BYTES} bytes`));
+        return;
+      }
+      chunks.push(buf);
+    });
+    stream.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    stream.on("error", reject);
+  });
+}
+
+function escapeTableCell(value: string): string {
+  return value
+    .replace(/\s*\n\s*/g, " ")
+    .replace(/\|/g, "\\|")
+    .trim();
+}
+
+/** Renders rows as a Markdown table, using the first row as the header. */
+export function formatMarkdownTable(rows: string[][]): string {
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  if (width === 0) {
+    return "";
+  }
+  const pad = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, index) => escapeTableCell(row[index] ?? "")).join(" | ")} |`;
+  const [header = [], ...body] = rows;
+  return [pad(header), `|${" --- |".repeat(width)}`, ...body.map(pad)].join("\n");
+}
+
+async function extractPdf(
+  buffer: Buffer,
+  limits: DocumentExtractLimits,
+): Promise<ExtractedDocument> {
+  const { getDocument } = await loadPdfJsModule();
+  const pdf = await getDocument({ data: new Uint8Array(buffer), disableWorker: true }).promise;
+  const maxPages = Math.min(pdf.numPages, limits.maxPages);
+  const notes: string[] = [];
+  if (pdf.numPages > maxPages) {
+    notes.push(`Only the first ${maxPages} of ${pdf.numPages} pages were extracted.`);
+  }
+  const sections: DocumentSection[] = [];
+  for (let pageNum = 1; pageNum <= maxPages; pageNum += 1) {
+    const page = await pdf.getPage(pageNum);
+    const content = await page.getTextContent();
+    const text = content.items
+      .map((item) => ("str" in item ? String(item.str) : ""))
+      .filter(Boolean)
+      .join(" ")
+      .replace(/[ \t]+/g, " ")
+      .trim();
+    sections.push({
+      label: `Page ${pageNum}`,
+      page: pageNum,
+      text,
+      scanned: text.length < limits.minPageTextChars,
+    });
+  }
+
+  const scanned = sections.filter((section) => section.scanned).slice(0, limits.renderPages);
+  if (scanned.length === 0) {
+    return { format: "pdf", extractor: "pdfjs", sections, notes };
+  }
+  let canvasModule: Awaited<ReturnType<typeof loadCanvasModule>>;
+  try {
+    canvasModule = await loadCanvasModule();
+  } catch (err) {
+    if (shouldLogVerbose()) {
+      logVerbose(`media: scanned PDF page rendering skipped; ${String(err)}`);
+    }
+    return { format: "pdf", extractor: "pdfjs", sections, notes };
+  }
+  for (const section of scanned) {
+    const page = await pdf.getPage(section.page ?? 1);
+    const viewport = page.getViewport({ scale: 1 });
+    // Scanned pages are usually large; render at up to 2x but stay within the pixel budget.
+    const scale = Math.min(
+      2,
+      Math.sqrt(DEFAULT_INPUT_PDF_MAX_PIXELS / Math.max(1, viewport.width * viewport.height)),
+    );
+    const scaled = page.getViewport({ scale: Math.max(0.1, scale) });
+    const canvas = canvasModule.createCanvas(Math.ceil(scaled.width), Math.ceil(scaled.height));
+    await page.render({ canvas: canvas as unknown as HTMLCanvasElement, viewport: scaled }).promise;
+    section.image = canvas.toBuffer("image/png");
+  }
+  return { format: "pdf", extractor: "pdfjs", sections, notes };
+}
+
+function docxParagraphText(xml: string): string {
+  const properties = xml.match(/<w:pPr>[\s\S]*?<\/w:pPr>/)?.[0] ?? "";
+  const runs = xml.replace(/<w:pPr>[\s\S]*?<\/w:pPr>/g, "");
+  let text = "";
+  for (const match of runs.matchAll(
+    /<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\b[^>]*\/>|<w:(?:br|cr)\b[^>]*\/>/g,
+  )) {
+    if (match[1] !== undefined) {
+      text += decodeXmlEntities(match[1]);
+    } else {
+      text += match[0].startsWith("<w:tab") ? "\t" : "\n";
+    }
+  }
+  text = text.trim();
+  if (!text) {
+    return "";
+  }
+  const style = readXmlAttr(properties.match(/<w:pStyle\b[^>]*\/>/)?.[0] ?? "", "w:val") ?? "";
+  const heading = style.match(/^Heading([1-6])$/i)?.[1];
+  if (heading) {
+    return `${"#".repeat(Number(heading))} ${text}`;
+  }
+  if (/^Title$/i.test(style)) {
+    return `# ${text}`;
+  }
+  if (properties.includes("<w:numPr>")) {
+    return `- ${text}`;
+  }
+  return text;
+}
+
+function docxTable(xml: string): string {
+  const rows: string[][] = [];
+  for (const row of xml.matchAll(/<w:tr[\s>][\s\S]*?<\/w:tr>/g)) {
+    const cells: string[] = [];
+    for (const cell of row[0].matchAll(/<w:tc[\s>][\s\S]*?<\/w:tc>/g)) {
+      const paragraphs = [...cell[0].matchAll(/<w:p[\s>][\s\S]*?<\/w:p>/g)]
+        .map((paragraph) => docxParagraphText(paragraph[0]))
+        .filter(Boolean);
+      cells.push(paragraphs.join(" "));
+    }
+    rows.push(cells);
+  }
+  return formatMarkdownTable(rows);
+}
+
+async function extractDocx(buffer: Buffer): Promise<ExtractedDocument> {
+  const zip = await JSZip.loadAsync(buffer);
+  const xml = await readZipText(zip, "word/document.xml");
+  if (xml === undefined) {
+    throw new Error("DOCX is missing word/document.xml");
+  }
+  const body = xml.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1] ?? xml;
+  const blocks: string[] = [];
+  for (const match of body.matchAll(/<w:tbl[\s>][\s\S]*?<\/w:tbl>|<w:p[\s>][\s\S]*?<\/w:p>/g)) {
+    const block = match[0].startsWith("<w:tbl") ? docxTable(match[0]) : docxParagraphText(match[0]);
+    if (block) {
+      blocks.push(block);
+    }
+  }
+  return {
+    format: "docx",
+    extractor: "docx",
+    sections: [{ text: blocks.join("\n\n") }],
+    notes: [],
+  };
+}
+
+function xlsxColumnIndex(ref: string | undefined): number | undefined {
+  const letters = ref?.match(/^([A-Z]+)/i)?.[1]?.toUpperCase();
+  if (!letters) {
+    return undefined;
+  }
+  let index = 0;
+  for (const char of letters) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function xlsxRichText(xml: string): string {
+  const withoutPhonetic = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "");
+  return [...withoutPhonetic.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)]
+    .map((match) => decodeXmlEntities(match[1] ?? ""))
+    .join("");
+}
+
+function xlsxCellValue(attrs: string, inner: string, sharedStrings: string[]): string {
+  const type = readXmlAttr(attrs, "t");
+  if (type === "inlineStr") {
+    return xlsxRichText(inner);
+  }
+  const raw = inner.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+  if (raw === undefined) {
+    return "";
+  }
+  const value = decodeXmlEntities(raw);
+  if (type === "s") {
+    return sharedStrings[Number(value)] ?? "";
+  }
+  if (type === "b") {
+    return value === "1" ? "TRUE" : "FALSE";
+  }
+  return value;
+}
+
+function resolveXlsxPartPath(target: string): string {
+  if (target.startsWith("/")) {
+    return target.slice(1);
+  }
+  return target.startsWith("xl/") ? target : `xl/${target}`;
+}
+
+async function extractXlsx(buffer: Buffer): Promise<ExtractedDocument> {
+  const zip = await JSZip.loadAsync(buffer);
+  const workbook = await readZipText(zip, "xl/workbook.xml");
+  if (workbook === undefined) {
+    throw new Error("XLSX is missing xl/workbook.xml");
+  }
+  const rels = (await readZipText(zip, "xl/_rels/workbook.xml.rels")) ?? "";
+  const targets = new Map<string, string>();
+  for (const match of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = readXmlAttr(match[0], "Id");
+    const target = readXmlAttr(match[0], "Target");
+    if (id && target) {
+      targets.set(id, resolveXlsxPartPath(target));
+    }
+  }
+  const sharedXml = (await readZipText(zip, "xl/sharedStrings.xml")) ?? "";
+  const sharedStrings = [...sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map((match) =>
+    xlsxRichText(match[1] ?? ""),
+  );
+
+  const sections: DocumentSection[] = [];
+  const notes: string[] = [];
+  const sheets = [...workbook.matchAll(/<sheet\b[^>]*>/g)];
+  for (const [index, sheet] of sheets.entries()) {
+    const name = readXmlAttr(sheet[0], "name") ?? `Sheet${index + 1}`;
+    const relId = readXmlAttr(sheet[0], "r:id");
+    const partPath = (relId && targets.get(relId)) || `xl/worksheets/sheet${index + 1}.xml`;
+    const xml = await readZipText(zip, partPath);
+    if (!xml) {
+      continue;
+    }
+    const rows: string[][] = [];
+    let truncated = false;
+    for (const row of xml.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+      if (rows.length >= XLSX_MAX_ROWS_PER_SHEET) {
+        truncated = true;
+        break;
+      }
+      const cells: string[] = [];
+      for (const cell of (row[1] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const attrs = cell[1] ?? "";
+        const column = xlsxColumnIndex(readXmlAttr(attrs, "r")) ?? cells.length;
+        if (column >= XLSX_MAX_COLUMNS) {
+          continue;
+        }
+        cells[column] = xlsxCellValue(attrs, cell[2] ?? "", sharedStrings);
+      }
+      const filled = Array.from(cells, (value) => value ?? "");
+      if (filled.some((value) => value.trim())) {
+        rows.push(filled);
+      }
+    }
+    if (rows.length === 0) {
+      continue;
+    }
+    if (truncated) {
+      notes.push(`Sheet "${name}" was truncated to ${XLSX_MAX_ROWS_PER_SHEET} rows.`);
+    }
+    sections.push({ label: `Sheet: ${name}`, text: formatMarkdownTable(rows) });
+  }
+  return { format: "xlsx", extractor: "xlsx", sections, notes };
+}
+
+export async function extractDocument(params: {
+  buffer: Buffer;
+  format: DocumentFormat;
+  limits: DocumentExtractLimits;
+}): Promise<ExtractedDocument> {
+  if (params.format === "pdf") {
+    return await extractPdf(params.buffer, params.limits);
+  }
+  if (params.format === "docx") {
+    return await extractDocx(params.buffer);
+  }
+  return await extractXlsx(params.buffer);
+}
+
+function splitOversizedBlock(block: string, chunkChars: number): string[] {
+  const parts: string[] = [];
+  let rest = block;
+  while (rest.length > chunkChars) {
+    const newline = rest.lastIndexOf("\n", chunkChars);
+    const cut = newline > chunkChars / 2 ? newline : chunkChars;
+    parts.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).trimStart();
+  }
+  if (rest) {
+    parts.push(rest);
+  }
+  return parts;
+}
+
+/** Splits text into chunks of at most `chunkChars`, preferring paragraph then line breaks. */
+export function chunkDocumentText(text: string, chunkChars: number): string[] {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return [];
+  }
+  if (trimmed.length <= chunkChars) {
+    return [trimmed];
+  }
+  const chunks: string[] = [];
+  let current = "";
+  for (const paragraph of trimmed.split(/\n{2,}/)) {
+    for (const block of splitOversizedBlock(paragraph, chunkChars)) {
+      if (current && current.length + block.length + 2 > chunkChars) {
+        chunks.push(current);
+        current = "";
+      }
+      current = current ? `${current}\n\n${block}` : block;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Joins extracted sections and labels parts when the document is larger than
+ * one chunk. Parts beyond `maxChars` are dropped with a note so the model knows
+ * the document continues.
+ */
+export function formatDocumentText(params: {
+  document: ExtractedDocument;
+  maxChars: number;
+  chunkChars: number;
+}): string {
+  const { document } = params;
+  const labelled = document.sections.length > 1;
+  const body = document.sections
+    .filter((section) => section.text.trim())
+    .map((section) =>
+      labelled && section.label ? `## ${section.label}\n\n${section.text.trim()}` : section.text,
+    )
+    .join("\n\n");
+  const chunks = chunkDocumentText(body, Math.max(1, Math.min(params.chunkChars, params.maxChars)));
+  if (chunks.length === 0) {
+    return "";
+  }
+  const kept: string[] = [];
+  let used = 0;
+  for (const chunk of chunks) {
+    if (kept.length > 0 && used + chunk.length > params.maxChars) {
+      break;
+    }
+    kept.push(chunk);
+    used += chunk.length;
+  }
+  const parts =
+    chunks.length === 1
+      ? kept
+      : kept.map((chunk, index) => `[Part ${index + 1}/${chunks.length}]\n${chunk}`);
+  const notes = [...document.notes];
+  if (kept.length < chunks.length) {
+    notes.push(
+      `Showing ${kept.length} of ${chunks.length} parts; the rest exceeded the ${params.maxChars} character limit.`,
+    );
+  }
+  return [...parts, ...notes.map((note) => `[${note}]`)].join("\n\n");
+}
@@ -0,0 +1,223 @@
+import type { OpenClawConfig } from "../config/config.js";
+import type {
+  MediaDocumentUnderstandingConfig,
+  MediaUnderstandingModelConfig,
+} from "../config/types.tools.js";
+import { logVerbose, shouldLogVerbose } from "../globals.js";
+import { formatErrorMessage } from "../infra/errors.js";
+import type { MediaAttachmentCache } from "./attachments.js";
+import {
+  DEFAULT_DOCUMENT_CHUNK_CHARS,
+  DEFAULT_DOCUMENT_MAX_CHARS,
+  DEFAULT_DOCUMENT_MAX_PAGES,
+  DEFAULT_DOCUMENT_MIN_PAGE_TEXT_CHARS,
+  DEFAULT_DOCUMENT_VISION_MAX_PAGES,
+  DEFAULT_MAX_BYTES,
+  DEFAULT_PROMPT,
+  DEFAULT_TIMEOUT_SECONDS,
+} from "./defaults.js";
+import {
+  type DocumentSection,
+  extractDocument,
+  formatDocumentText,
+  resolveDocumentFormat,
+} from "./document.js";
+import { isMediaUnderstandingSkipError } from "./errors.js";
+import { normalizeMediaProviderId } from "./providers/index.js";
+import { resolveTimeoutMs } from "./resolve.js";
+import {
+  buildModelDecision,
+  describeImageWithEntry,
+  type ProviderRegistry,
+} from "./runner.entries.js";
+import type { MediaUnderstandingModelDecision, MediaUnderstandingOutput } from "./types.js";
+
+function localDecision(
+  model: string,
+  outcome: MediaUnderstandingModelDecision["outcome"],
+  reason?: string,
+): MediaUnderstandingModelDecision {
+  return { type: "local", provider: "local", model, outcome, reason };
+}
+
+/**
+ * Transcribes scanned pages with the vision entries in order. Pages an entry
+ * fails on are retried with the next entry; each entry records one attempt.
+ */
+async function transcribeScannedPages(params: {
+  pages: DocumentSection[];
+  entries: MediaUnderstandingModelConfig[];
+  fileName: string;
+  cfg: OpenClawConfig;
+  config?: MediaDocumentUnderstandingConfig;
+  agentDir?: string;
+  providerRegistry: ProviderRegistry;
+}): Promise<MediaUnderstandingModelDecision[]> {
+  const attempts: MediaUnderstandingModelDecision[] = [];
+  let pending = params.pages;
+  for (const entry of params.entries) {
+    if (pending.length === 0) {
+      break;
+    }
+    const entryType = entry.type ?? (entry.command ? "cli" : "provider");
+    if (entryType === "cli") {
+      attempts.push(
+        buildModelDecision({
+          entry,
+          entryType,
+          outcome: "skipped",
+          reason: "cli entries cannot transcribe rendered pages",
+        }),
+      );
+      continue;
+    }
+    const providerId = normalizeMediaProviderId(entry.provider?.trim() ?? "");
+    const prompt = entry.prompt ?? params.config?.prompt ?? DEFAULT_PROMPT.document;
+    const timeoutMs = resolveTimeoutMs(
+      entry.timeoutSeconds ?? params.config?.timeoutSeconds,
+      DEFAULT_TIMEOUT_SECONDS.document,
+    );
+    const failed: DocumentSection[] = [];
+    let lastError: unknown;
+    let model = entry.model;
+    for (const page of pending) {
+      try {
+        const result = await describeImageWithEntry({
+          entry,
+          providerId,
+          buffer: page.image ?? Buffer.alloc(0),
+          fileName: `${params.fileName}-page-${page.page ?? 1}.png`,
+          mime: "image/png",
+          prompt,
+          timeoutMs,
+          cfg: params.cfg,
+          agentDir: params.agentDir,
+          providerRegistry: params.providerRegistry,
+        });
+        page.text = result.text.trim();
+        model = result.model;
+      } catch (err) {
+        failed.push(page);
+        lastError = err;
+        if (shouldLogVerbose()) {
+          logVerbose(`document page ${page.page ?? "?"} vision fallback failed: ${String(err)}`);
+        }
+      }
+    }
+    const decision = buildModelDecision({
+      entry,
+      entryType,
+      outcome: failed.length === pending.length ? "failed" : "success",
+      reason: lastError ? formatErrorMessage(lastError) : undefined,
+    });
+    decision.model = model;
+    attempts.push(decision);
+    pending = failed;
+  }
+  return attempts;
+}
+
+export async function runDocumentAttachment(params: {
+  cfg: OpenClawConfig;
+  attachmentIndex: number;
+  cache: MediaAttachmentCache;
+  config?: MediaDocumentUnderstandingConfig;
+  agentDir?: string;
+  providerRegistry: ProviderRegistry;
+  resolveVisionEntries: () => Promise<MediaUnderstandingModelConfig[]>;
+}): Promise<{
+  output: MediaUnderstandingOutput | null;
+  attempts: MediaUnderstandingModelDecision[];
+}> {
+  const { config } = params;
+  const attempts: MediaUnderstandingModelDecision[] = [];
+  let media: Awaited<ReturnType<MediaAttachmentCache["getBuffer"]>>;
+  try {
+    media = await params.cache.getBuffer({
+      attachmentIndex: params.attachmentIndex,
+      maxBytes: config?.maxBytes ?? DEFAULT_MAX_BYTES.document,
+      timeoutMs: resolveTimeoutMs(config?.timeoutSeconds, DEFAULT_TIMEOUT_SECONDS.document),
+    });
+  } catch (err) {
+    const reason = isMediaUnderstandingSkipError(err)
+      ? `${err.reason}: ${err.message}`
+      : String(err);
+    attempts.push(
+      localDecision("document", isMediaUnderstandingSkipError(err) ? "skipped" : "failed", reason),
+    );
+    return { output: null, attempts };
+  }
+
+  const format = resolveDocumentFormat({ mime: media.mime, fileName: media.fileName });
+  if (!format) {
+    attempts.push(localDecision("document", "skipped", `unsupported: ${media.mime ?? "unknown"}`));
+    return { output: null, attempts };
+  }
+
+  const visionFallback = config?.visionFallback !== false;
+  let document: Awaited<ReturnType<typeof extractDocument>>;
+  try {
+    document = await extractDocument({
+      buffer: media.buffer,
+      format,
+      limits: {
+        maxPages: config?.maxPages ?? DEFAULT_DOCUMENT_MAX_PAGES,
+        minPageTextChars: config?.minPageTextChars ?? DEFAULT_DOCUMENT_MIN_PAGE_TEXT_CHARS,
+        renderPages: visionFallback
+          ? (config?.visionMaxPages ?? DEFAULT_DOCUMENT_VISION_MAX_PAGES)
+          : 0,
+      },
+    });
+  } catch (err) {
+    attempts.push(localDecision(format, "failed", String(err)));
+    if (shouldLogVerbose()) {
+      logVerbose(`document extraction failed: ${String(err)}`);
+    }
+    return { output: null, attempts };
+  }
+
+  const local = localDecision(document.extractor, "success");
+  attempts.push(local);
+  const scannedPages = document.sections.filter((section) => section.image);
+  if (scannedPages.length > 0) {
+    const entries = await params.resolveVisionEntries();
+    if (entries.length === 0) {
+      document.notes.push(
+        `${scannedPages.length} scanned page(s) had no extractable text and no vision model is configured.`,
+      );
+    } else {
+      attempts.push(
+        ...(await transcribeScannedPages({
+          pages: scannedPages,
+          entries,
+          fileName: media.fileName,
+          cfg: params.cfg,
+          config,
+          agentDir: params.agentDir,
+          providerRegistry: params.providerRegistry,
+        })),
+      );
+    }
+  }
+
+  const text = formatDocumentText({
+    document,
+    maxChars: config?.maxChars ?? DEFAULT_DOCUMENT_MAX_CHARS,
+    chunkChars: config?.chunkChars ?? DEFAULT_DOCUMENT_CHUNK_CHARS,
+  });
+  if (!document.sections.some((section) => section.text.trim())) {
+    local.outcome = "skipped";
+    local.reason = "empty output: no extractable text";
+    return { output: null, attempts };
+  }
+  return {
+    output: {
+      kind: "document.extraction",
+      attachmentIndex: params.attachmentIndex,
+      text,
+      provider: "local",
+      model: document.extractor,
+    },
+    attempts,
+  };
+}
@@ -362,6 +362,46 @@ export function formatDecisionSummary(decision: MediaUnderstandingDecision): str
   return `${decision.capability}: ${decision.outcome}${countLabel}${viaLabel}${reasonLabel}`;
 }
 
+/** Describes an image buffer with a provider entry (also used for scanned document pages). */
+export async function describeImageWithEntry(params: {
+  entry: MediaUnderstandingModelConfig;
+  providerId: string;
+  buffer: Buffer;
+  fileName: string;
+  mime?: string;
+  prompt: string;
+  timeoutMs: number;
+  cfg: OpenClawConfig;
+  agentDir?: string;
+  providerRegistry: ProviderRegistry;
+}): Promise<{ text: string; model: string }> {
+  if (!params.agentDir) {
+    throw new Error("Image understanding requires agentDir");
+  }
+  const modelId = params.entry.model?.trim();
+  if (!modelId) {
+    throw new Error("Image understanding requires model id");
+  }
+  const request = {
+    buffer: params.buffer,
+    fileName: params.fileName,
+    mime: params.mime,
+    model: modelId,
+    provider: params.providerId,
+    prompt: params.prompt,
+    timeoutMs: params.timeoutMs,
+    profile: params.entry.profile,
+    preferredProfile: params.entry.preferredProfile,
+    agentDir: params.agentDir,
+    cfg: params.cfg,
+  };
+  const provider = getMediaUnderstandingProvider(params.providerId, params.providerRegistry);
+  const result = provider?.describeImage
+    ? await provider.describeImage(request)
+    : await describeImageWithModel(request);
+  return { text: result.text, model: result.model ?? modelId };
+}
+
 export async function runProviderEntry(params: {
   capability: MediaUnderstandingCapability;
   entry: MediaUnderstandingModelConfig;
@@ -387,52 +427,29 @@ export async function runProviderEntry(params: {
   });
 
   if (capability === "image") {
-    if (!params.agentDir) {
-      throw new Error("Image understanding requires agentDir");
-    }
-    const modelId = entry.model?.trim();
-    if (!modelId) {
-      throw new Error("Image understanding requires model id");
-    }
     const media = await params.cache.getBuffer({
       attachmentIndex: params.attachmentIndex,
       maxBytes,
       timeoutMs,
     });
-    const provider = getMediaUnderstandingProvider(providerId, params.providerRegistry);
-    const result = provider?.describeImage
-      ? await provider.describeImage({
-          buffer: media.buffer,
-          fileName: media.fileName,
-          mime: media.mime,
-          model: modelId,
-          provider: providerId,
-          prompt,
-          timeoutMs,
-          profile: entry.profile,
-          preferredProfile: entry.preferredProfile,
-          agentDir: params.agentDir,
-          cfg: params.cfg,
-        })
-      : await describeImageWithModel({
-          buffer: media.buffer,
-          fileName: media.fileName,
-          mime: media.mime,
-          model: modelId,
-          provider: providerId,
-          prompt,
-          timeoutMs,
-          profile: entry.profile,
-          preferredProfile: entry.preferredProfile,
-          agentDir: params.agentDir,
-          cfg: params.cfg,
-        });
+    const result = await describeImageWithEntry({
+      entry,
+      providerId,
+      buffer: media.buffer,
+      fileName: media.fileName,
+      mime: media.mime,
+      prompt,
+      timeoutMs,
+      cfg,
+      agentDir: params.agentDir,
+      providerRegistry: params.providerRegistry,
+    });
     return {
       kind: "image.description",
       attachmentIndex: params.attachmentIndex,
       text: trimOutput(result.text, maxChars),
       provider: providerId,
-      model: result.model ?? modelId,
+      model: result.model,
     };
   }
 
@@ -603,7 +620,12 @@ export async function runCliEntry(params: {
       return null;
     }
     return {
-      kind: capability === "audio" ? "audio.transcription" : `${capability}.description`,
+      kind:
+        capability === "audio"
+          ? "audio.transcription"
+          : capability === "document"
+            ? "document.extraction"
+            : `${capability}.description`,
       attachmentIndex: params.attachmentIndex,
       text,
       provider: "cli",
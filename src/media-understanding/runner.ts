@@ -15,6 +15,7 @@ import {
   resolveAgentModelPrimaryValue,
 } from "../config/model-input.js";
 import type {
+  MediaDocumentUnderstandingConfig,
   MediaUnderstandingConfig,
   MediaUnderstandingModelConfig,
 } from "../config/types.tools.js";
@@ -46,6 +47,7 @@ import {
   normalizeMediaProviderId,
 } from "./providers/index.js";
 import { resolveModelEntries, resolveScopeDecision } from "./resolve.js";
+import { runDocumentAttachment } from "./runner.document.js";
 import {
   buildModelDecision,
   formatDecisionSummary,
@@ -569,6 +571,84 @@ async function resolveActiveModelEntry(params: {
   };
 }
 
+/**
+ * Vision models for scanned document pages: explicit document models first,
+ * then the agent image model, then the same auto-selection image understanding uses.
+ */
+async function resolveDocumentVisionEntries(params: {
+  cfg: OpenClawConfig;
+  agentDir?: string;
+  providerRegistry: ProviderRegistry;
+  config?: MediaDocumentUnderstandingConfig;
+  activeModel?: ActiveMediaModel;
+}): Promise<MediaUnderstandingModelConfig[]> {
+  const configured = resolveModelEntries({
+    cfg: params.cfg,
+    capability: "document",
+    config: params.config,
+    providerRegistry: params.providerRegistry,
+  });
+  if (configured.length > 0) {
+    return configured;
+  }
+  const imageModels = resolveImageModelFromAgentDefaults(params.cfg);
+  if (imageModels.length > 0) {
+    return imageModels;
+  }
+  const auto = await resolveAutoImageModel({
+    cfg: params.cfg,
+    agentDir: params.agentDir,
+    activeModel: params.activeModel,
+  });
+  return auto ? [{ type: "provider", provider: auto.provider, model: auto.model }] : [];
+}
+
+async function runDocumentCapability(params: {
+  cfg: OpenClawConfig;
+  attachments: MediaAttachmentCache;
+  selected: MediaAttachment[];
+  agentDir?: string;
+  providerRegistry: ProviderRegistry;
+  config?: MediaDocumentUnderstandingConfig;
+  activeModel?: ActiveMediaModel;
+}): Promise<RunCapabilityResult> {
+  let visionEntries: Promise<MediaUnderstandingModelConfig[]> | undefined;
+  const resolveVisionEntries = () => {
+    visionEntries ??= resolveDocumentVisionEntries(params);
+    return visionEntries;
+  };
+  const outputs: MediaUnderstandingOutput[] = [];
+  const attachmentDecisions: MediaUnderstandingDecision["attachments"] = [];
+  for (const attachment of params.selected) {
+    const { output, attempts } = await runDocumentAttachment({
+      cfg: params.cfg,
+      attachmentIndex: attachment.index,
+      cache: params.attachments,
+      config: params.config,
+      agentDir: params.agentDir,
+      providerRegistry: params.providerRegistry,
+      resolveVisionEntries,
+    });
+    if (output) {
+      outputs.push(output);
+    }
+    attachmentDecisions.push({
+      attachmentIndex: attachment.index,
+      attempts,
+      chosen: attempts.find((attempt) => attempt.outcome === "success"),
+    });
+  }
+  const decision: MediaUnderstandingDecision = {
+    capability: "document",
+    outcome: outputs.length > 0 ? "success" : "skipped",
+    attachments: attachmentDecisions,
+  };
+  if (shouldLogVerbose()) {
+    logVerbose(`Media understanding ${formatDecisionSummary(decision)}`);
+  }
+  return { outputs, decision };
+}
+
 async function runAttachmentEntries(params: {
   capability: MediaUnderstandingCapability;
   cfg: OpenClawConfig;
@@ -704,6 +784,18 @@ export async function runCapability(params: {
     };
   }
 
+  if (capability === "document") {
+    return await runDocumentCapability({
+      cfg,
+      attachments: params.attachments,
+      selected,
+      agentDir: params.agentDir,
+      providerRegistry: params.providerRegistry,
+      config,
+      activeModel: params.activeModel,
+    });
+  }
+
   // Skip image understanding when the primary model supports vision natively.
   // The image will be injected directly into the model context instead.
   const activeProvider = params.activeModel?.provider?.trim();
@@ -1,9 +1,10 @@
 export type MediaUnderstandingKind =
   | "audio.transcription"
   | "video.description"
-  | "image.description";
+  | "image.description"
+  | "document.extraction";
 
-export type MediaUnderstandingCapability = "image" | "audio" | "video";
+export type MediaUnderstandingCapability = "image" | "audio" | "video" | "document";
 
 export type MediaAttachment = {
   path?: string;
@@ -31,7 +32,7 @@ export type MediaUnderstandingDecisionOutcome =
 export type MediaUnderstandingModelDecision = {
   provider?: string;
   model?: string;
-  type: "provider" | "cli";
+  type: "provider" | "cli" | "local";
   outcome: "success" | "skipped" | "failed";
   reason?: string;
 };
@@ -11,7 +11,7 @@ let canvasModulePromise: Promise<CanvasModule> | null = null;
 let pdfJsModulePromise: Promise<PdfJsModule> | null = null;
 
 // Lazy-load optional PDF/image deps so non-PDF paths don't require native installs.
-async function loadCanvasModule(): Promise<CanvasModule> {
+export async function loadCanvasModule(): Promise<CanvasModule> {
   if (!canvasModulePromise) {
     canvasModulePromise = import("@napi-rs/canvas").catch((err) => {
       canvasModulePromise = null;
@@ -23,7 +23,7 @@ async function loadCanvasModule(): Promise<CanvasModule> {
   return canvasModulePromise;
 }
 
-async function loadPdfJsModule(): Promise<PdfJsModule> {
+export async function loadPdfJsModule(): Promise<PdfJsModule> {
   if (!pdfJsModulePromise) {
     pdfJsModulePromise = import("pdfjs-dist/legacy/build/pdf.mjs").catch((err) => {
       pdfJsModulePromise = null;
@@ -0,0 +1,133 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  deleteMemoryEntry,
+  listMemoryEntries,
+  readMemoryEntry,
+  resolveMemoryEntriesDir,
+  upsertMemoryEntry,
+} from "./entries.js";
+import { listMemoryFiles } from "./internal.js";
+
+describe("memory entries", () => {
+  let workspaceDir = "";
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-memory-entries-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("stores entries as indexable markdown with frontmatter metadata", async () => {
+    const created = await upsertMemoryEntry({
+      workspaceDir,
+      entry: {
+        id: "coffee",
+        text: "Prefers oat milk.",
+        tags: ["Preferences", "food", "food"],
+        sessionKey: "agent:main:main",
+        expiresAt: Date.parse("2030-01-01T00:00:00Z"),
+      },
+      nowMs: Date.parse("2026-03-01T00:00:00Z"),
+    });
+
+    expect(created).toEqual({
+      id: "coffee",
+      path: "memory/entries/coffee.md",
+      text: "Prefers oat milk.",
+      tags: ["preferences", "food"],
+      sessionKey: "agent:main:main",
+      createdAt: Date.parse("2026-03-01T00:00:00Z"),
+      updatedAt: Date.parse("2026-03-01T00:00:00Z"),
+      expiresAt: Date.parse("2030-01-01T00:00:00Z"),
+    });
+    const raw = await fs.readFile(path.join(workspaceDir, created.path), "utf-8");
+    expect(raw).toMatch(/^---\nid: coffee\n/);
+    expect(raw.trimEnd().endsWith("Prefers oat milk.")).toBe(true);
+    expect(await readMemoryEntry(workspaceDir, "coffee")).toEqual(created);
+
+    const files = await listMemoryFiles(workspaceDir);
+    expect(files.map((file) => path.relative(workspaceDir, file))).toContain(
+      path.join("memory", "entries", "coffee.md"),
+    );
+  });
+
+  it("keeps createdAt and unspecified metadata when an entry is replaced", async () => {
+    await upsertMemoryEntry({
+      workspaceDir,
+      entry: { id: "tz", text: "Lives in Berlin.", tags: ["location"], sessionKey: "s1" },
+      nowMs: 1_000,
+    });
+    const updated = await upsertMemoryEntry({
+      workspaceDir,
+      entry: { id: "tz", text: "Moved to Lisbon." },
+      nowMs: 2_000,
+    });
+
+    expect(updated).toMatchObject({
+      text: "Moved to Lisbon.",
+      tags: ["location"],
+      sessionKey: "s1",
+      createdAt: 1_000,
+      updatedAt: 2_000,
+    });
+  });
+
+  it("filters listings by tags and session and hides expired entries", async () => {
+    const nowMs = Date.parse("2026-03-01T00:00:00Z");
+    await upsertMemoryEntry({
+      workspaceDir,
+      entry: { id: "a", text: "A", tags: ["work", "todo"], sessionKey: "s1" },
+      nowMs: nowMs - 3_000,
+    });
+    await upsertMemoryEntry({
+      workspaceDir,
+      entry: { id: "b", text: "B", tags: ["work"], sessionKey: "s2" },
+      nowMs: nowMs - 2_000,
+    });
+    await upsertMemoryEntry({
+      workspaceDir,
+      entry: { id: "c", text: "C", tags: ["work"], expiresAt: nowMs - 1 },
+      nowMs: nowMs - 10_000,
+    });
+
+    const ids = async (opts?: Parameters<typeof listMemoryEntries>[0]["opts"]) =>
+      (await listMemoryEntries({ workspaceDir, opts, nowMs })).map((entry) => entry.id);
+
+    expect(await ids()).toEqual(["b", "a"]);
+    expect(await ids({ tags: ["work", "todo"] })).toEqual(["a"]);
+    expect(await ids({ sessionKey: "s2" })).toEqual(["b"]);
+    expect(await ids({ limit: 1 })).toEqual(["b"]);
+    expect(await ids({ includeExpired: true })).toEqual(["b", "a", "c"]);
+  });
+
+  it("prunes expired entries on write and deletes by id", async () => {
+    await upsertMemoryEntry({
+      workspaceDir,
+      entry: { id: "old", text: "stale", expiresAt: 5 },
+      nowMs: 1,
+    });
+    await upsertMemoryEntry({ workspaceDir, entry: { text: "fresh" }, nowMs: 10 });
+
+    const names = await fs.readdir(resolveMemoryEntriesDir(workspaceDir));
+    expect(names).toHaveLength(1);
+    expect(names[0]).toMatch(/^[0-9a-f]{12}\.md$/);
+
+    const id = names[0].slice(0, -3);
+    expect(await deleteMemoryEntry({ workspaceDir, id })).toBe(true);
+    expect(await deleteMemoryEntry({ workspaceDir, id })).toBe(false);
+  });
+
+  it("rejects ids that could escape the entries directory", async () => {
+    await expect(
+      upsertMemoryEntry({ workspaceDir, entry: { id: "../MEMORY", text: "x" } }),
+    ).rejects.toThrow("invalid memory entry id");
+    await expect(deleteMemoryEntry({ workspaceDir, id: "a/b" })).rejects.toThrow(
+      "invalid memory entry id",
+    );
+  });
+});
@@ -0,0 +1,295 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import YAML from "yaml";
+import { isFileMissingError } from "./fs-utils.js";
+import type { MemoryEntry, MemoryEntryListOptions, MemoryEntryUpsert } from "./types.js";
+
+/**
+ * Structured memory entries are stored as markdown files under
+ * `memory/entries/` so every backend (builtin sqlite and qmd) indexes them like
+ * any other memory file. Metadata lives in YAML frontmatter.
+ */
+export const MEMORY_ENTRIES_REL_DIR = "memory/entries";
+
+const ENTRY_ID_RE = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+const MAX_ENTRY_TAGS = 32;
+const DEFAULT_LIST_LIMIT = 100;
+
+export function resolveMemoryEntriesDir(workspaceDir: string): string {
+  return path.join(workspaceDir, MEMORY_ENTRIES_REL_DIR);
+}
+
+export function normalizeMemoryEntryId(raw: string): string {
+  const id = raw.trim();
+  if (!ENTRY_ID_RE.test(id)) {
+    throw new Error(
+      `invalid memory entry id: ${JSON.stringify(raw)} (use letters, digits, "-" or "_", max 64 chars)`,
+    );
+  }
+  return id;
+}
+
+export function normalizeMemoryEntryTags(raw: unknown): string[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  const seen = new Set<string>();
+  for (const value of raw) {
+    if (typeof value !== "string") {
+      continue;
+    }
+    const tag = value.trim().toLowerCase();
+    if (tag) {
+      seen.add(tag);
+    }
+  }
+  return [...seen].slice(0, MAX_ENTRY_TAGS);
+}
+
+export function isMemoryEntryExpired(entry: MemoryEntry, nowMs = Date.now()): boolean {
+  return typeof entry.expiresAt === "number" && entry.expiresAt <= nowMs;
+}
+
+function entryRelPath(id: string): string {
+  return `${MEMORY_ENTRIES_REL_DIR}/${id}.md`;
+}
+
+function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Date.parse(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  if (value instanceof Date) {
+    const ms = value.getTime();
+    return Number.isFinite(ms) ? ms : undefined;
+  }
+  return undefined;
+}
+
+export function serializeMemoryEntry(entry: MemoryEntry): string {
+  const meta: Record<string, unknown> = { id: entry.id };
+  if (entry.tags.length > 0) {
+    meta.tags = entry.tags;
+  }
+  if (entry.sessionKey) {
+    meta.sessionKey = entry.sessionKey;
+  }
+  meta.createdAt = new Date(entry.createdAt).toISOString();
+  meta.updatedAt = new Date(entry.updatedAt).toISOString();
+  if (typeof entry.expiresAt === "number") {
+    meta.expiresAt = new Date(entry.expiresAt).toISOString();
+  }
+  const frontmatter = YAML.stringify(meta, { lineWidth: 0 }).trimEnd();
+  return `---\n${frontmatter}\n---\n\n${entry.text.trim()}\n`;
+}
+
+export function parseMemoryEntry(content: string, id: string): MemoryEntry | null {
+  const normalized = content.replace(/\r\n?/g, "\n");
+  if (!normalized.startsWith("---\n")) {
+    return null;
+  }
+  const end = normalized.indexOf("\n---", 4);
+  if (end === -1) {
+    return null;
+  }
+  let meta: unknown;
+  try {
+    meta = YAML.parse(normalized.slice(4, end), { schema: "core" });
+  } catch {
+    return null;
+  }
+  if (!meta || typeof meta !== "object" || Array.isArray(meta)) {
+    return null;
+  }
+  const record = meta as Record<string, unknown>;
+  const createdAt = parseTimestamp(record.createdAt);
+  if (createdAt === undefined) {
+    return null;
+  }
+  const updatedAt = parseTimestamp(record.updatedAt) ?? createdAt;
+  const expiresAt = parseTimestamp(record.expiresAt);
+  const sessionKey =
+    typeof record.sessionKey === "string" && record.sessionKey.trim()
+      ? record.sessionKey.trim()
+      : undefined;
+  const body = normalized.slice(end + 4).replace(/^[^\n]*\n/, "");
+  return {
+    id,
+    path: entryRelPath(id),
+    text: body.trim(),
+    tags: normalizeMemoryEntryTags(record.tags),
+    ...(sessionKey ? { sessionKey } : {}),
+    createdAt,
+    updatedAt,
+    ...(expiresAt !== undefined ? { expiresAt } : {}),
+  };
+}
+
+export async function readMemoryEntry(
+  workspaceDir: string,
+  rawId: string,
+): Promise<MemoryEntry | null> {
+  const id = normalizeMemoryEntryId(rawId);
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(resolveMemoryEntriesDir(workspaceDir), `${id}.md`), {
+      encoding: "utf-8",
+    });
+  } catch (err) {
+    if (isFileMissingError(err)) {
+      return null;
+    }
+    throw err;
+  }
+  return parseMemoryEntry(content, id);
+}
+
+async function writeEntryFile(filePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tmp, content, "utf-8");
+  await fs.rename(tmp, filePath);
+}
+
+async function generateEntryId(dir: string): Promise<string> {
+  for (let attempt = 0; attempt < 5; attempt += 1) {
+    const id = randomBytes(6).toString("hex");
+    try {
+      await fs.access(path.join(dir, `${id}.md`));
+    } catch {
+      return id;
+    }
+  }
+  throw new Error("failed to allocate a memory entry id");
+}
+
+export async function upsertMemoryEntry(params: {
+  workspaceDir: string;
+  entry: MemoryEntryUpsert;
+  nowMs?: number;
+}): Promise<MemoryEntry> {
+  const nowMs = params.nowMs ?? Date.now();
+  const text = params.entry.text?.trim();
+  if (!text) {
+    throw new Error("memory entry text required");
+  }
+  const expiresAt = params.entry.expiresAt;
+  if (typeof expiresAt === "number" && !Number.isFinite(expiresAt)) {
+    throw new Error("memory entry expiresAt must be a finite timestamp");
+  }
+  const dir = resolveMemoryEntriesDir(params.workspaceDir);
+  const id = params.entry.id ? normalizeMemoryEntryId(params.entry.id) : await generateEntryId(dir);
+  const existing = params.entry.id ? await readMemoryEntry(params.workspaceDir, id) : null;
+  const sessionKey = params.entry.sessionKey?.trim() || existing?.sessionKey;
+  const resolvedExpiresAt =
+    expiresAt === null ? undefined : (expiresAt ?? existing?.expiresAt ?? undefined);
+  const next: MemoryEntry = {
+    id,
+    path: entryRelPath(id),
+    text,
+    tags: params.entry.tags ? normalizeMemoryEntryTags(params.entry.tags) : (existing?.tags ?? []),
+    ...(sessionKey ? { sessionKey } : {}),
+    createdAt: existing?.createdAt ?? nowMs,
+    updatedAt: nowMs,
+    ...(resolvedExpiresAt !== undefined ? { expiresAt: resolvedExpiresAt } : {}),
+  };
+  await writeEntryFile(path.join(dir, `${id}.md`), serializeMemoryEntry(next));
+  await pruneExpiredMemoryEntries({ workspaceDir: params.workspaceDir, nowMs });
+  return next;
+}
+
+export async function deleteMemoryEntry(params: {
+  workspaceDir: string;
+  id: string;
+}): Promise<boolean> {
+  const id = normalizeMemoryEntryId(params.id);
+  try {
+    await fs.unlink(path.join(resolveMemoryEntriesDir(params.workspaceDir), `${id}.md`));
+    return true;
+  } catch (err) {
+    if (isFileMissingError(err)) {
+      return false;
+    }
+    throw err;
+  }
+}
+
+async function readAllMemoryEntries(workspaceDir: string): Promise<MemoryEntry[]> {
+  const dir = resolveMemoryEntriesDir(workspaceDir);
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch (err) {
+    if (isFileMissingError(err)) {
+      return [];
+    }
+    throw err;
+  }
+  const entries: MemoryEntry[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".md")) {
+      continue;
+    }
+    const id = name.slice(0, -3);
+    if (!ENTRY_ID_RE.test(id)) {
+      continue;
+    }
+    try {
+      const entry = parseMemoryEntry(await fs.readFile(path.join(dir, name), "utf-8"), id);
+      if (entry) {
+        entries.push(entry);
+      }
+    } catch (err) {
+      if (!isFileMissingError(err)) {
+        throw err;
+      }
+    }
+  }
+  return entries;
+}
+
+export async function listMemoryEntries(params: {
+  workspaceDir: string;
+  opts?: MemoryEntryListOptions;
+  nowMs?: number;
+}): Promise<MemoryEntry[]> {
+  const nowMs = params.nowMs ?? Date.now();
+  const opts = params.opts ?? {};
+  const wantedTags = normalizeMemoryEntryTags(opts.tags);
+  const sessionKey = opts.sessionKey?.trim();
+  const limit =
+    typeof opts.limit === "number" && opts.limit > 0 ? Math.floor(opts.limit) : DEFAULT_LIST_LIMIT;
+  const entries = (await readAllMemoryEntries(params.workspaceDir)).filter((entry) => {
+    if (!opts.includeExpired && isMemoryEntryExpired(entry, nowMs)) {
+      return false;
+    }
+    if (sessionKey && entry.sessionKey !== sessionKey) {
+      return false;
+    }
+    return wantedTags.every((tag) => entry.tags.includes(tag));
+  });
+  entries.sort((a, b) => b.updatedAt - a.updatedAt || a.id.localeCompare(b.id));
+  return entries.slice(0, limit);
+}
+
+/** Removes expired entry files so they drop out of the search index on the next sync. */
+export async function pruneExpiredMemoryEntries(params: {
+  workspaceDir: string;
+  nowMs?: number;
+}): Promise<number> {
+  const nowMs = params.nowMs ?? Date.now();
+  let removed = 0;
+  for (const entry of await readAllMemoryEntries(params.workspaceDir)) {
+    if (!isMemoryEntryExpired(entry, nowMs)) {
+      continue;
+    }
+    if (await deleteMemoryEntry({ workspaceDir: params.workspaceDir, id: entry.id })) {
+      removed += 1;
+    }
+  }
+  return removed;
+}
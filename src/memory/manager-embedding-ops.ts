@@ -18,6 +18,11 @@ import {
   type MemoryFileEntry,
 } from "./internal.js";
 import { MemoryManagerSyncOps } from "./manager-sync-ops.js";
+import {
+  encodeMemoryMetadataList,
+  extractMemoryFileMetadata,
+  type MemoryFileMetadata,
+} from "./search-filter.js";
 import type { SessionFileEntry } from "./session-files.js";
 import type { MemorySource } from "./types.js";
 
@@ -692,7 +697,7 @@ export abstract class MemoryManagerEmbeddingOps extends MemoryManagerSyncOps {
 
   protected async indexFile(
     entry: MemoryFileEntry | SessionFileEntry,
-    options: { source: MemorySource; content?: string },
+    options: { source: MemorySource; content?: string; metadata?: MemoryFileMetadata },
   ) {
     // FTS-only mode: skip indexing if no provider
     if (!this.provider) {
@@ -793,15 +798,31 @@ export abstract class MemoryManagerEmbeddingOps extends MemoryManagerSyncOps {
           );
       }
     }
+    const metadata =
+      options.metadata ??
+      (options.source === "memory" ? extractMemoryFileMetadata(entry.path, content) : undefined);
     this.db
       .prepare(
-        `INSERT INTO files (path, source, hash, mtime, size) VALUES (?, ?, ?, ?, ?)
+        `INSERT INTO files (path, source, hash, mtime, size, entry_ts, tags, channels)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
          ON CONFLICT(path) DO UPDATE SET
            source=excluded.source,
            hash=excluded.hash,
            mtime=excluded.mtime,
-           size=excluded.size`,
+           size=excluded.size,
+           entry_ts=excluded.entry_ts,
+           tags=excluded.tags,
+           channels=excluded.channels`,
       )
-      .run(entry.path, options.source, entry.hash, entry.mtimeMs, entry.size);
+      .run(
+        entry.path,
+        options.source,
+        entry.hash,
+        entry.mtimeMs,
+        entry.size,
+        metadata?.timestamp ?? null,
+        encodeMemoryMetadataList(metadata?.tags ?? []),
+        encodeMemoryMetadataList(metadata?.channels ?? []),
+      );
   }
 }
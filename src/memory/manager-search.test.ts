@@ -0,0 +1,136 @@
+import type { DatabaseSync } from "node:sqlite";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { bm25RankToScore, buildFtsQuery } from "./hybrid.js";
+import { buildMetadataFilterSql, listChunks, searchKeyword } from "./manager-search.js";
+import { ensureMemoryIndexSchema } from "./memory-schema.js";
+import {
+  encodeMemoryMetadataList,
+  extractMemoryFileMetadata,
+  normalizeMemorySearchFilter,
+} from "./search-filter.js";
+import { requireNodeSqlite } from "./sqlite.js";
+import type { MemorySearchFilter } from "./types.js";
+
+const FTS_TABLE = "chunks_fts";
+const MODEL = "test-model";
+const NO_SOURCE_FILTER = { sql: "", params: [] };
+
+function insertFile(
+  db: DatabaseSync,
+  params: { path: string; source?: string; mtime: number; text: string },
+) {
+  const source = params.source ?? "memory";
+  const meta =
+    source === "memory"
+      ? extractMemoryFileMetadata(params.path, params.text)
+      : { tags: [], channels: [] };
+  db.prepare(
+    `INSERT INTO files (path, source, hash, mtime, size, entry_ts, tags, channels)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+  ).run(
+    params.path,
+    source,
+    params.path,
+    params.mtime,
+    params.text.length,
+    meta.timestamp ?? null,
+    encodeMemoryMetadataList(meta.tags),
+    encodeMemoryMetadataList(meta.channels),
+  );
+  const id = `${params.path}#1`;
+  db.prepare(
+    `INSERT INTO chunks (id, path, source, start_line, end_line, hash, model, text, embedding, updated_at)
+     VALUES (?, ?, ?, 1, 1, ?, ?, ?, '[1,0]', 0)`,
+  ).run(id, params.path, source, id, MODEL, params.text);
+  db.prepare(
+    `INSERT INTO ${FTS_TABLE} (text, id, path, source, model, start_line, end_line)
+     VALUES (?, ?, ?, ?, ?, 1, 1)`,
+  ).run(params.text, id, params.path, source, MODEL);
+}
+
+describe("memory search metadata filters", () => {
+  let db: DatabaseSync;
+
+  beforeEach(() => {
+    const { DatabaseSync } = requireNodeSqlite();
+    db = new DatabaseSync(":memory:");
+    ensureMemoryIndexSchema({
+      db,
+      embeddingCacheTable: "embedding_cache",
+      ftsTable: FTS_TABLE,
+      ftsEnabled: true,
+    });
+    insertFile(db, {
+      path: "memory/entries/dns.md",
+      mtime: Date.parse("2026-03-10T00:00:00Z"),
+      text: [
+        "---",
+        "tags: [infra, decision]",
+        "sessionKey: agent:main:slack:channel:infra",
+        "createdAt: 2026-03-09T12:00:00Z",
+        "---",
+        "Decision: move DNS to the new provider.",
+      ].join("\n"),
+    });
+    insertFile(db, {
+      path: "memory/2026-01-05.md",
+      mtime: Date.parse("2026-03-10T00:00:00Z"),
+      text: "Decision: keep DNS where it is for now.",
+    });
+    insertFile(db, {
+      path: "sessions/abc.jsonl",
+      source: "sessions",
+      mtime: Date.parse("2026-03-08T00:00:00Z"),
+      text: "User: what about the DNS decision?",
+    });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  async function keywordPaths(filter?: MemorySearchFilter, limit = 10) {
+    const results = await searchKeyword({
+      db,
+      ftsTable: FTS_TABLE,
+      providerModel: MODEL,
+      query: "DNS decision",
+      limit,
+      snippetMaxChars: 200,
+      sourceFilter: NO_SOURCE_FILTER,
+      metadataFilter: buildMetadataFilterSql(normalizeMemorySearchFilter(filter)),
+      buildFtsQuery,
+      bm25RankToScore,
+    });
+    return results.map((row) => row.path).toSorted();
+  }
+
+  it("filters keyword search by tags, channel and entry timestamp", async () => {
+    expect(await keywordPaths()).toHaveLength(3);
+    expect(await keywordPaths({ tags: ["Infra"] })).toEqual(["memory/entries/dns.md"]);
+    expect(await keywordPaths({ channel: "#infra" })).toEqual(["memory/entries/dns.md"]);
+    expect(await keywordPaths({ channel: "slack" })).toEqual(["memory/entries/dns.md"]);
+    // Dated notes use the file name; the session falls back to its mtime.
+    expect(await keywordPaths({ since: Date.parse("2026-03-01T00:00:00Z") })).toEqual([
+      "memory/entries/dns.md",
+      "sessions/abc.jsonl",
+    ]);
+    expect(await keywordPaths({ until: Date.parse("2026-02-01T00:00:00Z") })).toEqual([
+      "memory/2026-01-05.md",
+    ]);
+  });
+
+  it("applies filters before the LIMIT cut", async () => {
+    expect(await keywordPaths({ pathGlob: "sessions/*" }, 1)).toEqual(["sessions/abc.jsonl"]);
+  });
+
+  it("pushes the same filter into the brute-force vector scan", () => {
+    const chunks = listChunks({
+      db,
+      providerModel: MODEL,
+      sourceFilter: NO_SOURCE_FILTER,
+      metadataFilter: buildMetadataFilterSql({ pathGlob: "memory/*", tags: ["decision"] }),
+    });
+    expect(chunks.map((chunk) => chunk.path)).toEqual(["memory/entries/dns.md"]);
+  });
+});
@@ -1,12 +1,64 @@
 import type { DatabaseSync } from "node:sqlite";
 import { truncateUtf16Safe } from "../utils.js";
 import { cosineSimilarity, parseEmbedding } from "./internal.js";
+import type { MemorySearchFilter } from "./types.js";
 
 const vectorToBlob = (embedding: number[]): Buffer =>
   Buffer.from(new Float32Array(embedding).buffer);
 
 export type SearchSource = string;
 
+export type SearchFilterSql = { sql: string; params: Array<string | number> };
+
+const NO_FILTER: SearchFilterSql = { sql: "", params: [] };
+
+/**
+ * Builds the metadata part of a search WHERE clause. Path globs apply to the
+ * chunk row itself; date, tag and channel filters go through the per-file
+ * metadata stored on `files`, so they narrow candidates before the LIMIT.
+ */
+export function buildMetadataFilterSql(
+  filter: MemorySearchFilter | undefined,
+  alias?: string,
+): SearchFilterSql {
+  if (!filter) {
+    return NO_FILTER;
+  }
+  const pathColumn = alias ? `${alias}.path` : "path";
+  const clauses: string[] = [];
+  const params: Array<string | number> = [];
+  if (filter.pathGlob) {
+    clauses.push(`${pathColumn} GLOB ?`);
+    params.push(filter.pathGlob);
+  }
+  const fileClauses: string[] = [];
+  if (filter.since !== undefined) {
+    fileClauses.push("COALESCE(f.entry_ts, f.mtime) >= ?");
+    params.push(filter.since);
+  }
+  if (filter.until !== undefined) {
+    fileClauses.push("COALESCE(f.entry_ts, f.mtime) < ?");
+    params.push(filter.until);
+  }
+  for (const tag of filter.tags ?? []) {
+    fileClauses.push("instr(COALESCE(f.tags, ''), ?) > 0");
+    params.push(`|${tag}|`);
+  }
+  if (filter.channel) {
+    fileClauses.push("instr(COALESCE(f.channels, ''), ?) > 0");
+    params.push(`|${filter.channel}|`);
+  }
+  if (fileClauses.length > 0) {
+    clauses.push(
+      `${pathColumn} IN (SELECT f.path FROM files f WHERE ${fileClauses.join(" AND ")})`,
+    );
+  }
+  return {
+    sql: clauses.map((clause) => ` AND ${clause}`).join(""),
+    params,
+  };
+}
+
 export type SearchRowResult = {
   id: string;
   path: string;
@@ -27,10 +79,13 @@ export async function searchVector(params: {
   ensureVectorReady: (dimensions: number) => Promise<boolean>;
   sourceFilterVec: { sql: string; params: SearchSource[] };
   sourceFilterChunks: { sql: string; params: SearchSource[] };
+  metadataFilterVec?: SearchFilterSql;
+  metadataFilterChunks?: SearchFilterSql;
 }): Promise<SearchRowResult[]> {
   if (params.queryVec.length === 0 || params.limit <= 0) {
     return [];
   }
+  const metadataFilterVec = params.metadataFilterVec ?? NO_FILTER;
   if (await params.ensureVectorReady(params.queryVec.length)) {
     const rows = params.db
       .prepare(
@@ -39,7 +94,7 @@ export async function searchVector(params: {
           `       vec_distance_cosine(v.embedding, ?) AS dist\n` +
           `  FROM ${params.vectorTable} v\n` +
           `  JOIN chunks c ON c.id = v.id\n` +
-          ` WHERE c.model = ?${params.sourceFilterVec.sql}\n` +
+          ` WHERE c.model = ?${params.sourceFilterVec.sql}${metadataFilterVec.sql}\n` +
           ` ORDER BY dist ASC\n` +
           ` LIMIT ?`,
       )
@@ -47,6 +102,7 @@ export async function searchVector(params: {
         vectorToBlob(params.queryVec),
         params.providerModel,
         ...params.sourceFilterVec.params,
+        ...metadataFilterVec.params,
         params.limit,
       ) as Array<{
       id: string;
@@ -72,6 +128,7 @@ export async function searchVector(params: {
     db: params.db,
     providerModel: params.providerModel,
     sourceFilter: params.sourceFilterChunks,
+    metadataFilter: params.metadataFilterChunks,
   });
   const scored = candidates
     .map((chunk) => ({
@@ -97,6 +154,7 @@ export function listChunks(params: {
   db: DatabaseSync;
   providerModel: string;
   sourceFilter: { sql: string; params: SearchSource[] };
+  metadataFilter?: SearchFilterSql;
 }): Array<{
   id: string;
   path: string;
@@ -106,13 +164,14 @@ export function listChunks(params: {
   embedding: number[];
   source: SearchSource;
 }> {
+  const metadataFilter = params.metadataFilter ?? NO_FILTER;
   const rows = params.db
     .prepare(
       `SELECT id, path, start_line, end_line, text, embedding, source\n` +
         `  FROM chunks\n` +
-        ` WHERE model = ?${params.sourceFilter.sql}`,
+        ` WHERE model = ?${params.sourceFilter.sql}${metadataFilter.sql}`,
     )
-    .all(params.providerModel, ...params.sourceFilter.params) as Array<{
+    .all(params.providerModel, ...params.sourceFilter.params, ...metadataFilter.params) as Array<{
     id: string;
     path: string;
     start_line: number;
@@ -141,6 +200,7 @@ export async function searchKeyword(params: {
   limit: number;
   snippetMaxChars: number;
   sourceFilter: { sql: string; params: SearchSource[] };
+  metadataFilter?: SearchFilterSql;
   buildFtsQuery: (raw: string) => string | null;
   bm25RankToScore: (rank: number) => number;
 }): Promise<Array<SearchRowResult & { textScore: number }>> {
@@ -155,17 +215,24 @@ export async function searchKeyword(params: {
   // When providerModel is undefined (FTS-only mode), search all models
   const modelClause = params.providerModel ? " AND model = ?" : "";
   const modelParams = params.providerModel ? [params.providerModel] : [];
+  const metadataFilter = params.metadataFilter ?? NO_FILTER;
 
   const rows = params.db
     .prepare(
       `SELECT id, path, source, start_line, end_line, text,\n` +
         `       bm25(${params.ftsTable}) AS rank\n` +
         `  FROM ${params.ftsTable}\n` +
-        ` WHERE ${params.ftsTable} MATCH ?${modelClause}${params.sourceFilter.sql}\n` +
+        ` WHERE ${params.ftsTable} MATCH ?${modelClause}${params.sourceFilter.sql}${metadataFilter.sql}\n` +
         ` ORDER BY rank ASC\n` +
         ` LIMIT ?`,
     )
-    .all(ftsQuery, ...modelParams, ...params.sourceFilter.params, params.limit) as Array<{
+    .all(
+      ftsQuery,
+      ...modelParams,
+      ...params.sourceFilter.params,
+      ...metadataFilter.params,
+      params.limit,
+    ) as Array<{
     id: string;
     path: string;
     source: SearchSource;
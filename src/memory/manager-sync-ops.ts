@@ -7,7 +7,11 @@ import chokidar, { FSWatcher } from "chokidar";
 import { resolveAgentDir } from "../agents/agent-scope.js";
 import { ResolvedMemorySearchConfig } from "../agents/memory-search.js";
 import { type OpenClawConfig } from "../config/config.js";
-import { resolveSessionTranscriptsDirForAgent } from "../config/sessions/paths.js";
+import {
+  resolveSessionTranscriptsDirForAgent,
+  resolveStorePath,
+} from "../config/sessions/paths.js";
+import { loadSessionStore } from "../config/sessions/store.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { onSessionTranscriptUpdate } from "../sessions/transcript-events.js";
 import { resolveUserPath } from "../utils.js";
@@ -33,6 +37,11 @@ import {
 } from "./internal.js";
 import { type MemoryFileEntry } from "./internal.js";
 import { ensureMemoryIndexSchema } from "./memory-schema.js";
+import {
+  buildSessionTranscriptMetadata,
+  MEMORY_FILE_METADATA_VERSION,
+  type MemoryFileMetadata,
+} from "./search-filter.js";
 import type { SessionFileEntry } from "./session-files.js";
 import {
   buildSessionEntry,
@@ -51,6 +60,7 @@ type MemoryIndexMeta = {
   chunkTokens: number;
   chunkOverlap: number;
   vectorDims?: number;
+  metadataVersion?: number;
 };
 
 type MemorySyncProgressState = {
@@ -151,7 +161,7 @@ export abstract class MemoryManagerSyncOps {
   protected abstract pruneEmbeddingCacheIfNeeded(): void;
   protected abstract indexFile(
     entry: MemoryFileEntry | SessionFileEntry,
-    options: { source: MemorySource; content?: string },
+    options: { source: MemorySource; content?: string; metadata?: MemoryFileMetadata },
   ): Promise<void>;
 
   protected async ensureVectorReady(dimensions?: number): Promise<boolean> {
@@ -235,8 +245,13 @@ export abstract class MemoryManagerSyncOps {
     }
   }
 
-  protected buildSourceFilter(alias?: string): { sql: string; params: MemorySource[] } {
-    const sources = Array.from(this.sources);
+  protected buildSourceFilter(
+    alias?: string,
+    restrictTo?: MemorySource[],
+  ): { sql: string; params: MemorySource[] } {
+    const sources = Array.from(this.sources).filter(
+      (source) => !restrictTo || restrictTo.includes(source),
+    );
     if (sources.length === 0) {
       return { sql: "", params: [] };
     }
@@ -708,6 +723,16 @@ export abstract class MemoryManagerSyncOps {
     }
   }
 
+  private loadSessionTranscriptMetadata(): Map<string, MemoryFileMetadata> {
+    try {
+      const storePath = resolveStorePath(this.cfg.session?.store, { agentId: this.agentId });
+      return buildSessionTranscriptMetadata(loadSessionStore(storePath));
+    } catch (err) {
+      log.debug(`memory sync: failed to read session store metadata: ${String(err)}`);
+      return new Map();
+    }
+  }
+
   private async syncSessionFiles(params: {
     needsFullReindex: boolean;
     progress?: MemorySyncProgressState;
@@ -719,6 +744,7 @@ export abstract class MemoryManagerSyncOps {
     }
 
     const files = await listSessionFilesForAgent(this.agentId);
+    const sessionMetadata = this.loadSessionTranscriptMetadata();
     const activePaths = new Set(files.map((file) => sessionPathForFile(file)));
     const indexAll = params.needsFullReindex || this.sessionsDirtyFiles.size === 0;
     log.debug("memory sync: indexing session files", {
@@ -773,7 +799,11 @@ export abstract class MemoryManagerSyncOps {
         this.resetSessionDelta(absPath, entry.size);
         return;
       }
-      await this.indexFile(entry, { source: "sessions", content: entry.content });
+      await this.indexFile(entry, {
+        source: "sessions",
+        content: entry.content,
+        metadata: sessionMetadata.get(path.basename(absPath)),
+      });
       this.resetSessionDelta(absPath, entry.size);
       if (params.progress) {
         params.progress.completed += 1;
@@ -865,6 +895,7 @@ export abstract class MemoryManagerSyncOps {
       this.metaSourcesDiffer(meta, configuredSources) ||
       meta.chunkTokens !== this.settings.chunking.tokens ||
       meta.chunkOverlap !== this.settings.chunking.overlap ||
+      meta.metadataVersion !== MEMORY_FILE_METADATA_VERSION ||
       (vectorReady && !meta?.vectorDims);
     try {
       if (needsFullReindex) {
@@ -1068,6 +1099,7 @@ export abstract class MemoryManagerSyncOps {
         sources: this.resolveConfiguredSourcesForMeta(),
         chunkTokens: this.settings.chunking.tokens,
         chunkOverlap: this.settings.chunking.overlap,
+        metadataVersion: MEMORY_FILE_METADATA_VERSION,
       };
       if (!nextMeta) {
         throw new Error("Failed to compute memory index metadata for reindexing.");
@@ -1139,6 +1171,7 @@ export abstract class MemoryManagerSyncOps {
       sources: this.resolveConfiguredSourcesForMeta(),
       chunkTokens: this.settings.chunking.tokens,
       chunkOverlap: this.settings.chunking.overlap,
+      metadataVersion: MEMORY_FILE_METADATA_VERSION,
     };
     if (this.vector.available && this.vector.dims) {
       nextMeta.vectorDims = this.vector.dims;
@@ -16,16 +16,24 @@ import {
   type OpenAiEmbeddingClient,
   type VoyageEmbeddingClient,
 } from "./embeddings.js";
+import { deleteMemoryEntry, listMemoryEntries, upsertMemoryEntry } from "./entries.js";
 import { isFileMissingError, statRegularFile } from "./fs-utils.js";
 import { bm25RankToScore, buildFtsQuery, mergeHybridResults } from "./hybrid.js";
 import { isMemoryPath, normalizeExtraMemoryPaths } from "./internal.js";
 import { MemoryManagerEmbeddingOps } from "./manager-embedding-ops.js";
-import { searchKeyword, searchVector } from "./manager-search.js";
+import { buildMetadataFilterSql, searchKeyword, searchVector } from "./manager-search.js";
 import { extractKeywords } from "./query-expansion.js";
+import { applyRerankScores, createMemoryReranker, type MemoryReranker } from "./rerank.js";
+import { normalizeMemorySearchFilter } from "./search-filter.js";
 import type {
   MemoryEmbeddingProbeResult,
+  MemoryEntry,
+  MemoryEntryListOptions,
+  MemoryEntryUpsert,
   MemoryProviderStatus,
+  MemorySearchFilter,
   MemorySearchManager,
+  MemorySearchOptions,
   MemorySearchResult,
   MemorySource,
   MemorySyncProgressUpdate,
@@ -104,6 +112,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
   private readonlyRecoverySuccesses = 0;
   private readonlyRecoveryFailures = 0;
   private readonlyRecoveryLastError?: string;
+  private reranker?: MemoryReranker | null;
 
   static async get(params: {
     cfg: OpenClawConfig;
@@ -227,14 +236,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     }
   }
 
-  async search(
-    query: string,
-    opts?: {
-      maxResults?: number;
-      minScore?: number;
-      sessionKey?: string;
-    },
-  ): Promise<MemorySearchResult[]> {
+  async search(query: string, opts?: MemorySearchOptions): Promise<MemorySearchResult[]> {
     void this.warmSession(opts?.sessionKey);
     if (this.settings.sync.onSearch && (this.dirty || this.sessionsDirty)) {
       void this.sync({ reason: "search" }).catch((err) => {
@@ -245,6 +247,10 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     if (!cleaned) {
       return [];
     }
+    const filter = normalizeMemorySearchFilter(opts?.filter);
+    if (filter?.sources && !filter.sources.some((source) => this.sources.has(source))) {
+      return [];
+    }
     const minScore = opts?.minScore ?? this.settings.query.minScore;
     const maxResults = opts?.maxResults ?? this.settings.query.maxResults;
     const hybrid = this.settings.query.hybrid;
@@ -267,7 +273,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
 
       // Search with each keyword and merge results
       const resultSets = await Promise.all(
-        searchTerms.map((term) => this.searchKeyword(term, candidates).catch(() => [])),
+        searchTerms.map((term) => this.searchKeyword(term, candidates, filter).catch(() => [])),
       );
 
       // Merge and deduplicate results, keeping highest score for each chunk
@@ -283,24 +289,27 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
 
       const merged = [...seenIds.values()]
         .toSorted((a, b) => b.score - a.score)
-        .filter((entry) => entry.score >= minScore)
-        .slice(0, maxResults);
+        .filter((entry) => entry.score >= minScore);
 
-      return merged;
+      return await this.rerankResults(cleaned, merged, maxResults);
     }
 
     const keywordResults = hybrid.enabled
-      ? await this.searchKeyword(cleaned, candidates).catch(() => [])
+      ? await this.searchKeyword(cleaned, candidates, filter).catch(() => [])
       : [];
 
     const queryVec = await this.embedQueryWithTimeout(cleaned);
     const hasVector = queryVec.some((v) => v !== 0);
     const vectorResults = hasVector
-      ? await this.searchVector(queryVec, candidates).catch(() => [])
+      ? await this.searchVector(queryVec, candidates, filter).catch(() => [])
       : [];
 
     if (!hybrid.enabled) {
-      return vectorResults.filter((entry) => entry.score >= minScore).slice(0, maxResults);
+      return await this.rerankResults(
+        cleaned,
+        vectorResults.filter((entry) => entry.score >= minScore),
+        maxResults,
+      );
     }
 
     const merged = await this.mergeHybridResults({
@@ -312,12 +321,70 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       temporalDecay: hybrid.temporalDecay,
     });
 
-    return merged.filter((entry) => entry.score >= minScore).slice(0, maxResults);
+    return await this.rerankResults(
+      cleaned,
+      merged.filter((entry) => entry.score >= minScore),
+      maxResults,
+    );
+  }
+
+  /**
+   * Optional cross-encoder stage over the top candidates. Any failure or
+   * timeout keeps the hybrid ordering so recall never depends on the reranker.
+   */
+  private async rerankResults<T extends MemorySearchResult>(
+    query: string,
+    results: T[],
+    maxResults: number,
+  ): Promise<T[]> {
+    const config = this.settings.query.rerank;
+    if (!config.enabled || results.length < 2) {
+      return results.slice(0, maxResults);
+    }
+    const reranker = this.resolveReranker();
+    if (!reranker) {
+      return results.slice(0, maxResults);
+    }
+    const head = results.slice(0, config.topN);
+    const controller = new AbortController();
+    try {
+      const scores = await this.withTimeout(
+        reranker.rerank(
+          query,
+          head.map((entry) => entry.snippet),
+          controller.signal,
+        ),
+        config.timeoutMs,
+        `memory rerank timed out after ${config.timeoutMs}ms`,
+      );
+      if (scores.length !== head.length) {
+        throw new Error(`reranker returned ${scores.length} scores for ${head.length} results`);
+      }
+      return applyRerankScores(results, scores).slice(0, maxResults);
+    } catch (err) {
+      controller.abort();
+      log.warn(`memory rerank failed (${reranker.id}); keeping hybrid order: ${String(err)}`);
+      return results.slice(0, maxResults);
+    }
+  }
+
+  private resolveReranker(): MemoryReranker | null {
+    if (this.reranker !== undefined) {
+      return this.reranker;
+    }
+    try {
+      this.reranker = createMemoryReranker(this.settings.query.rerank);
+    } catch (err) {
+      log.warn(`memory rerank disabled: ${String(err)}`);
+      this.reranker = null;
+    }
+    return this.reranker;
   }
 
   private async searchVector(
     queryVec: number[],
     limit: number,
+    filter?: MemorySearchFilter,
   ): Promise<Array<MemorySearchResult & { id: string }>> {
     // This method should never be called without a provider
     if (!this.provider) {
@@ -331,8 +398,10 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       limit,
       snippetMaxChars: SNIPPET_MAX_CHARS,
       ensureVectorReady: async (dimensions) => await this.ensureVectorReady(dimensions),
-      sourceFilterVec: this.buildSourceFilter("c"),
-      sourceFilterChunks: this.buildSourceFilter(),
+      sourceFilterVec: this.buildSourceFilter("c", filter?.sources),
+      sourceFilterChunks: this.buildSourceFilter(undefined, filter?.sources),
+      metadataFilterVec: buildMetadataFilterSql(filter, "c"),
+      metadataFilterChunks: buildMetadataFilterSql(filter),
     });
     return results.map((entry) => entry as MemorySearchResult & { id: string });
   }
@@ -344,11 +413,12 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
   private async searchKeyword(
     query: string,
     limit: number,
+    filter?: MemorySearchFilter,
   ): Promise<Array<MemorySearchResult & { id: string; textScore: number }>> {
     if (!this.fts.enabled || !this.fts.available) {
       return [];
     }
-    const sourceFilter = this.buildSourceFilter();
+    const sourceFilter = this.buildSourceFilter(undefined, filter?.sources);
     // In FTS-only mode (no provider), search all models; otherwise filter by current provider's model
     const providerModel = this.provider?.model;
     const results = await searchKeyword({
@@ -359,6 +429,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       limit,
       snippetMaxChars: SNIPPET_MAX_CHARS,
       sourceFilter,
+      metadataFilter: buildMetadataFilterSql(filter),
       buildFtsQuery: (raw) => this.buildFtsQuery(raw),
       bm25RankToScore,
     });
@@ -575,6 +646,31 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     return { text: slice.join("\n"), path: relPath };
   }
 
+  async upsert(entry: MemoryEntryUpsert): Promise<MemoryEntry> {
+    const saved = await upsertMemoryEntry({ workspaceDir: this.workspaceDir, entry });
+    this.scheduleEntrySync();
+    return saved;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const removed = await deleteMemoryEntry({ workspaceDir: this.workspaceDir, id });
+    if (removed) {
+      this.scheduleEntrySync();
+    }
+    return removed;
+  }
+
+  async list(opts?: MemoryEntryListOptions): Promise<MemoryEntry[]> {
+    return await listMemoryEntries({ workspaceDir: this.workspaceDir, opts });
+  }
+
+  private scheduleEntrySync(): void {
+    this.dirty = true;
+    void this.sync({ reason: "memory-write" }).catch((err) => {
+      log.warn(`memory sync failed (memory-write): ${String(err)}`);
+    });
+  }
+
   status(): MemoryProviderStatus {
     const sourceFilter = this.buildSourceFilter();
     const files = this.db
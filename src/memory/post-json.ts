@@ -6,6 +6,7 @@ export async function postJson<T>(params: {
   headers: Record<string, string>;
   ssrfPolicy?: SsrFPolicy;
   body: unknown;
+  signal?: AbortSignal;
   errorPrefix: string;
   attachStatus?: boolean;
   parse: (payload: unknown) => T | Promise<T>;
@@ -17,6 +18,7 @@ export async function postJson<T>(params: {
       method: "POST",
       headers: params.headers,
       body: JSON.stringify(params.body),
+      signal: params.signal,
     },
     onResponse: async (res) => {
       if (!res.ok) {
@@ -7,6 +7,7 @@ import { resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
 import type { OpenClawConfig } from "../config/config.js";
 import { resolveStateDir } from "../config/paths.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
+import { deleteMemoryEntry, listMemoryEntries, upsertMemoryEntry } from "./entries.js";
 import { isFileMissingError, statRegularFile } from "./fs-utils.js";
 import { deriveQmdScopeChannel, deriveQmdScopeChatType, isQmdScopeAllowed } from "./qmd-scope.js";
 import {
@@ -17,8 +18,12 @@ import {
 import { requireNodeSqlite } from "./sqlite.js";
 import type {
   MemoryEmbeddingProbeResult,
+  MemoryEntry,
+  MemoryEntryListOptions,
+  MemoryEntryUpsert,
   MemoryProviderStatus,
   MemorySearchManager,
+  MemorySearchOptions,
   MemorySearchResult,
   MemorySource,
   MemorySyncProgressUpdate,
@@ -32,6 +37,7 @@ import type {
 } from "./backend-config.js";
 import { parseQmdQueryJson, type QmdQueryResult } from "./qmd-query-parser.js";
 import { extractKeywords } from "./query-expansion.js";
+import { memoryPathGlobToRegExp, normalizeMemorySearchFilter } from "./search-filter.js";
 
 const log = createSubsystemLogger("memory");
 
@@ -605,10 +611,7 @@ export class QmdMemoryManager implements MemorySearchManager {
     return true;
   }
 
-  async search(
-    query: string,
-    opts?: { maxResults?: number; minScore?: number; sessionKey?: string },
-  ): Promise<MemorySearchResult[]> {
+  async search(query: string, opts?: MemorySearchOptions): Promise<MemorySearchResult[]> {
     if (!this.isScopeAllowed(opts?.sessionKey)) {
       this.logScopeDenied(opts?.sessionKey);
       return [];
@@ -622,11 +625,17 @@ export class QmdMemoryManager implements MemorySearchManager {
       this.qmd.limits.maxResults,
       opts?.maxResults ?? this.qmd.limits.maxResults,
     );
-    const collectionNames = this.listManagedCollectionNames();
+    const filter = normalizeMemorySearchFilter(opts?.filter);
+    // QMD owns its index, so only the source filter can be pushed down (as a
+    // collection selection); path globs are applied to the resolved documents.
+    const collectionNames = this.listManagedCollectionNames(filter?.sources);
     if (collectionNames.length === 0) {
-      log.warn("qmd query skipped: no managed collections configured");
+      if (!filter?.sources) {
+        log.warn("qmd query skipped: no managed collections configured");
+      }
       return [];
     }
+    const pathMatcher = filter?.pathGlob ? memoryPathGlobToRegExp(filter.pathGlob) : null;
     const qmdSearchCommand = this.qmd.searchMode;
     const mcporterEnabled = this.qmd.mcporter.enabled;
     const runSearchAttempt = async (
@@ -722,7 +731,7 @@ export class QmdMemoryManager implements MemorySearchManager {
         preferredCollection: entry.collection,
         preferredFile: entry.file,
       });
-      if (!doc) {
+      if (!doc || (pathMatcher && !pathMatcher.test(doc.rel))) {
         continue;
       }
       const snippet = entry.snippet?.slice(0, this.qmd.limits.maxSnippetChars) ?? "";
@@ -796,6 +805,30 @@ export class QmdMemoryManager implements MemorySearchManager {
     return { text: slice.join("\n"), path: relPath };
   }
 
+  async upsert(entry: MemoryEntryUpsert): Promise<MemoryEntry> {
+    const saved = await upsertMemoryEntry({ workspaceDir: this.workspaceDir, entry });
+    this.scheduleEntryUpdate();
+    return saved;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const removed = await deleteMemoryEntry({ workspaceDir: this.workspaceDir, id });
+    if (removed) {
+      this.scheduleEntryUpdate();
+    }
+    return removed;
+  }
+
+  async list(opts?: MemoryEntryListOptions): Promise<MemoryEntry[]> {
+    return await listMemoryEntries({ workspaceDir: this.workspaceDir, opts });
+  }
+
+  private scheduleEntryUpdate(): void {
+    void this.runUpdate("memory-write", true).catch((err) => {
+      log.warn(`qmd update failed (memory-write): ${String(err)}`);
+    });
+  }
+
   status(): MemoryProviderStatus {
     const counts = this.readCounts();
     return {
@@ -1852,10 +1885,14 @@ export class QmdMemoryManager implements MemorySearchManager {
     return [...bestByDocId.values()].toSorted((a, b) => (b.score ?? 0) - (a.score ?? 0));
   }
 
-  private listManagedCollectionNames(): string[] {
+  private listManagedCollectionNames(sources?: MemorySource[]): string[] {
     const seen = new Set<string>();
     const names: string[] = [];
     for (const collection of this.qmd.collections) {
+      const source: MemorySource = collection.kind === "sessions" ? "sessions" : "memory";
+      if (sources && !sources.includes(source)) {
+        continue;
+      }
       const name = collection.name?.trim();
       if (!name || seen.has(name)) {
         continue;
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { postJson } from "./post-json.js";
+import { applyRerankScores, createMemoryReranker } from "./rerank.js";
+
+vi.mock("./post-json.js", () => ({
+  postJson: vi.fn(),
+}));
+
+const BASE_CONFIG = {
+  enabled: true,
+  provider: "remote" as const,
+  model: "bge-reranker-v2-m3",
+  topN: 20,
+  timeoutMs: 5_000,
+};
+
+describe("memory rerank", () => {
+  const postJsonMock = vi.mocked(postJson);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("reorders the reranked head and keeps the tail below it", () => {
+    const results = [
+      { id: "a", score: 0.9 },
+      { id: "b", score: 0.8 },
+      { id: "c", score: 0.7 },
+      { id: "d", score: 0.6 },
+    ];
+
+    const reranked = applyRerankScores(results, [0.1, 0.95, Number.NEGATIVE_INFINITY]);
+
+    expect(reranked).toEqual([
+      { id: "b", score: 0.95 },
+      { id: "a", score: 0.1 },
+      { id: "c", score: 0.7 },
+      { id: "d", score: 0.6 },
+    ]);
+  });
+
+  it("maps OpenAI-compatible rerank responses back to input order", async () => {
+    postJsonMock.mockImplementationOnce(async (params) => {
+      return await params.parse({
+        results: [
+          { index: 2, relevance_score: 0.9 },
+          { index: 0, relevance_score: 0.4 },
+          { index: 1, score: 0.2 },
+        ],
+      });
+    });
+
+    const reranker = createMemoryReranker({
+      ...BASE_CONFIG,
+      remote: { baseUrl: "https://rerank.example/v1/", apiKey: "sk-test" },
+    });
+    const scores = await reranker.rerank("dns", ["one", "two", "three"]);
+
+    expect(scores).toEqual([0.4, 0.2, 0.9]);
+    expect(postJsonMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: "https://rerank.example/v1/rerank",
+        headers: expect.objectContaining({ Authorization: "Bearer sk-test" }),
+        body: {
+          model: "bge-reranker-v2-m3",
+          query: "dns",
+          documents: ["one", "two", "three"],
+          top_n: 3,
+        },
+      }),
+    );
+  });
+
+  it("requires a base URL and model for the remote provider", () => {
+    expect(() => createMemoryReranker(BASE_CONFIG)).toThrow("remote.baseUrl is required");
+    expect(() =>
+      createMemoryReranker({
+        ...BASE_CONFIG,
+        model: undefined,
+        remote: { baseUrl: "https://rerank.example/v1" },
+      }),
+    ).toThrow("rerank.model is required");
+  });
+});
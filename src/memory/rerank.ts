@@ -0,0 +1,125 @@
+import type { Llama, LlamaModel, LlamaRankingContext } from "node-llama-cpp";
+import type { ResolvedMemorySearchConfig } from "../agents/memory-search.js";
+import { importNodeLlamaCpp } from "./node-llama.js";
+import { postJson } from "./post-json.js";
+import { buildRemoteBaseUrlPolicy } from "./remote-http.js";
+
+export type ResolvedMemoryRerankConfig = ResolvedMemorySearchConfig["query"]["rerank"];
+
+export type MemoryReranker = {
+  id: "local" | "remote";
+  model: string;
+  /** Returns one relevance score per document, in input order. */
+  rerank: (query: string, documents: string[], signal?: AbortSignal) => Promise<number[]>;
+};
+
+export const DEFAULT_LOCAL_RERANK_MODEL =
+  "hf:gpustack/bge-reranker-v2-m3-GGUF/bge-reranker-v2-m3-Q8_0.gguf";
+
+function createLocalReranker(config: ResolvedMemoryRerankConfig): MemoryReranker {
+  const modelPath = config.model?.trim() || DEFAULT_LOCAL_RERANK_MODEL;
+  let llama: Llama | null = null;
+  let model: LlamaModel | null = null;
+  let context: LlamaRankingContext | null = null;
+
+  const ensureContext = async () => {
+    // Lazy-load node-llama-cpp so the dependency stays optional until reranking runs.
+    const { getLlama, resolveModelFile, LlamaLogLevel } = await importNodeLlamaCpp();
+    if (!llama) {
+      llama = await getLlama({ logLevel: LlamaLogLevel.error });
+    }
+    if (!model) {
+      const resolved = await resolveModelFile(modelPath, config.modelCacheDir || undefined);
+      model = await llama.loadModel({ modelPath: resolved });
+    }
+    if (!context) {
+      context = await model.createRankingContext();
+    }
+    return context;
+  };
+
+  return {
+    id: "local",
+    model: modelPath,
+    rerank: async (query, documents) => {
+      const ctx = await ensureContext();
+      return await ctx.rankAll(query, documents);
+    },
+  };
+}
+
+function parseRemoteRerankResponse(payload: unknown, count: number): number[] {
+  const results =
+    (payload as { results?: unknown; data?: unknown } | null)?.results ??
+    (payload as { data?: unknown } | null)?.data;
+  if (!Array.isArray(results)) {
+    throw new Error("rerank response missing results");
+  }
+  const scores: number[] = Array.from({ length: count }, () => Number.NEGATIVE_INFINITY);
+  for (const entry of results) {
+    const record = entry as { index?: unknown; relevance_score?: unknown; score?: unknown };
+    const index = typeof record.index === "number" ? record.index : -1;
+    const score =
+      typeof record.relevance_score === "number" ? record.relevance_score : record.score;
+    if (index >= 0 && index < count && typeof score === "number" && Number.isFinite(score)) {
+      scores[index] = score;
+    }
+  }
+  return scores;
+}
+
+function createRemoteReranker(config: ResolvedMemoryRerankConfig): MemoryReranker {
+  const baseUrl = config.remote?.baseUrl?.trim();
+  if (!baseUrl) {
+    throw new Error("memorySearch.query.rerank.remote.baseUrl is required for the remote reranker");
+  }
+  const model = config.model?.trim();
+  if (!model) {
+    throw new Error("memorySearch.query.rerank.model is required for the remote reranker");
+  }
+  const url = `${baseUrl.replace(/\/+$/, "")}/rerank`;
+  const apiKey = config.remote?.apiKey?.trim();
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    ...config.remote?.headers,
+  };
+  const ssrfPolicy = buildRemoteBaseUrlPolicy(baseUrl);
+  return {
+    id: "remote",
+    model,
+    rerank: async (query, documents, signal) =>
+      await postJson({
+        url,
+        headers,
+        ssrfPolicy,
+        body: { model, query, documents, top_n: documents.length },
+        signal,
+        errorPrefix: "memory rerank failed",
+        parse: (payload) => parseRemoteRerankResponse(payload, documents.length),
+      }),
+  };
+}
+
+export function createMemoryReranker(config: ResolvedMemoryRerankConfig): MemoryReranker {
+  return config.provider === "remote" ? createRemoteReranker(config) : createLocalReranker(config);
+}
+
+/**
+ * Reorders the first `topN` results by reranker relevance and replaces their
+ * scores; the remaining results keep their order below the reranked head.
+ */
+export function applyRerankScores<T extends { score: number }>(
+  results: T[],
+  scores: number[],
+): T[] {
+  const head = results.slice(0, scores.length).map((entry, index) => ({
+    entry,
+    index,
+    score: scores[index] ?? Number.NEGATIVE_INFINITY,
+  }));
+  const reranked = head
+    .toSorted((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ entry, score }) => (Number.isFinite(score) ? { ...entry, score } : entry));
+  return [...reranked, ...results.slice(scores.length)];
+}
@@ -0,0 +1,178 @@
+import path from "node:path";
+import type { SessionEntry } from "../config/sessions/types.js";
+import { parseFrontmatterBlock } from "../markdown/frontmatter.js";
+import { parseAgentSessionKey } from "../sessions/session-key-utils.js";
+import { normalizeStringList } from "../shared/frontmatter.js";
+import { parseMemoryDateFromPath } from "./temporal-decay.js";
+import type { MemorySearchFilter, MemorySource } from "./types.js";
+
+/** Bump when the metadata extracted at index time changes so existing indexes are rebuilt. */
+export const MEMORY_FILE_METADATA_VERSION = 1;
+
+const MEMORY_SOURCES = new Set<MemorySource>(["memory", "sessions"]);
+
+/** Per-file metadata stored next to the `files` row and used for search filters. */
+export type MemoryFileMetadata = {
+  /** Entry timestamp (frontmatter updatedAt/createdAt or the dated file name). */
+  timestamp?: number;
+  tags: string[];
+  channels: string[];
+};
+
+export function normalizeMemoryTag(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+export function normalizeMemoryChannelLabel(value: string): string {
+  return value.trim().replace(/^#+/, "").toLowerCase();
+}
+
+function uniqueNonEmpty(values: Iterable<string>): string[] {
+  const seen = new Set<string>();
+  for (const value of values) {
+    if (value) {
+      seen.add(value);
+    }
+  }
+  return [...seen];
+}
+
+/**
+ * Encodes a label list as `|a|b|` so SQL filters can match a single label with
+ * `instr(column, '|label|')` without LIKE escaping.
+ */
+export function encodeMemoryMetadataList(values: string[]): string | null {
+  const cleaned = values.filter((value) => value && !value.includes("|"));
+  return cleaned.length > 0 ? `|${cleaned.join("|")}|` : null;
+}
+
+function parseTimestamp(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Date.parse(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function parseFrontmatterTags(raw: string | undefined): string[] {
+  if (!raw) {
+    return [];
+  }
+  let values: unknown = raw;
+  if (raw.startsWith("[")) {
+    try {
+      values = JSON.parse(raw);
+    } catch {
+      values = raw.slice(1, -1);
+    }
+  }
+  return uniqueNonEmpty(normalizeStringList(values).map(normalizeMemoryTag));
+}
+
+/** Channel labels derived from a session key (`agent:<id>:<channel>:<kind>:<peer>`). */
+export function resolveSessionKeyChannels(sessionKey: string | undefined): string[] {
+  const rest = parseAgentSessionKey(sessionKey)?.rest;
+  if (!rest) {
+    return [];
+  }
+  const parts = rest.split(":").filter(Boolean);
+  if (parts.length < 2 || !["direct", "dm", "group", "channel"].includes(parts[1] ?? "")) {
+    return [];
+  }
+  return uniqueNonEmpty(
+    [parts[0], parts.slice(2).join(":")].map((part) => normalizeMemoryChannelLabel(part ?? "")),
+  );
+}
+
+export function extractMemoryFileMetadata(relPath: string, content: string): MemoryFileMetadata {
+  const frontmatter = parseFrontmatterBlock(content);
+  const sessionKey = frontmatter.sessionKey ?? frontmatter.session;
+  const channels = [
+    ...resolveSessionKeyChannels(sessionKey),
+    ...normalizeStringList(frontmatter.channel).map(normalizeMemoryChannelLabel),
+  ];
+  return {
+    timestamp:
+      parseTimestamp(frontmatter.updatedAt) ??
+      parseTimestamp(frontmatter.createdAt) ??
+      parseTimestamp(frontmatter.date) ??
+      parseMemoryDateFromPath(relPath)?.getTime(),
+    tags: parseFrontmatterTags(frontmatter.tags),
+    channels: uniqueNonEmpty(channels),
+  };
+}
+
+function resolveSessionEntryChannels(sessionKey: string, entry: SessionEntry): string[] {
+  const labels = [
+    entry.channel,
+    entry.lastChannel,
+    entry.origin?.provider,
+    entry.groupChannel,
+    entry.subject,
+  ].filter((value): value is string => typeof value === "string");
+  return uniqueNonEmpty([
+    ...resolveSessionKeyChannels(sessionKey),
+    ...labels.map(normalizeMemoryChannelLabel),
+  ]);
+}
+
+/** Maps transcript file names (`<sessionId>.jsonl`) to the channels recorded in the session store. */
+export function buildSessionTranscriptMetadata(
+  store: Record<string, SessionEntry>,
+): Map<string, MemoryFileMetadata> {
+  const byFile = new Map<string, MemoryFileMetadata>();
+  for (const [sessionKey, entry] of Object.entries(store)) {
+    if (!entry?.sessionId) {
+      continue;
+    }
+    const meta: MemoryFileMetadata = {
+      tags: [],
+      channels: resolveSessionEntryChannels(sessionKey, entry),
+    };
+    byFile.set(`${entry.sessionId}.jsonl`, meta);
+    if (entry.sessionFile) {
+      byFile.set(path.basename(entry.sessionFile), meta);
+    }
+  }
+  return byFile;
+}
+
+export function normalizeMemorySearchFilter(
+  raw: MemorySearchFilter | undefined,
+): MemorySearchFilter | undefined {
+  if (!raw) {
+    return undefined;
+  }
+  const filter: MemorySearchFilter = {};
+  const sources = raw.sources?.filter((source) => MEMORY_SOURCES.has(source));
+  if (raw.sources && sources) {
+    filter.sources = uniqueNonEmpty(sources) as MemorySource[];
+  }
+  const pathGlob = raw.pathGlob?.trim().replace(/\\/g, "/").replace(/^\.\//, "");
+  if (pathGlob) {
+    filter.pathGlob = pathGlob;
+  }
+  if (typeof raw.since === "number" && Number.isFinite(raw.since)) {
+    filter.since = raw.since;
+  }
+  if (typeof raw.until === "number" && Number.isFinite(raw.until)) {
+    filter.until = raw.until;
+  }
+  const tags = uniqueNonEmpty((raw.tags ?? []).map(normalizeMemoryTag)).filter(
+    (tag) => !tag.includes("|"),
+  );
+  if (tags.length > 0) {
+    filter.tags = tags;
+  }
+  const channel = raw.channel ? normalizeMemoryChannelLabel(raw.channel) : "";
+  if (channel && !channel.includes("|")) {
+    filter.channel = channel;
+  }
+  return Object.keys(filter).length > 0 ? filter : undefined;
+}
+
+/** Converts a SQLite-style path glob (`*`, `?`) to a RegExp for backends without SQL pushdown. */
+export function memoryPathGlobToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escaped.replace(/\*/g, ".*").replace(/\?/g, ".")}$`);
+}
@@ -4,7 +4,11 @@ import type { ResolvedQmdConfig } from "./backend-config.js";
 import { resolveMemoryBackendConfig } from "./backend-config.js";
 import type {
   MemoryEmbeddingProbeResult,
+  MemoryEntry,
+  MemoryEntryListOptions,
+  MemoryEntryUpsert,
   MemorySearchManager,
+  MemorySearchOptions,
   MemorySyncProgressUpdate,
 } from "./types.js";
 
@@ -86,10 +90,7 @@ class FallbackMemoryManager implements MemorySearchManager {
     private readonly onClose?: () => void,
   ) {}
 
-  async search(
-    query: string,
-    opts?: { maxResults?: number; minScore?: number; sessionKey?: string },
-  ) {
+  async search(query: string, opts?: MemorySearchOptions) {
     if (!this.primaryFailed) {
       try {
         return await this.deps.primary.search(query, opts);
@@ -162,6 +163,27 @@ class FallbackMemoryManager implements MemorySearchManager {
     await fallback?.sync?.(params);
   }
 
+  async upsert(entry: MemoryEntryUpsert): Promise<MemoryEntry> {
+    const target = await this.resolveWriteTarget();
+    if (!target.upsert) {
+      throw new Error("memory writes unavailable");
+    }
+    return await target.upsert(entry);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const target = await this.resolveWriteTarget();
+    if (!target.delete) {
+      throw new Error("memory writes unavailable");
+    }
+    return await target.delete(id);
+  }
+
+  async list(opts?: MemoryEntryListOptions): Promise<MemoryEntry[]> {
+    const target = await this.resolveWriteTarget();
+    return (await target.list?.(opts)) ?? [];
+  }
+
   async probeEmbeddingAvailability(): Promise<MemoryEmbeddingProbeResult> {
     if (!this.primaryFailed) {
       return await this.deps.primary.probeEmbeddingAvailability();
@@ -187,6 +209,17 @@ class FallbackMemoryManager implements MemorySearchManager {
     this.evictCacheEntry();
   }
 
+  private async resolveWriteTarget(): Promise<MemorySearchManager> {
+    if (!this.primaryFailed) {
+      return this.deps.primary;
+    }
+    const fallback = await this.ensureFallback();
+    if (fallback) {
+      return fallback;
+    }
+    throw new Error(this.lastError ?? "memory writes unavailable");
+  }
+
   private async ensureFallback(): Promise<MemorySearchManager | null> {
     if (this.fallback) {
       return this.fallback;
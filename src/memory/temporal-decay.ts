@@ -41,7 +41,7 @@ export function applyTemporalDecayToScore(params: {
   return params.score * calculateTemporalDecayMultiplier(params);
 }
 
-function parseMemoryDateFromPath(filePath: string): Date | null {
+export function parseMemoryDateFromPath(filePath: string): Date | null {
   const normalized = filePath.replaceAll("\\", "/").replace(/^\.\//, "");
   const match = DATED_MEMORY_PATH_RE.exec(normalized);
   if (!match) {
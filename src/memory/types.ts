@@ -10,6 +10,28 @@ export type MemorySearchResult = {
   citation?: string;
 };
 
+export type MemorySearchFilter = {
+  /** Restrict results to these sources (intersected with the configured sources). */
+  sources?: MemorySource[];
+  /** Workspace-relative path glob, e.g. `memory/entries/*` (`*` also matches `/`). */
+  pathGlob?: string;
+  /** Inclusive lower bound (epoch ms) on the entry timestamp, falling back to file mtime. */
+  since?: number;
+  /** Exclusive upper bound (epoch ms) on the entry timestamp, falling back to file mtime. */
+  until?: number;
+  /** Only match files whose frontmatter carries every listed tag. */
+  tags?: string[];
+  /** Originating channel: a provider id (`slack`) or conversation label (`#infra`). */
+  channel?: string;
+};
+
+export type MemorySearchOptions = {
+  maxResults?: number;
+  minScore?: number;
+  sessionKey?: string;
+  filter?: MemorySearchFilter;
+};
+
 export type MemoryEmbeddingProbeResult = {
   ok: boolean;
   error?: string;
@@ -58,11 +80,39 @@ export type MemoryProviderStatus = {
   custom?: Record<string, unknown>;
 };
 
+export type MemoryEntry = {
+  id: string;
+  /** Workspace-relative markdown path backing the entry (memory/entries/<id>.md). */
+  path: string;
+  text: string;
+  tags: string[];
+  sessionKey?: string;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt?: number;
+};
+
+export type MemoryEntryUpsert = {
+  /** Existing entry id to replace; a new id is generated when omitted. */
+  id?: string;
+  text: string;
+  /** Replaces the stored tags when provided. */
+  tags?: string[];
+  sessionKey?: string;
+  /** Absolute expiry (epoch ms); `null` clears an existing expiry. */
+  expiresAt?: number | null;
+};
+
+export type MemoryEntryListOptions = {
+  /** Only return entries carrying every listed tag. */
+  tags?: string[];
+  sessionKey?: string;
+  limit?: number;
+  includeExpired?: boolean;
+};
+
 export interface MemorySearchManager {
-  search(
-    query: string,
-    opts?: { maxResults?: number; minScore?: number; sessionKey?: string },
-  ): Promise<MemorySearchResult[]>;
+  search(query: string, opts?: MemorySearchOptions): Promise<MemorySearchResult[]>;
   readFile(params: {
     relPath: string;
     from?: number;
@@ -74,6 +124,9 @@ export interface MemorySearchManager {
     force?: boolean;
     progress?: (update: MemorySyncProgressUpdate) => void;
   }): Promise<void>;
+  upsert?(entry: MemoryEntryUpsert): Promise<MemoryEntry>;
+  delete?(id: string): Promise<boolean>;
+  list?(opts?: MemoryEntryListOptions): Promise<MemoryEntry[]>;
   probeEmbeddingAvailability(): Promise<MemoryEmbeddingProbeResult>;
   probeVectorAvailability(): Promise<boolean>;
   close?(): Promise<void>;
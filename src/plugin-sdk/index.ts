@@ -102,6 +102,12 @@ export type {
   PluginLogger,
   ProviderAuthContext,
   ProviderAuthResult,
+  WebFetchProviderPlugin,
+  WebFetchProviderRequest,
+  WebFetchProviderResult,
+  WebSearchProviderPlugin,
+  WebSearchProviderRequest,
+  WebSearchProviderResult,
 } from "../plugins/types.js";
 export type {
   GatewayRequestHandler,
@@ -172,6 +172,8 @@ function createPluginRecord(params: {
     hookNames: [],
     channelIds: [],
     providerIds: [],
+    webSearchProviderIds: [],
+    webFetchProviderIds: [],
     gatewayMethods: [],
     cliCommands: [],
     services: [],
@@ -28,6 +28,8 @@ export type PluginManifestRecord = {
   kind?: PluginKind;
   channels: string[];
   providers: string[];
+  webSearchProviders?: string[];
+  webFetchProviders?: string[];
   skills: string[];
   origin: PluginOrigin;
   workspaceDir?: string;
@@ -119,6 +121,8 @@ function buildRecord(params: {
     kind: params.manifest.kind,
     channels: params.manifest.channels ?? [],
     providers: params.manifest.providers ?? [],
+    webSearchProviders: params.manifest.webSearchProviders ?? [],
+    webFetchProviders: params.manifest.webFetchProviders ?? [],
     skills: params.manifest.skills ?? [],
     origin: params.candidate.origin,
     workspaceDir: params.candidate.workspaceDir,
@@ -14,6 +14,10 @@ export type PluginManifest = {
   kind?: PluginKind;
   channels?: string[];
   providers?: string[];
+  /** Ids passed to `registerWebSearchProvider`, so config validation can accept them. */
+  webSearchProviders?: string[];
+  /** Ids passed to `registerWebFetchProvider`, so config validation can accept them. */
+  webFetchProviders?: string[];
   skills?: string[];
   name?: string;
   description?: string;
@@ -89,6 +93,8 @@ export function loadPluginManifest(rootDir: string): PluginManifestLoadResult {
   const version = typeof raw.version === "string" ? raw.version.trim() : undefined;
   const channels = normalizeStringList(raw.channels);
   const providers = normalizeStringList(raw.providers);
+  const webSearchProviders = normalizeStringList(raw.webSearchProviders);
+  const webFetchProviders = normalizeStringList(raw.webFetchProviders);
   const skills = normalizeStringList(raw.skills);
 
   let uiHints: Record<string, PluginConfigUiHint> | undefined;
@@ -104,6 +110,8 @@ export function loadPluginManifest(rootDir: string): PluginManifestLoadResult {
       kind,
       channels,
       providers,
+      webSearchProviders,
+      webFetchProviders,
       skills,
       name,
       description,
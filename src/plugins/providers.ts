@@ -1,6 +1,11 @@
 import { createSubsystemLogger } from "../logging/subsystem.js";
+import { applyTestPluginDefaults, normalizePluginsConfig } from "./config-state.js";
 import { loadOpenClawPlugins, type PluginLoadOptions } from "./loader.js";
 import { createPluginLoaderLogger } from "./logger.js";
+import type {
+  PluginWebFetchProviderRegistration,
+  PluginWebSearchProviderRegistration,
+} from "./registry.js";
 import type { ProviderPlugin } from "./types.js";
 
 const log = createSubsystemLogger("plugins");
@@ -17,3 +22,22 @@ export function resolvePluginProviders(params: {
 
   return registry.providers.map((entry) => entry.provider);
 }
+
+export function resolvePluginWebProviders(params: {
+  config?: PluginLoadOptions["config"];
+  workspaceDir?: string;
+}): {
+  search: PluginWebSearchProviderRegistration[];
+  fetch: PluginWebFetchProviderRegistration[];
+} {
+  const effectiveConfig = applyTestPluginDefaults(params.config ?? {}, process.env);
+  if (!normalizePluginsConfig(effectiveConfig.plugins).enabled) {
+    return { search: [], fetch: [] };
+  }
+  const registry = loadOpenClawPlugins({
+    config: effectiveConfig,
+    workspaceDir: params.workspaceDir,
+    logger: createPluginLoaderLogger(log),
+  });
+  return { search: registry.webSearchProviders, fetch: registry.webFetchProviders };
+}
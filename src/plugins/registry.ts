@@ -1,5 +1,10 @@
 import path from "node:path";
 import type { AnyAgentTool } from "../agents/tools/common.js";
+import {
+  isBuiltinWebFetchProvider,
+  isBuiltinWebSearchProvider,
+  normalizeWebProviderId,
+} from "../agents/tools/web-providers.js";
 import type { ChannelDock } from "../channels/dock.js";
 import type { ChannelPlugin } from "../channels/plugins/types.js";
 import type {
@@ -32,6 +37,8 @@ import type {
   PluginHookName,
   PluginHookHandlerMap,
   PluginHookRegistration as TypedPluginHookRegistration,
+  WebFetchProviderPlugin,
+  WebSearchProviderPlugin,
 } from "./types.js";
 
 export type PluginToolRegistration = {
@@ -75,6 +82,18 @@ export type PluginProviderRegistration = {
   source: string;
 };
 
+export type PluginWebSearchProviderRegistration = {
+  pluginId: string;
+  provider: WebSearchProviderPlugin;
+  source: string;
+};
+
+export type PluginWebFetchProviderRegistration = {
+  pluginId: string;
+  provider: WebFetchProviderPlugin;
+  source: string;
+};
+
 export type PluginHookRegistration = {
   pluginId: string;
   entry: HookEntry;
@@ -110,6 +129,8 @@ export type PluginRecord = {
   hookNames: string[];
   channelIds: string[];
   providerIds: string[];
+  webSearchProviderIds: string[];
+  webFetchProviderIds: string[];
   gatewayMethods: string[];
   cliCommands: string[];
   services: string[];
@@ -128,6 +149,8 @@ export type PluginRegistry = {
   typedHooks: TypedPluginHookRegistration[];
   channels: PluginChannelRegistration[];
   providers: PluginProviderRegistration[];
+  webSearchProviders: PluginWebSearchProviderRegistration[];
+  webFetchProviders: PluginWebFetchProviderRegistration[];
   gatewayHandlers: GatewayRequestHandlers;
   httpHandlers: PluginHttpRegistration[];
   httpRoutes: PluginHttpRouteRegistration[];
@@ -151,6 +174,8 @@ export function createEmptyPluginRegistry(): PluginRegistry {
     typedHooks: [],
     channels: [],
     providers: [],
+    webSearchProviders: [],
+    webFetchProviders: [],
     gatewayHandlers: {},
     httpHandlers: [],
     httpRoutes: [],
@@ -386,6 +411,86 @@ export function createPluginRegistry(registryParams: PluginRegistryParams) {
     });
   };
 
+  const registerWebSearchProvider = (record: PluginRecord, provider: WebSearchProviderPlugin) => {
+    const id = normalizeWebProviderId(provider?.id);
+    if (!id || typeof provider?.search !== "function") {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: "web search provider registration requires an id and a search function",
+      });
+      return;
+    }
+    if (isBuiltinWebSearchProvider(id)) {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: `web search provider id is reserved by a built-in provider: ${id}`,
+      });
+      return;
+    }
+    const existing = registry.webSearchProviders.find(
+      (entry) => normalizeWebProviderId(entry.provider.id) === id,
+    );
+    if (existing) {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: `web search provider already registered: ${id} (${existing.pluginId})`,
+      });
+      return;
+    }
+    record.webSearchProviderIds.push(id);
+    registry.webSearchProviders.push({
+      pluginId: record.id,
+      provider: { ...provider, id },
+      source: record.source,
+    });
+  };
+
+  const registerWebFetchProvider = (record: PluginRecord, provider: WebFetchProviderPlugin) => {
+    const id = normalizeWebProviderId(provider?.id);
+    if (!id || typeof provider?.fetch !== "function") {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: "web fetch provider registration requires an id and a fetch function",
+      });
+      return;
+    }
+    if (isBuiltinWebFetchProvider(id)) {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: `web fetch provider id is reserved by a built-in provider: ${id}`,
+      });
+      return;
+    }
+    const existing = registry.webFetchProviders.find(
+      (entry) => normalizeWebProviderId(entry.provider.id) === id,
+    );
+    if (existing) {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: `web fetch provider already registered: ${id} (${existing.pluginId})`,
+      });
+      return;
+    }
+    record.webFetchProviderIds.push(id);
+    registry.webFetchProviders.push({
+      pluginId: record.id,
+      provider: { ...provider, id },
+      source: record.source,
+    });
+  };
+
   const registerCli = (
     record: PluginRecord,
     registrar: OpenClawPluginCliRegistrar,
@@ -493,6 +598,8 @@ export function createPluginRegistry(registryParams: PluginRegistryParams) {
       registerHttpRoute: (params) => registerHttpRoute(record, params),
       registerChannel: (registration) => registerChannel(record, registration),
       registerProvider: (provider) => registerProvider(record, provider),
+      registerWebSearchProvider: (provider) => registerWebSearchProvider(record, provider),
+      registerWebFetchProvider: (provider) => registerWebFetchProvider(record, provider),
       registerGatewayMethod: (method, handler) => registerGatewayMethod(record, method, handler),
       registerCli: (registrar, opts) => registerCli(record, registrar, opts),
       registerService: (service) => registerService(record, service),
@@ -509,6 +616,8 @@ export function createPluginRegistry(registryParams: PluginRegistryParams) {
     registerTool,
     registerChannel,
     registerProvider,
+    registerWebSearchProvider,
+    registerWebFetchProvider,
     registerGatewayMethod,
     registerCli,
     registerService,
@@ -125,6 +125,77 @@ export type ProviderPlugin = {
   refreshOAuth?: (cred: OAuthCredential) => Promise<OAuthCredential>;
 };
 
+export type WebSearchProviderRequest = {
+  query: string;
+  /** Requested result count (already clamped to 1-10). */
+  count: number;
+  country?: string;
+  search_lang?: string;
+  ui_lang?: string;
+  /** Normalized freshness filter ("pd", "pw", "pm", "py", or "YYYY-MM-DDtoYYYY-MM-DD"). */
+  freshness?: string;
+  timeoutSeconds: number;
+  config: OpenClawConfig;
+};
+
+export type WebSearchProviderResult = {
+  /** Structured results; returned to the agent in the Brave result shape. */
+  results?: Array<{
+    title?: string;
+    url: string;
+    description?: string;
+    published?: string;
+    siteName?: string;
+  }>;
+  /** Synthesized answer text (for answer-style providers). */
+  content?: string;
+  citations?: Array<string | { url: string; title?: string }>;
+  model?: string;
+};
+
+export type WebSearchProviderPlugin = {
+  /** Value users set in `tools.web.search.provider`. */
+  id: string;
+  label: string;
+  /** Tool description shown to the model when this provider is active. */
+  description?: string;
+  /** Short hint shown next to the provider in the configure wizard. */
+  hint?: string;
+  docsPath?: string;
+  envVars?: string[];
+  search: (request: WebSearchProviderRequest) => Promise<WebSearchProviderResult>;
+};
+
+export type WebFetchProviderRequest = {
+  url: string;
+  extractMode: "markdown" | "text";
+  timeoutSeconds: number;
+  config: OpenClawConfig;
+};
+
+export type WebFetchProviderResult = {
+  text: string;
+  title?: string;
+  finalUrl?: string;
+  status?: number;
+  warning?: string;
+};
+
+export type WebFetchProviderPlugin = {
+  /** Value users set in `tools.web.fetch.provider`. */
+  id: string;
+  label: string;
+  /** Short hint shown next to the provider in the configure wizard. */
+  hint?: string;
+  docsPath?: string;
+  envVars?: string[];
+  /**
+   * Fetches and extracts a page. Called where Firecrawl would be: when the
+   * direct fetch fails, returns a non-OK status, or Readability finds nothing.
+   */
+  fetch: (request: WebFetchProviderRequest) => Promise<WebFetchProviderResult>;
+};
+
 export type OpenClawPluginGatewayMethod = {
   method: string;
   handler: GatewayRequestHandler;
@@ -268,6 +339,10 @@ export type OpenClawPluginApi = {
   registerCli: (registrar: OpenClawPluginCliRegistrar, opts?: { commands?: string[] }) => void;
   registerService: (service: OpenClawPluginService) => void;
   registerProvider: (provider: ProviderPlugin) => void;
+  /** Register a `web_search` backend selectable via `tools.web.search.provider`. */
+  registerWebSearchProvider: (provider: WebSearchProviderPlugin) => void;
+  /** Register a `web_fetch` extraction backend selectable via `tools.web.fetch.provider`. */
+  registerWebFetchProvider: (provider: WebFetchProviderPlugin) => void;
   /**
    * Register a custom command that bypasses the LLM agent.
    * Plugin commands are processed before built-in commands and before agent invocation.
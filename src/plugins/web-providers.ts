@@ -0,0 +1,25 @@
+import { normalizeWebProviderId } from "../agents/tools/web-providers.js";
+import { getActivePluginRegistry } from "./runtime.js";
+import type { WebFetchProviderPlugin, WebSearchProviderPlugin } from "./types.js";
+
+/** Looks up a plugin-registered web_search backend in the active plugin registry. */
+export function getActiveWebSearchProvider(id: string): WebSearchProviderPlugin | undefined {
+  const normalized = normalizeWebProviderId(id);
+  if (!normalized) {
+    return undefined;
+  }
+  return getActivePluginRegistry()?.webSearchProviders.find(
+    (entry) => entry.provider.id === normalized,
+  )?.provider;
+}
+
+/** Looks up a plugin-registered web_fetch backend in the active plugin registry. */
+export function getActiveWebFetchProvider(id: string): WebFetchProviderPlugin | undefined {
+  const normalized = normalizeWebProviderId(id);
+  if (!normalized) {
+    return undefined;
+  }
+  return getActivePluginRegistry()?.webFetchProviders.find(
+    (entry) => entry.provider.id === normalized,
+  )?.provider;
+}
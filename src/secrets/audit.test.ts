@@ -3,6 +3,7 @@ import os from "node:os";
 import path from "node:path";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import { runSecretsAudit } from "./audit.js";
+import { encryptSecretsDocument } from "./encrypted-file.js";
 
 describe("secrets audit", () => {
   let rootDir = "";
@@ -183,4 +184,40 @@ describe("secrets audit", () => {
     const callCount = callLog.split("\n").filter((line) => line.trim().length > 0).length;
     expect(callCount).toBe(1);
   });
+
+  it("flags unencrypted values inside encrypted provider files", async () => {
+    const encryptedPath = path.join(stateDir, "secrets.enc.json");
+    const encrypted = await encryptSecretsDocument(
+      { providers: { openai: { apiKey: "sk" } } },
+      "pw",
+      {
+        scrypt: { N: 1024, r: 8, p: 1 },
+      },
+    );
+    await fs.writeFile(
+      encryptedPath,
+      `${JSON.stringify({ ...encrypted, extra: { token: "leaked" } }, null, 2)}\n`,
+      "utf8",
+    );
+    await fs.writeFile(
+      configPath,
+      `${JSON.stringify(
+        { secrets: { providers: { vaultfile: { source: "encrypted", path: encryptedPath } } } },
+        null,
+        2,
+      )}\n`,
+      "utf8",
+    );
+
+    const report = await runSecretsAudit({ env });
+    expect(report.filesScanned).toContain(encryptedPath);
+    expect(report.findings).toContainEqual(
+      expect.objectContaining({
+        code: "PLAINTEXT_FOUND",
+        file: encryptedPath,
+        jsonPath: "/extra/token",
+      }),
+    );
+    expect(report.findings.some((entry) => entry.jsonPath.startsWith("/providers"))).toBe(false);
+  });
 });
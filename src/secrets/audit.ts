@@ -8,6 +8,7 @@ import { resolveStateDir, type OpenClawConfig } from "../config/config.js";
 import { coerceSecretRef, type SecretRef } from "../config/types.secrets.js";
 import { resolveConfigDir, resolveUserPath } from "../utils.js";
 import { createSecretsConfigIO } from "./config-io.js";
+import { isEncryptedSecretsDocument, listUnencryptedSecretPointers } from "./encrypted-file.js";
 import { listKnownSecretEnvVarNames } from "./provider-env-vars.js";
 import { secretRefKey } from "./ref-contract.js";
 import {
@@ -67,6 +68,7 @@ type SecretDefaults = {
   env?: string;
   file?: string;
   exec?: string;
+  encrypted?: string;
 };
 
 type AuditCollector = {
@@ -244,6 +246,51 @@ function collectConfigSecrets(params: {
     }
   }
 
+  const hookMappings = params.config.hooks?.mappings as
+    | Array<{ verify?: { secret?: unknown } }>
+    | undefined;
+  for (const [index, mapping] of (hookMappings ?? []).entries()) {
+    const pathLabel = `hooks.mappings.${index}.verify.secret`;
+    const ref = coerceSecretRef(mapping.verify?.secret, defaults);
+    if (ref) {
+      params.collector.refAssignments.push({
+        file: params.configPath,
+        path: pathLabel,
+        ref,
+        expected: "string",
+      });
+      continue;
+    }
+    if (isNonEmptyString(mapping.verify?.secret)) {
+      addFinding(params.collector, {
+        code: "PLAINTEXT_FOUND",
+        severity: "warn",
+        file: params.configPath,
+        jsonPath: pathLabel,
+        message: "Hook mapping signing secret is stored as plaintext.",
+      });
+    }
+  }
+
+  const metricsToken = params.config.gateway?.http?.endpoints?.metrics?.token;
+  const metricsRef = coerceSecretRef(metricsToken, defaults);
+  if (metricsRef) {
+    params.collector.refAssignments.push({
+      file: params.configPath,
+      path: "gateway.http.endpoints.metrics.token",
+      ref: metricsRef,
+      expected: "string",
+    });
+  } else if (isNonEmptyString(metricsToken)) {
+    addFinding(params.collector, {
+      code: "PLAINTEXT_FOUND",
+      severity: "warn",
+      file: params.configPath,
+      jsonPath: "gateway.http.endpoints.metrics.token",
+      message: "Metrics scrape token is stored as plaintext.",
+    });
+  }
+
   const googlechat = params.config.channels?.googlechat as
     | {
         serviceAccount?: unknown;
@@ -306,6 +353,33 @@ function collectConfigSecrets(params: {
   }
 }
 
+function collectEncryptedProviderPlaintext(params: {
+  config: OpenClawConfig;
+  collector: AuditCollector;
+}): void {
+  for (const [providerName, provider] of Object.entries(params.config.secrets?.providers ?? {})) {
+    if (provider?.source !== "encrypted") {
+      continue;
+    }
+    const filePath = resolveUserPath(provider.path);
+    const parsedResult = readJsonObject(filePath);
+    if (!parsedResult.value || !isEncryptedSecretsDocument(parsedResult.value)) {
+      // Missing or unreadable documents surface through ref resolution instead.
+      continue;
+    }
+    params.collector.filesScanned.add(filePath);
+    for (const pointer of listUnencryptedSecretPointers(parsedResult.value)) {
+      addFinding(params.collector, {
+        code: "PLAINTEXT_FOUND",
+        severity: "warn",
+        file: filePath,
+        jsonPath: pointer,
+        message: `Encrypted provider "${providerName}" contains an unencrypted value; re-run openclaw secrets encrypt.`,
+      });
+    }
+  }
+}
+
 function collectAuthStorePaths(config: OpenClawConfig, stateDir: string): string[] {
   const paths = new Set<string>();
   // Scope default auth store discovery to the provided stateDir instead of
@@ -668,6 +742,10 @@ export async function runSecretsAudit(
         configPath,
         collector,
       });
+      collectEncryptedProviderPlaintext({
+        config,
+        collector,
+      });
       for (const authStorePath of collectAuthStorePaths(config, stateDir)) {
         collectAuthStoreSecrets({
           authStorePath,
@@ -6,8 +6,12 @@ import type { SecretProviderConfig, SecretRef, SecretRefSource } from "../config
 import { isSafeExecutableValue } from "../infra/exec-safety.js";
 import { runSecretsApply, type SecretsApplyResult } from "./apply.js";
 import { createSecretsConfigIO } from "./config-io.js";
+import { DEFAULT_ENCRYPTED_SECRETS_PASSPHRASE_ENV } from "./encrypted-file.js";
 import { type SecretsApplyPlan } from "./plan.js";
-import { resolveDefaultSecretProviderAlias } from "./ref-contract.js";
+import {
+  isValidJsonPointerSecretRefId,
+  resolveDefaultSecretProviderAlias,
+} from "./ref-contract.js";
 import { isRecord } from "./shared.js";
 
 type ConfigureCandidate = {
@@ -102,11 +106,15 @@ function removeSecretProvider(config: OpenClawConfig, providerAlias: string): bo
     if (defaults?.exec === providerAlias) {
       delete defaults.exec;
     }
+    if (defaults?.encrypted === providerAlias) {
+      delete defaults.encrypted;
+    }
     if (
       defaults &&
       defaults.env === undefined &&
       defaults.file === undefined &&
-      defaults.exec === undefined
+      defaults.exec === undefined &&
+      defaults.encrypted === undefined
     ) {
       delete config.secrets?.defaults;
     }
@@ -121,6 +129,9 @@ function providerHint(provider: SecretProviderConfig): string {
   if (provider.source === "file") {
     return `file (${provider.mode ?? "json"})`;
   }
+  if (provider.source === "encrypted") {
+    return `encrypted (${provider.keyFile ? "key file" : (provider.passphraseEnv ?? DEFAULT_ENCRYPTED_SECRETS_PASSPHRASE_ENV)})`;
+  }
   return `exec (${provider.jsonOnly === false ? "json+text" : "json"})`;
 }
 
@@ -200,6 +211,9 @@ function toSourceChoices(config: OpenClawConfig): Array<{ value: SecretRefSource
   if (hasSource("exec")) {
     choices.push({ value: "exec", label: "exec" });
   }
+  if (hasSource("encrypted")) {
+    choices.push({ value: "encrypted", label: "encrypted" });
+  }
   return choices;
 }
 
@@ -242,6 +256,7 @@ async function promptProviderSource(initial?: SecretRefSource): Promise<SecretRe
         { value: "env", label: "env" },
         { value: "file", label: "file" },
         { value: "exec", label: "exec" },
+        { value: "encrypted", label: "encrypted" },
       ],
       initialValue: initial,
     }),
@@ -356,6 +371,87 @@ async function promptFileProvider(
   };
 }
 
+async function promptEncryptedProvider(
+  base?: Extract<SecretProviderConfig, { source: "encrypted" }>,
+): Promise<Extract<SecretProviderConfig, { source: "encrypted" }>> {
+  const filePath = assertNoCancel(
+    await text({
+      message: "Encrypted file path (absolute)",
+      initialValue: base?.path ?? "",
+      validate: (value) => {
+        const trimmed = String(value ?? "").trim();
+        if (!trimmed) {
+          return "Required";
+        }
+        if (!isAbsolutePathValue(trimmed)) {
+          return "Must be an absolute path";
+        }
+        return undefined;
+      },
+    }),
+    "Secrets configure cancelled.",
+  );
+
+  const unlock = assertNoCancel(
+    await select({
+      message: "Unlock with",
+      options: [
+        { value: "passphrase", label: "Passphrase", hint: "Read from an env var at startup" },
+        { value: "keyFile", label: "Key file", hint: "Read from a file only you can access" },
+      ],
+      initialValue: base?.keyFile ? "keyFile" : "passphrase",
+    }),
+    "Secrets configure cancelled.",
+  );
+
+  if (unlock === "keyFile") {
+    const keyFile = assertNoCancel(
+      await text({
+        message: "Key file path (absolute)",
+        initialValue: base?.keyFile ?? "",
+        validate: (value) => {
+          const trimmed = String(value ?? "").trim();
+          if (!trimmed) {
+            return "Required";
+          }
+          if (!isAbsolutePathValue(trimmed)) {
+            return "Must be an absolute path";
+          }
+          return undefined;
+        },
+      }),
+      "Secrets configure cancelled.",
+    );
+    return {
+      source: "encrypted",
+      path: String(filePath).trim(),
+      keyFile: String(keyFile).trim(),
+      ...(base?.timeoutMs ? { timeoutMs: base.timeoutMs } : {}),
+      ...(base?.maxBytes ? { maxBytes: base.maxBytes } : {}),
+    };
+  }
+
+  const passphraseEnv = assertNoCancel(
+    await text({
+      message: "Passphrase env var",
+      initialValue: base?.passphraseEnv ?? DEFAULT_ENCRYPTED_SECRETS_PASSPHRASE_ENV,
+      validate: (value) =>
+        ENV_NAME_PATTERN.test(String(value ?? "").trim())
+          ? undefined
+          : "Must match /^[A-Z][A-Z0-9_]{0,127}$/",
+    }),
+    "Secrets configure cancelled.",
+  );
+  const envName = String(passphraseEnv).trim();
+  return {
+    source: "encrypted",
+    path: String(filePath).trim(),
+    ...(envName !== DEFAULT_ENCRYPTED_SECRETS_PASSPHRASE_ENV ? { passphraseEnv: envName } : {}),
+    ...(base?.timeoutMs ? { timeoutMs: base.timeoutMs } : {}),
+    ...(base?.maxBytes ? { maxBytes: base.maxBytes } : {}),
+  };
+}
+
 async function parseArgsInput(rawValue: string): Promise<string[] | undefined> {
   const trimmed = rawValue.trim();
   if (!trimmed) {
@@ -562,6 +658,9 @@ async function promptProviderConfig(
   if (source === "file") {
     return await promptFileProvider(current?.source === "file" ? current : undefined);
   }
+  if (source === "encrypted") {
+    return await promptEncryptedProvider(current?.source === "encrypted" ? current : undefined);
+  }
   return await promptExecProvider(current?.source === "exec" ? current : undefined);
 }
 
@@ -576,7 +675,7 @@ async function configureProvidersInteractive(config: OpenClawConfig): Promise<vo
       {
         value: "add",
         label: "Add provider",
-        hint: "Define a new env/file/exec provider",
+        hint: "Define a new env/file/exec/encrypted provider",
       },
     ];
     if (providerEntries.length > 0) {
@@ -602,7 +701,7 @@ async function configureProvidersInteractive(config: OpenClawConfig): Promise<vo
         message:
           providerEntries.length > 0
             ? "Configure secret providers"
-            : "Configure secret providers (only env refs are available until file/exec providers are added)",
+            : "Configure secret providers (only env refs are available until file/exec/encrypted providers are added)",
         options: actionOptions,
       }),
       "Secrets configure cancelled.",
@@ -804,8 +903,17 @@ export async function runSecretsConfigureInteractive(
       );
       const id = assertNoCancel(
         await text({
-          message: "Secret id",
-          validate: (value) => (String(value ?? "").trim().length > 0 ? undefined : "Required"),
+          message: source === "encrypted" ? "Secret id (JSON pointer)" : "Secret id",
+          validate: (value) => {
+            const trimmed = String(value ?? "").trim();
+            if (!trimmed) {
+              return "Required";
+            }
+            if (source === "encrypted" && !isValidJsonPointerSecretRefId(trimmed)) {
+              return 'Use an absolute JSON pointer like "/providers/openai/apiKey"';
+            }
+            return undefined;
+          },
         }),
         "Secrets configure cancelled.",
       );
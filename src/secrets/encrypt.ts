@@ -0,0 +1,66 @@
+import fs from "node:fs";
+import { resolveUserPath } from "../utils.js";
+import { createSecretsConfigIO } from "./config-io.js";
+import { encryptSecretsDocument, isEncryptedSecretsDocument } from "./encrypted-file.js";
+import { resolveEncryptedProviderKeyMaterial } from "./resolve.js";
+import { isRecord, writeJsonFileSecure } from "./shared.js";
+
+export type SecretsEncryptResult = {
+  provider: string;
+  path: string;
+  replaced: boolean;
+};
+
+/**
+ * Encrypts a plaintext JSON secrets document for a configured `encrypted`
+ * provider, using that provider's key settings and writing to its path.
+ */
+export async function runSecretsEncrypt(params: {
+  provider: string;
+  input: string;
+  force?: boolean;
+  env?: NodeJS.ProcessEnv;
+}): Promise<SecretsEncryptResult> {
+  const env = params.env ?? process.env;
+  const io = createSecretsConfigIO({ env });
+  const { snapshot } = await io.readConfigFileSnapshotForWrite();
+  if (!snapshot.valid) {
+    throw new Error("Cannot encrypt secrets because config is invalid.");
+  }
+  const providerConfig = snapshot.config.secrets?.providers?.[params.provider];
+  if (!providerConfig) {
+    throw new Error(`Secret provider "${params.provider}" is not configured.`);
+  }
+  if (providerConfig.source !== "encrypted") {
+    throw new Error(
+      `Secret provider "${params.provider}" has source "${providerConfig.source}", expected "encrypted".`,
+    );
+  }
+
+  const inputPath = resolveUserPath(params.input);
+  const parsed = JSON.parse(fs.readFileSync(inputPath, "utf8")) as unknown;
+  if (!isRecord(parsed)) {
+    throw new Error(`Secrets input must be a JSON object: ${inputPath}`);
+  }
+  if (isEncryptedSecretsDocument(parsed)) {
+    throw new Error(`Secrets input is already encrypted: ${inputPath}`);
+  }
+
+  const outputPath = resolveUserPath(providerConfig.path);
+  if (outputPath === inputPath) {
+    throw new Error("Secrets input and provider path must differ.");
+  }
+  const replaced = fs.existsSync(outputPath);
+  if (replaced && !params.force) {
+    throw new Error(`${outputPath} already exists. Pass --force to replace it.`);
+  }
+
+  const keyMaterial = await resolveEncryptedProviderKeyMaterial({
+    providerName: params.provider,
+    providerConfig,
+    env,
+  });
+  const encrypted = await encryptSecretsDocument(parsed, keyMaterial);
+  writeJsonFileSecure(outputPath, encrypted);
+  return { provider: params.provider, path: outputPath, replaced };
+}
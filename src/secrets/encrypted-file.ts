@@ -0,0 +1,262 @@
+import crypto from "node:crypto";
+import { encodeJsonPointerToken } from "./json-pointer.js";
+import { isRecord } from "./shared.js";
+
+/**
+ * Encrypted secrets documents keep the JSON structure readable and encrypt each
+ * leaf value (sops-style), so ids stay greppable and diffs stay reviewable.
+ * Values are AES-256-GCM with the leaf's JSON pointer as additional data, keyed
+ * by scrypt over a passphrase or key file. A MAC over every leaf detects added,
+ * removed or swapped values.
+ */
+export const ENCRYPTED_SECRETS_METADATA_KEY = "openclaw";
+export const DEFAULT_ENCRYPTED_SECRETS_PASSPHRASE_ENV = "OPENCLAW_SECRETS_PASSPHRASE";
+
+const ENCRYPTED_VALUE_PATTERN =
+  /^ENC\[AES256_GCM,data:([A-Za-z0-9+/=]*),iv:([A-Za-z0-9+/=]+),tag:([A-Za-z0-9+/=]+),type:(str|num|bool)\]$/;
+const MAC_AAD = "openclaw:mac";
+const DEFAULT_SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const SCRYPT_MAX_MEM = 128 * 1024 * 1024;
+
+type EncryptedLeafType = "str" | "num" | "bool";
+
+type EncryptedSecretsKdf = {
+  name: "scrypt";
+  salt: string;
+  N: number;
+  r: number;
+  p: number;
+};
+
+export type EncryptedSecretsMetadata = {
+  version: 1;
+  kdf: EncryptedSecretsKdf;
+  mac: string;
+  encryptedAt?: string;
+};
+
+type Leaf = {
+  pointer: string;
+  value: unknown;
+};
+
+function collectLeaves(value: unknown, pointer: string, out: Leaf[]): void {
+  if (Array.isArray(value)) {
+    value.forEach((entry, index) => collectLeaves(entry, `${pointer}/${index}`, out));
+    return;
+  }
+  if (isRecord(value)) {
+    for (const [key, entry] of Object.entries(value)) {
+      collectLeaves(entry, `${pointer}/${encodeJsonPointerToken(key)}`, out);
+    }
+    return;
+  }
+  out.push({ pointer, value });
+}
+
+function mapLeaves(value: unknown, pointer: string, map: (leaf: Leaf) => unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((entry, index) => mapLeaves(entry, `${pointer}/${index}`, map));
+  }
+  if (isRecord(value)) {
+    const out: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      out[key] = mapLeaves(entry, `${pointer}/${encodeJsonPointerToken(key)}`, map);
+    }
+    return out;
+  }
+  return map({ pointer, value });
+}
+
+function splitDocument(doc: Record<string, unknown>): {
+  body: Record<string, unknown>;
+  metadata: unknown;
+} {
+  const { [ENCRYPTED_SECRETS_METADATA_KEY]: metadata, ...body } = doc;
+  return { body, metadata };
+}
+
+async function deriveKey(keyMaterial: string, kdf: EncryptedSecretsKdf): Promise<Buffer> {
+  return await new Promise((resolve, reject) => {
+    crypto.scrypt(
+      keyMaterial,
+      Buffer.from(kdf.salt, "base64"),
+      32,
+      { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: SCRYPT_MAX_MEM },
+      (err, key) => (err ? reject(err) : resolve(key)),
+    );
+  });
+}
+
+function encryptValue(params: {
+  key: Buffer;
+  aad: string;
+  plaintext: string;
+  type: EncryptedLeafType;
+}): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", params.key, iv);
+  cipher.setAAD(Buffer.from(params.aad, "utf8"));
+  const data = Buffer.concat([cipher.update(params.plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return `ENC[AES256_GCM,data:${data.toString("base64")},iv:${iv.toString("base64")},tag:${tag.toString("base64")},type:${params.type}]`;
+}
+
+function decryptValue(params: { key: Buffer; aad: string; encrypted: string }): {
+  plaintext: string;
+  type: EncryptedLeafType;
+} {
+  const match = ENCRYPTED_VALUE_PATTERN.exec(params.encrypted);
+  if (!match) {
+    throw new Error(`Value at ${params.aad} is not encrypted.`);
+  }
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    params.key,
+    Buffer.from(match[2], "base64"),
+  );
+  decipher.setAAD(Buffer.from(params.aad, "utf8"));
+  decipher.setAuthTag(Buffer.from(match[3], "base64"));
+  try {
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(match[1], "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+    return { plaintext, type: match[4] as EncryptedLeafType };
+  } catch {
+    throw new Error(
+      "Encrypted secrets document could not be unlocked (wrong passphrase or key file, or the document was modified).",
+    );
+  }
+}
+
+function computeMac(leaves: Array<{ pointer: string; type: string; plaintext: string }>): string {
+  const hash = crypto.createHash("sha256");
+  for (const leaf of leaves) {
+    hash.update(`${leaf.pointer}\0${leaf.type}\0${leaf.plaintext}\n`);
+  }
+  return hash.digest("hex");
+}
+
+function toLeafPlaintext(leaf: Leaf): { plaintext: string; type: EncryptedLeafType } | null {
+  if (typeof leaf.value === "string") {
+    return { plaintext: leaf.value, type: "str" };
+  }
+  if (typeof leaf.value === "number" && Number.isFinite(leaf.value)) {
+    return { plaintext: String(leaf.value), type: "num" };
+  }
+  if (typeof leaf.value === "boolean") {
+    return { plaintext: String(leaf.value), type: "bool" };
+  }
+  return null;
+}
+
+function fromLeafPlaintext(plaintext: string, type: EncryptedLeafType): unknown {
+  if (type === "num") {
+    return Number(plaintext);
+  }
+  if (type === "bool") {
+    return plaintext === "true";
+  }
+  return plaintext;
+}
+
+function parseMetadata(metadata: unknown): EncryptedSecretsMetadata {
+  const kdf = isRecord(metadata) ? metadata.kdf : undefined;
+  if (
+    !isRecord(metadata) ||
+    metadata.version !== 1 ||
+    typeof metadata.mac !== "string" ||
+    !isRecord(kdf) ||
+    kdf.name !== "scrypt" ||
+    typeof kdf.salt !== "string" ||
+    typeof kdf.N !== "number" ||
+    typeof kdf.r !== "number" ||
+    typeof kdf.p !== "number"
+  ) {
+    throw new Error(
+      `Encrypted secrets document is missing valid "${ENCRYPTED_SECRETS_METADATA_KEY}" metadata.`,
+    );
+  }
+  return metadata as EncryptedSecretsMetadata;
+}
+
+export function isEncryptedSecretsDocument(value: unknown): value is Record<string, unknown> {
+  return isRecord(value) && isRecord(value[ENCRYPTED_SECRETS_METADATA_KEY]);
+}
+
+/** Lists JSON pointers of leaves that are stored without encryption. */
+export function listUnencryptedSecretPointers(doc: Record<string, unknown>): string[] {
+  const leaves: Leaf[] = [];
+  collectLeaves(splitDocument(doc).body, "", leaves);
+  return leaves
+    .filter(
+      (leaf) =>
+        leaf.value !== null &&
+        !(typeof leaf.value === "string" && ENCRYPTED_VALUE_PATTERN.test(leaf.value)),
+    )
+    .map((leaf) => leaf.pointer);
+}
+
+export async function encryptSecretsDocument(
+  plain: Record<string, unknown>,
+  keyMaterial: string,
+  options: { scrypt?: { N: number; r: number; p: number } } = {},
+): Promise<Record<string, unknown>> {
+  if (Object.hasOwn(plain, ENCRYPTED_SECRETS_METADATA_KEY)) {
+    throw new Error(
+      `Top-level "${ENCRYPTED_SECRETS_METADATA_KEY}" key is reserved for encryption metadata.`,
+    );
+  }
+  const kdf: EncryptedSecretsKdf = {
+    name: "scrypt",
+    salt: crypto.randomBytes(16).toString("base64"),
+    ...(options.scrypt ?? DEFAULT_SCRYPT_PARAMS),
+  };
+  const key = await deriveKey(keyMaterial, kdf);
+  const macLeaves: Array<{ pointer: string; type: string; plaintext: string }> = [];
+  const body = mapLeaves(plain, "", (leaf) => {
+    const value = toLeafPlaintext(leaf);
+    if (!value) {
+      if (leaf.value !== null) {
+        throw new Error(`Unsupported secret value at ${leaf.pointer}.`);
+      }
+      return null;
+    }
+    macLeaves.push({ pointer: leaf.pointer, ...value });
+    return encryptValue({ key, aad: leaf.pointer, ...value });
+  }) as Record<string, unknown>;
+  const metadata: EncryptedSecretsMetadata = {
+    version: 1,
+    kdf,
+    mac: encryptValue({ key, aad: MAC_AAD, plaintext: computeMac(macLeaves), type: "str" }),
+    encryptedAt: new Date().toISOString(),
+  };
+  return { ...body, [ENCRYPTED_SECRETS_METADATA_KEY]: metadata };
+}
+
+export async function decryptSecretsDocument(
+  doc: Record<string, unknown>,
+  keyMaterial: string,
+): Promise<Record<string, unknown>> {
+  const { body, metadata } = splitDocument(doc);
+  const parsed = parseMetadata(metadata);
+  const key = await deriveKey(keyMaterial, parsed.kdf);
+  const expectedMac = decryptValue({ key, aad: MAC_AAD, encrypted: parsed.mac }).plaintext;
+  const macLeaves: Array<{ pointer: string; type: string; plaintext: string }> = [];
+  const plain = mapLeaves(body, "", (leaf) => {
+    if (leaf.value === null) {
+      return null;
+    }
+    if (typeof leaf.value !== "string") {
+      throw new Error(`Value at ${leaf.pointer} is not encrypted.`);
+    }
+    const { plaintext, type } = decryptValue({ key, aad: leaf.pointer, encrypted: leaf.value });
+    macLeaves.push({ pointer: leaf.pointer, type, plaintext });
+    return fromLeafPlaintext(plaintext, type);
+  }) as Record<string, unknown>;
+  if (computeMac(macLeaves) !== expectedMac) {
+    throw new Error("Encrypted secrets document MAC mismatch (values were added or removed).");
+  }
+  return plain;
+}
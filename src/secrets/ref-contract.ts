@@ -14,6 +14,7 @@ export type SecretRefDefaultsCarrier = {
       env?: string;
       file?: string;
       exec?: string;
+      encrypted?: string;
     };
     providers?: Record<string, { source?: string }>;
   };
@@ -33,7 +34,9 @@ export function resolveDefaultSecretProviderAlias(
       ? config.secrets?.defaults?.env
       : source === "file"
         ? config.secrets?.defaults?.file
-        : config.secrets?.defaults?.exec;
+        : source === "exec"
+          ? config.secrets?.defaults?.exec
+          : config.secrets?.defaults?.encrypted;
   if (configured?.trim()) {
     return configured.trim();
   }
@@ -56,6 +59,10 @@ export function isValidFileSecretRefId(value: string): boolean {
   if (value === SINGLE_VALUE_FILE_REF_ID) {
     return true;
   }
+  return isValidJsonPointerSecretRefId(value);
+}
+
+export function isValidJsonPointerSecretRefId(value: string): boolean {
   if (!value.startsWith("/")) {
     return false;
   }
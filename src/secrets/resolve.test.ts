@@ -3,8 +3,11 @@ import os from "node:os";
 import path from "node:path";
 import { afterEach, describe, expect, it, vi } from "vitest";
 import type { OpenClawConfig } from "../config/config.js";
+import { encryptSecretsDocument } from "./encrypted-file.js";
 import { resolveSecretRefString, resolveSecretRefValue } from "./resolve.js";
 
+const FAST_SCRYPT = { N: 1024, r: 8, p: 1 };
+
 async function writeSecureFile(filePath: string, content: string, mode = 0o600): Promise<void> {
   await fs.mkdir(path.dirname(filePath), { recursive: true });
   await fs.writeFile(filePath, content, "utf8");
@@ -515,6 +518,83 @@ describe("secret ref resolver", () => {
     ).rejects.toThrow('File provider "filemain" timed out');
   });
 
+  it("resolves encrypted refs unlocked by a passphrase env var", async () => {
+    if (process.platform === "win32") {
+      return;
+    }
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-secrets-resolve-enc-"));
+    cleanupRoots.push(root);
+    const filePath = path.join(root, "secrets.enc.json");
+    const encrypted = await encryptSecretsDocument(
+      { providers: { openai: { apiKey: "sk-encrypted-value" } }, port: 8443 },
+      "correct horse",
+      { scrypt: FAST_SCRYPT },
+    );
+    expect(JSON.stringify(encrypted)).not.toContain("sk-encrypted-value");
+    await writeSecureFile(filePath, JSON.stringify(encrypted));
+    const config: OpenClawConfig = {
+      secrets: {
+        providers: {
+          vaultfile: { source: "encrypted", path: filePath, passphraseEnv: "VAULT_PASS" },
+        },
+      },
+    };
+
+    await expect(
+      resolveSecretRefString(
+        { source: "encrypted", provider: "vaultfile", id: "/providers/openai/apiKey" },
+        { config, env: { VAULT_PASS: "correct horse" } },
+      ),
+    ).resolves.toBe("sk-encrypted-value");
+    await expect(
+      resolveSecretRefValue(
+        { source: "encrypted", provider: "vaultfile", id: "/port" },
+        { config, env: { VAULT_PASS: "correct horse" } },
+      ),
+    ).resolves.toBe(8443);
+    await expect(
+      resolveSecretRefValue(
+        { source: "encrypted", provider: "vaultfile", id: "/port" },
+        { config, env: {} },
+      ),
+    ).rejects.toThrow('passphrase env var "VAULT_PASS" is missing or empty');
+  });
+
+  it("rejects encrypted documents opened with the wrong key or with swapped values", async () => {
+    if (process.platform === "win32") {
+      return;
+    }
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-secrets-resolve-enc-"));
+    cleanupRoots.push(root);
+    const filePath = path.join(root, "secrets.enc.json");
+    const keyFile = path.join(root, "secrets.key");
+    const encrypted = await encryptSecretsDocument({ a: "first", b: "second" }, "key-one", {
+      scrypt: FAST_SCRYPT,
+    });
+    await writeSecureFile(keyFile, "key-two\n");
+    await writeSecureFile(filePath, JSON.stringify(encrypted));
+    const config: OpenClawConfig = {
+      secrets: {
+        providers: {
+          vaultfile: { source: "encrypted", path: filePath, keyFile },
+        },
+      },
+    };
+    const ref = { source: "encrypted" as const, provider: "vaultfile", id: "/a" };
+
+    await expect(resolveSecretRefValue(ref, { config })).rejects.toThrow(
+      "wrong passphrase or key file",
+    );
+
+    await writeSecureFile(keyFile, "key-one\n");
+    await expect(resolveSecretRefValue(ref, { config })).resolves.toBe("first");
+
+    await writeSecureFile(filePath, JSON.stringify({ ...encrypted, a: encrypted.b }));
+    await expect(resolveSecretRefValue(ref, { config })).rejects.toThrow(
+      'Encrypted provider "vaultfile"',
+    );
+  });
+
   it("rejects misconfigured provider source mismatches", async () => {
     await expect(
       resolveSecretRefValue(
@@ -3,6 +3,7 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import type { OpenClawConfig } from "../config/config.js";
 import type {
+  EncryptedSecretProviderConfig,
   ExecSecretProviderConfig,
   FileSecretProviderConfig,
   SecretProviderConfig,
@@ -13,6 +14,11 @@ import { inspectPathPermissions, safeStat } from "../security/audit-fs.js";
 import { isPathInside } from "../security/scan-paths.js";
 import { resolveUserPath } from "../utils.js";
 import { runTasksWithConcurrency } from "../utils/run-with-concurrency.js";
+import {
+  DEFAULT_ENCRYPTED_SECRETS_PASSPHRASE_ENV,
+  decryptSecretsDocument,
+  isEncryptedSecretsDocument,
+} from "./encrypted-file.js";
 import { readJsonPointer } from "./json-pointer.js";
 import {
   SINGLE_VALUE_FILE_REF_ID,
@@ -178,6 +184,51 @@ async function assertSecurePath(params: {
   return effectivePath;
 }
 
+async function readProviderFile(params: {
+  kind: "File" | "Encrypted";
+  providerName: string;
+  path: string;
+  timeoutMs?: number;
+  maxBytes?: number;
+}): Promise<string> {
+  const secureFilePath = await assertSecurePath({
+    targetPath: resolveUserPath(params.path),
+    label: `secrets.providers.${params.providerName}.path`,
+  });
+  const timeoutMs = normalizePositiveInt(params.timeoutMs, DEFAULT_FILE_TIMEOUT_MS);
+  const maxBytes = normalizePositiveInt(params.maxBytes, DEFAULT_FILE_MAX_BYTES);
+  const abortController = new AbortController();
+  const timeoutErrorMessage = `${params.kind} provider "${params.providerName}" timed out after ${timeoutMs}ms.`;
+  let timeoutHandle: NodeJS.Timeout | null = null;
+  const timeoutPromise = new Promise<never>((_resolve, reject) => {
+    timeoutHandle = setTimeout(() => {
+      abortController.abort();
+      reject(new Error(timeoutErrorMessage));
+    }, timeoutMs);
+  });
+  try {
+    const payload = await Promise.race([
+      fs.readFile(secureFilePath, { signal: abortController.signal }),
+      timeoutPromise,
+    ]);
+    if (payload.byteLength > maxBytes) {
+      throw new Error(
+        `${params.kind} provider "${params.providerName}" exceeded maxBytes (${maxBytes}).`,
+      );
+    }
+    return payload.toString("utf8");
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new Error(timeoutErrorMessage, { cause: error });
+    }
+    throw error;
+  } finally {
+    if (timeoutHandle) {
+      clearTimeout(timeoutHandle);
+    }
+  }
+}
+
 async function readFileProviderPayload(params: {
   providerName: string;
   providerConfig: FileSecretProviderConfig;
@@ -189,53 +240,22 @@ async function readFileProviderPayload(params: {
     return await (cache.filePayloadByProvider.get(cacheKey) as Promise<unknown>);
   }
 
-  const filePath = resolveUserPath(params.providerConfig.path);
   const readPromise = (async () => {
-    const secureFilePath = await assertSecurePath({
-      targetPath: filePath,
-      label: `secrets.providers.${params.providerName}.path`,
-    });
-    const timeoutMs = normalizePositiveInt(
-      params.providerConfig.timeoutMs,
-      DEFAULT_FILE_TIMEOUT_MS,
-    );
-    const maxBytes = normalizePositiveInt(params.providerConfig.maxBytes, DEFAULT_FILE_MAX_BYTES);
-    const abortController = new AbortController();
-    const timeoutErrorMessage = `File provider "${params.providerName}" timed out after ${timeoutMs}ms.`;
-    let timeoutHandle: NodeJS.Timeout | null = null;
-    const timeoutPromise = new Promise<never>((_resolve, reject) => {
-      timeoutHandle = setTimeout(() => {
-        abortController.abort();
-        reject(new Error(timeoutErrorMessage));
-      }, timeoutMs);
+    const text = await readProviderFile({
+      kind: "File",
+      providerName: params.providerName,
+      path: params.providerConfig.path,
+      timeoutMs: params.providerConfig.timeoutMs,
+      maxBytes: params.providerConfig.maxBytes,
     });
-    try {
-      const payload = await Promise.race([
-        fs.readFile(secureFilePath, { signal: abortController.signal }),
-        timeoutPromise,
-      ]);
-      if (payload.byteLength > maxBytes) {
-        throw new Error(`File provider "${params.providerName}" exceeded maxBytes (${maxBytes}).`);
-      }
-      const text = payload.toString("utf8");
-      if (params.providerConfig.mode === "singleValue") {
-        return text.replace(/\r?\n$/, "");
-      }
-      const parsed = JSON.parse(text) as unknown;
-      if (!isRecord(parsed)) {
-        throw new Error(`File provider "${params.providerName}" payload is not a JSON object.`);
-      }
-      return parsed;
-    } catch (error) {
-      if (error instanceof Error && error.name === "AbortError") {
-        throw new Error(timeoutErrorMessage, { cause: error });
-      }
-      throw error;
-    } finally {
-      if (timeoutHandle) {
-        clearTimeout(timeoutHandle);
-      }
+    if (params.providerConfig.mode === "singleValue") {
+      return text.replace(/\r?\n$/, "");
+    }
+    const parsed = JSON.parse(text) as unknown;
+    if (!isRecord(parsed)) {
+      throw new Error(`File provider "${params.providerName}" payload is not a JSON object.`);
     }
+    return parsed;
   })();
 
   if (cache) {
@@ -300,6 +320,95 @@ async function resolveFileRefs(params: {
   return resolved;
 }
 
+/**
+ * Reads the unlock secret for an encrypted provider: the key file when one is
+ * configured, otherwise the passphrase env var.
+ */
+export async function resolveEncryptedProviderKeyMaterial(params: {
+  providerName: string;
+  providerConfig: EncryptedSecretProviderConfig;
+  env?: NodeJS.ProcessEnv;
+}): Promise<string> {
+  if (params.providerConfig.keyFile) {
+    const keyFilePath = await assertSecurePath({
+      targetPath: resolveUserPath(params.providerConfig.keyFile),
+      label: `secrets.providers.${params.providerName}.keyFile`,
+    });
+    const keyMaterial = (await fs.readFile(keyFilePath, "utf8")).trim();
+    if (!keyMaterial) {
+      throw new Error(`Encrypted provider "${params.providerName}" key file is empty.`);
+    }
+    return keyMaterial;
+  }
+  const envName = params.providerConfig.passphraseEnv ?? DEFAULT_ENCRYPTED_SECRETS_PASSPHRASE_ENV;
+  const passphrase = params.env?.[envName] ?? process.env[envName];
+  if (!isNonEmptyString(passphrase)) {
+    throw new Error(
+      `Encrypted provider "${params.providerName}" passphrase env var "${envName}" is missing or empty.`,
+    );
+  }
+  return passphrase;
+}
+
+async function readEncryptedProviderPayload(params: {
+  providerName: string;
+  providerConfig: EncryptedSecretProviderConfig;
+  env: NodeJS.ProcessEnv;
+  cache?: SecretRefResolveCache;
+}): Promise<unknown> {
+  const cacheKey = params.providerName;
+  const cache = params.cache;
+  if (cache?.filePayloadByProvider?.has(cacheKey)) {
+    return await (cache.filePayloadByProvider.get(cacheKey) as Promise<unknown>);
+  }
+
+  const readPromise = (async () => {
+    const text = await readProviderFile({
+      kind: "Encrypted",
+      providerName: params.providerName,
+      path: params.providerConfig.path,
+      timeoutMs: params.providerConfig.timeoutMs,
+      maxBytes: params.providerConfig.maxBytes,
+    });
+    const parsed = JSON.parse(text) as unknown;
+    if (!isEncryptedSecretsDocument(parsed)) {
+      throw new Error(
+        `Encrypted provider "${params.providerName}" payload is not an encrypted secrets document.`,
+      );
+    }
+    const keyMaterial = await resolveEncryptedProviderKeyMaterial(params);
+    try {
+      return await decryptSecretsDocument(parsed, keyMaterial);
+    } catch (error) {
+      throw new Error(
+        `Encrypted provider "${params.providerName}": ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error },
+      );
+    }
+  })();
+
+  if (cache) {
+    cache.filePayloadByProvider ??= new Map();
+    cache.filePayloadByProvider.set(cacheKey, readPromise);
+  }
+  return await readPromise;
+}
+
+async function resolveEncryptedRefs(params: {
+  refs: SecretRef[];
+  providerName: string;
+  providerConfig: EncryptedSecretProviderConfig;
+  env: NodeJS.ProcessEnv;
+  cache?: SecretRefResolveCache;
+}): Promise<ProviderResolutionOutput> {
+  const payload = await readEncryptedProviderPayload(params);
+  const resolved = new Map<string, unknown>();
+  for (const ref of params.refs) {
+    resolved.set(ref.id, readJsonPointer(payload, ref.id, { onMissing: "throw" }));
+  }
+  return resolved;
+}
+
 type ExecRunResult = {
   stdout: string;
   stderr: string;
@@ -596,6 +705,15 @@ async function resolveProviderRefs(params: {
       limits: params.limits,
     });
   }
+  if (params.providerConfig.source === "encrypted") {
+    return await resolveEncryptedRefs({
+      refs: params.refs,
+      providerName: params.providerName,
+      providerConfig: params.providerConfig,
+      env: params.options.env ?? process.env,
+      cache: params.options.cache,
+    });
+  }
   throw new Error(
     `Unsupported secret provider source "${String((params.providerConfig as { source?: unknown }).source)}".`,
   );
@@ -34,6 +34,27 @@ describe("secrets runtime snapshot", () => {
           },
         },
       },
+      gateway: {
+        http: {
+          endpoints: {
+            metrics: {
+              enabled: true,
+              token: { source: "env", provider: "default", id: "METRICS_SCRAPE_TOKEN" },
+            },
+          },
+        },
+      },
+      hooks: {
+        mappings: [
+          {
+            match: { path: "github" },
+            verify: {
+              scheme: "github",
+              secret: { source: "env", provider: "default", id: "GITHUB_WEBHOOK_SECRET" },
+            },
+          },
+        ],
+      },
     };
 
     const snapshot = await prepareSecretsRuntimeSnapshot({
@@ -42,6 +63,8 @@ describe("secrets runtime snapshot", () => {
         OPENAI_API_KEY: "sk-env-openai",
         GITHUB_TOKEN: "ghp-env-token",
         REVIEW_SKILL_API_KEY: "sk-skill-ref",
+        GITHUB_WEBHOOK_SECRET: "gh-webhook-secret",
+        METRICS_SCRAPE_TOKEN: "scrape-token",
       },
       agentDirs: ["/tmp/openclaw-agent-main"],
       loadAuthStore: () => ({
@@ -70,6 +93,8 @@ describe("secrets runtime snapshot", () => {
 
     expect(snapshot.config.models?.providers?.openai?.apiKey).toBe("sk-env-openai");
     expect(snapshot.config.skills?.entries?.["review-pr"]?.apiKey).toBe("sk-skill-ref");
+    expect(snapshot.config.hooks?.mappings?.[0]?.verify?.secret).toBe("gh-webhook-secret");
+    expect(snapshot.config.gateway?.http?.endpoints?.metrics?.token).toBe("scrape-token");
     expect(snapshot.warnings).toHaveLength(2);
     expect(snapshot.authStores[0]?.store.profiles["openai:default"]).toMatchObject({
       type: "api_key",
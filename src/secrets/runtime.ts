@@ -40,6 +40,14 @@ type SkillEntryLike = {
   apiKey?: unknown;
 };
 
+type HookMappingLike = {
+  verify?: { secret?: unknown };
+};
+
+type GatewayMetricsLike = {
+  token?: unknown;
+};
+
 type GoogleChatAccountLike = {
   serviceAccount?: unknown;
   serviceAccountRef?: unknown;
@@ -135,6 +143,47 @@ function collectSkillAssignments(params: {
   }
 }
 
+function collectHookMappingAssignments(params: {
+  mappings: HookMappingLike[];
+  defaults: SecretDefaults | undefined;
+  context: ResolverContext;
+}): void {
+  for (const [index, mapping] of params.mappings.entries()) {
+    const verify = mapping.verify;
+    const ref = verify ? coerceSecretRef(verify.secret, params.defaults) : null;
+    if (!verify || !ref) {
+      continue;
+    }
+    pushAssignment(params.context, {
+      ref,
+      path: `hooks.mappings.${index}.verify.secret`,
+      expected: "string",
+      apply: (value) => {
+        verify.secret = value;
+      },
+    });
+  }
+}
+
+function collectGatewayMetricsAssignment(params: {
+  metrics: GatewayMetricsLike;
+  defaults: SecretDefaults | undefined;
+  context: ResolverContext;
+}): void {
+  const ref = coerceSecretRef(params.metrics.token, params.defaults);
+  if (!ref) {
+    return;
+  }
+  pushAssignment(params.context, {
+    ref,
+    path: "gateway.http.endpoints.metrics.token",
+    expected: "string",
+    apply: (value) => {
+      params.metrics.token = value;
+    },
+  });
+}
+
 function collectGoogleChatAccountAssignment(params: {
   target: GoogleChatAccountLike;
   path: string;
@@ -218,6 +267,24 @@ function collectConfigAssignments(params: {
     });
   }
 
+  const hookMappings = params.config.hooks?.mappings as HookMappingLike[] | undefined;
+  if (hookMappings) {
+    collectHookMappingAssignments({
+      mappings: hookMappings,
+      defaults,
+      context: params.context,
+    });
+  }
+
+  const metrics = params.config.gateway?.http?.endpoints?.metrics as GatewayMetricsLike | undefined;
+  if (metrics) {
+    collectGatewayMetricsAssignment({
+      metrics,
+      defaults,
+      context: params.context,
+    });
+  }
+
   const googleChat = params.config.channels?.googlechat as GoogleChatAccountLike | undefined;
   if (googleChat) {
     collectGoogleChatAssignments({
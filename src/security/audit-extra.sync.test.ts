@@ -1,6 +1,9 @@
 import { describe, expect, it } from "vitest";
 import type { OpenClawConfig } from "../config/config.js";
-import { collectAttackSurfaceSummaryFindings } from "./audit-extra.sync.js";
+import {
+  collectAttackSurfaceSummaryFindings,
+  collectToolArgRuleFindings,
+} from "./audit-extra.sync.js";
 import { safeEqualSecret } from "./secret-equal.js";
 
 describe("collectAttackSurfaceSummaryFindings", () => {
@@ -34,6 +37,49 @@ describe("collectAttackSurfaceSummaryFindings", () => {
   });
 });
 
+describe("collectToolArgRuleFindings", () => {
+  it("reports broad and unevaluable argument rules", () => {
+    const cfg: OpenClawConfig = {
+      tools: {
+        argRules: [
+          { tools: ["web_fetch"], args: { url: { domains: ["docs.python.org", "com"] } } },
+          { tools: ["exec"], args: { command: { pattern: "git status" } } },
+          { tools: ["read"], args: { path: { paths: ["~/**"] } } },
+        ],
+      },
+      agents: {
+        list: [
+          {
+            id: "ops",
+            tools: { argRules: [{ tools: ["exec"], args: { command: { pattern: "(a+)+" } } }] },
+          },
+        ],
+      },
+    };
+
+    const findings = collectToolArgRuleFindings(cfg);
+    const broad = findings.find((finding) => finding.checkId === "tools.arg_rules_broad");
+    expect(broad?.detail).toContain('tools.argRules[0]: url.domains entry "com"');
+    expect(broad?.detail).toContain("tools.argRules[1]: command.pattern is not anchored");
+    expect(broad?.detail).toContain('tools.argRules[2]: path.paths entry "~/**"');
+    expect(broad?.detail).not.toContain("docs.python.org");
+    const invalid = findings.find((finding) => finding.checkId === "tools.arg_rules_invalid");
+    expect(invalid?.detail).toContain("agents.list.ops.tools.argRules[0]: command.pattern");
+  });
+
+  it("stays quiet for narrow rules", () => {
+    const cfg: OpenClawConfig = {
+      tools: {
+        argRules: [
+          { tools: ["exec"], args: { command: { pattern: "^git (status|log)$" } } },
+          { tools: ["write"], args: { path: { paths: ["${workspace}/**"] } } },
+        ],
+      },
+    };
+    expect(collectToolArgRuleFindings(cfg)).toEqual([]);
+  });
+});
+
 describe("safeEqualSecret", () => {
   it("matches identical secrets", () => {
     expect(safeEqualSecret("secret-token", "secret-token")).toBe(true);
@@ -19,14 +19,16 @@ import {
   resolveAgentModelFallbackValues,
   resolveAgentModelPrimaryValue,
 } from "../config/model-input.js";
-import type { AgentToolsConfig } from "../config/types.tools.js";
+import type { AgentToolsConfig, ToolArgCondition, ToolArgRule } from "../config/types.tools.js";
 import { resolveGatewayAuth } from "../gateway/auth.js";
 import {
   DEFAULT_DANGEROUS_NODE_COMMANDS,
   resolveNodeCommandAllowlist,
 } from "../gateway/node-command-policy.js";
+import { expandHomePrefix } from "../infra/home-dir.js";
 import { inferParamBFromIdOrName } from "../shared/model-param-b.js";
 import { pickSandboxToolPolicy } from "./audit-tool-policy.js";
+import { compileSafeRegex } from "./safe-regex.js";
 
 export type SecurityAuditFinding = {
   checkId: string;
@@ -1038,6 +1040,113 @@ export function collectMinimalProfileOverrideFindings(cfg: OpenClawConfig): Secu
   return findings;
 }
 
+function isMatchAllGlob(pattern: string): boolean {
+  return /^\**$/.test(pattern.trim());
+}
+
+function describeBroadArgCondition(
+  argName: string,
+  condition: ToolArgCondition,
+): { broad: string[]; invalid: string[] } {
+  const broad: string[] = [];
+  const invalid: string[] = [];
+  if (condition.allow?.some(isMatchAllGlob)) {
+    broad.push(`${argName}.allow matches any value`);
+  }
+  for (const domain of condition.domains ?? []) {
+    const normalized = domain.trim().toLowerCase().replace(/^\*\./, "");
+    if (!normalized || normalized.includes("*") || !normalized.includes(".")) {
+      broad.push(`${argName}.domains entry "${domain}" covers a whole TLD or every host`);
+    }
+  }
+  for (const pattern of condition.paths ?? []) {
+    if (pattern.includes("${workspace}")) {
+      continue;
+    }
+    const expanded = expandHomePrefix(pattern.trim());
+    const prefix = expanded.split("*")[0] ?? "";
+    const home = expandHomePrefix("~");
+    if (
+      expanded.includes("*") &&
+      (prefix === "" || prefix === "/" || prefix.replace(/\/+$/, "") === home.replace(/\/+$/, ""))
+    ) {
+      broad.push(
+        `${argName}.paths entry "${pattern}" covers the whole filesystem or home directory`,
+      );
+    }
+  }
+  if (condition.pattern !== undefined) {
+    const regex = compileSafeRegex(condition.pattern);
+    if (!regex) {
+      invalid.push(`${argName}.pattern is not a valid safe regular expression (calls are denied)`);
+    } else if (regex.test("")) {
+      broad.push(`${argName}.pattern matches an empty value, so it matches almost anything`);
+    } else if (
+      !condition.pattern.trim().startsWith("^") ||
+      !condition.pattern.trim().endsWith("$")
+    ) {
+      broad.push(
+        `${argName}.pattern is not anchored with ^...$ (extra text such as chained commands still matches)`,
+      );
+    }
+  }
+  return { broad, invalid };
+}
+
+export function collectToolArgRuleFindings(cfg: OpenClawConfig): SecurityAuditFinding[] {
+  const findings: SecurityAuditFinding[] = [];
+  const sources: Array<{ label: string; rules: ToolArgRule[] | undefined }> = [
+    { label: "tools.argRules", rules: cfg.tools?.argRules },
+    ...(cfg.agents?.list ?? [])
+      .filter((entry) => entry && typeof entry.id === "string")
+      .map((entry) => ({
+        label: `agents.list.${entry.id}.tools.argRules`,
+        rules: entry.tools?.argRules,
+      })),
+  ];
+  const broad: string[] = [];
+  const invalid: string[] = [];
+  for (const source of sources) {
+    (source.rules ?? []).forEach((rule, index) => {
+      const label = `${source.label}[${index}]`;
+      if (rule.tools.some(isMatchAllGlob)) {
+        broad.push(`${label}: applies to every tool`);
+      }
+      const conditions = Object.entries(rule.args ?? {});
+      if (conditions.length === 0) {
+        broad.push(`${label}: has no argument conditions, so it never denies anything`);
+      }
+      for (const [argName, condition] of conditions) {
+        const described = describeBroadArgCondition(argName, condition);
+        broad.push(...described.broad.map((entry) => `${label}: ${entry}`));
+        invalid.push(...described.invalid.map((entry) => `${label}: ${entry}`));
+      }
+    });
+  }
+
+  if (invalid.length > 0) {
+    findings.push({
+      checkId: "tools.arg_rules_invalid",
+      severity: "warn",
+      title: "Some tool argument rules cannot be evaluated",
+      detail: invalid.map((entry) => `- ${entry}`).join("\n"),
+      remediation:
+        "Fix the listed patterns (no nested repetition such as `(a+)+`). Until then every matching call is denied.",
+    });
+  }
+  if (broad.length > 0) {
+    findings.push({
+      checkId: "tools.arg_rules_broad",
+      severity: "warn",
+      title: "Some tool argument rules are broader than they look",
+      detail: broad.map((entry) => `- ${entry}`).join("\n"),
+      remediation:
+        "Narrow these conditions to the domains, paths, or commands the agent actually needs; anchor patterns with ^...$.",
+    });
+  }
+  return findings;
+}
+
 export function collectModelHygieneFindings(cfg: OpenClawConfig): SecurityAuditFinding[] {
   const findings: SecurityAuditFinding[] = [];
   const models = collectModels(cfg);
@@ -0,0 +1,140 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { SessionManager } from "@mariozechner/pi-coding-agent";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { SessionEntry } from "../config/sessions/types.js";
+import {
+  addSessionBranch,
+  forkSessionTranscript,
+  listInactiveSessionBranches,
+  listSessionBranches,
+  listSessionTurns,
+  readLastSessionTurn,
+  switchSessionBranch,
+} from "./session-branches.js";
+
+let root = "";
+
+function writeTranscript(turns: Array<[string, string]>): string {
+  const manager = SessionManager.create(root, root);
+  for (const [question, answer] of turns) {
+    manager.appendMessage({ role: "user", content: question, timestamp: 1 });
+    manager.appendMessage({
+      role: "assistant",
+      content: [{ type: "text", text: answer }],
+      api: "openai-responses",
+      provider: "openai",
+      model: "gpt-test",
+      usage: {
+        input: 1,
+        output: 1,
+        cacheRead: 0,
+        cacheWrite: 0,
+        totalTokens: 2,
+        cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+      },
+      stopReason: "stop",
+      timestamp: 2,
+    });
+  }
+  const file = manager.getSessionFile();
+  if (!file) {
+    throw new Error("transcript not persisted");
+  }
+  return file;
+}
+
+function userTexts(sessionFile: string): string[] {
+  return listSessionTurns(SessionManager.open(sessionFile)).map((turn) => turn.text);
+}
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-session-branches-"));
+});
+
+afterEach(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("session branches", () => {
+  it("forks a transcript truncated at a turn", () => {
+    const file = writeTranscript([
+      ["one", "a1"],
+      ["two", "a2"],
+      ["three", "a3"],
+    ]);
+
+    const forked = forkSessionTranscript({ sessionFile: file, turns: 2 });
+
+    expect(forked.turns).toBe(2);
+    expect(forked.sessionFile).not.toBe(file);
+    expect(userTexts(forked.sessionFile)).toEqual(["one", "two"]);
+    // The last kept turn still has its reply.
+    const branch = SessionManager.open(forked.sessionFile).getBranch();
+    expect(branch.at(-1)).toMatchObject({ type: "message", message: { role: "assistant" } });
+    expect(SessionManager.open(forked.sessionFile).getHeader()?.parentSession).toBe(file);
+    // The parent transcript is untouched.
+    expect(userTexts(file)).toEqual(["one", "two", "three"]);
+  });
+
+  it("keeps everything by default and nothing for turn 0", async () => {
+    const file = writeTranscript([
+      ["one", "a1"],
+      ["two", "a2"],
+    ]);
+
+    expect(userTexts(forkSessionTranscript({ sessionFile: file }).sessionFile)).toEqual([
+      "one",
+      "two",
+    ]);
+    const empty = forkSessionTranscript({ sessionFile: file, turns: 0 });
+    expect(empty.turns).toBe(0);
+    expect(userTexts(empty.sessionFile)).toEqual([]);
+    expect((await fs.readFile(empty.sessionFile, "utf8")).trim().split("\n")).toHaveLength(1);
+  });
+
+  it("reads the last user turn for retries", () => {
+    const file = writeTranscript([
+      ["one", "a1"],
+      ["two", "a2"],
+    ]);
+
+    expect(readLastSessionTurn(file)).toMatchObject({ index: 1, turn: { text: "two" } });
+  });
+
+  it("tracks branches on the session entry", () => {
+    const entry: SessionEntry = {
+      sessionId: "main",
+      updatedAt: 1,
+      totalTokens: 500,
+      totalTokensFresh: true,
+      claudeCliSessionId: "cli-1",
+    };
+
+    const branch = addSessionBranch(
+      entry,
+      { sessionId: "b1", sessionFile: "/tmp/b1.jsonl", turns: 2 },
+      10,
+    );
+
+    expect(branch).toEqual({
+      sessionId: "b1",
+      sessionFile: "/tmp/b1.jsonl",
+      createdAt: 10,
+      parentSessionId: "main",
+      turns: 2,
+    });
+    expect(entry.sessionId).toBe("b1");
+    expect(entry.totalTokensFresh).toBe(false);
+    expect(entry.claudeCliSessionId).toBeUndefined();
+    expect(listSessionBranches(entry).map((b) => b.sessionId)).toEqual(["main", "b1"]);
+    expect(listInactiveSessionBranches(entry).map((b) => b.sessionId)).toEqual(["main"]);
+
+    expect(switchSessionBranch(entry, "missing")).toBeNull();
+    expect(switchSessionBranch(entry, "main", 20)?.sessionId).toBe("main");
+    expect(entry.sessionId).toBe("main");
+    expect(entry.sessionFile).toBeUndefined();
+    expect(listInactiveSessionBranches(entry).map((b) => b.sessionId)).toEqual(["b1"]);
+  });
+});
@@ -0,0 +1,180 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { CURRENT_SESSION_VERSION, SessionManager } from "@mariozechner/pi-coding-agent";
+import type { SessionBranch, SessionEntry } from "../config/sessions/types.js";
+
+type TranscriptEntry = ReturnType<SessionManager["getBranch"]>[number];
+
+export type SessionTurn = {
+  /** Entry id of the user message that opens the turn. */
+  id: string;
+  /** Entry id the user message hangs off (null for the first entry). */
+  parentId: string | null;
+  /** Raw text of the user message. */
+  text: string;
+};
+
+export type ForkedSessionTranscript = {
+  sessionId: string;
+  sessionFile: string;
+  /** Number of user turns carried over from the parent transcript. */
+  turns: number;
+};
+
+function readUserText(entry: TranscriptEntry): string | null {
+  if (entry.type !== "message") {
+    return null;
+  }
+  const message = entry.message as { role?: unknown; content?: unknown };
+  if (message.role !== "user") {
+    return null;
+  }
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+  if (!Array.isArray(message.content)) {
+    return "";
+  }
+  return message.content
+    .filter(
+      (block): block is { type: "text"; text: string } =>
+        Boolean(block) && block.type === "text" && typeof block.text === "string",
+    )
+    .map((block) => block.text)
+    .join("\n");
+}
+
+/** User turns on the active path of a transcript, oldest first. */
+export function listSessionTurns(manager: SessionManager): SessionTurn[] {
+  const turns: SessionTurn[] = [];
+  for (const entry of manager.getBranch()) {
+    const text = readUserText(entry);
+    if (text !== null) {
+      turns.push({ id: entry.id, parentId: entry.parentId, text });
+    }
+  }
+  return turns;
+}
+
+function writeEmptyTranscript(manager: SessionManager, parentSessionFile: string) {
+  const sessionId = crypto.randomUUID();
+  const timestamp = new Date().toISOString();
+  const fileTimestamp = timestamp.replace(/[:.]/g, "-");
+  const sessionFile = path.join(manager.getSessionDir(), `${fileTimestamp}_${sessionId}.jsonl`);
+  const header = {
+    type: "session",
+    version: CURRENT_SESSION_VERSION,
+    id: sessionId,
+    timestamp,
+    cwd: manager.getCwd(),
+    parentSession: parentSessionFile,
+  };
+  fs.writeFileSync(sessionFile, `${JSON.stringify(header)}\n`, "utf-8");
+  return { sessionId, sessionFile };
+}
+
+/**
+ * Copy a transcript into a new file next to it, keeping the first `turns` user
+ * turns (and everything the agent did in reply to them). Omitting `turns`
+ * keeps the whole history; 0 starts the branch empty.
+ */
+export function forkSessionTranscript(params: {
+  sessionFile: string;
+  turns?: number;
+}): ForkedSessionTranscript {
+  const manager = SessionManager.open(params.sessionFile);
+  const userTurns = listSessionTurns(manager);
+  const keep =
+    params.turns === undefined
+      ? userTurns.length
+      : Math.max(0, Math.min(Math.floor(params.turns), userTurns.length));
+  const leafId = keep < userTurns.length ? userTurns[keep]?.parentId : manager.getLeafId();
+  if (!leafId) {
+    return { ...writeEmptyTranscript(manager, params.sessionFile), turns: 0 };
+  }
+  manager.createBranchedSession(leafId);
+  const sessionFile = manager.getSessionFile();
+  if (!sessionFile) {
+    throw new Error(`failed to write branch for ${params.sessionFile}`);
+  }
+  return { sessionId: manager.getSessionId(), sessionFile, turns: keep };
+}
+
+/** The latest user turn, or null when the transcript has none yet. */
+export function readLastSessionTurn(
+  sessionFile: string,
+): { turn: SessionTurn; index: number } | null {
+  const turns = listSessionTurns(SessionManager.open(sessionFile));
+  const index = turns.length - 1;
+  const turn = turns[index];
+  return turn ? { turn, index } : null;
+}
+
+/**
+ * Every transcript known for a session key, including the active one. Entries
+ * that were never branched report a single implicit branch.
+ */
+export function listSessionBranches(entry: SessionEntry): SessionBranch[] {
+  const branches = entry.branches ?? [];
+  if (branches.some((branch) => branch.sessionId === entry.sessionId)) {
+    return branches;
+  }
+  return [
+    { sessionId: entry.sessionId, sessionFile: entry.sessionFile, createdAt: entry.updatedAt },
+    ...branches,
+  ];
+}
+
+/** Branches other than the active transcript; reset and delete archive these too. */
+export function listInactiveSessionBranches(entry: SessionEntry): SessionBranch[] {
+  return (entry.branches ?? []).filter((branch) => branch.sessionId !== entry.sessionId);
+}
+
+function activateTranscript(entry: SessionEntry, branch: SessionBranch, now: number) {
+  entry.sessionId = branch.sessionId;
+  entry.sessionFile = branch.sessionFile;
+  entry.updatedAt = now;
+  entry.abortedLastRun = false;
+  // Token counts and CLI resume ids describe the transcript we just left.
+  entry.totalTokensFresh = false;
+  delete entry.cliSessionIds;
+  delete entry.claudeCliSessionId;
+}
+
+/** Record a freshly forked transcript on the entry and make it the active one. */
+export function addSessionBranch(
+  entry: SessionEntry,
+  forked: ForkedSessionTranscript,
+  now = Date.now(),
+): SessionBranch {
+  const branches = listSessionBranches(entry);
+  const branch: SessionBranch = {
+    sessionId: forked.sessionId,
+    sessionFile: forked.sessionFile,
+    createdAt: now,
+    parentSessionId: entry.sessionId,
+    turns: forked.turns,
+  };
+  entry.branches = [...branches, branch];
+  activateTranscript(entry, branch, now);
+  return branch;
+}
+
+/** Make an existing branch active. Returns null when the id is not a branch of this entry. */
+export function switchSessionBranch(
+  entry: SessionEntry,
+  sessionId: string,
+  now = Date.now(),
+): SessionBranch | null {
+  const branches = listSessionBranches(entry);
+  const branch = branches.find((candidate) => candidate.sessionId === sessionId);
+  if (!branch) {
+    return null;
+  }
+  if (branch.sessionId !== entry.sessionId) {
+    entry.branches = branches;
+    activateTranscript(entry, branch, now);
+  }
+  return branch;
+}
@@ -0,0 +1,175 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  closeTranscriptSearchIndexesForTest,
+  queryTranscriptSearchIndex,
+  syncTranscriptSearchIndex,
+  type TranscriptSearchSource,
+} from "./transcript-search.js";
+
+let root = "";
+let dbPath = "";
+
+function line(record: unknown): string {
+  return `${JSON.stringify(record)}\n`;
+}
+
+function header(id: string): string {
+  return line({ type: "session", version: 3, id, timestamp: "2026-01-01T00:00:00.000Z" });
+}
+
+function message(role: string, text: string, extra?: Record<string, unknown>): string {
+  return line({
+    type: "message",
+    timestamp: "2026-01-02T10:00:00.000Z",
+    message: { role, content: [{ type: "text", text }], ...extra },
+  });
+}
+
+async function writeTranscript(name: string, content: string): Promise<string> {
+  const file = path.join(root, name);
+  await fs.writeFile(file, content);
+  return file;
+}
+
+function source(file: string, sessionKey: string, channel?: string): TranscriptSearchSource {
+  return {
+    file,
+    sessionKey,
+    sessionId: path.basename(file, ".jsonl"),
+    agentId: sessionKey.split(":")[1] ?? "main",
+    channel,
+  };
+}
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-transcript-search-"));
+  dbPath = path.join(root, "search", "sessions.sqlite");
+});
+
+afterEach(async () => {
+  closeTranscriptSearchIndexesForTest();
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("transcript search", () => {
+  it("finds messages and maps them back to their session", async () => {
+    const vpn = await writeTranscript(
+      "s1.jsonl",
+      header("s1") +
+        message("user", "The VPN cert expires next week, can you renew it?") +
+        message("assistant", "Sure, renewing the certificate now."),
+    );
+    const other = await writeTranscript(
+      "s2.jsonl",
+      header("s2") + message("user", "What's for lunch?"),
+    );
+
+    await syncTranscriptSearchIndex({
+      dbPath,
+      sources: [
+        source(vpn, "agent:main:telegram:group:1", "telegram"),
+        source(other, "agent:ops:main"),
+      ],
+    });
+
+    const hits = queryTranscriptSearchIndex({ dbPath, query: "vpn cert" });
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({
+      sessionKey: "agent:main:telegram:group:1",
+      sessionId: "s1",
+      agentId: "main",
+      channel: "telegram",
+      role: "user",
+      line: 2,
+      timestamp: Date.parse("2026-01-02T10:00:00.000Z"),
+    });
+    expect(hits[0]?.snippet).toContain("VPN cert");
+  });
+
+  it("filters by role, tool name, channel, agent and date", async () => {
+    const file = await writeTranscript(
+      "s1.jsonl",
+      header("s1") +
+        message("user", "deploy the gateway") +
+        line({
+          type: "message",
+          message: {
+            role: "assistant",
+            content: [{ type: "toolCall", id: "c1", name: "exec", arguments: { cmd: "deploy" } }],
+            timestamp: Date.parse("2026-03-01T00:00:00.000Z"),
+          },
+        }) +
+        message("toolResult", "deploy finished", { toolName: "exec", toolCallId: "c1" }),
+    );
+    await syncTranscriptSearchIndex({
+      dbPath,
+      sources: [source(file, "agent:main:discord:channel:9", "discord")],
+    });
+
+    expect(queryTranscriptSearchIndex({ dbPath, query: "deploy" })).toHaveLength(3);
+    expect(queryTranscriptSearchIndex({ dbPath, query: "deploy", role: "user" })).toHaveLength(1);
+    expect(
+      queryTranscriptSearchIndex({ dbPath, query: "deploy", toolName: "exec" }).map(
+        (hit) => hit.line,
+      ),
+    ).toEqual(expect.arrayContaining([3, 4]));
+    expect(queryTranscriptSearchIndex({ dbPath, query: "deploy", channel: "slack" })).toEqual([]);
+    expect(queryTranscriptSearchIndex({ dbPath, query: "deploy", agentId: "ops" })).toEqual([]);
+    expect(
+      queryTranscriptSearchIndex({ dbPath, query: "deploy", agentIds: ["ops", "main"] }),
+    ).toHaveLength(3);
+    expect(queryTranscriptSearchIndex({ dbPath, query: "deploy", agentIds: ["ops"] })).toEqual([]);
+    expect(
+      queryTranscriptSearchIndex({
+        dbPath,
+        query: "deploy",
+        sessionKeyPrefix: "agent:main:discord:",
+      }),
+    ).toHaveLength(3);
+    expect(
+      queryTranscriptSearchIndex({
+        dbPath,
+        query: "deploy",
+        sessionKeyPrefix: "agent:main:slack:",
+      }),
+    ).toEqual([]);
+    expect(
+      queryTranscriptSearchIndex({
+        dbPath,
+        query: "deploy",
+        after: Date.parse("2026-02-01T00:00:00.000Z"),
+      }).map((hit) => hit.line),
+    ).toEqual([3]);
+  });
+
+  it("indexes appended lines incrementally and reindexes rewritten transcripts", async () => {
+    const file = await writeTranscript("s1.jsonl", header("s1") + message("user", "alpha"));
+    const sources = [source(file, "agent:main:main")];
+    await syncTranscriptSearchIndex({ dbPath, sources });
+
+    // Partial trailing line: not indexed until it is complete.
+    await fs.appendFile(file, message("assistant", "bravo") + '{"type":"message"');
+    await syncTranscriptSearchIndex({ dbPath, sources });
+    expect(queryTranscriptSearchIndex({ dbPath, query: "bravo" })[0]?.line).toBe(3);
+
+    // Compaction rewrites the file from the top.
+    await fs.writeFile(file, header("s1-compacted") + message("user", "charlie"));
+    const result = await syncTranscriptSearchIndex({ dbPath, sources });
+    expect(result.indexed).toBe(1);
+    expect(queryTranscriptSearchIndex({ dbPath, query: "alpha" })).toEqual([]);
+    expect(queryTranscriptSearchIndex({ dbPath, query: "charlie" })).toHaveLength(1);
+  });
+
+  it("prunes transcripts that are no longer referenced", async () => {
+    const file = await writeTranscript("s1.jsonl", header("s1") + message("user", "delta"));
+    await syncTranscriptSearchIndex({ dbPath, sources: [source(file, "agent:main:main")] });
+
+    const result = await syncTranscriptSearchIndex({ dbPath, sources: [], prune: true });
+
+    expect(result.removed).toBe(1);
+    expect(queryTranscriptSearchIndex({ dbPath, query: "delta" })).toEqual([]);
+  });
+});
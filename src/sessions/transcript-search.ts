@@ -0,0 +1,621 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { DatabaseSync } from "node:sqlite";
+import { listAgentIds } from "../agents/agent-scope.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import {
+  loadSessionStore,
+  resolveSessionFilePath,
+  resolveSessionFilePathOptions,
+  resolveStorePath,
+} from "../config/sessions.js";
+import { redactSensitiveText } from "../logging/redact.js";
+import { buildFtsQuery } from "../memory/hybrid.js";
+import { extractSessionText } from "../memory/session-files.js";
+import { requireNodeSqlite } from "../memory/sqlite.js";
+import { normalizeAgentId } from "../routing/session-key.js";
+import { truncateUtf16Safe } from "../utils.js";
+import { parseAgentSessionKey } from "./session-key-utils.js";
+
+// ============================================================================
+// Full-text search over session transcripts
+// ============================================================================
+//
+// One FTS5 row per user/assistant message, tool call and tool result, with the
+// owning session (key, agent, channel) kept per transcript file. Transcripts
+// are append-only JSONL, so a sync only reads bytes past the indexed offset;
+// files that shrink or get a new header (compaction, reset) are reindexed.
+
+const SCHEMA_VERSION = 1;
+const FTS_TABLE = "transcript_fts";
+const BUSY_TIMEOUT_MS = 5_000;
+const HEAD_BYTES = 512;
+const MAX_MESSAGE_CHARS = 8_000;
+const MAX_TOOL_ARGS_CHARS = 2_000;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 200;
+
+const DATABASES = new Map<string, DatabaseSync>();
+const SYNCS = new Map<string, Promise<TranscriptSearchSyncResult>>();
+
+export type TranscriptSearchRole = "user" | "assistant" | "tool";
+
+/** A live transcript and the session it belongs to. */
+export type TranscriptSearchSource = {
+  file: string;
+  sessionKey: string;
+  sessionId: string;
+  agentId: string;
+  channel?: string;
+};
+
+export type TranscriptSearchQuery = {
+  query: string;
+  agentId?: string;
+  /** Only these agents (ignored when `agentId` is set). */
+  agentIds?: string[];
+  /** Only sessions whose key starts with this prefix. */
+  sessionKeyPrefix?: string;
+  channel?: string;
+  role?: TranscriptSearchRole;
+  toolName?: string;
+  /** Only messages at or after this epoch-ms timestamp. */
+  after?: number;
+  /** Only messages before this epoch-ms timestamp. */
+  before?: number;
+  limit?: number;
+};
+
+export type TranscriptSearchHit = {
+  sessionKey: string;
+  sessionId: string;
+  agentId: string;
+  channel?: string;
+  role: TranscriptSearchRole;
+  toolName?: string;
+  timestamp?: number;
+  /** 1-based JSONL line in the transcript. */
+  line: number;
+  snippet: string;
+  score: number;
+};
+
+export type TranscriptSearchSyncResult = {
+  files: number;
+  indexed: number;
+  removed: number;
+};
+
+type IndexedMessage = {
+  line: number;
+  role: TranscriptSearchRole;
+  toolName: string | null;
+  timestamp: number | null;
+  text: string;
+};
+
+type FileRow = {
+  path: string;
+  session_key: string;
+  session_id: string;
+  agent_id: string;
+  channel: string | null;
+  size: number;
+  mtime_ms: number;
+  offset: number;
+  lines: number;
+  head: string;
+};
+
+/** `YYYY-MM-DD` (UTC) day bounds -> `after`/`before` epoch-ms, with `endDate` inclusive. */
+export function resolveTranscriptSearchDateBounds(params: {
+  startDate?: string;
+  endDate?: string;
+}): { after?: number; before?: number } {
+  const parseDay = (value: string, label: string) => {
+    const ms = /^\d{4}-\d{2}-\d{2}$/.test(value) ? Date.parse(`${value}T00:00:00Z`) : NaN;
+    if (!Number.isFinite(ms)) {
+      throw new Error(`Invalid ${label} "${value}" (expected YYYY-MM-DD)`);
+    }
+    return ms;
+  };
+  const after = params.startDate ? parseDay(params.startDate, "start date") : undefined;
+  const before = params.endDate
+    ? parseDay(params.endDate, "end date") + 24 * 60 * 60_000
+    : undefined;
+  return { after, before };
+}
+
+export function resolveTranscriptSearchIndexPath(env: NodeJS.ProcessEnv = process.env): string {
+  return path.join(resolveStateDir(env), "search", "sessions.sqlite");
+}
+
+function ensureSchema(db: DatabaseSync): void {
+  db.exec(`PRAGMA journal_mode = WAL`);
+  db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS meta (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS files (
+      path TEXT PRIMARY KEY,
+      session_key TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      agent_id TEXT NOT NULL,
+      channel TEXT,
+      size INTEGER NOT NULL,
+      mtime_ms INTEGER NOT NULL,
+      offset INTEGER NOT NULL,
+      lines INTEGER NOT NULL,
+      head TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_files_agent ON files(agent_id);
+    CREATE INDEX IF NOT EXISTS idx_files_channel ON files(channel);
+  `);
+  try {
+    db.exec(
+      `CREATE VIRTUAL TABLE IF NOT EXISTS ${FTS_TABLE} USING fts5(\n` +
+        `  text,\n` +
+        `  path UNINDEXED,\n` +
+        `  line UNINDEXED,\n` +
+        `  role UNINDEXED,\n` +
+        `  tool_name UNINDEXED,\n` +
+        `  ts UNINDEXED\n` +
+        `);`,
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Session search needs SQLite FTS5, which this Node runtime lacks: ${message}`, {
+      cause: err,
+    });
+  }
+  db.prepare(`INSERT OR REPLACE INTO meta (key, value) VALUES ('schema_version', ?)`).run(
+    String(SCHEMA_VERSION),
+  );
+}
+
+function openIndex(dbPath: string): DatabaseSync {
+  const cached = DATABASES.get(dbPath);
+  if (cached && fs.existsSync(dbPath)) {
+    return cached;
+  }
+  cached?.close();
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true, mode: 0o700 });
+  const { DatabaseSync } = requireNodeSqlite();
+  const db = new DatabaseSync(dbPath);
+  try {
+    ensureSchema(db);
+  } catch (err) {
+    db.close();
+    throw err;
+  }
+  try {
+    fs.chmodSync(dbPath, 0o600);
+  } catch {
+    // Best-effort on platforms without POSIX modes.
+  }
+  DATABASES.set(dbPath, db);
+  return db;
+}
+
+function resolveEntryChannel(entry: {
+  channel?: string;
+  lastChannel?: string;
+  deliveryContext?: { channel?: string };
+}): string | undefined {
+  const channel = entry.channel ?? entry.lastChannel ?? entry.deliveryContext?.channel;
+  return channel?.trim().toLowerCase() || undefined;
+}
+
+/** Live transcripts referenced by the configured agents' session stores. */
+export function collectTranscriptSearchSources(
+  cfg: OpenClawConfig,
+  opts?: { agentIds?: string[] },
+): TranscriptSearchSource[] {
+  const wanted = opts?.agentIds ? new Set(opts.agentIds.map(normalizeAgentId)) : undefined;
+  const agentIds = wanted ? [...wanted] : listAgentIds(cfg);
+  const seenStores = new Set<string>();
+  const sources = new Map<string, TranscriptSearchSource>();
+  for (const storeAgentId of agentIds) {
+    const storePath = resolveStorePath(cfg.session?.store, { agentId: storeAgentId });
+    if (seenStores.has(storePath)) {
+      continue;
+    }
+    seenStores.add(storePath);
+    const store = loadSessionStore(storePath);
+    for (const [sessionKey, entry] of Object.entries(store)) {
+      if (!entry?.sessionId) {
+        continue;
+      }
+      const agentId = parseAgentSessionKey(sessionKey)?.agentId ?? storeAgentId;
+      if (wanted && !wanted.has(agentId)) {
+        continue;
+      }
+      const file = resolveSessionFilePath(
+        entry.sessionId,
+        entry,
+        resolveSessionFilePathOptions({ agentId, storePath }),
+      );
+      sources.set(file, {
+        file,
+        sessionKey,
+        sessionId: entry.sessionId,
+        agentId,
+        channel: resolveEntryChannel(entry),
+      });
+    }
+  }
+  return [...sources.values()];
+}
+
+function parseTimestamp(record: { timestamp?: unknown }, message: { timestamp?: unknown }) {
+  if (typeof message.timestamp === "number" && Number.isFinite(message.timestamp)) {
+    return message.timestamp;
+  }
+  if (typeof record.timestamp === "string") {
+    const parsed = Date.parse(record.timestamp);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function prepareText(text: string, maxChars: number): string {
+  return truncateUtf16Safe(redactSensitiveText(text, { mode: "tools" }), maxChars);
+}
+
+function extractToolCallText(block: { name?: unknown; arguments?: unknown }): string {
+  let args = "";
+  try {
+    args = block.arguments === undefined ? "" : JSON.stringify(block.arguments);
+  } catch {
+    // Unserializable arguments: index the tool name alone.
+  }
+  return `${String(block.name)} ${truncateUtf16Safe(args, MAX_TOOL_ARGS_CHARS)}`.trim();
+}
+
+/** Searchable rows for one JSONL line (empty for headers, metadata and non-text content). */
+export function extractTranscriptSearchMessages(raw: string, line: number): IndexedMessage[] {
+  let record: unknown;
+  try {
+    record = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  if (!record || typeof record !== "object" || (record as { type?: unknown }).type !== "message") {
+    return [];
+  }
+  const message = (record as { message?: unknown }).message as
+    | { role?: unknown; content?: unknown; toolName?: unknown; timestamp?: unknown }
+    | undefined;
+  if (!message || typeof message.role !== "string") {
+    return [];
+  }
+  const timestamp = parseTimestamp(record as { timestamp?: unknown }, message);
+  const rows: IndexedMessage[] = [];
+  if (message.role === "user" || message.role === "assistant") {
+    const text = extractSessionText(message.content);
+    if (text) {
+      rows.push({
+        line,
+        role: message.role,
+        toolName: null,
+        timestamp,
+        text: prepareText(text, MAX_MESSAGE_CHARS),
+      });
+    }
+    if (message.role === "assistant" && Array.isArray(message.content)) {
+      for (const block of message.content as Array<{ type?: unknown; name?: unknown }>) {
+        if (block?.type !== "toolCall" || typeof block.name !== "string") {
+          continue;
+        }
+        rows.push({
+          line,
+          role: "tool",
+          toolName: block.name,
+          timestamp,
+          text: prepareText(extractToolCallText(block), MAX_MESSAGE_CHARS),
+        });
+      }
+    }
+  } else if (message.role === "toolResult") {
+    const text = extractSessionText(message.content);
+    const toolName = typeof message.toolName === "string" ? message.toolName : null;
+    if (text) {
+      rows.push({
+        line,
+        role: "tool",
+        toolName,
+        timestamp,
+        text: prepareText(text, MAX_MESSAGE_CHARS),
+      });
+    }
+  }
+  return rows;
+}
+
+async function readRange(file: string, start: number, end: number): Promise<Buffer> {
+  const handle = await fs.promises.open(file, "r");
+  try {
+    const length = Math.max(0, end - start);
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, start);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/** Hash of the first bytes of the indexed prefix, to detect rewritten transcripts. */
+async function hashHead(file: string, indexedBytes: number): Promise<string> {
+  const head = await readRange(file, 0, Math.min(indexedBytes, HEAD_BYTES));
+  return crypto.createHash("sha256").update(head).digest("hex");
+}
+
+function withTransaction(db: DatabaseSync, fn: () => void): void {
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    fn();
+    db.exec("COMMIT");
+  } catch (err) {
+    db.exec("ROLLBACK");
+    throw err;
+  }
+}
+
+async function syncSource(
+  db: DatabaseSync,
+  source: TranscriptSearchSource,
+  existing: FileRow | undefined,
+): Promise<boolean> {
+  let stat: fs.Stats;
+  try {
+    stat = await fs.promises.stat(source.file);
+  } catch {
+    return false;
+  }
+  const mtimeMs = Math.floor(stat.mtimeMs);
+  const channel = source.channel ?? null;
+  const metaChanged =
+    existing !== undefined &&
+    (existing.session_key !== source.sessionKey ||
+      existing.session_id !== source.sessionId ||
+      existing.agent_id !== source.agentId ||
+      existing.channel !== channel);
+  if (existing && existing.size === stat.size && existing.mtime_ms === mtimeMs) {
+    if (metaChanged) {
+      db.prepare(
+        `UPDATE files SET session_key = ?, session_id = ?, agent_id = ?, channel = ? WHERE path = ?`,
+      ).run(source.sessionKey, source.sessionId, source.agentId, channel, source.file);
+    }
+    return false;
+  }
+
+  // Append only when the already-indexed prefix is unchanged; compaction and resets rewrite it.
+  const append =
+    existing !== undefined &&
+    stat.size >= existing.offset &&
+    (await hashHead(source.file, existing.offset)) === existing.head;
+  const start = append ? existing.offset : 0;
+  const chunk = await readRange(source.file, start, stat.size);
+  // Only index complete lines; a partial trailing line is picked up next sync.
+  const complete = chunk.subarray(0, chunk.lastIndexOf(0x0a) + 1);
+  const offset = start + complete.length;
+  let lineNumber = append ? existing.lines : 0;
+  const messages: IndexedMessage[] = [];
+  const text = complete.toString("utf8");
+  for (const raw of text.length > 0 ? text.slice(0, -1).split("\n") : []) {
+    lineNumber++;
+    if (raw.trim()) {
+      messages.push(...extractTranscriptSearchMessages(raw, lineNumber));
+    }
+  }
+  const head = await hashHead(source.file, offset);
+
+  withTransaction(db, () => {
+    if (!append) {
+      db.prepare(`DELETE FROM ${FTS_TABLE} WHERE path = ?`).run(source.file);
+    }
+    const insert = db.prepare(
+      `INSERT INTO ${FTS_TABLE} (text, path, line, role, tool_name, ts) VALUES (?, ?, ?, ?, ?, ?)`,
+    );
+    for (const message of messages) {
+      insert.run(
+        message.text,
+        source.file,
+        message.line,
+        message.role,
+        message.toolName,
+        message.timestamp,
+      );
+    }
+    db.prepare(
+      `INSERT INTO files (path, session_key, session_id, agent_id, channel, size, mtime_ms, offset, lines, head)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(path) DO UPDATE SET
+         session_key = excluded.session_key,
+         session_id = excluded.session_id,
+         agent_id = excluded.agent_id,
+         channel = excluded.channel,
+         size = excluded.size,
+         mtime_ms = excluded.mtime_ms,
+         offset = excluded.offset,
+         lines = excluded.lines,
+         head = excluded.head`,
+    ).run(
+      source.file,
+      source.sessionKey,
+      source.sessionId,
+      source.agentId,
+      channel,
+      stat.size,
+      mtimeMs,
+      offset,
+      lineNumber,
+      head,
+    );
+  });
+  return true;
+}
+
+async function runSync(params: {
+  dbPath: string;
+  sources: TranscriptSearchSource[];
+  prune: boolean;
+}): Promise<TranscriptSearchSyncResult> {
+  const db = openIndex(params.dbPath);
+  const rows = db.prepare(`SELECT * FROM files`).all() as FileRow[];
+  const existing = new Map(rows.map((row) => [row.path, row]));
+  let indexed = 0;
+  for (const source of params.sources) {
+    if (await syncSource(db, source, existing.get(source.file))) {
+      indexed++;
+    }
+    existing.delete(source.file);
+  }
+  let removed = 0;
+  if (params.prune) {
+    for (const stale of existing.keys()) {
+      withTransaction(db, () => {
+        db.prepare(`DELETE FROM ${FTS_TABLE} WHERE path = ?`).run(stale);
+        db.prepare(`DELETE FROM files WHERE path = ?`).run(stale);
+      });
+      removed++;
+    }
+  }
+  return { files: params.sources.length, indexed, removed };
+}
+
+/**
+ * Brings the index up to date with `sources`. With `prune`, transcripts no
+ * longer in `sources` (reset, deleted, archived) drop out of the index.
+ * Concurrent syncs of the same index share one run.
+ */
+export async function syncTranscriptSearchIndex(params: {
+  sources: TranscriptSearchSource[];
+  dbPath?: string;
+  prune?: boolean;
+}): Promise<TranscriptSearchSyncResult> {
+  const dbPath = params.dbPath ?? resolveTranscriptSearchIndexPath();
+  const inflight = SYNCS.get(dbPath);
+  if (inflight) {
+    return await inflight;
+  }
+  const run = runSync({ dbPath, sources: params.sources, prune: params.prune === true }).finally(
+    () => {
+      SYNCS.delete(dbPath);
+    },
+  );
+  SYNCS.set(dbPath, run);
+  return await run;
+}
+
+/** Ranked hits from the index; run `syncTranscriptSearchIndex` first for fresh results. */
+export function queryTranscriptSearchIndex(
+  params: TranscriptSearchQuery & { dbPath?: string },
+): TranscriptSearchHit[] {
+  const ftsQuery = buildFtsQuery(params.query);
+  if (!ftsQuery) {
+    return [];
+  }
+  const db = openIndex(params.dbPath ?? resolveTranscriptSearchIndexPath());
+  const clauses: string[] = [];
+  const values: Array<string | number> = [];
+  const agentIds = params.agentId ? [params.agentId] : params.agentIds;
+  if (agentIds) {
+    clauses.push(`files.agent_id IN (${agentIds.map(() => "?").join(", ")})`);
+    values.push(...agentIds.map(normalizeAgentId));
+  }
+  if (params.sessionKeyPrefix) {
+    clauses.push("substr(files.session_key, 1, ?) = ?");
+    values.push(params.sessionKeyPrefix.length, params.sessionKeyPrefix);
+  }
+  if (params.channel) {
+    clauses.push("files.channel = ?");
+    values.push(params.channel.trim().toLowerCase());
+  }
+  if (params.role) {
+    clauses.push(`${FTS_TABLE}.role = ?`);
+    values.push(params.role);
+  }
+  if (params.toolName) {
+    clauses.push(`${FTS_TABLE}.tool_name = ?`);
+    values.push(params.toolName.trim());
+  }
+  if (params.after !== undefined) {
+    clauses.push(`${FTS_TABLE}.ts >= ?`);
+    values.push(params.after);
+  }
+  if (params.before !== undefined) {
+    clauses.push(`${FTS_TABLE}.ts < ?`);
+    values.push(params.before);
+  }
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Math.floor(params.limit ?? DEFAULT_LIMIT)));
+  const where = clauses.map((clause) => ` AND ${clause}`).join("");
+  const rows = db
+    .prepare(
+      `SELECT files.session_key, files.session_id, files.agent_id, files.channel,\n` +
+        `       ${FTS_TABLE}.role, ${FTS_TABLE}.tool_name, ${FTS_TABLE}.ts, ${FTS_TABLE}.line,\n` +
+        `       snippet(${FTS_TABLE}, 0, '', '', '…', 24) AS snippet,\n` +
+        `       bm25(${FTS_TABLE}) AS rank\n` +
+        `  FROM ${FTS_TABLE}\n` +
+        `  JOIN files ON files.path = ${FTS_TABLE}.path\n` +
+        ` WHERE ${FTS_TABLE} MATCH ?${where}\n` +
+        ` ORDER BY rank ASC\n` +
+        ` LIMIT ?`,
+    )
+    .all(ftsQuery, ...values, limit) as Array<{
+    session_key: string;
+    session_id: string;
+    agent_id: string;
+    channel: string | null;
+    role: TranscriptSearchRole;
+    tool_name: string | null;
+    ts: number | null;
+    line: number;
+    snippet: string;
+    rank: number;
+  }>;
+  return rows.map((row) => ({
+    sessionKey: row.session_key,
+    sessionId: row.session_id,
+    agentId: row.agent_id,
+    ...(row.channel ? { channel: row.channel } : {}),
+    role: row.role,
+    ...(row.tool_name ? { toolName: row.tool_name } : {}),
+    ...(typeof row.ts === "number" ? { timestamp: row.ts } : {}),
+    line: row.line,
+    snippet: row.snippet,
+    // bm25() is lower-is-better and negative; flip it so higher scores rank first.
+    score: Math.max(0, -row.rank),
+  }));
+}
+
+/**
+ * Syncs the index with the configured session stores, then searches it.
+ * Used by `sessions.search` and `openclaw sessions search`.
+ */
+export async function searchSessionTranscripts(
+  cfg: OpenClawConfig,
+  query: TranscriptSearchQuery & { dbPath?: string },
+): Promise<{ hits: TranscriptSearchHit[]; sync: TranscriptSearchSyncResult }> {
+  // Prune only on full syncs; an agent-scoped sync must not drop other agents' files.
+  const agentIds = query.agentId ? [query.agentId] : query.agentIds;
+  const sources = collectTranscriptSearchSources(cfg, { agentIds });
+  const sync = await syncTranscriptSearchIndex({
+    sources,
+    dbPath: query.dbPath,
+    prune: !agentIds,
+  });
+  return { hits: queryTranscriptSearchIndex(query), sync };
+}
+
+export function closeTranscriptSearchIndexesForTest(): void {
+  for (const db of DATABASES.values()) {
+    db.close();
+  }
+  DATABASES.clear();
+  SYNCS.clear();
+}
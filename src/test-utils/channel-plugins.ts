@@ -19,6 +19,8 @@ export const createTestRegistry = (channels: TestChannelRegistration[] = []): Pl
   typedHooks: [],
   channels: channels as unknown as PluginRegistry["channels"],
   providers: [],
+  webSearchProviders: [],
+  webFetchProviders: [],
   gatewayHandlers: {},
   httpHandlers: [],
   httpRoutes: [],
@@ -0,0 +1,171 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { buildLocalTtsArgv, localTTS, parseWavPcm, splitLocalTtsText } from "./local-tts.js";
+import { resolveTtsConfig, textToSpeechTelephony } from "./tts.js";
+
+// Stand-in for `piper`: reads text on stdin and writes one 16-bit sample per character.
+const FAKE_PIPER = `#!/usr/bin/env node
+const fs = require("node:fs");
+const args = process.argv.slice(2);
+const out = args[args.indexOf("--output_file") + 1];
+const text = fs.readFileSync(0, "utf8").trim();
+const data = Buffer.alloc(text.length * 2);
+const header = Buffer.alloc(44);
+header.write("RIFF", 0);
+header.writeUInt32LE(36 + data.length, 4);
+header.write("WAVEfmt ", 8);
+header.writeUInt32LE(16, 16);
+header.writeUInt16LE(1, 20);
+header.writeUInt16LE(1, 22);
+header.writeUInt32LE(16000, 24);
+header.writeUInt32LE(32000, 28);
+header.writeUInt16LE(2, 32);
+header.writeUInt16LE(16, 34);
+header.write("data", 36);
+header.writeUInt32LE(data.length, 40);
+fs.writeFileSync(out, Buffer.concat([header, data]));
+`;
+
+function buildWav(params: { sampleRate: number; samples: number; extraChunk?: boolean }): Buffer {
+  const data = Buffer.alloc(params.samples * 2);
+  const fmt = Buffer.alloc(24);
+  fmt.write("fmt ", 0);
+  fmt.writeUInt32LE(16, 4);
+  fmt.writeUInt16LE(1, 8);
+  fmt.writeUInt16LE(1, 10);
+  fmt.writeUInt32LE(params.sampleRate, 12);
+  fmt.writeUInt32LE(params.sampleRate * 2, 16);
+  fmt.writeUInt16LE(2, 20);
+  fmt.writeUInt16LE(16, 22);
+  const list = params.extraChunk
+    ? Buffer.from("LIST\x03\x00\x00\x00abc\x00", "binary")
+    : Buffer.of();
+  const dataHeader = Buffer.alloc(8);
+  dataHeader.write("data", 0);
+  dataHeader.writeUInt32LE(data.length, 4);
+  const body = Buffer.concat([Buffer.from("WAVE"), fmt, list, dataHeader, data]);
+  const riff = Buffer.alloc(8);
+  riff.write("RIFF", 0);
+  riff.writeUInt32LE(body.length, 4);
+  return Buffer.concat([riff, body]);
+}
+
+describe("local tts", () => {
+  const tempDirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of tempDirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  function writeFakePiper(): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-local-tts-"));
+    tempDirs.push(dir);
+    const script = path.join(dir, "piper");
+    fs.writeFileSync(script, FAKE_PIPER, { mode: 0o755 });
+    return script;
+  }
+
+  it("splits long text on sentence boundaries and falls back to words", () => {
+    expect(splitLocalTtsText("One. Two!  Three?", 12)).toEqual(["One. Two!", "Three?"]);
+    expect(splitLocalTtsText("alpha beta gamma delta", 11)).toEqual(["alpha beta", "gamma delta"]);
+    expect(splitLocalTtsText("   ", 100)).toEqual([]);
+  });
+
+  it("extracts PCM from WAV files with extra chunks", () => {
+    const wav = parseWavPcm(buildWav({ sampleRate: 22050, samples: 5, extraChunk: true }));
+    expect(wav).toMatchObject({ sampleRate: 22050, channels: 1 });
+    expect(wav.data.length).toBe(10);
+    expect(() => parseWavPcm(Buffer.from("not a wav"))).toThrow(/not a WAV/);
+  });
+
+  it("builds piper and sherpa-onnx command lines", () => {
+    const config = resolveTtsConfig({
+      messages: { tts: { local: { modelPath: "/voices/a.onnx", speaker: 2, lengthScale: 1.2 } } },
+    } as OpenClawConfig).local;
+    expect(buildLocalTtsArgv({ config, text: "Hi", outputPath: "/tmp/o.wav" })).toEqual({
+      argv: [
+        "piper",
+        "--model",
+        "/voices/a.onnx",
+        "--speaker",
+        "2",
+        "--length_scale",
+        "1.2",
+        "--output_file",
+        "/tmp/o.wav",
+      ],
+      input: "Hi\n",
+    });
+
+    const sherpa = { ...config, engine: "sherpa-onnx" as const, tokensPath: "/voices/tokens.txt" };
+    expect(buildLocalTtsArgv({ config: sherpa, text: "--Hi", outputPath: "/tmp/o.wav" })).toEqual({
+      argv: [
+        "sherpa-onnx-offline-tts",
+        "--vits-model=/voices/a.onnx",
+        "--vits-tokens=/voices/tokens.txt",
+        "--sid=2",
+        "--vits-length-scale=1.2",
+        "--output-filename=/tmp/o.wav",
+        " --Hi",
+      ],
+    });
+    expect(() =>
+      buildLocalTtsArgv({
+        config: { ...sherpa, tokensPath: undefined },
+        text: "Hi",
+        outputPath: "/tmp/o.wav",
+      }),
+    ).toThrow(/tokensPath/);
+  });
+
+  it.skipIf(process.platform === "win32")(
+    "synthesizes long text chunk by chunk and stitches PCM",
+    async () => {
+      const config = resolveTtsConfig({
+        messages: {
+          tts: {
+            local: { modelPath: "/voices/a.onnx", command: writeFakePiper(), chunkChars: 50 },
+          },
+        },
+      } as OpenClawConfig).local;
+      const text = "First sentence is here. ".repeat(5).trim();
+
+      const result = await localTTS({ text, config, outputFormat: "pcm", timeoutMs: 10_000 });
+
+      expect(result.chunks).toBe(3);
+      expect(result.sampleRate).toBe(16000);
+      const chunks = splitLocalTtsText(text, 50);
+      expect(result.audioBuffer.length).toBe(chunks.join("").length * 2);
+    },
+  );
+
+  it.skipIf(process.platform === "win32")(
+    "serves telephony PCM from the local provider",
+    async () => {
+      const cfg: OpenClawConfig = {
+        messages: {
+          tts: {
+            provider: "local",
+            prefsPath: path.join(os.tmpdir(), "openclaw-local-tts-prefs.json"),
+            local: { modelPath: "/voices/a.onnx", command: writeFakePiper() },
+          },
+        },
+      };
+
+      const result = await textToSpeechTelephony({ text: "Hello from an offline host.", cfg });
+
+      expect(result).toMatchObject({
+        success: true,
+        provider: "local",
+        outputFormat: "pcm",
+        sampleRate: 16000,
+      });
+      expect(result.audioBuffer?.length).toBe("Hello from an offline host.".length * 2);
+    },
+  );
+});
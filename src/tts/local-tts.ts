@@ -0,0 +1,328 @@
+import { spawn } from "node:child_process";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import path from "node:path";
+import { resolvePreferredOpenClawTmpDir } from "../infra/tmp-openclaw-dir.js";
+import { runCommandWithTimeout } from "../process/exec.js";
+import { resolveUserPath } from "../utils.js";
+import type { ResolvedTtsConfig } from "./tts.js";
+
+export type LocalTtsEngine = "piper" | "sherpa-onnx";
+
+export type LocalTtsOutputFormat = "opus" | "mp3" | "pcm";
+
+export type LocalTtsResult = {
+  audioBuffer: Buffer;
+  sampleRate: number;
+  chunks: number;
+};
+
+export const DEFAULT_LOCAL_TTS_COMMANDS: Record<LocalTtsEngine, string> = {
+  piper: "piper",
+  "sherpa-onnx": "sherpa-onnx-offline-tts",
+};
+
+type WavPcm = {
+  sampleRate: number;
+  channels: number;
+  data: Buffer;
+};
+
+/**
+ * Extracts 16-bit PCM samples from a RIFF/WAVE file. Both supported engines
+ * write 16-bit PCM WAV, so this is all we need to stitch chunks together.
+ */
+export function parseWavPcm(buffer: Buffer): WavPcm {
+  if (
+    buffer.length < 12 ||
+    buffer.toString("ascii", 0, 4) !== "RIFF" ||
+    buffer.toString("ascii", 8, 12) !== "WAVE"
+  ) {
+    throw new Error("engine output is not a WAV file");
+  }
+  let sampleRate = 0;
+  let channels = 0;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    if (id === "fmt ") {
+      const audioFormat = buffer.readUInt16LE(body);
+      const bitsPerSample = buffer.readUInt16LE(body + 14);
+      if (audioFormat !== 1 || bitsPerSample !== 16) {
+        throw new Error("engine output must be 16-bit PCM WAV");
+      }
+      channels = buffer.readUInt16LE(body + 2);
+      sampleRate = buffer.readUInt32LE(body + 4);
+    } else if (id === "data") {
+      if (!sampleRate) {
+        throw new Error("WAV data chunk precedes fmt chunk");
+      }
+      // Streaming writers may leave the size at 0 or 0xffffffff; trust the file length.
+      const end = size > 0 && body + size <= buffer.length ? body + size : buffer.length;
+      return { sampleRate, channels, data: buffer.subarray(body, end) };
+    }
+    offset = body + size + (size % 2);
+  }
+  throw new Error("WAV file has no data chunk");
+}
+
+/**
+ * Splits text into synthesis chunks on sentence boundaries (falling back to
+ * whitespace) so long replies never hit engine input limits and can be
+ * encoded while later chunks are still synthesizing.
+ */
+export function splitLocalTtsText(text: string, maxChars: number): string[] {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  if (!normalized) {
+    return [];
+  }
+  const sentences = (
+    normalized.match(/[^.!?…。！？]*(?:[.!?…。！？]+["'”’)\]]*|$)\s*/g) ?? [normalized]
+  ).filter(Boolean);
+  const chunks: string[] = [];
+  let current = "";
+  const flush = () => {
+    const trimmed = current.trim();
+    if (trimmed) {
+      chunks.push(trimmed);
+    }
+    current = "";
+  };
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > maxChars) {
+      flush();
+    }
+    if (sentence.length <= maxChars) {
+      current += sentence;
+      continue;
+    }
+    for (const word of sentence.split(" ")) {
+      if (current && current.length + word.length + 1 > maxChars) {
+        flush();
+      }
+      current += current ? ` ${word}` : word;
+    }
+  }
+  flush();
+  return chunks;
+}
+
+export function buildLocalTtsArgv(params: {
+  config: ResolvedTtsConfig["local"];
+  text: string;
+  outputPath: string;
+}): { argv: string[]; input?: string } {
+  const { config, text, outputPath } = params;
+  const modelPath = resolveUserPath(config.modelPath ?? "");
+  const command = config.command ?? DEFAULT_LOCAL_TTS_COMMANDS[config.engine];
+  if (config.engine === "sherpa-onnx") {
+    if (!config.tokensPath) {
+      throw new Error("tokensPath is required for sherpa-onnx");
+    }
+    const argv = [
+      command,
+      `--vits-model=${modelPath}`,
+      `--vits-tokens=${resolveUserPath(config.tokensPath)}`,
+    ];
+    if (config.dataDir) {
+      argv.push(`--vits-data-dir=${resolveUserPath(config.dataDir)}`);
+    }
+    if (config.speaker != null) {
+      argv.push(`--sid=${config.speaker}`);
+    }
+    if (config.lengthScale != null) {
+      argv.push(`--vits-length-scale=${config.lengthScale}`);
+    }
+    argv.push(`--output-filename=${outputPath}`);
+    // sherpa-onnx takes text as a positional arg; keep a leading "--" from parsing as a flag.
+    argv.push(text.startsWith("-") ? ` ${text}` : text);
+    return { argv };
+  }
+  const argv = [command, "--model", modelPath];
+  if (config.configPath) {
+    argv.push("--config", resolveUserPath(config.configPath));
+  }
+  if (config.speaker != null) {
+    argv.push("--speaker", String(config.speaker));
+  }
+  if (config.lengthScale != null) {
+    argv.push("--length_scale", String(config.lengthScale));
+  }
+  argv.push("--output_file", outputPath);
+  return { argv, input: `${text}\n` };
+}
+
+async function synthesizeChunk(params: {
+  config: ResolvedTtsConfig["local"];
+  text: string;
+  outputPath: string;
+  timeoutMs: number;
+}): Promise<WavPcm> {
+  const { argv, input } = buildLocalTtsArgv(params);
+  const result = await runCommandWithTimeout(argv, {
+    timeoutMs: params.timeoutMs,
+    input: input ?? "",
+  });
+  if (result.termination === "timeout") {
+    throw new Error(`${params.config.engine} timed out`);
+  }
+  if (result.code !== 0) {
+    const detail = result.stderr.trim().split("\n").pop();
+    throw new Error(
+      `${params.config.engine} exited with code ${result.code}${detail ? `: ${detail}` : ""}`,
+    );
+  }
+  return parseWavPcm(readFileSync(params.outputPath));
+}
+
+function ffmpegEncodeArgs(format: "opus" | "mp3"): string[] {
+  // Match the hosted providers: 48kHz/64kbps Opus voice notes, 44.1kHz/128kbps MP3.
+  if (format === "opus") {
+    return ["-c:a", "libopus", "-b:a", "64k", "-ar", "48000", "-f", "ogg"];
+  }
+  return ["-c:a", "libmp3lame", "-b:a", "128k", "-ar", "44100", "-f", "mp3"];
+}
+
+type PcmEncoder = {
+  write: (pcm: Buffer) => void;
+  finish: () => Promise<Buffer>;
+  abort: () => void;
+};
+
+function startFfmpegEncoder(params: {
+  ffmpegPath: string;
+  format: "opus" | "mp3";
+  sampleRate: number;
+  channels: number;
+  timeoutMs: number;
+}): PcmEncoder {
+  const child = spawn(
+    params.ffmpegPath,
+    [
+      "-hide_banner",
+      "-loglevel",
+      "error",
+      "-f",
+      "s16le",
+      "-ar",
+      String(params.sampleRate),
+      "-ac",
+      String(params.channels),
+      "-i",
+      "pipe:0",
+      ...ffmpegEncodeArgs(params.format),
+      "pipe:1",
+    ],
+    { stdio: ["pipe", "pipe", "pipe"] },
+  );
+  const stdout: Buffer[] = [];
+  let stderr = "";
+  let timedOut = false;
+  child.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+  child.stderr.on("data", (chunk: Buffer) => {
+    stderr += chunk.toString();
+  });
+  // Surfaced through `done`; ignore EPIPE when ffmpeg exits early.
+  child.stdin.on("error", () => {});
+  const timer = setTimeout(() => {
+    timedOut = true;
+    child.kill("SIGKILL");
+  }, params.timeoutMs);
+  const done = new Promise<Buffer>((resolve, reject) => {
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      reject(new Error(`ffmpeg failed to start: ${err.message}`, { cause: err }));
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(new Error("ffmpeg timed out"));
+      } else if (code !== 0) {
+        const detail = stderr.trim().split("\n").pop();
+        reject(new Error(`ffmpeg exited with code ${code}${detail ? `: ${detail}` : ""}`));
+      } else {
+        resolve(Buffer.concat(stdout));
+      }
+    });
+  });
+  // Avoid unhandled rejections when synthesis fails before finish() is awaited.
+  done.catch(() => {});
+  return {
+    write: (pcm) => {
+      child.stdin.write(pcm);
+    },
+    finish: async () => {
+      child.stdin.end();
+      return await done;
+    },
+    abort: () => {
+      clearTimeout(timer);
+      child.kill("SIGKILL");
+    },
+  };
+}
+
+/**
+ * Synthesizes speech with a local CPU engine (Piper or sherpa-onnx). Text is
+ * synthesized chunk by chunk and each chunk's PCM is streamed into ffmpeg as it
+ * lands, so long replies encode while later chunks are still synthesizing.
+ * `pcm` output skips ffmpeg and returns raw 16-bit samples (telephony).
+ */
+export async function localTTS(params: {
+  text: string;
+  config: ResolvedTtsConfig["local"];
+  outputFormat: LocalTtsOutputFormat;
+  timeoutMs: number;
+}): Promise<LocalTtsResult> {
+  const { config, outputFormat } = params;
+  if (!config.modelPath) {
+    throw new Error("modelPath is not configured");
+  }
+  const chunks = splitLocalTtsText(params.text, config.chunkChars);
+  if (chunks.length === 0) {
+    throw new Error("no text to synthesize");
+  }
+  const timeoutMs = config.timeoutMs ?? params.timeoutMs;
+  const tempRoot = resolvePreferredOpenClawTmpDir();
+  mkdirSync(tempRoot, { recursive: true, mode: 0o700 });
+  const workDir = mkdtempSync(path.join(tempRoot, "tts-local-"));
+  const pcm: Buffer[] = [];
+  let encoder: PcmEncoder | undefined;
+  let format: { sampleRate: number; channels: number } | undefined;
+  try {
+    for (const [index, text] of chunks.entries()) {
+      const wav = await synthesizeChunk({
+        config,
+        text,
+        outputPath: path.join(workDir, `chunk-${index}.wav`),
+        timeoutMs,
+      });
+      if (!format) {
+        format = { sampleRate: wav.sampleRate, channels: wav.channels };
+        if (outputFormat !== "pcm") {
+          encoder = startFfmpegEncoder({
+            ffmpegPath: config.ffmpegPath,
+            format: outputFormat,
+            ...format,
+            timeoutMs: timeoutMs * chunks.length,
+          });
+        }
+      } else if (wav.sampleRate !== format.sampleRate || wav.channels !== format.channels) {
+        throw new Error("engine changed audio format between chunks");
+      }
+      if (encoder) {
+        encoder.write(wav.data);
+      } else {
+        pcm.push(wav.data);
+      }
+    }
+    const audioBuffer = encoder ? await encoder.finish() : Buffer.concat(pcm);
+    return { audioBuffer, sampleRate: format?.sampleRate ?? 0, chunks: chunks.length };
+  } catch (err) {
+    encoder?.abort();
+    throw err;
+  } finally {
+    rmSync(workDir, { recursive: true, force: true });
+  }
+}
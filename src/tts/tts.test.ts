@@ -417,6 +417,21 @@ describe("tts", () => {
         });
       }
     });
+
+    it("prefers a configured local model over edge when no API keys are set", () => {
+      withEnv(
+        { OPENAI_API_KEY: undefined, ELEVENLABS_API_KEY: undefined, XI_API_KEY: undefined },
+        () => {
+          const config = resolveTtsConfig({
+            ...baseCfg,
+            messages: { tts: { local: { modelPath: "~/voices/en_US-lessac-medium.onnx" } } },
+          });
+          expect(getTtsProvider(config, "/tmp/tts-prefs-local.json")).toBe("local");
+          expect(config.local.engine).toBe("piper");
+          expect(config.local.ffmpegPath).toBe("ffmpeg");
+        },
+      );
+    });
   });
 
   describe("maybeApplyTtsToPayload", () => {
@@ -26,6 +26,7 @@ import { resolvePreferredOpenClawTmpDir } from "../infra/tmp-openclaw-dir.js";
 import { stripMarkdown } from "../line/markdown-to-line.js";
 import { isVoiceCompatibleAudio } from "../media/audio.js";
 import { CONFIG_DIR, resolveUserPath } from "../utils.js";
+import { localTTS } from "./local-tts.js";
 import {
   edgeTTS,
   elevenLabsTTS,
@@ -55,6 +56,8 @@ const DEFAULT_OPENAI_VOICE = "alloy";
 const DEFAULT_EDGE_VOICE = "en-US-MichelleNeural";
 const DEFAULT_EDGE_LANG = "en-US";
 const DEFAULT_EDGE_OUTPUT_FORMAT = "audio-24khz-48kbitrate-mono-mp3";
+const DEFAULT_LOCAL_CHUNK_CHARS = 400;
+const DEFAULT_LOCAL_FFMPEG_PATH = "ffmpeg";
 
 const DEFAULT_ELEVENLABS_VOICE_SETTINGS = {
   stability: 0.5,
@@ -69,6 +72,7 @@ const TELEGRAM_OUTPUT = {
   // ElevenLabs output formats use codec_sample_rate_bitrate naming.
   // Opus @ 48kHz/64kbps is a good voice-note tradeoff for Telegram.
   elevenlabs: "opus_48000_64",
+  local: "opus" as const,
   extension: ".opus",
   voiceCompatible: true,
 };
@@ -76,6 +80,7 @@ const TELEGRAM_OUTPUT = {
 const DEFAULT_OUTPUT = {
   openai: "mp3" as const,
   elevenlabs: "mp3_44100_128",
+  local: "mp3" as const,
   extension: ".mp3",
   voiceCompatible: false,
 };
@@ -128,6 +133,19 @@ export type ResolvedTtsConfig = {
     proxy?: string;
     timeoutMs?: number;
   };
+  local: {
+    engine: "piper" | "sherpa-onnx";
+    command?: string;
+    modelPath?: string;
+    configPath?: string;
+    tokensPath?: string;
+    dataDir?: string;
+    speaker?: number;
+    lengthScale?: number;
+    chunkChars: number;
+    ffmpegPath: string;
+    timeoutMs?: number;
+  };
   prefsPath?: string;
   maxTextLength: number;
   timeoutMs: number;
@@ -303,6 +321,19 @@ export function resolveTtsConfig(cfg: OpenClawConfig): ResolvedTtsConfig {
       proxy: raw.edge?.proxy?.trim() || undefined,
       timeoutMs: raw.edge?.timeoutMs,
     },
+    local: {
+      engine: raw.local?.engine ?? "piper",
+      command: raw.local?.command?.trim() || undefined,
+      modelPath: raw.local?.modelPath?.trim() || undefined,
+      configPath: raw.local?.configPath?.trim() || undefined,
+      tokensPath: raw.local?.tokensPath?.trim() || undefined,
+      dataDir: raw.local?.dataDir?.trim() || undefined,
+      speaker: raw.local?.speaker,
+      lengthScale: raw.local?.lengthScale,
+      chunkChars: raw.local?.chunkChars ?? DEFAULT_LOCAL_CHUNK_CHARS,
+      ffmpegPath: raw.local?.ffmpegPath?.trim() || DEFAULT_LOCAL_FFMPEG_PATH,
+      timeoutMs: raw.local?.timeoutMs,
+    },
     prefsPath: raw.prefsPath,
     maxTextLength: raw.maxTextLength ?? DEFAULT_MAX_TEXT_LENGTH,
     timeoutMs: raw.timeoutMs ?? DEFAULT_TIMEOUT_MS,
@@ -441,6 +472,9 @@ export function getTtsProvider(config: ResolvedTtsConfig, prefsPath: string): Tt
   if (resolveTtsApiKey(config, "elevenlabs")) {
     return "elevenlabs";
   }
+  if (isTtsProviderConfigured(config, "local")) {
+    return "local";
+  }
   return "edge";
 }
 
@@ -508,7 +542,11 @@ export function resolveTtsApiKey(
   return undefined;
 }
 
-export const TTS_PROVIDERS = ["openai", "elevenlabs", "edge"] as const;
+export const TTS_PROVIDERS = ["openai", "elevenlabs", "edge", "local"] as const;
+
+export function isTtsProvider(value: string): value is TtsProvider {
+  return (TTS_PROVIDERS as readonly string[]).includes(value);
+}
 
 export function resolveTtsProviderOrder(primary: TtsProvider): TtsProvider[] {
   return [primary, ...TTS_PROVIDERS.filter((provider) => provider !== primary)];
@@ -518,6 +556,9 @@ export function isTtsProviderConfigured(config: ResolvedTtsConfig, provider: Tts
   if (provider === "edge") {
     return config.edge.enabled;
   }
+  if (provider === "local") {
+    return Boolean(config.local.modelPath);
+  }
   return Boolean(resolveTtsApiKey(config, provider));
 }
 
@@ -628,6 +669,34 @@ export async function textToSpeech(params: {
         };
       }
 
+      if (provider === "local") {
+        if (!isTtsProviderConfigured(config, "local")) {
+          errors.push("local: no modelPath");
+          continue;
+        }
+        const { audioBuffer } = await localTTS({
+          text: params.text,
+          config: config.local,
+          outputFormat: output.local,
+          timeoutMs: config.timeoutMs,
+        });
+        const tempRoot = resolvePreferredOpenClawTmpDir();
+        mkdirSync(tempRoot, { recursive: true, mode: 0o700 });
+        const tempDir = mkdtempSync(path.join(tempRoot, "tts-"));
+        const audioPath = path.join(tempDir, `voice-${Date.now()}${output.extension}`);
+        writeFileSync(audioPath, audioBuffer);
+        scheduleCleanup(tempDir);
+
+        return {
+          success: true,
+          audioPath,
+          latencyMs: Date.now() - providerStart,
+          provider,
+          outputFormat: output.local,
+          voiceCompatible: output.voiceCompatible,
+        };
+      }
+
       const apiKey = resolveTtsApiKey(config, provider);
       if (!apiKey) {
         errors.push(`${provider}: no API key`);
@@ -727,6 +796,28 @@ export async function textToSpeechTelephony(params: {
         continue;
       }
 
+      if (provider === "local") {
+        if (!isTtsProviderConfigured(config, "local")) {
+          errors.push("local: no modelPath");
+          continue;
+        }
+        const { audioBuffer, sampleRate } = await localTTS({
+          text: params.text,
+          config: config.local,
+          outputFormat: "pcm",
+          timeoutMs: config.timeoutMs,
+        });
+
+        return {
+          success: true,
+          audioBuffer,
+          latencyMs: Date.now() - providerStart,
+          provider,
+          outputFormat: "pcm",
+          sampleRate,
+        };
+      }
+
       const apiKey = resolveTtsApiKey(config, provider);
       if (!apiKey) {
         errors.push(`${provider}: no API key`);
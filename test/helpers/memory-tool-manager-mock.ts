@@ -1,10 +1,21 @@
-import { vi } from "vitest";
+import { type Mock, vi } from "vitest";
+import type {
+  MemoryEntry,
+  MemoryEntryListOptions,
+  MemoryEntryUpsert,
+} from "../../src/memory/types.js";
 
 export type SearchImpl = () => Promise<unknown[]>;
 export type MemoryReadParams = { relPath: string; from?: number; lines?: number };
 export type MemoryReadResult = { text: string; path: string };
 type MemoryBackend = "builtin" | "qmd";
 
+export type MemoryToolManagerStub = {
+  upsert: Mock<(entry: MemoryEntryUpsert) => Promise<MemoryEntry>>;
+  delete: Mock<(id: string) => Promise<boolean>>;
+  list: Mock<(opts?: MemoryEntryListOptions) => Promise<MemoryEntry[]>>;
+};
+
 let backend: MemoryBackend = "builtin";
 let searchImpl: SearchImpl = async () => [];
 let readFileImpl: (params: MemoryReadParams) => Promise<MemoryReadResult> = async (params) => ({
@@ -29,6 +40,20 @@ const stubManager = {
     sourceCounts: [{ source: "memory" as const, files: 1, chunks: 1 }],
   }),
   sync: vi.fn(),
+  upsert: vi.fn(
+    async (entry: MemoryEntryUpsert): Promise<MemoryEntry> => ({
+      id: entry.id ?? "generated",
+      path: `memory/entries/${entry.id ?? "generated"}.md`,
+      text: entry.text,
+      tags: entry.tags ?? [],
+      sessionKey: entry.sessionKey,
+      createdAt: 1,
+      updatedAt: 1,
+      expiresAt: entry.expiresAt ?? undefined,
+    }),
+  ),
+  delete: vi.fn(async (_id: string) => true),
+  list: vi.fn(async (_opts?: MemoryEntryListOptions): Promise<MemoryEntry[]> => []),
   probeVectorAvailability: vi.fn(async () => true),
   close: vi.fn(),
 };
@@ -37,6 +62,8 @@ vi.mock("../../src/memory/index.js", () => ({
   getMemorySearchManager: async () => ({ manager: stubManager }),
 }));
 
+export const memoryToolManagerStub: MemoryToolManagerStub = stubManager;
+
 export function setMemoryBackend(next: MemoryBackend): void {
   backend = next;
 }
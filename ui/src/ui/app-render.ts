@@ -54,7 +54,14 @@ import {
 import { loadLogs } from "./controllers/logs.ts";
 import { loadNodes } from "./controllers/nodes.ts";
 import { loadPresence } from "./controllers/presence.ts";
-import { deleteSessionAndRefresh, loadSessions, patchSession } from "./controllers/sessions.ts";
+import {
+  deleteSessionAndRefresh,
+  forkSession,
+  loadSessions,
+  patchSession,
+  switchSessionBranch,
+  searchSessions,
+} from "./controllers/sessions.ts";
 import {
   installSkill,
   loadSkills,
@@ -427,8 +434,23 @@ export function renderApp(state: AppViewState) {
                   state.sessionsIncludeUnknown = next.includeUnknown;
                 },
                 onRefresh: () => loadSessions(state),
+                searchQuery: state.sessionsSearchQuery,
+                searchLoading: state.sessionsSearchLoading,
+                searchResult: state.sessionsSearchResult,
+                searchError: state.sessionsSearchError,
+                onSearchQueryChange: (query) => {
+                  state.sessionsSearchQuery = query;
+                },
+                onSearch: () => searchSessions(state),
+                onSearchClear: () => {
+                  state.sessionsSearchQuery = "";
+                  state.sessionsSearchResult = null;
+                  state.sessionsSearchError = null;
+                },
                 onPatch: (key, patch) => patchSession(state, key, patch),
                 onDelete: (key) => deleteSessionAndRefresh(state, key),
+                onFork: (key) => forkSession(state, key),
+                onSwitchBranch: (key, sessionId) => switchSessionBranch(state, key, sessionId),
               })
             : nothing
         }
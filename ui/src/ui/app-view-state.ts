@@ -36,6 +36,7 @@ import type {
   CostUsageSummary,
   SessionUsageTimeSeries,
   SessionsListResult,
+  SessionsSearchResult,
   SkillStatusReport,
   ToolsCatalogResult,
   StatusSummary,
@@ -163,6 +164,10 @@ export type AppViewState = {
   sessionsFilterLimit: string;
   sessionsIncludeGlobal: boolean;
   sessionsIncludeUnknown: boolean;
+  sessionsSearchQuery: string;
+  sessionsSearchLoading: boolean;
+  sessionsSearchResult: SessionsSearchResult | null;
+  sessionsSearchError: string | null;
   usageLoading: boolean;
   usageResult: SessionsUsageResult | null;
   usageCostSummary: CostUsageSummary | null;
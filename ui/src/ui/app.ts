@@ -77,6 +77,7 @@ import type {
   PresenceEntry,
   ChannelsStatusSnapshot,
   SessionsListResult,
+  SessionsSearchResult,
   SkillStatusReport,
   ToolsCatalogResult,
   StatusSummary,
@@ -245,6 +246,10 @@ export class OpenClawApp extends LitElement {
   @state() sessionsFilterLimit = "120";
   @state() sessionsIncludeGlobal = true;
   @state() sessionsIncludeUnknown = false;
+  @state() sessionsSearchQuery = "";
+  @state() sessionsSearchLoading = false;
+  @state() sessionsSearchResult: SessionsSearchResult | null = null;
+  @state() sessionsSearchError: string | null = null;
 
   @state() usageLoading = false;
   @state() usageResult: import("./types.js").SessionsUsageResult | null = null;
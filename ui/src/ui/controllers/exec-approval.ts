@@ -7,6 +7,7 @@ export type ExecApprovalRequestPayload = {
   agentId?: string | null;
   resolvedPath?: string | null;
   sessionKey?: string | null;
+  tool?: { name: string; action?: string | null } | null;
 };
 
 export type ExecApprovalRequest = {
@@ -27,6 +28,16 @@ function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null;
 }
 
+function parseToolRef(value: unknown): ExecApprovalRequestPayload["tool"] {
+  if (!isRecord(value) || typeof value.name !== "string" || !value.name.trim()) {
+    return null;
+  }
+  return {
+    name: value.name.trim(),
+    action: typeof value.action === "string" ? value.action : null,
+  };
+}
+
 export function parseExecApprovalRequested(payload: unknown): ExecApprovalRequest | null {
   if (!isRecord(payload)) {
     return null;
@@ -56,6 +67,7 @@ export function parseExecApprovalRequested(payload: unknown): ExecApprovalReques
       agentId: typeof request.agentId === "string" ? request.agentId : null,
       resolvedPath: typeof request.resolvedPath === "string" ? request.resolvedPath : null,
       sessionKey: typeof request.sessionKey === "string" ? request.sessionKey : null,
+      tool: parseToolRef(request.tool),
     },
     createdAtMs,
     expiresAtMs,
@@ -1,5 +1,11 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
-import { deleteSession, deleteSessionAndRefresh, type SessionsState } from "./sessions.ts";
+import {
+  deleteSession,
+  deleteSessionAndRefresh,
+  searchSessions,
+  type SessionsSearchState,
+  type SessionsState,
+} from "./sessions.ts";
 
 type RequestFn = (method: string, params?: unknown) => Promise<unknown>;
 
@@ -102,3 +108,40 @@ describe("deleteSession", () => {
     expect(request).not.toHaveBeenCalled();
   });
 });
+
+describe("searchSessions", () => {
+  function createSearchState(request: RequestFn, query: string): SessionsSearchState {
+    return {
+      client: { request } as unknown as SessionsSearchState["client"],
+      connected: true,
+      sessionsSearchQuery: query,
+      sessionsSearchLoading: false,
+      sessionsSearchResult: null,
+      sessionsSearchError: null,
+    };
+  }
+
+  it("stores search hits from sessions.search", async () => {
+    const result = { ts: 1, query: "vpn cert", count: 0, hits: [] };
+    const request = vi.fn(async () => result);
+    const state = createSearchState(request, "  vpn cert ");
+
+    await searchSessions(state);
+
+    expect(request).toHaveBeenCalledWith("sessions.search", { query: "vpn cert", limit: 50 });
+    expect(state.sessionsSearchResult).toBe(result);
+    expect(state.sessionsSearchLoading).toBe(false);
+  });
+
+  it("clears results without calling the gateway for an empty query", async () => {
+    const request = vi.fn(async () => undefined);
+    const state = createSearchState(request, "   ");
+    state.sessionsSearchError = "old";
+
+    await searchSessions(state);
+
+    expect(request).not.toHaveBeenCalled();
+    expect(state.sessionsSearchResult).toBeNull();
+    expect(state.sessionsSearchError).toBeNull();
+  });
+});
@@ -1,6 +1,6 @@
 import { toNumber } from "../format.ts";
 import type { GatewayBrowserClient } from "../gateway.ts";
-import type { SessionsListResult } from "../types.ts";
+import type { SessionsListResult, SessionsSearchResult } from "../types.ts";
 
 export type SessionsState = {
   client: GatewayBrowserClient | null;
@@ -14,6 +14,43 @@ export type SessionsState = {
   sessionsIncludeUnknown: boolean;
 };
 
+export type SessionsSearchState = {
+  client: GatewayBrowserClient | null;
+  connected: boolean;
+  sessionsSearchQuery: string;
+  sessionsSearchLoading: boolean;
+  sessionsSearchResult: SessionsSearchResult | null;
+  sessionsSearchError: string | null;
+};
+
+export async function searchSessions(state: SessionsSearchState) {
+  if (!state.client || !state.connected) {
+    return;
+  }
+  const query = state.sessionsSearchQuery.trim();
+  if (!query) {
+    state.sessionsSearchResult = null;
+    state.sessionsSearchError = null;
+    return;
+  }
+  if (state.sessionsSearchLoading) {
+    return;
+  }
+  state.sessionsSearchLoading = true;
+  state.sessionsSearchError = null;
+  try {
+    const res = await state.client.request<SessionsSearchResult | undefined>("sessions.search", {
+      query,
+      limit: 50,
+    });
+    state.sessionsSearchResult = res ?? null;
+  } catch (err) {
+    state.sessionsSearchError = String(err);
+  } finally {
+    state.sessionsSearchLoading = false;
+  }
+}
+
 export async function loadSessions(
   state: SessionsState,
   overrides?: {
@@ -91,6 +128,30 @@ export async function patchSession(
   }
 }
 
+export async function forkSession(state: SessionsState, key: string) {
+  if (!state.client || !state.connected) {
+    return;
+  }
+  try {
+    await state.client.request("sessions.fork", { key });
+    await loadSessions(state);
+  } catch (err) {
+    state.sessionsError = String(err);
+  }
+}
+
+export async function switchSessionBranch(state: SessionsState, key: string, sessionId: string) {
+  if (!state.client || !state.connected) {
+    return;
+  }
+  try {
+    await state.client.request("sessions.switch", { key, sessionId });
+    await loadSessions(state);
+  } catch (err) {
+    state.sessionsError = String(err);
+  }
+}
+
 export async function deleteSession(state: SessionsState, key: string): Promise<boolean> {
   if (!state.client || !state.connected) {
     return false;
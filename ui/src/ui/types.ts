@@ -354,7 +354,7 @@ export type ToolCatalogEntry = {
   id: string;
   label: string;
   description: string;
-  source: "core" | "plugin";
+  source: "core" | "plugin" | "mcp";
   pluginId?: string;
   optional?: boolean;
   defaultProfiles: Array<"minimal" | "coding" | "messaging" | "full">;
@@ -363,7 +363,7 @@ export type ToolCatalogEntry = {
 export type ToolCatalogGroup = {
   id: string;
   label: string;
-  source: "core" | "plugin";
+  source: "core" | "plugin" | "mcp";
   pluginId?: string;
   tools: ToolCatalogEntry[];
 };
@@ -409,6 +409,14 @@ export type AgentsFilesSetResult = {
   file: AgentFileEntry;
 };
 
+export type SessionBranch = {
+  sessionId: string;
+  sessionFile?: string;
+  createdAt: number;
+  parentSessionId?: string;
+  turns?: number;
+};
+
 export type GatewaySessionRow = {
   key: string;
   kind: "direct" | "group" | "global" | "unknown";
@@ -420,6 +428,7 @@ export type GatewaySessionRow = {
   space?: string;
   updatedAt: number | null;
   sessionId?: string;
+  branches?: SessionBranch[];
   systemSent?: boolean;
   abortedLastRun?: boolean;
   thinkingLevel?: string;
@@ -442,6 +451,26 @@ export type SessionsListResult = {
   sessions: GatewaySessionRow[];
 };
 
+export type SessionsSearchHit = {
+  sessionKey: string;
+  sessionId: string;
+  agentId: string;
+  channel?: string;
+  role: "user" | "assistant" | "tool";
+  toolName?: string;
+  timestamp?: number;
+  line: number;
+  snippet: string;
+  score: number;
+};
+
+export type SessionsSearchResult = {
+  ts: number;
+  query: string;
+  count: number;
+  hits: SessionsSearchHit[];
+};
+
 export type SessionsPatchResult = {
   ok: true;
   path: string;
@@ -20,6 +20,15 @@ export type SessionsUsageEntry = {
   providerOverride?: string;
   modelProvider?: string;
   model?: string;
+  modelRoute?: {
+    tier: string;
+    provider: string;
+    model: string;
+    source: "rule" | "classifier" | "default";
+    reason: string;
+    at: number;
+  };
+  modelRouteCounts?: Record<string, number>;
   usage: {
     input: number;
     output: number;
@@ -155,6 +164,7 @@ export type SessionsUsageResult = {
     }>;
     byAgent: Array<{ agentId: string; totals: SessionsUsageTotals }>;
     byChannel: Array<{ channel: string; totals: SessionsUsageTotals }>;
+    byRouteTier?: Array<{ tier: string; count: number }>;
     latency?: {
       count: number;
       avgMs: number;
@@ -242,9 +242,9 @@ export function renderAgentTools(params: {
                 <div class="agent-tools-header">
                   ${section.label}
                   ${
-                    "source" in section && section.source === "plugin"
+                    "source" in section && (section.source === "plugin" || section.source === "mcp")
                       ? html`
-                          <span class="mono" style="margin-left: 6px">plugin</span>
+                          <span class="mono" style="margin-left: 6px">${section.source}</span>
                         `
                       : nothing
                   }
@@ -253,7 +253,7 @@ export function renderAgentTools(params: {
                   ${section.tools.map((tool) => {
                     const { allowed } = resolveAllowed(tool.id);
                     const catalogTool = tool as {
-                      source?: "core" | "plugin";
+                      source?: "core" | "plugin" | "mcp";
                       pluginId?: string;
                       optional?: boolean;
                     };
@@ -262,7 +262,9 @@ export function renderAgentTools(params: {
                         ? catalogTool.pluginId
                           ? `plugin:${catalogTool.pluginId}`
                           : "plugin"
-                        : "core";
+                        : catalogTool.source === "mcp"
+                          ? (catalogTool.pluginId ?? "mcp")
+                          : "core";
                     const isOptional = catalogTool.optional === true;
                     return html`
                       <div class="agent-tool-row">
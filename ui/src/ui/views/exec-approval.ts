@@ -1,5 +1,6 @@
 import { html, nothing } from "lit";
 import type { AppViewState } from "../app-view-state.ts";
+import type { ExecApprovalRequestPayload } from "../controllers/exec-approval.ts";
 
 function formatRemaining(ms: number): string {
   const remaining = Math.max(0, ms);
@@ -22,6 +23,13 @@ function renderMetaRow(label: string, value?: string | null) {
   return html`<div class="exec-approval-meta-row"><span>${label}</span><span>${value}</span></div>`;
 }
 
+function formatToolRef(tool: ExecApprovalRequestPayload["tool"]) {
+  if (!tool) {
+    return null;
+  }
+  return tool.action ? `${tool.name} (${tool.action})` : tool.name;
+}
+
 export function renderExecApprovalPrompt(state: AppViewState) {
   const active = state.execApprovalQueue[0];
   if (!active) {
@@ -36,7 +44,9 @@ export function renderExecApprovalPrompt(state: AppViewState) {
       <div class="exec-approval-card">
         <div class="exec-approval-header">
           <div>
-            <div class="exec-approval-title">Exec approval needed</div>
+            <div class="exec-approval-title">
+              ${request.tool ? "Tool approval needed" : "Exec approval needed"}
+            </div>
             <div class="exec-approval-sub">${remaining}</div>
           </div>
           ${
@@ -47,6 +57,7 @@ export function renderExecApprovalPrompt(state: AppViewState) {
         </div>
         <div class="exec-approval-command mono">${request.command}</div>
         <div class="exec-approval-meta">
+          ${renderMetaRow("Tool", formatToolRef(request.tool))}
           ${renderMetaRow("Host", request.host)}
           ${renderMetaRow("Agent", request.agentId)}
           ${renderMetaRow("Session", request.sessionKey)}
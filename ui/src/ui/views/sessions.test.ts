@@ -1,5 +1,5 @@
 import { render } from "lit";
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import type { SessionsListResult } from "../types.ts";
 import { renderSessions, type SessionsProps } from "./sessions.ts";
 
@@ -25,8 +25,17 @@ function buildProps(result: SessionsListResult): SessionsProps {
     basePath: "",
     onFiltersChange: () => undefined,
     onRefresh: () => undefined,
+    searchQuery: "",
+    searchLoading: false,
+    searchResult: null,
+    searchError: null,
+    onSearchQueryChange: () => undefined,
+    onSearch: () => undefined,
+    onSearchClear: () => undefined,
     onPatch: () => undefined,
     onDelete: () => undefined,
+    onFork: () => undefined,
+    onSwitchBranch: () => undefined,
   };
 }
 
@@ -78,4 +87,34 @@ describe("sessions view", () => {
       Array.from(reasoning?.options ?? []).some((option) => option.value === "custom-mode"),
     ).toBe(true);
   });
+
+  it("switches between branches of a session", async () => {
+    const container = document.createElement("div");
+    const onSwitchBranch = vi.fn();
+    render(
+      renderSessions({
+        ...buildProps(
+          buildResult({
+            key: "agent:main:main",
+            kind: "direct",
+            updatedAt: Date.now(),
+            sessionId: "b2",
+            branches: [
+              { sessionId: "b1", createdAt: Date.now() - 60_000 },
+              { sessionId: "b2", createdAt: Date.now(), parentSessionId: "b1", turns: 3 },
+            ],
+          }),
+        ),
+        onSwitchBranch,
+      }),
+      container,
+    );
+    await Promise.resolve();
+
+    const branch = container.querySelectorAll("select")[3] as HTMLSelectElement | undefined;
+    expect(branch?.value).toBe("b2");
+    branch!.value = "b1";
+    branch!.dispatchEvent(new Event("change"));
+    expect(onSwitchBranch).toHaveBeenCalledWith("agent:main:main", "b1");
+  });
 });
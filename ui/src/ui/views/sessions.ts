@@ -2,7 +2,12 @@ import { html, nothing } from "lit";
 import { formatRelativeTimestamp } from "../format.ts";
 import { pathForTab } from "../navigation.ts";
 import { formatSessionTokens } from "../presenter.ts";
-import type { GatewaySessionRow, SessionsListResult } from "../types.ts";
+import type {
+  GatewaySessionRow,
+  SessionBranch,
+  SessionsListResult,
+  SessionsSearchResult,
+} from "../types.ts";
 
 export type SessionsProps = {
   loading: boolean;
@@ -20,6 +25,13 @@ export type SessionsProps = {
     includeUnknown: boolean;
   }) => void;
   onRefresh: () => void;
+  searchQuery: string;
+  searchLoading: boolean;
+  searchResult: SessionsSearchResult | null;
+  searchError: string | null;
+  onSearchQueryChange: (query: string) => void;
+  onSearch: () => void;
+  onSearchClear: () => void;
   onPatch: (
     key: string,
     patch: {
@@ -30,6 +42,8 @@ export type SessionsProps = {
     },
   ) => void;
   onDelete: (key: string) => void;
+  onFork: (key: string) => void;
+  onSwitchBranch: (key: string, sessionId: string) => void;
 };
 
 const THINK_LEVELS = ["", "off", "minimal", "low", "medium", "high", "xhigh"] as const;
@@ -178,6 +192,8 @@ export function renderSessions(props: SessionsProps) {
         </label>
       </div>
 
+      ${renderSearch(props)}
+
       ${
         props.error
           ? html`<div class="callout danger" style="margin-top: 12px;">${props.error}</div>`
@@ -198,6 +214,7 @@ export function renderSessions(props: SessionsProps) {
           <div>Thinking</div>
           <div>Verbose</div>
           <div>Reasoning</div>
+          <div>Branch</div>
           <div>Actions</div>
         </div>
         ${
@@ -205,22 +222,114 @@ export function renderSessions(props: SessionsProps) {
             ? html`
                 <div class="muted">No sessions found.</div>
               `
-            : rows.map((row) =>
-                renderRow(row, props.basePath, props.onPatch, props.onDelete, props.loading),
-              )
+            : rows.map((row) => renderRow(row, props))
         }
       </div>
     </section>
   `;
 }
 
-function renderRow(
-  row: GatewaySessionRow,
-  basePath: string,
-  onPatch: SessionsProps["onPatch"],
-  onDelete: SessionsProps["onDelete"],
-  disabled: boolean,
-) {
+function renderSearch(props: SessionsProps) {
+  const hits = props.searchResult?.hits ?? [];
+  return html`
+    <form
+      class="filters"
+      style="margin-top: 14px;"
+      @submit=${(e: Event) => {
+        e.preventDefault();
+        props.onSearch();
+      }}
+    >
+      <label class="field" style="flex: 1;">
+        <span>Search transcripts</span>
+        <input
+          type="search"
+          .value=${props.searchQuery}
+          placeholder="e.g. vpn cert"
+          @input=${(e: Event) => props.onSearchQueryChange((e.target as HTMLInputElement).value)}
+        />
+      </label>
+      <button class="btn" type="submit" ?disabled=${props.searchLoading || !props.searchQuery.trim()}>
+        ${props.searchLoading ? "Searching…" : "Search"}
+      </button>
+      ${
+        props.searchResult || props.searchError
+          ? html`<button class="btn" type="button" @click=${props.onSearchClear}>Clear</button>`
+          : nothing
+      }
+    </form>
+    ${
+      props.searchError
+        ? html`<div class="callout danger" style="margin-top: 12px;">${props.searchError}</div>`
+        : nothing
+    }
+    ${
+      props.searchResult
+        ? html`
+            <div class="list" style="margin-top: 12px;">
+              ${
+                hits.length === 0
+                  ? html`<div class="muted">No messages match "${props.searchResult.query}".</div>`
+                  : hits.map(
+                      (hit) => html`
+                        <div class="list-item">
+                          <div class="list-main">
+                            <div class="list-title mono">
+                              <a
+                                class="session-link"
+                                href=${`${pathForTab("chat", props.basePath)}?session=${encodeURIComponent(hit.sessionKey)}`}
+                                >${hit.sessionKey}</a
+                              >
+                            </div>
+                            <div class="list-sub">${hit.snippet}</div>
+                          </div>
+                          <div class="list-meta muted">
+                            <div>${hit.toolName ? `tool: ${hit.toolName}` : hit.role}</div>
+                            <div>${hit.timestamp ? formatRelativeTimestamp(hit.timestamp) : "n/a"}</div>
+                          </div>
+                        </div>
+                      `,
+                    )
+              }
+            </div>
+          `
+        : nothing
+    }
+  `;
+}
+
+function formatBranchOption(branch: SessionBranch, index: number): string {
+  const turns =
+    typeof branch.turns === "number"
+      ? ` · ${branch.turns} turn${branch.turns === 1 ? "" : "s"}`
+      : "";
+  return `#${index + 1} ${formatRelativeTimestamp(branch.createdAt)}${turns}`;
+}
+
+function renderBranchCell(row: GatewaySessionRow, props: SessionsProps) {
+  const branches = row.branches ?? [];
+  if (branches.length < 2 || !row.sessionId) {
+    return html`
+      <span class="muted">main</span>
+    `;
+  }
+  return html`
+    <select
+      ?disabled=${props.loading}
+      @change=${(e: Event) => props.onSwitchBranch(row.key, (e.target as HTMLSelectElement).value)}
+    >
+      ${branches.map(
+        (branch, index) =>
+          html`<option value=${branch.sessionId} ?selected=${branch.sessionId === row.sessionId}>
+            ${formatBranchOption(branch, index)}
+          </option>`,
+      )}
+    </select>
+  `;
+}
+
+function renderRow(row: GatewaySessionRow, props: SessionsProps) {
+  const { basePath, onPatch, onDelete, loading: disabled } = props;
   const updated = row.updatedAt ? formatRelativeTimestamp(row.updatedAt) : "n/a";
   const rawThinking = row.thinkingLevel ?? "";
   const isBinaryThinking = isBinaryThinkingProvider(row.modelProvider);
@@ -311,7 +420,16 @@ function renderRow(
           )}
         </select>
       </div>
+      <div>${renderBranchCell(row, props)}</div>
       <div>
+        <button
+          class="btn"
+          ?disabled=${disabled || !row.sessionId}
+          title="Copy this session's history onto a new branch"
+          @click=${() => props.onFork(row.key)}
+        >
+          Fork
+        </button>
         <button class="btn danger" ?disabled=${disabled} @click=${() => onDelete(row.key)}>
           Delete
         </button>